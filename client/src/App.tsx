@@ -4,6 +4,8 @@ import { ClerkProvider, SignedIn, SignedOut, SignIn } from '@clerk/clerk-react'
 import Board from './Board'
 import Dashboard from './pages/Dashboard'
 import BoardPage from './pages/BoardPage'
+import InvitePage from './pages/InvitePage'
+import { GUEST_BOARD_ID } from './constants'
 
 const CLERK_KEY = import.meta.env.VITE_CLERK_PUBLISHABLE_KEY
 
@@ -18,7 +20,7 @@ function GuestBoard() {
   )
   if (import.meta.env.DEV) console.log('[AUTH] Joined as guest:', guestName)
   // All guests share the same board so they can collaborate
-  return <Board userName={guestName} boardId="guest-sandbox" />
+  return <Board userName={guestName} boardId={GUEST_BOARD_ID} />
 }
 
 function AuthenticatedApp() {
@@ -26,6 +28,7 @@ function AuthenticatedApp() {
     <Routes>
       <Route path="/" element={<Dashboard />} />
       <Route path="/board/:id" element={<BoardPage />} />
+      <Route path="/invite/:token" element={<InvitePage />} />
     </Routes>
   )
 }
@@ -1,7 +1,7 @@
 import { useState, useCallback, useRef, useEffect, useMemo } from 'react'
 import { Stage, Layer, Rect as KonvaRect } from 'react-konva'
 import type Konva from 'konva'
-import { useYjs } from './useYjs'
+import { useYjs, type AuthTokenGetter } from './useYjs'
 import BoardShape from './BoardShape'
 import Connector from './Connector'
 import ChatPanel from './components/ChatPanel'
@@ -11,10 +11,16 @@ import PresenceBar from './components/PresenceBar'
 import ZoomControls from './components/ZoomControls'
 import CursorBadge from './components/CursorBadge'
 import HelpPanel from './components/HelpPanel'
-import type { BoardObject, ToolType } from './types'
-import { cullObjects, type Viewport } from './utils/viewportCulling'
+import CommentPin from './components/CommentPin'
+import CommentsPanel from './components/CommentsPanel'
+import type { AICommandScope, BoardObject, ToolType } from './types'
+import { cullObjects, getVisibleBounds, type Viewport } from './utils/viewportCulling'
 import { intersects, normalizeRect, getSelectionBounds, type SelectionRect } from './utils/selection'
 import { copyObjects, pasteObjects, type ClipboardState } from './utils/clipboard'
+import { readImportFile } from './utils/importFile'
+import { boardsApi } from './api'
+import { followViewport, remoteSelectionColors } from './utils/presence'
+import { anchorAt, anchorPoint, type CommentAnchor, type CommentMention } from '../../shared/comments'
 
 // ---------------------------------------------------------------------------
 // Frame grouping: detect which frame (if any) fully contains an object
@@ -63,13 +69,24 @@ const DEBUG = import.meta.env.DEV
 interface BoardProps {
   userName: string
   boardId?: string
+  /** Supplies the auth token sent when the board socket (re)connects. */
+  getAuthToken?: AuthTokenGetter
+  /** Viewers and commenters see the board but cannot change it. */
+  readOnly?: boolean
+  /** Everyone but viewers can post comments, even on a read-only board. */
+  canComment?: boolean
+  /** Signed-in user's ID, stamped on their comments and matched by @mentions. */
+  userId?: string
 }
 
-export default function Board({ userName, boardId }: BoardProps) {
+export default function Board({ userName, boardId, getAuthToken, readOnly = false, canComment = !readOnly, userId }: BoardProps) {
   const userColor = USER_COLORS[Math.abs(userName.charCodeAt(0)) % USER_COLORS.length]
 
-  const { objects, remoteCursors, connected, createObject, updateObject, deleteObject, setCursor, undo, redo, canUndo, canRedo } =
-    useYjs(boardId || DEFAULT_BOARD_ID, userName, userColor)
+  const {
+    objects, objectMap, remoteCursors, connected, offline, pendingChanges, rejectedUpdate, accessDenied, authRequired, createObject, updateObject, deleteObject, setCursor,
+    undo, redo, canUndo, canRedo, textCollab, threads, addThread, replyToThread, setThreadResolved,
+    setViewport, setSelection, summonAll, summon,
+  } = useYjs(boardId || DEFAULT_BOARD_ID, userName, userColor, getAuthToken, readOnly, canComment)
 
   const stageRef = useRef<Konva.Stage>(null)
   const [scale, setScale] = useState(1)
@@ -94,6 +111,19 @@ export default function Board({ userName, boardId }: BoardProps) {
   const [showChat, setShowChat] = useState(false)
   // Help panel
   const [showHelp, setShowHelp] = useState(false)
+  // Comments: panel, the thread open in it, and placing a new thread's pin
+  const [showComments, setShowComments] = useState(false)
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null)
+  const [placingComment, setPlacingComment] = useState(false)
+  const [pendingAnchor, setPendingAnchor] = useState<CommentAnchor | null>(null)
+  const [people, setPeople] = useState<CommentMention[]>([])
+  // Follow mode: the remote client whose view we mirror
+  const [followingId, setFollowingId] = useState<string | null>(null)
+  // File drop zone (Excalidraw, Mermaid, Miro or CollabBoard files)
+  const [dropActive, setDropActive] = useState(false)
+  const [importStatus, setImportStatus] = useState<string | null>(null)
+  // Why the server refused our last change, shown briefly
+  const [rejectionNotice, setRejectionNotice] = useState<string | null>(null)
 
   // Derived: first selected ID (for single-object contexts like color picker)
   const selectedId = useMemo(
@@ -130,6 +160,16 @@ export default function Board({ userName, boardId }: BoardProps) {
     [stagePos.x, stagePos.y, scale, size.w, size.h],
   )
 
+  // Sent with AI commands so "these" means the selection and new objects
+  // land where the user is looking
+  const aiScope: AICommandScope = useMemo(() => {
+    const bounds = getVisibleBounds(viewport)
+    return {
+      selectedIds: [...selectedIds],
+      viewport: { x: bounds.left, y: bounds.top, width: bounds.right - bounds.left, height: bounds.bottom - bounds.top },
+    }
+  }, [selectedIds, viewport])
+
   const visibleObjects = useMemo(() => {
     const culled = cullObjects(objects, viewport, 50, MAX_RENDERED_OBJECTS, selectedIds)
     if (DEBUG) console.log(`[CULL] ${culled.length}/${objects.length} objects visible`)
@@ -148,6 +188,7 @@ export default function Board({ userName, boardId }: BoardProps) {
       e.evt.preventDefault()
       const stage = stageRef.current
       if (!stage) return
+      setFollowingId(null)
 
       // Ctrl+wheel (or pinch) = zoom; plain wheel = pan
       if (e.evt.ctrlKey || e.evt.metaKey) {
@@ -236,6 +277,7 @@ export default function Board({ userName, boardId }: BoardProps) {
     (e: Konva.KonvaEventObject<MouseEvent>) => {
       // Middle-mouse drag = pan (works anywhere on canvas, even over objects)
       if (e.evt.button === 1) {
+        setFollowingId(null)
         const stage = stageRef.current
         if (stage) {
           const pointer = stage.getPointerPosition()
@@ -256,6 +298,7 @@ export default function Board({ userName, boardId }: BoardProps) {
 
       // Space + left-click drag = pan
       if (spaceHeld) {
+        setFollowingId(null)
         const stage = stageRef.current
         if (stage) {
           const pointer = stage.getPointerPosition()
@@ -323,6 +366,13 @@ export default function Board({ userName, boardId }: BoardProps) {
       const world = pointerToWorld()
       if (!world) return
 
+      // Dropping a new comment pin on empty board
+      if (placingComment) {
+        setPendingAnchor(anchorAt(world))
+        setPlacingComment(false)
+        return
+      }
+
       // Line / Arrow tool — two-click mode
       const isLineTool = activeTool === 'line' || activeTool === 'arrow'
       if (isLineTool) {
@@ -383,11 +433,21 @@ export default function Board({ userName, boardId }: BoardProps) {
       setSelectedIds(new Set([id]))
       setActiveTool('select')
     },
-    [activeTool, stagePos, scale, createObject, lineStart, pointerToWorld],
+    [activeTool, stagePos, scale, createObject, lineStart, pointerToWorld, placingComment],
   )
 
   // ---- Handle clicking on a shape with line/arrow tool to start connector --
   const handleSelectOrConnect = useCallback((id: string, e?: Konva.KonvaEventObject<MouseEvent>) => {
+    // Dropping a new comment pin on an object: it follows the object around
+    if (placingComment) {
+      const target = objects.find((o) => o.id === id)
+      const world = pointerToWorld()
+      if (!target || !world) return
+      setPendingAnchor(anchorAt(world, target))
+      setPlacingComment(false)
+      return
+    }
+
     const isLineTool = activeTool === 'line' || activeTool === 'arrow'
     if (isLineTool) {
       const target = objects.find((o) => o.id === id)
@@ -439,7 +499,7 @@ export default function Board({ userName, boardId }: BoardProps) {
       setSelectedIds(new Set([id]))
     }
     setShowColorPicker(false)
-  }, [activeTool, lineStart, objects, createObject])
+  }, [activeTool, lineStart, objects, createObject, placingComment, pointerToWorld])
 
   // ---- Group drag handler (called from BoardShape when multi-selected) -----
   const handleGroupDragEnd = useCallback((draggedId: string, dx: number, dy: number) => {
@@ -526,6 +586,7 @@ export default function Board({ userName, boardId }: BoardProps) {
           setActiveTool('select')
           setShowColorPicker(false)
           setLineStart(null)
+          setPlacingComment(false)
           break
         case 'a':
           if (e.ctrlKey || e.metaKey) {
@@ -580,26 +641,181 @@ export default function Board({ userName, boardId }: BoardProps) {
 
   // ---- Zoom controls ------------------------------------------------------
   const zoomIn = useCallback(() => {
+    setFollowingId(null)
     setScale((s) => Math.min(ZOOM_MAX, s * ZOOM_STEP))
   }, [])
 
   const zoomOut = useCallback(() => {
+    setFollowingId(null)
     setScale((s) => Math.max(ZOOM_MIN, s / ZOOM_STEP))
   }, [])
 
   const zoomReset = useCallback(() => {
+    setFollowingId(null)
     setScale(1)
     setStagePos({ x: 0, y: 0 })
   }, [])
 
   // ---- Pan to world coordinate (used by AI auto-pan) -----------------------
   const panTo = useCallback((worldX: number, worldY: number) => {
+    setFollowingId(null)
     setStagePos({
       x: size.w / 2 - worldX * scale,
       y: size.h / 2 - worldY * scale,
     })
   }, [scale, size.w, size.h])
 
+  // ---- Presence: viewport, selection, follow mode -------------------------
+
+  // Share what we're looking at and what we have selected
+  useEffect(() => {
+    setViewport({ x: stagePos.x, y: stagePos.y, scale, width: size.w, height: size.h })
+  }, [setViewport, stagePos.x, stagePos.y, scale, size.w, size.h])
+
+  useEffect(() => {
+    setSelection([...selectedIds])
+  }, [setSelection, selectedIds])
+
+  // A summon makes us follow whoever sent it
+  useEffect(() => {
+    if (summon) setFollowingId(summon.clientId)
+  }, [summon])
+
+  const followed = useMemo(
+    () => (followingId ? remoteCursors.find((rc) => rc.clientId === followingId) ?? null : null),
+    [followingId, remoteCursors],
+  )
+
+  // Mirror the followed user's view; stop when they leave
+  useEffect(() => {
+    if (!followingId) return
+    if (!followed) {
+      setFollowingId(null)
+      return
+    }
+    const view = followed.viewport && followViewport(followed.viewport, size)
+    if (!view) return
+    setScale(view.scale)
+    setStagePos((prev) => (prev.x === view.x && prev.y === view.y ? prev : { x: view.x, y: view.y }))
+  }, [followingId, followed, size])
+
+  const remoteSelections = useMemo(() => remoteSelectionColors(remoteCursors), [remoteCursors])
+
+  // ---- Comments -------------------------------------------------------------
+
+  // Board members are who @mentions can name; fetched when the panel opens
+  useEffect(() => {
+    if (!showComments || !boardId || !getAuthToken) return
+    let cancelled = false
+    getAuthToken()
+      .then((token) => (token ? boardsApi.fetchMembers(boardId, token) : []))
+      .then((members) => {
+        if (cancelled) return
+        setPeople(members.flatMap((m) => (m.name ? [{ userId: m.user_id, name: m.name }] : [])))
+      })
+      .catch(() => {})
+    return () => { cancelled = true }
+  }, [showComments, boardId, getAuthToken])
+
+  // Pins for open threads whose object (if any) still exists
+  const commentPins = useMemo(() => threads.flatMap((t) => {
+    if (t.resolved) return []
+    const at = anchorPoint(t.anchor, objectMap)
+    return at ? [{ thread: t, at }] : []
+  }), [threads, objectMap])
+
+  const openThread = useCallback((threadId: string | null) => {
+    setShowComments(true)
+    setActiveThreadId(threadId)
+  }, [])
+
+  const locateThread = useCallback((threadId: string) => {
+    const thread = threads.find((t) => t.id === threadId)
+    const at = thread && anchorPoint(thread.anchor, objectMap)
+    if (at) panTo(at.x, at.y)
+  }, [threads, objectMap, panTo])
+
+  const handleCreateThread = useCallback((text: string, mentions: CommentMention[]) => {
+    if (!pendingAnchor) return
+    const id = addThread(pendingAnchor, { authorId: userId ?? null, authorName: userName, text, mentions })
+    setPendingAnchor(null)
+    if (id) setActiveThreadId(id)
+  }, [pendingAnchor, addThread, userId, userName])
+
+  const handleReply = useCallback((threadId: string, text: string, mentions: CommentMention[]) => {
+    replyToThread(threadId, { authorId: userId ?? null, authorName: userName, text, mentions })
+  }, [replyToThread, userId, userName])
+
+  const handleSetResolved = useCallback((threadId: string, resolved: boolean) => {
+    setThreadResolved(threadId, resolved, userId ?? null)
+  }, [setThreadResolved, userId])
+
+  const closeComments = useCallback(() => {
+    setShowComments(false)
+    setPlacingComment(false)
+    setPendingAnchor(null)
+  }, [])
+
+  // ---- File drop: import a file's objects where it was dropped ------------
+  const canImport = !!boardId && !!getAuthToken && !readOnly
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!canImport || !e.dataTransfer.types.includes('Files')) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+    setDropActive(true)
+  }, [canImport])
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    // Ignore leave events fired when moving between child elements
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return
+    setDropActive(false)
+  }, [])
+
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
+    if (!canImport) return
+    e.preventDefault()
+    setDropActive(false)
+    const file = e.dataTransfer.files[0]
+    if (!file) return
+
+    // Screen → world coordinates: the file's content starts at the drop point
+    const bounds = e.currentTarget.getBoundingClientRect()
+    const at = {
+      x: (e.clientX - bounds.left - stagePos.x) / scale,
+      y: (e.clientY - bounds.top - stagePos.y) / scale,
+    }
+
+    setImportStatus(`Importing ${file.name}\u2026`)
+    const read = await readImportFile(file)
+    if (!read.ok) {
+      setImportStatus(read.error)
+      return
+    }
+    const token = await getAuthToken!()
+    if (!token) {
+      setImportStatus('Sign in to import files.')
+      return
+    }
+    const result = await boardsApi.importIntoBoard(boardId!, read.document, token, { source: read.source, at })
+    setImportStatus(result.error ?? `Imported ${result.imported} object${result.imported === 1 ? '' : 's'} from ${file.name}`)
+  }, [canImport, boardId, getAuthToken, stagePos.x, stagePos.y, scale])
+
+  // Import status fades after a few seconds
+  useEffect(() => {
+    if (!importStatus) return
+    const timer = setTimeout(() => setImportStatus(null), 4000)
+    return () => clearTimeout(timer)
+  }, [importStatus])
+
+  // The server refused a change: say why, then fade like the import status
+  useEffect(() => {
+    if (!rejectedUpdate) return
+    setRejectionNotice(`Change not saved: ${rejectedUpdate.reason}`)
+    const timer = setTimeout(() => setRejectionNotice(null), 6000)
+    return () => clearTimeout(timer)
+  }, [rejectedUpdate])
+
   // ---- Frame-aware update: when a frame moves, move its children too ------
   const handleObjectUpdate = useCallback(
     (id: string, updates: Partial<BoardObject>) => {
@@ -674,7 +890,12 @@ export default function Board({ userName, boardId }: BoardProps) {
   const hasSelection = selectedIds.size > 0
 
   return (
-    <div style={{ width: '100vw', height: '100vh', overflow: 'hidden', position: 'relative' }}>
+    <div
+      style={{ width: '100vw', height: '100vh', overflow: 'hidden', position: 'relative' }}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       {/* Dot grid background */}
       <div
         style={{
@@ -687,8 +908,8 @@ export default function Board({ userName, boardId }: BoardProps) {
         }}
       />
 
-      {/* Left vertical toolbar */}
-      <Toolbar
+      {/* Left vertical toolbar (hidden for read-only roles) */}
+      {!readOnly && <Toolbar
         activeTool={activeTool}
         onToolChange={setActiveTool}
         hasSelection={hasSelection}
@@ -700,7 +921,14 @@ export default function Board({ userName, boardId }: BoardProps) {
         onUndo={undo}
         onRedo={redo}
         onHelpToggle={() => setShowHelp((v) => !v)}
-      />
+      />}
+
+      {/* Read-only badge */}
+      {readOnly && (
+        <div style={readOnlyBadgeStyle}>
+          View only
+        </div>
+      )}
 
       {/* Color picker popup */}
       {showColorPicker && hasSelection && (
@@ -713,12 +941,26 @@ export default function Board({ userName, boardId }: BoardProps) {
       {/* Presence bar (top right) */}
       <PresenceBar
         connected={connected}
+        offline={offline}
+        pendingChanges={pendingChanges}
         userName={userName}
         userColor={userColor}
         remoteCursors={remoteCursors}
         chatOpen={showChat}
+        commentsOpen={showComments}
+        followingId={followingId}
+        onFollow={setFollowingId}
+        onSummon={readOnly ? undefined : summonAll}
       />
 
+      {/* Follow mode banner */}
+      {followed && (
+        <div style={{ ...followBannerStyle, borderColor: followed.color }}>
+          Following {followed.name}
+          <button onClick={() => setFollowingId(null)} style={followStopBtnStyle}>Stop</button>
+        </div>
+      )}
+
       {/* Multi-select count badge */}
       {selectedIds.size > 1 && (
         <div style={{
@@ -761,7 +1003,7 @@ export default function Board({ userName, boardId }: BoardProps) {
       )}
 
       {/* Zoom controls (bottom right) */}
-      <ZoomControls scale={scale} onZoomIn={zoomIn} onZoomOut={zoomOut} onZoomReset={zoomReset} chatOpen={showChat} />
+      <ZoomControls scale={scale} onZoomIn={zoomIn} onZoomOut={zoomOut} onZoomReset={zoomReset} chatOpen={showChat} commentsOpen={showComments} />
 
       {/* Canvas */}
       <Stage
@@ -779,7 +1021,7 @@ export default function Board({ userName, boardId }: BoardProps) {
         onContextMenu={(e) => e.evt.preventDefault()}
         onClick={handleStageClick}
         onTap={handleStageClick}
-        style={{ position: 'relative', zIndex: 1, cursor: middlePanning ? 'grabbing' : spaceHeld ? 'grab' : activeTool === 'select' ? 'default' : 'crosshair' }}
+        style={{ position: 'relative', zIndex: 1, cursor: middlePanning ? 'grabbing' : spaceHeld ? 'grab' : activeTool === 'select' && !placingComment ? 'default' : 'crosshair' }}
       >
         {/* Objects layer */}
         <Layer>
@@ -807,6 +1049,9 @@ export default function Board({ userName, boardId }: BoardProps) {
                 stagePosY={stagePos.y}
                 isMultiSelected={selectedIds.size > 1 && selectedIds.has(obj.id)}
                 onGroupDragEnd={handleGroupDragEnd}
+                readOnly={readOnly}
+                textCollab={textCollab}
+                remoteSelectionColor={remoteSelections.get(obj.id)}
               />
             )
           )}
@@ -841,6 +1086,22 @@ export default function Board({ userName, boardId }: BoardProps) {
           )}
         </Layer>
 
+        {/* Comment pins layer */}
+        <Layer>
+          {commentPins.map(({ thread, at }) => (
+            <CommentPin
+              key={thread.id}
+              threadId={thread.id}
+              x={at.x}
+              y={at.y}
+              count={thread.messages.length}
+              active={showComments && thread.id === activeThreadId}
+              scale={scale}
+              onSelect={openThread}
+            />
+          ))}
+        </Layer>
+
         {/* Remote cursors layer */}
         <Layer>
           {remoteCursors.map((rc) => {
@@ -859,10 +1120,10 @@ export default function Board({ userName, boardId }: BoardProps) {
       </Stage>
 
       {/* AI Chat toggle button */}
-      {!showChat && (
+      {!showChat && !readOnly && (
         <button
           onClick={() => setShowChat(true)}
-          style={chatToggleBtnStyle}
+          style={{ ...chatToggleBtnStyle, right: showComments ? 344 : 24 }}
           title="Open AI Assistant"
           aria-label="Open AI Assistant"
         >
@@ -871,16 +1132,90 @@ export default function Board({ userName, boardId }: BoardProps) {
       )}
 
       {/* AI Chat panel */}
-      {showChat && (
+      {showChat && !readOnly && (
         <ChatPanel
           boardId={boardId || DEFAULT_BOARD_ID}
           onClose={() => setShowChat(false)}
           onPanTo={panTo}
+          getAuthToken={getAuthToken}
+          scope={aiScope}
+        />
+      )}
+
+      {/* Comments toggle button */}
+      {!showComments && (
+        <button
+          onClick={() => openThread(null)}
+          style={{ ...commentsToggleBtnStyle, bottom: readOnly ? 80 : 136 }}
+          title="Comments"
+          aria-label="Open comments"
+        >
+          {threads.filter((t) => !t.resolved).length || '\u{1F4AC}'}
+        </button>
+      )}
+
+      {/* Comments panel */}
+      {showComments && (
+        <CommentsPanel
+          threads={threads}
+          activeThreadId={activeThreadId}
+          onSelectThread={setActiveThreadId}
+          people={people}
+          userId={userId ?? null}
+          canComment={canComment}
+          placing={placingComment}
+          onStartPlacing={() => setPlacingComment(true)}
+          pendingNew={pendingAnchor !== null}
+          onCreateThread={handleCreateThread}
+          onCancelNew={() => setPendingAnchor(null)}
+          onReply={handleReply}
+          onSetResolved={handleSetResolved}
+          onLocate={locateThread}
+          chatOpen={showChat && !readOnly}
+          onClose={closeComments}
         />
       )}
 
       {/* Help panel */}
       {showHelp && <HelpPanel onClose={() => setShowHelp(false)} />}
+
+      {/* File drop overlay */}
+      {dropActive && (
+        <div style={dropOverlayStyle}>
+          Drop an Excalidraw, Mermaid, Miro or CollabBoard file to import it here
+        </div>
+      )}
+
+      {/* Import progress / result */}
+      {importStatus && (
+        <div role="status" style={importStatusStyle}>
+          {importStatus}
+        </div>
+      )}
+
+      {/* The server refused one of our updates */}
+      {rejectionNotice && (
+        <div role="alert" style={rejectionNoticeStyle}>
+          {rejectionNotice}
+        </div>
+      )}
+
+      {/* Access denied — the server refused the socket */}
+      {accessDenied && (
+        <div style={accessDeniedStyle}>
+          You don&apos;t have access to this board. Ask its owner for an invite link.
+        </div>
+      )}
+
+      {/* The server refused the socket for another reason, e.g. an expired sign-in */}
+      {authRequired && (
+        <div style={authRequiredStyle}>
+          We couldn&apos;t confirm your sign-in. Your changes are kept on this device.
+          <button style={signInAgainBtnStyle} onClick={() => window.location.reload()}>
+            Sign in again
+          </button>
+        </div>
+      )}
     </div>
   )
 }
@@ -909,3 +1244,134 @@ const chatToggleBtnStyle: React.CSSProperties = {
   transition: 'transform 0.2s, box-shadow 0.2s',
   animation: 'ai-pulse 2s ease-in-out 3',
 }
+
+const commentsToggleBtnStyle: React.CSSProperties = {
+  position: 'fixed',
+  right: 24,
+  width: 48,
+  height: 48,
+  borderRadius: '50%',
+  background: '#F59E0B',
+  color: '#fff',
+  border: 'none',
+  cursor: 'pointer',
+  fontSize: 14,
+  fontWeight: 700,
+  boxShadow: '0 4px 12px rgba(245,158,11,0.4)',
+  zIndex: 90,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  fontFamily: "'DM Sans', system-ui, sans-serif",
+}
+
+const followBannerStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: 56,
+  left: '50%',
+  transform: 'translateX(-50%)',
+  zIndex: 40,
+  display: 'flex',
+  alignItems: 'center',
+  gap: 10,
+  background: '#fff',
+  border: '2px solid',
+  color: '#1E293B',
+  padding: '4px 6px 4px 14px',
+  borderRadius: 16,
+  fontSize: 12,
+  fontWeight: 600,
+  fontFamily: "'DM Sans', system-ui, sans-serif",
+  boxShadow: '0 2px 8px rgba(0,0,0,0.08)',
+}
+
+const followStopBtnStyle: React.CSSProperties = {
+  padding: '2px 10px',
+  background: '#1E293B',
+  color: '#fff',
+  border: 'none',
+  borderRadius: 12,
+  fontSize: 11,
+  cursor: 'pointer',
+}
+
+const readOnlyBadgeStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: 12,
+  left: 12,
+  zIndex: 40,
+  background: '#1E293B',
+  color: '#fff',
+  padding: '4px 12px',
+  borderRadius: 12,
+  fontSize: 12,
+  fontWeight: 600,
+  fontFamily: "'DM Sans', system-ui, sans-serif",
+  pointerEvents: 'none',
+}
+
+const dropOverlayStyle: React.CSSProperties = {
+  position: 'absolute',
+  inset: 12,
+  zIndex: 120,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  border: '2px dashed #2563EB',
+  borderRadius: 16,
+  background: 'rgba(37, 99, 235, 0.08)',
+  color: '#1E40AF',
+  fontSize: 15,
+  fontWeight: 600,
+  fontFamily: "'DM Sans', system-ui, sans-serif",
+  pointerEvents: 'none',
+}
+
+const importStatusStyle: React.CSSProperties = {
+  position: 'absolute',
+  bottom: 24,
+  left: '50%',
+  transform: 'translateX(-50%)',
+  zIndex: 120,
+  background: '#1E293B',
+  color: '#fff',
+  padding: '6px 16px',
+  borderRadius: 8,
+  fontSize: 12,
+  fontFamily: "'DM Sans', system-ui, sans-serif",
+}
+
+const rejectionNoticeStyle: React.CSSProperties = {
+  ...importStatusStyle,
+  bottom: 56,
+  background: '#B91C1C',
+}
+
+const accessDeniedStyle: React.CSSProperties = {
+  position: 'absolute',
+  inset: 0,
+  zIndex: 150,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  background: 'rgba(248,250,252,0.95)',
+  color: '#1E293B',
+  fontSize: 15,
+  fontFamily: "'DM Sans', system-ui, sans-serif",
+}
+
+const authRequiredStyle: React.CSSProperties = {
+  ...accessDeniedStyle,
+  flexDirection: 'column',
+  gap: 12,
+}
+
+const signInAgainBtnStyle: React.CSSProperties = {
+  padding: '6px 16px',
+  background: '#1E293B',
+  color: '#fff',
+  border: 'none',
+  borderRadius: 8,
+  fontSize: 13,
+  cursor: 'pointer',
+}
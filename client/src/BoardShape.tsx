@@ -1,8 +1,15 @@
 import { useState, useEffect, useCallback, useRef, memo } from 'react'
 import { Group, Rect, Text, Ellipse, Circle, Line } from 'react-konva'
 import type Konva from 'konva'
+import type * as Y from 'yjs'
 import type { BoardObject } from './types'
 import { calcAngle } from './utils/geometry'
+import { toggleTask } from '../../shared/markdown.ts'
+import { hasCollabText } from '../../shared/collabText.ts'
+import MarkdownText from './MarkdownText'
+import { TEXT_EDIT_ORIGIN, type RemoteEditor, type TextCollab } from './useYjs'
+import { bindTextarea, decodePosition, encodePosition } from './utils/collabText'
+import { caretCoordinates } from './utils/textareaCaret'
 
 const HANDLE_SIZE = 10
 const HANDLE_HIT_SIZE = 24 // Larger invisible hit area for easier grabbing
@@ -22,6 +29,12 @@ interface Props {
   // Multi-select group drag support — boolean primitive instead of Set<string>
   isMultiSelected?: boolean
   onGroupDragEnd?: (draggedId: string, dx: number, dy: number) => void
+  // Viewers/commenters: no dragging, resizing, rotating or text editing
+  readOnly?: boolean
+  // Stable handle for live Y.Text editing of sticky/text/frame text
+  textCollab?: TextCollab
+  // Color of a remote user who has this object selected, if any
+  remoteSelectionColor?: string
 }
 
 /**
@@ -35,10 +48,16 @@ interface Props {
  *  - Drag rotation handle to rotate (smooth live preview)
  *  - Double-click to edit text (textarea overlay)
  *  - Enter = save, Shift+Enter = newline, Esc = cancel, blur = save
+ *  - Sticky, text and frame text is edited live in its Y.Text: keystrokes
+ *    sync as you type, other editors' carets show in the overlay, and Esc
+ *    reverts only your own edits from this session
+ *  - Sticky and text objects render markdown (see MarkdownText); clicking
+ *    a checkbox saves the toggled text like any other edit
+ *  - Objects other users have selected get an outline in their color
  */
 const BoardShape = memo(function BoardShape({
   obj, isSelected, onSelect, onUpdate, stageRef, scale,
-  stagePosX, stagePosY, isMultiSelected, onGroupDragEnd,
+  stagePosX, stagePosY, isMultiSelected, onGroupDragEnd, readOnly = false, textCollab, remoteSelectionColor,
 }: Props) {
   const [isEditing, setIsEditing] = useState(false)
   const [editText, setEditText] = useState(obj.text ?? '')
@@ -114,10 +133,15 @@ const BoardShape = memo(function BoardShape({
     onSelect(obj.id, e)
   }, [obj.id, onSelect])
 
+  // ---- Checklist toggle ---------------------------------------------------
+  const handleToggleTask = useCallback((line: number) => {
+    onUpdate(obj.id, { text: toggleTask(obj.text ?? '', line) })
+  }, [obj.id, obj.text, onUpdate])
+
   // ---- Double-click to edit text ------------------------------------------
   const handleDblClick = useCallback(() => {
-    setIsEditing(true)
-  }, [])
+    if (!readOnly) setIsEditing(true)
+  }, [readOnly])
 
   // ---- Inline textarea overlay --------------------------------------------
   useEffect(() => {
@@ -135,6 +159,8 @@ const BoardShape = memo(function BoardShape({
 
     const bgColor = obj.type === 'sticky' ? obj.fill : 'rgba(255,255,255,0.95)'
 
+    const ytext = hasCollabText(obj.type) ? textCollab?.getText(obj.id) ?? null : null
+
     const textarea = document.createElement('textarea')
     textarea.value = editText
     textarea.style.cssText = [
@@ -160,12 +186,12 @@ const BoardShape = memo(function BoardShape({
 
     let currentText = editText
 
-    const save = () => {
+    let save = () => {
       onUpdate(obj.id, { text: currentText })
       cleanup()
     }
 
-    const cancel = () => cleanup()
+    let cancel = () => cleanup()
 
     const cleanup = () => setIsEditing(false)
 
@@ -186,10 +212,22 @@ const BoardShape = memo(function BoardShape({
     textarea.addEventListener('blur', () => save())
 
     document.body.appendChild(textarea)
+
+    const collab = ytext && textCollab ? bindCollabText(textarea, ytext, textCollab, obj.id) : null
+    if (collab) {
+      // Edits are already synced; Esc rolls back this session's keystrokes
+      save = cleanup
+      cancel = () => {
+        collab.revert()
+        cleanup()
+      }
+    }
+
     textarea.focus()
     textarea.setSelectionRange(textarea.value.length, textarea.value.length)
 
     return () => {
+      collab?.destroy()
       if (document.body.contains(textarea)) {
         document.body.removeChild(textarea)
       }
@@ -350,16 +388,14 @@ const BoardShape = memo(function BoardShape({
               shadowBlur={6}
               shadowOffsetY={2}
             />
-            <Text
+            <MarkdownText
               text={obj.text ?? ''}
               width={w}
               height={h}
               padding={10}
               fontSize={obj.fontSize ?? 14}
-              fontFamily="system-ui, sans-serif"
               fill="#1E293B"
-              wrap="word"
-              listening={false}
+              onToggleTask={readOnly ? undefined : handleToggleTask}
             />
           </>
         )
@@ -425,16 +461,19 @@ const BoardShape = memo(function BoardShape({
 
       case 'text':
         return (
-          <Text
-            text={obj.text || 'Text'}
-            width={w}
-            height={h}
-            fontSize={obj.fontSize ?? 18}
-            fontFamily="system-ui, sans-serif"
-            fill={obj.fill === 'transparent' ? '#1E293B' : obj.fill}
-            wrap="word"
-            padding={4}
-          />
+          <>
+            {/* Hit area — the markdown runs themselves don't listen */}
+            <Rect width={w} height={h} fill="transparent" />
+            <MarkdownText
+              text={obj.text || 'Text'}
+              width={w}
+              height={h}
+              padding={4}
+              fontSize={obj.fontSize ?? 18}
+              fill={obj.fill === 'transparent' ? '#1E293B' : obj.fill}
+              onToggleTask={readOnly ? undefined : handleToggleTask}
+            />
+          </>
         )
 
       case 'frame':
@@ -467,9 +506,27 @@ const BoardShape = memo(function BoardShape({
     }
   }
 
+  // ---- Remote selection outline ----------------------------------------------
+  const renderRemoteSelection = () => {
+    if (!remoteSelectionColor) return null
+    const pad = 4 / scale
+    return (
+      <Rect
+        x={-pad}
+        y={-pad}
+        width={displayW + pad * 2}
+        height={displayH + pad * 2}
+        stroke={remoteSelectionColor}
+        strokeWidth={2 / scale}
+        cornerRadius={4 / scale}
+        listening={false}
+      />
+    )
+  }
+
   // ---- Selection border + resize handles + rotation handle ------------------
   const renderSelection = () => {
-    if (!isSelected) return null
+    if (!isSelected || readOnly) return null
 
     const w = displayW
     const h = displayH
@@ -573,18 +630,97 @@ const BoardShape = memo(function BoardShape({
       offsetX={displayW / 2}
       offsetY={displayH / 2}
       rotation={effectiveRotation}
-      draggable
+      draggable={!readOnly}
       onDragStart={handleDragStart}
       onDragEnd={handleDragEnd}
       onClick={handleClick}
       onTap={(e) => onSelect(obj.id, e as unknown as Konva.KonvaEventObject<MouseEvent>)}
       onDblClick={handleDblClick}
-      onDblTap={() => setIsEditing(true)}
+      onDblTap={handleDblClick}
     >
       {renderBody()}
+      {renderRemoteSelection()}
       {renderSelection()}
     </Group>
   )
 })
 
 export default BoardShape
+
+// ---------------------------------------------------------------------------
+// Collaborative text overlay
+// ---------------------------------------------------------------------------
+
+/**
+ * Bind the edit textarea to the object's Y.Text, publish our caret and
+ * draw other editors' carets in a layer on top of the textarea.
+ */
+function bindCollabText(
+  textarea: HTMLTextAreaElement,
+  ytext: Y.Text,
+  collab: TextCollab,
+  objectId: string,
+) {
+  const layer = document.createElement('div')
+  layer.style.cssText = [
+    `position: fixed`,
+    `left: ${textarea.style.left}`,
+    `top: ${textarea.style.top}`,
+    `width: ${textarea.style.width}`,
+    `height: ${textarea.style.height}`,
+    `overflow: hidden`,
+    `pointer-events: none`,
+    `z-index: 1001`,
+  ].join(';')
+  document.body.appendChild(layer)
+
+  let editors: RemoteEditor[] = []
+
+  const renderCarets = () => {
+    layer.replaceChildren()
+    for (const editor of editors) {
+      const index = decodePosition(ytext, editor.editing.head)
+      if (index === null) continue
+      const caret = caretCoordinates(textarea, index)
+      const top = caret.top - textarea.scrollTop
+
+      const bar = document.createElement('div')
+      bar.style.cssText = `position:absolute;left:${caret.left}px;top:${top}px;width:2px;height:${caret.height}px;background:${editor.color}`
+      const label = document.createElement('div')
+      label.textContent = editor.name
+      label.style.cssText = `position:absolute;left:${caret.left}px;top:${Math.max(0, top - 14)}px;padding:0 3px;font:600 10px/14px system-ui, sans-serif;color:#fff;background:${editor.color};border-radius:2px;white-space:nowrap`
+      layer.append(bar, label)
+    }
+  }
+
+  const publishCaret = () => {
+    collab.setEditing({
+      objectId,
+      anchor: encodePosition(ytext, textarea.selectionStart),
+      head: encodePosition(ytext, textarea.selectionEnd),
+    })
+  }
+
+  const binding = bindTextarea(textarea, ytext, TEXT_EDIT_ORIGIN, () => {
+    publishCaret()
+    renderCarets()
+  })
+  const unsubscribe = collab.subscribeEditors(objectId, (list) => {
+    editors = list
+    renderCarets()
+  })
+
+  for (const type of ['keyup', 'mouseup', 'select']) textarea.addEventListener(type, publishCaret)
+  textarea.addEventListener('scroll', renderCarets)
+  publishCaret()
+
+  return {
+    revert: binding.revert,
+    destroy() {
+      binding.destroy()
+      unsubscribe()
+      collab.setEditing(null)
+      layer.remove()
+    },
+  }
+}
@@ -2,6 +2,7 @@ import { useCallback, useRef, memo } from 'react'
 import { Group, Line, Arrow, Rect, Circle } from 'react-konva'
 import type Konva from 'konva'
 import type { BoardObject } from './types'
+import { getObjectCenter, getEdgePoint, resolveLineEndpoints } from '../../shared/connectors.ts'
 
 const HANDLE_RADIUS = 5
 
@@ -14,59 +15,6 @@ interface Props {
   scale: number
 }
 
-/**
- * Get the center point of a shape for connector attachment.
- */
-function getObjectCenter(obj: BoardObject): { x: number; y: number } {
-  return {
-    x: obj.x + obj.width / 2,
-    y: obj.y + obj.height / 2,
-  }
-}
-
-/**
- * Get the edge intersection point where a line from center hits the bounding box.
- * This makes connectors attach to the nearest edge instead of always the center.
- */
-function getEdgePoint(
-  obj: BoardObject,
-  targetX: number,
-  targetY: number,
-): { x: number; y: number } {
-  const cx = obj.x + obj.width / 2
-  const cy = obj.y + obj.height / 2
-  const dx = targetX - cx
-  const dy = targetY - cy
-
-  if (dx === 0 && dy === 0) return { x: cx, y: cy }
-
-  const hw = obj.width / 2
-  const hh = obj.height / 2
-
-  // For circles, use radius intersection
-  if (obj.type === 'circle') {
-    const dist = Math.sqrt(dx * dx + dy * dy)
-    const r = Math.min(hw, hh)
-    if (dist === 0) return { x: cx, y: cy }
-    return {
-      x: cx + (dx / dist) * r,
-      y: cy + (dy / dist) * r,
-    }
-  }
-
-  // For rectangles/other shapes, find edge intersection
-  const scaleX = Math.abs(dx) / hw
-  const scaleY = Math.abs(dy) / hh
-  const s = Math.max(scaleX, scaleY)
-
-  if (s === 0) return { x: cx, y: cy }
-
-  return {
-    x: cx + dx / s,
-    y: cy + dy / s,
-  }
-}
-
 /**
  * Connector — renders a line or arrow between two points.
  *
@@ -80,45 +28,11 @@ function getEdgePoint(
 const Connector = memo(function Connector({
   obj, isSelected, onSelect, onUpdate, allObjects, scale,
 }: Props) {
-  // Resolve actual endpoints
-  const fromObj = obj.fromId ? allObjects.find((o) => o.id === obj.fromId) : null
-  const toObj = obj.toId ? allObjects.find((o) => o.id === obj.toId) : null
-
   // Raw points fallback
   const rawPts = obj.points ?? [0, 0, 100, 0]
 
-  // Calculate endpoint positions
-  let x1: number, y1: number, x2: number, y2: number
-
-  if (fromObj && toObj) {
-    // Both connected — use edge-to-edge
-    const fromCenter = getObjectCenter(fromObj)
-    const toCenter = getObjectCenter(toObj)
-    const start = getEdgePoint(fromObj, toCenter.x, toCenter.y)
-    const end = getEdgePoint(toObj, fromCenter.x, fromCenter.y)
-    x1 = start.x
-    y1 = start.y
-    x2 = end.x
-    y2 = end.y
-  } else if (fromObj) {
-    x2 = obj.x + rawPts[2]
-    y2 = obj.y + rawPts[3]
-    const start = getEdgePoint(fromObj, x2, y2)
-    x1 = start.x
-    y1 = start.y
-  } else if (toObj) {
-    x1 = obj.x + rawPts[0]
-    y1 = obj.y + rawPts[1]
-    const end = getEdgePoint(toObj, x1, y1)
-    x2 = end.x
-    y2 = end.y
-  } else {
-    // Freestanding line
-    x1 = obj.x + rawPts[0]
-    y1 = obj.y + rawPts[1]
-    x2 = obj.x + rawPts[2]
-    y2 = obj.y + rawPts[3]
-  }
+  // Resolve actual endpoints (attached ends snap to the connected objects' edges)
+  const { x1, y1, x2, y2 } = resolveLineEndpoints(obj, (id) => allObjects.find((o) => o.id === id))
 
   const handleClick = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
     e.cancelBubble = true
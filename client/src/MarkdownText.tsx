@@ -0,0 +1,127 @@
+import { useMemo } from 'react'
+import { Group, Text, Rect, Line, Circle } from 'react-konva'
+import type Konva from 'konva'
+import { parseMarkdown } from '../../shared/markdown.ts'
+import { layoutMarkdown, measureCanvasText, fontStyle } from './utils/markdownLayout'
+
+const LINK_COLOR = '#2563EB'
+const FONT_FAMILY = 'system-ui, sans-serif'
+
+interface Props {
+  text: string
+  width: number
+  height: number
+  fontSize: number
+  padding: number
+  fill: string
+  /** Called with the source line of a clicked checkbox; omit to make checkboxes read-only. */
+  onToggleTask?: (line: number) => void
+}
+
+// Stage cursor to restore when the pointer leaves a link/checkbox
+let previousCursor = ''
+
+function showPointer(e: Konva.KonvaEventObject<MouseEvent>) {
+  const container = e.target.getStage()?.container()
+  if (!container) return
+  previousCursor = container.style.cursor
+  container.style.cursor = 'pointer'
+}
+
+function restoreCursor(e: Konva.KonvaEventObject<MouseEvent>) {
+  const container = e.target.getStage()?.container()
+  if (container) container.style.cursor = previousCursor
+}
+
+/**
+ * MarkdownText — renders the markdown subset (see shared/markdown.ts) for
+ * sticky notes and text objects, clipped to the shape.
+ *
+ * Links open in a new tab. Checkbox clicks call onToggleTask, which the
+ * shape turns into a normal text update so the toggle syncs like any edit.
+ */
+export default function MarkdownText({ text, width, height, fontSize, padding, fill, onToggleTask }: Props) {
+  const layout = useMemo(
+    () => layoutMarkdown(parseMarkdown(text), { width, fontSize, padding }, measureCanvasText),
+    [text, width, fontSize, padding],
+  )
+  const box = fontSize * 0.9
+
+  return (
+    <Group clipX={0} clipY={0} clipWidth={width} clipHeight={height}>
+      {layout.markers.map((m) =>
+        m.kind === 'bullet' ? (
+          <Circle
+            key={`m${m.line}`}
+            x={m.x + box / 2}
+            y={m.y + fontSize * 0.6}
+            radius={fontSize * 0.15}
+            fill={fill}
+            listening={false}
+          />
+        ) : (
+          <Group
+            key={`m${m.line}`}
+            x={m.x}
+            y={m.y + fontSize * 0.15}
+            listening={!!onToggleTask}
+            onClick={(e) => {
+              e.cancelBubble = true
+              onToggleTask?.(m.line)
+            }}
+            onTap={(e) => {
+              e.cancelBubble = true
+              onToggleTask?.(m.line)
+            }}
+            onDblClick={(e) => { e.cancelBubble = true }}
+            onMouseEnter={showPointer}
+            onMouseLeave={restoreCursor}
+          >
+            <Rect
+              width={box}
+              height={box}
+              cornerRadius={2}
+              stroke={fill}
+              strokeWidth={1.2}
+              fill={m.checked ? fill : 'rgba(255,255,255,0.6)'}
+            />
+            {m.checked && (
+              <Line
+                points={[box * 0.2, box * 0.5, box * 0.42, box * 0.72, box * 0.8, box * 0.28]}
+                stroke="#fff"
+                strokeWidth={1.6}
+                lineCap="round"
+                lineJoin="round"
+                listening={false}
+              />
+            )}
+          </Group>
+        ),
+      )}
+      {layout.runs.map((run, i) => (
+        <Text
+          key={i}
+          x={run.x}
+          y={run.y}
+          text={run.text}
+          fontSize={fontSize}
+          fontFamily={FONT_FAMILY}
+          fontStyle={fontStyle(run)}
+          fill={run.href ? LINK_COLOR : fill}
+          textDecoration={run.href ? 'underline' : ''}
+          listening={!!run.href}
+          onClick={(e) => {
+            e.cancelBubble = true
+            window.open(run.href, '_blank', 'noopener,noreferrer')
+          }}
+          onTap={(e) => {
+            e.cancelBubble = true
+            window.open(run.href, '_blank', 'noopener,noreferrer')
+          }}
+          onMouseEnter={showPointer}
+          onMouseLeave={restoreCursor}
+        />
+      ))}
+    </Group>
+  )
+}
@@ -24,12 +24,84 @@ export function getApiUrl(): string {
 // Types
 // ---------------------------------------------------------------------------
 
+/** Access level on a board, highest first. */
+export type BoardRole = 'owner' | 'editor' | 'commenter' | 'viewer'
+
+/** Roles that can be granted through an invite link. */
+export type MemberRole = Exclude<BoardRole, 'owner'>
+
 export interface Board {
   id: string
   owner_id: string
   name: string
   created_at: string
   updated_at: string
+  /** The current user's role (present on list and get responses). */
+  role?: BoardRole
+  /** Whether the current user starred it (list responses). */
+  favorite?: boolean
+  /** The current user's folder for it, or null (list responses). */
+  folder?: string | null
+  /** Owner's display name (list responses sorted by owner). */
+  owner_name?: string | null
+  /** Offered in the "New from template" picker. */
+  is_template?: boolean
+}
+
+/** A board in the owner's trash. */
+export interface TrashedBoard extends Board {
+  deleted_at: string
+  /** When the server will delete it for good. */
+  purge_at: string
+}
+
+/** Orders GET /api/boards understands; `updated` is last edited. */
+export type BoardSort = 'updated' | 'created' | 'name' | 'owner'
+
+/** Search, filter and paging options for GET /api/boards. */
+export interface BoardQuery {
+  q?: string
+  sort?: BoardSort
+  folder?: string | null
+  favorites?: boolean
+  /** Only boards marked as templates. */
+  templates?: boolean
+  limit?: number
+  offset?: number
+}
+
+/** One page of GET /api/boards. */
+export interface BoardPage {
+  boards: Board[]
+  /** Boards matching the query across all pages. */
+  total: number
+  /** Every folder the user has filed a board in. */
+  folders: string[]
+}
+
+const EMPTY_PAGE: BoardPage = { boards: [], total: 0, folders: [] }
+
+/** File formats served by GET /api/boards/:id/export. */
+export type ExportFormat = 'svg' | 'png' | 'pdf' | 'json'
+
+/** File formats POST /api/boards/import understands (detected when omitted). */
+export type ImportSource = 'collabboard' | 'excalidraw' | 'mermaid' | 'miro'
+
+export interface BoardInvite {
+  token: string
+  board_id: string
+  role: MemberRole
+  created_by: string
+  expires_at: string | null
+  created_at: string
+}
+
+/** Someone with a role on a board; the owner is listed first. */
+export interface BoardMember {
+  user_id: string
+  role: BoardRole
+  /** Display name, or null when the server couldn't look it up. */
+  name: string | null
 }
 
 // ---------------------------------------------------------------------------
@@ -37,20 +109,33 @@ export interface Board {
 // ---------------------------------------------------------------------------
 
 export const boardsApi = {
-  /** GET /api/boards — list all boards */
-  async fetchBoards(token: string): Promise<Board[]> {
+  /** GET /api/boards — search, sort and page through the boards the user can access */
+  async fetchBoards(token: string, query: BoardQuery = {}): Promise<BoardPage> {
     try {
-      const res = await fetch(`${getApiUrl()}/api/boards`, {
+      const params = new URLSearchParams()
+      if (query.q) params.set('q', query.q)
+      if (query.sort) params.set('sort', query.sort)
+      if (query.folder) params.set('folder', query.folder)
+      if (query.favorites) params.set('favorites', 'true')
+      if (query.templates) params.set('templates', 'true')
+      if (query.limit !== undefined) params.set('limit', String(query.limit))
+      if (query.offset) params.set('offset', String(query.offset))
+      const search = params.toString()
+      const res = await fetch(`${getApiUrl()}/api/boards${search ? `?${search}` : ''}`, {
         method: 'GET',
         headers: {
           Authorization: `Bearer ${token}`,
         },
       })
-      if (!res.ok) return []
+      if (!res.ok) return EMPTY_PAGE
       const data = await res.json()
-      return data.boards ?? []
+      return {
+        boards: data.boards ?? [],
+        total: data.total ?? data.boards?.length ?? 0,
+        folders: data.folders ?? [],
+      }
     } catch {
-      return []
+      return EMPTY_PAGE
     }
   },
 
@@ -90,7 +175,7 @@ export const boardsApi = {
     }
   },
 
-  /** DELETE /api/boards/:id — delete a board */
+  /** DELETE /api/boards/:id — move a board to the trash */
   async deleteBoard(id: string, token: string): Promise<boolean> {
     try {
       const res = await fetch(`${getApiUrl()}/api/boards/${id}`, {
@@ -104,4 +189,275 @@ export const boardsApi = {
       return false
     }
   },
+
+  /** GET /api/trash — the user's trashed boards, most recently deleted first */
+  async fetchTrash(token: string): Promise<TrashedBoard[]> {
+    try {
+      const res = await fetch(`${getApiUrl()}/api/trash`, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      if (!res.ok) return []
+      const data = await res.json()
+      return data.boards ?? []
+    } catch {
+      return []
+    }
+  },
+
+  /** POST /api/trash/:id/restore — put a trashed board back on the dashboard */
+  async restoreBoard(id: string, token: string): Promise<boolean> {
+    try {
+      const res = await fetch(`${getApiUrl()}/api/trash/${id}/restore`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      return res.ok
+    } catch {
+      return false
+    }
+  },
+
+  /** DELETE /api/trash/:id — delete a trashed board for good */
+  async purgeBoard(id: string, token: string): Promise<boolean> {
+    try {
+      const res = await fetch(`${getApiUrl()}/api/trash/${id}`, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      return res.ok
+    } catch {
+      return false
+    }
+  },
+
+  /** POST /api/boards/:id/duplicate — copy a board (or start one from a template) */
+  async duplicateBoard(id: string, token: string, name?: string): Promise<Board | null> {
+    try {
+      const res = await fetch(`${getApiUrl()}/api/boards/${id}/duplicate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ name }),
+      })
+      if (!res.ok) return null
+      const data = await res.json()
+      return data.board ?? null
+    } catch {
+      return null
+    }
+  },
+
+  /** PUT/DELETE /api/boards/:id/template — mark or unmark a template (owner only) */
+  async setTemplate(id: string, isTemplate: boolean, token: string): Promise<boolean> {
+    try {
+      const res = await fetch(`${getApiUrl()}/api/boards/${id}/template`, {
+        method: isTemplate ? 'PUT' : 'DELETE',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      return res.ok
+    } catch {
+      return false
+    }
+  },
+
+  /** PATCH /api/boards/:id/preferences — star or file a board on the user's own dashboard */
+  async setBoardPreference(
+    id: string,
+    changes: { favorite?: boolean; folder?: string | null },
+    token: string,
+  ): Promise<boolean> {
+    try {
+      const res = await fetch(`${getApiUrl()}/api/boards/${id}/preferences`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(changes),
+      })
+      return res.ok
+    } catch {
+      return false
+    }
+  },
+
+  /** GET /api/boards/:id — fetch a board with the current user's role */
+  async fetchBoard(id: string, token: string): Promise<Board | null> {
+    try {
+      const res = await fetch(`${getApiUrl()}/api/boards/${id}`, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      if (!res.ok) return null
+      const data = await res.json()
+      return data.board ?? null
+    } catch {
+      return null
+    }
+  },
+
+  /** GET /api/boards/:id/members — the owner and members, with display names */
+  async fetchMembers(id: string, token: string): Promise<BoardMember[]> {
+    try {
+      const res = await fetch(`${getApiUrl()}/api/boards/${id}/members`, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      if (!res.ok) return []
+      const data = await res.json()
+      const members = (data.members ?? []) as Array<{ user_id: string; role: MemberRole; name?: string | null }>
+      return [
+        { user_id: data.owner_id, role: 'owner' as const, name: data.owner_name ?? null },
+        ...members.map((m) => ({ user_id: m.user_id, role: m.role, name: m.name ?? null })),
+      ]
+    } catch {
+      return []
+    }
+  },
+
+  /** POST /api/boards/:id/invites — create a share link (owner only) */
+  async createInvite(
+    id: string,
+    role: MemberRole,
+    expiresInHours: number | null,
+    token: string,
+  ): Promise<BoardInvite | null> {
+    try {
+      const res = await fetch(`${getApiUrl()}/api/boards/${id}/invites`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ role, expiresInHours }),
+      })
+      if (!res.ok) return null
+      const data = await res.json()
+      return data.invite ?? null
+    } catch {
+      return null
+    }
+  },
+
+  /** POST /api/invites/:token/accept — join a board through a share link */
+  async acceptInvite(
+    inviteToken: string,
+    token: string,
+  ): Promise<{ boardId: string; role: BoardRole } | null> {
+    try {
+      const res = await fetch(`${getApiUrl()}/api/invites/${inviteToken}/accept`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      if (!res.ok) return null
+      return await res.json()
+    } catch {
+      return null
+    }
+  },
+
+  /** GET /api/boards/:id/export — render the board (or one frame) to a file */
+  async exportBoard(
+    id: string,
+    format: ExportFormat,
+    token: string,
+    frameId?: string,
+  ): Promise<Blob | null> {
+    try {
+      const params = new URLSearchParams({ format })
+      if (frameId) params.set('frame', frameId)
+      const res = await fetch(`${getApiUrl()}/api/boards/${id}/export?${params}`, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      if (!res.ok) return null
+      return await res.blob()
+    } catch {
+      return null
+    }
+  },
+
+  /**
+   * GET /api/boards/:id/thumbnail — the dashboard preview PNG, or null if
+   * none has been rendered yet. `updatedAt` busts the cache when the board changes.
+   */
+  async fetchThumbnail(id: string, updatedAt: string, token: string): Promise<Blob | null> {
+    try {
+      const params = new URLSearchParams({ v: updatedAt })
+      const res = await fetch(`${getApiUrl()}/api/boards/${id}/thumbnail?${params}`, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      if (!res.ok) return null
+      return await res.blob()
+    } catch {
+      return null
+    }
+  },
+
+  /** POST /api/boards/import — create a board from an exported or third-party file */
+  async importBoard(
+    document: unknown,
+    token: string,
+    source?: ImportSource,
+  ): Promise<{ board?: Board; error?: string }> {
+    try {
+      const res = await fetch(`${getApiUrl()}/api/boards/import`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ document, source }),
+      })
+      const data = await res.json()
+      return res.ok ? { board: data.board } : { error: data.error ?? 'Import failed' }
+    } catch {
+      return { error: 'Import failed' }
+    }
+  },
+
+  /** POST /api/boards/:id/import — add a file's objects to a board, top-left at `at` */
+  async importIntoBoard(
+    id: string,
+    document: unknown,
+    token: string,
+    options: { source?: ImportSource; at?: { x: number; y: number } } = {},
+  ): Promise<{ imported?: number; error?: string }> {
+    try {
+      const res = await fetch(`${getApiUrl()}/api/boards/${id}/import`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ document, ...options }),
+      })
+      const data = await res.json()
+      return res.ok ? { imported: data.imported } : { error: data.error ?? 'Import failed' }
+    } catch {
+      return { error: 'Import failed' }
+    }
+  },
 }
@@ -11,13 +11,21 @@
  *  - Cancel button to abort in-progress requests
  *  - "(instant)" badge for cache-hit responses
  *  - Auto-pan to created/moved objects on done
+ *  - "New conversation" button: the server remembers each board's
+ *    conversation so commands can build on earlier ones; this starts over
+ *  - Rate limit and daily quota refusals (HTTP 429) shown as their own
+ *    notice, with when to try again
+ *  - Each command carries the user's selection and viewport, so "make these
+ *    green" means the selected objects
+ *  - "Undo this AI change" on a reply reverts just that command's changes,
+ *    keeping whatever anyone edited since
  */
 
 import { useState, useRef, useEffect, useCallback } from 'react'
 import { PRODUCTION_HOST } from '../constants'
 import { extractPanTarget } from '../utils/panTarget'
-import type { ToolAction } from '../../../shared/types'
-import type { AIStreamEvent } from '../../../shared/aiStreamTypes'
+import type { AICommandScope, ToolAction } from '../../../shared/types'
+import type { AIStreamEvent, AIStreamErrorEvent } from '../../../shared/aiStreamTypes'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -29,12 +37,21 @@ interface Message {
   content: string
   actions?: ToolAction[]
   cached?: boolean
+  /** The server refused the command for going over a limit. */
+  limit?: NonNullable<AIStreamErrorEvent['code']>
+  /** Set when the command changed the board and can be undone. */
+  commandId?: string
+  undo?: 'pending' | 'done'
 }
 
 interface ChatPanelProps {
   boardId: string
   onClose: () => void
   onPanTo?: (x: number, y: number) => void
+  /** Supplies the Clerk token sent with AI requests (absent for guests). */
+  getAuthToken?: () => Promise<string | null>
+  /** The selection and visible board area at the time a command is sent. */
+  scope?: AICommandScope
 }
 
 // ---------------------------------------------------------------------------
@@ -116,14 +133,14 @@ async function consumeSSEStream(
 // Component
 // ---------------------------------------------------------------------------
 
-export default function ChatPanel({ boardId, onClose, onPanTo }: ChatPanelProps) {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 'welcome',
-      role: 'assistant',
-      content: 'Hi! I can help you work with the board. Try commands like:\n\n\u2022 "Add a yellow sticky note that says User Research"\n\u2022 "Create a blue rectangle at position 100, 200"\n\u2022 "Create a 2x3 grid of sticky notes for pros and cons"\n\u2022 "Set up a retrospective board"',
-    },
-  ])
+const WELCOME_MESSAGE: Message = {
+  id: 'welcome',
+  role: 'assistant',
+  content: 'Hi! I can help you work with the board. Try commands like:\n\n\u2022 "Add a yellow sticky note that says User Research"\n\u2022 "Create a blue rectangle at position 100, 200"\n\u2022 "Create a 2x3 grid of sticky notes for pros and cons"\n\u2022 "Set up a retrospective board"',
+}
+
+export default function ChatPanel({ boardId, onClose, onPanTo, getAuthToken, scope }: ChatPanelProps) {
+  const [messages, setMessages] = useState<Message[]>([WELCOME_MESSAGE])
   const [input, setInput] = useState('')
   const [loading, setLoading] = useState(false)
   const [streamStatus, setStreamStatus] = useState<string>('')
@@ -169,14 +186,19 @@ export default function ChatPanel({ boardId, onClose, onPanTo }: ChatPanelProps)
     abortRef.current = controller
 
     try {
+      const authToken = await getAuthToken?.().catch(() => null)
       const res = await fetch(`${API_URL}/api/ai/stream`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: trimmed, boardId }),
+        headers: {
+          'Content-Type': 'application/json',
+          ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+        },
+        body: JSON.stringify({ message: trimmed, boardId, ...scope }),
         signal: controller.signal,
       })
 
-      if (!res.ok) {
+      // A 429 still streams the error event that says which limit was hit
+      if (!res.ok && res.status !== 429) {
         throw new Error(`Server returned ${res.status}`)
       }
 
@@ -184,6 +206,8 @@ export default function ChatPanel({ boardId, onClose, onPanTo }: ChatPanelProps)
       const collectedActions: ToolAction[] = []
       let finalMessage = ''
       let isCached = false
+      let commandId: string | undefined
+      let refusal: AIStreamErrorEvent | null = null
 
       await consumeSSEStream(res, (event) => {
         switch (event.type) {
@@ -205,6 +229,7 @@ export default function ChatPanel({ boardId, onClose, onPanTo }: ChatPanelProps)
           case 'done':
             finalMessage = event.message || finalMessage || 'Done!'
             isCached = !!event.cached
+            commandId = event.commandId
             // Use actions from done event if present, otherwise collected tool_results
             if (event.actions?.length) {
               collectedActions.push(...event.actions.filter(
@@ -214,16 +239,27 @@ export default function ChatPanel({ boardId, onClose, onPanTo }: ChatPanelProps)
             break
 
           case 'error':
+            if (event.code) {
+              refusal = event
+              break
+            }
             throw new Error(event.error)
         }
       })
 
+      if (refusal) {
+        const { error, code } = refusal
+        setMessages((prev) => [...prev, { id: `limit-${Date.now()}`, role: 'assistant', content: error, limit: code }])
+        return
+      }
+
       const assistantMsg: Message = {
         id: `asst-${Date.now()}`,
         role: 'assistant',
         content: finalMessage,
         actions: collectedActions,
         cached: isCached,
+        commandId,
       }
 
       setMessages((prev) => [...prev, assistantMsg])
@@ -254,7 +290,64 @@ export default function ChatPanel({ boardId, onClose, onPanTo }: ChatPanelProps)
       setStreamActions([])
       abortRef.current = null
     }
-  }, [input, loading, boardId, onPanTo])
+  }, [input, loading, boardId, onPanTo, getAuthToken, scope])
+
+  // Forget the board's conversation on the server, then clear the panel
+  const startNewConversation = useCallback(async () => {
+    if (loading) return
+    try {
+      const authToken = await getAuthToken?.().catch(() => null)
+      const res = await fetch(`${API_URL}/api/ai/conversation/reset`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+        },
+        body: JSON.stringify({ boardId }),
+      })
+      if (!res.ok) throw new Error(`Server returned ${res.status}`)
+      setMessages([WELCOME_MESSAGE])
+    } catch (err) {
+      setMessages((prev) => [...prev, {
+        id: `err-${Date.now()}`,
+        role: 'assistant',
+        content: `Couldn't start a new conversation: ${err instanceof Error ? err.message : 'Unknown error'}`,
+      }])
+    }
+  }, [loading, boardId, getAuthToken])
+
+  // Revert one command's changes on the server
+  const undoCommand = useCallback(async (messageId: string, commandId: string) => {
+    const update = (changes: Partial<Message>) =>
+      setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, ...changes } : m)))
+
+    update({ undo: 'pending' })
+    try {
+      const authToken = await getAuthToken?.().catch(() => null)
+      const res = await fetch(`${API_URL}/api/ai/undo`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+        },
+        body: JSON.stringify({ boardId, commandId }),
+      })
+      if (!res.ok) {
+        const body = await res.json().catch(() => null) as { error?: string } | null
+        // 404: too old, or the board was reloaded since; it won't come back
+        if (res.status === 404) update({ commandId: undefined })
+        throw new Error(body?.error ?? `Server returned ${res.status}`)
+      }
+      update({ undo: 'done' })
+    } catch (err) {
+      update({ undo: undefined })
+      setMessages((prev) => [...prev, {
+        id: `err-${Date.now()}`,
+        role: 'assistant',
+        content: `Couldn't undo that AI change: ${err instanceof Error ? err.message : 'Unknown error'}`,
+      }])
+    }
+  }, [boardId, getAuthToken])
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
@@ -271,15 +364,34 @@ export default function ChatPanel({ boardId, onClose, onPanTo }: ChatPanelProps)
       {/* Header */}
       <div style={headerStyle}>
         <span style={{ fontSize: 15, fontWeight: 600, letterSpacing: '-0.01em' }}>AI Assistant</span>
-        <button onClick={onClose} style={closeBtnStyle} title="Close" aria-label="Close AI Assistant">
-          &times;
-        </button>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <button
+            onClick={startNewConversation}
+            disabled={loading}
+            style={{ ...newConversationBtnStyle, opacity: loading ? 0.5 : 1 }}
+            title="Start over: the assistant forgets earlier commands on this board"
+          >
+            New conversation
+          </button>
+          <button onClick={onClose} style={closeBtnStyle} title="Close" aria-label="Close AI Assistant">
+            &times;
+          </button>
+        </div>
       </div>
 
       {/* Messages */}
       <div style={messagesContainerStyle} role="log" aria-live="polite" aria-label="Chat messages">
         {messages.map((msg) => (
-          <div key={msg.id} style={msg.role === 'user' ? userBubbleStyle : assistantBubbleStyle}>
+          <div
+            key={msg.id}
+            style={msg.role === 'user' ? userBubbleStyle : msg.limit ? limitBubbleStyle : assistantBubbleStyle}
+            role={msg.limit ? 'alert' : undefined}
+          >
+            {msg.limit && (
+              <div style={limitTitleStyle}>
+                {msg.limit === 'quota_exceeded' ? 'Daily AI quota reached' : 'Slow down'}
+              </div>
+            )}
             <div style={{ whiteSpace: 'pre-wrap', fontSize: 13, lineHeight: 1.5 }}>
               {msg.content}
             </div>
@@ -295,6 +407,18 @@ export default function ChatPanel({ boardId, onClose, onPanTo }: ChatPanelProps)
                 ))}
               </div>
             )}
+            {msg.undo === 'done' ? (
+              <div style={undoneNoteStyle}>AI change undone</div>
+            ) : msg.commandId && (
+              <button
+                onClick={() => undoCommand(msg.id, msg.commandId!)}
+                disabled={msg.undo === 'pending'}
+                style={{ ...undoBtnStyle, opacity: msg.undo === 'pending' ? 0.5 : 1 }}
+                title="Revert what this command changed, keeping everyone's later edits"
+              >
+                Undo this AI change
+              </button>
+            )}
           </div>
         ))}
         {loading && (
@@ -375,6 +499,14 @@ function formatAction(action: ToolAction): string {
   if (action.tool === 'moveObject') {
     return `Moved to (${parsed.x}, ${parsed.y})`
   }
+  if (!parsed.success) return `${action.tool} failed`
+  if (action.tool === 'deleteObjects') return `Deleted ${parsed.deleted.length} object(s)`
+  if (action.tool === 'updateObjectsByFilter') return `Updated ${parsed.updated.length} object(s)`
+  if (action.tool === 'connectObjects') return 'Connected objects'
+  if (action.tool === 'alignObjects') return `Aligned ${parsed.aligned.length} objects (${parsed.alignment})`
+  if (action.tool === 'distributeObjects') return `Distributed ${parsed.distributed.length} objects`
+  if (action.tool === 'fitFrameToChildren') return 'Fit frame to contents'
+  if (action.tool === 'reparentObjects') return parsed.parentId ? `Moved ${parsed.ids.length} into frame` : `Took ${parsed.ids.length} out of frame`
   return action.tool
 }
 
@@ -407,6 +539,16 @@ const headerStyle: React.CSSProperties = {
   color: '#fff',
 }
 
+const newConversationBtnStyle: React.CSSProperties = {
+  background: 'rgba(255,255,255,0.12)',
+  border: '1px solid rgba(255,255,255,0.25)',
+  borderRadius: 6,
+  color: '#fff',
+  fontSize: 12,
+  padding: '3px 8px',
+  cursor: 'pointer',
+}
+
 const closeBtnStyle: React.CSSProperties = {
   background: 'none',
   border: 'none',
@@ -449,6 +591,19 @@ const assistantBubbleStyle: React.CSSProperties = {
   color: '#1f2937',
 }
 
+const limitBubbleStyle: React.CSSProperties = {
+  ...assistantBubbleStyle,
+  background: '#FEF3C7',
+  border: '1px solid #F59E0B',
+  color: '#78350F',
+}
+
+const limitTitleStyle: React.CSSProperties = {
+  fontSize: 12,
+  fontWeight: 600,
+  marginBottom: 2,
+}
+
 const actionsContainerStyle: React.CSSProperties = {
   marginTop: 8,
   display: 'flex',
@@ -485,6 +640,25 @@ const instantBadgeStyle: React.CSSProperties = {
   fontWeight: 500,
 }
 
+const undoBtnStyle: React.CSSProperties = {
+  display: 'block',
+  marginTop: 8,
+  padding: '3px 10px',
+  background: '#ffffff',
+  border: '1px solid #d1d5db',
+  borderRadius: 6,
+  fontSize: 11,
+  color: '#374151',
+  cursor: 'pointer',
+}
+
+const undoneNoteStyle: React.CSSProperties = {
+  marginTop: 8,
+  fontSize: 11,
+  color: '#6b7280',
+  fontStyle: 'italic',
+}
+
 const cancelBtnStyle: React.CSSProperties = {
   alignSelf: 'flex-start',
   padding: '3px 10px',
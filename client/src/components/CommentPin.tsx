@@ -0,0 +1,83 @@
+/**
+ * CommentPin — A comment thread's marker on the Konva canvas.
+ *
+ * A round badge with the thread's reply count, its tip at the anchor point.
+ * Counter-scaled so it stays the same size on screen at any zoom.
+ */
+
+import { Group, Circle, Rect as KonvaRect, Text as KonvaText } from 'react-konva'
+
+// ---------------------------------------------------------------------------
+// Props
+// ---------------------------------------------------------------------------
+
+interface CommentPinProps {
+  threadId: string
+  x: number
+  y: number
+  /** Messages in the thread. */
+  count: number
+  /** The thread open in the comments panel. */
+  active: boolean
+  scale: number
+  onSelect: (threadId: string) => void
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+const RADIUS = 12
+
+export default function CommentPin({ threadId, x, y, count, active, scale, onSelect }: CommentPinProps) {
+  const fill = active ? '#2563EB' : '#F59E0B'
+  return (
+    <Group
+      x={x}
+      y={y}
+      scaleX={1 / scale}
+      scaleY={1 / scale}
+      onClick={(e) => {
+        e.cancelBubble = true
+        onSelect(threadId)
+      }}
+      onTap={(e) => {
+        e.cancelBubble = true
+        onSelect(threadId)
+      }}
+      onMouseEnter={(e) => {
+        const container = e.target.getStage()?.container()
+        if (container) container.style.cursor = 'pointer'
+      }}
+      onMouseLeave={(e) => {
+        const container = e.target.getStage()?.container()
+        if (container) container.style.cursor = ''
+      }}
+    >
+      {/* Square corner marks the anchor point */}
+      <KonvaRect x={0} y={-RADIUS} width={RADIUS} height={RADIUS} fill={fill} />
+      <Circle
+        x={RADIUS}
+        y={-RADIUS}
+        radius={RADIUS}
+        fill={fill}
+        stroke="#fff"
+        strokeWidth={2}
+        shadowColor="rgba(0,0,0,0.3)"
+        shadowBlur={4}
+      />
+      <KonvaText
+        x={0}
+        y={-RADIUS * 2}
+        width={RADIUS * 2}
+        height={RADIUS * 2}
+        text={count > 99 ? '99+' : String(count)}
+        fontSize={11}
+        fontStyle="bold"
+        fill="#fff"
+        align="center"
+        verticalAlign="middle"
+      />
+    </Group>
+  )
+}
@@ -0,0 +1,458 @@
+/**
+ * CommentsPanel — Browse and discuss a board's comment threads.
+ *
+ * Slides in from the right edge, next to the AI panel when that's open.
+ *
+ * Features:
+ *  - Open / Resolved / Mentions filters over the thread list
+ *  - "+ New comment" arms placement: the next click on the board pins it
+ *  - Thread view with replies, Resolve / Reopen and "Show on board"
+ *  - @mention suggestions from the board's members while typing
+ *
+ * Viewers can read threads but not post; the composer is hidden for them.
+ */
+
+import { useState, useMemo } from 'react'
+import {
+  extractMentions,
+  splitMentions,
+  MAX_COMMENT_LENGTH,
+  type CommentMention,
+  type CommentThreadView,
+  type CommentMessage,
+} from '../../../shared/comments'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type ThreadFilter = 'open' | 'resolved' | 'mentions'
+
+interface CommentsPanelProps {
+  threads: CommentThreadView[]
+  /** Thread shown in full, or null for the list. */
+  activeThreadId: string | null
+  onSelectThread: (threadId: string | null) => void
+  /** Board members who can be @mentioned. */
+  people: CommentMention[]
+  userId: string | null
+  canComment: boolean
+  /** Waiting for a click on the board to pin a new thread. */
+  placing: boolean
+  onStartPlacing: () => void
+  /** A pin has been dropped and needs its first message. */
+  pendingNew: boolean
+  onCreateThread: (text: string, mentions: CommentMention[]) => void
+  onCancelNew: () => void
+  onReply: (threadId: string, text: string, mentions: CommentMention[]) => void
+  onSetResolved: (threadId: string, resolved: boolean) => void
+  /** Pan the board to the thread's pin. */
+  onLocate: (threadId: string) => void
+  /** Shift left so both panels are visible. */
+  chatOpen: boolean
+  onClose: () => void
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export default function CommentsPanel({
+  threads,
+  activeThreadId,
+  onSelectThread,
+  people,
+  userId,
+  canComment,
+  placing,
+  onStartPlacing,
+  pendingNew,
+  onCreateThread,
+  onCancelNew,
+  onReply,
+  onSetResolved,
+  onLocate,
+  chatOpen,
+  onClose,
+}: CommentsPanelProps) {
+  const [filter, setFilter] = useState<ThreadFilter>('open')
+
+  const visible = useMemo(() => threads.filter((t) => {
+    if (filter === 'resolved') return t.resolved
+    if (t.resolved) return false
+    if (filter === 'mentions') return t.messages.some((m) => m.mentions.some((p) => p.userId === userId))
+    return true
+  }), [threads, filter, userId])
+
+  const active = threads.find((t) => t.id === activeThreadId) ?? null
+
+  return (
+    <div style={{ ...panelStyle, right: chatOpen ? 350 : 0 }} aria-label="Comments">
+      <div style={headerStyle}>
+        <span style={{ fontSize: 15, fontWeight: 600, letterSpacing: '-0.01em' }}>Comments</span>
+        <button onClick={onClose} style={closeBtnStyle} title="Close" aria-label="Close comments">
+          &times;
+        </button>
+      </div>
+
+      {pendingNew ? (
+        <div style={bodyStyle}>
+          <div style={hintStyle}>New comment</div>
+          <Composer people={people} placeholder="Add a comment…" submitLabel="Comment" onSubmit={onCreateThread} onCancel={onCancelNew} autoFocus />
+        </div>
+      ) : active ? (
+        <div style={bodyStyle}>
+          <div style={threadBarStyle}>
+            <button onClick={() => onSelectThread(null)} style={linkBtnStyle}>&larr; All threads</button>
+            <span style={{ flex: 1 }} />
+            <button onClick={() => onLocate(active.id)} style={linkBtnStyle}>Show on board</button>
+            {canComment && (
+              <button onClick={() => onSetResolved(active.id, !active.resolved)} style={smallBtnStyle}>
+                {active.resolved ? 'Reopen' : 'Resolve'}
+              </button>
+            )}
+          </div>
+          <div style={listStyle} role="log" aria-label="Thread messages">
+            {active.messages.map((m) => <MessageItem key={m.id} message={m} />)}
+            {active.resolved && <div style={hintStyle}>Resolved</div>}
+          </div>
+          {canComment && !active.resolved && (
+            <Composer
+              key={active.id}
+              people={people}
+              placeholder="Reply…"
+              submitLabel="Reply"
+              onSubmit={(text, mentions) => onReply(active.id, text, mentions)}
+            />
+          )}
+        </div>
+      ) : (
+        <div style={bodyStyle}>
+          <div style={threadBarStyle} role="tablist">
+            {(['open', 'resolved', 'mentions'] as const).map((f) => (
+              <button
+                key={f}
+                role="tab"
+                aria-selected={filter === f}
+                onClick={() => setFilter(f)}
+                style={filter === f ? activeTabStyle : tabStyle}
+              >
+                {f === 'open' ? 'Open' : f === 'resolved' ? 'Resolved' : 'Mentions'}
+              </button>
+            ))}
+            <span style={{ flex: 1 }} />
+            {canComment && (
+              <button onClick={onStartPlacing} style={smallBtnStyle} disabled={placing}>
+                + New comment
+              </button>
+            )}
+          </div>
+          {placing && <div style={hintStyle}>Click the board or an object to place the comment</div>}
+          <div style={listStyle}>
+            {visible.length === 0 && <div style={hintStyle}>No {filter === 'mentions' ? 'threads mentioning you' : `${filter} threads`}</div>}
+            {visible.map((t) => (
+              <button key={t.id} onClick={() => onSelectThread(t.id)} style={threadItemStyle}>
+                <div style={authorStyle}>{t.messages[0].authorName}</div>
+                <div style={snippetStyle}>{t.messages[0].text}</div>
+                {t.messages.length > 1 && (
+                  <div style={metaStyle}>{t.messages.length - 1} {t.messages.length === 2 ? 'reply' : 'replies'}</div>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Messages
+// ---------------------------------------------------------------------------
+
+function MessageItem({ message }: { message: CommentMessage }) {
+  return (
+    <div style={messageStyle}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+        <span style={authorStyle}>{message.authorName}</span>
+        <span style={metaStyle}>{new Date(message.createdAt).toLocaleString()}</span>
+      </div>
+      <div style={{ whiteSpace: 'pre-wrap', fontSize: 13, lineHeight: 1.5 }}>
+        {splitMentions(message.text, message.mentions).map((part, i) =>
+          part.mention ? <span key={i} style={mentionStyle}>{part.text}</span> : part.text,
+        )}
+      </div>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Composer
+// ---------------------------------------------------------------------------
+
+interface ComposerProps {
+  people: CommentMention[]
+  placeholder: string
+  submitLabel: string
+  onSubmit: (text: string, mentions: CommentMention[]) => void
+  onCancel?: () => void
+  autoFocus?: boolean
+}
+
+/** The `@query` being typed at the end of `text`, or null. */
+function mentionQuery(text: string): string | null {
+  const match = /(?:^|\s)@([^\s@]*)$/.exec(text)
+  return match ? match[1] : null
+}
+
+function Composer({ people, placeholder, submitLabel, onSubmit, onCancel, autoFocus }: ComposerProps) {
+  const [text, setText] = useState('')
+
+  const query = mentionQuery(text)
+  const suggestions = query === null
+    ? []
+    : people.filter((p) => p.name.toLowerCase().startsWith(query.toLowerCase())).slice(0, 5)
+
+  const insertMention = (person: CommentMention) => {
+    setText((prev) => prev.replace(/@[^\s@]*$/, `@${person.name} `))
+  }
+
+  const submit = () => {
+    const body = text.trim()
+    if (!body) return
+    onSubmit(body, extractMentions(body, people))
+    setText('')
+  }
+
+  return (
+    <div style={composerStyle}>
+      {suggestions.length > 0 && (
+        <div style={suggestionsStyle} role="listbox" aria-label="Mention suggestions">
+          {suggestions.map((p) => (
+            <button key={p.userId} role="option" aria-selected={false} onClick={() => insertMention(p)} style={suggestionStyle}>
+              @{p.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault()
+            submit()
+          }
+        }}
+        placeholder={placeholder}
+        maxLength={MAX_COMMENT_LENGTH}
+        rows={3}
+        autoFocus={autoFocus}
+        style={textareaStyle}
+      />
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 6 }}>
+        {onCancel && <button onClick={onCancel} style={linkBtnStyle}>Cancel</button>}
+        <button onClick={submit} disabled={!text.trim()} style={sendBtnStyle}>{submitLabel}</button>
+      </div>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const panelStyle: React.CSSProperties = {
+  position: 'fixed',
+  top: 0,
+  width: 320,
+  height: '100vh',
+  background: '#ffffff',
+  borderLeft: '1px solid #e5e7eb',
+  display: 'flex',
+  flexDirection: 'column',
+  zIndex: 100,
+  boxShadow: '-4px 0 20px rgba(0,0,0,0.1)',
+  fontFamily: "'DM Sans', system-ui, -apple-system, sans-serif",
+}
+
+const headerStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  padding: '14px 16px',
+  background: '#1E293B',
+  color: '#fff',
+}
+
+const closeBtnStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  fontSize: 22,
+  cursor: 'pointer',
+  color: 'rgba(255,255,255,0.7)',
+  padding: '0 4px',
+  lineHeight: 1,
+}
+
+const bodyStyle: React.CSSProperties = {
+  flex: 1,
+  minHeight: 0,
+  display: 'flex',
+  flexDirection: 'column',
+}
+
+const threadBarStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 4,
+  padding: '8px 12px',
+  borderBottom: '1px solid #e5e7eb',
+}
+
+const listStyle: React.CSSProperties = {
+  flex: 1,
+  overflowY: 'auto',
+  overscrollBehavior: 'contain',
+  padding: '8px 12px',
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 8,
+}
+
+const tabStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  background: 'transparent',
+  border: 'none',
+  borderRadius: 6,
+  fontSize: 12,
+  color: '#6b7280',
+  cursor: 'pointer',
+}
+
+const activeTabStyle: React.CSSProperties = {
+  ...tabStyle,
+  background: '#EFF6FF',
+  color: '#2563EB',
+  fontWeight: 600,
+}
+
+const smallBtnStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  background: '#2563EB',
+  color: '#fff',
+  border: 'none',
+  borderRadius: 6,
+  fontSize: 12,
+  fontWeight: 600,
+  cursor: 'pointer',
+}
+
+const linkBtnStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  background: 'none',
+  border: 'none',
+  fontSize: 12,
+  color: '#2563EB',
+  cursor: 'pointer',
+}
+
+const hintStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  fontSize: 12,
+  color: '#6b7280',
+}
+
+const threadItemStyle: React.CSSProperties = {
+  textAlign: 'left',
+  padding: '10px 12px',
+  background: '#f9fafb',
+  border: '1px solid #e5e7eb',
+  borderRadius: 8,
+  cursor: 'pointer',
+  fontFamily: 'inherit',
+}
+
+const messageStyle: React.CSSProperties = {
+  padding: '8px 10px',
+  background: '#f3f4f6',
+  borderRadius: 8,
+  color: '#1f2937',
+}
+
+const authorStyle: React.CSSProperties = {
+  fontSize: 12,
+  fontWeight: 600,
+  color: '#1f2937',
+}
+
+const snippetStyle: React.CSSProperties = {
+  fontSize: 13,
+  color: '#374151',
+  overflow: 'hidden',
+  textOverflow: 'ellipsis',
+  whiteSpace: 'nowrap',
+}
+
+const metaStyle: React.CSSProperties = {
+  fontSize: 11,
+  color: '#9ca3af',
+}
+
+const mentionStyle: React.CSSProperties = {
+  color: '#2563EB',
+  fontWeight: 600,
+}
+
+const composerStyle: React.CSSProperties = {
+  position: 'relative',
+  padding: '10px 12px',
+  borderTop: '1px solid #e5e7eb',
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 6,
+}
+
+const suggestionsStyle: React.CSSProperties = {
+  position: 'absolute',
+  bottom: '100%',
+  left: 12,
+  right: 12,
+  background: '#fff',
+  border: '1px solid #e5e7eb',
+  borderRadius: 8,
+  boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+  display: 'flex',
+  flexDirection: 'column',
+}
+
+const suggestionStyle: React.CSSProperties = {
+  textAlign: 'left',
+  padding: '6px 10px',
+  background: 'none',
+  border: 'none',
+  fontSize: 13,
+  cursor: 'pointer',
+}
+
+const textareaStyle: React.CSSProperties = {
+  resize: 'none',
+  border: '1px solid #d1d5db',
+  borderRadius: 8,
+  padding: '8px 12px',
+  fontSize: 13,
+  fontFamily: 'inherit',
+  lineHeight: 1.4,
+  outline: 'none',
+}
+
+const sendBtnStyle: React.CSSProperties = {
+  padding: '6px 14px',
+  background: 'linear-gradient(135deg, #3B82F6, #2563EB)',
+  color: '#fff',
+  border: 'none',
+  borderRadius: 8,
+  cursor: 'pointer',
+  fontSize: 13,
+  fontWeight: 600,
+}
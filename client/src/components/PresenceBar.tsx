@@ -1,8 +1,10 @@
 /**
  * PresenceBar — Top-right connection status + user avatars.
  *
- * Shows connected/disconnected status, the local user avatar,
- * and up to 5 remote user avatars with overflow count.
+ * Shows connected/offline status (and whether edits are waiting to sync),
+ * the local user avatar, and up to 5 remote user avatars with overflow count.
+ * Clicking a remote avatar follows that user's view (click again to stop);
+ * editors also get a button to bring everyone to their own view.
  */
 
 import type { RemoteCursor } from '../useYjs'
@@ -13,33 +15,55 @@ import type { RemoteCursor } from '../useYjs'
 
 interface PresenceBarProps {
   connected: boolean
+  /** The connection dropped and we're retrying (vs. still connecting). */
+  offline?: boolean
+  /** Local edits are saved on this device but not yet on the server. */
+  pendingChanges?: boolean
   userName: string
   userColor: string
   remoteCursors: RemoteCursor[]
   chatOpen?: boolean
+  /** The comments panel (320px) is open, beside the chat if both are. */
+  commentsOpen?: boolean
+  /** Client ID of the user whose view we're following. */
+  followingId?: string | null
+  /** Follow a user, or stop following with null. */
+  onFollow?: (clientId: string | null) => void
+  /** Bring everyone to our view (editors and owners only). */
+  onSummon?: () => void
 }
 
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
 
-export default function PresenceBar({ connected, userName, userColor, remoteCursors, chatOpen }: PresenceBarProps) {
+export default function PresenceBar({
+  connected, offline, pendingChanges, userName, userColor, remoteCursors, chatOpen, commentsOpen, followingId, onFollow, onSummon,
+}: PresenceBarProps) {
   return (
-    <div style={{ ...presenceStyle, right: chatOpen ? 366 : 12 }}>
+    <div style={{ ...presenceStyle, right: (chatOpen ? 366 : 12) + (commentsOpen ? 320 : 0) }}>
       {/* Connection indicator */}
       <span
         style={{
           width: 8,
           height: 8,
           borderRadius: '50%',
-          background: connected ? '#22c55e' : '#ef4444',
+          background: connected ? '#22c55e' : offline ? '#f59e0b' : '#ef4444',
           display: 'inline-block',
           flexShrink: 0,
         }}
       />
       <span style={{ color: '#374151', fontSize: 13 }}>
-        {connected ? 'Connected' : 'Connecting...'}
+        {connected ? 'Connected' : offline ? 'Offline' : 'Connecting...'}
       </span>
+      {pendingChanges && (
+        <span
+          style={pendingStyle}
+          title="Your edits are saved on this device and will sync when you reconnect"
+        >
+          Unsynced changes
+        </span>
+      )}
 
       {/* Divider */}
       <div style={{ width: 1, height: 16, background: '#e5e7eb' }} />
@@ -58,11 +82,28 @@ export default function PresenceBar({ connected, userName, userColor, remoteCurs
       </span>
 
       {/* Remote user avatars (max 5) */}
-      {remoteCursors.slice(0, 5).map((rc) => (
-        <span key={rc.clientId} title={rc.name} style={{ ...avatarStyle, background: rc.color }}>
-          {rc.name.charAt(0).toUpperCase()}
-        </span>
-      ))}
+      {remoteCursors.slice(0, 5).map((rc) => {
+        const following = rc.clientId === followingId
+        return (
+          <button
+            key={rc.clientId}
+            title={rc.name}
+            aria-label={following ? `Stop following ${rc.name}` : `Follow ${rc.name}`}
+            aria-pressed={following}
+            onClick={() => onFollow?.(following ? null : rc.clientId)}
+            style={{
+              ...avatarStyle,
+              background: rc.color,
+              border: 'none',
+              padding: 0,
+              cursor: onFollow ? 'pointer' : 'default',
+              boxShadow: following ? `0 0 0 2px #fff, 0 0 0 4px ${rc.color}` : undefined,
+            }}
+          >
+            {rc.name.charAt(0).toUpperCase()}
+          </button>
+        )
+      })}
 
       {/* Overflow count */}
       {remoteCursors.length > 5 && (
@@ -70,6 +111,13 @@ export default function PresenceBar({ connected, userName, userColor, remoteCurs
           +{remoteCursors.length - 5}
         </span>
       )}
+
+      {/* Bring everyone here */}
+      {onSummon && remoteCursors.length > 0 && (
+        <button onClick={onSummon} style={summonBtnStyle} title="Bring everyone to your view">
+          Summon all
+        </button>
+      )}
     </div>
   )
 }
@@ -107,3 +155,26 @@ const avatarStyle: React.CSSProperties = {
   flexShrink: 0,
   fontFamily: "'DM Sans', system-ui, -apple-system, sans-serif",
 }
+
+const pendingStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  background: '#FFFBEB',
+  color: '#B45309',
+  border: '1px solid #FDE68A',
+  borderRadius: 12,
+  fontSize: 12,
+  fontWeight: 600,
+  whiteSpace: 'nowrap',
+}
+
+const summonBtnStyle: React.CSSProperties = {
+  padding: '3px 10px',
+  background: '#EFF6FF',
+  color: '#2563EB',
+  border: '1px solid #BFDBFE',
+  borderRadius: 12,
+  fontSize: 12,
+  fontWeight: 600,
+  cursor: 'pointer',
+  fontFamily: "'DM Sans', system-ui, -apple-system, sans-serif",
+}
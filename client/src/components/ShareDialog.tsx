@@ -0,0 +1,215 @@
+/**
+ * ShareDialog — Create invite links for a board (owner only).
+ *
+ * The owner picks the role the link grants and how long it stays valid;
+ * anyone signed in who opens the link joins the board with that role.
+ */
+
+import { useState } from 'react'
+import { boardsApi, type MemberRole } from '../api'
+
+interface ShareDialogProps {
+  boardId: string
+  getToken: () => Promise<string | null>
+  onClose: () => void
+}
+
+const ROLE_OPTIONS: Array<{ value: MemberRole; label: string }> = [
+  { value: 'editor', label: 'Can edit' },
+  { value: 'commenter', label: 'Can comment' },
+  { value: 'viewer', label: 'Can view' },
+]
+
+const EXPIRY_OPTIONS: Array<{ hours: number | null; label: string }> = [
+  { hours: null, label: 'Never expires' },
+  { hours: 24, label: 'Expires in 1 day' },
+  { hours: 168, label: 'Expires in 7 days' },
+  { hours: 720, label: 'Expires in 30 days' },
+]
+
+export default function ShareDialog({ boardId, getToken, onClose }: ShareDialogProps) {
+  const [role, setRole] = useState<MemberRole>('editor')
+  const [expiryIndex, setExpiryIndex] = useState(0)
+  const [link, setLink] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const handleCreate = async () => {
+    setError(null)
+    setCopied(false)
+    const token = await getToken()
+    if (!token) return
+    const invite = await boardsApi.createInvite(boardId, role, EXPIRY_OPTIONS[expiryIndex].hours, token)
+    if (!invite) {
+      setError('Could not create an invite link.')
+      return
+    }
+    setLink(`${window.location.origin}/invite/${invite.token}`)
+  }
+
+  const handleCopy = async () => {
+    if (!link) return
+    try {
+      await navigator.clipboard.writeText(link)
+      setCopied(true)
+    } catch {
+      // Clipboard blocked — the link is still selectable in the input
+    }
+  }
+
+  return (
+    <div style={overlayStyle} onClick={onClose}>
+      <div style={panelStyle} onClick={(e) => e.stopPropagation()}>
+        <div style={headerStyle}>
+          <span style={{ fontSize: 15, fontWeight: 600 }}>Share board</span>
+          <button onClick={onClose} style={closeBtnStyle} title="Close" aria-label="Close share dialog">
+            &times;
+          </button>
+        </div>
+
+        <div style={bodyStyle}>
+          <div style={rowStyle}>
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as MemberRole)}
+              style={selectStyle}
+              aria-label="Invite role"
+            >
+              {ROLE_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+            <select
+              value={expiryIndex}
+              onChange={(e) => setExpiryIndex(Number(e.target.value))}
+              style={selectStyle}
+              aria-label="Invite expiry"
+            >
+              {EXPIRY_OPTIONS.map((o, i) => (
+                <option key={o.label} value={i}>{o.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <button onClick={handleCreate} style={primaryBtnStyle}>
+            Create link
+          </button>
+
+          {link && (
+            <div style={rowStyle}>
+              <input readOnly value={link} style={linkInputStyle} onFocus={(e) => e.target.select()} />
+              <button onClick={handleCopy} style={secondaryBtnStyle}>
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+          )}
+
+          {error && <p style={errorStyle}>{error}</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const overlayStyle: React.CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  background: 'rgba(0,0,0,0.3)',
+  zIndex: 200,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+}
+
+const panelStyle: React.CSSProperties = {
+  background: '#fff',
+  borderRadius: 16,
+  boxShadow: '0 8px 32px rgba(0,0,0,0.15)',
+  width: 440,
+  fontFamily: "'DM Sans', system-ui, -apple-system, sans-serif",
+}
+
+const headerStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  padding: '16px 20px',
+  borderBottom: '1px solid #e5e7eb',
+  background: '#1E293B',
+  color: '#fff',
+  borderRadius: '16px 16px 0 0',
+}
+
+const closeBtnStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  fontSize: 22,
+  cursor: 'pointer',
+  color: 'rgba(255,255,255,0.7)',
+  padding: '0 4px',
+  lineHeight: 1,
+}
+
+const bodyStyle: React.CSSProperties = {
+  padding: '16px 20px',
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 12,
+}
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  gap: 8,
+}
+
+const selectStyle: React.CSSProperties = {
+  flex: 1,
+  padding: '6px 8px',
+  border: '1px solid #d1d5db',
+  borderRadius: 6,
+  fontSize: 13,
+  fontFamily: 'inherit',
+}
+
+const primaryBtnStyle: React.CSSProperties = {
+  background: '#2563EB',
+  color: '#fff',
+  border: 'none',
+  borderRadius: 8,
+  padding: '8px 16px',
+  fontSize: 13,
+  fontWeight: 500,
+  cursor: 'pointer',
+  fontFamily: 'inherit',
+}
+
+const linkInputStyle: React.CSSProperties = {
+  flex: 1,
+  padding: '6px 8px',
+  border: '1px solid #d1d5db',
+  borderRadius: 6,
+  fontSize: 12,
+  fontFamily: "'SF Mono', 'Fira Code', monospace",
+  color: '#334155',
+}
+
+const secondaryBtnStyle: React.CSSProperties = {
+  background: 'none',
+  border: '1px solid #d1d5db',
+  borderRadius: 6,
+  padding: '4px 12px',
+  fontSize: 12,
+  color: '#374151',
+  cursor: 'pointer',
+  fontFamily: 'inherit',
+}
+
+const errorStyle: React.CSSProperties = {
+  margin: 0,
+  fontSize: 12,
+  color: '#EF4444',
+}
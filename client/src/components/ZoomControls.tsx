@@ -14,15 +14,17 @@ interface ZoomControlsProps {
   onZoomOut: () => void
   onZoomReset: () => void
   chatOpen?: boolean
+  /** The comments panel (320px) is open, beside the chat if both are. */
+  commentsOpen?: boolean
 }
 
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
 
-export default function ZoomControls({ scale, onZoomIn, onZoomOut, onZoomReset, chatOpen }: ZoomControlsProps) {
+export default function ZoomControls({ scale, onZoomIn, onZoomOut, onZoomReset, chatOpen, commentsOpen }: ZoomControlsProps) {
   return (
-    <div style={{ ...zoomControlsStyle, right: chatOpen ? 366 : 16 }}>
+    <div style={{ ...zoomControlsStyle, right: (chatOpen ? 366 : 16) + (commentsOpen ? 320 : 0) }}>
       <button onClick={onZoomOut} style={zoomBtnStyle} title="Zoom Out" aria-label="Zoom out">
         &minus;
       </button>
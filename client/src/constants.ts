@@ -74,4 +74,4 @@ export const PRODUCTION_HOST = 'raqdrobinson.com'
 // WebSocket Protocol (re-exported from shared)
 // ---------------------------------------------------------------------------
 
-export { MSG_YJS, MSG_AWARENESS, DEFAULT_BOARD_ID } from '../../shared/constants'
+export { MSG_SYNC, MSG_AWARENESS, MSG_AUTH, MSG_QUERY_AWARENESS, WS_CLOSE_NO_ACCESS, DEFAULT_BOARD_ID, GUEST_BOARD_ID, TEXT_MAP, COMMENTS_MAP } from '../../shared/constants'
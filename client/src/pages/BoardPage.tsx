@@ -2,20 +2,69 @@
  * BoardPage — Wrapper for the canvas board
  *
  * Extracts the board ID from URL params, provides auth context,
- * and renders the Board component with a header bar.
+ * and renders the Board component with a header bar. The user's role
+ * decides whether the board is read-only and whether Share is shown.
+ * Anyone who can open the board can export it as SVG, PNG, PDF or JSON.
  */
 
+import { useState, useEffect } from 'react'
 import { useParams, Link } from 'react-router-dom'
-import { useUser, SignOutButton } from '@clerk/clerk-react'
+import { useAuth, useUser, SignOutButton } from '@clerk/clerk-react'
 import Board from '../Board'
+import ShareDialog from '../components/ShareDialog'
+import { boardsApi, type BoardRole, type ExportFormat } from '../api'
 
 export default function BoardPage() {
   const { id } = useParams<{ id: string }>()
+  const { getToken } = useAuth()
   const { user } = useUser()
+  const [role, setRole] = useState<BoardRole | null>(null)
+  const [boardName, setBoardName] = useState('board')
+  const [showShare, setShowShare] = useState(false)
+  const [exporting, setExporting] = useState(false)
 
+  useEffect(() => {
+    if (!id) return
+    let cancelled = false
+    getToken()
+      .then((token) => (token ? boardsApi.fetchBoard(id, token) : null))
+      .then((board) => {
+        if (cancelled) return
+        setRole(board?.role ?? null)
+        if (board) setBoardName(board.name)
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [id]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const readOnly = role === 'viewer' || role === 'commenter'
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!id) return
+    setExporting(true)
+    try {
+      const token = await getToken()
+      const blob = token ? await boardsApi.exportBoard(id, format, token) : null
+      if (!blob) return
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${boardName}.${format}`
+      a.click()
+      URL.revokeObjectURL(url)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  // Same order as the server's verified name (getUserDisplayName), which
+  // comments must carry
   const userName =
     [user?.firstName, user?.lastName].filter(Boolean).join(' ').trim() ||
-    user?.emailAddresses?.[0]?.emailAddress?.split('@')[0] ||
+    user?.username ||
+    user?.primaryEmailAddress?.emailAddress?.split('@')[0] ||
     'User'
 
   return (
@@ -28,6 +77,27 @@ export default function BoardPage() {
           </Link>
         </div>
         <div style={styles.headerRight}>
+          {readOnly && <span style={styles.roleLabel}>{role === 'viewer' ? 'Viewer' : 'Commenter'}</span>}
+          {role && (
+            <select
+              value=""
+              disabled={exporting}
+              onChange={(e) => handleExport(e.target.value as ExportFormat)}
+              style={styles.exportSelect}
+              aria-label="Export board"
+            >
+              <option value="" disabled>{exporting ? 'Exporting...' : 'Export'}</option>
+              <option value="svg">SVG</option>
+              <option value="png">PNG</option>
+              <option value="pdf">PDF</option>
+              <option value="json">JSON</option>
+            </select>
+          )}
+          {role === 'owner' && id && (
+            <button onClick={() => setShowShare(true)} style={styles.shareBtn}>
+              Share
+            </button>
+          )}
           <SignOutButton>
             <button style={styles.signOutBtn}>Sign Out</button>
           </SignOutButton>
@@ -36,8 +106,19 @@ export default function BoardPage() {
 
       {/* Canvas */}
       <div style={styles.boardWrapper}>
-        <Board userName={userName} boardId={id} />
+        <Board
+          userName={userName}
+          userId={user?.id}
+          boardId={id}
+          getAuthToken={getToken}
+          readOnly={readOnly}
+          canComment={role !== 'viewer'}
+        />
       </div>
+
+      {showShare && id && (
+        <ShareDialog boardId={id} getToken={getToken} onClose={() => setShowShare(false)} />
+      )}
     </div>
   )
 }
@@ -79,6 +160,32 @@ const styles: Record<string, React.CSSProperties> = {
     alignItems: 'center',
     gap: 12,
   },
+  roleLabel: {
+    fontSize: 12,
+    color: '#64748B',
+    fontFamily: "'DM Sans', system-ui, -apple-system, sans-serif",
+  },
+  exportSelect: {
+    border: '1px solid #d1d5db',
+    borderRadius: 6,
+    padding: '4px 8px',
+    fontSize: 12,
+    color: '#374151',
+    background: '#fff',
+    cursor: 'pointer',
+    fontFamily: "'DM Sans', system-ui, -apple-system, sans-serif",
+  },
+  shareBtn: {
+    background: '#2563EB',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 6,
+    padding: '4px 12px',
+    fontSize: 12,
+    fontWeight: 500,
+    cursor: 'pointer',
+    fontFamily: "'DM Sans', system-ui, -apple-system, sans-serif",
+  },
   signOutBtn: {
     background: 'none',
     border: '1px solid #d1d5db',
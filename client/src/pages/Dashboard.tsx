@@ -1,53 +1,218 @@
 /**
  * Dashboard Page — Board list and management
  *
- * Shows all boards (team workspace model — everyone sees everything).
- * Users can create new boards, and owners can rename/delete their boards.
+ * Shows the boards the user owns or has joined, with their role and a
+ * thumbnail rendered by the server each time the board is saved.
+ * Search (names and the text on boards), sorting, folders and favorites
+ * all run server-side; boards load a page at a time.
+ * Users can create new boards, start one from a template, duplicate any
+ * board they can see, or import one from an exported JSON file (or an
+ * Excalidraw, Mermaid or Miro file). Owners can rename their boards and
+ * mark them as templates. Deleting a board moves it to the owner's Trash,
+ * where it can be restored for 30 days before the server purges it.
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { Link } from 'react-router-dom'
 import { useAuth, useUser, SignOutButton } from '@clerk/clerk-react'
-import { boardsApi, type Board } from '../api'
+import { boardsApi, type Board, type BoardRole, type BoardSort, type TrashedBoard } from '../api'
+import { readImportFile, IMPORT_ACCEPT } from '../utils/importFile'
+
+const ROLE_LABELS: Record<BoardRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  commenter: 'Commenter',
+  viewer: 'Viewer',
+}
+
+const SORT_LABELS: Record<BoardSort, string> = {
+  updated: 'Last edited',
+  name: 'Name',
+  owner: 'Owner',
+  created: 'Date created',
+}
+
+const PAGE_SIZE = 24
+const SEARCH_DEBOUNCE_MS = 300
 
 export default function Dashboard() {
   const { getToken } = useAuth()
   const { user } = useUser()
   const [boards, setBoards] = useState<Board[]>([])
+  const [total, setTotal] = useState(0)
+  const [folders, setFolders] = useState<string[]>([])
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [q, setQ] = useState('')
+  const [sort, setSort] = useState<BoardSort>('updated')
+  const [folder, setFolder] = useState<string | null>(null)
+  const [favoritesOnly, setFavoritesOnly] = useState(false)
+  /** Templates for the "New from template" picker; null while it's closed. */
+  const [templates, setTemplates] = useState<Board[] | null>(null)
+  /** The Trash view's boards; null while showing the board list. */
+  const [trash, setTrash] = useState<TrashedBoard[] | null>(null)
+  /** The board just moved to the Trash, offered for undo. */
+  const [deletedBoard, setDeletedBoard] = useState<Board | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  /** Bumped per first-page load, so a slow response for an old query is dropped. */
+  const requestRef = useRef(0)
 
   const userId = user?.id ?? ''
+  const filtered = q !== '' || folder !== null || favoritesOnly
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQ(search.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [search])
 
   const loadBoards = useCallback(async () => {
+    const request = ++requestRef.current
     const token = await getToken()
     if (!token) return
-    const result = await boardsApi.fetchBoards(token)
-    setBoards(result)
+    const page = await boardsApi.fetchBoards(token, { q, sort, folder, favorites: favoritesOnly, limit: PAGE_SIZE })
+    if (request !== requestRef.current) return
+    setBoards(page.boards)
+    setTotal(page.total)
+    setFolders(page.folders)
     setLoading(false)
-  }, [getToken])
+  }, [getToken, q, sort, folder, favoritesOnly])
 
   useEffect(() => {
     loadBoards()
   }, [loadBoards])
 
+  const handleLoadMore = async () => {
+    const request = requestRef.current
+    const token = await getToken()
+    if (!token) return
+    setLoadingMore(true)
+    const page = await boardsApi.fetchBoards(token, {
+      q, sort, folder, favorites: favoritesOnly, limit: PAGE_SIZE, offset: boards.length,
+    })
+    setLoadingMore(false)
+    if (request !== requestRef.current) return
+    setBoards((prev) => [...prev, ...page.boards.filter((b) => !prev.some((p) => p.id === b.id))])
+    setTotal(page.total)
+  }
+
+  const addBoard = (board: Board) => {
+    setBoards((prev) => [board, ...prev])
+    setTotal((prev) => prev + 1)
+  }
+
   const handleCreateBoard = async () => {
     const token = await getToken()
     if (!token) return
     const board = await boardsApi.createBoard('Untitled Board', token)
-    if (board) {
-      setBoards((prev) => [board, ...prev])
+    if (board) addBoard(board)
+  }
+
+  const handleOpenTemplates = async () => {
+    if (templates) {
+      setTemplates(null)
+      return
+    }
+    const token = await getToken()
+    if (!token) return
+    const page = await boardsApi.fetchBoards(token, { templates: true, sort: 'name', limit: 100 })
+    setTemplates(page.boards)
+  }
+
+  const handleUseTemplate = async (template: Board) => {
+    setTemplates(null)
+    const token = await getToken()
+    if (!token) return
+    const board = await boardsApi.duplicateBoard(template.id, token, template.name)
+    if (board) addBoard(board)
+  }
+
+  const handleDuplicateBoard = async (id: string) => {
+    const token = await getToken()
+    if (!token) return
+    const board = await boardsApi.duplicateBoard(id, token)
+    if (board) addBoard(board)
+  }
+
+  const handleToggleTemplate = async (board: Board) => {
+    const token = await getToken()
+    if (!token) return
+    const isTemplate = !board.is_template
+    const ok = await boardsApi.setTemplate(board.id, isTemplate, token)
+    if (ok) {
+      setBoards((prev) => prev.map((b) => (b.id === board.id ? { ...b, is_template: isTemplate } : b)))
+    }
+  }
+
+  const handleImportFile = async (file: File) => {
+    setImportError(null)
+    const read = await readImportFile(file)
+    if (!read.ok) {
+      setImportError(read.error)
+      return
+    }
+    const token = await getToken()
+    if (!token) return
+    const result = await boardsApi.importBoard(read.document, token, read.source)
+    if (result.board) {
+      addBoard(result.board)
+    } else {
+      setImportError(result.error ?? 'Import failed')
+    }
+  }
+
+  const handleDeleteBoard = async (board: Board) => {
+    const token = await getToken()
+    if (!token) return
+    const ok = await boardsApi.deleteBoard(board.id, token)
+    if (ok) {
+      setBoards((prev) => prev.filter((b) => b.id !== board.id))
+      setTotal((prev) => prev - 1)
+      setDeletedBoard(board)
+    }
+  }
+
+  const handleUndoDelete = async () => {
+    if (!deletedBoard) return
+    const token = await getToken()
+    if (!token) return
+    const ok = await boardsApi.restoreBoard(deletedBoard.id, token)
+    if (ok) {
+      setDeletedBoard(null)
+      loadBoards()
+    }
+  }
+
+  const handleToggleTrash = async () => {
+    if (trash) {
+      setTrash(null)
+      return
     }
+    const token = await getToken()
+    if (!token) return
+    setDeletedBoard(null)
+    setTrash(await boardsApi.fetchTrash(token))
   }
 
-  const handleDeleteBoard = async (id: string) => {
+  const handleRestoreBoard = async (id: string) => {
     const token = await getToken()
     if (!token) return
-    const ok = await boardsApi.deleteBoard(id, token)
+    const ok = await boardsApi.restoreBoard(id, token)
     if (ok) {
-      setBoards((prev) => prev.filter((b) => b.id !== id))
+      setTrash((prev) => prev && prev.filter((b) => b.id !== id))
+      loadBoards()
     }
   }
 
+  const handlePurgeBoard = async (board: TrashedBoard) => {
+    if (!confirm(`Delete "${board.name}" forever? This can't be undone.`)) return
+    const token = await getToken()
+    if (!token) return
+    const ok = await boardsApi.purgeBoard(board.id, token)
+    if (ok) setTrash((prev) => prev && prev.filter((b) => b.id !== board.id))
+  }
+
   const handleRenameBoard = async (id: string) => {
     const name = prompt('Enter new board name:')
     if (!name?.trim()) return
@@ -61,6 +226,31 @@ export default function Dashboard() {
     }
   }
 
+  const handleToggleFavorite = async (board: Board) => {
+    const token = await getToken()
+    if (!token) return
+    const favorite = !board.favorite
+    const ok = await boardsApi.setBoardPreference(board.id, { favorite }, token)
+    if (ok) {
+      setBoards((prev) => prev.map((b) => (b.id === board.id ? { ...b, favorite } : b)))
+    }
+  }
+
+  const handleMoveBoard = async (board: Board) => {
+    const input = prompt('Folder name (leave empty to remove from folder):', board.folder ?? '')
+    if (input === null) return
+    const token = await getToken()
+    if (!token) return
+    const name = input.trim() || null
+    const ok = await boardsApi.setBoardPreference(board.id, { folder: name }, token)
+    if (ok) {
+      setBoards((prev) => prev.map((b) => (b.id === board.id ? { ...b, folder: name } : b)))
+      if (name && !folders.includes(name)) {
+        setFolders((prev) => [...prev, name].sort((a, b) => a.localeCompare(b)))
+      }
+    }
+  }
+
   return (
     <div style={styles.container}>
       {/* Header */}
@@ -79,59 +269,287 @@ export default function Dashboard() {
       {/* Main content */}
       <main style={styles.main}>
         <div style={styles.sectionHeader}>
-          <h2 style={styles.sectionTitle}>All Boards</h2>
-          <button onClick={handleCreateBoard} style={styles.newBoardBtn}>
-            + New Board
+          <h2 style={styles.sectionTitle}>{trash ? 'Trash' : 'All Boards'}</h2>
+          <div style={styles.sectionActions}>
+            <button onClick={() => importInputRef.current?.click()} style={styles.importBtn}>
+              Import
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept={IMPORT_ACCEPT}
+              style={{ display: 'none' }}
+              aria-label="Import board file"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleImportFile(file)
+                e.target.value = ''
+              }}
+            />
+            <div style={styles.templateMenu}>
+              <button onClick={handleOpenTemplates} style={styles.importBtn} aria-expanded={templates !== null}>
+                New from template
+              </button>
+              {templates && (
+                <div style={styles.templatePicker} role="menu" aria-label="Templates">
+                  {templates.length === 0 ? (
+                    <p style={styles.templateEmpty}>
+                      No templates yet. Use &ldquo;Make template&rdquo; on a board you own.
+                    </p>
+                  ) : (
+                    templates.map((template) => (
+                      <button
+                        key={template.id}
+                        role="menuitem"
+                        onClick={() => handleUseTemplate(template)}
+                        style={styles.templateOption}
+                      >
+                        {template.name}
+                      </button>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+            <button onClick={handleCreateBoard} style={styles.newBoardBtn}>
+              + New Board
+            </button>
+          </div>
+        </div>
+
+        {importError && <p style={styles.errorText}>{importError}</p>}
+
+        {deletedBoard && (
+          <div style={styles.notice} role="status">
+            <span>&ldquo;{deletedBoard.name}&rdquo; moved to Trash.</span>
+            <button onClick={handleUndoDelete} style={styles.noticeBtn}>Undo</button>
+            <button onClick={() => setDeletedBoard(null)} style={styles.noticeBtn} aria-label="Dismiss">
+              &times;
+            </button>
+          </div>
+        )}
+
+        <div style={styles.toolbar}>
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search boards and their contents"
+            aria-label="Search boards"
+            style={styles.searchInput}
+          />
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as BoardSort)}
+            aria-label="Sort boards"
+            style={styles.select}
+          >
+            {(Object.keys(SORT_LABELS) as BoardSort[]).map((key) => (
+              <option key={key} value={key}>{SORT_LABELS[key]}</option>
+            ))}
+          </select>
+          <select
+            value={folder ?? ''}
+            onChange={(e) => setFolder(e.target.value || null)}
+            aria-label="Folder"
+            style={styles.select}
+          >
+            <option value="">All folders</option>
+            {folders.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setFavoritesOnly((prev) => !prev)}
+            aria-pressed={favoritesOnly}
+            style={{ ...styles.filterBtn, ...(favoritesOnly ? styles.filterBtnActive : {}) }}
+          >
+            &#9733; Favorites
+          </button>
+          <button
+            onClick={handleToggleTrash}
+            aria-pressed={trash !== null}
+            style={{ ...styles.filterBtn, ...(trash ? styles.filterBtnActive : {}) }}
+          >
+            Trash
           </button>
         </div>
 
-        {loading ? (
+        {trash ? (
+          <TrashList boards={trash} onRestore={handleRestoreBoard} onPurge={handlePurgeBoard} />
+        ) : loading ? (
           <p style={styles.loadingText}>Loading boards...</p>
         ) : boards.length === 0 ? (
           <div style={styles.emptyState}>
-            <p style={styles.emptyText}>No boards yet. Create one to get started!</p>
+            <p style={styles.emptyText}>
+              {filtered ? 'No boards match.' : 'No boards yet. Create one to get started!'}
+            </p>
           </div>
         ) : (
-          <div style={styles.boardGrid}>
-            {boards.map((board) => (
-              <div key={board.id} style={styles.boardCard}>
-                <Link to={`/board/${board.id}`} style={styles.boardLink}>
-                  <div style={styles.boardPreview} />
-                  <div style={styles.boardInfo}>
-                    <span style={styles.boardName}>{board.name}</span>
-                    <span style={styles.boardMeta}>
-                      {board.owner_id === userId ? 'You' : 'Team'} &middot;{' '}
-                      {new Date(board.created_at).toLocaleDateString()}
-                    </span>
-                  </div>
-                </Link>
-                {board.owner_id === userId && (
+          <>
+            <div style={styles.boardGrid}>
+              {boards.map((board) => (
+                <div key={board.id} style={styles.boardCard}>
+                  <Link to={`/board/${board.id}`} style={styles.boardLink}>
+                    <BoardThumbnail board={board} getToken={getToken} />
+                    <div style={styles.boardInfo}>
+                      <span style={styles.boardName}>{board.name}</span>
+                      <span style={styles.boardMeta}>
+                        {board.owner_id === userId
+                          ? 'You'
+                          : board.owner_name ?? ROLE_LABELS[board.role ?? 'viewer']} &middot;{' '}
+                        Edited {new Date(board.updated_at).toLocaleDateString()}
+                        {board.folder && <> &middot; {board.folder}</>}
+                        {board.is_template && <> &middot; <span style={styles.templateBadge}>Template</span></>}
+                      </span>
+                    </div>
+                  </Link>
                   <div style={styles.boardActions}>
                     <button
-                      onClick={() => handleRenameBoard(board.id)}
+                      onClick={() => handleToggleFavorite(board)}
+                      style={{ ...styles.actionBtn, color: board.favorite ? '#F59E0B' : '#64748B' }}
+                      title={board.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                      aria-label={board.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                      aria-pressed={board.favorite ?? false}
+                    >
+                      {board.favorite ? '\u2605' : '\u2606'}
+                    </button>
+                    <button
+                      onClick={() => handleMoveBoard(board)}
                       style={styles.actionBtn}
-                      title="Rename board"
+                      title="Move to folder"
                     >
-                      Rename
+                      Move
                     </button>
                     <button
-                      onClick={() => handleDeleteBoard(board.id)}
-                      style={{ ...styles.actionBtn, color: '#EF4444' }}
-                      title="Delete board"
+                      onClick={() => handleDuplicateBoard(board.id)}
+                      style={styles.actionBtn}
+                      title="Duplicate board"
                     >
-                      Delete
+                      Duplicate
                     </button>
+                    {board.owner_id === userId && (
+                      <>
+                        <button
+                          onClick={() => handleToggleTemplate(board)}
+                          style={styles.actionBtn}
+                          title={board.is_template ? 'Stop offering as a template' : 'Offer in "New from template"'}
+                        >
+                          {board.is_template ? 'Unmark template' : 'Make template'}
+                        </button>
+                        <button
+                          onClick={() => handleRenameBoard(board.id)}
+                          style={styles.actionBtn}
+                          title="Rename board"
+                        >
+                          Rename
+                        </button>
+                        <button
+                          onClick={() => handleDeleteBoard(board)}
+                          style={{ ...styles.actionBtn, color: '#EF4444' }}
+                          title="Move to Trash"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
                   </div>
-                )}
+                </div>
+              ))}
+            </div>
+            {boards.length < total && (
+              <div style={styles.loadMoreRow}>
+                <button onClick={handleLoadMore} disabled={loadingMore} style={styles.importBtn}>
+                  {loadingMore ? 'Loading...' : `Load more (${total - boards.length})`}
+                </button>
               </div>
-            ))}
-          </div>
+            )}
+          </>
         )}
       </main>
     </div>
   )
 }
 
+// ---------------------------------------------------------------------------
+// Trash
+// ---------------------------------------------------------------------------
+
+function TrashList({ boards, onRestore, onPurge }: {
+  boards: TrashedBoard[]
+  onRestore: (id: string) => void
+  onPurge: (board: TrashedBoard) => void
+}) {
+  return (
+    <>
+      <p style={styles.trashNote}>Deleted boards stay in the Trash for 30 days, then are deleted for good.</p>
+      {boards.length === 0 ? (
+        <div style={styles.emptyState}>
+          <p style={styles.emptyText}>Trash is empty.</p>
+        </div>
+      ) : (
+        <ul style={styles.trashList} aria-label="Trash">
+          {boards.map((board) => (
+            <li key={board.id} style={styles.trashItem}>
+              <div style={styles.boardInfo}>
+                <span style={styles.boardName}>{board.name}</span>
+                <span style={styles.boardMeta}>
+                  Deleted {new Date(board.deleted_at).toLocaleDateString()} &middot;{' '}
+                  Deleted forever on {new Date(board.purge_at).toLocaleDateString()}
+                </span>
+              </div>
+              <div style={styles.boardActions}>
+                <button onClick={() => onRestore(board.id)} style={styles.actionBtn}>
+                  Restore
+                </button>
+                <button onClick={() => onPurge(board)} style={{ ...styles.actionBtn, color: '#EF4444' }}>
+                  Delete forever
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Thumbnail
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetched with the auth header (an <img src> can't send one) and shown via
+ * an object URL. Keyed on updated_at, so an edited board refetches while an
+ * unchanged one is served from the HTTP cache.
+ */
+function BoardThumbnail({ board, getToken }: { board: Board; getToken: () => Promise<string | null> }) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let objectUrl: string | null = null
+    ;(async () => {
+      const token = await getToken()
+      if (!token) return
+      const blob = await boardsApi.fetchThumbnail(board.id, board.updated_at, token)
+      if (!blob || cancelled) return
+      objectUrl = URL.createObjectURL(blob)
+      setUrl(objectUrl)
+    })()
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [board.id, board.updated_at, getToken])
+
+  return (
+    <div style={styles.boardPreview}>
+      {url && <img src={url} alt={`${board.name} preview`} style={styles.boardThumbnail} />}
+    </div>
+  )
+}
+
 // ---------------------------------------------------------------------------
 // Styles
 // ---------------------------------------------------------------------------
@@ -193,6 +611,66 @@ const styles: Record<string, React.CSSProperties> = {
     color: '#1E293B',
     margin: 0,
   },
+  sectionActions: {
+    display: 'flex',
+    gap: 8,
+  },
+  importBtn: {
+    background: '#fff',
+    color: '#374151',
+    border: '1px solid #d1d5db',
+    borderRadius: 8,
+    padding: '10px 20px',
+    fontSize: 14,
+    fontWeight: 500,
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  templateMenu: {
+    position: 'relative',
+  },
+  templatePicker: {
+    position: 'absolute',
+    top: 'calc(100% + 4px)',
+    right: 0,
+    zIndex: 10,
+    minWidth: 220,
+    maxHeight: 320,
+    overflowY: 'auto',
+    background: '#fff',
+    border: '1px solid #e2e8f0',
+    borderRadius: 8,
+    boxShadow: '0 8px 24px rgba(15, 23, 42, 0.12)',
+    padding: 4,
+    display: 'flex',
+    flexDirection: 'column',
+  },
+  templateOption: {
+    background: 'none',
+    border: 'none',
+    borderRadius: 6,
+    padding: '8px 12px',
+    fontSize: 14,
+    textAlign: 'left',
+    color: '#1E293B',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  templateEmpty: {
+    fontSize: 13,
+    color: '#94a3b8',
+    margin: 0,
+    padding: '8px 12px',
+  },
+  templateBadge: {
+    color: '#7C3AED',
+    fontWeight: 600,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#EF4444',
+    margin: '-12px 0 16px',
+  },
   newBoardBtn: {
     background: '#2563EB',
     color: '#fff',
@@ -204,6 +682,90 @@ const styles: Record<string, React.CSSProperties> = {
     cursor: 'pointer',
     fontFamily: 'inherit',
   },
+  toolbar: {
+    display: 'flex',
+    gap: 8,
+    marginBottom: 20,
+    flexWrap: 'wrap',
+  },
+  searchInput: {
+    flex: '1 1 240px',
+    border: '1px solid #d1d5db',
+    borderRadius: 8,
+    padding: '8px 12px',
+    fontSize: 14,
+    fontFamily: 'inherit',
+  },
+  select: {
+    border: '1px solid #d1d5db',
+    borderRadius: 8,
+    padding: '8px 10px',
+    fontSize: 14,
+    background: '#fff',
+    fontFamily: 'inherit',
+  },
+  filterBtn: {
+    background: '#fff',
+    color: '#374151',
+    border: '1px solid #d1d5db',
+    borderRadius: 8,
+    padding: '8px 14px',
+    fontSize: 14,
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+  },
+  filterBtnActive: {
+    background: '#FEF3C7',
+    borderColor: '#F59E0B',
+    color: '#92400E',
+  },
+  notice: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    fontSize: 14,
+    color: '#1E293B',
+    background: '#F1F5F9',
+    borderRadius: 8,
+    padding: '8px 12px',
+    marginBottom: 16,
+  },
+  noticeBtn: {
+    background: 'none',
+    border: 'none',
+    fontSize: 14,
+    fontWeight: 600,
+    color: '#2563EB',
+    cursor: 'pointer',
+    padding: '2px 6px',
+    fontFamily: 'inherit',
+  },
+  trashNote: {
+    fontSize: 13,
+    color: '#64748B',
+    margin: '0 0 16px',
+  },
+  trashList: {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 8,
+  },
+  trashItem: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    background: '#fff',
+    borderRadius: 12,
+    border: '1px solid #e2e8f0',
+  },
+  loadMoreRow: {
+    display: 'flex',
+    justifyContent: 'center',
+    marginTop: 24,
+  },
   loadingText: {
     fontSize: 14,
     color: '#94a3b8',
@@ -243,6 +805,12 @@ const styles: Record<string, React.CSSProperties> = {
     height: 120,
     background: 'linear-gradient(135deg, #f1f5f9 0%, #e2e8f0 100%)',
   },
+  boardThumbnail: {
+    display: 'block',
+    width: '100%',
+    height: '100%',
+    objectFit: 'cover',
+  },
   boardInfo: {
     padding: '12px 16px 8px',
     display: 'flex',
@@ -260,7 +828,8 @@ const styles: Record<string, React.CSSProperties> = {
   },
   boardActions: {
     display: 'flex',
-    gap: 8,
+    flexWrap: 'wrap',
+    gap: 4,
     padding: '4px 16px 12px',
   },
   actionBtn: {
@@ -0,0 +1,82 @@
+/**
+ * InvitePage — Accepts a board invite link (/invite/:token)
+ *
+ * Joins the board with the link's role, then opens it. Expired, revoked
+ * or unknown links show an error with a way back to the dashboard.
+ */
+
+import { useState, useEffect } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { useAuth } from '@clerk/clerk-react'
+import { boardsApi } from '../api'
+
+export default function InvitePage() {
+  const { token } = useParams<{ token: string }>()
+  const { getToken } = useAuth()
+  const navigate = useNavigate()
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    if (!token) return
+    let cancelled = false
+    getToken()
+      .then((authToken) => (authToken ? boardsApi.acceptInvite(token, authToken) : null))
+      .then((result) => {
+        if (cancelled) return
+        if (result) {
+          navigate(`/board/${result.boardId}`, { replace: true })
+        } else {
+          setFailed(true)
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [token]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  return (
+    <div style={styles.container}>
+      {failed ? (
+        <>
+          <p style={styles.message}>This invite link is invalid or has expired.</p>
+          <Link to="/" style={styles.link}>
+            &larr; Back to boards
+          </Link>
+        </>
+      ) : (
+        <p style={styles.message}>Joining board...</p>
+      )}
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    height: '100vh',
+    background: '#f8fafc',
+    fontFamily: "'DM Sans', system-ui, -apple-system, sans-serif",
+  },
+  message: {
+    fontSize: 15,
+    color: '#64748B',
+    margin: 0,
+  },
+  link: {
+    textDecoration: 'none',
+    color: '#2563EB',
+    fontSize: 14,
+    fontWeight: 500,
+  },
+}
@@ -5,10 +5,12 @@
  *  - Extracts board ID from URL params
  *  - Renders "Back to boards" link
  *  - Passes boardId to child components
+ *  - Read-only for viewers, Share button for owners
+ *  - Export menu downloads the board in the chosen format
  */
 
-import { describe, it, expect, vi } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor, fireEvent } from '@testing-library/react'
 import { MemoryRouter, Route, Routes } from 'react-router-dom'
 
 // Mock Clerk
@@ -30,16 +32,38 @@ vi.mock('@clerk/clerk-react', () => ({
 
 // Mock the Board component to avoid canvas/Konva issues in jsdom
 vi.mock('../Board', () => ({
-  default: ({ userName, boardId }: { userName: string; boardId?: string }) => (
+  default: ({ userName, boardId, readOnly, canComment }: { userName: string; boardId?: string; readOnly?: boolean; canComment?: boolean }) => (
     <div data-testid="mock-board">
       <span data-testid="board-username">{userName}</span>
       <span data-testid="board-id">{boardId}</span>
+      <span data-testid="board-readonly">{String(!!readOnly)}</span>
+      <span data-testid="board-cancomment">{String(!!canComment)}</span>
     </div>
   ),
 }))
 
+// Mock the API
+vi.mock('../api', () => ({
+  boardsApi: {
+    fetchBoard: vi.fn(),
+    createInvite: vi.fn(),
+    exportBoard: vi.fn(),
+  },
+}))
+
+import { boardsApi } from '../api'
 import BoardPage from '../pages/BoardPage'
 
+const mockFetchBoard = vi.mocked(boardsApi.fetchBoard)
+const mockExportBoard = vi.mocked(boardsApi.exportBoard)
+
+function boardWithRole(role: 'owner' | 'editor' | 'commenter' | 'viewer') {
+  return {
+    id: 'test-board-uuid', owner_id: 'user_9', name: 'Roadmap', role,
+    created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z',
+  }
+}
+
 function renderBoardPage(boardId: string) {
   return render(
     <MemoryRouter initialEntries={[`/board/${boardId}`]}>
@@ -51,6 +75,11 @@ function renderBoardPage(boardId: string) {
 }
 
 describe('BoardPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockFetchBoard.mockResolvedValue(null)
+  })
+
   it('renders with board ID from URL params', () => {
     renderBoardPage('test-board-uuid')
     expect(screen.getByTestId('board-id').textContent).toBe('test-board-uuid')
@@ -66,4 +95,54 @@ describe('BoardPage', () => {
     renderBoardPage('test-board-uuid')
     expect(screen.getByTestId('board-username').textContent).toBe('Test User')
   })
+
+  it('makes the board read-only for viewers', async () => {
+    mockFetchBoard.mockResolvedValue(boardWithRole('viewer'))
+    renderBoardPage('test-board-uuid')
+
+    await waitFor(() => {
+      expect(screen.getByTestId('board-readonly').textContent).toBe('true')
+    })
+    expect(screen.getByTestId('board-cancomment').textContent).toBe('false')
+    expect(screen.queryByText('Share')).toBeNull()
+  })
+
+  it('lets commenters comment on a read-only board', async () => {
+    mockFetchBoard.mockResolvedValue(boardWithRole('commenter'))
+    renderBoardPage('test-board-uuid')
+
+    await waitFor(() => {
+      expect(screen.getByTestId('board-readonly').textContent).toBe('true')
+    })
+    expect(screen.getByTestId('board-cancomment').textContent).toBe('true')
+  })
+
+  it('shows Share only to the owner', async () => {
+    mockFetchBoard.mockResolvedValue(boardWithRole('owner'))
+    renderBoardPage('test-board-uuid')
+
+    await waitFor(() => {
+      expect(screen.getByText('Share')).toBeTruthy()
+    })
+    expect(screen.getByTestId('board-readonly').textContent).toBe('false')
+  })
+
+  it('exports the board in the chosen format', async () => {
+    mockFetchBoard.mockResolvedValue(boardWithRole('viewer'))
+    mockExportBoard.mockResolvedValue(new Blob(['<svg/>']))
+    URL.createObjectURL = vi.fn().mockReturnValue('blob:export')
+    URL.revokeObjectURL = vi.fn()
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+    renderBoardPage('test-board-uuid')
+
+    const select = await screen.findByLabelText('Export board')
+    fireEvent.change(select, { target: { value: 'png' } })
+
+    await waitFor(() => {
+      expect(click).toHaveBeenCalled()
+    })
+    expect(mockExportBoard).toHaveBeenCalledWith('test-board-uuid', 'png', 'mock-jwt-token')
+    expect((click.mock.contexts[0] as HTMLAnchorElement).download).toBe('Roadmap.png')
+    click.mockRestore()
+  })
 })
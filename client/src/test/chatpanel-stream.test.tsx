@@ -3,10 +3,13 @@
  *
  * Tests the SSE streaming refactor of ChatPanel:
  *  - Renders streaming status text during request
- *  - Renders action badges incrementally
+ *  - Renders action badges incrementally, including bulk and layout tools
  *  - Shows cancel button and handles abort
  *  - Shows "(instant)" for cached responses
  *  - Auto-pans after done event
+ *  - Sends the selection and viewport with each command
+ *  - Renders rate limit and quota refusals (429) as a notice
+ *  - "New conversation" resets the board's conversation and the panel
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
@@ -22,7 +25,7 @@ Element.prototype.scrollIntoView = vi.fn()
 // ---------------------------------------------------------------------------
 
 /** Create a mock fetch Response that streams SSE events line by line. */
-function createSSEResponse(events: AIStreamEvent[]): Response {
+function createSSEResponse(events: AIStreamEvent[], status = 200): Response {
   const sseText = events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join('')
   const encoder = new TextEncoder()
   const encoded = encoder.encode(sseText)
@@ -42,7 +45,7 @@ function createSSEResponse(events: AIStreamEvent[]): Response {
   })
 
   return new Response(stream, {
-    status: 200,
+    status,
     headers: { 'Content-Type': 'text/event-stream' },
   })
 }
@@ -143,6 +146,35 @@ describe('ChatPanel — SSE streaming', () => {
     })
   })
 
+  it('labels bulk and layout tool badges', async () => {
+    globalThis.fetch = mockFetchSSE([
+      {
+        type: 'done',
+        message: 'Tidied up.',
+        actions: [
+          { tool: 'deleteObjects', input: { ids: ['a', 'b'] }, result: '{"success":true,"deleted":["a","b"]}' },
+          { tool: 'alignObjects', input: { ids: ['c', 'd'], alignment: 'top' }, result: '{"success":true,"aligned":["c","d"],"alignment":"top"}' },
+          { tool: 'connectObjects', input: { fromId: 'c', toId: 'x' }, result: '{"success":false,"error":"Object x not found"}' },
+        ],
+      },
+    ])
+
+    render(<ChatPanel {...defaultProps} />)
+
+    const input = screen.getByLabelText('AI command input')
+    await act(async () => {
+      fireEvent.change(input, { target: { value: 'Tidy up' } })
+    })
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('Send message'))
+    })
+
+    await screen.findByText('Tidied up.')
+    expect(screen.getByText('Deleted 2 object(s)')).toBeTruthy()
+    expect(screen.getByText('Aligned 2 objects (top)')).toBeTruthy()
+    expect(screen.getByText('connectObjects failed')).toBeTruthy()
+  })
+
   it('shows cancel button during streaming and handles abort', async () => {
     // Create a response that hangs (never resolves) so we can test cancel
     let resolveStream: (() => void) | undefined
@@ -283,4 +315,146 @@ describe('ChatPanel — SSE streaming', () => {
       )
     })
   })
+
+  it('sends the selection and viewport with the command', async () => {
+    globalThis.fetch = mockFetchSSE([{ type: 'done', message: 'Done.', actions: [] }])
+    const scope = { selectedIds: ['a', 'b'], viewport: { x: -50, y: 20, width: 1280, height: 720 } }
+
+    render(<ChatPanel {...defaultProps} scope={scope} />)
+
+    const input = screen.getByLabelText('AI command input')
+    await act(async () => {
+      fireEvent.change(input, { target: { value: 'Make these green' } })
+    })
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('Send message'))
+    })
+
+    await waitFor(() => expect(globalThis.fetch).toHaveBeenCalled())
+    const [, init] = vi.mocked(globalThis.fetch).mock.calls[0]
+    expect(JSON.parse(init!.body as string)).toEqual({ message: 'Make these green', boardId: 'test-board', ...scope })
+  })
+
+  it('renders a quota refusal as a notice instead of an error', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(createSSEResponse([
+      { type: 'error', error: 'Daily AI quota reached. It resets in 5 hours.', code: 'quota_exceeded', retryAfter: 18_000 },
+    ], 429))
+
+    render(<ChatPanel {...defaultProps} />)
+
+    const input = screen.getByLabelText('AI command input')
+    await act(async () => {
+      fireEvent.change(input, { target: { value: 'Hello' } })
+    })
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('Send message'))
+    })
+
+    const notice = await screen.findByRole('alert')
+    expect(notice.textContent).toContain('Daily AI quota reached')
+    expect(notice.textContent).toContain('It resets in 5 hours.')
+    expect(screen.queryByText(/something went wrong/)).toBeNull()
+  })
+
+  it('"New conversation" resets the server conversation and clears the panel', async () => {
+    globalThis.fetch = mockFetchSSE([{ type: 'done', message: 'Created a sticky!', actions: [] }])
+
+    render(<ChatPanel {...defaultProps} />)
+
+    const input = screen.getByLabelText('AI command input')
+    await act(async () => {
+      fireEvent.change(input, { target: { value: 'Create a sticky note' } })
+    })
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('Send message'))
+    })
+    await screen.findByText('Created a sticky!')
+
+    globalThis.fetch = vi.fn().mockResolvedValue(new Response('{"conversationId":"c2"}', { status: 200 }))
+    await act(async () => {
+      fireEvent.click(screen.getByText('New conversation'))
+    })
+
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/api/ai/conversation/reset'),
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ boardId: 'test-board' }) }),
+    )
+    await waitFor(() => {
+      expect(screen.queryByText('Created a sticky!')).toBeNull()
+    })
+    expect(screen.getByText(/I can help you work with the board/)).toBeTruthy()
+  })
+
+  it('"Undo this AI change" undoes just that command', async () => {
+    globalThis.fetch = mockFetchSSE([
+      { type: 'done', message: 'Created a sticky!', actions: [], commandId: 'cmd-1' },
+    ])
+
+    render(<ChatPanel {...defaultProps} />)
+
+    const input = screen.getByLabelText('AI command input')
+    await act(async () => {
+      fireEvent.change(input, { target: { value: 'Create a sticky note' } })
+    })
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('Send message'))
+    })
+    await screen.findByText('Created a sticky!')
+
+    globalThis.fetch = vi.fn().mockResolvedValue(new Response('{"undone":true}', { status: 200 }))
+    await act(async () => {
+      fireEvent.click(screen.getByText('Undo this AI change'))
+    })
+
+    expect(globalThis.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/api/ai/undo'),
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ boardId: 'test-board', commandId: 'cmd-1' }) }),
+    )
+    await screen.findByText('AI change undone')
+    expect(screen.queryByText('Undo this AI change')).toBeNull()
+  })
+
+  it('shows why an AI change could not be undone', async () => {
+    globalThis.fetch = mockFetchSSE([
+      { type: 'done', message: 'Created a sticky!', actions: [], commandId: 'cmd-1' },
+    ])
+
+    render(<ChatPanel {...defaultProps} />)
+
+    const input = screen.getByLabelText('AI command input')
+    await act(async () => {
+      fireEvent.change(input, { target: { value: 'Create a sticky note' } })
+    })
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('Send message'))
+    })
+    await screen.findByText('Created a sticky!')
+
+    globalThis.fetch = vi.fn().mockResolvedValue(new Response(
+      '{"error":"This AI change can no longer be undone","code":"not_found"}',
+      { status: 404 },
+    ))
+    await act(async () => {
+      fireEvent.click(screen.getByText('Undo this AI change'))
+    })
+
+    await screen.findByText(/This AI change can no longer be undone/)
+    expect(screen.queryByText('Undo this AI change')).toBeNull()
+  })
+
+  it('offers no undo for replies that changed nothing', async () => {
+    globalThis.fetch = mockFetchSSE([{ type: 'done', message: 'The board is empty.', actions: [] }])
+
+    render(<ChatPanel {...defaultProps} />)
+
+    const input = screen.getByLabelText('AI command input')
+    await act(async () => {
+      fireEvent.change(input, { target: { value: 'What is on the board?' } })
+    })
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('Send message'))
+    })
+    await screen.findByText('The board is empty.')
+    expect(screen.queryByText('Undo this AI change')).toBeNull()
+  })
 })
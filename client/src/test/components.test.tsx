@@ -1,9 +1,10 @@
 /**
- * Component Tests — Toolbar, ColorPicker, PresenceBar, ZoomControls
+ * Component Tests — Toolbar, ColorPicker, PresenceBar, ZoomControls, CommentsPanel
  *
  * Verifies that extracted components render correctly and fire callbacks.
- * CursorBadge is a Konva component (canvas-based) so it's tested separately
- * via a simple import/instantiation check rather than DOM rendering.
+ * CursorBadge and CommentPin are Konva components (canvas-based) so they're
+ * tested separately via a simple import/instantiation check rather than DOM
+ * rendering.
  */
 
 import { describe, it, expect, vi } from 'vitest'
@@ -12,6 +13,8 @@ import Toolbar from '../components/Toolbar'
 import ColorPicker from '../components/ColorPicker'
 import PresenceBar from '../components/PresenceBar'
 import ZoomControls from '../components/ZoomControls'
+import CommentsPanel from '../components/CommentsPanel'
+import type { CommentThreadView } from '../../../shared/comments'
 import { SHAPE_COLORS } from '../constants'
 
 // ============================================================================
@@ -143,6 +146,14 @@ describe('PresenceBar', () => {
     expect(screen.getByText('Connecting...')).toBeTruthy()
   })
 
+  it('shows Offline and unsynced changes after the connection drops', () => {
+    render(
+      <PresenceBar connected={false} offline pendingChanges userName="Alice" userColor="#EF4444" remoteCursors={[]} />,
+    )
+    expect(screen.getByText('Offline')).toBeTruthy()
+    expect(screen.getByText('Unsynced changes')).toBeTruthy()
+  })
+
   it('renders local user avatar with first letter', () => {
     render(
       <PresenceBar connected={true} userName="Alice" userColor="#EF4444" remoteCursors={[]} />,
@@ -204,6 +215,38 @@ describe('PresenceBar', () => {
     const wrapper = container.firstChild as HTMLElement
     expect(wrapper.style.right).toBe('12px')
   })
+
+  it('follows a remote user on avatar click and stops on a second click', () => {
+    const cursors = [{ clientId: 'c1', name: 'Bob', color: '#3B82F6', cursor: null }]
+    const onFollow = vi.fn()
+    const { rerender } = render(
+      <PresenceBar connected={true} userName="Alice" userColor="#EF4444" remoteCursors={cursors} onFollow={onFollow} />,
+    )
+    fireEvent.click(screen.getByLabelText('Follow Bob'))
+    expect(onFollow).toHaveBeenLastCalledWith('c1')
+
+    rerender(
+      <PresenceBar connected={true} userName="Alice" userColor="#EF4444" remoteCursors={cursors} onFollow={onFollow} followingId="c1" />,
+    )
+    fireEvent.click(screen.getByLabelText('Stop following Bob'))
+    expect(onFollow).toHaveBeenLastCalledWith(null)
+  })
+
+  it('offers Summon all only when given a handler and others are present', () => {
+    const onSummon = vi.fn()
+    const { rerender } = render(
+      <PresenceBar connected={true} userName="Alice" userColor="#EF4444" remoteCursors={[]} onSummon={onSummon} />,
+    )
+    expect(screen.queryByText('Summon all')).toBeNull()
+
+    const cursors = [{ clientId: 'c1', name: 'Bob', color: '#3B82F6', cursor: null }]
+    rerender(<PresenceBar connected={true} userName="Alice" userColor="#EF4444" remoteCursors={cursors} onSummon={onSummon} />)
+    fireEvent.click(screen.getByText('Summon all'))
+    expect(onSummon).toHaveBeenCalledOnce()
+
+    rerender(<PresenceBar connected={true} userName="Alice" userColor="#EF4444" remoteCursors={cursors} />)
+    expect(screen.queryByText('Summon all')).toBeNull()
+  })
 })
 
 // ============================================================================
@@ -267,6 +310,90 @@ describe('ZoomControls', () => {
     const wrapper = container.firstChild as HTMLElement
     expect(wrapper.style.right).toBe('16px')
   })
+
+  it('shifts past both panels when comments are open too', () => {
+    const { container } = render(<ZoomControls {...defaultProps} chatOpen={true} commentsOpen={true} />)
+    expect((container.firstChild as HTMLElement).style.right).toBe('686px')
+  })
+})
+
+// ============================================================================
+// CommentsPanel
+// ============================================================================
+
+describe('CommentsPanel', () => {
+  function thread(id: string, resolved: boolean, text: string, mentions: Array<{ userId: string; name: string }> = []): CommentThreadView {
+    return {
+      kind: 'thread', id, anchor: { x: 0, y: 0 }, createdAt: '2026-03-01T00:00:00Z', resolved,
+      messages: [{
+        kind: 'message', id: `${id}-m1`, threadId: id, authorId: 'u_ann', authorName: 'Ann',
+        text, mentions, createdAt: '2026-03-01T00:00:00Z',
+      }],
+    }
+  }
+
+  const people = [{ userId: 'u_ann', name: 'Ann' }, { userId: 'u_bo', name: 'Bo' }]
+  const threads = [
+    thread('t1', false, 'Move this left'),
+    thread('t2', true, 'Fixed the typo'),
+    thread('t3', false, '@Bo can you check?', [people[1]]),
+  ]
+  const defaultProps = {
+    threads,
+    activeThreadId: null,
+    onSelectThread: vi.fn(),
+    people,
+    userId: 'u_bo',
+    canComment: true,
+    placing: false,
+    onStartPlacing: vi.fn(),
+    pendingNew: false,
+    onCreateThread: vi.fn(),
+    onCancelNew: vi.fn(),
+    onReply: vi.fn(),
+    onSetResolved: vi.fn(),
+    onLocate: vi.fn(),
+    chatOpen: false,
+    onClose: vi.fn(),
+  }
+
+  it('filters threads by open, resolved and mentions', () => {
+    render(<CommentsPanel {...defaultProps} />)
+    expect(screen.getByText('Move this left')).toBeTruthy()
+    expect(screen.queryByText('Fixed the typo')).toBeNull()
+
+    fireEvent.click(screen.getByRole('tab', { name: 'Resolved' }))
+    expect(screen.getByText('Fixed the typo')).toBeTruthy()
+    expect(screen.queryByText('Move this left')).toBeNull()
+
+    fireEvent.click(screen.getByRole('tab', { name: 'Mentions' }))
+    expect(screen.getByText('@Bo can you check?')).toBeTruthy()
+    expect(screen.queryByText('Move this left')).toBeNull()
+  })
+
+  it('replies with the members it mentions, and resolves', () => {
+    const onReply = vi.fn()
+    const onSetResolved = vi.fn()
+    render(<CommentsPanel {...defaultProps} activeThreadId="t1" onReply={onReply} onSetResolved={onSetResolved} />)
+
+    const input = screen.getByPlaceholderText('Reply…')
+    fireEvent.change(input, { target: { value: 'Sure @A' } })
+    fireEvent.click(screen.getByRole('option', { name: '@Ann' }))
+    expect((input as HTMLTextAreaElement).value).toBe('Sure @Ann ')
+
+    fireEvent.click(screen.getByText('Reply'))
+    expect(onReply).toHaveBeenCalledWith('t1', 'Sure @Ann', [{ userId: 'u_ann', name: 'Ann' }])
+
+    fireEvent.click(screen.getByText('Resolve'))
+    expect(onSetResolved).toHaveBeenCalledWith('t1', true)
+  })
+
+  it('shows threads but no composer to viewers', () => {
+    render(<CommentsPanel {...defaultProps} activeThreadId="t3" canComment={false} />)
+    expect(screen.getByText('@Bo')).toBeTruthy() // highlighted mention
+    expect(screen.queryByPlaceholderText('Reply…')).toBeNull()
+    expect(screen.queryByText('Resolve')).toBeNull()
+  })
 })
 
 // ============================================================================
@@ -280,3 +407,10 @@ describe('CursorBadge', () => {
     expect(typeof module.default).toBe('function')
   })
 })
+
+describe('CommentPin', () => {
+  it('can be imported without errors', async () => {
+    const module = await import('../components/CommentPin')
+    expect(typeof module.default).toBe('function')
+  })
+})
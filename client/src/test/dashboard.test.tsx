@@ -7,6 +7,13 @@
  *  - Board names are clickable links to /board/:id
  *  - Owner badge shown on each board
  *  - Rename/Delete only for owned boards
+ *  - Import creates a board from a JSON file
+ *  - Board thumbnails are fetched per board, keyed on updated_at
+ *  - Search, sort, folder and favorites filters go to the server
+ *  - Favorites toggle per board; more boards load a page at a time
+ *  - Boards can be duplicated, marked as templates and started from one
+ *  - Delete moves a board to the Trash, with undo; the Trash view restores
+ *    or deletes boards for good
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
@@ -39,16 +46,47 @@ vi.mock('../api.js', () => ({
     createBoard: vi.fn(),
     renameBoard: vi.fn(),
     deleteBoard: vi.fn(),
+    importBoard: vi.fn(),
+    fetchThumbnail: vi.fn(),
+    setBoardPreference: vi.fn(),
+    duplicateBoard: vi.fn(),
+    setTemplate: vi.fn(),
+    fetchTrash: vi.fn(),
+    restoreBoard: vi.fn(),
+    purgeBoard: vi.fn(),
   },
   getApiUrl: () => 'http://localhost:1234',
 }))
 
-import { boardsApi } from '../api.js'
+import { boardsApi, type Board, type BoardPage, type TrashedBoard } from '../api.js'
 import Dashboard from '../pages/Dashboard.js'
 
 const mockFetchBoards = vi.mocked(boardsApi.fetchBoards)
 const mockCreateBoard = vi.mocked(boardsApi.createBoard)
 const mockDeleteBoard = vi.mocked(boardsApi.deleteBoard)
+const mockImportBoard = vi.mocked(boardsApi.importBoard)
+const mockFetchThumbnail = vi.mocked(boardsApi.fetchThumbnail)
+const mockSetBoardPreference = vi.mocked(boardsApi.setBoardPreference)
+const mockDuplicateBoard = vi.mocked(boardsApi.duplicateBoard)
+const mockSetTemplate = vi.mocked(boardsApi.setTemplate)
+const mockFetchTrash = vi.mocked(boardsApi.fetchTrash)
+const mockRestoreBoard = vi.mocked(boardsApi.restoreBoard)
+const mockPurgeBoard = vi.mocked(boardsApi.purgeBoard)
+
+function page(boards: Board[], total = boards.length, folders: string[] = []): BoardPage {
+  return { boards, total, folders }
+}
+
+function board(id: string, name: string, extra: Partial<Board> = {}): Board {
+  return { id, owner_id: 'user_1', name, created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z', ...extra }
+}
+
+/** A File whose text() works in jsdom (which doesn't implement Blob.text). */
+function jsonFile(name: string, content: string): File {
+  const file = new File([content], name, { type: 'application/json' })
+  Object.defineProperty(file, 'text', { value: async () => content })
+  return file
+}
 
 function renderDashboard() {
   return render(
@@ -61,7 +99,8 @@ function renderDashboard() {
 describe('Dashboard', () => {
   beforeEach(() => {
     vi.clearAllMocks()
-    mockFetchBoards.mockResolvedValue([])
+    mockFetchBoards.mockResolvedValue(page([]))
+    mockFetchThumbnail.mockResolvedValue(null)
   })
 
   it('renders the page title', async () => {
@@ -77,10 +116,10 @@ describe('Dashboard', () => {
   })
 
   it('fetches and displays boards', async () => {
-    mockFetchBoards.mockResolvedValue([
+    mockFetchBoards.mockResolvedValue(page([
       { id: 'b1', owner_id: 'user_1', name: 'My Board', created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' },
       { id: 'b2', owner_id: 'user_2', name: 'Other Board', created_at: '2026-01-02T00:00:00Z', updated_at: '2026-01-02T00:00:00Z' },
-    ])
+    ]))
 
     renderDashboard()
 
@@ -90,10 +129,28 @@ describe('Dashboard', () => {
     })
   })
 
+  it('shows each board\'s thumbnail, cache-busted by updated_at', async () => {
+    URL.createObjectURL = vi.fn(() => 'blob:thumb-b1')
+    URL.revokeObjectURL = vi.fn()
+    mockFetchBoards.mockResolvedValue(page([
+      { id: 'b1', owner_id: 'user_1', name: 'My Board', created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-05T10:00:00Z' },
+      { id: 'b2', owner_id: 'user_1', name: 'Blank Board', created_at: '2026-01-02T00:00:00Z', updated_at: '2026-01-02T00:00:00Z' },
+    ]))
+    mockFetchThumbnail.mockImplementation(async (id) => (id === 'b1' ? new Blob(['png']) : null))
+
+    renderDashboard()
+
+    const img = await screen.findByAltText('My Board preview')
+    expect(img.getAttribute('src')).toBe('blob:thumb-b1')
+    expect(mockFetchThumbnail).toHaveBeenCalledWith('b1', '2026-01-05T10:00:00Z', 'mock-jwt-token')
+    expect(mockFetchThumbnail).toHaveBeenCalledWith('b2', '2026-01-02T00:00:00Z', 'mock-jwt-token')
+    expect(screen.queryByAltText('Blank Board preview')).toBeNull()
+  })
+
   it('board names link to /board/:id', async () => {
-    mockFetchBoards.mockResolvedValue([
+    mockFetchBoards.mockResolvedValue(page([
       { id: 'b1', owner_id: 'user_1', name: 'My Board', created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' },
-    ])
+    ]))
 
     renderDashboard()
 
@@ -105,7 +162,7 @@ describe('Dashboard', () => {
   })
 
   it('calls createBoard when "+ New Board" is clicked', async () => {
-    mockFetchBoards.mockResolvedValue([])
+    mockFetchBoards.mockResolvedValue(page([]))
     mockCreateBoard.mockResolvedValue({
       id: 'new-b', owner_id: 'user_1', name: 'Untitled Board',
       created_at: '2026-02-20T00:00:00Z', updated_at: '2026-02-20T00:00:00Z',
@@ -132,11 +189,184 @@ describe('Dashboard', () => {
   })
 
   it('shows empty state when no boards exist', async () => {
-    mockFetchBoards.mockResolvedValue([])
+    mockFetchBoards.mockResolvedValue(page([]))
     renderDashboard()
 
     await waitFor(() => {
       expect(screen.getByText(/no boards yet/i)).toBeTruthy()
     })
   })
+
+  it('imports a board from a JSON file', async () => {
+    mockImportBoard.mockResolvedValue({
+      board: {
+        id: 'imported', owner_id: 'user_1', name: 'Imported plan', role: 'owner',
+        created_at: '2026-02-20T00:00:00Z', updated_at: '2026-02-20T00:00:00Z',
+      },
+    })
+    renderDashboard()
+
+    const file = jsonFile('plan.json', '{"format":"collabboard"}')
+    fireEvent.change(screen.getByLabelText('Import board file'), { target: { files: [file] } })
+
+    await waitFor(() => {
+      expect(screen.getByText('Imported plan')).toBeTruthy()
+    })
+    expect(mockImportBoard).toHaveBeenCalledWith({ format: 'collabboard' }, 'mock-jwt-token', undefined)
+  })
+
+  it('sends Mermaid files as text', async () => {
+    mockImportBoard.mockResolvedValue({ error: 'nope' })
+    renderDashboard()
+
+    const file = jsonFile('flow.mmd', 'flowchart TD\nA-->B')
+    fireEvent.change(screen.getByLabelText('Import board file'), { target: { files: [file] } })
+
+    await waitFor(() => {
+      expect(mockImportBoard).toHaveBeenCalledWith('flowchart TD\nA-->B', 'mock-jwt-token', 'mermaid')
+    })
+  })
+
+  it('shows the server error when an import is rejected', async () => {
+    mockImportBoard.mockResolvedValue({ error: 'objects[0]: type must be one of: sticky' })
+    renderDashboard()
+
+    const file = jsonFile('bad.json', '{}')
+    fireEvent.change(screen.getByLabelText('Import board file'), { target: { files: [file] } })
+
+    await waitFor(() => {
+      expect(screen.getByText('objects[0]: type must be one of: sticky')).toBeTruthy()
+    })
+  })
+
+  it('sends search, sort, folder and favorites to the server', async () => {
+    mockFetchBoards.mockResolvedValue(page([board('b1', 'Roadmap')], 1, ['Work']))
+    renderDashboard()
+    await screen.findByText('Roadmap')
+    expect(mockFetchBoards).toHaveBeenLastCalledWith('mock-jwt-token', expect.objectContaining({ q: '', sort: 'updated' }))
+
+    fireEvent.change(screen.getByLabelText('Search boards'), { target: { value: '  okrs ' } })
+    await waitFor(() => {
+      expect(mockFetchBoards).toHaveBeenLastCalledWith('mock-jwt-token', expect.objectContaining({ q: 'okrs' }))
+    })
+
+    fireEvent.change(screen.getByLabelText('Sort boards'), { target: { value: 'name' } })
+    fireEvent.change(screen.getByLabelText('Folder'), { target: { value: 'Work' } })
+    fireEvent.click(screen.getByText(/Favorites/))
+    await waitFor(() => {
+      expect(mockFetchBoards).toHaveBeenLastCalledWith('mock-jwt-token', {
+        q: 'okrs', sort: 'name', folder: 'Work', favorites: true, limit: 24,
+      })
+    })
+  })
+
+  it('shows a no-match message when filters exclude everything', async () => {
+    renderDashboard()
+    fireEvent.click(await screen.findByText(/Favorites/))
+    expect(await screen.findByText('No boards match.')).toBeTruthy()
+  })
+
+  it('toggles a board\'s favorite star', async () => {
+    mockFetchBoards.mockResolvedValue(page([board('b1', 'Starred', { favorite: false })]))
+    mockSetBoardPreference.mockResolvedValue(true)
+    renderDashboard()
+
+    fireEvent.click(await screen.findByLabelText('Add to favorites'))
+    await waitFor(() => {
+      expect(screen.getByLabelText('Remove from favorites')).toBeTruthy()
+    })
+    expect(mockSetBoardPreference).toHaveBeenCalledWith('b1', { favorite: true }, 'mock-jwt-token')
+  })
+
+  it('loads the next page on "Load more"', async () => {
+    mockFetchBoards
+      .mockResolvedValueOnce(page([board('b1', 'First')], 2))
+      .mockResolvedValueOnce(page([board('b2', 'Second')], 2))
+    renderDashboard()
+
+    fireEvent.click(await screen.findByText('Load more (1)'))
+    await screen.findByText('Second')
+    expect(screen.getByText('First')).toBeTruthy()
+    expect(mockFetchBoards).toHaveBeenLastCalledWith('mock-jwt-token', expect.objectContaining({ offset: 1 }))
+    expect(screen.queryByText(/Load more/)).toBeNull()
+  })
+
+  it('starts a board from a template', async () => {
+    mockFetchBoards.mockImplementation(async (_token, query) =>
+      query?.templates ? page([board('t1', 'Sprint planning', { is_template: true })]) : page([]),
+    )
+    mockDuplicateBoard.mockResolvedValue(board('copy-1', 'Sprint planning'))
+    renderDashboard()
+
+    fireEvent.click(await screen.findByText('New from template'))
+    fireEvent.click(await screen.findByRole('menuitem', { name: 'Sprint planning' }))
+
+    await waitFor(() => {
+      expect(mockDuplicateBoard).toHaveBeenCalledWith('t1', 'mock-jwt-token', 'Sprint planning')
+      expect(screen.getByText('Sprint planning')).toBeTruthy()
+    })
+    expect(screen.queryByRole('menu')).toBeNull()
+  })
+
+  it('duplicates a board and lets the owner mark it as a template', async () => {
+    mockFetchBoards.mockResolvedValue(page([board('b1', 'Retro')]))
+    mockDuplicateBoard.mockResolvedValue(board('b2', 'Retro (copy)'))
+    mockSetTemplate.mockResolvedValue(true)
+    renderDashboard()
+
+    fireEvent.click(await screen.findByText('Duplicate'))
+    expect(await screen.findByText('Retro (copy)')).toBeTruthy()
+    expect(mockDuplicateBoard).toHaveBeenCalledWith('b1', 'mock-jwt-token')
+
+    fireEvent.click(screen.getAllByText('Make template')[1])
+    await waitFor(() => {
+      expect(screen.getByText('Unmark template')).toBeTruthy()
+      expect(screen.getByText('Template')).toBeTruthy()
+    })
+    expect(mockSetTemplate).toHaveBeenCalledWith('b1', true, 'mock-jwt-token')
+  })
+
+  it('moves a deleted board to the Trash and can undo it', async () => {
+    mockFetchBoards.mockResolvedValue(page([board('b1', 'Roadmap')]))
+    mockDeleteBoard.mockResolvedValue(true)
+    mockRestoreBoard.mockResolvedValue(true)
+    renderDashboard()
+
+    fireEvent.click(await screen.findByText('Delete'))
+    expect(await screen.findByText(/moved to Trash/)).toBeTruthy()
+    expect(screen.queryByText('Roadmap')).toBeNull()
+    expect(mockDeleteBoard).toHaveBeenCalledWith('b1', 'mock-jwt-token')
+
+    fireEvent.click(screen.getByText('Undo'))
+    expect(await screen.findByText('Roadmap')).toBeTruthy()
+    expect(mockRestoreBoard).toHaveBeenCalledWith('b1', 'mock-jwt-token')
+    expect(screen.queryByText(/moved to Trash/)).toBeNull()
+  })
+
+  it('restores boards from the Trash or deletes them forever', async () => {
+    const trashed = (id: string, name: string): TrashedBoard => ({
+      ...board(id, name), deleted_at: '2026-03-01T00:00:00Z', purge_at: '2026-03-31T00:00:00Z',
+    })
+    mockFetchTrash.mockResolvedValue([trashed('b1', 'Old plan'), trashed('b2', 'Scratch')])
+    mockRestoreBoard.mockResolvedValue(true)
+    mockPurgeBoard.mockResolvedValue(true)
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true)
+    renderDashboard()
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Trash' }))
+    expect(await screen.findByText('Old plan')).toBeTruthy()
+    expect(screen.getByText(/30 days/)).toBeTruthy()
+
+    fireEvent.click(screen.getAllByText('Restore')[0])
+    await waitFor(() => {
+      expect(screen.queryByText('Old plan')).toBeNull()
+    })
+    expect(mockRestoreBoard).toHaveBeenCalledWith('b1', 'mock-jwt-token')
+
+    fireEvent.click(screen.getByText('Delete forever'))
+    expect(await screen.findByText('Trash is empty.')).toBeTruthy()
+    expect(confirmSpy).toHaveBeenCalled()
+    expect(mockPurgeBoard).toHaveBeenCalledWith('b2', 'mock-jwt-token')
+    confirmSpy.mockRestore()
+  })
 })
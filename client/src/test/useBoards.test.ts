@@ -2,10 +2,14 @@
  * useBoards Hook Tests (TDD)
  *
  * Tests the board CRUD operations:
- *  - fetchBoards() — GET /api/boards
+ *  - fetchBoards(query) — GET /api/boards with search, sort and paging
  *  - createBoard(name) — POST /api/boards
  *  - renameBoard(id, name) — PATCH /api/boards/:id
  *  - deleteBoard(id) — DELETE /api/boards/:id
+ *  - duplicateBoard(id, name) — POST /api/boards/:id/duplicate
+ *  - setTemplate(id, flag) — PUT/DELETE /api/boards/:id/template
+ *  - fetchTrash / restoreBoard(id) / purgeBoard(id) — /api/trash
+ *  - fetchMembers(id) — GET /api/boards/:id/members, owner first
  *
  * Uses mocked fetch and Clerk auth.
  */
@@ -38,7 +42,7 @@ describe('boardsApi', () => {
       ]
       mockFetch.mockResolvedValue({
         ok: true,
-        json: () => Promise.resolve({ boards }),
+        json: () => Promise.resolve({ boards, total: 1, folders: ['Work'] }),
       })
 
       const result = await boardsApi.fetchBoards('mock-token')
@@ -52,17 +56,31 @@ describe('boardsApi', () => {
           }),
         }),
       )
-      expect(result).toEqual(boards)
+      expect(result).toEqual({ boards, total: 1, folders: ['Work'] })
     })
 
-    it('returns empty array when API fails', async () => {
+    it('sends search, sort, filters and paging as query params', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ boards: [], total: 0, folders: [] }) })
+
+      await boardsApi.fetchBoards('mock-token', {
+        q: 'road map', sort: 'name', folder: 'Work', favorites: true, limit: 24, offset: 48,
+      })
+
+      const url = new URL(mockFetch.mock.calls[0][0])
+      expect(url.pathname).toBe('/api/boards')
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        q: 'road map', sort: 'name', folder: 'Work', favorites: 'true', limit: '24', offset: '48',
+      })
+    })
+
+    it('returns an empty page when API fails', async () => {
       mockFetch.mockResolvedValue({
         ok: false,
         json: () => Promise.resolve({ error: 'Failed' }),
       })
 
       const result = await boardsApi.fetchBoards('mock-token')
-      expect(result).toEqual([])
+      expect(result).toEqual({ boards: [], total: 0, folders: [] })
     })
   })
 
@@ -162,4 +180,78 @@ describe('boardsApi', () => {
       expect(result).toBe(false)
     })
   })
+
+  describe('duplicateBoard', () => {
+    it('calls POST /api/boards/:id/duplicate with the new name', async () => {
+      const board = { id: 'b2', owner_id: 'u1', name: 'Sprint', created_at: '2026-03-01', updated_at: '2026-03-01' }
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ board }) })
+
+      const result = await boardsApi.duplicateBoard('b1', 'mock-token', 'Sprint')
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/api/boards/b1/duplicate'),
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ name: 'Sprint' }) }),
+      )
+      expect(result).toEqual(board)
+    })
+  })
+
+  describe('setTemplate', () => {
+    it('PUTs to mark and DELETEs to unmark', async () => {
+      mockFetch.mockResolvedValue({ ok: true })
+
+      await boardsApi.setTemplate('b1', true, 'mock-token')
+      await boardsApi.setTemplate('b1', false, 'mock-token')
+
+      expect(mockFetch.mock.calls.map(([url, init]) => [url.replace(/^.*\/api/, '/api'), init.method])).toEqual([
+        ['/api/boards/b1/template', 'PUT'],
+        ['/api/boards/b1/template', 'DELETE'],
+      ])
+    })
+  })
+
+  describe('trash', () => {
+    it('lists, restores and purges trashed boards', async () => {
+      const trashed = {
+        id: 'b1', owner_id: 'u1', name: 'Old', created_at: '2026-03-01', updated_at: '2026-03-01',
+        deleted_at: '2026-03-02', purge_at: '2026-04-01',
+      }
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ boards: [trashed] }) })
+
+      expect(await boardsApi.fetchTrash('mock-token')).toEqual([trashed])
+      expect(await boardsApi.restoreBoard('b1', 'mock-token')).toBe(true)
+      expect(await boardsApi.purgeBoard('b1', 'mock-token')).toBe(true)
+
+      expect(mockFetch.mock.calls.map(([url, init]) => [url.replace(/^.*\/api/, '/api'), init.method])).toEqual([
+        ['/api/trash', 'GET'],
+        ['/api/trash/b1/restore', 'POST'],
+        ['/api/trash/b1', 'DELETE'],
+      ])
+    })
+
+    it('returns an empty trash when API fails', async () => {
+      mockFetch.mockResolvedValue({ ok: false, json: () => Promise.resolve({ error: 'Nope' }) })
+      expect(await boardsApi.fetchTrash('mock-token')).toEqual([])
+    })
+  })
+
+  describe('fetchMembers', () => {
+    it('lists the owner first, then members, with names', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          owner_id: 'u1',
+          owner_name: 'Ann',
+          role: 'commenter',
+          members: [{ board_id: 'b1', user_id: 'u2', role: 'commenter', name: null }],
+        }),
+      })
+
+      expect(await boardsApi.fetchMembers('b1', 'mock-token')).toEqual([
+        { user_id: 'u1', role: 'owner', name: 'Ann' },
+        { user_id: 'u2', role: 'commenter', name: null },
+      ])
+      expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining('/api/boards/b1/members'), expect.anything())
+    })
+  })
 })
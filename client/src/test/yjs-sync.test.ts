@@ -6,15 +6,20 @@
  *  - Echo prevention via origin tagging
  *  - CRUD operations on a shared Y.Map
  *  - Conflict resolution (last-write-wins per key)
- *  - Wire protocol encoding (message type prefix byte)
+ *  - Wire protocol (y-protocols sync handshake, awareness and rejections,
+ *    and why a doc holding a refused change is reloaded)
  */
 
 import { describe, it, expect, vi } from 'vitest'
 import * as Y from 'yjs'
-
-// Mirrors the constants in useYjs.ts
-const MSG_YJS = 0
-const MSG_AWARENESS = 1
+import * as encoding from 'lib0/encoding'
+import * as decoding from 'lib0/decoding'
+import * as syncProtocol from 'y-protocols/sync'
+import * as awarenessProtocol from 'y-protocols/awareness'
+import * as authProtocol from 'y-protocols/auth'
+import { MSG_SYNC, MSG_AWARENESS, MSG_AUTH } from '../constants'
+
+// Mirrors the origin tag in useYjs.ts
 const REMOTE = 'remote'
 
 interface BoardObject {
@@ -35,21 +40,24 @@ function createDoc() {
   return { doc, map }
 }
 
-/** Helper: simulate the wire protocol — prefix a Yjs update with MSG_YJS byte */
-function encodeYjsMessage(update: Uint8Array): Uint8Array {
-  const msg = new Uint8Array(1 + update.length)
-  msg[0] = MSG_YJS
-  msg.set(update, 1)
-  return msg
+/**
+ * Helper: deliver one sync message to `doc` the way useYjs does, returning
+ * the reply it would send back (null if none).
+ */
+function receiveSync(doc: Y.Doc, msg: Uint8Array): Uint8Array | null {
+  const decoder = decoding.createDecoder(msg)
+  expect(decoding.readVarUint(decoder)).toBe(MSG_SYNC)
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MSG_SYNC)
+  const syncType = syncProtocol.readSyncMessage(decoder, encoder, doc, REMOTE)
+  return syncType === syncProtocol.messageYjsSyncStep1 ? encoding.toUint8Array(encoder) : null
 }
 
-/** Helper: simulate the wire protocol — prefix awareness with MSG_AWARENESS byte */
-function encodeAwarenessMessage(payload: object): Uint8Array {
-  const encoded = new TextEncoder().encode(JSON.stringify(payload))
-  const msg = new Uint8Array(1 + encoded.length)
-  msg[0] = MSG_AWARENESS
-  msg.set(encoded, 1)
-  return msg
+function syncStep1(doc: Y.Doc): Uint8Array {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MSG_SYNC)
+  syncProtocol.writeSyncStep1(encoder, doc)
+  return encoding.toUint8Array(encoder)
 }
 
 // ---------------------------------------------------------------------------
@@ -213,35 +221,110 @@ describe('echo prevention via origin tagging', () => {
 // Wire protocol
 // ---------------------------------------------------------------------------
 
-describe('wire protocol encoding', () => {
-  it('Yjs message has type byte 0 followed by update payload', () => {
-    const { doc, map } = createDoc()
-    map.set('test', { id: 'test', type: 'sticky', x: 0, y: 0, width: 100, height: 100, fill: '#fff' })
+describe('wire protocol', () => {
+  it('sync step 1 / step 2 brings both sides up to date', () => {
+    const { doc: client, map: clientMap } = createDoc()
+    const { doc: server, map: serverMap } = createDoc()
+    clientMap.set('offline', { id: 'offline', type: 'sticky', x: 0, y: 0, width: 100, height: 100, fill: '#fff' })
+    serverMap.set('online', { id: 'online', type: 'rect', x: 0, y: 0, width: 100, height: 100, fill: '#000' })
+
+    // Each side answers the other's step 1 with a step 2
+    receiveSync(server, receiveSync(client, syncStep1(server))!)
+    receiveSync(client, receiveSync(server, syncStep1(client))!)
+
+    expect(serverMap.get('offline')).toBeDefined()
+    expect(clientMap.get('online')).toBeDefined()
+  })
+
+  it('step 2 carries only what the other side is missing', () => {
+    const { doc: server, map } = createDoc()
+    map.set('big', { id: 'big', type: 'sticky', x: 0, y: 0, width: 100, height: 100, text: 'x'.repeat(1000), fill: '#fff' })
+    const client = new Y.Doc()
+    Y.applyUpdate(client, Y.encodeStateAsUpdate(server))
+    map.set('small', { id: 'small', type: 'rect', x: 0, y: 0, width: 1, height: 1, fill: '#000' })
+
+    const step2 = receiveSync(server, syncStep1(client))!
+    expect(step2.length).toBeLessThan(200)
+    receiveSync(client, step2)
+    expect(client.getMap('objects').get('small')).toBeDefined()
+  })
 
-    const update = Y.encodeStateAsUpdate(doc)
-    const msg = encodeYjsMessage(update)
+  it('edits made offline reach the server in step 2 on reconnect', () => {
+    const { doc: server } = createDoc()
+    const { doc: client, map } = createDoc()
+    receiveSync(client, receiveSync(server, syncStep1(client))!)
 
-    expect(msg[0]).toBe(MSG_YJS)
-    expect(msg.slice(1)).toEqual(update)
-    expect(msg.length).toBe(1 + update.length)
+    // Disconnected: the edit stays in the client doc
+    map.set('queued', { id: 'queued', type: 'sticky', x: 0, y: 0, width: 1, height: 1, fill: '#fff' })
+    expect(server.getMap('objects').get('queued')).toBeUndefined()
+
+    // Reconnect: answering the server's step 1 sends it
+    receiveSync(server, receiveSync(client, syncStep1(server))!)
+    expect(server.getMap('objects').get('queued')).toBeDefined()
+  })
+
+  it('remote sync messages are applied with the remote origin', () => {
+    const { doc } = createDoc()
+    const { doc: other, map: otherMap } = createDoc()
+    otherMap.set('x', { id: 'x', type: 'sticky', x: 0, y: 0, width: 1, height: 1, fill: '#fff' })
+
+    const origins: unknown[] = []
+    doc.on('update', (_update: Uint8Array, origin: unknown) => origins.push(origin))
+    receiveSync(doc, receiveSync(other, syncStep1(doc))!)
+
+    expect(origins).toEqual([REMOTE])
   })
 
-  it('awareness message has type byte 1 followed by JSON payload', () => {
-    const cursor = { clientId: 'abc', name: 'Alice', color: '#f00', cursor: { x: 100, y: 200 } }
-    const msg = encodeAwarenessMessage(cursor)
+  it('awareness messages carry each user\'s state by client ID', () => {
+    const alice = new awarenessProtocol.Awareness(new Y.Doc())
+    alice.setLocalState({ name: 'Alice', color: '#f00', cursor: { x: 100, y: 200 } })
+
+    const encoder = encoding.createEncoder()
+    encoding.writeVarUint(encoder, MSG_AWARENESS)
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(alice, [alice.clientID]))
+    const msg = encoding.toUint8Array(encoder)
+
+    const decoder = decoding.createDecoder(msg)
+    expect(decoding.readVarUint(decoder)).toBe(MSG_AWARENESS)
+    const bob = new awarenessProtocol.Awareness(new Y.Doc())
+    awarenessProtocol.applyAwarenessUpdate(bob, decoding.readVarUint8Array(decoder), REMOTE)
+    expect(bob.getStates().get(alice.clientID)).toEqual({ name: 'Alice', color: '#f00', cursor: { x: 100, y: 200 } })
+
+    alice.destroy()
+    bob.destroy()
+  })
 
-    expect(msg[0]).toBe(MSG_AWARENESS)
+  it('a rejected update comes back as permission denied, with the reason', () => {
+    const encoder = encoding.createEncoder()
+    encoding.writeVarUint(encoder, MSG_AUTH)
+    authProtocol.writePermissionDenied(encoder, 'Object "a": x must be a finite number')
 
-    // Decode the payload back
-    const payloadBytes = msg.slice(1)
-    const decoded = JSON.parse(new TextDecoder().decode(payloadBytes))
-    expect(decoded).toEqual(cursor)
+    const decoder = decoding.createDecoder(encoding.toUint8Array(encoder))
+    expect(decoding.readVarUint(decoder)).toBe(MSG_AUTH)
+    const onDenied = vi.fn()
+    authProtocol.readAuthMessage(decoder, new Y.Doc(), onDenied)
+    expect(onDenied).toHaveBeenCalledWith(expect.any(Y.Doc), 'Object "a": x must be a finite number')
   })
 
-  it('rejects messages shorter than 2 bytes', () => {
-    // This mimics the guard in useYjs.ts onmessage handler
-    const tooShort = new Uint8Array([0])
-    expect(tooShort.length < 2).toBe(true)
+  it('a doc holding a refused change can\'t sync later edits; a fresh copy from the server can', () => {
+    const server = createDoc()
+    const client = createDoc()
+    Y.applyUpdate(client.doc, Y.encodeStateAsUpdate(server.doc))
+
+    // The server refuses (never applies) the first edit
+    client.map.set('a', { id: 'a', type: 'rect', x: Number.NaN, y: 0, width: 10, height: 10, fill: '#000' })
+    const before = Y.encodeStateVector(client.doc)
+    client.map.set('b', { id: 'b', type: 'rect', x: 0, y: 0, width: 10, height: 10, fill: '#000' })
+    Y.applyUpdate(server.doc, Y.encodeStateAsUpdate(client.doc, before))
+    expect(server.map.has('b')).toBe(false)
+    expect(server.doc.store.pendingStructs).not.toBeNull()
+
+    const reloaded = createDoc()
+    Y.applyUpdate(reloaded.doc, Y.encodeStateAsUpdate(server.doc))
+    const synced = Y.encodeStateVector(reloaded.doc)
+    reloaded.map.set('b', { id: 'b', type: 'rect', x: 0, y: 0, width: 10, height: 10, fill: '#000' })
+    Y.applyUpdate(server.doc, Y.encodeStateAsUpdate(reloaded.doc, synced))
+    expect(server.map.has('b')).toBe(true)
   })
 })
 
@@ -2,4 +2,4 @@
  * Re-export shared types from the single source of truth.
  * All client code imports from here — no need to change existing imports.
  */
-export type { ObjectType, BoardObject, ToolType } from '../../shared/types.ts'
+export type { ObjectType, BoardObject, ToolType, AICommandScope } from '../../shared/types.ts'
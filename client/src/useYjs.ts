@@ -4,9 +4,39 @@
  * This hook manages the entire sync lifecycle:
  *  1. Creates a Y.Doc with a shared Y.Map<BoardObject>
  *  2. Connects to the WebSocket relay server
- *  3. Sends/receives binary Yjs updates + JSON awareness messages
+ *  3. Syncs the doc and presence with the standard y-protocols messages
  *  4. Exposes CRUD operations that mutate the Y.Map (auto-synced)
- *  5. Tracks remote cursors via the awareness protocol
+ *  5. Tracks remote cursors via y-protocols awareness
+ *
+ * Collaborative text:
+ *  - Sticky, text and frame text lives in a Y.Text in the `texts` map, so
+ *    concurrent typing merges per character. Objects are exposed with that
+ *    text filled in; writing `text` through updateObject splices it in.
+ *  - Legacy objects with a plain-string `text` are migrated on first edit
+ *  - The edit overlay binds straight to the Y.Text via `textCollab`, and
+ *    shares its caret through awareness (`editing`)
+ *
+ * Offline:
+ *  - The doc is persisted to IndexedDB per room (y-indexeddb), so a reload
+ *    shows the board straight away instead of waiting for the server
+ *  - Edits made while disconnected stay in the doc (and IndexedDB); the
+ *    sync handshake on reconnect sends the server whatever it's missing
+ *  - `pendingChanges` is set while we hold edits the server hasn't been
+ *    sent, and survives reloads; `offline` once a connection has dropped
+ *  - Losing access to the board (close code 1008) deletes the local copy
+ *
+ * Rejected updates:
+ *  - The server checks every update (object schema, size limits, role) and
+ *    answers one it refuses with a y-protocols permission-denied message;
+ *    the reason is exposed as `rejectedUpdate` for the UI to show
+ *  - The refused change stays in our doc, and every later update from it
+ *    builds on that change, which the server never applied, so the server
+ *    would refuse those as well. We drop the doc and its offline copy and
+ *    load the board again from the server (losing edits not yet synced)
+ *
+ * Comments:
+ *  - Threads and messages live in the `comments` map (shared/comments.ts),
+ *    outside the undo stack. Commenters can write there but nowhere else.
  *
  * Performance optimizations:
  *  - Cursor updates throttled to 50ms (20 updates/sec) — target: <50ms latency
@@ -15,13 +45,19 @@
  *  - Console logs gated behind import.meta.env.DEV
  *
  * Presence awareness:
- *  - Periodic heartbeat (every 2s) so remote users know we're online
- *  - Stale cursor cleanup (remove after 8s of no updates)
- *  - Awareness messages include timestamp for staleness detection
+ *  - Our state lives in a y-protocols Awareness, which renews it every 15s
+ *    and drops remote users not heard from in 30s (the server also clears
+ *    a user's state the moment their socket closes)
+ *  - Each user's viewport and selection ride along, for follow mode and
+ *    remote selection outlines
+ *  - `summon` is a counter: bumping it asks everyone to follow us. Only a
+ *    change seen after we already know the sender counts, so joining late
+ *    doesn't replay an old summon (the server strips it from viewers and
+ *    commenters)
  *
- * Wire protocol (binary):
- *   byte[0]  = message type (0 = Yjs update, 1 = awareness)
- *   byte[1:] = payload (Yjs binary update OR UTF-8 JSON)
+ * Wire protocol: y-protocols sync and awareness messages. On (re)connect
+ * both sides send sync step 1 (a state vector) and answer with step 2, so
+ * only updates the other side is missing cross the wire.
  *
  * IMPORTANT: All remote updates are applied with origin='remote' so
  * the update handler doesn't echo them back to the server.
@@ -29,9 +65,26 @@
 
 import { useEffect, useState, useCallback, useRef, useMemo } from 'react'
 import * as Y from 'yjs'
+import * as encoding from 'lib0/encoding'
+import * as decoding from 'lib0/decoding'
+import * as syncProtocol from 'y-protocols/sync'
+import * as awarenessProtocol from 'y-protocols/awareness'
+import * as authProtocol from 'y-protocols/auth'
+import { IndexeddbPersistence } from 'y-indexeddb'
 import type { BoardObject } from './types'
 import { throttle } from './utils/throttle'
-import { MSG_YJS, MSG_AWARENESS, PRODUCTION_HOST } from './constants'
+import { applyTextDiff, type TextPosition } from './utils/collabText'
+import type { SharedViewport } from './utils/presence'
+import { hasCollabText } from '../../shared/collabText.ts'
+import {
+  collectThreads,
+  type CommentAnchor,
+  type CommentEntry,
+  type CommentMention,
+  type CommentMessage,
+  type CommentThread,
+} from '../../shared/comments.ts'
+import { MSG_SYNC, MSG_AWARENESS, MSG_AUTH, WS_CLOSE_NO_ACCESS, PRODUCTION_HOST, TEXT_MAP, COMMENTS_MAP } from './constants'
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -63,43 +116,147 @@ const WS_URL = getWsUrl()
 const REMOTE = 'remote' // Origin tag to prevent echo loops
 const DEBUG = import.meta.env.DEV // Gate all logs behind dev mode
 const CURSOR_THROTTLE_MS = 50 // Throttle cursor sends to 20/sec
-const HEARTBEAT_MS = 2000     // Send presence heartbeat every 2s
-const STALE_TIMEOUT_MS = 8000 // Remove cursors not heard from in 8s
+const PENDING_KEY = 'pendingChanges' // IndexedDB flag: edits not yet sent to the server
+
+/** IndexedDB database holding a room's doc. */
+function offlineDbName(roomId: string): string {
+  return `collabboard-${roomId}`
+}
+
+/** Origin of keystrokes from the text edit overlay (undoable, like origin=null). */
+export const TEXT_EDIT_ORIGIN = 'text-edit'
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
 export interface RemoteCursor {
+  /** The sender's awareness client ID */
   clientId: string
+  /** Verified user ID, stamped by the server (absent for guests) */
+  userId?: string
   cursor: { x: number; y: number } | null
   name: string
   color: string
-  /** Timestamp of last update — used for stale detection */
-  lastSeen?: number
+  /** Text the user is typing into, if any */
+  editing?: TextEditing | null
+  /** What part of the board they're looking at */
+  viewport?: SharedViewport | null
+  /** IDs of the objects they have selected */
+  selection?: string[] | null
+  /** Bumped each time they summon everyone to their view */
+  summon?: number | null
+}
+
+/** Which object's text a user is editing, and their selection in it. */
+export interface TextEditing {
+  objectId: string
+  anchor: TextPosition
+  head: TextPosition
+}
+
+export interface RemoteEditor {
+  clientId: string
+  name: string
+  color: string
+  editing: TextEditing
+}
+
+/**
+ * Stable handle the text edit overlay uses to bind to Y.Text. Its identity
+ * never changes, so passing it to memoized shapes doesn't re-render them.
+ */
+export interface TextCollab {
+  /** The object's Y.Text (created or migrated on demand), or null if it can't have one. */
+  getText(objectId: string): Y.Text | null
+  /** Share (or clear) the local caret. */
+  setEditing(editing: TextEditing | null): void
+  /** Be told who else is editing an object, now and on every change. */
+  subscribeEditors(objectId: string, listener: (editors: RemoteEditor[]) => void): () => void
+}
+
+/** A summon received from a remote user; `at` makes repeat summons distinct. */
+export interface Summon {
+  clientId: string
+  at: number
+}
+
+/** An update the server refused; `at` makes repeat rejections distinct. */
+export interface RejectedUpdate {
+  reason: string
+  at: number
+}
+
+/** What the local user is posting: a new thread's first message, or a reply. */
+export interface NewComment {
+  authorId: string | null
+  authorName: string
+  text: string
+  mentions: CommentMention[]
 }
 
 // ---------------------------------------------------------------------------
 // Hook
 // ---------------------------------------------------------------------------
 
-export function useYjs(roomId: string, userName: string, userColor: string, authToken?: string) {
+/** Returns a fresh auth token (e.g. Clerk's getToken), or null for guests. */
+export type AuthTokenGetter = () => Promise<string | null>
+
+export function useYjs(
+  roomId: string,
+  userName: string,
+  userColor: string,
+  getAuthToken?: AuthTokenGetter,
+  readOnly = false,
+  canComment = !readOnly,
+) {
   // Map-based state: only changed objects cause re-renders when used with React.memo
   const [objectMap, setObjectMap] = useState<Map<string, BoardObject>>(new Map())
+  const [commentEntries, setCommentEntries] = useState<CommentEntry[]>([])
   const [remoteCursors, setRemoteCursors] = useState<RemoteCursor[]>([])
+  const [summon, setSummon] = useState<Summon | null>(null)
   const [connected, setConnected] = useState(false)
+  // Set when the server refuses the socket (no role on this board)
+  const [accessDenied, setAccessDenied] = useState(false)
+  // Set when the server refuses the socket for any other reason, e.g. an
+  // expired sign-in
+  const [authRequired, setAuthRequired] = useState(false)
+  // The connection dropped (or never came up) and we're retrying
+  const [offline, setOffline] = useState(false)
+  // Local edits the server hasn't been sent yet
+  const [pendingChanges, setPendingChanges] = useState(false)
+  // The last update the server refused, and why
+  const [rejectedUpdate, setRejectedUpdate] = useState<RejectedUpdate | null>(null)
+  // Bumped to replace the doc with a fresh copy from the server
+  const [docGeneration, setDocGeneration] = useState(0)
 
   const yDocRef = useRef<Y.Doc | null>(null)
   const yMapRef = useRef<Y.Map<BoardObject> | null>(null)
+  const yTextsRef = useRef<Y.Map<Y.Text> | null>(null)
+  const yCommentsRef = useRef<Y.Map<CommentEntry> | null>(null)
   const undoManagerRef = useRef<Y.UndoManager | null>(null)
   const [canUndo, setCanUndo] = useState(false)
   const [canRedo, setCanRedo] = useState(false)
   const wsRef = useRef<WebSocket | null>(null)
-  const clientIdRef = useRef(crypto.randomUUID())
+  const awarenessRef = useRef<awarenessProtocol.Awareness | null>(null)
   const remoteCursorsRef = useRef<Map<string, RemoteCursor>>(new Map())
 
-  // Track last known cursor position for heartbeat resends
+  // Keep the latest token getter without reconnecting when its identity changes
+  const getAuthTokenRef = useRef(getAuthToken)
+  getAuthTokenRef.current = getAuthToken
+  const readOnlyRef = useRef(readOnly)
+  readOnlyRef.current = readOnly
+  const canCommentRef = useRef(canComment)
+  canCommentRef.current = canComment
+
+  // Last known cursor position, text caret, viewport and selection, so each
+  // awareness state carries all of them
   const lastCursorRef = useRef<{ x: number; y: number } | null>(null)
+  const editingRef = useRef<TextEditing | null>(null)
+  const viewportRef = useRef<SharedViewport | null>(null)
+  const selectionRef = useRef<string[]>([])
+  const summonRef = useRef<number | null>(null)
+  const editorListenersRef = useRef<Map<string, Set<(editors: RemoteEditor[]) => void>>>(new Map())
 
   // Batch remote cursor updates via requestAnimationFrame
   const cursorRafRef = useRef<number | null>(null)
@@ -118,25 +275,56 @@ export function useYjs(roomId: string, userName: string, userColor: string, auth
     if (!cursorRafRef.current) {
       cursorRafRef.current = requestAnimationFrame(flushCursors)
     }
+    notifyEditors()
+  }
+
+  // Remote carets go straight to the open edit overlay, bypassing React state
+  function notifyEditors() {
+    for (const [objectId, listeners] of editorListenersRef.current) {
+      const editors = remoteEditors(remoteCursorsRef.current.values(), objectId)
+      for (const listener of listeners) listener(editors)
+    }
+  }
+
+  // Everything we share besides name and color, as of now
+  function localPresence(): LocalPresence {
+    return {
+      cursor: lastCursorRef.current,
+      editing: editingRef.current,
+      viewport: viewportRef.current,
+      selection: selectionRef.current,
+      summon: summonRef.current,
+    }
+  }
+
+  // Set our awareness state; its update listener sends it when connected
+  function publishPresence(presence = localPresence()) {
+    awarenessRef.current?.setLocalState({ name: userName, color: userColor, ...presence })
   }
 
   // Derive objects array from Map (stable references for unchanged objects)
   const objects = useMemo(() => Array.from(objectMap.values()), [objectMap])
+  const threads = useMemo(() => collectThreads(commentEntries), [commentEntries])
 
   // ---- WebSocket + Yjs sync lifecycle ------------------------------------
 
   useEffect(() => {
     const yDoc = new Y.Doc()
     const yMap = yDoc.getMap<BoardObject>('objects')
+    const yTexts = yDoc.getMap<Y.Text>(TEXT_MAP)
+    const yComments = yDoc.getMap<CommentEntry>(COMMENTS_MAP)
     yDocRef.current = yDoc
     yMapRef.current = yMap
-
-    // Undo/Redo — track only local changes (origin=null). Remote updates
-    // use origin='remote' and are excluded. captureTimeout groups rapid
-    // mutations (e.g. dragging) into a single undo step.
-    const undoManager = new Y.UndoManager(yMap, {
+    yTextsRef.current = yTexts
+    yCommentsRef.current = yComments
+
+    // Undo/Redo — track only local changes (origin=null, plus typing in the
+    // edit overlay). Remote updates use origin='remote' and are excluded.
+    // captureTimeout groups rapid mutations (e.g. dragging) into a single
+    // undo step.
+    const undoManager = new Y.UndoManager([yMap, yTexts], {
       captureTimeout: 500,
-      trackedOrigins: new Set([null]),
+      trackedOrigins: new Set([null, TEXT_EDIT_ORIGIN]),
     })
     undoManagerRef.current = undoManager
 
@@ -148,76 +336,170 @@ export function useYjs(roomId: string, userName: string, userColor: string, auth
     undoManager.on('stack-item-popped', updateUndoState)
     undoManager.on('stack-cleared', updateUndoState)
 
-    const tokenParam = authToken ? `?token=${encodeURIComponent(authToken)}` : ''
-    const wsUrl = `${WS_URL}/${roomId}${tokenParam}`
-    if (DEBUG) console.log('[YJS] Connecting to', wsUrl)
+    // Presence. Remote states are applied with origin='remote'; everything
+    // else (our own state, and the protocol's 15s renewal) goes to the server.
+    const awareness = new awarenessProtocol.Awareness(yDoc)
+    awarenessRef.current = awareness
+    remoteCursorsRef.current = new Map()
+
+    const awarenessUpdateHandler = (
+      { added, updated, removed }: AwarenessChanges,
+      origin: unknown,
+    ) => {
+      if (origin === REMOTE) return
+      const currentWs = wsRef.current
+      if (!currentWs || currentWs.readyState !== WebSocket.OPEN) return
+      const update = awarenessProtocol.encodeAwarenessUpdate(awareness, [...added, ...updated, ...removed])
+      currentWs.send(encodeMessage(MSG_AWARENESS, (encoder) => encoding.writeVarUint8Array(encoder, update)))
+    }
+    awareness.on('update', awarenessUpdateHandler)
+
+    const awarenessChangeHandler = ({ added, updated, removed }: AwarenessChanges) => {
+      const states = awareness.getStates()
+      const cursors = remoteCursorsRef.current
+      let changed = false
+      for (const id of [...added, ...updated]) {
+        if (id === awareness.clientID) continue
+        const state = states.get(id)
+        if (!state) continue
+        const clientId = String(id)
+        const cursor = { ...state, clientId } as RemoteCursor
+        const previous = cursors.get(clientId)
+        if (previous && typeof cursor.summon === 'number' && cursor.summon !== previous.summon) {
+          setSummon({ clientId, at: Date.now() })
+        }
+        cursors.set(clientId, cursor)
+        changed = true
+      }
+      for (const id of removed) {
+        changed = cursors.delete(String(id)) || changed
+      }
+      // Batch cursor updates — flush at most once per animation frame
+      if (changed) scheduleCursorFlush()
+    }
+    awareness.on('change', awarenessChangeHandler)
 
-    let ws: WebSocket
+    let activeWs: WebSocket | undefined
+    let disposed = false
     let reconnectTimer: ReturnType<typeof setTimeout>
-    let heartbeatTimer: ReturnType<typeof setInterval>
-    let staleCleanupTimer: ReturnType<typeof setInterval>
+    // We've answered the current connection's step 1, so the server has our edits
+    let synced = false
+    // The server refused one of our updates; this doc is about to be replaced
+    let refused = false
+
+    // Offline copy (absent where IndexedDB isn't, e.g. tests). Loaded
+    // updates come in with the persistence as origin: not undoable, and
+    // sent to the server like local edits if we're already connected.
+    const persistence = typeof indexedDB !== 'undefined' ? new IndexeddbPersistence(offlineDbName(roomId), yDoc) : null
+    let pending = false
+    const markPending = (value: boolean) => {
+      if (value === pending) return
+      pending = value
+      setPendingChanges(value)
+      persistence?.set(PENDING_KEY, value ? 1 : 0).catch(() => {})
+    }
+    persistence?.whenSynced.then(async () => {
+      if (DEBUG) console.log('[YJS] Loaded offline copy')
+      // Edits from a previous session that never reached the server
+      const stored = await persistence.get(PENDING_KEY).catch(() => 0)
+      if (stored && !disposed && !synced) {
+        pending = true
+        setPendingChanges(true)
+      }
+    })
+
+    setAccessDenied(false)
+    setAuthRequired(false)
+    setOffline(false)
+    setPendingChanges(false)
 
-    function connect() {
-      ws = new WebSocket(wsUrl)
+    async function connect() {
+      // Fetch a fresh token on every (re)connect — Clerk tokens are short-lived
+      const authToken = await getAuthTokenRef.current?.().catch(() => null)
+      if (disposed) return
+
+      const tokenParam = authToken ? `?token=${encodeURIComponent(authToken)}` : ''
+      if (DEBUG) console.log('[YJS] Connecting to', `${WS_URL}/${roomId}`)
+
+      const ws = new WebSocket(`${WS_URL}/${roomId}${tokenParam}`)
+      activeWs = ws
       ws.binaryType = 'arraybuffer'
       wsRef.current = ws
 
       ws.onopen = () => {
         if (DEBUG) console.log('[YJS STATUS] connected')
         setConnected(true)
-        sendAwareness(ws, clientIdRef.current, userName, userColor, null)
-
-        // Send our current state to the server so it can merge
-        const localState = Y.encodeStateAsUpdate(yDoc)
-        if (localState.length > 2) {
-          const msg = new Uint8Array(1 + localState.length)
-          msg[0] = MSG_YJS
-          msg.set(localState, 1)
-          ws.send(msg)
-          if (DEBUG) console.log(`[YJS] Sent local state to server (${localState.byteLength} bytes)`)
-        }
+        setOffline(false)
 
-        // Start periodic heartbeat — keeps our presence visible even when
-        // the user isn't moving their mouse
-        heartbeatTimer = setInterval(() => {
-          if (ws.readyState === WebSocket.OPEN) {
-            sendAwareness(ws, clientIdRef.current, userName, userColor, lastCursorRef.current)
-          }
-        }, HEARTBEAT_MS)
+        // Ask for what we're missing; the server's step 1 asks us in turn
+        ws.send(encodeMessage(MSG_SYNC, (encoder) => syncProtocol.writeSyncStep1(encoder, yDoc)))
+        publishPresence({ ...localPresence(), cursor: null })
       }
 
       ws.onmessage = (event) => {
-        const data = new Uint8Array(event.data)
-        if (data.length < 2) return
-
-        const msgType = data[0]
-        const payload = data.slice(1)
-
-        if (msgType === MSG_YJS) {
-          // CRITICAL: Tag with 'remote' origin so updateHandler won't echo it back
-          Y.applyUpdate(yDoc, payload, REMOTE)
-          if (DEBUG) console.log(`[YJS] Applied remote update (${payload.byteLength} bytes)`)
-        } else if (msgType === MSG_AWARENESS) {
-          try {
-            const info = JSON.parse(new TextDecoder().decode(payload)) as RemoteCursor
-            if (info.clientId !== clientIdRef.current) {
-              // Stamp with local receive time for stale detection
-              info.lastSeen = Date.now()
-              remoteCursorsRef.current.set(info.clientId, info)
-              // Batch cursor updates — flush at most once per animation frame
-              scheduleCursorFlush()
+        try {
+          const decoder = decoding.createDecoder(new Uint8Array(event.data))
+          const msgType = decoding.readVarUint(decoder)
+
+          if (msgType === MSG_SYNC) {
+            // CRITICAL: Tag with 'remote' origin so updateHandler won't echo it back
+            const encoder = encoding.createEncoder()
+            encoding.writeVarUint(encoder, MSG_SYNC)
+            const syncType = syncProtocol.readSyncMessage(decoder, encoder, yDoc, REMOTE)
+            // Answer step 1 with what the server is missing (viewers skip
+            // this — the server would drop it anyway)
+            if (syncType === syncProtocol.messageYjsSyncStep1) {
+              if (canCommentRef.current) ws.send(encoding.toUint8Array(encoder))
+              synced = true
+              markPending(false)
             }
-          } catch {
-            // Silently ignore malformed awareness messages
+          } else if (msgType === MSG_AWARENESS) {
+            awarenessProtocol.applyAwarenessUpdate(awareness, decoding.readVarUint8Array(decoder), REMOTE)
+          } else if (msgType === MSG_AUTH) {
+            authProtocol.readAuthMessage(decoder, yDoc, (_doc, reason) => {
+              if (DEBUG) console.warn('[YJS] update rejected:', reason)
+              setRejectedUpdate({ reason, at: Date.now() })
+              if (refused) return
+              // Later updates would depend on the refused one: start over
+              // from the server's copy once the offline copy is gone
+              refused = true
+              ws.close()
+              const reload = () => {
+                if (!disposed) setDocGeneration((generation) => generation + 1)
+              }
+              if (persistence) persistence.clearData().then(reload, reload)
+              else reload()
+            })
           }
+        } catch {
+          // Silently ignore malformed messages
         }
       }
 
-      ws.onclose = () => {
-        if (DEBUG) console.log('[YJS STATUS] disconnected')
+      ws.onclose = (event) => {
+        if (DEBUG) console.log('[YJS STATUS] disconnected', event.code, event.reason)
         setConnected(false)
         wsRef.current = null
-        clearInterval(heartbeatTimer)
+        synced = false
+        // Forget remote users; the server resends them when we reconnect
+        const others = [...awareness.getStates().keys()].filter((id) => id !== awareness.clientID)
+        awarenessProtocol.removeAwarenessStates(awareness, others, REMOTE)
+        if (disposed || refused) return
+
+        // No access to this board (denied, revoked or deleted) — retrying won't help
+        if (event.code === WS_CLOSE_NO_ACCESS) {
+          setAccessDenied(true)
+          // Don't keep a copy of a board we can no longer open
+          persistence?.clearData().catch(() => {})
+          return
+        }
+        // 1008 = policy violation, e.g. an expired sign-in: keep the offline
+        // copy (and any unsynced edits) and ask the user to sign in again
+        if (event.code === 1008) {
+          setAuthRequired(true)
+          return
+        }
+        setOffline(true)
         reconnectTimer = setTimeout(connect, 1000)
       }
 
@@ -228,20 +510,13 @@ export function useYjs(roomId: string, userName: string, userColor: string, auth
 
     connect()
 
-    // Periodically clean up stale remote cursors (users who disconnected
-    // without a clean close — their last awareness message goes stale)
-    staleCleanupTimer = setInterval(() => {
-      const now = Date.now()
-      let removed = false
-      for (const [id, cursor] of remoteCursorsRef.current) {
-        if (cursor.lastSeen && now - cursor.lastSeen > STALE_TIMEOUT_MS) {
-          remoteCursorsRef.current.delete(id)
-          removed = true
-          if (DEBUG) console.log('[YJS] Removed stale cursor:', cursor.name)
-        }
-      }
-      if (removed) scheduleCursorFlush()
-    }, STALE_TIMEOUT_MS / 2)
+    // Back online: retry now rather than on the next timer tick
+    const onOnline = () => {
+      if (disposed || refused || wsRef.current) return
+      clearTimeout(reconnectTimer)
+      connect()
+    }
+    window.addEventListener('online', onOnline)
 
     // Observe Y.Map changes — only update the keys that changed (Map-based)
     // IMPORTANT: Read event.changes.keys eagerly (synchronously) because
@@ -258,7 +533,7 @@ export function useYjs(roomId: string, userName: string, userColor: string, auth
       const snapshots = new Map<string, BoardObject>()
       for (const [key, change] of changes) {
         if (change.action !== 'delete') {
-          const val = yMap.get(key)
+          const val = resolveObject(key)
           if (val) snapshots.set(key, val)
         }
       }
@@ -279,68 +554,198 @@ export function useYjs(roomId: string, userName: string, userColor: string, auth
     }
     yMap.observe(observer)
 
+    // Object JSON with its Y.Text (if any) filled in as `text`
+    function resolveObject(id: string): BoardObject | undefined {
+      const obj = yMap.get(id)
+      const ytext = yTexts.get(id)
+      return obj && ytext ? { ...obj, text: ytext.toString() } : obj
+    }
+
+    // Observe text changes (typing, or a Y.Text added/removed) and refresh
+    // only the objects whose text changed
+    const textObserver = (events: Array<Y.YEvent<Y.AbstractType<unknown>>>) => {
+      const ids = new Set<string>()
+      for (const event of events) {
+        if (event.target === yTexts) {
+          for (const key of event.changes.keys.keys()) ids.add(key)
+        } else {
+          ids.add(event.path[0] as string)
+        }
+      }
+
+      const snapshots = new Map<string, BoardObject>()
+      for (const id of ids) {
+        const val = resolveObject(id)
+        if (val) snapshots.set(id, val)
+      }
+      if (snapshots.size === 0) return
+      setObjectMap((prev) => {
+        const next = new Map(prev)
+        for (const [id, val] of snapshots) next.set(id, val)
+        return next
+      })
+    }
+    yTexts.observeDeep(textObserver)
+
+    // Comments are few and small: re-read the whole map on any change
+    const commentObserver = () => setCommentEntries(Array.from(yComments.values()))
+    yComments.observe(commentObserver)
+    commentObserver()
+
     // Set initial objects from server state
     const initial = new Map<string, BoardObject>()
-    for (const [key, val] of yMap.entries()) {
-      initial.set(key, val)
+    for (const key of yMap.keys()) {
+      initial.set(key, resolveObject(key)!)
     }
     setObjectMap(initial)
 
-    // Broadcast LOCAL mutations to the server (skip remote-origin updates)
+    // Broadcast LOCAL mutations to the server (skip remote-origin updates).
+    // Offline edits wait in the doc for the next sync handshake.
     const updateHandler = (update: Uint8Array, origin: unknown) => {
-      if (origin === REMOTE) return
+      if (origin === REMOTE || refused) return
       const currentWs = wsRef.current
-      if (!currentWs || currentWs.readyState !== WebSocket.OPEN) return
+      if (!currentWs || currentWs.readyState !== WebSocket.OPEN || !synced) {
+        if (origin !== persistence) markPending(true)
+        return
+      }
 
-      const msg = new Uint8Array(1 + update.length)
-      msg[0] = MSG_YJS
-      msg.set(update, 1)
-      currentWs.send(msg)
+      currentWs.send(encodeMessage(MSG_SYNC, (encoder) => syncProtocol.writeUpdate(encoder, update)))
       if (DEBUG) console.log(`[YJS] Sent local update (${update.byteLength} bytes)`)
     }
     yDoc.on('update', updateHandler)
 
     return () => {
       if (DEBUG) console.log('[YJS] Disconnecting from room:', roomId)
+      disposed = true
       clearTimeout(reconnectTimer)
-      clearInterval(heartbeatTimer)
-      clearInterval(staleCleanupTimer)
+      window.removeEventListener('online', onOnline)
       if (cursorRafRef.current) cancelAnimationFrame(cursorRafRef.current)
       yMap.unobserve(observer)
+      yTexts.unobserveDeep(textObserver)
+      yComments.unobserve(commentObserver)
       yDoc.off('update', updateHandler)
+      awareness.off('update', awarenessUpdateHandler)
+      awareness.off('change', awarenessChangeHandler)
+      awareness.destroy()
+      awarenessRef.current = null
       undoManager.off('stack-item-added', updateUndoState)
       undoManager.off('stack-item-popped', updateUndoState)
       undoManager.off('stack-cleared', updateUndoState)
       undoManager.destroy()
       undoManagerRef.current = null
-      ws?.close()
+      activeWs?.close()
+      persistence?.destroy()
       yDoc.destroy()
       yDocRef.current = null
       yMapRef.current = null
+      yTextsRef.current = null
+      yCommentsRef.current = null
       wsRef.current = null
     }
-  }, [roomId, userName, userColor, authToken])
+  }, [roomId, userName, userColor, docGeneration])
 
   // ---- CRUD operations (mutate Y.Map → auto-synced) ----------------------
 
+  // Read-only roles (viewer, commenter) can't mutate the board; the server
+  // drops their writes too, so these are no-ops rather than local-only edits.
+
   const createObject = useCallback((obj: BoardObject) => {
-    if (!yMapRef.current) return
+    const yMap = yMapRef.current
+    const yTexts = yTextsRef.current
+    if (!yMap || !yTexts || readOnlyRef.current) return
     if (DEBUG) console.log('[YJS CREATE]', obj.id, obj.type)
-    yMapRef.current.set(obj.id, obj)
+    if (!hasCollabText(obj.type)) {
+      yMap.set(obj.id, obj)
+      return
+    }
+    // The Y.Text is created with the object, even when empty: created later,
+    // two clients could each make one and the loser's typing would vanish
+    const { text, ...rest } = obj
+    yMap.doc!.transact(() => {
+      yMap.set(obj.id, rest)
+      yTexts.set(obj.id, new Y.Text(text ?? ''))
+    })
   }, [])
 
   const updateObject = useCallback((id: string, updates: Partial<BoardObject>) => {
-    if (!yMapRef.current) return
-    const existing = yMapRef.current.get(id)
+    const yMap = yMapRef.current
+    if (!yMap || readOnlyRef.current) return
+    const existing = yMap.get(id)
     if (!existing) return
-    const updated = { ...existing, ...updates }
-    yMapRef.current.set(id, updated)
+    if (updates.text === undefined || !hasCollabText(existing.type)) {
+      yMap.set(id, { ...existing, ...updates })
+      return
+    }
+    // Splice text into the Y.Text so it merges with concurrent typing
+    const { text, ...fields } = updates
+    yMap.doc!.transact(() => {
+      const ytext = ensureText(id)
+      if (ytext) applyTextDiff(ytext, text)
+      if (Object.keys(fields).length > 0) yMap.set(id, { ...yMap.get(id)!, ...fields })
+    })
   }, [])
 
   const deleteObject = useCallback((id: string) => {
-    if (!yMapRef.current) return
+    if (!yMapRef.current || readOnlyRef.current) return
     if (DEBUG) console.log('[YJS DELETE]', id)
-    yMapRef.current.delete(id)
+    yMapRef.current.doc!.transact(() => {
+      yMapRef.current!.delete(id)
+      yTextsRef.current?.delete(id)
+    })
+  }, [])
+
+  /**
+   * The object's Y.Text. createObject makes it up front; this creates it
+   * only for objects from before that (or from older clients), moving a
+   * legacy plain-string `text` into it so there's only one source of truth.
+   */
+  function ensureText(id: string): Y.Text | null {
+    const yMap = yMapRef.current
+    const yTexts = yTextsRef.current
+    const obj = yMap?.get(id)
+    if (!yMap || !yTexts || !obj || !hasCollabText(obj.type)) return null
+    const existing = yTexts.get(id)
+    if (existing) return existing
+
+    const { text, ...rest } = obj
+    const ytext = new Y.Text(text ?? '')
+    yMap.doc!.transact(() => {
+      yTexts.set(id, ytext)
+      if (text !== undefined) yMap.set(id, rest)
+    })
+    return ytext
+  }
+
+  // ---- Comments ------------------------------------------------------------
+
+  // Viewers can't comment; the server drops their comment writes as well.
+
+  /** Open a thread at `anchor` with its first message. Returns the thread ID. */
+  const addThread = useCallback((anchor: CommentAnchor, comment: NewComment): string | null => {
+    const yComments = yCommentsRef.current
+    if (!yComments || !canCommentRef.current) return null
+    const createdAt = new Date().toISOString()
+    const thread: CommentThread = { kind: 'thread', id: crypto.randomUUID(), anchor, createdAt, resolved: false }
+    yComments.doc!.transact(() => {
+      yComments.set(thread.id, thread)
+      const message = newMessage(thread.id, comment, createdAt)
+      yComments.set(message.id, message)
+    })
+    return thread.id
+  }, [])
+
+  const replyToThread = useCallback((threadId: string, comment: NewComment) => {
+    const yComments = yCommentsRef.current
+    if (!yComments || !canCommentRef.current || yComments.get(threadId)?.kind !== 'thread') return
+    const message = newMessage(threadId, comment, new Date().toISOString())
+    yComments.set(message.id, message)
+  }, [])
+
+  const setThreadResolved = useCallback((threadId: string, resolved: boolean, resolvedBy: string | null) => {
+    const yComments = yCommentsRef.current
+    const thread = yComments?.get(threadId)
+    if (!yComments || !canCommentRef.current || thread?.kind !== 'thread') return
+    yComments.set(threadId, { ...thread, resolved, resolvedBy: resolved ? resolvedBy : null })
   }, [])
 
   // ---- Undo / Redo ----------------------------------------------------------
@@ -360,12 +765,10 @@ export function useYjs(roomId: string, userName: string, userColor: string, auth
   const throttledSend = useMemo(
     () =>
       throttle((x: number, y: number) => {
-        const ws = wsRef.current
-        if (!ws || ws.readyState !== WebSocket.OPEN) return
         lastCursorRef.current = { x, y }
-        sendAwareness(ws, clientIdRef.current, userName, userColor, { x, y })
+        publishPresence()
       }, CURSOR_THROTTLE_MS),
-    [userName, userColor],
+    [userName, userColor], // eslint-disable-line react-hooks/exhaustive-deps
   )
 
   // Clean up throttle timer on unmount
@@ -378,25 +781,97 @@ export function useYjs(roomId: string, userName: string, userColor: string, auth
     [throttledSend],
   )
 
-  return { objects, objectMap, remoteCursors, connected, createObject, updateObject, deleteObject, setCursor, undo, redo, canUndo, canRedo }
+  // ---- Viewport, selection and summons ----------------------------------------
+
+  // Carets, viewport and selection share the cursor throttle: at most one
+  // awareness message per 50ms
+  const sendPresence = useMemo(
+    () => throttle(() => publishPresence(), CURSOR_THROTTLE_MS),
+    [userName, userColor], // eslint-disable-line react-hooks/exhaustive-deps
+  )
+  useEffect(() => () => sendPresence.cancel(), [sendPresence])
+  const sendPresenceRef = useRef(sendPresence)
+  sendPresenceRef.current = sendPresence
+
+  const setViewport = useCallback((viewport: SharedViewport) => {
+    viewportRef.current = viewport
+    sendPresenceRef.current()
+  }, [])
+
+  const setSelection = useCallback((ids: string[]) => {
+    selectionRef.current = ids
+    sendPresenceRef.current()
+  }, [])
+
+  /** Ask everyone in the room to follow our view. */
+  const summonAll = useCallback(() => {
+    summonRef.current = (summonRef.current ?? 0) + 1
+    sendPresenceRef.current()
+  }, [])
+
+  // ---- Collaborative text ---------------------------------------------------
+
+  const textCollab = useMemo<TextCollab>(() => ({
+    getText(objectId) {
+      if (readOnlyRef.current) return null
+      return ensureText(objectId)
+    },
+    setEditing(editing) {
+      editingRef.current = editing
+      sendPresenceRef.current()
+    },
+    subscribeEditors(objectId, listener) {
+      const listeners = editorListenersRef.current
+      if (!listeners.has(objectId)) listeners.set(objectId, new Set())
+      listeners.get(objectId)!.add(listener)
+      listener(remoteEditors(remoteCursorsRef.current.values(), objectId))
+      return () => {
+        listeners.get(objectId)?.delete(listener)
+        if (listeners.get(objectId)?.size === 0) listeners.delete(objectId)
+      }
+    },
+  }), []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  return {
+    objects, objectMap, remoteCursors, connected, offline, pendingChanges, rejectedUpdate, accessDenied, authRequired, createObject, updateObject, deleteObject, setCursor,
+    undo, redo, canUndo, canRedo, textCollab, threads, addThread, replyToThread, setThreadResolved,
+    setViewport, setSelection, summonAll, summon,
+  }
 }
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-/** Encode and send an awareness message (cursor + user info). */
-function sendAwareness(
-  ws: WebSocket,
-  clientId: string,
-  name: string,
-  color: string,
-  cursor: { x: number; y: number } | null,
-) {
-  const payload = JSON.stringify({ clientId, name, color, cursor })
-  const encoded = new TextEncoder().encode(payload)
-  const msg = new Uint8Array(1 + encoded.length)
-  msg[0] = MSG_AWARENESS
-  msg.set(encoded, 1)
-  ws.send(msg)
+/** The local user's share of their awareness state. */
+type LocalPresence = Pick<RemoteCursor, 'cursor' | 'editing' | 'viewport' | 'selection' | 'summon'>
+
+/** Client IDs an awareness event is about. */
+interface AwarenessChanges {
+  added: number[]
+  updated: number[]
+  removed: number[]
+}
+
+/** A y-protocols message: the message type, then whatever `write` adds. */
+function encodeMessage(type: number, write: (encoder: encoding.Encoder) => void): Uint8Array {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, type)
+  write(encoder)
+  return encoding.toUint8Array(encoder)
+}
+
+function newMessage(threadId: string, comment: NewComment, createdAt: string): CommentMessage {
+  return { kind: 'message', id: crypto.randomUUID(), threadId, ...comment, createdAt }
+}
+
+/** Remote users currently editing `objectId`. */
+function remoteEditors(cursors: Iterable<RemoteCursor>, objectId: string): RemoteEditor[] {
+  const editors: RemoteEditor[] = []
+  for (const c of cursors) {
+    if (c.editing?.objectId === objectId) {
+      editors.push({ clientId: c.clientId, name: c.name, color: c.color, editing: c.editing })
+    }
+  }
+  return editors
 }
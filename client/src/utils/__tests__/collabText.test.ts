@@ -0,0 +1,110 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import * as Y from 'yjs'
+import {
+  applyTextDiff,
+  transformIndex,
+  encodePosition,
+  decodePosition,
+  bindTextarea,
+} from '../collabText'
+
+/** Two docs wired together like two clients behind the relay. */
+function connectedTexts(initial: string) {
+  const a = new Y.Doc()
+  const b = new Y.Doc()
+  a.getMap<Y.Text>('texts').set('s', new Y.Text(initial))
+  Y.applyUpdate(b, Y.encodeStateAsUpdate(a))
+  a.on('update', (u: Uint8Array, origin: unknown) => { if (origin !== 'remote') Y.applyUpdate(b, u, 'remote') })
+  b.on('update', (u: Uint8Array, origin: unknown) => { if (origin !== 'remote') Y.applyUpdate(a, u, 'remote') })
+  return { a: a.getMap<Y.Text>('texts').get('s')!, b: b.getMap<Y.Text>('texts').get('s')! }
+}
+
+function type(textarea: HTMLTextAreaElement, value: string, caret = value.length) {
+  textarea.value = value
+  textarea.setSelectionRange(caret, caret)
+  textarea.dispatchEvent(new Event('input'))
+}
+
+afterEach(() => {
+  document.body.replaceChildren()
+})
+
+describe('applyTextDiff', () => {
+  it('splices only the changed region', () => {
+    const ytext = new Y.Doc().getText('t')
+    ytext.insert(0, 'hello world')
+    const deltas: unknown[] = []
+    ytext.observe((e) => deltas.push(e.delta))
+
+    expect(applyTextDiff(ytext, 'hello brave world')).toBe(true)
+    expect(applyTextDiff(ytext, 'hello brave world')).toBe(false)
+    expect(ytext.toString()).toBe('hello brave world')
+    expect(deltas).toEqual([[{ retain: 6 }, { insert: 'brave ' }]])
+  })
+})
+
+describe('transformIndex', () => {
+  it('shifts indexes past inserts and deletes before them', () => {
+    expect(transformIndex(5, [{ retain: 2 }, { insert: 'abc' }])).toBe(8)
+    expect(transformIndex(5, [{ retain: 5 }, { insert: 'abc' }])).toBe(5)
+    expect(transformIndex(5, [{ retain: 1 }, { delete: 2 }])).toBe(3)
+    // A delete spanning the index clamps to its start
+    expect(transformIndex(5, [{ retain: 3 }, { delete: 10 }])).toBe(3)
+  })
+})
+
+describe('relative caret positions', () => {
+  it('stay attached to the same character across remote edits', () => {
+    const { a, b } = connectedTexts('abcdef')
+    const caret = encodePosition(a, 3) // before "d"
+
+    b.insert(0, 'XY')
+    expect(decodePosition(a, caret)).toBe(5)
+    expect(decodePosition(b, caret)).toBe(5)
+  })
+
+  it('do not resolve against a different text', () => {
+    const doc = new Y.Doc()
+    const one = doc.getMap<Y.Text>('texts')
+    one.set('x', new Y.Text('aaa'))
+    one.set('y', new Y.Text('bbb'))
+    expect(decodePosition(one.get('y')!, encodePosition(one.get('x')!, 1))).toBeNull()
+  })
+})
+
+describe('bindTextarea', () => {
+  it('merges typing in two textareas', () => {
+    const { a, b } = connectedTexts('buy milk')
+    const taA = document.body.appendChild(document.createElement('textarea'))
+    const taB = document.body.appendChild(document.createElement('textarea'))
+    bindTextarea(taA, a, 'text-edit')
+    bindTextarea(taB, b, 'text-edit')
+
+    taB.focus()
+    taB.setSelectionRange(8, 8)
+    type(taA, 'buy oat milk', 7)
+
+    expect(b.toString()).toBe('buy oat milk')
+    expect(taB.value).toBe('buy oat milk')
+    // B's caret was at the end and stays there
+    expect(taB.selectionStart).toBe(12)
+
+    type(taB, 'buy oat milk today')
+    expect(taA.value).toBe('buy oat milk today')
+  })
+
+  it('reverts only this session\'s own edits', () => {
+    const { a, b } = connectedTexts('note')
+    const textarea = document.body.appendChild(document.createElement('textarea'))
+    const binding = bindTextarea(textarea, a, 'text-edit')
+
+    type(textarea, 'my note')
+    b.insert(b.length, '!')
+    type(textarea, 'my note! edited')
+
+    binding.revert()
+    expect(a.toString()).toBe('note!')
+    expect(textarea.value).toBe('note!')
+    binding.destroy()
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { readImportFile } from '../importFile'
+
+// jsdom's File has no text(), so supply it
+function file(name: string, content: string): File {
+  const f = new File([content], name)
+  Object.defineProperty(f, 'text', { value: async () => content })
+  return f
+}
+
+describe('readImportFile', () => {
+  it('sends Mermaid files as text', async () => {
+    expect(await readImportFile(file('flow.mmd', 'graph LR\nA-->B'))).toEqual({
+      ok: true, document: 'graph LR\nA-->B', source: 'mermaid',
+    })
+  })
+
+  it('recognizes Mermaid text without the extension', async () => {
+    const result = await readImportFile(file('notes.txt', '%% sketch\nflowchart TD\nA-->B'))
+    expect(result).toMatchObject({ ok: true, source: 'mermaid' })
+  })
+
+  it('parses Excalidraw files and tags the source', async () => {
+    expect(await readImportFile(file('Sketch.excalidraw', '{"type":"excalidraw","elements":[]}'))).toEqual({
+      ok: true, document: { type: 'excalidraw', elements: [] }, source: 'excalidraw',
+    })
+  })
+
+  it('leaves other JSON for the server to detect', async () => {
+    expect(await readImportFile(file('board.json', '{"data":[]}'))).toEqual({ ok: true, document: { data: [] } })
+  })
+
+  it('reports files that are neither JSON nor Mermaid', async () => {
+    expect(await readImportFile(file('photo.json', 'not json'))).toEqual({
+      ok: false, error: 'photo.json is not a valid JSON or Mermaid file.',
+    })
+  })
+})
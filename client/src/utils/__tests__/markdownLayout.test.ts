@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { parseMarkdown } from '../../../../shared/markdown.ts'
+import { layoutMarkdown, fontStyle, type MeasureText } from '../markdownLayout'
+
+// Monospace stand-in: every character is 10px wide
+const measure: MeasureText = (text) => text.length * 10
+
+const options = { width: 120, fontSize: 10, padding: 10, lineHeight: 2 }
+
+describe('layoutMarkdown', () => {
+  it('merges same-styled words into runs and splits on style changes', () => {
+    const { runs } = layoutMarkdown(parseMarkdown('a **b c** d'), options, measure)
+    expect(runs).toEqual([
+      { x: 10, y: 10, text: 'a', bold: undefined, italic: undefined, href: undefined },
+      { x: 30, y: 10, text: 'b c', bold: true, italic: undefined, href: undefined },
+      { x: 70, y: 10, text: 'd', bold: undefined, italic: undefined, href: undefined },
+    ])
+  })
+
+  it('wraps words that would cross the right padding', () => {
+    // 100px of usable width: "aaaa bbbb" fits (90px), "cccc" wraps
+    const { runs, height } = layoutMarkdown(parseMarkdown('aaaa bbbb cccc'), options, measure)
+    expect(runs.map((r) => [r.text, r.x, r.y])).toEqual([
+      ['aaaa bbbb', 10, 10],
+      ['cccc', 10, 30],
+    ])
+    expect(height).toBe(60)
+  })
+
+  it('places markers and indents list text past them', () => {
+    const { runs, markers } = layoutMarkdown(parseMarkdown('- one\n  - [x] two'), options, measure)
+    expect(markers).toEqual([
+      { x: 10, y: 10, kind: 'bullet', checked: undefined, line: 0 },
+      { x: 20, y: 30, kind: 'task', checked: true, line: 1 },
+    ])
+    expect(runs.map((r) => r.x)).toEqual([24, 34])
+  })
+
+  it('keeps links as their own runs without trailing spaces', () => {
+    const { runs } = layoutMarkdown(parseMarkdown('go https://a.io now'), options, measure)
+    expect(runs.map((r) => [r.text, r.href])).toEqual([
+      ['go', undefined],
+      ['https://a.io', 'https://a.io'],
+      ['now', undefined],
+    ])
+  })
+})
+
+describe('fontStyle', () => {
+  it('maps span styles to Konva font styles', () => {
+    expect(fontStyle({})).toBe('normal')
+    expect(fontStyle({ bold: true })).toBe('bold')
+    expect(fontStyle({ bold: true, italic: true })).toBe('italic bold')
+  })
+})
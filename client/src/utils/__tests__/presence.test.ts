@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { followViewport, remoteSelectionColors } from '../presence'
+import { ZOOM_MAX } from '../../constants'
+
+describe('followViewport', () => {
+  it('keeps the followed user\'s screen center at ours, at their zoom', () => {
+    // They look at board point (500, 300) at 2x in a 1000x600 window
+    const remote = { x: 500 - 500 * 2, y: 300 - 300 * 2, scale: 2, width: 1000, height: 600 }
+    const view = followViewport(remote, { w: 1600, h: 900 })!
+
+    expect(view.scale).toBe(2)
+    expect((800 - view.x) / view.scale).toBeCloseTo(500)
+    expect((450 - view.y) / view.scale).toBeCloseTo(300)
+  })
+
+  it('is the identity for the same window size', () => {
+    const remote = { x: -120, y: 40, scale: 0.5, width: 1280, height: 720 }
+    expect(followViewport(remote, { w: 1280, h: 720 })).toEqual({ x: -120, y: 40, scale: 0.5 })
+  })
+
+  it('clamps zoom and rejects malformed viewports', () => {
+    expect(followViewport({ x: 0, y: 0, scale: 100, width: 10, height: 10 }, { w: 10, h: 10 })!.scale).toBe(ZOOM_MAX)
+    expect(followViewport({ x: 0, y: 0, scale: 0, width: 10, height: 10 }, { w: 10, h: 10 })).toBeNull()
+    expect(followViewport({ x: NaN, y: 0, scale: 1, width: 10, height: 10 }, { w: 10, h: 10 })).toBeNull()
+  })
+})
+
+describe('remoteSelectionColors', () => {
+  it('colors each selected object by the first user selecting it', () => {
+    const colors = remoteSelectionColors([
+      { color: '#f00', selection: ['a', 'b'] },
+      { color: '#0f0', selection: ['b', 'c'] },
+      { color: '#00f' },
+      { color: '#000', selection: null },
+    ])
+    expect([...colors]).toEqual([['a', '#f00'], ['b', '#f00'], ['c', '#0f0']])
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * Y.Text helpers for the collaborative text editor.
+ *
+ * Sticky, text and frame text lives in a Y.Text (see shared/collabText.ts).
+ * The edit overlay is a plain <textarea>, so these bridge the two: local
+ * input becomes a minimal splice on the Y.Text, remote changes rewrite the
+ * textarea while keeping the local selection where it was, and caret
+ * positions travel over awareness as Yjs relative positions so they stay
+ * attached to the same characters while others type.
+ */
+
+import * as Y from 'yjs'
+import { diffText } from '../../../shared/collabText.ts'
+
+/** A Yjs relative position in its JSON form, as sent over awareness. */
+export type TextPosition = Record<string, unknown>
+
+/** Splice `text` into `ytext`. Returns false if nothing changed. */
+export function applyTextDiff(ytext: Y.Text, text: string): boolean {
+  const change = diffText(ytext.toString(), text)
+  if (!change) return false
+  if (change.remove > 0) ytext.delete(change.index, change.remove)
+  if (change.insert) ytext.insert(change.index, change.insert)
+  return true
+}
+
+/**
+ * Where `index` ends up after a Y.Text change. Text inserted exactly at
+ * the index goes after it, so a remote insert at our caret doesn't push it.
+ */
+export function transformIndex(index: number, delta: Y.YTextEvent['delta']): number {
+  let pos = 0
+  let result = index
+  for (const op of delta) {
+    if (op.retain !== undefined) {
+      pos += op.retain
+    } else if (typeof op.insert === 'string') {
+      if (pos < index) result += op.insert.length
+      pos += op.insert.length
+    } else if (op.delete !== undefined) {
+      if (pos < index) result -= Math.min(op.delete, index - pos)
+    }
+    if (pos >= index) break
+  }
+  return result
+}
+
+export function encodePosition(ytext: Y.Text, index: number): TextPosition {
+  return Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(ytext, index)) as TextPosition
+}
+
+/** Absolute index of a remote caret, or null if it points into another text. */
+export function decodePosition(ytext: Y.Text, position: TextPosition): number | null {
+  if (!ytext.doc) return null
+  try {
+    const abs = Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(position), ytext.doc)
+    return abs && abs.type === ytext ? abs.index : null
+  } catch {
+    return null
+  }
+}
+
+export interface TextareaBinding {
+  /** Revert this session's own edits, leaving everyone else's in place. */
+  revert(): void
+  destroy(): void
+}
+
+/**
+ * Keep `textarea` and `ytext` in sync for one editing session. Local edits
+ * are applied with `origin` (so the board's undo manager can track them);
+ * `onChange` fires after either side changes the text.
+ */
+export function bindTextarea(
+  textarea: HTMLTextAreaElement,
+  ytext: Y.Text,
+  origin: unknown,
+  onChange?: () => void,
+): TextareaBinding {
+  const doc = ytext.doc!
+  // Groups the whole session so revert() undoes it in one go
+  const session = new Y.UndoManager(ytext, { trackedOrigins: new Set([origin]), captureTimeout: Infinity })
+  let applyingLocal = false
+
+  textarea.value = ytext.toString()
+
+  const onInput = () => {
+    applyingLocal = true
+    try {
+      doc.transact(() => applyTextDiff(ytext, textarea.value), origin)
+    } finally {
+      applyingLocal = false
+    }
+    onChange?.()
+  }
+
+  const onRemote = (event: Y.YTextEvent) => {
+    if (applyingLocal) return
+    const start = transformIndex(textarea.selectionStart, event.delta)
+    const end = transformIndex(textarea.selectionEnd, event.delta)
+    textarea.value = ytext.toString()
+    if (document.activeElement === textarea) textarea.setSelectionRange(start, end)
+    onChange?.()
+  }
+
+  textarea.addEventListener('input', onInput)
+  ytext.observe(onRemote)
+
+  return {
+    revert() {
+      while (session.canUndo()) session.undo()
+    },
+    destroy() {
+      textarea.removeEventListener('input', onInput)
+      ytext.unobserve(onRemote)
+      session.destroy()
+    },
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Import file reading for the Dashboard import button and the board drop zone.
+ *
+ * Pure apart from reading the File — the server does the actual conversion
+ * (see server/src/importers/). This only decides how to send the contents:
+ * Mermaid files are sent as text, everything else must be JSON.
+ */
+
+import type { ImportSource } from '../api'
+
+/** File types offered by import pickers. */
+export const IMPORT_ACCEPT = '.json,.excalidraw,.mmd,.mermaid,application/json,text/plain'
+
+export type ImportFileResult =
+  | { ok: true; document: unknown; source?: ImportSource }
+  | { ok: false; error: string }
+
+const MERMAID_EXTENSIONS = ['.mmd', '.mermaid']
+const MERMAID_HEADER = /^\s*(?:%%[^\n]*\n\s*)*(?:flowchart|graph)\b/
+
+/**
+ * Read a dropped or picked file into an import payload. The source is set
+ * when the extension says what the file is; otherwise the server detects it.
+ */
+export async function readImportFile(file: File): Promise<ImportFileResult> {
+  const name = file.name.toLowerCase()
+  let text: string
+  try {
+    text = await file.text()
+  } catch {
+    return { ok: false, error: `Could not read ${file.name}.` }
+  }
+
+  if (MERMAID_EXTENSIONS.some((ext) => name.endsWith(ext)) || MERMAID_HEADER.test(text)) {
+    return { ok: true, document: text, source: 'mermaid' }
+  }
+
+  let document: unknown
+  try {
+    document = JSON.parse(text)
+  } catch {
+    return { ok: false, error: `${file.name} is not a valid JSON or Mermaid file.` }
+  }
+  return name.endsWith('.excalidraw')
+    ? { ok: true, document, source: 'excalidraw' }
+    : { ok: true, document }
+}
@@ -0,0 +1,141 @@
+/**
+ * Word-wrapped layout for markdown text on the canvas.
+ *
+ * Konva's Text node has a single style, so rich text is drawn as one Text
+ * per run of same-styled words. This turns parsed markdown lines into
+ * positioned runs, bullet markers and checkboxes. Pure — text measurement
+ * is injected so tests don't need a canvas.
+ */
+
+import type { MarkdownLine, MarkdownSpan } from '../../../shared/markdown.ts'
+
+export interface TextStyle {
+  bold?: boolean
+  italic?: boolean
+  fontSize: number
+}
+
+export type MeasureText = (text: string, style: TextStyle) => number
+
+export interface LayoutRun {
+  x: number
+  y: number
+  text: string
+  bold?: boolean
+  italic?: boolean
+  href?: string
+}
+
+export interface LayoutMarker {
+  x: number
+  y: number
+  /** Bullet dot, or a checkbox for task lines. */
+  kind: 'bullet' | 'task'
+  checked?: boolean
+  /** Source line index (see MarkdownLine.line). */
+  line: number
+}
+
+export interface MarkdownLayout {
+  runs: LayoutRun[]
+  markers: LayoutMarker[]
+  height: number
+}
+
+export interface LayoutOptions {
+  width: number
+  fontSize: number
+  padding: number
+  lineHeight?: number
+}
+
+/** Line height multiplier, matching the textarea edit overlay. */
+export const LINE_HEIGHT = 1.4
+
+export function layoutMarkdown(lines: MarkdownLine[], options: LayoutOptions, measure: MeasureText): MarkdownLayout {
+  const { width, fontSize, padding } = options
+  const rowHeight = fontSize * (options.lineHeight ?? LINE_HEIGHT)
+  const right = width - padding
+  const runs: LayoutRun[] = []
+  const markers: LayoutMarker[] = []
+  let y = padding
+
+  for (const line of lines) {
+    let start = padding + line.indent * fontSize
+    if (line.kind !== 'paragraph') {
+      markers.push({ x: start, y, kind: line.kind, checked: line.checked, line: line.line })
+      start += fontSize * 1.4
+    }
+
+    let x = start
+    let run: LayoutRun | null = null
+    const place = (word: string, span: MarkdownSpan) => {
+      const style = { bold: span.bold, italic: span.italic, fontSize }
+      const w = measure(word, style)
+      const isSpace = /^\s+$/.test(word)
+      if (!isSpace && x > start && x + w > right) {
+        x = start
+        y += rowHeight
+        run = null
+      }
+      if (isSpace && x === start) return // no leading whitespace after a wrap
+      if (run && run.y === y && run.bold === span.bold && run.italic === span.italic && run.href === span.href) {
+        run.text += word
+      } else if (isSpace) {
+        run = null // whitespace between styles just advances
+      } else {
+        run = { x, y, text: word, bold: span.bold, italic: span.italic, href: span.href }
+        runs.push(run)
+      }
+      x += w
+    }
+
+    for (const span of line.spans) {
+      for (const word of span.text.split(/(\s+)/)) if (word) place(word, span)
+    }
+    y += rowHeight
+  }
+
+  // Trailing spaces would make link hit areas wider than the link
+  for (const run of runs) run.text = run.text.trimEnd()
+  return { runs: runs.filter((r) => r.text), markers, height: y + padding }
+}
+
+export function fontStyle(style: { bold?: boolean; italic?: boolean }): string {
+  return [style.italic && 'italic', style.bold && 'bold'].filter(Boolean).join(' ') || 'normal'
+}
+
+// ---------------------------------------------------------------------------
+// Canvas measurement
+// ---------------------------------------------------------------------------
+
+const FONT_FAMILY = 'system-ui, sans-serif'
+const widthCache = new Map<string, number>()
+let context: CanvasRenderingContext2D | null | undefined
+
+/** Measure with an offscreen canvas; approximates where canvas is unavailable (jsdom). */
+export const measureCanvasText: MeasureText = (text, style) => {
+  const font = `${fontStyle(style)} ${style.fontSize}px ${FONT_FAMILY}`
+  const key = `${font}|${text}`
+  const cached = widthCache.get(key)
+  if (cached !== undefined) return cached
+
+  if (context === undefined) {
+    try {
+      context = document.createElement('canvas').getContext('2d')
+    } catch {
+      context = null
+    }
+  }
+  let width: number
+  if (context) {
+    context.font = font
+    width = context.measureText(text).width
+  } else {
+    width = text.length * style.fontSize * 0.55
+  }
+
+  if (widthCache.size > 5000) widthCache.clear()
+  widthCache.set(key, width)
+  return width
+}
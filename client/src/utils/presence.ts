@@ -0,0 +1,56 @@
+/**
+ * Presence helpers for follow mode and remote selections.
+ *
+ * Awareness shares each user's stage position, zoom and window size. Windows
+ * differ in size, so a follower keeps the board point at the center of the
+ * followed user's screen at the center of their own, at the same zoom,
+ * rather than copying the stage position as-is.
+ */
+
+import { ZOOM_MIN, ZOOM_MAX } from '../constants'
+
+/** A user's view of the board, as shared through awareness. */
+export interface SharedViewport {
+  /** Stage position in screen pixels. */
+  x: number
+  y: number
+  scale: number
+  /** Window size in screen pixels. */
+  width: number
+  height: number
+}
+
+/**
+ * The stage position and scale that show what `remote` sees, centered in a
+ * window of `size`. Returns null for a malformed viewport.
+ */
+export function followViewport(
+  remote: SharedViewport,
+  size: { w: number; h: number },
+): { x: number; y: number; scale: number } | null {
+  const values = [remote.x, remote.y, remote.scale, remote.width, remote.height]
+  if (!values.every((v) => typeof v === 'number' && Number.isFinite(v)) || remote.scale <= 0) return null
+
+  const scale = Math.min(ZOOM_MAX, Math.max(ZOOM_MIN, remote.scale))
+  const centerX = (remote.width / 2 - remote.x) / remote.scale
+  const centerY = (remote.height / 2 - remote.y) / remote.scale
+  return {
+    x: size.w / 2 - centerX * scale,
+    y: size.h / 2 - centerY * scale,
+    scale,
+  }
+}
+
+/** Object ID → color of a remote user who has it selected (first one wins). */
+export function remoteSelectionColors(
+  users: Iterable<{ color: string; selection?: string[] | null }>,
+): Map<string, string> {
+  const colors = new Map<string, string>()
+  for (const user of users) {
+    if (!Array.isArray(user.selection)) continue
+    for (const id of user.selection) {
+      if (typeof id === 'string' && !colors.has(id)) colors.set(id, user.color)
+    }
+  }
+  return colors
+}
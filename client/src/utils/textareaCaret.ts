@@ -0,0 +1,50 @@
+/**
+ * Pixel position of a character index inside a <textarea>.
+ *
+ * Textareas don't expose caret geometry, so this lays the text out in an
+ * invisible mirror <div> with the same box and font styles and measures a
+ * marker span placed at the index. Coordinates are relative to the
+ * textarea's border box, before its own scroll offset is applied.
+ */
+
+const MIRRORED_PROPERTIES = [
+  'boxSizing', 'width', 'height',
+  'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'fontStyle', 'fontVariant', 'fontWeight', 'fontSize', 'fontFamily', 'lineHeight',
+  'letterSpacing', 'wordSpacing', 'textIndent', 'textTransform', 'tabSize',
+] as const
+
+export interface CaretCoordinates {
+  left: number
+  top: number
+  height: number
+}
+
+export function caretCoordinates(textarea: HTMLTextAreaElement, index: number): CaretCoordinates {
+  const computed = window.getComputedStyle(textarea)
+  const mirror = document.createElement('div')
+  for (const prop of MIRRORED_PROPERTIES) mirror.style[prop] = computed[prop]
+  mirror.style.position = 'absolute'
+  mirror.style.visibility = 'hidden'
+  mirror.style.overflow = 'hidden'
+  mirror.style.whiteSpace = 'pre-wrap'
+  mirror.style.overflowWrap = 'break-word'
+
+  mirror.textContent = textarea.value.slice(0, index)
+  const marker = document.createElement('span')
+  // A zero-width marker collapses on an empty line; "." keeps the line box
+  marker.textContent = textarea.value.slice(index) || '.'
+  mirror.appendChild(marker)
+
+  document.body.appendChild(mirror)
+  const fontSize = parseFloat(computed.fontSize) || 14
+  const lineHeight = parseFloat(computed.lineHeight) || fontSize * 1.4
+  const coordinates = {
+    left: marker.offsetLeft + (parseFloat(computed.borderLeftWidth) || 0),
+    top: marker.offsetTop + (parseFloat(computed.borderTopWidth) || 0),
+    height: lineHeight,
+  }
+  document.body.removeChild(mirror)
+  return coordinates
+}
@@ -0,0 +1,133 @@
+/**
+ * AI Conversation Memory Tests
+ *
+ *  - earlier turns are replayed ahead of the current command, with the
+ *    actions they ran, in alternating user / assistant messages
+ *  - turns past the token budget fold into a summary of commands and the
+ *    objects they touched; the summary has its own cap
+ *  - "new conversation" starts over with a new ID
+ *  - processAICommand and processAICommandStream add each finished command
+ *    to the board's conversation
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as Y from 'yjs'
+import {
+  ConversationStore,
+  conversationMessages,
+  conversations,
+  estimateTokens,
+  HISTORY_TOKEN_BUDGET,
+  SUMMARY_TOKEN_BUDGET,
+  type ConversationTurn,
+} from '../aiConversation.js'
+import { processAICommand, processAICommandStream } from '../aiHandler.js'
+import type { AIStreamEvent, AIStreamDoneEvent } from '../../../shared/aiStreamTypes.js'
+
+function turn(user: string, ids: string[] = [], assistant = 'Done!'): ConversationTurn {
+  return {
+    user,
+    assistant,
+    actions: ids.map((id) => ({
+      tool: 'createObject',
+      input: { type: 'sticky', x: 0, y: 0 },
+      result: JSON.stringify({ success: true, id }),
+    })),
+  }
+}
+
+describe('conversationMessages', () => {
+  it('is just the current command without a conversation', () => {
+    expect(conversationMessages(null, 'Board: empty\n\nUser command: hi')).toEqual([
+      { role: 'user', content: 'Board: empty\n\nUser command: hi' },
+    ])
+  })
+
+  it('replays earlier turns with their actions before the current command', () => {
+    const store = new ConversationStore()
+    store.append('b1', turn('add two stickies', ['s1', 's2'], 'Added two stickies.'))
+
+    const messages = conversationMessages(store.get('b1'), 'now make them blue')
+    expect(messages.map((m) => m.role)).toEqual(['user', 'assistant', 'user'])
+    expect(messages[0].content).toBe('add two stickies')
+    expect(messages[1].content).toContain('Added two stickies.')
+    expect(messages[1].content).toContain('"id":"s1"')
+    expect(messages[1].content).toContain('"id":"s2"')
+    expect(messages[2].content).toBe('now make them blue')
+  })
+})
+
+describe('ConversationStore', () => {
+  it('summarizes the oldest turns once past the token budget', () => {
+    const store = new ConversationStore()
+    const long = 'x'.repeat(HISTORY_TOKEN_BUDGET * 2) // ~half the budget each, in tokens
+    store.append('b1', turn(`first ${long}`, ['a1']))
+    store.append('b1', turn('second', ['a2']))
+    store.append('b1', turn(`third ${long}`))
+
+    const conversation = store.get('b1')
+    expect(conversation.turns.map((t) => t.user.split(' ')[0])).toEqual(['second', 'third'])
+    expect(conversation.summary).toHaveLength(1)
+    expect(conversation.summary[0]).toMatch(/^- "first x+…" → 1 action\(s\) on a1$/)
+
+    const messages = conversationMessages(conversation, 'next')
+    expect(messages[0].content).toMatch(/^Summary of earlier commands in this conversation:\n- "first/)
+    expect(messages[0].content).toContain('second')
+  })
+
+  it('keeps the latest turn even when it alone is over budget', () => {
+    const store = new ConversationStore()
+    store.append('b1', turn('x'.repeat(HISTORY_TOKEN_BUDGET * 8)))
+    expect(store.get('b1').turns).toHaveLength(1)
+  })
+
+  it('caps the summary, dropping its oldest lines', () => {
+    const store = new ConversationStore()
+    for (let i = 0; i < 200; i++) store.append('b1', turn(`command ${i} ${'y'.repeat(400)}`, [`id-${i}`]))
+
+    const { summary } = store.get('b1')
+    expect(estimateTokens(summary.join('\n'))).toBeLessThanOrEqual(SUMMARY_TOKEN_BUDGET)
+    expect(summary.at(-1)).toContain('id-')
+    expect(summary.some((line) => line.includes('"command 0 '))).toBe(false)
+  })
+
+  it('keeps boards apart and starts over on reset', () => {
+    const store = new ConversationStore()
+    store.append('b1', turn('one'))
+    store.append('b2', turn('two'))
+    const before = store.get('b1').id
+
+    const after = store.reset('b1')
+    expect(after).not.toBe(before)
+    expect(store.get('b1')).toEqual({ id: after, summary: [], turns: [] })
+    expect(store.get('b2').turns).toHaveLength(1)
+  })
+})
+
+describe('AI commands join the board conversation', () => {
+  it('records each command with its reply and actions', async () => {
+    const doc = new Y.Doc()
+    conversations.reset('conv-board')
+
+    const result = await processAICommand('Add a yellow sticky note that says Hello', doc, { boardId: 'conv-board' })
+    const { turns } = conversations.get('conv-board')
+    expect(turns).toHaveLength(1)
+    expect(turns[0]).toEqual({ user: 'Add a yellow sticky note that says Hello', assistant: result.message, actions: result.actions })
+    doc.destroy()
+  })
+
+  it('records streamed commands once they are done', async () => {
+    const doc = new Y.Doc()
+    conversations.reset('conv-stream')
+
+    const events: AIStreamEvent[] = []
+    for await (const event of processAICommandStream('Add a blue rectangle', doc, { boardId: 'conv-stream' })) {
+      events.push(event)
+    }
+    const done = events.find((e): e is AIStreamDoneEvent => e.type === 'done')!
+    expect(conversations.get('conv-stream').turns).toEqual([
+      { user: 'Add a blue rectangle', assistant: done.message, actions: done.actions },
+    ])
+    doc.destroy()
+  })
+})
@@ -8,13 +8,16 @@
  *  - createObject: creates objects with correct defaults and properties
  *  - updateObject: modifies existing object properties
  *  - moveObject: repositions existing objects
- *  - buildBoardContext: generates correct board snapshot for system prompt
+ *  - buildBoardContext: generates correct board snapshot for system prompt,
+ *    leading with the user's selection when there is one
+ *  - executeTool: refuses changes outside the selection
  *  - executeGetBoardState: returns current board state as formatted string
  *  - skipCollisionCheck: allows intentional placement without auto-nudging
  */
 
 import { describe, it, expect, beforeEach } from 'vitest'
 import * as Y from 'yjs'
+import { readObject, readObjects } from '../objectText.js'
 
 // ---------------------------------------------------------------------------
 // Import the functions we'll test (these don't exist yet — TDD!)
@@ -57,7 +60,7 @@ describe('createObject', () => {
     expect(result.id).toBeDefined()
     expect(result.type).toBe('sticky')
 
-    const created = objects.get(result.id) as any
+    const created = readObject(objects, result.id) as any
     expect(created).toBeDefined()
     expect(created.type).toBe('sticky')
     expect(created.x).toBe(100)
@@ -136,7 +139,7 @@ describe('createObject', () => {
       )
     )
 
-    const created = objects.get(result.id) as any
+    const created = readObject(objects, result.id) as any
     expect(created.fontSize).toBe(24)
     expect(created.text).toBe('Title')
   })
@@ -179,7 +182,7 @@ describe('updateObject', () => {
     })
 
     executeUpdateObject({ id: 'obj-2', text: 'New text' }, objects)
-    expect((objects.get('obj-2') as any).text).toBe('New text')
+    expect(readObject(objects, 'obj-2')?.text).toBe('New text')
   })
 
   it('preserves unmodified properties', () => {
@@ -907,6 +910,79 @@ describe('buildBoardContext with parentId', () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// buildBoardContext / executeTool — selection and viewport scope
+// ---------------------------------------------------------------------------
+
+import { executeTool, createToolContext } from '../toolExecutors.js'
+
+describe('buildBoardContext with a scope', () => {
+  function scopedMap(): Y.Map<any> {
+    const objects = createTestMap()
+    objects.set('sel-1', { id: 'sel-1', type: 'sticky', x: 100, y: 100, width: 200, height: 150, fill: '#FFD700', text: 'Picked' })
+    objects.set('other-1', { id: 'other-1', type: 'rect', x: 3000, y: 3000, width: 150, height: 100, fill: '#87CEEB' })
+    objects.set('other-2', { id: 'other-2', type: 'rect', x: 100, y: 400, width: 150, height: 100, fill: '#87CEEB' })
+    return objects
+  }
+
+  it('lists the selected objects first, apart from the rest', () => {
+    const context = buildBoardContext(scopedMap(), { selectedIds: ['sel-1', 'gone'] })
+    const [selected, rest] = context.split('Other board objects')
+
+    expect(selected).toContain('Selected objects (1)')
+    expect(selected).toContain('"sel-1"')
+    expect(rest).toContain('(2)')
+    expect(rest).toContain('"other-1"')
+    expect(rest).not.toContain('"sel-1"')
+  })
+
+  it('puts objects in the viewport first and says where the viewport is', () => {
+    const viewport = { x: 2800, y: 2800, width: 800, height: 600 }
+    const context = buildBoardContext(scopedMap(), { selectedIds: [], viewport })
+
+    expect(context.indexOf('"other-1"')).toBeLessThan(context.indexOf('"sel-1"'))
+    expect(context).toContain("User's viewport: x:2800-3600, y:2800-3400")
+  })
+
+  it('is unchanged without a scope', () => {
+    const objects = scopedMap()
+    expect(buildBoardContext(objects, { selectedIds: [] })).toBe(buildBoardContext(objects))
+  })
+})
+
+describe('executeTool with a selection', () => {
+  it('refuses to change objects outside the selection', () => {
+    const objects = createTestMap()
+    objects.set('sel-1', { id: 'sel-1', type: 'sticky', x: 0, y: 0, width: 200, height: 150, fill: '#FFD700' })
+    objects.set('other-1', { id: 'other-1', type: 'sticky', x: 300, y: 0, width: 200, height: 150, fill: '#FFD700' })
+    const context = createToolContext({ selectedIds: ['sel-1'] })
+
+    const refused = JSON.parse(executeTool('updateObject', { id: 'other-1', fill: '#000' }, objects, context))
+    expect(refused.success).toBe(false)
+    expect(refused.error).toContain('not selected')
+    expect(objects.get('other-1').fill).toBe('#FFD700')
+
+    executeTool('moveObject', { id: 'sel-1', x: 50, y: 60 }, objects, context)
+    expect(objects.get('sel-1')).toMatchObject({ x: 50, y: 60 })
+  })
+
+  it('lets the command change objects it created', () => {
+    const objects = createTestMap()
+    const context = createToolContext({ selectedIds: ['sel-1'] })
+    const created = JSON.parse(executeTool('createObject', { type: 'sticky', x: 0, y: 0 }, objects, context))
+
+    const moved = JSON.parse(executeTool('moveObject', { id: created.id, x: 500, y: 500 }, objects, context))
+    expect(moved.success).toBe(true)
+  })
+
+  it('allows any object without a selection', () => {
+    const objects = createTestMap()
+    objects.set('a', { id: 'a', type: 'sticky', x: 0, y: 0, width: 200, height: 150, fill: '#FFD700' })
+    const result = JSON.parse(executeTool('updateObject', { id: 'a', fill: '#000' }, objects, createToolContext({ selectedIds: [] })))
+    expect(result.success).toBe(true)
+  })
+})
+
 // ---------------------------------------------------------------------------
 // getBoardState tool (Bug Fix #2)
 // ---------------------------------------------------------------------------
@@ -1082,9 +1158,45 @@ describe('processAICommand — command cache integration', () => {
     expect(recipes[0].hitCount).toBe(2)
   })
 
+  it('bypasses the cache for commands about a selection', async () => {
+    const doc = new Y.Doc()
+    const objectsMap = doc.getMap<any>('objects')
+    objectsMap.set('s1', { id: 's1', type: 'sticky', x: 0, y: 0, width: 200, height: 150, fill: '#FFD700' })
+
+    commandCache.learn(
+      'Create a yellow sticky that says Hello',
+      [{ tool: 'createObject', input: { type: 'sticky', x: 100, y: 100, fill: '#FFD700', text: 'Hello' }, result: '{"success":true,"id":"n1"}' }],
+      'Created.',
+    )
+    expect(commandCache.match('Create a blue sticky that says World')).not.toBeNull()
+    const hitsBefore = commandCache.getRecipes()[0].hitCount
+
+    await processAICommand('Create a blue sticky that says World', doc, { scope: { selectedIds: ['s1'] } })
+
+    expect(commandCache.getRecipes()[0].hitCount).toBe(hitsBefore)
+    expect(objectsMap.size).toBe(2)
+  })
+
+  it('bypasses the cache once the board’s conversation has earlier turns', async () => {
+    const doc = new Y.Doc()
+    commandCache.learn(
+      'Create a yellow sticky that says Hello',
+      [{ tool: 'createObject', input: { type: 'sticky', x: 100, y: 100, fill: '#FFD700', text: 'Hello' }, result: '{"success":true,"id":"n1"}' }],
+      'Created.',
+    )
+
+    await processAICommand('Create a blue sticky that says One', doc, { boardId: 'cache-follow-up' })
+    expect(commandCache.getRecipes()[0].hitCount).toBe(1)
+
+    // A follow-up may depend on the first turn, which the recipe knows nothing of
+    await processAICommand('Create a green sticky that says Two', doc, { boardId: 'cache-follow-up' })
+    expect(commandCache.getRecipes()[0].hitCount).toBe(1)
+    expect(doc.getMap('objects').size).toBe(2)
+  })
+
   it('cache hit creates objects on the doc (replay is functional)', async () => {
     const doc = new Y.Doc()
-    const objectsMap = doc.getMap('objects')
+    const objectsMap = doc.getMap<any>('objects')
 
     const actions: ToolAction[] = [{
       tool: 'createObject',
@@ -1102,8 +1214,7 @@ describe('processAICommand — command cache integration', () => {
     expect(objectsMap.size).toBe(2)
 
     // Verify the objects have the correct properties
-    const allObjects: any[] = []
-    objectsMap.forEach((obj) => allObjects.push(obj))
+    const allObjects: any[] = readObjects(objectsMap)
 
     const alpha = allObjects.find((o) => o.text === 'Alpha')
     const beta = allObjects.find((o) => o.text === 'Beta')
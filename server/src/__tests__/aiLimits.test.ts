@@ -0,0 +1,132 @@
+/**
+ * AI Rate Limit and Quota Tests
+ *
+ *  - token buckets allow a burst, then refill over time, per key
+ *  - a command refused by one bucket doesn't use up the other
+ *  - daily token and cost quotas, counted from model usage, reset at
+ *    midnight UTC
+ *  - refusals say which limit was hit and when to retry
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  AILimiter,
+  TokenBucketLimiter,
+  UsageLedger,
+  usageCost,
+  USER_BUCKET,
+  BOARD_BUCKET,
+  DAILY_TOKEN_QUOTA,
+  DAILY_COST_QUOTA_USD,
+} from '../aiLimits.js'
+
+const SONNET = 'claude-sonnet-4-20250514'
+const HAIKU = 'claude-haiku-4-5-20250514'
+
+let now: number
+const clock = () => now
+
+beforeEach(() => {
+  now = Date.UTC(2026, 0, 15, 12, 0, 0)
+})
+
+describe('TokenBucketLimiter', () => {
+  it('allows a burst up to capacity, then one per refill interval', () => {
+    const limiter = new TokenBucketLimiter(3, 6, clock) // one token every 10s
+    expect([limiter.take('a'), limiter.take('a'), limiter.take('a')]).toEqual([true, true, true])
+    expect(limiter.take('a')).toBe(false)
+    expect(limiter.waitFor('a')).toBe(10_000)
+
+    now += 10_000
+    expect(limiter.take('a')).toBe(true)
+    expect(limiter.take('a')).toBe(false)
+  })
+
+  it('keeps keys apart and never refills past capacity', () => {
+    const limiter = new TokenBucketLimiter(2, 6, clock)
+    limiter.take('a')
+    limiter.take('a')
+    expect(limiter.take('b')).toBe(true)
+
+    now += 60 * 60 * 1000
+    expect([limiter.take('a'), limiter.take('a'), limiter.take('a')]).toEqual([true, true, false])
+  })
+})
+
+describe('UsageLedger', () => {
+  it('adds up tokens and cost per key', () => {
+    const ledger = new UsageLedger(clock)
+    ledger.record('user:a', SONNET, { input: 1000, output: 200 })
+    ledger.record('user:a', HAIKU, { input: 1000, output: 0 })
+    ledger.record('user:b', SONNET, { input: 5, output: 5 })
+
+    expect(ledger.usage('user:a').tokens).toBe(2200)
+    expect(ledger.usage('user:a').cost).toBeCloseTo(usageCost(SONNET, { input: 1000, output: 200 }) + 0.001)
+    expect(ledger.usage('user:c')).toEqual({ tokens: 0, cost: 0 })
+  })
+
+  it('prices output above input, and unknown models as Sonnet', () => {
+    expect(usageCost(SONNET, { input: 1_000_000, output: 0 })).toBe(3)
+    expect(usageCost(SONNET, { input: 0, output: 1_000_000 })).toBe(15)
+    expect(usageCost('some-new-model', { input: 1_000_000, output: 0 })).toBe(3)
+  })
+
+  it('starts over at midnight UTC', () => {
+    const ledger = new UsageLedger(clock)
+    ledger.record('user:a', SONNET, { input: 100, output: 100 })
+    expect(ledger.msUntilReset()).toBe(12 * 60 * 60 * 1000)
+
+    now = Date.UTC(2026, 0, 16, 0, 0, 1)
+    expect(ledger.usage('user:a')).toEqual({ tokens: 0, cost: 0 })
+  })
+})
+
+describe('AILimiter', () => {
+  it('refuses a user past their burst with a retry time', () => {
+    const limiter = new AILimiter(clock)
+    for (let i = 0; i < USER_BUCKET.capacity; i++) {
+      expect(limiter.check('user:a', 'board-1')).toEqual({ ok: true })
+    }
+    const refused = limiter.check('user:a', 'board-1')
+    expect(refused).toMatchObject({ ok: false, code: 'rate_limited', retryAfterSeconds: 6 })
+    expect(refused.ok === false && refused.error).toBe('Too many AI requests. Try again in 6 seconds.')
+
+    // Other users on other boards are unaffected
+    expect(limiter.check('user:b', 'board-2')).toEqual({ ok: true })
+  })
+
+  it('limits a board across users without using up their own buckets', () => {
+    const limiter = new AILimiter(clock)
+    for (let i = 0; i < BOARD_BUCKET.capacity; i++) {
+      expect(limiter.check(`user:${i}`, 'busy').ok).toBe(true)
+    }
+    expect(limiter.check('user:new', 'busy')).toMatchObject({ ok: false, code: 'rate_limited' })
+
+    // The refusal took nothing from user:new
+    for (let i = 0; i < USER_BUCKET.capacity; i++) {
+      expect(limiter.check('user:new', `board-${i}`).ok).toBe(true)
+    }
+  })
+
+  it('refuses a user over the daily token quota until midnight UTC', () => {
+    const limiter = new AILimiter(clock)
+    limiter.recordUsage('user:a', HAIKU, { input: DAILY_TOKEN_QUOTA, output: 0 })
+
+    const refused = limiter.check('user:a', 'board-1')
+    expect(refused).toMatchObject({ ok: false, code: 'quota_exceeded', retryAfterSeconds: 12 * 60 * 60 })
+    expect(refused.ok === false && refused.error).toBe('Daily AI quota reached. It resets in 12 hours.')
+    expect(limiter.check('user:b', 'board-1').ok).toBe(true)
+
+    now = Date.UTC(2026, 0, 16, 0, 0, 0)
+    expect(limiter.check('user:a', 'board-1').ok).toBe(true)
+  })
+
+  it('refuses a user over the daily cost quota', () => {
+    const limiter = new AILimiter(clock)
+    // Sonnet output at $15 per million tokens
+    const tokens = Math.ceil((DAILY_COST_QUOTA_USD / 15) * 1_000_000)
+    limiter.recordUsage('user:a', SONNET, { input: 0, output: tokens })
+    expect(limiter.usage('user:a').tokens).toBeLessThan(DAILY_TOKEN_QUOTA)
+    expect(limiter.check('user:a', 'board-1')).toMatchObject({ ok: false, code: 'quota_exceeded' })
+  })
+})
@@ -0,0 +1,212 @@
+/**
+ * AI Undo Tests
+ *
+ *  - undoing a command reverts exactly its changes, in one step, and keeps
+ *    edits other users made since
+ *  - only whoever ran a command can undo it, and only once
+ *  - commands that changed nothing, are past the limit or whose board was
+ *    unloaded can't be undone
+ *  - processAICommand and processAICommandStream tag their changes and
+ *    return the command ID when the command can be undone
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as Y from 'yjs'
+import { AIUndoRegistry, AI_UNDO_LIMIT, aiUndo, type AIOrigin } from '../aiUndo.js'
+import { processAICommand, processAICommandStream } from '../aiHandler.js'
+import { TEXT_MAP } from '../../../shared/constants.js'
+import type { AIStreamEvent, AIStreamDoneEvent } from '../../../shared/aiStreamTypes.js'
+import type { BoardObject } from '../../../shared/types.js'
+
+function sticky(id: string, x = 0): BoardObject {
+  return { id, type: 'sticky', x, y: 0, width: 200, height: 150, fill: '#FFEB3B', rotation: 0 } as BoardObject
+}
+
+function origin(commandId: string): AIOrigin {
+  return { kind: 'ai', commandId, userId: 'u1' }
+}
+
+/** A change from another user's client, synced to the server doc. */
+function remoteEdit(doc: Y.Doc, fn: (client: Y.Doc) => void): void {
+  const client = new Y.Doc()
+  Y.applyUpdate(client, Y.encodeStateAsUpdate(doc))
+  const before = Y.encodeStateVector(client)
+  fn(client)
+  Y.applyUpdate(doc, Y.encodeStateAsUpdate(client, before), 'remote')
+  client.destroy()
+}
+
+describe('AIUndoRegistry', () => {
+  it('reverts all of a command’s changes as one step', () => {
+    const doc = new Y.Doc()
+    const objects = doc.getMap<BoardObject>('objects')
+    objects.set('existing', sticky('existing'))
+    const registry = new AIUndoRegistry()
+    const command = origin('c1')
+    registry.track('b1', doc, command, 'user:u1')
+
+    // Separate transactions, as from separate model turns
+    doc.transact(() => objects.set('a', sticky('a')), command)
+    doc.transact(() => {
+      objects.set('b', sticky('b'))
+      const text = new Y.Text()
+      text.insert(0, 'Hello')
+      doc.getMap(TEXT_MAP).set('b', text)
+    }, command)
+    doc.transact(() => objects.set('existing', sticky('existing', 500)), command)
+
+    expect(registry.finish('b1', 'c1')).toBe(true)
+    expect(registry.undo('b1', 'c1', 'user:u1')).toEqual({ ok: true })
+    expect([...objects.keys()]).toEqual(['existing'])
+    expect(objects.get('existing')!.x).toBe(0)
+    expect(doc.getMap(TEXT_MAP).has('b')).toBe(false)
+    doc.destroy()
+  })
+
+  it('keeps other users’ edits and other commands’ changes', () => {
+    const doc = new Y.Doc()
+    const objects = doc.getMap<BoardObject>('objects')
+    const registry = new AIUndoRegistry()
+    const first = origin('c1')
+    const second = origin('c2')
+    registry.track('b1', doc, first, 'user:u1')
+    registry.track('b1', doc, second, 'user:u2')
+
+    doc.transact(() => objects.set('a', sticky('a')), first)
+    doc.transact(() => objects.set('b', sticky('b')), second)
+    remoteEdit(doc, (client) => client.getMap('objects').set('mine', sticky('mine')))
+    remoteEdit(doc, (client) => client.getMap('objects').set('b', sticky('b', 300)))
+    registry.finish('b1', 'c1')
+    registry.finish('b1', 'c2')
+
+    expect(registry.undo('b1', 'c1', 'user:u1')).toEqual({ ok: true })
+    expect([...objects.keys()].sort()).toEqual(['b', 'mine'])
+    expect(objects.get('b')!.x).toBe(300)
+    doc.destroy()
+  })
+
+  it('reverts the command’s own changes and nothing else', () => {
+    const doc = new Y.Doc()
+    const objects = doc.getMap<BoardObject>('objects')
+    const registry = new AIUndoRegistry()
+    const command = origin('c1')
+    registry.track('b1', doc, command, 'user:u1')
+
+    doc.transact(() => objects.set('a', sticky('a')), command)
+    remoteEdit(doc, (client) => client.getMap('objects').set('later', sticky('later')))
+    doc.transact(() => objects.set('b', sticky('b')), command)
+    registry.finish('b1', 'c1')
+
+    registry.undo('b1', 'c1', 'user:u1')
+    expect([...objects.keys()]).toEqual(['later'])
+    doc.destroy()
+  })
+
+  it('only lets whoever ran the command undo it, once', () => {
+    const doc = new Y.Doc()
+    const registry = new AIUndoRegistry()
+    const command = origin('c1')
+    registry.track('b1', doc, command, 'user:u1')
+    doc.transact(() => doc.getMap('objects').set('a', sticky('a')), command)
+    registry.finish('b1', 'c1')
+
+    expect(registry.undo('b1', 'c1', 'user:u2')).toMatchObject({ ok: false, code: 'forbidden' })
+    expect(registry.undo('b1', 'c1', undefined)).toMatchObject({ ok: false, code: 'forbidden' })
+    expect(registry.undo('b2', 'c1', 'user:u1')).toMatchObject({ ok: false, code: 'not_found' })
+    expect(registry.undo('b1', 'c1', 'user:u1')).toEqual({ ok: true })
+    expect(registry.undo('b1', 'c1', 'user:u1')).toMatchObject({ ok: false, code: 'not_found' })
+    doc.destroy()
+  })
+
+  it('forgets commands that changed nothing', () => {
+    const doc = new Y.Doc()
+    const registry = new AIUndoRegistry()
+    registry.track('b1', doc, origin('c1'), 'user:u1')
+    remoteEdit(doc, (client) => client.getMap('objects').set('mine', sticky('mine')))
+
+    expect(registry.finish('b1', 'c1')).toBe(false)
+    expect(registry.undo('b1', 'c1', 'user:u1')).toMatchObject({ ok: false, code: 'not_found' })
+    expect(doc.getMap('objects').has('mine')).toBe(true)
+    doc.destroy()
+  })
+
+  it('keeps the last AI_UNDO_LIMIT commands per board', () => {
+    const doc = new Y.Doc()
+    const registry = new AIUndoRegistry()
+    for (let i = 0; i <= AI_UNDO_LIMIT; i++) {
+      const command = origin(`c${i}`)
+      registry.track('b1', doc, command, 'user:u1')
+      doc.transact(() => doc.getMap('objects').set(`o${i}`, sticky(`o${i}`)), command)
+      registry.finish('b1', `c${i}`)
+    }
+
+    expect(registry.undo('b1', 'c0', 'user:u1')).toMatchObject({ ok: false, code: 'not_found' })
+    expect(registry.undo('b1', 'c1', 'user:u1')).toEqual({ ok: true })
+    expect(doc.getMap('objects').has('o0')).toBe(true)
+    expect(doc.getMap('objects').has('o1')).toBe(false)
+    doc.destroy()
+  })
+
+  it('forgets a board’s commands when its room is unloaded', () => {
+    const doc = new Y.Doc()
+    const registry = new AIUndoRegistry()
+    const command = origin('c1')
+    registry.track('b1', doc, command, 'user:u1')
+    doc.transact(() => doc.getMap('objects').set('a', sticky('a')), command)
+    registry.finish('b1', 'c1')
+
+    registry.forget('b1')
+    expect(registry.undo('b1', 'c1', 'user:u1')).toMatchObject({ ok: false, code: 'not_found' })
+    expect(doc.getMap('objects').has('a')).toBe(true)
+    doc.destroy()
+  })
+})
+
+describe('AI commands can be undone', () => {
+  it('returns a command ID that undoes the command', async () => {
+    const doc = new Y.Doc()
+    const objects = doc.getMap<BoardObject>('objects')
+    objects.set('existing', sticky('existing'))
+
+    const result = await processAICommand('Add a yellow sticky note that says Hello', doc, {
+      boardId: 'undo-board',
+      requester: 'user:u1',
+    })
+    expect(result.commandId).toEqual(expect.any(String))
+    expect(objects.size).toBe(2)
+
+    remoteEdit(doc, (client) => client.getMap('objects').set('mine', sticky('mine')))
+    expect(aiUndo.undo('undo-board', result.commandId!, 'user:u1')).toEqual({ ok: true })
+    expect([...objects.keys()].sort()).toEqual(['existing', 'mine'])
+    expect(doc.getMap(TEXT_MAP).size).toBe(0)
+    doc.destroy()
+  })
+
+  it('has no command ID without a board or without changes', async () => {
+    const doc = new Y.Doc()
+    const unboarded = await processAICommand('Add a blue rectangle', doc)
+    expect(unboarded.commandId).toBeUndefined()
+
+    const nothing = await processAICommand('What is on this board?', doc, { boardId: 'undo-board' })
+    expect(nothing.actions.every((a) => a.tool === 'getBoardState')).toBe(true)
+    expect(nothing.commandId).toBeUndefined()
+    doc.destroy()
+  })
+
+  it('sends the command ID with the streamed done event', async () => {
+    const doc = new Y.Doc()
+    const events: AIStreamEvent[] = []
+    for await (const event of processAICommandStream('Add a blue rectangle', doc, {
+      boardId: 'undo-stream',
+      requester: 'guest:127.0.0.1',
+    })) {
+      events.push(event)
+    }
+    const done = events.find((e): e is AIStreamDoneEvent => e.type === 'done')!
+    expect(done.commandId).toEqual(expect.any(String))
+
+    expect(aiUndo.undo('undo-stream', done.commandId!, 'guest:127.0.0.1')).toEqual({ ok: true })
+    expect(doc.getMap('objects').size).toBe(0)
+    doc.destroy()
+  })
+})
@@ -8,12 +8,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 // Mock @clerk/backend before importing auth module
+const mockGetUser = vi.fn()
 vi.mock('@clerk/backend', () => ({
   verifyToken: vi.fn(),
+  createClerkClient: () => ({ users: { getUser: mockGetUser } }),
 }))
 
 import { verifyToken } from '@clerk/backend'
-import { authenticateRequest, type AuthUser } from '../auth.js'
+import { authenticateRequest, getUserDisplayName, type AuthUser } from '../auth.js'
 
 const mockVerifyToken = vi.mocked(verifyToken)
 
@@ -92,3 +94,38 @@ describe('authenticateRequest', () => {
     expect(result).toBeNull()
   })
 })
+
+describe('getUserDisplayName', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('prefers the full name, then username, then the email local part', async () => {
+    mockGetUser.mockResolvedValueOnce({ firstName: 'Ada', lastName: 'Lovelace', username: 'ada' })
+    expect(await getUserDisplayName('user_full')).toBe('Ada Lovelace')
+
+    mockGetUser.mockResolvedValueOnce({ firstName: null, lastName: null, username: 'grace' })
+    expect(await getUserDisplayName('user_username')).toBe('grace')
+
+    mockGetUser.mockResolvedValueOnce({
+      firstName: null, lastName: null, username: null,
+      primaryEmailAddress: { emailAddress: 'linus@example.com' },
+    })
+    expect(await getUserDisplayName('user_email')).toBe('linus')
+  })
+
+  it('caches successful lookups', async () => {
+    mockGetUser.mockResolvedValue({ firstName: 'Cached', lastName: null })
+    await getUserDisplayName('user_cached')
+    await getUserDisplayName('user_cached')
+    expect(mockGetUser).toHaveBeenCalledTimes(1)
+  })
+
+  it('returns null and retries later when the lookup fails', async () => {
+    mockGetUser.mockRejectedValueOnce(new Error('Clerk down'))
+    expect(await getUserDisplayName('user_flaky')).toBeNull()
+
+    mockGetUser.mockResolvedValueOnce({ firstName: 'Back', lastName: null })
+    expect(await getUserDisplayName('user_flaky')).toBe('Back')
+  })
+})
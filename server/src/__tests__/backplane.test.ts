@@ -0,0 +1,248 @@
+/**
+ * Backplane Tests
+ *
+ * Runs the same contract against both backplanes, with two instances
+ * standing in for two servers:
+ *  - messages reach other instances subscribed to the room, not the sender
+ *    and not other rooms; unsubscribing stops delivery
+ *  - Yjs docs on two instances converge through published updates
+ *  - one owner per room: the owner renews, others are refused until it
+ *    releases the room or its lease runs out
+ *
+ * Plus the message framing and backend selection from BACKPLANE.
+ * Redis is stood in for by an in-process broker that runs the lease
+ * scripts' logic.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as Y from 'yjs'
+
+import {
+  resolveBackplane,
+  encodeRoomMessage,
+  decodeRoomMessage,
+  type Backplane,
+  type RoomMessage,
+} from '../backplane/backplane.js'
+import { MemoryBackplane, MemoryHub } from '../backplane/memoryBackplane.js'
+import { RedisBackplane, CLAIM_SCRIPT, RELEASE_SCRIPT, type RedisClient } from '../backplane/redisBackplane.js'
+
+// ---------------------------------------------------------------------------
+// Fake Redis
+// ---------------------------------------------------------------------------
+
+/** Channels and keys shared by every FakeRedis connection. */
+class FakeBroker {
+  connections = new Set<FakeRedis>()
+  keys = new Map<string, { value: string; expiresAt: number }>()
+  now = 0
+}
+
+class FakeRedis implements RedisClient {
+  private channels = new Set<string>()
+  private listeners: Array<(channel: Buffer, message: Buffer) => void> = []
+
+  constructor(private broker: FakeBroker) {
+    broker.connections.add(this)
+  }
+
+  async publish(channel: string, message: Buffer): Promise<number> {
+    let received = 0
+    for (const connection of this.broker.connections) {
+      if (!connection.channels.has(channel)) continue
+      received++
+      queueMicrotask(() => connection.listeners.forEach((l) => l(Buffer.from(channel), Buffer.from(message))))
+    }
+    return received
+  }
+
+  async subscribe(channel: string): Promise<unknown> {
+    this.channels.add(channel)
+    return 1
+  }
+
+  async unsubscribe(channel: string): Promise<unknown> {
+    this.channels.delete(channel)
+    return 1
+  }
+
+  async eval(script: string, _numKeys: number, ...args: Array<string | number>): Promise<unknown> {
+    const [key, instanceId, ttl] = args as [string, string, number]
+    const current = this.broker.keys.get(key)
+    const owner = current && current.expiresAt > this.broker.now ? current.value : null
+    if (script === CLAIM_SCRIPT) {
+      if (owner !== null && owner !== instanceId) return 0
+      this.broker.keys.set(key, { value: instanceId, expiresAt: this.broker.now + ttl })
+      return 1
+    }
+    if (script === RELEASE_SCRIPT) {
+      if (owner !== instanceId) return 0
+      this.broker.keys.delete(key)
+      return 1
+    }
+    throw new Error('unknown script')
+  }
+
+  on(_event: 'messageBuffer', listener: (channel: Buffer, message: Buffer) => void): unknown {
+    this.listeners.push(listener)
+    return this
+  }
+
+  async quit(): Promise<unknown> {
+    this.broker.connections.delete(this)
+    return 'OK'
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Contract
+// ---------------------------------------------------------------------------
+
+interface Cluster {
+  a: Backplane
+  b: Backplane
+  /** Move the lease clock forward. */
+  advance(ms: number): void
+}
+
+const clusters: Array<[string, () => Cluster]> = [
+  ['memory', () => {
+    const hub = new MemoryHub()
+    let now = 0
+    const clock = () => now
+    return {
+      a: new MemoryBackplane(hub, clock),
+      b: new MemoryBackplane(hub, clock),
+      advance: (ms) => { now += ms },
+    }
+  }],
+  ['redis', () => {
+    const broker = new FakeBroker()
+    const instance = () => new RedisBackplane(new FakeRedis(broker), new FakeRedis(broker))
+    return { a: instance(), b: instance(), advance: (ms) => { broker.now += ms } }
+  }],
+]
+
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+function collect(backplane: Backplane, room: string): Promise<RoomMessage[]> {
+  const received: RoomMessage[] = []
+  return backplane.subscribe(room, (message) => received.push(message)).then(() => received)
+}
+
+describe.each(clusters)('%s backplane', (_name, makeCluster) => {
+  let cluster: Cluster
+
+  beforeEach(() => {
+    cluster = makeCluster()
+  })
+
+  afterEach(async () => {
+    await cluster.a.close()
+    await cluster.b.close()
+  })
+
+  it('delivers messages to other instances in the room, not back to the sender', async () => {
+    const atA = await collect(cluster.a, 'room-1')
+    const atB = await collect(cluster.b, 'room-1')
+
+    await cluster.a.publish('room-1', { kind: 'update', payload: new Uint8Array([1, 2, 3]) })
+    await flush()
+
+    expect(atB).toEqual([{ kind: 'update', payload: new Uint8Array([1, 2, 3]) }])
+    expect(atA).toEqual([])
+  })
+
+  it('keeps rooms apart and stops delivering after unsubscribe', async () => {
+    const atB = await collect(cluster.b, 'room-1')
+    await collect(cluster.a, 'room-2')
+
+    await cluster.a.publish('room-2', { kind: 'awareness', payload: new Uint8Array([1]) })
+    await flush()
+    expect(atB).toEqual([])
+
+    await cluster.b.unsubscribe('room-1')
+    await cluster.a.publish('room-1', { kind: 'sync', payload: new Uint8Array([0]) })
+    await flush()
+    expect(atB).toEqual([])
+  })
+
+  it('lets Yjs docs on two instances converge', async () => {
+    const docA = new Y.Doc()
+    const docB = new Y.Doc()
+    for (const [backplane, doc] of [[cluster.a, docA], [cluster.b, docB]] as const) {
+      await backplane.subscribe('room-1', (message) => Y.applyUpdate(doc, message.payload, backplane))
+      doc.on('update', (update: Uint8Array, origin: unknown) => {
+        if (origin !== backplane) backplane.publish('room-1', { kind: 'update', payload: update })
+      })
+    }
+
+    docA.getMap('objects').set('a', { id: 'a' })
+    docB.getMap('objects').set('b', { id: 'b' })
+    await flush()
+
+    expect(docA.getMap('objects').toJSON()).toEqual({ a: { id: 'a' }, b: { id: 'b' } })
+    expect(docB.getMap('objects').toJSON()).toEqual(docA.getMap('objects').toJSON())
+  })
+
+  it('elects one owner per room, renewed by the owner', async () => {
+    expect(await cluster.a.claimOwnership('room-1', 1000)).toBe(true)
+    expect(await cluster.b.claimOwnership('room-1', 1000)).toBe(false)
+    expect(await cluster.b.claimOwnership('room-2', 1000)).toBe(true)
+
+    // The owner's renewals keep the lease alive past the first TTL
+    cluster.advance(800)
+    expect(await cluster.a.claimOwnership('room-1', 1000)).toBe(true)
+    cluster.advance(800)
+    expect(await cluster.b.claimOwnership('room-1', 1000)).toBe(false)
+  })
+
+  it('hands a room over on release or when the lease runs out', async () => {
+    await cluster.a.claimOwnership('room-1', 1000)
+    await cluster.b.releaseOwnership('room-1') // not b's to release
+    expect(await cluster.b.claimOwnership('room-1', 1000)).toBe(false)
+
+    await cluster.a.releaseOwnership('room-1')
+    expect(await cluster.b.claimOwnership('room-1', 1000)).toBe(true)
+
+    // b stops renewing (e.g. it crashed)
+    cluster.advance(1001)
+    expect(await cluster.a.claimOwnership('room-1', 1000)).toBe(true)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Framing and selection
+// ---------------------------------------------------------------------------
+
+describe('room message framing', () => {
+  it('round-trips the sender, kind and payload', () => {
+    const framed = encodeRoomMessage('instance-1', { kind: 'sync', payload: new Uint8Array([9, 8]) })
+    expect(decodeRoomMessage(framed)).toEqual({
+      sender: 'instance-1',
+      message: { kind: 'sync', payload: new Uint8Array([9, 8]) },
+    })
+  })
+
+  it('round-trips access, close and drop notices', () => {
+    for (const kind of ['access', 'close', 'drop'] as const) {
+      const framed = encodeRoomMessage('instance-1', { kind, payload: new TextEncoder().encode('user_1') })
+      expect(decodeRoomMessage(framed)?.message.kind).toBe(kind)
+    }
+  })
+
+  it('rejects malformed frames', () => {
+    expect(decodeRoomMessage(new Uint8Array([5, 1]))).toBeNull()
+    expect(decodeRoomMessage(new Uint8Array([1, 0x61, 7, 0]))).toBeNull()
+  })
+})
+
+describe('resolveBackplane', () => {
+  it('uses BACKPLANE when set, else redis when REDIS_URL is set', () => {
+    expect(resolveBackplane({ BACKPLANE: 'memory', REDIS_URL: 'redis://x' })).toBe('memory')
+    expect(resolveBackplane({ REDIS_URL: 'redis://x' })).toBe('redis')
+    expect(resolveBackplane({})).toBe('memory')
+  })
+})
@@ -0,0 +1,321 @@
+/**
+ * Board Access Control Tests
+ *
+ * Tests per-board roles and invite links:
+ *  - role ranking (owner > editor > commenter > viewer)
+ *  - WebSocket access: only the guest sandbox is open without a token,
+ *    board rooms need a member token, other rooms (but the legacy default
+ *    room) are closed, and lookup failures are errors rather than denials
+ *  - member and invite REST handlers (owner-only management, expiry, no
+ *    downgrades, 500 on lookup failures)
+ *  - role checks on the versions API
+ *
+ * Uses the in-memory persistence backend and mocked auth.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as Y from 'yjs'
+
+vi.mock('../db/supabase.js', () => ({ supabase: null }))
+vi.mock('../auth.js', () => ({
+  authenticateRequest: vi.fn(),
+  authenticateToken: vi.fn(),
+  getUserDisplayName: vi.fn(),
+}))
+
+import { authenticateRequest, authenticateToken, getUserDisplayName } from '../auth.js'
+import { persistence } from '../db/persistence.js'
+import { hasRole, canEdit, resolveRoomAccess, isInviteExpired } from '../access.js'
+import {
+  handleListMembers,
+  handleSetMember,
+  handleRemoveMember,
+  handleCreateInvite,
+  handleAcceptInvite,
+} from '../routes/members.js'
+import { handleGetBoard } from '../routes/boards.js'
+import { handleListVersions, handleCreateVersion } from '../routes/versions.js'
+
+const mockAuth = vi.mocked(authenticateRequest)
+const mockAuthToken = vi.mocked(authenticateToken)
+const mockDisplayName = vi.mocked(getUserDisplayName)
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function fakeReq(): { headers: Record<string, string> } {
+  return { headers: { 'content-type': 'application/json' } } as never
+}
+
+function fakeRes() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: '',
+    writeHead(status: number, headers?: Record<string, string>) {
+      res.statusCode = status
+      if (headers) Object.assign(res.headers, headers)
+      return res
+    },
+    end(data?: string) {
+      res.body = data ?? ''
+      return res
+    },
+  }
+  return res
+}
+
+function as(userId: string | null) {
+  mockAuth.mockResolvedValue(userId ? { userId } : null)
+}
+
+// ---------------------------------------------------------------------------
+// Roles
+// ---------------------------------------------------------------------------
+
+describe('hasRole', () => {
+  it('ranks owner > editor > commenter > viewer', () => {
+    expect(hasRole('owner', 'editor')).toBe(true)
+    expect(hasRole('editor', 'editor')).toBe(true)
+    expect(hasRole('commenter', 'editor')).toBe(false)
+    expect(hasRole('viewer', 'commenter')).toBe(false)
+    expect(hasRole(null, 'viewer')).toBe(false)
+  })
+
+  it('only lets editors and owners write to the doc', () => {
+    expect(canEdit('owner')).toBe(true)
+    expect(canEdit('editor')).toBe(true)
+    expect(canEdit('commenter')).toBe(false)
+    expect(canEdit('viewer')).toBe(false)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// WebSocket access
+// ---------------------------------------------------------------------------
+
+describe('resolveRoomAccess', () => {
+  let boardId: string
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    boardId = (await persistence.createBoard('user_owner', 'Roadmap')).id
+    await persistence.setMember(boardId, 'user_viewer', 'viewer')
+    mockAuthToken.mockImplementation(async (token) => ({ userId: token.replace('token-', '') }))
+    mockDisplayName.mockImplementation(async (userId) => (userId === 'user_owner' ? 'Olivia Owner' : null))
+  })
+
+  it('keeps the guest sandbox open without a token', async () => {
+    expect(await resolveRoomAccess('guest-sandbox', null)).toEqual({ ok: true, access: { userId: null, name: null, role: 'editor' } })
+  })
+
+  it('rejects unauthenticated sockets from every other room', async () => {
+    const unauthenticated = { ok: false, code: 'unauthenticated' }
+    expect(await resolveRoomAccess('mvp-board-1', null)).toEqual(unauthenticated)
+    expect(await resolveRoomAccess(boardId, null)).toEqual(unauthenticated)
+    // An expired token is a sign-in problem, not a lack of access
+    mockAuthToken.mockResolvedValue(null)
+    expect(await resolveRoomAccess(boardId, 'expired')).toEqual(unauthenticated)
+  })
+
+  it('lets signed-in users into the legacy default room', async () => {
+    expect(await resolveRoomAccess('mvp-board-1', 'token-user_stranger')).toEqual({
+      ok: true, access: { userId: 'user_stranger', name: null, role: 'editor' },
+    })
+  })
+
+  it('rejects rooms that are not boards', async () => {
+    expect(await resolveRoomAccess('some-other-room', 'token-user_stranger')).toEqual({ ok: false, code: 'forbidden' })
+    expect(await resolveRoomAccess('00000000-0000-4000-8000-000000000000', 'token-user_owner')).toEqual({ ok: false, code: 'forbidden' })
+  })
+
+  it('fails rather than guessing when the board cannot be looked up', async () => {
+    const getBoard = vi.spyOn(persistence, 'getBoard').mockRejectedValueOnce(new Error('db down'))
+    await expect(resolveRoomAccess(boardId, 'token-user_owner')).rejects.toThrow('db down')
+    getBoard.mockRestore()
+
+    const getMember = vi.spyOn(persistence, 'getMember').mockRejectedValueOnce(new Error('db down'))
+    await expect(resolveRoomAccess(boardId, 'token-user_viewer')).rejects.toThrow('db down')
+    getMember.mockRestore()
+  })
+
+  it('rejects signed-in users who are not members', async () => {
+    expect(await resolveRoomAccess(boardId, 'token-user_stranger')).toEqual({ ok: false, code: 'forbidden' })
+  })
+
+  it('resolves owner and member roles with the verified name', async () => {
+    expect(await resolveRoomAccess(boardId, 'token-user_owner')).toEqual({
+      ok: true, access: { userId: 'user_owner', name: 'Olivia Owner', role: 'owner' },
+    })
+    expect(await resolveRoomAccess(boardId, 'token-user_viewer')).toEqual({
+      ok: true, access: { userId: 'user_viewer', name: null, role: 'viewer' },
+    })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Members & invites
+// ---------------------------------------------------------------------------
+
+describe('member and invite routes', () => {
+  let boardId: string
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    boardId = (await persistence.createBoard('user_owner', 'Roadmap')).id
+    await persistence.setMember(boardId, 'user_editor', 'editor')
+  })
+
+  it('returns 403 for users with no role on the board', async () => {
+    as('user_stranger')
+    const res = fakeRes()
+    await handleGetBoard(fakeReq() as never, res as never, boardId)
+    expect(res.statusCode).toBe(403)
+  })
+
+  it('returns the board with the caller role', async () => {
+    as('user_editor')
+    const res = fakeRes()
+    await handleGetBoard(fakeReq() as never, res as never, boardId)
+    expect(JSON.parse(res.body).board).toMatchObject({ id: boardId, role: 'editor' })
+  })
+
+  it('lets the owner grant and change roles', async () => {
+    as('user_owner')
+    const res = fakeRes()
+    await handleSetMember(fakeReq() as never, res as never, boardId, 'user_new', JSON.stringify({ role: 'commenter' }))
+    expect(res.statusCode).toBe(200)
+    expect(await persistence.getMember(boardId, 'user_new')).toMatchObject({ role: 'commenter' })
+
+    mockDisplayName.mockImplementation(async (userId) => (userId === 'user_new' ? 'Nia New' : null))
+    const listRes = fakeRes()
+    await handleListMembers(fakeReq() as never, listRes as never, boardId)
+    const list = JSON.parse(listRes.body)
+    expect(list.members.map((m: { user_id: string }) => m.user_id)).toEqual(['user_editor', 'user_new'])
+    expect(list.members.map((m: { name: string | null }) => m.name)).toEqual([null, 'Nia New'])
+    expect(list.owner_name).toBeNull()
+  })
+
+  it('rejects invalid roles and changes to the owner', async () => {
+    as('user_owner')
+    const badRole = fakeRes()
+    await handleSetMember(fakeReq() as never, badRole as never, boardId, 'user_new', JSON.stringify({ role: 'owner' }))
+    expect(badRole.statusCode).toBe(400)
+
+    const ownerRes = fakeRes()
+    await handleSetMember(fakeReq() as never, ownerRes as never, boardId, 'user_owner', JSON.stringify({ role: 'viewer' }))
+    expect(ownerRes.statusCode).toBe(400)
+  })
+
+  it('does not let editors manage members', async () => {
+    as('user_editor')
+    const res = fakeRes()
+    await handleSetMember(fakeReq() as never, res as never, boardId, 'user_new', JSON.stringify({ role: 'editor' }))
+    expect(res.statusCode).toBe(403)
+  })
+
+  it('lets members leave but not remove others', async () => {
+    await persistence.setMember(boardId, 'user_viewer', 'viewer')
+    as('user_editor')
+
+    const other = fakeRes()
+    await handleRemoveMember(fakeReq() as never, other as never, boardId, 'user_viewer')
+    expect(other.statusCode).toBe(403)
+
+    const self = fakeRes()
+    await handleRemoveMember(fakeReq() as never, self as never, boardId, 'user_editor')
+    expect(self.statusCode).toBe(200)
+    expect(await persistence.getMember(boardId, 'user_editor')).toBeNull()
+  })
+
+  it('creates an invite link that grants its role on accept', async () => {
+    as('user_owner')
+    const createRes = fakeRes()
+    await handleCreateInvite(fakeReq() as never, createRes as never, boardId, JSON.stringify({ role: 'viewer', expiresInHours: 24 }))
+    expect(createRes.statusCode).toBe(201)
+    const { invite } = JSON.parse(createRes.body)
+    expect(invite.token).toMatch(/^[A-Za-z0-9_-]{32}$/)
+    expect(new Date(invite.expires_at).getTime()).toBeGreaterThan(Date.now())
+
+    as('user_new')
+    const acceptRes = fakeRes()
+    expect(await handleAcceptInvite(fakeReq() as never, acceptRes as never, invite.token)).toEqual({ boardId, userId: 'user_new' })
+    expect(acceptRes.statusCode).toBe(200)
+    expect(JSON.parse(acceptRes.body)).toEqual({ boardId, role: 'viewer' })
+    expect(await persistence.getMember(boardId, 'user_new')).toMatchObject({ role: 'viewer' })
+  })
+
+  it('never downgrades an existing role on accept', async () => {
+    const invite = await persistence.createInvite(boardId, { token: 'view-link', role: 'viewer', createdBy: 'user_owner', expiresAt: null })
+
+    as('user_editor')
+    const res = fakeRes()
+    expect(await handleAcceptInvite(fakeReq() as never, res as never, invite.token)).toBeNull()
+    expect(JSON.parse(res.body).role).toBe('editor')
+    expect(await persistence.getMember(boardId, 'user_editor')).toMatchObject({ role: 'editor' })
+  })
+
+  it('rejects expired and unknown invites', async () => {
+    const expired = await persistence.createInvite(boardId, {
+      token: 'old-link', role: 'editor', createdBy: 'user_owner', expiresAt: '2020-01-01T00:00:00.000Z',
+    })
+    expect(isInviteExpired(expired)).toBe(true)
+
+    as('user_new')
+    const expiredRes = fakeRes()
+    await handleAcceptInvite(fakeReq() as never, expiredRes as never, expired.token)
+    expect(expiredRes.statusCode).toBe(410)
+
+    const unknownRes = fakeRes()
+    await handleAcceptInvite(fakeReq() as never, unknownRes as never, 'no-such-link')
+    expect(unknownRes.statusCode).toBe(404)
+  })
+
+  it('returns 500 when the invite or board lookup fails', async () => {
+    const invite = await persistence.createInvite(boardId, { token: 'flaky-link', role: 'editor', createdBy: 'user_owner', expiresAt: null })
+    as('user_new')
+
+    const inviteLookup = vi.spyOn(persistence, 'getInvite').mockRejectedValueOnce(new Error('connection failure'))
+    const inviteRes = fakeRes()
+    await handleAcceptInvite(fakeReq() as never, inviteRes as never, invite.token)
+    expect(inviteRes.statusCode).toBe(500)
+    inviteLookup.mockRestore()
+
+    const boardLookup = vi.spyOn(persistence, 'getBoard').mockRejectedValueOnce(new Error('connection failure'))
+    const boardRes = fakeRes()
+    expect(await handleAcceptInvite(fakeReq() as never, boardRes as never, invite.token)).toBeNull()
+    expect(boardRes.statusCode).toBe(500)
+    boardLookup.mockRestore()
+    expect(await persistence.getMember(boardId, 'user_new')).toBeNull()
+  })
+
+  it('rejects invite expiry outside the allowed range', async () => {
+    as('user_owner')
+    const res = fakeRes()
+    await handleCreateInvite(fakeReq() as never, res as never, boardId, JSON.stringify({ role: 'viewer', expiresInHours: -1 }))
+    expect(res.statusCode).toBe(400)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Versions API
+// ---------------------------------------------------------------------------
+
+describe('version route roles', () => {
+  it('lets viewers list versions but not create them', async () => {
+    vi.clearAllMocks()
+    const boardId = (await persistence.createBoard('user_owner', 'Roadmap')).id
+    await persistence.setMember(boardId, 'user_viewer', 'viewer')
+    const doc = new Y.Doc()
+    as('user_viewer')
+
+    const listRes = fakeRes()
+    await handleListVersions(fakeReq() as never, listRes as never, boardId)
+    expect(listRes.statusCode).toBe(200)
+
+    const createRes = fakeRes()
+    await handleCreateVersion(fakeReq() as never, createRes as never, boardId, JSON.stringify({ name: 'Mine' }), async () => doc)
+    expect(createRes.statusCode).toBe(403)
+  })
+})
@@ -0,0 +1,213 @@
+/**
+ * Board Discovery Tests
+ *
+ * Tests how the dashboard finds boards:
+ *  - search text is extracted from every object and refreshed on save
+ *  - GET /api/boards searches names and board text, sorts, filters by
+ *    folder and favorites, and paginates
+ *  - PATCH /api/boards/:id/preferences stores favorites and folders per user
+ *
+ * Uses the in-memory persistence backend and mocked auth.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as Y from 'yjs'
+
+vi.mock('../db/supabase.js', () => ({ supabase: null }))
+vi.mock('../auth.js', () => ({
+  authenticateRequest: vi.fn(),
+  authenticateToken: vi.fn(),
+  getUserDisplayName: vi.fn(),
+}))
+
+import { authenticateRequest, getUserDisplayName } from '../auth.js'
+import { persistence } from '../db/persistence.js'
+import { boardSearchText, saveBoardSearchText } from '../boardSearch.js'
+import { writeObject } from '../objectText.js'
+import { handleListBoards, handleSetBoardPreference, MAX_PAGE_SIZE } from '../routes/boards.js'
+import type { BoardObject } from '../../../shared/types.js'
+
+const mockAuth = vi.mocked(authenticateRequest)
+const mockDisplayName = vi.mocked(getUserDisplayName)
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function fakeRes() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: '',
+    writeHead(status: number, headers?: Record<string, string>) {
+      res.statusCode = status
+      if (headers) Object.assign(res.headers, headers)
+      return res
+    },
+    end(data?: string) {
+      res.body = data ?? ''
+      return res
+    },
+  }
+  return res
+}
+
+function sticky(id: string, text: string): BoardObject {
+  return { id, type: 'sticky', x: 0, y: 0, width: 200, height: 150, fill: '#FFEB3B', text }
+}
+
+/** GET /api/boards as `userId`; returns status and parsed body. */
+async function list(userId: string, query = '') {
+  mockAuth.mockResolvedValue({ userId })
+  const res = fakeRes()
+  await handleListBoards({} as never, res as never, new URLSearchParams(query))
+  return { status: res.statusCode, ...JSON.parse(res.body) }
+}
+
+async function setPreference(userId: string, boardId: string, body: unknown) {
+  mockAuth.mockResolvedValue({ userId })
+  const res = fakeRes()
+  await handleSetBoardPreference({} as never, res as never, boardId, JSON.stringify(body))
+  return { status: res.statusCode, ...JSON.parse(res.body) }
+}
+
+/** Create boards in order, each edited a moment after the last. */
+async function createBoards(ownerId: string, names: string[]) {
+  const ids: string[] = []
+  for (const name of names) {
+    await new Promise((resolve) => setTimeout(resolve, 2))
+    ids.push((await persistence.createBoard(ownerId, name)).id)
+  }
+  return ids
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// ---------------------------------------------------------------------------
+// Search index
+// ---------------------------------------------------------------------------
+
+describe('boardSearchText', () => {
+  it('collects object text one line per object', () => {
+    const text = boardSearchText([
+      sticky('a', 'Buy  oat\nmilk'),
+      { id: 'r', type: 'rect', x: 0, y: 0, width: 10, height: 10, fill: '#000' },
+      { id: 'f', type: 'frame', x: 0, y: 0, width: 10, height: 10, fill: 'transparent', text: 'Sprint 12' },
+    ])
+    expect(text).toBe('Buy oat milk\nSprint 12')
+  })
+
+  it('indexes collaborative text on save and skips rooms without a board', async () => {
+    const [boardId] = await createBoards('user_index', ['Indexed'])
+    const doc = new Y.Doc()
+    writeObject(doc.getMap<BoardObject>('objects'), sticky('s', 'Zebra crossing'))
+
+    await saveBoardSearchText(boardId, doc)
+    await saveBoardSearchText('guest-sandbox', doc)
+    expect(await persistence.searchBoardText('zebra', [boardId, 'guest-sandbox'])).toEqual([boardId])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// GET /api/boards
+// ---------------------------------------------------------------------------
+
+describe('GET /api/boards', () => {
+  it('searches board names and board text', async () => {
+    const [roadmap, retro, other] = await createBoards('user_search', ['Roadmap 2026', 'Retro', 'Roadmap (old)'])
+    await persistence.saveSearchText(retro, 'Action item: fix the ROADMAP review')
+    await persistence.saveSearchText(other, 'nothing here')
+
+    const byName = await list('user_search', 'q=roadmap')
+    expect(byName.boards.map((b: { id: string }) => b.id)).toEqual([other, retro, roadmap])
+
+    const byText = await list('user_search', 'q=action item')
+    expect(byText.boards.map((b: { id: string }) => b.id)).toEqual([retro])
+    expect(byText.total).toBe(1)
+  })
+
+  it('sorts by last edited, name, creation and owner', async () => {
+    const [beta] = await createBoards('user_sort', ['beta', 'Alpha'])
+    const [shared] = await createBoards('user_other', ['Gamma'])
+    await persistence.setMember(shared, 'user_sort', 'editor')
+    // Editing beta makes it the most recent
+    await new Promise((resolve) => setTimeout(resolve, 2))
+    await persistence.saveThumbnail(beta, new Uint8Array([1]))
+    mockDisplayName.mockImplementation(async (id) => (id === 'user_sort' ? 'Zoe' : 'Adam'))
+
+    const names = async (sort: string) =>
+      (await list('user_sort', `sort=${sort}`)).boards.map((b: { name: string }) => b.name)
+    expect(await names('updated')).toEqual(['beta', 'Gamma', 'Alpha'])
+    expect(await names('created')).toEqual(['Gamma', 'Alpha', 'beta'])
+    expect(await names('name')).toEqual(['Alpha', 'beta', 'Gamma'])
+    expect(await names('owner')).toEqual(['Gamma', 'beta', 'Alpha'])
+
+    const byOwner = await list('user_sort', 'sort=owner')
+    expect(byOwner.boards[0]).toMatchObject({ name: 'Gamma', owner_name: 'Adam' })
+  })
+
+  it('paginates with limit and offset', async () => {
+    await createBoards('user_pages', ['One', 'Two', 'Three', 'Four', 'Five'])
+
+    const first = await list('user_pages', 'limit=2')
+    expect(first.boards.map((b: { name: string }) => b.name)).toEqual(['Five', 'Four'])
+    expect(first).toMatchObject({ total: 5, offset: 0, limit: 2 })
+
+    const last = await list('user_pages', 'limit=2&offset=4')
+    expect(last.boards.map((b: { name: string }) => b.name)).toEqual(['One'])
+  })
+
+  it('rejects bad sorts and page sizes', async () => {
+    expect((await list('user_pages', 'sort=random')).status).toBe(400)
+    expect((await list('user_pages', `limit=${MAX_PAGE_SIZE + 1}`)).status).toBe(400)
+    expect((await list('user_pages', 'offset=-1')).status).toBe(400)
+  })
+
+  it('filters by folder and favorites, listing the caller\'s folders', async () => {
+    const [plan, notes, misc] = await createBoards('user_org', ['Plan', 'Notes', 'Misc'])
+    await setPreference('user_org', plan, { folder: 'Work', favorite: true })
+    await setPreference('user_org', notes, { folder: 'Personal' })
+
+    const all = await list('user_org')
+    expect(all.folders).toEqual(['Personal', 'Work'])
+    expect(all.boards.find((b: { id: string }) => b.id === plan)).toMatchObject({ favorite: true, folder: 'Work' })
+    expect(all.boards.find((b: { id: string }) => b.id === misc)).toMatchObject({ favorite: false, folder: null })
+
+    expect((await list('user_org', 'folder=Work')).boards.map((b: { id: string }) => b.id)).toEqual([plan])
+    expect((await list('user_org', 'favorites=true')).boards.map((b: { id: string }) => b.id)).toEqual([plan])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// PATCH /api/boards/:id/preferences
+// ---------------------------------------------------------------------------
+
+describe('PATCH /api/boards/:id/preferences', () => {
+  it('keeps each user\'s favorites and folders separate', async () => {
+    const [boardId] = await createBoards('user_pref_owner', ['Shared'])
+    await persistence.setMember(boardId, 'user_pref_viewer', 'viewer')
+
+    const starred = await setPreference('user_pref_viewer', boardId, { favorite: true, folder: '  Reading  ' })
+    expect(starred.status).toBe(200)
+    expect(starred.preference).toMatchObject({ favorite: true, folder: 'Reading' })
+
+    const [viewerBoard] = (await list('user_pref_viewer')).boards
+    const [ownerBoard] = (await list('user_pref_owner')).boards
+    expect(viewerBoard).toMatchObject({ favorite: true, folder: 'Reading' })
+    expect(ownerBoard).toMatchObject({ favorite: false, folder: null })
+
+    const unfiled = await setPreference('user_pref_viewer', boardId, { folder: '' })
+    expect(unfiled.preference).toMatchObject({ favorite: true, folder: null })
+  })
+
+  it('validates the body and requires access', async () => {
+    const [boardId] = await createBoards('user_pref_check', ['Checked'])
+
+    expect((await setPreference('user_pref_check', boardId, { favorite: 'yes' })).status).toBe(400)
+    expect((await setPreference('user_pref_check', boardId, { folder: 'x'.repeat(65) })).status).toBe(400)
+    expect((await setPreference('user_pref_check', boardId, {})).status).toBe(400)
+    expect((await setPreference('user_stranger', boardId, { favorite: true })).status).toBe(403)
+  })
+})
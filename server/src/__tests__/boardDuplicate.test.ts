@@ -0,0 +1,153 @@
+/**
+ * Board Duplication and Template Tests
+ *
+ * Tests:
+ *  - POST /api/boards/:id/duplicate copies the live doc (text included),
+ *    the thumbnail and the name, owned by the caller
+ *  - viewers can duplicate, strangers can't
+ *  - PUT/DELETE /api/boards/:id/template is owner-only, and
+ *    GET /api/boards?templates=true lists templates for the picker
+ *
+ * Uses the in-memory persistence backend and mocked auth.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as Y from 'yjs'
+
+vi.mock('../db/supabase.js', () => ({ supabase: null }))
+vi.mock('../auth.js', () => ({
+  authenticateRequest: vi.fn(),
+  authenticateToken: vi.fn(),
+  getUserDisplayName: vi.fn(),
+}))
+
+import { authenticateRequest } from '../auth.js'
+import { persistence } from '../db/persistence.js'
+import { readObjects, writeObject } from '../objectText.js'
+import { handleDuplicateBoard, handleSetTemplate, handleListBoards } from '../routes/boards.js'
+import type { BoardObject } from '../../../shared/types.js'
+
+const mockAuth = vi.mocked(authenticateRequest)
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function fakeRes() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: '',
+    writeHead(status: number, headers?: Record<string, string>) {
+      res.statusCode = status
+      if (headers) Object.assign(res.headers, headers)
+      return res
+    },
+    end(data?: string) {
+      res.body = data ?? ''
+      return res
+    },
+  }
+  return res
+}
+
+/** Stands in for the server's room map. */
+const docs = new Map<string, Y.Doc>()
+async function getDoc(room: string): Promise<Y.Doc> {
+  let doc = docs.get(room)
+  if (!doc) {
+    doc = new Y.Doc()
+    docs.set(room, doc)
+  }
+  return doc
+}
+
+async function duplicate(userId: string, boardId: string, body = '') {
+  mockAuth.mockResolvedValue({ userId })
+  const res = fakeRes()
+  const newId = await handleDuplicateBoard({} as never, res as never, boardId, body, getDoc)
+  return { newId, status: res.statusCode, ...JSON.parse(res.body) }
+}
+
+async function setTemplate(userId: string, boardId: string, isTemplate: boolean) {
+  mockAuth.mockResolvedValue({ userId })
+  const res = fakeRes()
+  await handleSetTemplate({} as never, res as never, boardId, isTemplate)
+  return res.statusCode
+}
+
+async function sprintBoard(ownerId: string) {
+  const board = await persistence.createBoard(ownerId, 'Sprint planning')
+  const doc = await getDoc(board.id)
+  const objects = doc.getMap<BoardObject>('objects')
+  writeObject(objects, { id: 'f', type: 'frame', x: 0, y: 0, width: 800, height: 600, fill: 'transparent', text: 'Sprint' })
+  writeObject(objects, { id: 's', type: 'sticky', x: 20, y: 40, width: 200, height: 150, fill: '#FFEB3B', text: 'Goals', parentId: 'f' })
+  return board
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// ---------------------------------------------------------------------------
+// Duplicate
+// ---------------------------------------------------------------------------
+
+describe('POST /api/boards/:id/duplicate', () => {
+  it('copies the live board into a new board owned by the caller', async () => {
+    const source = await sprintBoard('user_dup_owner')
+    await persistence.saveThumbnail(source.id, new Uint8Array([9, 9]))
+    await persistence.setMember(source.id, 'user_dup_viewer', 'viewer')
+
+    const result = await duplicate('user_dup_viewer', source.id)
+    expect(result.status).toBe(201)
+    expect(result.board).toMatchObject({
+      id: result.newId, owner_id: 'user_dup_viewer', name: 'Sprint planning (copy)', role: 'owner', is_template: false,
+    })
+
+    const copy = readObjects((await getDoc(result.newId)).getMap<BoardObject>('objects'))
+    expect(copy.map((o) => [o.id, o.text])).toEqual([['f', 'Sprint'], ['s', 'Goals']])
+    expect(Array.from((await persistence.loadThumbnail(result.newId))!)).toEqual([9, 9])
+
+    // The copy is independent of the source
+    writeObject((await getDoc(result.newId)).getMap<BoardObject>('objects'), {
+      id: 's', type: 'sticky', x: 20, y: 40, width: 200, height: 150, fill: '#FFEB3B', text: 'Changed',
+    })
+    expect(readObjects((await getDoc(source.id)).getMap<BoardObject>('objects'))[1].text).toBe('Goals')
+  })
+
+  it('uses the requested name and rejects strangers', async () => {
+    const source = await sprintBoard('user_dup_named')
+    expect((await duplicate('user_dup_named', source.id, JSON.stringify({ name: ' Sprint 14 ' }))).board.name)
+      .toBe('Sprint 14')
+    expect((await duplicate('user_dup_stranger', source.id)).status).toBe(403)
+    expect((await duplicate('user_dup_named', source.id, '{oops')).status).toBe(400)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Templates
+// ---------------------------------------------------------------------------
+
+describe('board templates', () => {
+  it('lets only the owner mark a template, and lists templates for the picker', async () => {
+    const source = await sprintBoard('user_tpl_owner')
+    await persistence.createBoard('user_tpl_owner', 'Scratch')
+    await persistence.setMember(source.id, 'user_tpl_editor', 'editor')
+
+    expect(await setTemplate('user_tpl_editor', source.id, true)).toBe(403)
+    expect(await setTemplate('user_tpl_owner', source.id, true)).toBe(200)
+
+    mockAuth.mockResolvedValue({ userId: 'user_tpl_editor' })
+    const res = fakeRes()
+    await handleListBoards({} as never, res as never, new URLSearchParams('templates=true'))
+    expect(JSON.parse(res.body).boards.map((b: { name: string }) => b.name)).toEqual(['Sprint planning'])
+
+    // Starting from a template gives a normal board
+    const fromTemplate = await duplicate('user_tpl_editor', source.id, JSON.stringify({ name: 'Sprint planning' }))
+    expect(fromTemplate.board).toMatchObject({ is_template: false, owner_id: 'user_tpl_editor' })
+
+    expect(await setTemplate('user_tpl_owner', source.id, false)).toBe(200)
+    expect((await persistence.getBoard(source.id))!.is_template).toBe(false)
+  })
+})
@@ -0,0 +1,270 @@
+/**
+ * Board Export Tests
+ *
+ * Tests server-side rendering of boards:
+ *  - SVG output for every object type (arrowheads, rotation, escaping)
+ *  - frame-only exports
+ *  - text wrapping
+ *  - PNG/PDF produced from the SVG
+ *  - GET /api/boards/:id/export (format validation, roles, missing frames)
+ *  - dashboard thumbnails and GET /api/boards/:id/thumbnail
+ *
+ * Uses the in-memory persistence backend and mocked auth.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as Y from 'yjs'
+
+vi.mock('../db/supabase.js', () => ({ supabase: null }))
+vi.mock('../auth.js', () => ({
+  authenticateRequest: vi.fn(),
+  authenticateToken: vi.fn(),
+  getUserDisplayName: vi.fn(),
+}))
+
+import { authenticateRequest } from '../auth.js'
+import { persistence } from '../db/persistence.js'
+import { renderBoardSvg, selectExportObjects, wrapText, svgToPng, svgToPdf } from '../boardExport.js'
+import { handleExportBoard } from '../routes/export.js'
+import { renderThumbnail, saveBoardThumbnail, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT } from '../thumbnails.js'
+import { handleGetThumbnail } from '../routes/boards.js'
+import type { BoardObject } from '../../../shared/types.js'
+
+const mockAuth = vi.mocked(authenticateRequest)
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function obj(overrides: Partial<BoardObject> & Pick<BoardObject, 'id' | 'type'>): BoardObject {
+  return { x: 0, y: 0, width: 100, height: 100, fill: '#FFEB3B', ...overrides }
+}
+
+function fakeRes() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: '' as string | Buffer,
+    writeHead(status: number, headers?: Record<string, string>) {
+      res.statusCode = status
+      if (headers) Object.assign(res.headers, headers)
+      return res
+    },
+    end(data?: string | Buffer) {
+      res.body = data ?? ''
+      return res
+    },
+  }
+  return res
+}
+
+const board: BoardObject[] = [
+  obj({ id: 'frame-1', type: 'frame', x: 0, y: 0, width: 400, height: 300, fill: 'transparent', text: 'Sprint' }),
+  obj({ id: 'sticky-1', type: 'sticky', x: 20, y: 20, text: 'Ship <it> & celebrate', parentId: 'frame-1' }),
+  obj({ id: 'rect-1', type: 'rect', x: 200, y: 20, fill: '#42A5F5', rotation: 45 }),
+  obj({ id: 'circle-1', type: 'circle', x: 600, y: 0, fill: '#66BB6A', text: 'Outside' }),
+  obj({ id: 'text-1', type: 'text', x: 20, y: 200, width: 200, height: 40, fill: 'transparent', text: 'Title' }),
+  obj({ id: 'line-1', type: 'line', fill: '#374151', fromId: 'sticky-1', toId: 'circle-1' }),
+  obj({ id: 'line-2', type: 'line', x: 50, y: 250, fill: '#EF5350', points: [0, 0, 100, 0], arrowEnd: false }),
+]
+
+// ---------------------------------------------------------------------------
+// SVG
+// ---------------------------------------------------------------------------
+
+describe('renderBoardSvg', () => {
+  it('renders every object type', () => {
+    const { svg } = renderBoardSvg(board)
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg"/)
+    expect(svg).toContain('stroke-dasharray="8 4"')           // frame
+    expect(svg).toContain('>Sprint</text>')                     // frame label
+    expect(svg).toContain('filter="url(#sticky-shadow)"')       // sticky
+    expect(svg).toContain('<ellipse')                           // circle
+    expect(svg).toContain('>Title</tspan>')                     // text
+    expect(svg.match(/<line /g)).toHaveLength(2)                // both lines
+  })
+
+  it('escapes user text', () => {
+    const { svg } = renderBoardSvg(board)
+    expect(svg).toContain('Ship &lt;it&gt;')
+    expect(svg).toContain('>&amp;</tspan>')
+    expect(svg).not.toContain('<it>')
+  })
+
+  it('rotates shapes around their center', () => {
+    const { svg } = renderBoardSvg(board)
+    expect(svg).toContain('translate(200 20) rotate(45 50 50)')
+  })
+
+  it('draws arrowheads only when arrowEnd is not false', () => {
+    const { svg } = renderBoardSvg(board)
+    expect(svg.match(/<polygon /g)).toHaveLength(1)
+    expect(svg).toMatch(/<polygon points="600\.\d+,51\.\d+ /)  // tip on the circle's left edge
+  })
+
+  it('fits the viewBox to the content plus padding and frame label', () => {
+    const { width, height, svg } = renderBoardSvg([board[0]])
+    expect(width).toBe(400 + 64)
+    expect(height).toBe(300 + 20 + 64)
+    expect(svg).toContain('viewBox="-32 -52 464 384"')
+  })
+
+  it('renders an empty board', () => {
+    const { svg, width } = renderBoardSvg([])
+    expect(svg).toContain('</svg>')
+    expect(width).toBe(64)
+  })
+})
+
+describe('selectExportObjects', () => {
+  it('returns everything without a frame', () => {
+    expect(selectExportObjects(board)).toBe(board)
+  })
+
+  it('keeps the frame, its children and objects inside it', () => {
+    const ids = selectExportObjects(board, 'frame-1')!.map((o) => o.id)
+    // rect-1 pokes out of the frame once rotated; line-1 ends outside it
+    expect(ids).toEqual(['frame-1', 'sticky-1', 'text-1', 'line-2'])
+  })
+
+  it('returns null for unknown ids and non-frames', () => {
+    expect(selectExportObjects(board, 'nope')).toBeNull()
+    expect(selectExportObjects(board, 'sticky-1')).toBeNull()
+  })
+})
+
+describe('wrapText', () => {
+  it('wraps on word boundaries and keeps explicit newlines', () => {
+    // 14px font → ~7.7px per char → 10 chars in 80px
+    expect(wrapText('one two three four\nfive', 80, 14)).toEqual(['one two', 'three four', 'five'])
+  })
+
+  it('breaks words longer than a line', () => {
+    expect(wrapText('abcdefghijklmnop', 80, 14)).toEqual(['abcdefghij', 'klmnop'])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// PNG & PDF
+// ---------------------------------------------------------------------------
+
+describe('raster exports', () => {
+  it('produces a PNG at 2x', () => {
+    const rendered = renderBoardSvg(board)
+    const png = svgToPng(rendered)
+    expect(png.subarray(1, 4).toString()).toBe('PNG')
+    expect(png.readUInt32BE(16)).toBe(rendered.width * 2)
+  })
+
+  it('produces a single-page PDF', async () => {
+    const pdf = await svgToPdf(renderBoardSvg(board))
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// REST handler
+// ---------------------------------------------------------------------------
+
+describe('handleExportBoard', () => {
+  let boardId: string
+  const doc = new Y.Doc()
+  const getDoc = async () => doc
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    boardId = (await persistence.createBoard('user_owner', 'Q3 Roadmap!')).id
+    await persistence.setMember(boardId, 'user_viewer', 'viewer')
+    const objects = doc.getMap('objects')
+    doc.transact(() => {
+      objects.clear()
+      for (const o of board) objects.set(o.id, o)
+    })
+  })
+
+  it('lets viewers download an SVG', async () => {
+    mockAuth.mockResolvedValue({ userId: 'user_viewer' })
+    const res = fakeRes()
+    await handleExportBoard({} as never, res as never, boardId, new URLSearchParams('format=svg'), getDoc)
+    expect(res.statusCode).toBe(200)
+    expect(res.headers['Content-Type']).toBe('image/svg+xml')
+    expect(res.headers['Content-Disposition']).toBe('attachment; filename="Q3-Roadmap.svg"')
+    expect(String(res.body)).toContain('<ellipse')
+  })
+
+  it('exports a single frame', async () => {
+    mockAuth.mockResolvedValue({ userId: 'user_viewer' })
+    const res = fakeRes()
+    await handleExportBoard({} as never, res as never, boardId, new URLSearchParams('format=svg&frame=frame-1'), getDoc)
+    expect(String(res.body)).not.toContain('Outside')
+  })
+
+  it('rejects unknown formats and frames', async () => {
+    mockAuth.mockResolvedValue({ userId: 'user_viewer' })
+    const badFormat = fakeRes()
+    await handleExportBoard({} as never, badFormat as never, boardId, new URLSearchParams('format=gif'), getDoc)
+    expect(badFormat.statusCode).toBe(400)
+
+    const badFrame = fakeRes()
+    await handleExportBoard({} as never, badFrame as never, boardId, new URLSearchParams('format=png&frame=nope'), getDoc)
+    expect(badFrame.statusCode).toBe(404)
+  })
+
+  it('returns 403 for users with no role on the board', async () => {
+    mockAuth.mockResolvedValue({ userId: 'user_stranger' })
+    const res = fakeRes()
+    await handleExportBoard({} as never, res as never, boardId, new URLSearchParams('format=pdf'), getDoc)
+    expect(res.statusCode).toBe(403)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Thumbnails
+// ---------------------------------------------------------------------------
+
+describe('thumbnails', () => {
+  it('renders a fixed-size PNG whatever the board size', () => {
+    for (const objects of [board, [], [obj({ id: 'tall', type: 'rect', height: 5000 })]]) {
+      const png = renderThumbnail(objects)
+      expect(png.subarray(1, 4).toString()).toBe('PNG')
+      expect([png.readUInt32BE(16), png.readUInt32BE(20)]).toEqual([THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT])
+    }
+  })
+
+  it('saves a thumbnail for boards and bumps updated_at', async () => {
+    const created = await persistence.createBoard('user_owner', 'Thumbs')
+    const doc = new Y.Doc()
+    doc.getMap('objects').set('s', obj({ id: 's', type: 'sticky' }))
+
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await saveBoardThumbnail(created.id, doc)
+    expect(await persistence.loadThumbnail(created.id)).not.toBeNull()
+    expect((await persistence.getBoard(created.id))!.updated_at > created.updated_at).toBe(true)
+
+    // Rooms without a board row (dev, guest) are skipped
+    await saveBoardThumbnail('guest-sandbox', doc)
+    expect(await persistence.loadThumbnail('guest-sandbox')).toBeNull()
+  })
+
+  it('serves the thumbnail to anyone who can view the board', async () => {
+    const boardId = (await persistence.createBoard('user_owner', 'Served')).id
+    await persistence.setMember(boardId, 'user_viewer', 'viewer')
+
+    mockAuth.mockResolvedValue({ userId: 'user_viewer' })
+    const missing = fakeRes()
+    await handleGetThumbnail({} as never, missing as never, boardId)
+    expect(missing.statusCode).toBe(404)
+
+    await persistence.saveThumbnail(boardId, renderThumbnail(board))
+    const res = fakeRes()
+    await handleGetThumbnail({} as never, res as never, boardId)
+    expect(res.statusCode).toBe(200)
+    expect(res.headers['Content-Type']).toBe('image/png')
+    expect((res.body as Buffer).subarray(1, 4).toString()).toBe('PNG')
+
+    mockAuth.mockResolvedValue({ userId: 'user_stranger' })
+    const forbidden = fakeRes()
+    await handleGetThumbnail({} as never, forbidden as never, boardId)
+    expect(forbidden.statusCode).toBe(403)
+  })
+})
@@ -0,0 +1,246 @@
+/**
+ * Board JSON Import/Export Tests
+ *
+ * Tests the portable board file format:
+ *  - BoardObject validation (types, finite numbers, unknown fields stripped)
+ *  - schema version checks
+ *  - ID remapping of parentId/fromId/toId and offsets
+ *  - single-transaction writes and the per-board object limit
+ *  - export → import round trip through the REST handlers
+ *
+ * Uses the in-memory persistence backend and mocked auth.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as Y from 'yjs'
+
+vi.mock('../db/supabase.js', () => ({ supabase: null }))
+vi.mock('../auth.js', () => ({
+  authenticateRequest: vi.fn(),
+  authenticateToken: vi.fn(),
+  getUserDisplayName: vi.fn(),
+}))
+
+import { authenticateRequest } from '../auth.js'
+import { persistence } from '../db/persistence.js'
+import { validateBoardObject, MAX_OBJECT_DIMENSION, MAX_OBJECT_TEXT_LENGTH } from '../objectValidation.js'
+import { parseBoardDocument, remapObjects, writeObjects, IMPORT_ORIGIN } from '../boardJson.js'
+import { readObjects } from '../objectText.js'
+import { handleExportBoard } from '../routes/export.js'
+import { handleImportBoard, handleImportIntoBoard } from '../routes/import.js'
+import { MAX_OBJECTS_PER_BOARD } from '../security.js'
+import type { BoardObject } from '../../../shared/types.js'
+
+const mockAuth = vi.mocked(authenticateRequest)
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function fakeRes() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: '',
+    writeHead(status: number, headers?: Record<string, string>) {
+      res.statusCode = status
+      if (headers) Object.assign(res.headers, headers)
+      return res
+    },
+    end(data?: string) {
+      res.body = data ?? ''
+      return res
+    },
+  }
+  return res
+}
+
+const objects: BoardObject[] = [
+  { id: 'frame', type: 'frame', x: 0, y: 0, width: 400, height: 300, fill: 'transparent', text: 'Plan' },
+  { id: 'a', type: 'sticky', x: 20, y: 20, width: 150, height: 150, fill: '#FFEB3B', text: 'A', parentId: 'frame' },
+  { id: 'b', type: 'rect', x: 220, y: 20, width: 100, height: 80, fill: '#42A5F5' },
+  { id: 'ab', type: 'line', x: 0, y: 0, width: 1, height: 1, fill: '#374151', fromId: 'a', toId: 'b', points: [0, 0, 1, 1] },
+]
+
+function document(overrides: Record<string, unknown> = {}) {
+  return {
+    format: 'collabboard',
+    schemaVersion: 1,
+    exportedAt: '2026-01-01T00:00:00.000Z',
+    board: { id: 'old-board', name: 'Sprint plan', created_at: '', updated_at: '' },
+    objects,
+    ...overrides,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+describe('validateBoardObject', () => {
+  it('accepts every field of the shared type and strips unknown ones', () => {
+    const result = validateBoardObject({ ...objects[3], arrowEnd: false, rotation: 15, fontSize: 12, evil: '<script>' })
+    expect(result).toEqual({ ok: true, object: { ...objects[3], arrowEnd: false, rotation: 15, fontSize: 12 } })
+  })
+
+  it('rejects unknown types, missing fields and non-finite numbers', () => {
+    expect(validateBoardObject({ ...objects[1], type: 'hexagon' })).toMatchObject({ ok: false, error: expect.stringContaining('type') })
+    expect(validateBoardObject({ ...objects[1], fill: undefined })).toEqual({ ok: false, error: 'fill must be a string' })
+    expect(validateBoardObject({ ...objects[1], x: NaN })).toEqual({ ok: false, error: 'x must be a finite number' })
+    expect(validateBoardObject({ ...objects[1], width: -5 })).toMatchObject({ ok: false })
+    expect(validateBoardObject({ ...objects[3], points: [0, 0, 1] })).toMatchObject({ ok: false })
+    expect(validateBoardObject(null)).toEqual({ ok: false, error: 'must be an object' })
+  })
+
+  it('limits dimensions and text length', () => {
+    expect(validateBoardObject({ ...objects[1], width: MAX_OBJECT_DIMENSION })).toMatchObject({ ok: true })
+    expect(validateBoardObject({ ...objects[1], height: MAX_OBJECT_DIMENSION + 1 })).toEqual({
+      ok: false, error: `width and height must be at most ${MAX_OBJECT_DIMENSION}`,
+    })
+    expect(validateBoardObject({ ...objects[1], text: 'x'.repeat(MAX_OBJECT_TEXT_LENGTH + 1) })).toEqual({
+      ok: false, error: `text must be at most ${MAX_OBJECT_TEXT_LENGTH} characters`,
+    })
+  })
+})
+
+describe('parseBoardDocument', () => {
+  it('accepts a current document', () => {
+    const result = parseBoardDocument(document())
+    expect(result.ok && result.value.objects).toEqual(objects)
+  })
+
+  it('rejects foreign files and newer schema versions', () => {
+    expect(parseBoardDocument({ type: 'excalidraw' })).toMatchObject({ ok: false, error: expect.stringContaining('Not a CollabBoard') })
+    expect(parseBoardDocument(document({ schemaVersion: 99 }))).toMatchObject({ ok: false, error: expect.stringContaining('newer') })
+    expect(parseBoardDocument(document({ schemaVersion: 0 }))).toMatchObject({ ok: false })
+  })
+
+  it('names the first invalid object', () => {
+    const result = parseBoardDocument(document({ objects: [objects[0], { ...objects[1], y: 'top' }] }))
+    expect(result).toEqual({ ok: false, error: 'objects[1]: y must be a finite number' })
+  })
+
+  it('rejects duplicate ids', () => {
+    const result = parseBoardDocument(document({ objects: [objects[0], objects[0]] }))
+    expect(result).toMatchObject({ ok: false, error: expect.stringContaining('duplicate id') })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Remapping & writing
+// ---------------------------------------------------------------------------
+
+describe('remapObjects', () => {
+  it('assigns fresh ids and rewrites references', () => {
+    let n = 0
+    const remapped = remapObjects(objects, { x: 0, y: 0 }, () => `new-${n++}`)
+    expect(remapped.map((o) => o.id)).toEqual(['new-0', 'new-1', 'new-2', 'new-3'])
+    expect(remapped[1].parentId).toBe('new-0')
+    expect(remapped[3]).toMatchObject({ fromId: 'new-1', toId: 'new-2' })
+  })
+
+  it('shifts objects by the offset without touching relative line points', () => {
+    const remapped = remapObjects(objects, { x: 1000, y: -50 })
+    expect(remapped[1]).toMatchObject({ x: 1020, y: -30 })
+    expect(remapped[3].points).toEqual([0, 0, 1, 1])
+  })
+
+  it('drops references to objects that were not imported', () => {
+    const [line] = remapObjects([objects[3]])
+    expect(line.fromId).toBeUndefined()
+    expect(line.toId).toBeUndefined()
+  })
+})
+
+describe('writeObjects', () => {
+  it('writes everything in one transaction', () => {
+    const doc = new Y.Doc()
+    const origins: unknown[] = []
+    doc.on('update', (_u: Uint8Array, origin: unknown) => origins.push(origin))
+
+    expect(writeObjects(doc, objects)).toBe(true)
+    expect(origins).toEqual([IMPORT_ORIGIN])
+    expect(doc.getMap('objects').size).toBe(objects.length)
+  })
+
+  it('refuses imports that would exceed the object limit', () => {
+    const doc = new Y.Doc()
+    const map = doc.getMap('objects')
+    doc.transact(() => {
+      for (let i = 0; i < MAX_OBJECTS_PER_BOARD - 1; i++) map.set(`o${i}`, objects[2])
+    })
+    expect(writeObjects(doc, objects.slice(0, 2))).toBe(false)
+    expect(map.size).toBe(MAX_OBJECTS_PER_BOARD - 1)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// REST handlers
+// ---------------------------------------------------------------------------
+
+describe('import/export routes', () => {
+  const docs = new Map<string, Y.Doc>()
+  const getDoc = async (room: string) => {
+    if (!docs.has(room)) docs.set(room, new Y.Doc())
+    return docs.get(room)!
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    docs.clear()
+    mockAuth.mockResolvedValue({ userId: 'user_owner' })
+  })
+
+  it('round-trips a board through JSON export and import', async () => {
+    const source = await persistence.createBoard('user_owner', 'Sprint plan')
+    writeObjects(await getDoc(source.id), objects)
+
+    const exportRes = fakeRes()
+    await handleExportBoard({} as never, exportRes as never, source.id, new URLSearchParams('format=json'), getDoc)
+    expect(exportRes.headers['Content-Type']).toBe('application/json')
+    const file = JSON.parse(exportRes.body)
+    expect(file).toMatchObject({ format: 'collabboard', schemaVersion: 1, board: { id: source.id, name: 'Sprint plan' } })
+
+    const importRes = fakeRes()
+    const newId = await handleImportBoard({} as never, importRes as never, JSON.stringify({ document: file }), getDoc)
+    expect(importRes.statusCode).toBe(201)
+    const { board, imported } = JSON.parse(importRes.body)
+    expect(board).toMatchObject({ id: newId, name: 'Sprint plan', owner_id: 'user_owner', role: 'owner' })
+    expect(imported).toBe(4)
+
+    const copied = readObjects(docs.get(newId!)!.getMap('objects') as Y.Map<BoardObject>)
+    expect(copied.map((o) => o.text)).toEqual(['Plan', 'A', undefined, undefined])
+    expect(copied.some((o) => objects.some((orig) => orig.id === o.id))).toBe(false)
+  })
+
+  it('imports into an existing board at an offset', async () => {
+    const target = await persistence.createBoard('user_owner', 'Target')
+    const res = fakeRes()
+    await handleImportIntoBoard({} as never, res as never, target.id, JSON.stringify({ document: document(), offset: { x: 500, y: 0 } }), getDoc)
+    expect(res.statusCode).toBe(200)
+
+    const { ids } = JSON.parse(res.body)
+    const map = docs.get(target.id)!.getMap('objects') as Y.Map<BoardObject>
+    expect(map.get(ids[0])).toMatchObject({ type: 'frame', x: 500 })
+    expect(map.get(ids[3])).toMatchObject({ fromId: ids[1], toId: ids[2] })
+  })
+
+  it('rejects invalid documents with the validation error', async () => {
+    const target = await persistence.createBoard('user_owner', 'Target')
+    const res = fakeRes()
+    const bad = document({ objects: [{ ...objects[0], type: 'blob' }] })
+    await handleImportIntoBoard({} as never, res as never, target.id, JSON.stringify({ document: bad }), getDoc)
+    expect(res.statusCode).toBe(400)
+    expect(JSON.parse(res.body).error).toContain('objects[0]: type')
+    expect(docs.get(target.id)?.getMap('objects').size ?? 0).toBe(0)
+  })
+
+  it('requires editor access to import into a board', async () => {
+    const target = await persistence.createBoard('user_owner', 'Target')
+    await persistence.setMember(target.id, 'user_viewer', 'viewer')
+    mockAuth.mockResolvedValue({ userId: 'user_viewer' })
+    const res = fakeRes()
+    await handleImportIntoBoard({} as never, res as never, target.id, JSON.stringify({ document: document() }), getDoc)
+    expect(res.statusCode).toBe(403)
+  })
+})
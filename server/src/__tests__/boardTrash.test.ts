@@ -0,0 +1,174 @@
+/**
+ * Board Trash Tests
+ *
+ * Tests:
+ *  - DELETE /api/boards/:id moves the board to the owner's trash: it leaves
+ *    the dashboard and can't be opened, over REST or WebSocket
+ *  - GET /api/trash lists the caller's trashed boards with their purge date
+ *  - POST /api/trash/:id/restore and DELETE /api/trash/:id are owner-only
+ *  - sweepTrash purges boards whose retention has run out
+ *
+ * Uses the in-memory persistence backend and mocked auth.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as Y from 'yjs'
+
+vi.mock('../db/supabase.js', () => ({ supabase: null }))
+vi.mock('../auth.js', () => ({
+  authenticateRequest: vi.fn(),
+  authenticateToken: vi.fn(),
+  getUserDisplayName: vi.fn(),
+}))
+
+import { authenticateRequest } from '../auth.js'
+import { persistence } from '../db/persistence.js'
+import { resolveUserRoomAccess } from '../access.js'
+import { handleListBoards, handleGetBoard, handleDeleteBoard } from '../routes/boards.js'
+import { handleListTrash, handleRestoreBoard, handlePurgeBoard } from '../routes/trash.js'
+import { sweepTrash, TRASH_RETENTION_MS } from '../trash.js'
+
+const mockAuth = vi.mocked(authenticateRequest)
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function fakeRes() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: '',
+    writeHead(status: number, headers?: Record<string, string>) {
+      res.statusCode = status
+      if (headers) Object.assign(res.headers, headers)
+      return res
+    },
+    end(data?: string) {
+      res.body = data ?? ''
+      return res
+    },
+  }
+  return res
+}
+
+type Handler = (req: never, res: never, boardId: string) => Promise<void>
+
+/** Call a board handler as `userId`; returns status and parsed body. */
+async function call(handler: Handler, userId: string, boardId: string) {
+  mockAuth.mockResolvedValue({ userId })
+  const res = fakeRes()
+  await handler({} as never, res as never, boardId)
+  return { status: res.statusCode, ...JSON.parse(res.body) }
+}
+
+async function listTrash(userId: string) {
+  mockAuth.mockResolvedValue({ userId })
+  const res = fakeRes()
+  await handleListTrash({} as never, res as never)
+  return JSON.parse(res.body).boards as Array<{ id: string; purge_at: string }>
+}
+
+async function listBoardIds(userId: string) {
+  mockAuth.mockResolvedValue({ userId })
+  const res = fakeRes()
+  await handleListBoards({} as never, res as never)
+  return JSON.parse(res.body).boards.map((b: { id: string }) => b.id)
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// ---------------------------------------------------------------------------
+// Soft delete
+// ---------------------------------------------------------------------------
+
+describe('DELETE /api/boards/:id', () => {
+  it('moves the board to the trash and closes it to everyone', async () => {
+    const board = await persistence.createBoard('user_trash_owner', 'Roadmap')
+    await persistence.setMember(board.id, 'user_trash_editor', 'editor')
+    await persistence.save(board.id, new Y.Doc())
+
+    const deleted = await call(handleDeleteBoard, 'user_trash_owner', board.id)
+    expect(deleted.status).toBe(200)
+    expect(new Date(deleted.purge_at).getTime() - Date.now()).toBeGreaterThan(TRASH_RETENTION_MS - 60_000)
+
+    expect(await listBoardIds('user_trash_owner')).not.toContain(board.id)
+    expect(await listBoardIds('user_trash_editor')).not.toContain(board.id)
+    expect((await call(handleGetBoard, 'user_trash_editor', board.id)).status).toBe(404)
+    expect(await resolveUserRoomAccess(board.id, { userId: 'user_trash_editor' })).toBeNull()
+    expect((await call(handleDeleteBoard, 'user_trash_owner', board.id)).status).toBe(404)
+
+    // Nothing is gone yet
+    expect(await persistence.getMember(board.id, 'user_trash_editor')).not.toBeNull()
+    expect((await persistence.load(board.id)).snapshot).not.toBeNull()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Trash
+// ---------------------------------------------------------------------------
+
+describe('/api/trash', () => {
+  it('lists only the caller\'s trashed boards and restores them', async () => {
+    const kept = await persistence.createBoard('user_restore', 'Kept')
+    const binned = await persistence.createBoard('user_restore', 'Binned')
+    await persistence.setMember(binned.id, 'user_restore_editor', 'editor')
+    await call(handleDeleteBoard, 'user_restore', binned.id)
+
+    const trash = await listTrash('user_restore')
+    expect(trash.map((b) => b.id)).toEqual([binned.id])
+    expect(trash[0].purge_at).toEqual(expect.any(String))
+    expect(await listTrash('user_restore_editor')).toEqual([])
+
+    expect((await call(handleRestoreBoard, 'user_restore_editor', binned.id)).status).toBe(403)
+    expect((await call(handleRestoreBoard, 'user_restore', kept.id)).status).toBe(404)
+
+    const restored = await call(handleRestoreBoard, 'user_restore', binned.id)
+    expect(restored.status).toBe(200)
+    expect(restored.board).toMatchObject({ id: binned.id, deleted_at: null })
+    expect(await listBoardIds('user_restore_editor')).toContain(binned.id)
+    expect(await listTrash('user_restore')).toEqual([])
+  })
+
+  it('purges a trashed board for good, owner only', async () => {
+    const board = await persistence.createBoard('user_purge', 'Scratch')
+    await persistence.setMember(board.id, 'user_purge_editor', 'editor')
+
+    // Only boards already in the trash can be purged
+    expect((await call(handlePurgeBoard, 'user_purge', board.id)).status).toBe(404)
+    await call(handleDeleteBoard, 'user_purge', board.id)
+    expect((await call(handlePurgeBoard, 'user_purge_editor', board.id)).status).toBe(403)
+
+    expect((await call(handlePurgeBoard, 'user_purge', board.id)).status).toBe(200)
+    expect(await persistence.getBoard(board.id)).toBeNull()
+    expect(await persistence.getMember(board.id, 'user_purge_editor')).toBeNull()
+  })
+
+  it('returns 500 when the board lookup fails', async () => {
+    const lookup = vi.spyOn(persistence, 'getBoard').mockRejectedValueOnce(new Error('connection failure'))
+    expect((await call(handleRestoreBoard, 'user_restore', 'board-1')).status).toBe(500)
+    lookup.mockRestore()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Sweeper
+// ---------------------------------------------------------------------------
+
+describe('sweepTrash', () => {
+  it('purges boards trashed longer than the retention period', async () => {
+    const old = await persistence.createBoard('user_sweep', 'Old')
+    const recent = await persistence.createBoard('user_sweep', 'Recent')
+    const live = await persistence.createBoard('user_sweep', 'Live')
+    const now = new Date('2026-06-01T00:00:00.000Z')
+    await persistence.setBoardDeleted(old.id, new Date(now.getTime() - TRASH_RETENTION_MS).toISOString())
+    await persistence.setBoardDeleted(recent.id, new Date(now.getTime() - TRASH_RETENTION_MS + 1000).toISOString())
+
+    expect(await sweepTrash(now)).toEqual([old.id])
+    expect(await persistence.getBoard(old.id)).toBeNull()
+    expect(await persistence.getBoard(recent.id)).not.toBeNull()
+    expect(await persistence.getBoard(live.id)).not.toBeNull()
+  })
+})
@@ -2,10 +2,11 @@
  * Boards API Tests (TDD)
  *
  * Tests the board CRUD REST endpoints:
- *  - GET /api/boards — list all boards
+ *  - GET /api/boards — list the boards a user owns or is a member of
  *  - POST /api/boards — create a new board
  *  - PATCH /api/boards/:id — rename a board (owner only)
- *  - DELETE /api/boards/:id — delete a board (owner only)
+ *  - DELETE /api/boards/:id — move a board to the trash (owner only)
+ *  - board lookups: a missing board is null, a failed query throws
  *
  * Uses mocked Supabase client and auth middleware.
  */
@@ -36,6 +37,7 @@ import {
   handleRenameBoard,
   handleDeleteBoard,
 } from '../routes/boards.js'
+import { SupabaseAdapter } from '../db/adapters/supabaseAdapter.js'
 
 const mockAuth = vi.mocked(authenticateRequest)
 const mockFrom = vi.mocked(supabase!.from)
@@ -85,26 +87,61 @@ describe('handleListBoards', () => {
     expect(res.statusCode).toBe(401)
   })
 
-  it('returns all boards when authenticated', async () => {
+  it('asks the store for one page of the boards the user owns or is a member of, with their role', async () => {
     mockAuth.mockResolvedValue({ userId: 'user_1' })
 
+    // Most recently edited first, as the store returns them
     const boards = [
+      { id: 'board-2', owner_id: 'user_2', name: 'Shared Board', created_at: '2026-01-02', updated_at: '2026-01-02' },
       { id: 'board-1', owner_id: 'user_1', name: 'My Board', created_at: '2026-01-01', updated_at: '2026-01-01' },
-      { id: 'board-2', owner_id: 'user_2', name: 'Other Board', created_at: '2026-01-02', updated_at: '2026-01-02' },
     ]
-    mockFrom.mockReturnValue({
-      select: vi.fn().mockReturnValue({
-        order: vi.fn().mockResolvedValue({ data: boards, error: null }),
-      }),
-    } as never)
+    const memberships = [
+      { board_id: 'board-2', user_id: 'user_1', role: 'viewer', created_at: '2026-01-02' },
+    ]
+    const calls: Array<[string, ...unknown[]]> = []
+    const query: Record<string, unknown> = {
+      then: (resolve: (value: unknown) => void) => resolve({ data: boards, error: null, count: 7 }),
+    }
+    for (const method of ['select', 'or', 'is', 'in', 'eq', 'order', 'range']) {
+      query[method] = (...args: unknown[]) => {
+        calls.push([method, ...args])
+        return query
+      }
+    }
+    mockFrom.mockImplementation((table: string) => {
+      if (table === 'board_preferences') {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockResolvedValue({ data: [], error: null }),
+          }),
+        } as never
+      }
+      if (table === 'board_members') {
+        return {
+          select: vi.fn().mockReturnValue({
+            eq: vi.fn().mockResolvedValue({ data: memberships, error: null }),
+          }),
+        } as never
+      }
+      return query as never
+    })
 
     const res = fakeRes()
-    await handleListBoards(fakeReq() as never, res as never)
+    await handleListBoards(fakeReq() as never, res as never, new URLSearchParams('limit=2&offset=4'))
 
     expect(res.statusCode).toBe(200)
     const parsed = JSON.parse(res.body)
-    expect(parsed.boards).toHaveLength(2)
-    expect(parsed.boards[0].name).toBe('My Board')
+    expect(parsed.total).toBe(7)
+    expect(parsed.boards[0]).toMatchObject({ name: 'Shared Board', role: 'viewer' })
+    expect(parsed.boards[1]).toMatchObject({ name: 'My Board', role: 'owner' })
+    expect(calls).toEqual([
+      ['select', '*', { count: 'exact' }],
+      ['or', 'owner_id.eq."user_1",id.in.(board-2)'],
+      ['is', 'deleted_at', null],
+      ['order', 'updated_at', { ascending: false }],
+      ['order', 'id', { ascending: true }],
+      ['range', 4, 5],
+    ])
   })
 })
 
@@ -235,6 +272,22 @@ describe('handleRenameBoard', () => {
 
     expect(res.statusCode).toBe(403)
   })
+
+  it('returns 500 when the board lookup fails', async () => {
+    mockAuth.mockResolvedValue({ userId: 'user_1' })
+    mockFrom.mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          single: vi.fn().mockResolvedValue({ data: null, error: { code: '08006', message: 'connection failure' } }),
+        }),
+      }),
+    } as never)
+
+    const res = fakeRes()
+    await handleRenameBoard(fakeReq() as never, res as never, 'board-1', JSON.stringify({ name: 'Renamed' }))
+
+    expect(res.statusCode).toBe(500)
+  })
 })
 
 // ---------------------------------------------------------------------------
@@ -252,36 +305,35 @@ describe('handleDeleteBoard', () => {
     expect(res.statusCode).toBe(401)
   })
 
-  it('deletes board when user is owner', async () => {
+  it('moves the board to the trash when user is owner', async () => {
     mockAuth.mockResolvedValue({ userId: 'user_1' })
 
     // Check ownership
     const selectMock = vi.fn().mockReturnValue({
       eq: vi.fn().mockReturnValue({
-        single: vi.fn().mockResolvedValue({ data: { id: 'board-1', owner_id: 'user_1' }, error: null }),
+        single: vi.fn().mockResolvedValue({ data: { id: 'board-1', owner_id: 'user_1', deleted_at: null }, error: null }),
       }),
     })
-    // Delete board
-    const deleteMock = vi.fn().mockReturnValue({
-      eq: vi.fn().mockResolvedValue({ error: null }),
-    })
-    // Delete snapshot
-    const deleteSnapshotMock = vi.fn().mockReturnValue({
+    // Stamp deleted_at — nothing is deleted yet
+    const updateMock = vi.fn().mockReturnValue({
       eq: vi.fn().mockResolvedValue({ error: null }),
     })
+    const deleteMock = vi.fn()
 
     let callCount = 0
     mockFrom.mockImplementation(() => {
       callCount++
       if (callCount === 1) return { select: selectMock } as never
-      if (callCount === 2) return { delete: deleteSnapshotMock } as never
-      return { delete: deleteMock } as never
+      return { update: updateMock, delete: deleteMock } as never
     })
 
     const res = fakeRes()
     await handleDeleteBoard(fakeReq() as never, res as never, 'board-1')
 
     expect(res.statusCode).toBe(200)
+    expect(updateMock).toHaveBeenCalledWith({ deleted_at: expect.any(String) })
+    expect(deleteMock).not.toHaveBeenCalled()
+    expect(JSON.parse(res.body).purge_at).toEqual(expect.any(String))
   })
 
   it('returns 403 when user is not owner', async () => {
@@ -300,4 +352,78 @@ describe('handleDeleteBoard', () => {
 
     expect(res.statusCode).toBe(403)
   })
+
+  it('returns 500 when the board lookup fails', async () => {
+    mockAuth.mockResolvedValue({ userId: 'user_1' })
+    mockFrom.mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          single: vi.fn().mockResolvedValue({ data: null, error: { code: '08006', message: 'connection failure' } }),
+        }),
+      }),
+    } as never)
+
+    const res = fakeRes()
+    await handleDeleteBoard(fakeReq() as never, res as never, 'board-1')
+
+    expect(res.statusCode).toBe(500)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Tests: SupabaseAdapter.getBoard
+// ---------------------------------------------------------------------------
+
+describe('SupabaseAdapter.getBoard', () => {
+  beforeEach(() => vi.clearAllMocks())
+
+  function mockLookup(result: { data: unknown; error: { code: string; message: string } | null }) {
+    mockFrom.mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({ single: vi.fn().mockResolvedValue(result) }),
+      }),
+    } as never)
+  }
+
+  it('returns null for a missing board or a room that is not a board', async () => {
+    const adapter = new SupabaseAdapter()
+    mockLookup({ data: null, error: { code: 'PGRST116', message: 'no rows' } })
+    expect(await adapter.getBoard('6f1c1e1e-0000-4000-8000-000000000000')).toBeNull()
+    mockLookup({ data: null, error: { code: '22P02', message: 'invalid input syntax for type uuid' } })
+    expect(await adapter.getBoard('mvp-board-1')).toBeNull()
+  })
+
+  it('throws when the lookup fails', async () => {
+    mockLookup({ data: null, error: { code: '08006', message: 'connection failure' } })
+    await expect(new SupabaseAdapter().getBoard('board-1')).rejects.toThrow('connection failure')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Tests: SupabaseAdapter member, invite and version lookups
+// ---------------------------------------------------------------------------
+
+describe('SupabaseAdapter member, invite and version lookups', () => {
+  beforeEach(() => vi.clearAllMocks())
+
+  function mockLookup(result: { data: unknown; error: { code: string; message: string } | null }) {
+    const query = { select: () => query, eq: () => query, single: () => Promise.resolve(result) }
+    mockFrom.mockReturnValue(query as never)
+  }
+
+  it('returns null when there is no such row', async () => {
+    const adapter = new SupabaseAdapter()
+    mockLookup({ data: null, error: { code: 'PGRST116', message: 'no rows' } })
+    expect(await adapter.getMember('board-1', 'user_1')).toBeNull()
+    expect(await adapter.getInvite('link')).toBeNull()
+    expect(await adapter.loadVersion('board-1', 'version-1')).toBeNull()
+  })
+
+  it('throws when the lookup fails, so an outage is not mistaken for no access', async () => {
+    const adapter = new SupabaseAdapter()
+    mockLookup({ data: null, error: { code: '08006', message: 'connection failure' } })
+    await expect(adapter.getMember('board-1', 'user_1')).rejects.toThrow('connection failure')
+    await expect(adapter.getInvite('link')).rejects.toThrow('connection failure')
+    await expect(adapter.loadVersion('board-1', 'version-1')).rejects.toThrow('connection failure')
+  })
 })
@@ -9,7 +9,9 @@
  *  - match(): finds a matching recipe for a new command
  *  - replay(): executes cached tool calls with substituted params
  *  - normalizeIntent(): extracts command intent from user message
- *  - templatizeActions(): converts literal tool inputs to templates
+ *  - templatizeActions(): converts literal tool inputs to templates,
+ *    including nested inputs and references to objects created earlier,
+ *    and refuses sequences that touch objects they didn't create
  */
 
 import { describe, it, expect, beforeEach } from 'vitest'
@@ -123,7 +125,7 @@ describe('templatizeActions', () => {
       },
     ]
     const params = { color: 'yellow', colorHex: '#FFD700', text: 'Hello' }
-    const templates = templatizeActions(actions, params)
+    const templates = templatizeActions(actions, params)!
 
     expect(templates[0].inputTemplate.fill).toBe('${colorHex}')
     expect(templates[0].inputTemplate.text).toBe('${text}')
@@ -139,7 +141,7 @@ describe('templatizeActions', () => {
       },
     ]
     const params = { x: 300, y: 400, color: 'blue', colorHex: '#87CEEB' }
-    const templates = templatizeActions(actions, params)
+    const templates = templatizeActions(actions, params)!
 
     expect(templates[0].inputTemplate.x).toBe('${x}')
     expect(templates[0].inputTemplate.y).toBe('${y}')
@@ -160,7 +162,7 @@ describe('templatizeActions', () => {
       },
     ]
     const params = { colorHex: '#FFD700' }
-    const templates = templatizeActions(actions, params)
+    const templates = templatizeActions(actions, params)!
 
     expect(templates).toHaveLength(2)
     expect(templates[0].inputTemplate.fill).toBe('${colorHex}')
@@ -176,7 +178,7 @@ describe('templatizeActions', () => {
       },
     ]
     const params = { text: 'My Frame' }
-    const templates = templatizeActions(actions, params)
+    const templates = templatizeActions(actions, params)!
 
     expect(templates[0].inputTemplate.width).toBe(400)
     expect(templates[0].inputTemplate.height).toBe(300)
@@ -184,6 +186,52 @@ describe('templatizeActions', () => {
   })
 })
 
+describe('templatizeActions — bulk and layout tools', () => {
+  it('replaces IDs of objects created earlier in the sequence with ${ref:N}', () => {
+    const actions: ToolAction[] = [
+      { tool: 'createObject', input: { type: 'rect', x: 100, y: 100 }, result: '{"success":true,"id":"a"}' },
+      { tool: 'createObject', input: { type: 'rect', x: 400, y: 100 }, result: '{"success":true,"id":"b"}' },
+      { tool: 'connectObjects', input: { fromId: 'a', toId: 'b' }, result: '{"success":true,"id":"line-1"}' },
+      { tool: 'alignObjects', input: { ids: ['a', 'b'], alignment: 'top' }, result: '{"success":true}' },
+      { tool: 'deleteObjects', input: { ids: ['line-1'] }, result: '{"success":true}' },
+    ]
+    const templates = templatizeActions(actions, {})!
+
+    expect(templates[2].inputTemplate).toEqual({ fromId: '${ref:0}', toId: '${ref:1}' })
+    expect(templates[3].inputTemplate.ids).toEqual(['${ref:0}', '${ref:1}'])
+    expect(templates[4].inputTemplate.ids).toEqual(['${ref:2}'])
+  })
+
+  it('returns null when an action refers to an object the sequence did not create', () => {
+    const created: ToolAction = { tool: 'createObject', input: { type: 'rect', x: 100, y: 100 }, result: '{"success":true,"id":"a"}' }
+    expect(templatizeActions([
+      created,
+      { tool: 'alignObjects', input: { ids: ['a', 'existing'], alignment: 'top' }, result: '{"success":true}' },
+    ], {})).toBeNull()
+    expect(templatizeActions([
+      { tool: 'createObject', input: { type: 'sticky', x: 0, y: 0, parentId: 'frame-1' }, result: '{"success":true,"id":"b"}' },
+    ], {})).toBeNull()
+    expect(templatizeActions([
+      { tool: 'updateObject', input: { id: 'a', fill: '#87CEEB' }, result: '{"success":true}' },
+      created,
+    ], {})).toBeNull()
+  })
+
+  it('templatizes the nested filter and changes of updateObjectsByFilter', () => {
+    const actions: ToolAction[] = [{
+      tool: 'updateObjectsByFilter',
+      input: { filter: { type: 'sticky', textContains: 'todo' }, changes: { fill: '#87CEEB', width: 250 } },
+      result: '{"success":true}',
+    }]
+    const templates = templatizeActions(actions, { colorHex: '#87CEEB' })!
+
+    expect(templates[0].inputTemplate).toEqual({
+      filter: { type: 'sticky', textContains: 'todo' },
+      changes: { fill: '${colorHex}', width: 250 },
+    })
+  })
+})
+
 // ---------------------------------------------------------------------------
 // CommandCache tests
 // ---------------------------------------------------------------------------
@@ -229,6 +277,25 @@ describe('CommandCache', () => {
       expect(recipe.intentKey).toBe('create_sticky')
     })
 
+    it('does not store recipes that act on objects already on the board', () => {
+      cache.learn(
+        'Change the sticky note color to blue',
+        [{ tool: 'updateObject', input: { id: 'x', fill: '#87CEEB' }, result: '{"success":true}' }],
+        'Changed the color.',
+      )
+      cache.learn(
+        'Move the sticky to the left',
+        [{ tool: 'moveObject', input: { id: 'x', x: 0, y: 0 }, result: '{"success":true}' }],
+        'Moved it.',
+      )
+      cache.learn(
+        'Create a sticky note in the frame',
+        [{ tool: 'createObject', input: { type: 'sticky', x: 0, y: 0, parentId: 'frame-1' }, result: '{"success":true,"id":"s"}' }],
+        'Created.',
+      )
+      expect(cache.size).toBe(0)
+    })
+
     it('does not store recipes with 0 actions', () => {
       cache.learn('Do nothing', [], 'Nothing happened.')
       expect(cache.size).toBe(0)
@@ -410,6 +477,27 @@ describe('CommandCache', () => {
 
       expect(result.message).toContain('World')
     })
+    it('points replayed actions at the objects the replay created', () => {
+      const objects = createTestMap()
+      const actions: ToolAction[] = [
+        { tool: 'createObject', input: { type: 'frame', x: 100, y: 100, text: 'Ideas' }, result: '{"success":true,"id":"frame-1"}' },
+        {
+          tool: 'createObject',
+          input: { type: 'sticky', x: 130, y: 150, parentId: 'frame-1', skipCollisionCheck: true },
+          result: '{"success":true,"id":"sticky-1"}',
+        },
+        { tool: 'fitFrameToChildren', input: { id: 'frame-1' }, result: '{"success":true}' },
+      ]
+      cache.learn('Create a frame called "Ideas"', actions, 'Created the frame.')
+
+      const recipe = cache.match('Create a frame called "Goals"')!
+      const result = cache.replay(recipe, 'Create a frame called "Goals"', objects)
+
+      const frameId = JSON.parse(result.actions[0].result).id
+      expect(result.actions[1].input.parentId).toBe(frameId)
+      expect(JSON.parse(result.actions[2].result)).toMatchObject({ success: true, id: frameId })
+      expect(objects.get(frameId)).toMatchObject({ x: 115, y: 115, width: 230, height: 200 })
+    })
   })
 
   describe('cache limits', () => {
@@ -0,0 +1,274 @@
+/**
+ * Comment Thread Tests
+ *
+ * Tests the shared comment model and how commenters are held to it:
+ *  - entries group into threads, oldest message first, newest thread first
+ *  - pins follow the object they're anchored to, or stay at a point
+ *  - @mentions match board members' names, longest name first
+ *  - commenters' updates may write comments and nothing else
+ *  - comment writes must be well-formed and the writer's own: messages
+ *    carry their verified author and only the author or owner may change
+ *    or delete them
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as Y from 'yjs'
+import {
+  MAX_COMMENT_LENGTH,
+  collectThreads,
+  anchorAt,
+  anchorPoint,
+  extractMentions,
+  splitMentions,
+  type CommentEntry,
+  type CommentMessage,
+} from '../../../shared/comments.js'
+import { COMMENTS_MAP } from '../../../shared/constants.js'
+import { validateUpdate } from '../security.js'
+import type { CommentWriter } from '../commentValidation.js'
+import { writeObject } from '../objectText.js'
+import type { BoardObject } from '../../../shared/types.js'
+
+function message(id: string, threadId: string, createdAt: string, text = id): CommentMessage {
+  return { kind: 'message', id, threadId, authorId: 'user_1', authorName: 'Ann', text, mentions: [], createdAt }
+}
+
+/** The update produced by running `change` against a copy of `doc`. */
+function updateFrom(doc: Y.Doc, change: (copy: Y.Doc) => void): Uint8Array {
+  const copy = new Y.Doc()
+  Y.applyUpdate(copy, Y.encodeStateAsUpdate(doc))
+  const before = Y.encodeStateVector(copy)
+  change(copy)
+  return Y.encodeStateAsUpdate(copy, before)
+}
+
+// ---------------------------------------------------------------------------
+// Threads
+// ---------------------------------------------------------------------------
+
+describe('collectThreads', () => {
+  it('groups messages under their threads', () => {
+    const entries: CommentEntry[] = [
+      message('m2', 't1', '2026-03-01T10:05:00Z'),
+      { kind: 'thread', id: 't1', anchor: { x: 0, y: 0 }, createdAt: '2026-03-01T10:00:00Z', resolved: false },
+      message('m1', 't1', '2026-03-01T10:00:00Z'),
+      { kind: 'thread', id: 't2', anchor: { x: 5, y: 5 }, createdAt: '2026-03-02T09:00:00Z', resolved: true },
+      message('m3', 't2', '2026-03-02T09:00:00Z'),
+      // Not yet synced / orphaned
+      { kind: 'thread', id: 't3', anchor: { x: 0, y: 0 }, createdAt: '2026-03-03T09:00:00Z', resolved: false },
+      message('m4', 'gone', '2026-03-03T09:00:00Z'),
+    ]
+
+    const threads = collectThreads(entries)
+    expect(threads.map((t) => [t.id, t.messages.map((m) => m.id)])).toEqual([
+      ['t2', ['m3']],
+      ['t1', ['m1', 'm2']],
+    ])
+  })
+})
+
+describe('anchors', () => {
+  it('pins to an object and follows it', () => {
+    const anchor = anchorAt({ x: 130, y: 60 }, { id: 's1', x: 100, y: 50 })
+    expect(anchor).toEqual({ objectId: 's1', dx: 30, dy: 10 })
+
+    expect(anchorPoint(anchor, new Map([['s1', { x: 400, y: 300 }]]))).toEqual({ x: 430, y: 310 })
+    expect(anchorPoint(anchor, new Map())).toBeNull()
+  })
+
+  it('pins to a point on the board', () => {
+    expect(anchorPoint(anchorAt({ x: -20, y: 75 }), new Map())).toEqual({ x: -20, y: 75 })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Mentions
+// ---------------------------------------------------------------------------
+
+describe('mentions', () => {
+  const people = [
+    { userId: 'u_ann', name: 'Ann' },
+    { userId: 'u_ann_lee', name: 'Ann Lee' },
+    { userId: 'u_bo', name: 'Bo' },
+  ]
+
+  it('matches member names case-insensitively, longest first', () => {
+    expect(extractMentions('@ann lee can you check? cc @Bo, @Bo', people)).toEqual([
+      { userId: 'u_ann_lee', name: 'Ann Lee' },
+      { userId: 'u_bo', name: 'Bo' },
+    ])
+    expect(extractMentions('@Ann: thoughts?', people)).toEqual([{ userId: 'u_ann', name: 'Ann' }])
+  })
+
+  it('ignores partial words and unknown names', () => {
+    expect(extractMentions('@Bob and @Annie and mail@bo.dev', people)).toEqual([])
+    expect(extractMentions('@Zed', people)).toEqual([])
+  })
+
+  it('splits text into mention runs for rendering', () => {
+    expect(splitMentions('Hi @ann lee, see @Bo', [people[1], people[2]])).toEqual([
+      { text: 'Hi ', mention: false },
+      { text: '@ann lee', mention: true },
+      { text: ', see ', mention: false },
+      { text: '@Bo', mention: true },
+    ])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Update scope
+// ---------------------------------------------------------------------------
+
+describe('validateUpdate for commenters', () => {
+  const commenter: CommentWriter = { userId: 'user_1', name: 'Ann', owner: false }
+  const commentsOnly = [COMMENTS_MAP]
+
+  function boardWithComment() {
+    const doc = new Y.Doc()
+    writeObject(doc.getMap<BoardObject>('objects'), {
+      id: 's1', type: 'sticky', x: 0, y: 0, width: 200, height: 150, fill: '#FFEB3B', text: 'Plan',
+    })
+    doc.getMap(COMMENTS_MAP).set('t1', { kind: 'thread', id: 't1', anchor: { x: 0, y: 0 }, createdAt: '2026-03-01T00:00:00Z', resolved: false })
+    return doc
+  }
+
+  it('allows writes to the comments map', () => {
+    const doc = boardWithComment()
+    const reply = updateFrom(doc, (copy) => {
+      const comments = copy.getMap(COMMENTS_MAP)
+      comments.set('m1', message('m1', 't1', '2026-03-01T00:00:00Z'))
+      comments.set('t1', { ...(comments.get('t1') as object), resolved: true })
+    })
+    expect(validateUpdate(doc, reply, commentsOnly, commenter)).toEqual({ ok: true })
+    expect(doc.getMap(COMMENTS_MAP).has('m1')).toBe(false) // untouched
+  })
+
+  it('refuses object, text and deletion writes', () => {
+    const doc = boardWithComment()
+    const moved = updateFrom(doc, (copy) => {
+      copy.getMap<BoardObject>('objects').set('s1', { id: 's1', type: 'sticky', x: 9, y: 9, width: 200, height: 150, fill: '#FFEB3B' })
+    })
+    const typed = updateFrom(doc, (copy) => {
+      copy.getMap<Y.Text>('texts').get('s1')!.insert(0, 'x')
+    })
+    const mixed = updateFrom(doc, (copy) => {
+      copy.transact(() => {
+        copy.getMap(COMMENTS_MAP).delete('t1')
+        copy.getMap<BoardObject>('objects').delete('s1')
+      })
+    })
+
+    const outsideComments = { ok: false, error: 'Your role can only write to: comments' }
+    expect(validateUpdate(doc, moved, commentsOnly, commenter)).toEqual(outsideComments)
+    expect(validateUpdate(doc, typed, commentsOnly, commenter)).toEqual(outsideComments)
+    expect(validateUpdate(doc, mixed, commentsOnly, commenter)).toEqual(outsideComments)
+  })
+
+  it('refuses updates whose dependencies are missing', () => {
+    const doc = boardWithComment()
+    const source = new Y.Doc()
+    Y.applyUpdate(source, Y.encodeStateAsUpdate(doc))
+    source.getMap(COMMENTS_MAP).set('m1', message('m1', 't1', '2026-03-01T00:00:00Z'))
+    const middle = Y.encodeStateVector(source)
+    source.getMap(COMMENTS_MAP).set('m2', message('m2', 't1', '2026-03-01T00:01:00Z'))
+
+    // The second write without the first can't be placed yet
+    expect(validateUpdate(doc, Y.encodeStateAsUpdate(source, middle), commentsOnly, commenter)).toMatchObject({
+      ok: false, error: expect.stringContaining('depends on changes'),
+    })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Comment writes
+// ---------------------------------------------------------------------------
+
+describe('validateUpdate on comments', () => {
+  const ann: CommentWriter = { userId: 'user_1', name: 'Ann', owner: false }
+  const bob: CommentWriter = { userId: 'user_2', name: 'Bob', owner: false }
+  const owner: CommentWriter = { userId: 'user_owner', name: 'Olivia', owner: true }
+  const thread = { kind: 'thread', id: 't1', anchor: { x: 0, y: 0 }, createdAt: '2026-03-01T00:00:00Z', resolved: false }
+
+  function discussion() {
+    const doc = new Y.Doc()
+    doc.getMap(COMMENTS_MAP).set('t1', thread)
+    doc.getMap(COMMENTS_MAP).set('m1', message('m1', 't1', '2026-03-01T00:00:00Z'))
+    return doc
+  }
+
+  const write = (doc: Y.Doc, id: string, value: unknown) =>
+    updateFrom(doc, (copy) => copy.getMap(COMMENTS_MAP).set(id, value))
+  const remove = (doc: Y.Doc, id: string) =>
+    updateFrom(doc, (copy) => copy.getMap(COMMENTS_MAP).delete(id))
+
+  it('lets anyone who can comment open threads and reply as themselves', () => {
+    const doc = discussion()
+    const reply = { ...message('m2', 't1', '2026-03-01T00:01:00Z'), authorId: 'user_2', authorName: 'Bob' }
+    expect(validateUpdate(doc, write(doc, 'm2', reply), [COMMENTS_MAP], bob)).toEqual({ ok: true })
+    expect(validateUpdate(doc, write(doc, 't2', { ...thread, id: 't2' }), [COMMENTS_MAP], bob)).toEqual({ ok: true })
+  })
+
+  it('refuses messages posted as someone else', () => {
+    const doc = discussion()
+    const forged = message('m2', 't1', '2026-03-01T00:01:00Z') // by user_1 / Ann
+    expect(validateUpdate(doc, write(doc, 'm2', forged), [COMMENTS_MAP], bob)).toEqual({
+      ok: false, error: 'Comment "m2": authorId must be your own user ID',
+    })
+    const renamed = { ...forged, authorId: 'user_2', authorName: 'Ann' }
+    expect(validateUpdate(doc, write(doc, 'm2', renamed), [COMMENTS_MAP], bob).ok).toBe(false)
+  })
+
+  it('refuses malformed and oversized entries', () => {
+    const doc = discussion()
+    const long = { ...message('m2', 't1', '2026-03-01T00:01:00Z'), text: 'x'.repeat(MAX_COMMENT_LENGTH + 1) }
+    expect(validateUpdate(doc, write(doc, 'm2', long), [COMMENTS_MAP], ann)).toEqual({
+      ok: false, error: `Comment "m2": text must be 1-${MAX_COMMENT_LENGTH} characters`,
+    })
+    expect(validateUpdate(doc, write(doc, 'm2', { kind: 'message', id: 'm2' }), [COMMENTS_MAP], ann).ok).toBe(false)
+    expect(validateUpdate(doc, write(doc, 't2', { ...thread, id: 't2', anchor: { x: 'a' } }), [COMMENTS_MAP], ann).ok).toBe(false)
+    expect(validateUpdate(doc, write(doc, 'm2', message('other', 't1', '2026-03-01T00:01:00Z')), [COMMENTS_MAP], ann)).toEqual({
+      ok: false, error: 'Comment "m2": id must match its key',
+    })
+  })
+
+  it('only lets the author or the owner edit or delete a message', () => {
+    const doc = discussion()
+    const edited = { ...message('m1', 't1', '2026-03-01T00:00:00Z'), text: 'Edited' }
+    expect(validateUpdate(doc, write(doc, 'm1', edited), [COMMENTS_MAP], bob).ok).toBe(false)
+    expect(validateUpdate(doc, remove(doc, 'm1'), [COMMENTS_MAP], bob)).toEqual({
+      ok: false, error: 'Comment "m1": Only the author or the board owner can delete a comment',
+    })
+
+    expect(validateUpdate(doc, write(doc, 'm1', edited), [COMMENTS_MAP], ann)).toEqual({ ok: true })
+    expect(validateUpdate(doc, remove(doc, 'm1'), [COMMENTS_MAP], ann)).toEqual({ ok: true })
+    expect(validateUpdate(doc, remove(doc, 'm1'), undefined, owner)).toEqual({ ok: true })
+
+    // Not even the owner can put words in someone else's mouth
+    const reattributed = { ...edited, authorId: 'user_owner', authorName: 'Olivia' }
+    expect(validateUpdate(doc, write(doc, 'm1', reattributed), undefined, owner)).toEqual({
+      ok: false, error: 'Comment "m1": A comment cannot change its author',
+    })
+  })
+
+  it('lets commenters resolve threads as themselves, and only owners move or delete them', () => {
+    const doc = discussion()
+    const resolved = { ...thread, resolved: true, resolvedBy: 'user_2' }
+    expect(validateUpdate(doc, write(doc, 't1', resolved), [COMMENTS_MAP], bob)).toEqual({ ok: true })
+    expect(validateUpdate(doc, write(doc, 't1', resolved), [COMMENTS_MAP], ann)).toEqual({
+      ok: false, error: 'Comment "t1": resolvedBy must be your own user ID',
+    })
+
+    const moved = { ...thread, anchor: { x: 50, y: 50 } }
+    expect(validateUpdate(doc, write(doc, 't1', moved), [COMMENTS_MAP], bob).ok).toBe(false)
+    expect(validateUpdate(doc, remove(doc, 't1'), [COMMENTS_MAP], bob).ok).toBe(false)
+    expect(validateUpdate(doc, write(doc, 't1', moved), undefined, owner)).toEqual({ ok: true })
+    expect(validateUpdate(doc, remove(doc, 't1'), undefined, owner)).toEqual({ ok: true })
+  })
+
+  it('treats a writer without a verified identity as a guest', () => {
+    const doc = discussion()
+    const guest = { ...message('m2', 't1', '2026-03-01T00:01:00Z'), authorId: null, authorName: 'Guest 12' }
+    expect(validateUpdate(doc, write(doc, 'm2', guest), [COMMENTS_MAP])).toEqual({ ok: true })
+    expect(validateUpdate(doc, remove(doc, 'm1')).ok).toBe(false)
+  })
+})
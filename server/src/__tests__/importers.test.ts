@@ -0,0 +1,281 @@
+/**
+ * Third-party Importer Tests
+ *
+ * Tests conversion of Excalidraw, Mermaid and Miro files into BoardObjects:
+ *  - element/node/item types map to the closest ObjectType
+ *  - arrows and connectors become lines with fromId/toId
+ *  - frames/subgraphs become frames with parentId on their contents
+ *  - source detection and the import route's `source` and `at` options
+ *
+ * Uses the in-memory persistence backend and mocked auth.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as Y from 'yjs'
+
+vi.mock('../db/supabase.js', () => ({ supabase: null }))
+vi.mock('../auth.js', () => ({
+  authenticateRequest: vi.fn(),
+  authenticateToken: vi.fn(),
+  getUserDisplayName: vi.fn(),
+}))
+
+import { authenticateRequest } from '../auth.js'
+import { persistence } from '../db/persistence.js'
+import { convertExcalidraw } from '../importers/excalidraw.js'
+import { convertMermaid } from '../importers/mermaid.js'
+import { convertMiro } from '../importers/miro.js'
+import { convertImport, detectImportSource } from '../importers/index.js'
+import { handleImportBoard, handleImportIntoBoard } from '../routes/import.js'
+import type { BoardObject } from '../../../shared/types.js'
+
+const mockAuth = vi.mocked(authenticateRequest)
+
+function fakeRes() {
+  const res = {
+    statusCode: 200,
+    body: '',
+    writeHead(status: number) {
+      res.statusCode = status
+      return res
+    },
+    end(data?: string) {
+      res.body = data ?? ''
+      return res
+    },
+  }
+  return res
+}
+
+function unwrap<T>(result: { ok: true; value: T } | { ok: false; error: string }): T {
+  if (!result.ok) throw new Error(result.error)
+  return result.value
+}
+
+const byId = (objects: BoardObject[], id: string) => objects.find((o) => o.id === id)
+
+// ---------------------------------------------------------------------------
+// Excalidraw
+// ---------------------------------------------------------------------------
+
+const excalidrawFile = {
+  type: 'excalidraw',
+  version: 2,
+  elements: [
+    { id: 'frame', type: 'frame', x: 0, y: 0, width: 600, height: 400, name: 'Flow' },
+    { id: 'box', type: 'rectangle', x: 20, y: 40, width: 120, height: 80, backgroundColor: '#ffc9c9', frameId: 'frame' },
+    { id: 'box-label', type: 'text', x: 30, y: 60, width: 100, height: 20, text: 'Start', containerId: 'box' },
+    { id: 'oval', type: 'ellipse', x: 300, y: 40, width: 100, height: 100, backgroundColor: 'transparent', angle: Math.PI / 2 },
+    {
+      id: 'arrow', type: 'arrow', x: 140, y: 80, width: 160, height: 10, strokeColor: '#1e1e1e',
+      points: [[0, 0], [80, 30], [160, 10]],
+      startBinding: { elementId: 'box' }, endBinding: { elementId: 'oval' }, endArrowhead: 'arrow',
+    },
+    { id: 'note', type: 'text', x: 20, y: 300, width: 200, height: 25, text: 'Loose note', fontSize: 20, strokeColor: '#e03131' },
+    { id: 'scribble', type: 'freedraw', x: 0, y: 0, width: 10, height: 10 },
+    { id: 'gone', type: 'rectangle', x: 0, y: 0, width: 10, height: 10, isDeleted: true },
+  ],
+}
+
+describe('convertExcalidraw', () => {
+  it('maps shapes, frames and free text', () => {
+    const objects = unwrap(convertExcalidraw(excalidrawFile))
+    expect(objects.map((o) => o.id)).toEqual(['frame', 'box', 'oval', 'arrow', 'note'])
+    expect(byId(objects, 'frame')).toMatchObject({ type: 'frame', text: 'Flow' })
+    expect(byId(objects, 'box')).toMatchObject({ type: 'rect', fill: '#ffc9c9', text: 'Start', parentId: 'frame' })
+    expect(byId(objects, 'oval')).toMatchObject({ type: 'circle', rotation: 90 })
+    expect(byId(objects, 'note')).toMatchObject({ type: 'text', text: 'Loose note', fontSize: 20, fill: '#e03131' })
+  })
+
+  it('turns bound arrows into connected lines between the end points', () => {
+    const arrow = byId(unwrap(convertExcalidraw(excalidrawFile)), 'arrow')!
+    expect(arrow).toMatchObject({ type: 'line', fromId: 'box', toId: 'oval', arrowEnd: true, x: 140, y: 80 })
+    expect(arrow.points).toEqual([0, 0, 160, 10])
+  })
+
+  it('rejects files without elements', () => {
+    expect(convertExcalidraw({ type: 'excalidraw' })).toMatchObject({ ok: false })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Mermaid
+// ---------------------------------------------------------------------------
+
+describe('convertMermaid', () => {
+  it('maps node shapes and labels', () => {
+    const objects = unwrap(convertMermaid('flowchart TD\n  A[Start] --> B{"Is it<br>ready?"}\n  B --> C((Done))'))
+    expect(byId(objects, 'A')).toMatchObject({ type: 'rect', text: 'Start' })
+    expect(byId(objects, 'B')).toMatchObject({ type: 'rect', text: 'Is it\nready?' })
+    expect(byId(objects, 'C')).toMatchObject({ type: 'circle', text: 'Done' })
+  })
+
+  it('turns edges into connected lines, including chains and labels', () => {
+    const objects = unwrap(convertMermaid('graph LR\nA-->B---C\nA -- yes --> C\nB -.->|maybe| A'))
+    const lines = objects.filter((o) => o.type === 'line')
+    expect(lines.map((l) => [l.fromId, l.toId, l.arrowEnd])).toEqual([
+      ['A', 'B', true],
+      ['B', 'C', false],
+      ['A', 'C', true],
+      ['B', 'A', true],
+    ])
+    expect(objects.filter((o) => o.type === 'text').map((o) => o.text)).toEqual(['yes', 'maybe'])
+  })
+
+  it('lays out ranks in the declared direction', () => {
+    const down = unwrap(convertMermaid('flowchart TD\nA --> B --> C\nA --> C'))
+    expect(byId(down, 'A')!.y).toBeLessThan(byId(down, 'B')!.y)
+    expect(byId(down, 'B')!.y).toBeLessThan(byId(down, 'C')!.y)
+
+    const left = unwrap(convertMermaid('flowchart RL\nA --> B'))
+    expect(byId(left, 'A')!.x).toBeGreaterThan(byId(left, 'B')!.x)
+    expect(byId(left, 'A')!.y).toBe(byId(left, 'B')!.y)
+  })
+
+  it('survives cycles', () => {
+    const objects = unwrap(convertMermaid('flowchart TD\nA --> B --> C --> A'))
+    expect(objects.filter((o) => o.type === 'line')).toHaveLength(3)
+    expect(new Set(['A', 'B', 'C'].map((id) => byId(objects, id)!.y)).size).toBe(3)
+  })
+
+  it('wraps subgraphs in frames that contain their nodes', () => {
+    const objects = unwrap(convertMermaid([
+      'flowchart TB',
+      '  %% comment',
+      '  subgraph api [API layer]',
+      '    A[Router] --> B[Handler]',
+      '  end',
+      '  B --> C[(Database)]',
+      '  classDef db fill:#f9f',
+    ].join('\n')))
+    const frame = byId(objects, 'subgraph:api')!
+    expect(frame).toMatchObject({ type: 'frame', text: 'API layer' })
+    expect(objects[0]).toBe(frame)
+    for (const id of ['A', 'B']) {
+      const node = byId(objects, id)!
+      expect(node.parentId).toBe('subgraph:api')
+      expect(node.x).toBeGreaterThan(frame.x)
+      expect(node.y + node.height).toBeLessThan(frame.y + frame.height)
+    }
+    expect(byId(objects, 'C')!.parentId).toBeUndefined()
+  })
+
+  it('rejects other diagram types and unparseable lines', () => {
+    expect(convertMermaid('sequenceDiagram\nA->>B: hi')).toMatchObject({ ok: false, error: expect.stringContaining('flowchart') })
+    expect(convertMermaid('flowchart TD\nA -->')).toMatchObject({ ok: false, error: expect.stringContaining('"A -->"') })
+    expect(convertMermaid('flowchart TD\nA ~~ B')).toMatchObject({ ok: false, error: expect.stringContaining('A ~~ B') })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Miro
+// ---------------------------------------------------------------------------
+
+const miroExport = {
+  data: [
+    { id: '100', type: 'frame', data: { title: 'Retro' }, position: { x: 500, y: 400 }, geometry: { width: 1000, height: 800 } },
+    {
+      id: '101', type: 'sticky_note', data: { content: '<p>Went <strong>well</strong></p>' },
+      style: { fillColor: 'light_yellow' }, position: { x: 150, y: 150, relativeTo: 'parent_top_left' },
+      geometry: { width: 200 }, parent: { id: '100' },
+    },
+    { id: '102', type: 'shape', data: { shape: 'circle', content: 'Idea' }, style: { fillColor: '#ff0000' }, position: { x: 1500, y: 100 }, geometry: { width: 100, height: 100, rotation: 45 } },
+    { id: '103', type: 'shape', data: { shape: 'round_rectangle', content: '' }, position: { x: 1500, y: 500 }, geometry: { width: 200, height: 100 } },
+    { id: '104', type: 'text', data: { content: 'Title &amp; more' }, style: { color: '#1a1a1a', fontSize: '24' }, position: { x: 0, y: -100 }, geometry: { width: 300, height: 50 } },
+    { id: '105', type: 'image', position: { x: 0, y: 0 } },
+  ],
+  connectors: [
+    { id: '200', type: 'connector', startItem: { id: '101' }, endItem: { id: '102' }, style: { endStrokeCap: 'none', strokeColor: '#000000' } },
+  ],
+}
+
+describe('convertMiro', () => {
+  it('maps items and converts center positions to absolute top-left', () => {
+    const objects = unwrap(convertMiro(miroExport))
+    expect(objects.map((o) => o.id)).toEqual(['100', '101', '102', '103', '104', '200'])
+    expect(byId(objects, '100')).toMatchObject({ type: 'frame', x: 0, y: 0, text: 'Retro' })
+    expect(byId(objects, '101')).toMatchObject({
+      type: 'sticky', x: 50, y: 50, width: 200, height: 200, fill: '#FFF59D', text: 'Went well', parentId: '100',
+    })
+    expect(byId(objects, '102')).toMatchObject({ type: 'circle', x: 1450, fill: '#ff0000', rotation: 45 })
+    expect(byId(objects, '103')).toMatchObject({ type: 'rect' })
+    expect(byId(objects, '103')!.text).toBeUndefined()
+    expect(byId(objects, '104')).toMatchObject({ type: 'text', text: 'Title & more', fontSize: 24, fill: '#1a1a1a' })
+  })
+
+  it('turns connectors into lines between item centers', () => {
+    const line = byId(unwrap(convertMiro(miroExport)), '200')!
+    expect(line).toMatchObject({ type: 'line', fromId: '101', toId: '102', arrowEnd: false, x: 150, y: 100 })
+    expect(line.points).toEqual([0, 50, 1350, 0])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Detection & routes
+// ---------------------------------------------------------------------------
+
+describe('detectImportSource', () => {
+  it('recognizes each format', () => {
+    expect(detectImportSource('flowchart LR\nA-->B')).toBe('mermaid')
+    expect(detectImportSource(excalidrawFile)).toBe('excalidraw')
+    expect(detectImportSource(miroExport)).toBe('miro')
+    expect(detectImportSource({ format: 'collabboard' })).toBe('collabboard')
+    expect(detectImportSource({ hello: 'world' })).toBeNull()
+    expect(detectImportSource('just some text')).toBeNull()
+  })
+
+  it('validates converted objects like native imports', () => {
+    const bad = { ...excalidrawFile, elements: [{ id: 'x', type: 'rectangle', x: 'left', y: 0, width: 1, height: 1 }] }
+    expect(convertImport(bad, 'excalidraw')).toEqual({ ok: false, error: 'objects[0]: x must be a finite number' })
+  })
+})
+
+describe('import routes with third-party files', () => {
+  const docs = new Map<string, Y.Doc>()
+  const getDoc = async (room: string) => {
+    if (!docs.has(room)) docs.set(room, new Y.Doc())
+    return docs.get(room)!
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    docs.clear()
+    mockAuth.mockResolvedValue({ userId: 'user_owner' })
+  })
+
+  it('creates a board from a detected Mermaid flowchart', async () => {
+    const res = fakeRes()
+    const id = await handleImportBoard({} as never, res as never, JSON.stringify({ document: 'flowchart TD\nA-->B' }), getDoc)
+    expect(res.statusCode).toBe(201)
+    expect(JSON.parse(res.body)).toMatchObject({ board: { name: 'Imported Board' }, imported: 3 })
+
+    const objects = Array.from((docs.get(id!)!.getMap('objects') as Y.Map<BoardObject>).values())
+    const [a, b] = objects.filter((o) => o.type === 'rect')
+    expect(objects.find((o) => o.type === 'line')).toMatchObject({ fromId: a.id, toId: b.id })
+  })
+
+  it('places dropped content with its top-left at the drop point', async () => {
+    const target = await persistence.createBoard('user_owner', 'Target')
+    const res = fakeRes()
+    const body = { document: miroExport, source: 'miro', at: { x: 2000, y: 3000 } }
+    await handleImportIntoBoard({} as never, res as never, target.id, JSON.stringify(body), getDoc)
+    expect(res.statusCode).toBe(200)
+
+    const objects = Array.from((docs.get(target.id)!.getMap('objects') as Y.Map<BoardObject>).values())
+    expect(Math.min(...objects.map((o) => o.x))).toBe(2000)
+    expect(Math.min(...objects.map((o) => o.y))).toBe(3000)
+  })
+
+  it('rejects unknown sources and undetectable files', async () => {
+    const target = await persistence.createBoard('user_owner', 'Target')
+    const unknown = fakeRes()
+    await handleImportIntoBoard({} as never, unknown as never, target.id, JSON.stringify({ document: {}, source: 'figma' }), getDoc)
+    expect(unknown.statusCode).toBe(400)
+    expect(JSON.parse(unknown.body).error).toContain('source must be one of')
+
+    const undetected = fakeRes()
+    await handleImportIntoBoard({} as never, undetected as never, target.id, JSON.stringify({ document: { hello: 1 } }), getDoc)
+    expect(undetected.statusCode).toBe(400)
+    expect(JSON.parse(undetected.body).error).toContain('Unrecognized file format')
+  })
+})
@@ -17,6 +17,9 @@
  * 10. "Space these elements evenly"
  * 11. "Create a SWOT analysis template with four quadrants"
  * 12. "Build a user journey map with 5 stages"
+ *
+ * Plus scoping: with a selection, manipulation and layout commands touch
+ * only the selected objects; new objects land in the user's viewport.
  */
 
 import { describe, it, expect, beforeEach } from 'vitest'
@@ -812,3 +815,71 @@ describe('Dynamic Pattern Expansion', () => {
     expect(result).toBeNull()
   })
 })
+
+// ---------------------------------------------------------------------------
+// Selection and viewport scope
+// ---------------------------------------------------------------------------
+
+describe('Selection and viewport scope', () => {
+  function scopedDoc(): Y.Doc {
+    return createDocWithObjects({
+      s1: { type: 'sticky', x: 500, y: 400, width: 200, height: 150, fill: '#FFD700', text: 'One' },
+      s2: { type: 'sticky', x: 900, y: 420, width: 200, height: 150, fill: '#FFB6C1', text: 'Two' },
+      s3: { type: 'sticky', x: 50, y: 50, width: 200, height: 150, fill: '#FFB6C1', text: 'Three' },
+      r1: { type: 'rect', x: 1300, y: 500, width: 150, height: 100, fill: '#87CEEB' },
+    })
+  }
+
+  it('changes the color of every selected object and nothing else', () => {
+    const doc = scopedDoc()
+    const result = parseCommand('Make these green', doc, { selectedIds: ['s1', 'r1'] })
+    const objects = doc.getMap('objects')
+
+    expect(result.actions.map((a) => a.input.id)).toEqual(['s1', 'r1'])
+    expect((objects.get('s1') as any).fill).toBe('#98FB98')
+    expect((objects.get('r1') as any).fill).toBe('#98FB98')
+    expect((objects.get('s2') as any).fill).toBe('#FFB6C1')
+  })
+
+  it('arranges only the selected sticky notes, from the selection\'s top-left', () => {
+    const doc = scopedDoc()
+    const result = parseCommand('Arrange these sticky notes in a grid', doc, { selectedIds: ['s1', 's2', 'r1'] })
+
+    expect(result.actions.map((a) => a.input.id)).toEqual(['s1', 's2'])
+    expect(result.actions[0].input).toMatchObject({ x: 500, y: 400 })
+    expect((doc.getMap('objects').get('s3') as any).x).toBe(50)
+  })
+
+  it('spaces only the selection, starting where it starts', () => {
+    const doc = scopedDoc()
+    const result = parseCommand('Space these elements evenly', doc, { selectedIds: ['s2', 'r1'] })
+
+    expect(result.actions.map((a) => a.input.id)).toEqual(['s2', 'r1'])
+    expect(result.actions[0].input.x).toBe(900)
+    expect(result.message).toContain('selected')
+  })
+
+  it('moves only selected objects of the color', () => {
+    const doc = scopedDoc()
+    const result = parseCommand('Move the pink sticky notes to the right', doc, { selectedIds: ['s2'] })
+
+    expect(result.actions.map((a) => a.input.id)).toEqual(['s2'])
+    expect((doc.getMap('objects').get('s3') as any).x).toBe(50)
+  })
+
+  it('ignores selected IDs that no longer exist', () => {
+    const doc = scopedDoc()
+    const result = parseCommand('Change the sticky note color to green', doc, { selectedIds: ['gone'] })
+    expect(result.actions).toHaveLength(1)
+  })
+
+  it('centers new objects in the viewport when no position is given', () => {
+    const doc = createTestDoc()
+    const viewport = { x: 2000, y: 1000, width: 1000, height: 800 }
+    const result = parseCommand('Add a yellow sticky note that says Hi', doc, { selectedIds: [], viewport })
+    expect(result.actions[0].input).toMatchObject({ x: 2400, y: 1325 })
+
+    const placed = parseCommand('Create a blue rectangle at position 100, 200', doc, { selectedIds: [], viewport })
+    expect(placed.actions[0].input).toMatchObject({ x: 100, y: 200 })
+  })
+})
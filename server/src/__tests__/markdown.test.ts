@@ -0,0 +1,109 @@
+/**
+ * Markdown Subset Tests
+ *
+ * Tests the shared parser behind rich sticky/text rendering:
+ *  - inline bold, italic and links (unsafe hrefs stay plain text)
+ *  - bullet and checkbox lines
+ *  - checkbox toggling and progress counts
+ *  - plain-text flattening used by export and the AI board context
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as Y from 'yjs'
+import {
+  parseInline,
+  parseMarkdown,
+  toggleTask,
+  taskProgress,
+  markdownToPlainText,
+} from '../../../shared/markdown.js'
+import { buildBoardContext } from '../toolExecutors.js'
+import type { BoardObject } from '../../../shared/types.js'
+
+describe('parseInline', () => {
+  it('parses bold, italic and nested styles', () => {
+    expect(parseInline('a **bold** and *it* and __b *bi*__')).toEqual([
+      { text: 'a ' },
+      { text: 'bold', bold: true },
+      { text: ' and ' },
+      { text: 'it', italic: true },
+      { text: ' and ' },
+      { text: 'b ', bold: true },
+      { text: 'bi', bold: true, italic: true },
+    ])
+  })
+
+  it('leaves snake_case and unmatched markers alone', () => {
+    expect(parseInline('my_var_name costs 2 * 3')).toEqual([{ text: 'my_var_name costs 2 * 3' }])
+  })
+
+  it('parses links and bare URLs', () => {
+    expect(parseInline('See [the **docs**](https://example.com/docs) or https://x.dev/a.')).toEqual([
+      { text: 'See ' },
+      { text: 'the ', href: 'https://example.com/docs' },
+      { text: 'docs', bold: true, href: 'https://example.com/docs' },
+      { text: ' or ' },
+      { text: 'https://x.dev/a', href: 'https://x.dev/a' },
+      { text: '.' },
+    ])
+  })
+
+  it('does not link unsafe schemes', () => {
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([{ text: 'click)' }])
+  })
+})
+
+describe('parseMarkdown', () => {
+  it('classifies bullets, tasks and paragraphs', () => {
+    const lines = parseMarkdown('Todo\n- [ ] write\n  - [x] **ship**\n* loose\nplain - dash')
+    expect(lines.map((l) => [l.kind, l.indent, l.checked])).toEqual([
+      ['paragraph', 0, undefined],
+      ['task', 0, false],
+      ['task', 1, true],
+      ['bullet', 0, undefined],
+      ['paragraph', 0, undefined],
+    ])
+    expect(lines[2].spans).toEqual([{ text: 'ship', bold: true }])
+    expect(lines[2].line).toBe(2)
+  })
+})
+
+describe('checklists', () => {
+  const text = 'Sprint\n- [ ] design\n- [X] build\n- note'
+
+  it('toggles only the targeted task line', () => {
+    expect(toggleTask(text, 1)).toBe('Sprint\n- [x] design\n- [X] build\n- note')
+    expect(toggleTask(text, 2)).toBe('Sprint\n- [ ] design\n- [ ] build\n- note')
+    expect(toggleTask(text, 3)).toBe(text)
+    expect(toggleTask(text, 99)).toBe(text)
+  })
+
+  it('counts progress', () => {
+    expect(taskProgress(text)).toEqual({ done: 1, total: 2 })
+    expect(taskProgress('no tasks')).toEqual({ done: 0, total: 0 })
+  })
+})
+
+describe('markdownToPlainText', () => {
+  it('drops markers and shows list symbols', () => {
+    expect(markdownToPlainText('**Plan**\n- one\n  - [x] [two](https://a.b)\n- [ ] *three*')).toBe(
+      'Plan\n• one\n  ☑ two\n☐ three',
+    )
+  })
+})
+
+describe('buildBoardContext with markdown', () => {
+  it('keeps multi-line text on one line and reports checklist progress', () => {
+    const doc = new Y.Doc()
+    const map = doc.getMap('objects') as Y.Map<BoardObject>
+    map.set('s1', {
+      id: 's1', type: 'sticky', x: 0, y: 0, width: 200, height: 150, fill: '#FFD700',
+      text: 'Launch\n- [x] deploy\n- [ ] announce',
+    })
+
+    const context = buildBoardContext(map)
+    const line = context.split('\n').find((l) => l.includes('"s1"'))!
+    expect(line).toContain('Text: "Launch\\n- [x] deploy\\n- [ ] announce"')
+    expect(line).toContain('Checklist: 1/2 done')
+  })
+})
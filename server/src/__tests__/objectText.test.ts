@@ -0,0 +1,152 @@
+/**
+ * Collaborative Text Tests
+ *
+ * Tests how sticky/text/frame text is stored in Y.Text:
+ *  - the shared single-splice diff
+ *  - writes route text into Y.Text, shape labels stay in the JSON; a new
+ *    note gets its Y.Text up front, even when empty
+ *  - concurrent typing from two docs merges instead of last-writer-wins
+ *  - migration of legacy plain-string text, and restores across it
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as Y from 'yjs'
+import { diffText, hasCollabText } from '../../../shared/collabText.js'
+import { TEXT_MAP } from '../../../shared/constants.js'
+import {
+  readObject,
+  readObjects,
+  writeObject,
+  deleteObject,
+  migrateObjectTexts,
+  TEXT_MIGRATION_ORIGIN,
+} from '../objectText.js'
+import { executeUpdateObject } from '../toolExecutors.js'
+import { restoreDocToState } from '../versionHistory.js'
+import type { BoardObject } from '../../../shared/types.js'
+
+function sticky(id: string, text: string): BoardObject {
+  return { id, type: 'sticky', x: 0, y: 0, width: 200, height: 150, fill: '#FFEB3B', text }
+}
+
+function objectsOf(doc: Y.Doc): Y.Map<BoardObject> {
+  return doc.getMap<BoardObject>('objects')
+}
+
+describe('diffText', () => {
+  it('finds the single changed region', () => {
+    expect(diffText('same', 'same')).toBeNull()
+    expect(diffText('hello world', 'hello brave world')).toEqual({ index: 6, remove: 0, insert: 'brave ' })
+    expect(diffText('abcdef', 'abef')).toEqual({ index: 2, remove: 2, insert: '' })
+    expect(diffText('aaa', 'aaaa')).toEqual({ index: 3, remove: 0, insert: 'a' })
+  })
+
+  it('never splits a surrogate pair', () => {
+    // 😀 and 😃 share their high surrogate
+    expect(diffText('a😀b', 'a😃b')).toEqual({ index: 1, remove: 2, insert: '😃' })
+  })
+
+  it('only covers sticky, text and frame', () => {
+    expect(['sticky', 'text', 'frame', 'rect', 'circle', 'line'].map((t) => hasCollabText(t as never)))
+      .toEqual([true, true, true, false, false, false])
+  })
+})
+
+describe('writeObject', () => {
+  it('stores collaborative text in Y.Text and shape labels in the JSON', () => {
+    const doc = new Y.Doc()
+    const objects = objectsOf(doc)
+    writeObject(objects, sticky('s', 'Note'))
+    writeObject(objects, { id: 'r', type: 'rect', x: 0, y: 0, width: 10, height: 10, fill: '#000', text: 'Label' })
+
+    expect(objects.get('s')!.text).toBeUndefined()
+    expect(doc.getMap<Y.Text>(TEXT_MAP).get('s')!.toString()).toBe('Note')
+    expect(objects.get('r')!.text).toBe('Label')
+    expect(readObjects(objects).map((o) => o.text)).toEqual(['Note', 'Label'])
+
+    deleteObject(objects, 's')
+    expect(doc.getMap(TEXT_MAP).has('s')).toBe(false)
+  })
+
+  it('merges concurrent edits to the same note character by character', () => {
+    const a = new Y.Doc()
+    const b = new Y.Doc()
+    writeObject(objectsOf(a), sticky('s', 'buy milk'))
+    Y.applyUpdate(b, Y.encodeStateAsUpdate(a))
+
+    // Both edit offline, then sync
+    writeObject(objectsOf(a), sticky('s', 'buy oat milk'))
+    writeObject(objectsOf(b), sticky('s', 'buy milk today'))
+    Y.applyUpdate(b, Y.encodeStateAsUpdate(a))
+    Y.applyUpdate(a, Y.encodeStateAsUpdate(b))
+
+    expect(readObject(objectsOf(a), 's')!.text).toBe('buy oat milk today')
+    expect(readObject(objectsOf(b), 's')!.text).toBe('buy oat milk today')
+  })
+
+  it('leaves text alone when an AI update changes other fields', () => {
+    const a = new Y.Doc()
+    const b = new Y.Doc()
+    writeObject(objectsOf(a), sticky('s', 'draft'))
+    Y.applyUpdate(b, Y.encodeStateAsUpdate(a))
+
+    writeObject(objectsOf(a), sticky('s', 'draft v2'))
+    executeUpdateObject({ id: 's', fill: '#FF0000' }, objectsOf(b))
+    Y.applyUpdate(b, Y.encodeStateAsUpdate(a))
+
+    expect(readObject(objectsOf(b), 's')).toMatchObject({ fill: '#FF0000', text: 'draft v2' })
+  })
+
+  it('creates an empty note’s Y.Text with it, so typing on two docs merges', () => {
+    const a = new Y.Doc()
+    const b = new Y.Doc()
+    const { text: _text, ...blank } = sticky('s', '')
+    writeObject(objectsOf(a), blank)
+    expect(a.getMap<Y.Text>(TEXT_MAP).get('s')!.toString()).toBe('')
+    Y.applyUpdate(b, Y.encodeStateAsUpdate(a))
+
+    writeObject(objectsOf(a), sticky('s', 'left'))
+    writeObject(objectsOf(b), sticky('s', 'right'))
+    Y.applyUpdate(b, Y.encodeStateAsUpdate(a))
+    Y.applyUpdate(a, Y.encodeStateAsUpdate(b))
+
+    expect(readObject(objectsOf(a), 's')!.text).toHaveLength('leftright'.length)
+    expect(readObject(objectsOf(a), 's')!.text).toBe(readObject(objectsOf(b), 's')!.text)
+  })
+})
+
+describe('migrateObjectTexts', () => {
+  it('moves legacy string text into Y.Text once', () => {
+    const doc = new Y.Doc()
+    const objects = objectsOf(doc)
+    objects.set('s', sticky('s', 'legacy'))
+    objects.set('r', { id: 'r', type: 'rect', x: 0, y: 0, width: 10, height: 10, fill: '#000', text: 'Label' })
+    doc.getMap<Y.Text>(TEXT_MAP).set('gone', new Y.Text('orphan'))
+
+    const origins: unknown[] = []
+    doc.on('update', (_u: Uint8Array, origin: unknown) => origins.push(origin))
+
+    expect(migrateObjectTexts(doc)).toBe(2)
+    expect(origins).toEqual([TEXT_MIGRATION_ORIGIN])
+    expect(objects.get('s')!.text).toBeUndefined()
+    expect(objects.get('r')!.text).toBe('Label')
+    expect(readObject(objects, 's')!.text).toBe('legacy')
+    expect(doc.getMap(TEXT_MAP).has('gone')).toBe(false)
+
+    expect(migrateObjectTexts(doc)).toBe(0)
+    expect(origins).toHaveLength(1)
+  })
+
+  it('restores a pre-migration checkpoint without spurious updates', () => {
+    const doc = new Y.Doc()
+    objectsOf(doc).set('s', sticky('s', 'same'))
+    objectsOf(doc).set('t', sticky('t', 'before'))
+    const checkpoint = Y.encodeStateAsUpdate(doc)
+
+    migrateObjectTexts(doc)
+    writeObject(objectsOf(doc), sticky('t', 'after'))
+
+    expect(restoreDocToState(doc, checkpoint)).toEqual({ added: 0, updated: 1, deleted: 0 })
+    expect(readObjects(objectsOf(doc)).map((o) => o.text)).toEqual(['same', 'before'])
+  })
+})
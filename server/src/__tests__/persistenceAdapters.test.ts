@@ -0,0 +1,429 @@
+/**
+ * Persistence Adapter Tests
+ *
+ * Runs the same contract against every offline backend:
+ *  - memory, file (temp dir) and SQLite (:memory:)
+ *  - load of an unknown room returns an empty state
+ *  - appended updates are replayed on load
+ *  - save() writes a snapshot and compacts the log
+ *  - board CRUD (create, get, list newest first, rename, template flag,
+ *    trash and restore, delete)
+ *  - deleteBoard removes the board's snapshot, log, versions, thumbnail, search
+ *    text, preferences, members and invites
+ *  - versions are saved, listed newest first and loaded by ID
+ *  - thumbnails are saved (bumping the board's updated_at) and loaded
+ *  - search text is matched case-insensitively and literally, among given boards
+ *  - a user's boards are listed filtered, sorted and paged by the store
+ *  - favorites and folders are stored per user and merged on update
+ *  - members are upserted, listed per board and per user, and removed
+ *  - invites are created, looked up by token, listed and revoked
+ *
+ * Plus backend selection from PERSISTENCE_BACKEND, SQLite compaction that
+ * keeps rows the doc lacks, and upgrading an older SQLite file.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import * as Y from 'yjs'
+import Database from 'better-sqlite3'
+
+vi.mock('../db/supabase.js', () => ({ supabase: null }))
+
+import { resolveBackend, type PersistenceAdapter, type BoardQuery } from '../db/persistence.js'
+import { replayUpdates } from '../db/updateLog.js'
+import { MemoryAdapter } from '../db/adapters/memoryAdapter.js'
+import { FileAdapter, frameUpdate, parseUpdateLog } from '../db/adapters/fileAdapter.js'
+import { SqliteAdapter } from '../db/adapters/sqliteAdapter.js'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Make a doc whose every update is appended to `adapter`, like the server does. */
+function loggedDoc(adapter: PersistenceAdapter, room: string): { doc: Y.Doc; flush: () => Promise<void> } {
+  const doc = new Y.Doc()
+  const pending: Promise<void>[] = []
+  doc.on('update', (update: Uint8Array) => {
+    pending.push(adapter.appendUpdate(room, update))
+  })
+  return { doc, flush: async () => { await Promise.all(pending) } }
+}
+
+async function restore(adapter: PersistenceAdapter, room: string): Promise<Y.Doc> {
+  const { snapshot, updates } = await adapter.load(room)
+  const doc = new Y.Doc()
+  replayUpdates(doc, snapshot, updates)
+  return doc
+}
+
+// ---------------------------------------------------------------------------
+// Contract
+// ---------------------------------------------------------------------------
+
+interface Backend {
+  name: string
+  create: () => PersistenceAdapter
+  cleanup: () => void
+}
+
+let tmpDir = ''
+let sqlite: SqliteAdapter | null = null
+
+const backends: Backend[] = [
+  {
+    name: 'memory',
+    create: () => new MemoryAdapter(),
+    cleanup: () => {},
+  },
+  {
+    name: 'file',
+    create: () => {
+      tmpDir = mkdtempSync(path.join(tmpdir(), 'collabboard-'))
+      return new FileAdapter(tmpDir)
+    },
+    cleanup: () => rmSync(tmpDir, { recursive: true, force: true }),
+  },
+  {
+    name: 'sqlite',
+    create: () => {
+      sqlite = new SqliteAdapter(':memory:')
+      return sqlite
+    },
+    cleanup: () => sqlite?.close(),
+  },
+]
+
+describe.each(backends)('$name adapter', (backend) => {
+  let adapter: PersistenceAdapter
+
+  beforeEach(() => {
+    adapter = backend.create()
+  })
+
+  afterEach(() => backend.cleanup())
+
+  it('returns an empty state for an unknown room', async () => {
+    const stored = await adapter.load('nobody-here')
+    expect(stored.snapshot).toBeNull()
+    expect(stored.updates).toEqual([])
+  })
+
+  it('replays appended updates on load', async () => {
+    const { doc, flush } = loggedDoc(adapter, 'room-1')
+    doc.getMap('objects').set('a', { id: 'a', text: 'typed' })
+    doc.getMap('objects').set('b', { id: 'b' })
+    await flush()
+
+    const restored = await restore(adapter, 'room-1')
+    expect(restored.getMap('objects').size).toBe(2)
+    expect((restored.getMap('objects').get('a') as any).text).toBe('typed')
+  })
+
+  it('save() snapshots the doc and compacts the log', async () => {
+    const { doc, flush } = loggedDoc(adapter, 'room-1')
+    doc.getMap('objects').set('a', { id: 'a' })
+    await flush()
+
+    await adapter.save('room-1', doc)
+    const afterSave = await adapter.load('room-1')
+    expect(afterSave.snapshot).not.toBeNull()
+    expect(afterSave.updates).toHaveLength(0)
+
+    // Edits after the snapshot land in the log tail
+    doc.getMap('objects').set('b', { id: 'b' })
+    await flush()
+
+    const restored = await restore(adapter, 'room-1')
+    expect([...restored.getMap('objects').keys()].sort()).toEqual(['a', 'b'])
+  })
+
+  it('keeps rooms isolated', async () => {
+    const one = loggedDoc(adapter, 'room-1')
+    one.doc.getMap('objects').set('a', { id: 'a' })
+    await one.flush()
+
+    const restored = await restore(adapter, 'room-2')
+    expect(restored.getMap('objects').size).toBe(0)
+  })
+
+  it('creates, gets, lists, renames, templates, trashes and deletes boards', async () => {
+    const first = await adapter.createBoard('user_1', 'First')
+    await new Promise((r) => setTimeout(r, 5))
+    const second = await adapter.createBoard('user_2', 'Second')
+
+    expect(first.id).toMatch(/^[a-f0-9-]+$/)
+    expect(first.owner_id).toBe('user_1')
+    expect(await adapter.getBoard(first.id)).toMatchObject({ name: 'First' })
+    expect(await adapter.getBoard('missing')).toBeNull()
+
+    const listed = await adapter.listBoards()
+    expect(listed.map((b) => b.id)).toEqual([second.id, first.id])
+
+    await adapter.renameBoard(first.id, 'Renamed')
+    expect((await adapter.getBoard(first.id))?.name).toBe('Renamed')
+
+    expect(first.is_template).toBe(false)
+    await adapter.setBoardTemplate(first.id, true)
+    expect((await adapter.getBoard(first.id))?.is_template).toBe(true)
+    expect((await adapter.listBoards()).find((b) => b.id === first.id)?.is_template).toBe(true)
+
+    // Trashed boards are still stored and listed; callers hide them
+    expect(first.deleted_at).toBeNull()
+    await adapter.setBoardDeleted(first.id, '2026-02-01T00:00:00.000Z')
+    expect((await adapter.getBoard(first.id))?.deleted_at).toBe('2026-02-01T00:00:00.000Z')
+    expect((await adapter.listBoards()).find((b) => b.id === first.id)?.deleted_at).toBe('2026-02-01T00:00:00.000Z')
+    await adapter.setBoardDeleted(first.id, null)
+    expect((await adapter.getBoard(first.id))?.deleted_at).toBeNull()
+
+    await adapter.deleteBoard(first.id)
+    expect(await adapter.getBoard(first.id)).toBeNull()
+    expect(await adapter.listBoards()).toHaveLength(1)
+  })
+
+  it('saves, lists and loads versions', async () => {
+    const doc = new Y.Doc()
+    doc.getMap('objects').set('a', { id: 'a', text: 'v1' })
+    const first = await adapter.saveVersion('room-1', Y.encodeStateAsUpdate(doc), {
+      name: 'First', kind: 'named', createdBy: 'user_1',
+    })
+    await new Promise((r) => setTimeout(r, 5))
+    doc.getMap('objects').set('a', { id: 'a', text: 'v2' })
+    const second = await adapter.saveVersion('room-1', Y.encodeStateAsUpdate(doc), {
+      name: 'Hourly', kind: 'auto', createdBy: null,
+    })
+
+    const listed = await adapter.listVersions('room-1')
+    expect(listed.map((v) => v.id)).toEqual([second.id, first.id])
+    expect(listed[1]).toMatchObject({ name: 'First', kind: 'named', created_by: 'user_1', board_id: 'room-1' })
+    expect(await adapter.listVersions('room-2')).toEqual([])
+
+    const state = await adapter.loadVersion('room-1', first.id)
+    const restored = new Y.Doc()
+    Y.applyUpdate(restored, state!)
+    expect((restored.getMap('objects').get('a') as any).text).toBe('v1')
+    expect(await adapter.loadVersion('room-2', first.id)).toBeNull()
+  })
+
+  it('saves and loads thumbnails, touching the board', async () => {
+    const board = await adapter.createBoard('user_1', 'Pictured')
+    expect(await adapter.loadThumbnail(board.id)).toBeNull()
+
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await adapter.saveThumbnail(board.id, new Uint8Array([1, 2, 3]))
+    await adapter.saveThumbnail(board.id, new Uint8Array([4, 5]))
+    expect(Array.from((await adapter.loadThumbnail(board.id))!)).toEqual([4, 5])
+    expect((await adapter.getBoard(board.id))!.updated_at > board.updated_at).toBe(true)
+  })
+
+  it('searches stored board text', async () => {
+    const a = await adapter.createBoard('user_1', 'A')
+    const b = await adapter.createBoard('user_1', 'B')
+    await adapter.saveSearchText(a.id, 'Quarterly OKRs\n100% done')
+    await adapter.saveSearchText(b.id, 'Retro notes')
+    await adapter.saveSearchText(b.id, 'Sprint plan')
+
+    const ids = [a.id, b.id]
+    expect(await adapter.searchBoardText('okrs', ids)).toEqual([a.id])
+    expect(await adapter.searchBoardText('100%', ids)).toEqual([a.id])
+    expect(await adapter.searchBoardText('0_', ids)).toEqual([])
+    expect(await adapter.searchBoardText('retro', ids)).toEqual([])
+    expect(await adapter.searchBoardText('SPRINT', ids)).toEqual([b.id])
+    expect(await adapter.searchBoardText('okrs', [b.id])).toEqual([])
+  })
+
+  it('lists, searches, sorts and pages a user\'s boards', async () => {
+    // Gamma is user_2's, shared with user_1; Delta goes in the trash
+    const ids: string[] = []
+    for (const name of ['beta', 'Alpha', 'Gamma', 'Delta']) {
+      await new Promise((r) => setTimeout(r, 5))
+      ids.push((await adapter.createBoard(name === 'Gamma' ? 'user_2' : 'user_1', name)).id)
+    }
+    await adapter.setBoardTemplate(ids[1], true)
+    await adapter.setBoardDeleted(ids[3], '2026-02-01T00:00:00.000Z')
+    await adapter.saveSearchText(ids[2], 'Quarterly roadmap')
+
+    const list = async (query: Partial<BoardQuery>) => {
+      const page = await adapter.listUserBoards({
+        userId: 'user_1', memberOf: [ids[2]], ids: null, templates: false, q: '', order: 'updated', page: null, ...query,
+      })
+      return { names: page.boards.map((b) => b.name), total: page.total }
+    }
+    // Trashed boards and other users' boards are left out
+    expect(await list({})).toEqual({ names: ['Gamma', 'Alpha', 'beta'], total: 3 })
+    expect(await list({ memberOf: [] })).toEqual({ names: ['Alpha', 'beta'], total: 2 })
+    expect(await list({ order: 'name' })).toEqual({ names: ['Alpha', 'beta', 'Gamma'], total: 3 })
+    expect(await list({ order: 'name', page: { offset: 1, limit: 1 } })).toEqual({ names: ['beta'], total: 3 })
+    expect(await list({ q: 'ALP' })).toEqual({ names: ['Alpha'], total: 1 })
+    expect(await list({ q: 'roadmap' })).toEqual({ names: ['Gamma'], total: 1 })
+    expect(await list({ templates: true })).toEqual({ names: ['Alpha'], total: 1 })
+    expect(await list({ ids: [ids[0], ids[3]] })).toEqual({ names: ['beta'], total: 1 })
+    expect(await list({ ids: [] })).toEqual({ names: [], total: 0 })
+  })
+
+  it('stores favorites and folders per user', async () => {
+    const board = await adapter.createBoard('user_1', 'Organised')
+    expect(await adapter.listBoardPreferences('user_1')).toEqual([])
+
+    await adapter.setBoardPreference(board.id, 'user_1', { favorite: true })
+    const filed = await adapter.setBoardPreference(board.id, 'user_1', { folder: 'Planning' })
+    expect(filed).toMatchObject({ board_id: board.id, user_id: 'user_1', favorite: true, folder: 'Planning' })
+    await adapter.setBoardPreference(board.id, 'user_2', { folder: 'Mine' })
+
+    expect(await adapter.listBoardPreferences('user_1')).toEqual([
+      expect.objectContaining({ board_id: board.id, favorite: true, folder: 'Planning' }),
+    ])
+    expect(await adapter.listBoardPreferences('user_2')).toEqual([
+      expect.objectContaining({ board_id: board.id, favorite: false, folder: 'Mine' }),
+    ])
+
+    await adapter.setBoardPreference(board.id, 'user_1', { favorite: false, folder: null })
+    expect((await adapter.listBoardPreferences('user_1'))[0]).toMatchObject({ favorite: false, folder: null })
+  })
+
+  it('deleteBoard removes the board snapshot, log and versions', async () => {
+    const board = await adapter.createBoard('user_1', 'Doomed')
+    const { doc, flush } = loggedDoc(adapter, board.id)
+    doc.getMap('objects').set('a', { id: 'a' })
+    await flush()
+    await adapter.save(board.id, doc)
+    doc.getMap('objects').set('b', { id: 'b' })
+    await flush()
+    await adapter.saveVersion(board.id, Y.encodeStateAsUpdate(doc), { name: 'v', kind: 'auto', createdBy: null })
+    await adapter.saveThumbnail(board.id, new Uint8Array([1]))
+    await adapter.saveSearchText(board.id, 'findable')
+    await adapter.setBoardPreference(board.id, 'user_1', { favorite: true })
+    await adapter.setMember(board.id, 'user_2', 'editor')
+    await adapter.createInvite(board.id, { token: 'tok-1', role: 'viewer', createdBy: 'user_1', expiresAt: null })
+
+    await adapter.deleteBoard(board.id)
+
+    const stored = await adapter.load(board.id)
+    expect(stored.snapshot).toBeNull()
+    expect(stored.updates).toEqual([])
+    expect(await adapter.listVersions(board.id)).toEqual([])
+    expect(await adapter.loadThumbnail(board.id)).toBeNull()
+    expect(await adapter.searchBoardText('findable', [board.id])).toEqual([])
+    expect(await adapter.listBoardPreferences('user_1')).toEqual([])
+    expect(await adapter.listMembers(board.id)).toEqual([])
+    expect(await adapter.getInvite('tok-1')).toBeNull()
+  })
+
+  it('adds, updates, lists and removes members', async () => {
+    expect(await adapter.getMember('board-1', 'user_2')).toBeNull()
+
+    await adapter.setMember('board-1', 'user_2', 'viewer')
+    await adapter.setMember('board-1', 'user_3', 'editor')
+    await adapter.setMember('board-2', 'user_2', 'commenter')
+    const upgraded = await adapter.setMember('board-1', 'user_2', 'editor')
+
+    expect(upgraded).toMatchObject({ board_id: 'board-1', user_id: 'user_2', role: 'editor' })
+    expect((await adapter.listMembers('board-1')).map((m) => [m.user_id, m.role])).toEqual([
+      ['user_2', 'editor'],
+      ['user_3', 'editor'],
+    ])
+    expect((await adapter.listMemberships('user_2')).map((m) => m.board_id).sort()).toEqual(['board-1', 'board-2'])
+
+    await adapter.removeMember('board-1', 'user_2')
+    expect(await adapter.getMember('board-1', 'user_2')).toBeNull()
+    expect(await adapter.getMember('board-2', 'user_2')).toMatchObject({ role: 'commenter' })
+  })
+
+  it('creates, gets, lists and revokes invites', async () => {
+    const expiresAt = '2026-03-01T00:00:00.000Z'
+    const first = await adapter.createInvite('board-1', { token: 'tok-1', role: 'viewer', createdBy: 'user_1', expiresAt })
+    await new Promise((r) => setTimeout(r, 5))
+    await adapter.createInvite('board-1', { token: 'tok-2', role: 'editor', createdBy: 'user_1', expiresAt: null })
+
+    expect(first).toMatchObject({ token: 'tok-1', board_id: 'board-1', role: 'viewer', expires_at: expiresAt })
+    expect(await adapter.getInvite('tok-2')).toMatchObject({ role: 'editor', expires_at: null })
+    expect(await adapter.getInvite('nope')).toBeNull()
+    expect((await adapter.listInvites('board-1')).map((i) => i.token)).toEqual(['tok-2', 'tok-1'])
+
+    // Revoking is scoped to the board
+    await adapter.deleteInvite('board-2', 'tok-1')
+    expect(await adapter.getInvite('tok-1')).not.toBeNull()
+    await adapter.deleteInvite('board-1', 'tok-1')
+    expect(await adapter.getInvite('tok-1')).toBeNull()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// SQLite upgrades
+// ---------------------------------------------------------------------------
+
+describe('sqlite schema upgrades', () => {
+  it('adds is_template and deleted_at to a boards table created before them', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'collabboard-sqlite-'))
+    const file = path.join(dir, 'old.db')
+    const old = new Database(file)
+    old.exec(`CREATE TABLE boards (id TEXT PRIMARY KEY, owner_id TEXT NOT NULL, name TEXT NOT NULL,
+      created_at TEXT NOT NULL, updated_at TEXT NOT NULL)`)
+    old.prepare('INSERT INTO boards VALUES (?, ?, ?, ?, ?)').run('b1', 'user_1', 'Legacy', '2026-01-01', '2026-01-01')
+    old.close()
+
+    const adapter = new SqliteAdapter(file)
+    try {
+      expect(await adapter.getBoard('b1')).toMatchObject({ name: 'Legacy', is_template: false, deleted_at: null })
+    } finally {
+      adapter.close()
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('sqlite compaction', () => {
+  it('keeps logged updates the saved doc has not applied yet', async () => {
+    const adapter = new SqliteAdapter(':memory:')
+    try {
+      const { doc, flush } = loggedDoc(adapter, 'room-1')
+      doc.getMap('objects').set('a', { id: 'a' })
+      await flush()
+      // Another instance logged this; it hasn't reached `doc` over the backplane
+      const other = new Y.Doc()
+      other.getMap('objects').set('b', { id: 'b' })
+      await adapter.appendUpdate('room-1', Y.encodeStateAsUpdate(other))
+
+      await adapter.save('room-1', doc)
+      expect((await adapter.load('room-1')).updates).toHaveLength(1)
+      const restored = await restore(adapter, 'room-1')
+      expect([...restored.getMap('objects').keys()].sort()).toEqual(['a', 'b'])
+    } finally {
+      adapter.close()
+    }
+  })
+})
+
+// ---------------------------------------------------------------------------
+// File log framing
+// ---------------------------------------------------------------------------
+
+describe('file update log framing', () => {
+  it('round-trips framed updates', () => {
+    const buf = Buffer.concat([frameUpdate(new Uint8Array([1, 2])), frameUpdate(new Uint8Array([3]))])
+    expect(parseUpdateLog(buf).map((u) => Array.from(u))).toEqual([[1, 2], [3]])
+  })
+
+  it('ignores a truncated trailing frame', () => {
+    const full = frameUpdate(new Uint8Array([1, 2, 3]))
+    const buf = Buffer.concat([frameUpdate(new Uint8Array([9])), full.subarray(0, 5)])
+    expect(parseUpdateLog(buf).map((u) => Array.from(u))).toEqual([[9]])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Backend selection
+// ---------------------------------------------------------------------------
+
+describe('resolveBackend', () => {
+  it('uses PERSISTENCE_BACKEND when valid', () => {
+    expect(resolveBackend({ PERSISTENCE_BACKEND: 'sqlite' })).toBe('sqlite')
+    expect(resolveBackend({ PERSISTENCE_BACKEND: ' File ' })).toBe('file')
+  })
+
+  it('falls back to memory when Supabase is not configured', () => {
+    expect(resolveBackend({})).toBe('memory')
+    expect(resolveBackend({ PERSISTENCE_BACKEND: 'mongo' })).toBe('memory')
+  })
+})
@@ -3,24 +3,36 @@
  *
  * Tests the minimal security hardening:
  *  - CORS: only allowed origins get proper headers
+ *  - Client address: X-Forwarded-For is read only behind trusted proxies
  *  - Max WebSocket message size: reject messages > 1MB
  *  - Max objects per board: reject updates pushing past 5000
+ *  - Update validation: objects and texts a client writes are checked from
+ *    the update's own structs, and rejected with a reason for the sender
  *  - Room name validation: reject invalid characters
- *  - AI message length validation
+ *  - AI message length validation, and the selection / viewport sent along
  */
 
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import {
   isOriginAllowed,
   getCorsOrigin,
+  clientAddress,
   isMessageSizeValid,
-  canAddObject,
   isValidRoomName,
   isAIMessageValid,
+  parseAIScope,
+  stampAwareness,
+  validateUpdate,
   MAX_WS_MESSAGE_SIZE,
   MAX_OBJECTS_PER_BOARD,
   MAX_AI_MESSAGE_LENGTH,
 } from '../security.js'
+import * as Y from 'yjs'
+import * as encoding from 'lib0/encoding'
+import * as decoding from 'lib0/decoding'
+import * as awarenessProtocol from 'y-protocols/awareness'
+import { MAX_OBJECT_TEXT_LENGTH } from '../objectValidation.js'
+import { TEXT_MAP, COMMENTS_MAP } from '../../../shared/constants.js'
 
 // ---------------------------------------------------------------------------
 // CORS origin validation
@@ -68,6 +80,27 @@ describe('getCorsOrigin', () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// Client address
+// ---------------------------------------------------------------------------
+
+describe('clientAddress', () => {
+  it('uses the socket address without trusted proxies', () => {
+    expect(clientAddress('10.0.0.1', '203.0.113.7', 0)).toBe('10.0.0.1')
+  })
+
+  it('takes the address the outermost trusted proxy saw, ignoring what the client sent', () => {
+    expect(clientAddress('10.0.0.1', '203.0.113.7', 1)).toBe('203.0.113.7')
+    expect(clientAddress('10.0.0.1', '1.2.3.4, 203.0.113.7', 1)).toBe('203.0.113.7')
+    expect(clientAddress('10.0.0.1', ['1.2.3.4, 203.0.113.7', '10.0.0.2'], 2)).toBe('203.0.113.7')
+  })
+
+  it('falls back to the socket address when the header is missing or short', () => {
+    expect(clientAddress('10.0.0.1', undefined, 1)).toBe('10.0.0.1')
+    expect(clientAddress('10.0.0.1', '203.0.113.7', 2)).toBe('10.0.0.1')
+  })
+})
+
 // ---------------------------------------------------------------------------
 // WebSocket message size validation
 // ---------------------------------------------------------------------------
@@ -94,15 +127,205 @@ describe('WebSocket message size validation', () => {
 // ---------------------------------------------------------------------------
 
 describe('Max objects per board', () => {
-  it('allows adding objects when under limit', () => {
-    expect(canAddObject(0)).toBe(true)
-    expect(canAddObject(100)).toBe(true)
-    expect(canAddObject(MAX_OBJECTS_PER_BOARD - 1)).toBe(true)
+  const shape = (id: string) => ({ id, type: 'rect', x: 0, y: 0, width: 10, height: 10, fill: '#000' })
+
+  it('counts every object an update adds, not just the first', () => {
+    const doc = new Y.Doc()
+    doc.transact(() => {
+      for (let i = 0; i < MAX_OBJECTS_PER_BOARD - 1; i++) doc.getMap('objects').set(`o${i}`, shape(`o${i}`))
+    })
+    const copy = new Y.Doc()
+    Y.applyUpdate(copy, Y.encodeStateAsUpdate(doc))
+    const before = Y.encodeStateVector(copy)
+    copy.getMap('objects').set('last', shape('last'))
+    const fills = Y.encodeStateAsUpdate(copy, before)
+    copy.getMap('objects').set('over', shape('over'))
+    const overflows = Y.encodeStateAsUpdate(copy, before)
+
+    expect(validateUpdate(doc, fills)).toEqual({ ok: true })
+    expect(validateUpdate(doc, overflows)).toEqual({ ok: false, error: `Boards are limited to ${MAX_OBJECTS_PER_BOARD} objects` })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Update validation
+// ---------------------------------------------------------------------------
+
+describe('validateUpdate', () => {
+  function sticky(id: string, extra: Record<string, unknown> = {}) {
+    return { id, type: 'sticky', x: 0, y: 0, width: 200, height: 200, fill: '#FEF08A', ...extra }
+  }
+
+  function board(count = 1): Y.Doc {
+    const doc = new Y.Doc()
+    doc.transact(() => {
+      for (let i = 0; i < count; i++) doc.getMap('objects').set(`s${i}`, sticky(`s${i}`))
+    })
+    return doc
+  }
+
+  /** The update produced by running `change` against a copy of `doc`. */
+  function updateFrom(doc: Y.Doc, change: (copy: Y.Doc) => void): Uint8Array {
+    const copy = new Y.Doc()
+    Y.applyUpdate(copy, Y.encodeStateAsUpdate(doc))
+    const before = Y.encodeStateVector(copy)
+    change(copy)
+    return Y.encodeStateAsUpdate(copy, before)
+  }
+
+  it('accepts valid edits and deletes, leaving the doc untouched', () => {
+    const doc = board()
+    const update = updateFrom(doc, (copy) => {
+      copy.getMap('objects').set('s0', sticky('s0', { x: 50, text: 'Moved' }))
+      copy.getMap('objects').set('s1', sticky('s1'))
+    })
+    expect(validateUpdate(doc, update)).toEqual({ ok: true })
+    expect(validateUpdate(doc, updateFrom(doc, (copy) => copy.getMap('objects').delete('s0')))).toEqual({ ok: true })
+    expect(doc.getMap('objects').size).toBe(1)
+  })
+
+  it('names the object and the problem when an object is invalid', () => {
+    const doc = board()
+    const write = (value: unknown) => updateFrom(doc, (copy) => copy.getMap('objects').set('bad', value))
+
+    expect(validateUpdate(doc, write(sticky('bad', { x: Number.NaN })))).toEqual({
+      ok: false, error: 'Object "bad": x must be a finite number',
+    })
+    expect(validateUpdate(doc, write(sticky('bad', { type: 'blob' }))).ok).toBe(false)
+    expect(validateUpdate(doc, write({ id: 'bad', type: 'rect' })).ok).toBe(false)
+    expect(validateUpdate(doc, write(sticky('bad', { width: 1e9 }))).ok).toBe(false)
+    expect(validateUpdate(doc, write(sticky('bad', { type: 'line', points: [0, 0, 1] }))).ok).toBe(false)
+    expect(validateUpdate(doc, write(sticky('bad', { text: 'x'.repeat(MAX_OBJECT_TEXT_LENGTH + 1) }))).ok).toBe(false)
+    expect(validateUpdate(doc, write(sticky('other')))).toEqual({ ok: false, error: 'Object "bad": id must match its key' })
+  })
+
+  it('limits collaborative text length', () => {
+    const doc = board()
+    const fits = updateFrom(doc, (copy) => {
+      copy.getMap(TEXT_MAP).set('s0', new Y.Text('x'.repeat(MAX_OBJECT_TEXT_LENGTH)))
+    })
+    expect(validateUpdate(doc, fits)).toEqual({ ok: true })
+    Y.applyUpdate(doc, fits)
+
+    const tooLong = updateFrom(doc, (copy) => {
+      (copy.getMap(TEXT_MAP).get('s0') as Y.Text).insert(0, 'y')
+    })
+    expect(validateUpdate(doc, tooLong)).toEqual({
+      ok: false, error: `Text "s0" is longer than ${MAX_OBJECT_TEXT_LENGTH} characters`,
+    })
+    expect(validateUpdate(doc, updateFrom(doc, (copy) => copy.getMap(TEXT_MAP).set('s1', 'plain'))).ok).toBe(false)
+  })
+
+  it('checks typing in a note and the objects beside it', () => {
+    const doc = board()
+    Y.applyUpdate(doc, updateFrom(doc, (copy) => copy.getMap(TEXT_MAP).set('s0', new Y.Text('hello'))))
+    const note = (copy: Y.Doc) => copy.getMap(TEXT_MAP).get('s0') as Y.Text
+
+    const typing = updateFrom(doc, (copy) => { note(copy).insert(5, ' world'); note(copy).delete(0, 1) })
+    expect(validateUpdate(doc, typing)).toEqual({ ok: true })
+    expect(validateUpdate(doc, typing, [COMMENTS_MAP])).toEqual({ ok: false, error: 'Your role can only write to: comments' })
+
+    const withObject = updateFrom(doc, (copy) => {
+      note(copy).insert(0, 'x')
+      copy.getMap('objects').set('bad', sticky('bad', { x: Number.NaN }))
+    })
+    expect(validateUpdate(doc, withObject)).toEqual({ ok: false, error: 'Object "bad": x must be a finite number' })
+    const pasted = updateFrom(doc, (copy) => note(copy).insert(0, 'x'.repeat(MAX_OBJECT_TEXT_LENGTH)))
+    expect(validateUpdate(doc, pasted)).toEqual({
+      ok: false, error: `Text "s0" is longer than ${MAX_OBJECT_TEXT_LENGTH} characters`,
+    })
+  })
+
+  it('checks drags, new notes and deletes without copying the doc', () => {
+    const doc = board(3)
+    Y.applyUpdate(doc, updateFrom(doc, (copy) => copy.getMap(TEXT_MAP).set('s0', new Y.Text('hello'))))
+    const update = updateFrom(doc, (copy) => {
+      copy.getMap('objects').set('s0', sticky('s0', { x: 40, width: 300 }))
+      copy.getMap('objects').set('s9', sticky('s9'))
+      copy.getMap(TEXT_MAP).set('s9', new Y.Text('new note'))
+      copy.getMap('objects').delete('s1')
+      copy.getMap(TEXT_MAP).delete('s0')
+    })
+    // Only a trial copy of the doc is ever destroyed
+    const destroy = vi.spyOn(Y.Doc.prototype, 'destroy')
+    try {
+      expect(validateUpdate(doc, update)).toEqual({ ok: true })
+      expect(validateUpdate(doc, updateFrom(doc, (copy) => copy.getMap('objects').set('s2', sticky('s2', { x: Number.NaN })))))
+        .toEqual({ ok: false, error: 'Object "s2": x must be a finite number' })
+      expect(destroy).not.toHaveBeenCalled()
+    } finally {
+      destroy.mockRestore()
+    }
+  })
+
+  it('checks only the last write to a key in an update', () => {
+    const doc = board()
+    const fixed = updateFrom(doc, (copy) => {
+      copy.getMap('objects').set('s1', sticky('s1', { x: Number.NaN }))
+      copy.getMap('objects').set('s1', sticky('s1', { x: 1 }))
+    })
+    expect(validateUpdate(doc, fixed)).toEqual({ ok: true })
+    const broken = updateFrom(doc, (copy) => {
+      copy.getMap('objects').set('s0', sticky('s0', { x: 1 }))
+      copy.getMap('objects').set('s0', sticky('s0', { x: Number.NaN }))
+    })
+    expect(validateUpdate(doc, broken)).toEqual({ ok: false, error: 'Object "s0": x must be a finite number' })
+  })
+
+  it('counts text a paste replaces', () => {
+    const doc = board()
+    Y.applyUpdate(doc, updateFrom(doc, (copy) => {
+      copy.getMap(TEXT_MAP).set('s0', new Y.Text('x'.repeat(MAX_OBJECT_TEXT_LENGTH)))
+    }))
+    const note = (copy: Y.Doc) => copy.getMap(TEXT_MAP).get('s0') as Y.Text
+    const replaced = updateFrom(doc, (copy) => {
+      note(copy).delete(0, MAX_OBJECT_TEXT_LENGTH)
+      note(copy).insert(0, 'y'.repeat(MAX_OBJECT_TEXT_LENGTH))
+    })
+    expect(validateUpdate(doc, replaced)).toEqual({ ok: true })
+  })
+
+  it('lets a commenter resend its whole state alongside a new comment', () => {
+    const doc = board(2)
+    Y.applyUpdate(doc, updateFrom(doc, (copy) => copy.getMap('objects').delete('s1')))
+    const copy = new Y.Doc()
+    Y.applyUpdate(copy, Y.encodeStateAsUpdate(doc))
+    copy.getMap(COMMENTS_MAP).set('t1', {
+      kind: 'thread', id: 't1', anchor: { x: 0, y: 0 }, createdAt: '2026-03-01T00:00:00Z', resolved: false,
+    })
+    expect(validateUpdate(doc, Y.encodeStateAsUpdate(copy), [COMMENTS_MAP])).toEqual({ ok: true })
+  })
+
+  it('refuses to grow a full board, but allows edits and deletes on it', () => {
+    const doc = board(MAX_OBJECTS_PER_BOARD)
+    const add = updateFrom(doc, (copy) => copy.getMap('objects').set('extra', sticky('extra')))
+    expect(validateUpdate(doc, add)).toEqual({ ok: false, error: `Boards are limited to ${MAX_OBJECTS_PER_BOARD} objects` })
+
+    const edit = updateFrom(doc, (copy) => copy.getMap('objects').set('s0', sticky('s0', { x: 10 })))
+    expect(validateUpdate(doc, edit)).toEqual({ ok: true })
+    expect(validateUpdate(doc, updateFrom(doc, (copy) => copy.getMap('objects').delete('s0')))).toEqual({ ok: true })
+  })
+
+  it('keeps writes inside onlyRoots', () => {
+    const doc = board()
+    const comment = updateFrom(doc, (copy) => copy.getMap(COMMENTS_MAP).set('t1', {
+      kind: 'thread', id: 't1', anchor: { x: 0, y: 0 }, createdAt: '2026-03-01T00:00:00Z', resolved: false,
+    }))
+    const edit = updateFrom(doc, (copy) => copy.getMap('objects').set('s0', sticky('s0', { x: 10 })))
+    expect(validateUpdate(doc, comment, [COMMENTS_MAP])).toEqual({ ok: true })
+    expect(validateUpdate(doc, edit, [COMMENTS_MAP])).toEqual({ ok: false, error: 'Your role can only write to: comments' })
   })
 
-  it('rejects adding objects at or over limit', () => {
-    expect(canAddObject(MAX_OBJECTS_PER_BOARD)).toBe(false)
-    expect(canAddObject(MAX_OBJECTS_PER_BOARD + 5000)).toBe(false)
+  it('rejects malformed updates and updates with missing dependencies', () => {
+    const doc = board()
+    const source = new Y.Doc()
+    source.getMap('objects').set('a', sticky('a'))
+    const first = Y.encodeStateAsUpdate(source)
+    source.getMap('objects').set('a', sticky('a', { x: 5 }))
+    const second = Y.encodeStateAsUpdate(source, Y.encodeStateVectorFromUpdate(first))
+
+    expect(validateUpdate(doc, new Uint8Array([1, 2, 3])).ok).toBe(false)
+    expect(validateUpdate(doc, second).ok).toBe(false)
   })
 })
 
@@ -164,3 +387,106 @@ describe('AI message validation', () => {
     expect(isAIMessageValid(maxMessage)).toBe(true)
   })
 })
+
+describe('parseAIScope', () => {
+  it('keeps a well-formed selection and viewport', () => {
+    expect(parseAIScope(['a', 'b'], { x: -100, y: 50, width: 800, height: 600 })).toEqual({
+      selectedIds: ['a', 'b'],
+      viewport: { x: -100, y: 50, width: 800, height: 600 },
+    })
+  })
+
+  it('drops malformed IDs and duplicates', () => {
+    expect(parseAIScope(['a', 7, '', 'a', 'x'.repeat(101), 'b'], undefined)).toEqual({ selectedIds: ['a', 'b'] })
+    expect(parseAIScope('a,b', null)).toEqual({ selectedIds: [] })
+  })
+
+  it('drops a viewport with missing, non-finite or empty dimensions', () => {
+    expect(parseAIScope([], { x: 0, y: 0, width: 800 }).viewport).toBeUndefined()
+    expect(parseAIScope([], { x: Infinity, y: 0, width: 800, height: 600 }).viewport).toBeUndefined()
+    expect(parseAIScope([], { x: 0, y: 0, width: 0, height: 600 }).viewport).toBeUndefined()
+    expect(parseAIScope([], 'everything').viewport).toBeUndefined()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Awareness identity stamping
+// ---------------------------------------------------------------------------
+
+/** A y-protocols awareness update with one entry per state. */
+function awarenessUpdate(...entries: [clientId: number, state: unknown][]): Uint8Array {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, entries.length)
+  for (const [clientId, state] of entries) {
+    encoding.writeVarUint(encoder, clientId)
+    encoding.writeVarUint(encoder, 1)
+    encoding.writeVarString(encoder, JSON.stringify(state))
+  }
+  return encoding.toUint8Array(encoder)
+}
+
+/** The state of the first entry in an awareness update. */
+function decode(update: Uint8Array): Record<string, unknown> {
+  const decoder = decoding.createDecoder(update)
+  decoding.readVarUint(decoder) // count
+  decoding.readVarUint(decoder) // client ID
+  decoding.readVarUint(decoder) // clock
+  return JSON.parse(decoding.readVarString(decoder))
+}
+
+describe('stampAwareness', () => {
+  const identity = { userId: 'user_alice', name: 'Alice' }
+
+  it('replaces a spoofed userId and name with the verified identity', () => {
+    const result = stampAwareness(
+      awarenessUpdate([7, { name: 'Mallory', userId: 'user_bob', color: '#f00', cursor: null }]),
+      identity,
+      null,
+    )
+    expect(result?.clientId).toBe(7)
+    expect(decode(result!.update)).toEqual({ name: 'Alice', userId: 'user_alice', color: '#f00', cursor: null })
+  })
+
+  it('round-trips through y-protocols awareness', () => {
+    const doc = new Y.Doc()
+    const awareness = new awarenessProtocol.Awareness(doc)
+    awareness.setLocalState({ name: 'Mallory', userId: 'user_bob' })
+    const update = awarenessProtocol.encodeAwarenessUpdate(awareness, [doc.clientID])
+
+    const receiver = new awarenessProtocol.Awareness(new Y.Doc())
+    awarenessProtocol.applyAwarenessUpdate(receiver, stampAwareness(update, identity, null)!.update, 'test')
+    expect(receiver.getStates().get(doc.clientID)).toEqual({ name: 'Alice', userId: 'user_alice' })
+  })
+
+  it('strips userId for guests and keeps their chosen name', () => {
+    const result = stampAwareness(
+      awarenessUpdate([7, { name: 'Guest', userId: 'user_bob' }]),
+      { userId: null, name: null },
+      null,
+    )
+    expect(decode(result!.update)).toEqual({ name: 'Guest' })
+  })
+
+  it('keeps summons only from sockets that may summon', () => {
+    const update = awarenessUpdate([7, { name: 'Alice', summon: 2 }])
+    expect(decode(stampAwareness(update, { ...identity, canSummon: true }, null)!.update).summon).toBe(2)
+    expect(decode(stampAwareness(update, identity, null)!.update)).not.toHaveProperty('summon')
+  })
+
+  it('passes a null state (client leaving) through', () => {
+    const result = stampAwareness(awarenessUpdate([7, null]), identity, 7)
+    expect(result?.clientId).toBe(7)
+    expect(decode(result!.update)).toBeNull()
+  })
+
+  it('drops updates for a different client than the socket is bound to', () => {
+    expect(stampAwareness(awarenessUpdate([8, {}]), identity, 7)).toBeNull()
+    expect(stampAwareness(awarenessUpdate([7, {}], [8, null]), identity, null)).toBeNull()
+  })
+
+  it('drops malformed updates', () => {
+    expect(stampAwareness(new Uint8Array([1, 7, 1, 1, 0x7b]), identity, null)).toBeNull()
+    expect(stampAwareness(awarenessUpdate(), identity, null)).toBeNull()
+    expect(stampAwareness(awarenessUpdate([7, 'not an object']), identity, null)).toBeNull()
+  })
+})
@@ -3,8 +3,10 @@
  *
  * Tests the WebSocket relay server behavior:
  *  - Health check endpoint
- *  - New client receives initial document state
+ *  - Sync step 1 / step 2 handshake (only missing updates are exchanged)
  *  - Updates broadcast to other clients in the same room
+ *  - Invalid updates rejected with the reason, sent back to the sender only
+ *  - Awareness relayed, snapshotted for new clients, and cleared on leave
  *  - Room isolation (room A doesn't leak to room B)
  *
  * Spins up the actual HTTP + WebSocket server on a random port,
@@ -15,9 +17,21 @@ import { describe, it, expect, beforeAll, afterAll } from 'vitest'
 import http from 'http'
 import { WebSocketServer, WebSocket } from 'ws'
 import * as Y from 'yjs'
-
-const MSG_YJS = 0
-const MSG_AWARENESS = 1
+import * as encoding from 'lib0/encoding'
+import * as decoding from 'lib0/decoding'
+import * as syncProtocol from 'y-protocols/sync'
+import * as awarenessProtocol from 'y-protocols/awareness'
+import * as authProtocol from 'y-protocols/auth'
+import {
+  readClientMessage,
+  encodeSyncStep1,
+  encodeUpdateMessage,
+  encodeAwarenessMessage,
+  encodeAwarenessSnapshot,
+  encodePermissionDenied,
+} from '../syncProtocol.js'
+import { validateUpdate } from '../security.js'
+import { MSG_SYNC, MSG_AWARENESS, MSG_AUTH } from '../../../shared/constants.js'
 
 // ---------------------------------------------------------------------------
 // Test server (mirrors server/src/index.ts)
@@ -27,11 +41,34 @@ let server: http.Server
 let wss: WebSocketServer
 let port: number
 const docs = new Map<string, Y.Doc>()
+const awarenesses = new Map<string, awarenessProtocol.Awareness>()
 const socketRooms = new Map<WebSocket, string>()
 
+function broadcast(room: string, msg: Uint8Array, origin: unknown): void {
+  for (const client of wss.clients) {
+    if (client !== origin && client.readyState === WebSocket.OPEN && socketRooms.get(client) === room) {
+      client.send(msg)
+    }
+  }
+}
+
 function getOrCreateDoc(room: string): Y.Doc {
   if (!docs.has(room)) {
-    docs.set(room, new Y.Doc())
+    const doc = new Y.Doc()
+    doc.on('update', (update: Uint8Array, origin: unknown) => {
+      broadcast(room, encodeUpdateMessage(update), origin)
+    })
+    const awareness = new awarenessProtocol.Awareness(doc)
+    awareness.setLocalState(null)
+    awareness.on('update', (
+      { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown,
+    ) => {
+      const changed = [...added, ...updated, ...removed]
+      broadcast(room, encodeAwarenessMessage(awarenessProtocol.encodeAwarenessUpdate(awareness, changed)), origin)
+    })
+    docs.set(room, doc)
+    awarenesses.set(room, awareness)
   }
   return docs.get(room)!
 }
@@ -55,34 +92,48 @@ beforeAll(
       wss.on('connection', (ws, req) => {
         const room = req.url?.slice(1) || 'default'
         const doc = getOrCreateDoc(room)
+        const awareness = awarenesses.get(room)!
+        let awarenessClientId: number | null = null
         socketRooms.set(ws, room)
 
-        // Send initial state
-        const state = Y.encodeStateAsUpdate(doc)
-        const initMsg = new Uint8Array(1 + state.length)
-        initMsg[0] = MSG_YJS
-        initMsg.set(state, 1)
-        ws.send(initMsg)
-
-        ws.on('message', (raw: ArrayBuffer | Buffer) => {
-          const data = new Uint8Array(raw instanceof ArrayBuffer ? raw : raw.buffer.slice(raw.byteOffset, raw.byteOffset + raw.byteLength))
-          if (data.length < 2) return
-          const msgType = data[0]
-          const payload = data.slice(1)
-
-          if (msgType === MSG_YJS) {
-            Y.applyUpdate(doc, payload, 'remote')
-          }
-
-          for (const client of wss.clients) {
-            if (client !== ws && client.readyState === WebSocket.OPEN && socketRooms.get(client) === room) {
-              client.send(data)
+        ws.send(encodeSyncStep1(doc))
+        const presence = encodeAwarenessSnapshot(awareness)
+        if (presence) ws.send(presence)
+
+        ws.on('message', (raw: Buffer) => {
+          const data = new Uint8Array(raw.buffer.slice(raw.byteOffset, raw.byteOffset + raw.byteLength))
+          const message = readClientMessage(data, doc)
+          if (!message) return
+          switch (message.type) {
+            case 'sync-step1':
+              ws.send(message.reply)
+              break
+            case 'update': {
+              const check = validateUpdate(doc, message.update)
+              if (check.ok) Y.applyUpdate(doc, message.update, ws)
+              else ws.send(encodePermissionDenied(check.error))
+              break
+            }
+            case 'awareness': {
+              const decoder = decoding.createDecoder(message.update)
+              decoding.readVarUint(decoder)
+              awarenessClientId = decoding.readVarUint(decoder)
+              awarenessProtocol.applyAwarenessUpdate(awareness, message.update, ws)
+              break
+            }
+            case 'query-awareness': {
+              const snapshot = encodeAwarenessSnapshot(awareness)
+              if (snapshot) ws.send(snapshot)
+              break
             }
           }
         })
 
         ws.on('close', () => {
           socketRooms.delete(ws)
+          if (awarenessClientId !== null) {
+            awarenessProtocol.removeAwarenessStates(awareness, [awarenessClientId], ws)
+          }
         })
       })
 
@@ -165,11 +216,36 @@ function waitForMessage(client: TestClient): Promise<Uint8Array> {
   return (client as any).waitForMessage()
 }
 
-function encodeYjsMessage(update: Uint8Array): Uint8Array {
-  const msg = new Uint8Array(1 + update.length)
-  msg[0] = MSG_YJS
-  msg.set(update, 1)
-  return msg
+/** Read a sync message into `doc`; returns the sync message type. */
+function readSync(msg: Uint8Array, doc: Y.Doc): number {
+  const decoder = decoding.createDecoder(msg)
+  expect(decoding.readVarUint(decoder)).toBe(MSG_SYNC)
+  return syncProtocol.readSyncMessage(decoder, encoding.createEncoder(), doc, 'server')
+}
+
+/** The payload of a sync message (the state vector or update). */
+function syncPayload(msg: Uint8Array): Uint8Array {
+  const decoder = decoding.createDecoder(msg)
+  decoding.readVarUint(decoder)
+  decoding.readVarUint(decoder)
+  return decoding.readVarUint8Array(decoder)
+}
+
+/** Sync step 1 from a client doc. */
+function step1(doc: Y.Doc): Uint8Array {
+  return encodeSyncStep1(doc)
+}
+
+/** Run the client half of the handshake: send our step 1, apply the step 2. */
+async function syncClient(client: TestClient, doc: Y.Doc): Promise<void> {
+  expect(readSync(await waitForMessage(client), doc)).toBe(syncProtocol.messageYjsSyncStep1)
+  client.ws.send(step1(doc))
+  expect(readSync(await waitForMessage(client), doc)).toBe(syncProtocol.messageYjsSyncStep2)
+}
+
+/** A valid sticky note, so the server's validation lets it through. */
+function sticky(id: string, extra: Record<string, unknown> = {}) {
+  return { id, type: 'sticky', x: 0, y: 0, width: 200, height: 200, fill: '#FEF08A', ...extra }
 }
 
 function delay(ms: number) {
@@ -189,39 +265,33 @@ describe('Health check', () => {
   })
 })
 
-describe('Initial state delivery', () => {
-  it('new client receives initial Yjs state on connect', async () => {
+describe('Sync handshake', () => {
+  it('new client receives sync step 1 on connect', async () => {
     const client = await connectClient('init-test')
     const msg = await waitForMessage(client)
 
-    expect(msg[0]).toBe(MSG_YJS)
-
-    // Payload should be a valid Yjs state update
-    const payload = msg.slice(1)
-    const doc = new Y.Doc()
-    expect(() => Y.applyUpdate(doc, payload)).not.toThrow()
+    expect(msg[0]).toBe(MSG_SYNC)
+    expect(msg[1]).toBe(syncProtocol.messageYjsSyncStep1)
+    expect(() => Y.decodeStateVector(syncPayload(msg))).not.toThrow()
 
     client.close()
-    doc.destroy()
   })
 
   it('new client receives objects created by a previous client', async () => {
     const clientA = await connectClient('persist-test')
-    await waitForMessage(clientA) // consume initial empty state
+    await waitForMessage(clientA) // consume step 1
 
     // A creates an object
     const docA = new Y.Doc()
-    docA.getMap('objects').set('obj1', { id: 'obj1', type: 'sticky', x: 10, y: 20 })
-    clientA.ws.send(encodeYjsMessage(Y.encodeStateAsUpdate(docA)))
+    docA.getMap('objects').set('obj1', sticky('obj1', { x: 10, y: 20 }))
+    clientA.ws.send(encodeUpdateMessage(Y.encodeStateAsUpdate(docA)))
 
     await delay(100)
 
-    // B connects and should receive the object in initial state
+    // B connects and gets the object in the step 2 answering its step 1
     const clientB = await connectClient('persist-test')
-    const initMsg = await waitForMessage(clientB)
-
     const docB = new Y.Doc()
-    Y.applyUpdate(docB, initMsg.slice(1))
+    await syncClient(clientB, docB)
     expect(docB.getMap('objects').get('obj1')).toBeDefined()
 
     clientA.close()
@@ -229,33 +299,83 @@ describe('Initial state delivery', () => {
     docA.destroy()
     docB.destroy()
   })
+
+  it('a reconnecting client only receives the updates it is missing', async () => {
+    const docA = new Y.Doc()
+    const clientA = await connectClient('resync-test')
+    await syncClient(clientA, docA)
+    docA.getMap('objects').set('old', sticky('old', { text: 'x'.repeat(1000) }))
+    clientA.ws.send(encodeUpdateMessage(Y.encodeStateAsUpdate(docA)))
+    await delay(100)
+
+    // C was here for the old object; it then misses a small one
+    const docC = new Y.Doc()
+    Y.applyUpdate(docC, Y.encodeStateAsUpdate(docA))
+    docA.getMap('objects').set('new', sticky('new'))
+    clientA.ws.send(encodeUpdateMessage(Y.encodeStateAsUpdate(docA, Y.encodeStateVector(docC))))
+    await delay(100)
+
+    const clientC = await connectClient('resync-test')
+    await waitForMessage(clientC) // server step 1
+    clientC.ws.send(step1(docC))
+    const reply = await waitForMessage(clientC)
+    expect(reply[1]).toBe(syncProtocol.messageYjsSyncStep2)
+    expect(syncPayload(reply).length).toBeLessThan(200)
+
+    readSync(reply, docC)
+    expect(docC.getMap('objects').get('new')).toEqual(sticky('new'))
+
+    clientA.close()
+    clientC.close()
+    docA.destroy()
+    docC.destroy()
+  })
+
+  it('applies the step 2 a client answers with', async () => {
+    const docA = new Y.Doc()
+    docA.getMap('objects').set('offline', sticky('offline'))
+
+    const clientA = await connectClient('step2-test')
+    const serverStep1 = await waitForMessage(clientA)
+    const encoder = encoding.createEncoder()
+    encoding.writeVarUint(encoder, MSG_SYNC)
+    syncProtocol.readSyncMessage(decoding.createDecoder(serverStep1.slice(1)), encoder, docA, 'server')
+    clientA.ws.send(encoding.toUint8Array(encoder))
+
+    await delay(100)
+    expect(docs.get('step2-test')!.getMap('objects').get('offline')).toEqual(sticky('offline'))
+
+    clientA.close()
+    docA.destroy()
+  })
 })
 
 describe('Broadcast', () => {
   it('broadcasts Yjs updates to other clients in the same room', async () => {
     const clientA = await connectClient('bcast-test')
     const clientB = await connectClient('bcast-test')
-    await waitForMessage(clientA) // consume init
-    await waitForMessage(clientB) // consume init
+    await waitForMessage(clientA) // consume step 1
+    await waitForMessage(clientB) // consume step 1
 
     // A sends an update
     const docA = new Y.Doc()
-    docA.getMap('objects').set('x', { id: 'x', value: 42 })
-    clientA.ws.send(encodeYjsMessage(Y.encodeStateAsUpdate(docA)))
+    docA.getMap('objects').set('x', sticky('x', { text: '42' }))
+    clientA.ws.send(encodeUpdateMessage(Y.encodeStateAsUpdate(docA)))
 
     // B should receive it
-    const received = await waitForMessage(clientB)
-    expect(received[0]).toBe(MSG_YJS)
-    expect(received.length).toBeGreaterThan(1)
+    const docB = new Y.Doc()
+    expect(readSync(await waitForMessage(clientB), docB)).toBe(syncProtocol.messageYjsUpdate)
+    expect(docB.getMap('objects').get('x')).toEqual(sticky('x', { text: '42' }))
 
     clientA.close()
     clientB.close()
     docA.destroy()
+    docB.destroy()
   })
 
   it('does NOT echo message back to the sender', async () => {
     const clientA = await connectClient('echo-test')
-    await waitForMessage(clientA) // consume init
+    await waitForMessage(clientA) // consume step 1
 
     let receivedExtra = false
     clientA.ws.on('message', () => {
@@ -263,8 +383,8 @@ describe('Broadcast', () => {
     })
 
     const docA = new Y.Doc()
-    docA.getMap('objects').set('y', { id: 'y' })
-    clientA.ws.send(encodeYjsMessage(Y.encodeStateAsUpdate(docA)))
+    docA.getMap('objects').set('y', sticky('y'))
+    clientA.ws.send(encodeUpdateMessage(Y.encodeStateAsUpdate(docA)))
 
     await delay(200)
     expect(receivedExtra).toBe(false)
@@ -273,29 +393,78 @@ describe('Broadcast', () => {
     docA.destroy()
   })
 
-  it('broadcasts awareness messages to other clients', async () => {
+  it('rejects an invalid object, telling only the sender why', async () => {
+    const clientA = await connectClient('invalid-test')
+    const clientB = await connectClient('invalid-test')
+    await waitForMessage(clientA) // consume step 1
+    await waitForMessage(clientB) // consume step 1
+
+    const docA = new Y.Doc()
+    docA.getMap('objects').set('bad', sticky('bad', { x: Number.NaN }))
+    clientA.ws.send(encodeUpdateMessage(Y.encodeStateAsUpdate(docA)))
+
+    const decoder = decoding.createDecoder(await waitForMessage(clientA))
+    expect(decoding.readVarUint(decoder)).toBe(MSG_AUTH)
+    let reason = ''
+    authProtocol.readAuthMessage(decoder, docA, (_doc, denied) => { reason = denied })
+    expect(reason).toBe('Object "bad": x must be a finite number')
+
+    await delay(100)
+    expect(clientB.messages).toEqual([])
+    expect(docs.get('invalid-test')!.getMap('objects').has('bad')).toBe(false)
+
+    clientA.close()
+    clientB.close()
+    docA.destroy()
+  })
+
+  it('relays awareness to other clients and clears it when they leave', async () => {
     const clientA = await connectClient('aware-test')
     const clientB = await connectClient('aware-test')
     await waitForMessage(clientA)
     await waitForMessage(clientB)
 
-    const cursor = { clientId: 'a1', name: 'Alice', color: '#f00', cursor: { x: 100, y: 200 } }
-    const encoded = new TextEncoder().encode(JSON.stringify(cursor))
-    const msg = new Uint8Array(1 + encoded.length)
-    msg[0] = MSG_AWARENESS
-    msg.set(encoded, 1)
-
-    clientA.ws.send(msg)
+    const localA = new awarenessProtocol.Awareness(new Y.Doc())
+    localA.setLocalState({ name: 'Alice', color: '#f00', cursor: { x: 100, y: 200 } })
+    clientA.ws.send(encodeAwarenessMessage(awarenessProtocol.encodeAwarenessUpdate(localA, [localA.clientID])))
 
     const received = await waitForMessage(clientB)
     expect(received[0]).toBe(MSG_AWARENESS)
 
-    const payload = JSON.parse(new TextDecoder().decode(received.slice(1)))
-    expect(payload.name).toBe('Alice')
-    expect(payload.cursor).toEqual({ x: 100, y: 200 })
+    const remoteB = new awarenessProtocol.Awareness(new Y.Doc())
+    const decoder = decoding.createDecoder(received)
+    decoding.readVarUint(decoder)
+    awarenessProtocol.applyAwarenessUpdate(remoteB, decoding.readVarUint8Array(decoder), 'server')
+    expect(remoteB.getStates().get(localA.clientID)).toMatchObject({ name: 'Alice', cursor: { x: 100, y: 200 } })
 
     clientA.close()
+    const removal = decoding.createDecoder(await waitForMessage(clientB))
+    decoding.readVarUint(removal)
+    awarenessProtocol.applyAwarenessUpdate(remoteB, decoding.readVarUint8Array(removal), 'server')
+    expect(remoteB.getStates().has(localA.clientID)).toBe(false)
+
     clientB.close()
+    localA.destroy()
+    remoteB.destroy()
+  })
+
+  it('sends new clients the presence of everyone already in the room', async () => {
+    const clientA = await connectClient('aware-join-test')
+    await waitForMessage(clientA)
+
+    const localA = new awarenessProtocol.Awareness(new Y.Doc())
+    localA.setLocalState({ name: 'Alice' })
+    clientA.ws.send(encodeAwarenessMessage(awarenessProtocol.encodeAwarenessUpdate(localA, [localA.clientID])))
+    await delay(100)
+
+    const clientB = await connectClient('aware-join-test')
+    await waitForMessage(clientB) // step 1
+    const snapshot = await waitForMessage(clientB)
+    expect(snapshot[0]).toBe(MSG_AWARENESS)
+
+    clientA.close()
+    clientB.close()
+    localA.destroy()
   })
 })
 
@@ -312,8 +481,8 @@ describe('Room isolation', () => {
     })
 
     const doc = new Y.Doc()
-    doc.getMap('objects').set('isolated', { id: 'isolated' })
-    clientA.ws.send(encodeYjsMessage(Y.encodeStateAsUpdate(doc)))
+    doc.getMap('objects').set('isolated', sticky('isolated'))
+    clientA.ws.send(encodeUpdateMessage(Y.encodeStateAsUpdate(doc)))
 
     await delay(200)
     expect(bReceivedMessage).toBe(false)
@@ -328,17 +497,15 @@ describe('Room isolation', () => {
     await waitForMessage(clientX)
 
     const docX = new Y.Doc()
-    docX.getMap('objects').set('x-only', { id: 'x-only' })
-    clientX.ws.send(encodeYjsMessage(Y.encodeStateAsUpdate(docX)))
+    docX.getMap('objects').set('x-only', sticky('x-only'))
+    clientX.ws.send(encodeUpdateMessage(Y.encodeStateAsUpdate(docX)))
 
     await delay(100)
 
     // New client joins a different room — should NOT see room-x data
     const clientY = await connectClient('state-room-y')
-    const initY = await waitForMessage(clientY)
-
     const docY = new Y.Doc()
-    Y.applyUpdate(docY, initY.slice(1))
+    await syncClient(clientY, docY)
     expect(docY.getMap('objects').get('x-only')).toBeUndefined()
 
     clientX.close()
@@ -8,7 +8,7 @@
 import { describe, it, expect } from 'vitest'
 import * as Y from 'yjs'
 import {
-  shouldRejectUpdate,
+  validateUpdate,
   MAX_OBJECTS_PER_BOARD,
 } from '../security.js'
 
@@ -16,41 +16,51 @@ import {
 // Preemptive object count validation
 // ============================================================================
 
-describe('shouldRejectUpdate — preemptive object limit check', () => {
-  it('returns false when object count is well under the limit', () => {
+describe('validateUpdate — preemptive object limit check', () => {
+  function sticky(id: string) {
+    return { id, type: 'sticky', x: 0, y: 0, width: 200, height: 150, fill: '#FEF08A' }
+  }
+
+  function boardWith(count: number): Y.Doc {
     const doc = new Y.Doc()
-    doc.getMap('objects').set('a', { id: 'a' })
-    expect(shouldRejectUpdate(doc)).toBe(false)
+    doc.transact(() => {
+      const map = doc.getMap('objects')
+      for (let i = 0; i < count; i++) map.set(`obj-${i}`, sticky(`obj-${i}`))
+    })
+    return doc
+  }
+
+  /** An update adding one object, made on a copy of `doc`. */
+  function addOne(doc: Y.Doc): Uint8Array {
+    const copy = new Y.Doc()
+    Y.applyUpdate(copy, Y.encodeStateAsUpdate(doc))
+    const before = Y.encodeStateVector(copy)
+    copy.getMap('objects').set('new', sticky('new'))
+    return Y.encodeStateAsUpdate(copy, before)
+  }
+
+  it('accepts a new object when the count is well under the limit', () => {
+    const doc = boardWith(1)
+    expect(validateUpdate(doc, addOne(doc))).toEqual({ ok: true })
     doc.destroy()
   })
 
-  it('returns false when object count is exactly at limit - 1', () => {
-    const doc = new Y.Doc()
-    const map = doc.getMap('objects')
-    for (let i = 0; i < MAX_OBJECTS_PER_BOARD - 1; i++) {
-      map.set(`obj-${i}`, { id: `obj-${i}` })
-    }
-    expect(shouldRejectUpdate(doc)).toBe(false)
+  it('accepts a new object when the count is exactly at limit - 1', () => {
+    const doc = boardWith(MAX_OBJECTS_PER_BOARD - 1)
+    expect(validateUpdate(doc, addOne(doc))).toEqual({ ok: true })
     doc.destroy()
   })
 
-  it('returns true when object count is at the limit', () => {
-    const doc = new Y.Doc()
-    const map = doc.getMap('objects')
-    for (let i = 0; i < MAX_OBJECTS_PER_BOARD; i++) {
-      map.set(`obj-${i}`, { id: `obj-${i}` })
-    }
-    expect(shouldRejectUpdate(doc)).toBe(true)
+  it('rejects a new object when the count is at the limit, without applying it', () => {
+    const doc = boardWith(MAX_OBJECTS_PER_BOARD)
+    expect(validateUpdate(doc, addOne(doc)).ok).toBe(false)
+    expect(doc.getMap('objects').size).toBe(MAX_OBJECTS_PER_BOARD)
     doc.destroy()
   })
 
-  it('returns true when object count exceeds the limit', () => {
-    const doc = new Y.Doc()
-    const map = doc.getMap('objects')
-    for (let i = 0; i < MAX_OBJECTS_PER_BOARD + 10; i++) {
-      map.set(`obj-${i}`, { id: `obj-${i}` })
-    }
-    expect(shouldRejectUpdate(doc)).toBe(true)
+  it('rejects a new object when the count already exceeds the limit', () => {
+    const doc = boardWith(MAX_OBJECTS_PER_BOARD + 10)
+    expect(validateUpdate(doc, addOne(doc)).ok).toBe(false)
     doc.destroy()
   })
 })
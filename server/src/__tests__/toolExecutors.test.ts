@@ -0,0 +1,278 @@
+/**
+ * Bulk and Layout Tool Tests
+ *
+ * The AI tools that act on several objects at once:
+ *  - deleteObjects: removes objects and their text, and a frame's children
+ *  - updateObjectsByFilter: one change to every object matching a filter
+ *  - connectObjects: a line between two objects' centers, attached to both
+ *  - alignObjects / distributeObjects: line up or space out a set of IDs
+ *  - fitFrameToChildren: wraps a frame around its children
+ *  - reparentObjects: moves objects into or out of a frame
+ *
+ * Plus executeTool's selection check for each of them.
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as Y from 'yjs'
+import { TEXT_MAP } from '../../../shared/constants.js'
+import type { BoardObject } from '../../../shared/types.js'
+import {
+  executeDeleteObjects,
+  executeUpdateObjectsByFilter,
+  executeConnectObjects,
+  executeAlignObjects,
+  executeDistributeObjects,
+  executeFitFrameToChildren,
+  executeReparentObjects,
+  executeTool,
+  createToolContext,
+} from '../toolExecutors.js'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function board(objects: Array<Partial<BoardObject> & { id: string }>): Y.Map<BoardObject> {
+  const map = new Y.Doc().getMap<BoardObject>('objects')
+  for (const obj of objects) {
+    map.set(obj.id, { type: 'sticky', x: 0, y: 0, width: 100, height: 100, fill: '#FFD700', rotation: 0, ...obj })
+  }
+  return map
+}
+
+function run(result: string): Record<string, any> {
+  return JSON.parse(result)
+}
+
+// ---------------------------------------------------------------------------
+// deleteObjects
+// ---------------------------------------------------------------------------
+
+describe('deleteObjects', () => {
+  it('deletes the objects and their text', () => {
+    const objects = board([{ id: 'a' }, { id: 'b' }])
+    objects.doc!.getMap(TEXT_MAP).set('a', new Y.Text('hello'))
+
+    const result = run(executeDeleteObjects({ ids: ['a', 'missing'] }, objects))
+
+    expect(result).toEqual({ success: true, deleted: ['a'], notFound: ['missing'] })
+    expect([...objects.keys()]).toEqual(['b'])
+    expect(objects.doc!.getMap(TEXT_MAP).has('a')).toBe(false)
+  })
+
+  it('deletes a frame together with its children', () => {
+    const objects = board([{ id: 'f', type: 'frame' }, { id: 'child', parentId: 'f' }, { id: 'other' }])
+    run(executeDeleteObjects({ ids: ['f'] }, objects))
+    expect([...objects.keys()]).toEqual(['other'])
+  })
+
+  it('fails when none of the objects exist', () => {
+    expect(run(executeDeleteObjects({ ids: ['nope'] }, board([]))).success).toBe(false)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// updateObjectsByFilter
+// ---------------------------------------------------------------------------
+
+describe('updateObjectsByFilter', () => {
+  it('updates every object matching all filter fields', () => {
+    const objects = board([
+      { id: 'pink-sticky', fill: '#FFB6C1' },
+      { id: 'pink-rect', type: 'rect', fill: '#FFB6C1' },
+      { id: 'yellow-sticky' },
+    ])
+
+    const result = run(executeUpdateObjectsByFilter(
+      { filter: { type: 'sticky', fill: '#ffb6c1' }, changes: { fill: '#87CEEB', width: 220 } },
+      objects,
+    ))
+
+    expect(result).toEqual({ success: true, updated: ['pink-sticky'], fields: ['fill', 'width'] })
+    expect(objects.get('pink-sticky')).toMatchObject({ fill: '#87CEEB', width: 220 })
+    expect(objects.get('pink-rect')!.fill).toBe('#FFB6C1')
+  })
+
+  it('matches text case-insensitively, including collaborative text', () => {
+    const objects = board([{ id: 'a' }, { id: 'b', text: 'Done' }])
+    objects.doc!.getMap(TEXT_MAP).set('a', new Y.Text('TODO: ship it'))
+
+    const result = run(executeUpdateObjectsByFilter({ filter: { textContains: 'todo' }, changes: { fill: '#FF6B6B' } }, objects))
+    expect(result.updated).toEqual(['a'])
+  })
+
+  it('refuses an empty filter or no changes', () => {
+    const objects = board([{ id: 'a' }])
+    expect(run(executeUpdateObjectsByFilter({ filter: {}, changes: { fill: '#000' } }, objects)).error).toContain('filter')
+    expect(run(executeUpdateObjectsByFilter({ filter: { type: 'sticky' }, changes: { text: 'x' } }, objects)).error).toContain('changes')
+  })
+
+  it('only matches objects in `only` when given', () => {
+    const objects = board([{ id: 'a' }, { id: 'b' }])
+    const result = run(executeUpdateObjectsByFilter({ filter: { type: 'sticky' }, changes: { fill: '#000' } }, objects, new Set(['b'])))
+    expect(result.updated).toEqual(['b'])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// connectObjects
+// ---------------------------------------------------------------------------
+
+describe('connectObjects', () => {
+  it('creates an arrow from center to center, attached to both objects', () => {
+    const objects = board([{ id: 'a', x: 0, y: 0 }, { id: 'b', x: 300, y: 200 }])
+
+    const result = run(executeConnectObjects({ fromId: 'a', toId: 'b' }, objects))
+    const line = objects.get(result.id)!
+
+    expect(result).toMatchObject({ success: true, type: 'line', fromId: 'a', toId: 'b' })
+    expect(line).toMatchObject({ type: 'line', x: 50, y: 50, width: 300, height: 200, fromId: 'a', toId: 'b', arrowEnd: true })
+    expect(line.points).toEqual([0, 0, 300, 200])
+  })
+
+  it('fails for missing objects or a self-connection', () => {
+    const objects = board([{ id: 'a' }])
+    expect(run(executeConnectObjects({ fromId: 'a', toId: 'gone' }, objects)).error).toContain('gone')
+    expect(run(executeConnectObjects({ fromId: 'a', toId: 'a' }, objects)).success).toBe(false)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// alignObjects / distributeObjects
+// ---------------------------------------------------------------------------
+
+describe('alignObjects', () => {
+  const objects = () => board([
+    { id: 'a', x: 10, y: 0, width: 100 },
+    { id: 'b', x: 200, y: 50, width: 50 },
+  ])
+
+  it.each([
+    ['left', { a: 10, b: 10 }],
+    ['center', { a: 80, b: 105 }],
+    ['right', { a: 150, b: 200 }],
+  ])('aligns x to the %s', (alignment, expected) => {
+    const map = objects()
+    expect(run(executeAlignObjects({ ids: ['a', 'b'], alignment }, map)).success).toBe(true)
+    expect({ a: map.get('a')!.x, b: map.get('b')!.x }).toEqual(expected)
+    expect(map.get('b')!.y).toBe(50)
+  })
+
+  it('aligns vertically without moving x', () => {
+    const map = objects()
+    executeAlignObjects({ ids: ['a', 'b'], alignment: 'bottom' }, map)
+    expect(map.get('a')).toMatchObject({ x: 10, y: 50 })
+    expect(map.get('b')).toMatchObject({ x: 200, y: 50 })
+  })
+
+  it('needs two objects and a known alignment', () => {
+    expect(run(executeAlignObjects({ ids: ['a'], alignment: 'left' }, objects())).success).toBe(false)
+    expect(run(executeAlignObjects({ ids: ['a', 'b'], alignment: 'diagonal' }, objects())).error).toContain('diagonal')
+  })
+})
+
+describe('distributeObjects', () => {
+  it('spreads objects between the outermost ones with equal gaps', () => {
+    const objects = board([
+      { id: 'c', x: 500, width: 100 },
+      { id: 'a', x: 0, width: 100 },
+      { id: 'b', x: 120, width: 100 },
+    ])
+
+    const result = run(executeDistributeObjects({ ids: ['a', 'b', 'c'], direction: 'horizontal' }, objects))
+
+    expect(result).toMatchObject({ success: true, distributed: ['a', 'b', 'c'], gap: 150 })
+    expect(['a', 'b', 'c'].map((id) => objects.get(id)!.x)).toEqual([0, 250, 500])
+  })
+
+  it('packs objects a fixed gap apart in a column', () => {
+    const objects = board([{ id: 'a', y: 100, height: 50 }, { id: 'b', y: 900, height: 80 }])
+    executeDistributeObjects({ ids: ['a', 'b'], direction: 'vertical', gap: 20 }, objects)
+    expect(objects.get('b')!.y).toBe(170)
+  })
+
+  it('needs three objects without a gap', () => {
+    const objects = board([{ id: 'a' }, { id: 'b' }])
+    expect(run(executeDistributeObjects({ ids: ['a', 'b'], direction: 'horizontal' }, objects)).success).toBe(false)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// fitFrameToChildren / reparentObjects
+// ---------------------------------------------------------------------------
+
+describe('fitFrameToChildren', () => {
+  it('wraps the frame around its children with padding and label room', () => {
+    const objects = board([
+      { id: 'f', type: 'frame', x: 0, y: 0, width: 1000, height: 1000 },
+      { id: 'a', x: 100, y: 100, parentId: 'f' },
+      { id: 'b', x: 300, y: 250, width: 50, height: 50, parentId: 'f' },
+      { id: 'outside', x: 2000, y: 2000 },
+    ])
+
+    const result = run(executeFitFrameToChildren({ id: 'f' }, objects))
+
+    expect(result).toEqual({ success: true, id: 'f', x: 85, y: 65, width: 280, height: 250 })
+    expect(objects.get('f')).toMatchObject({ x: 85, y: 65, width: 280, height: 250 })
+  })
+
+  it('fails for a non-frame or an empty frame', () => {
+    const objects = board([{ id: 'f', type: 'frame' }, { id: 's' }])
+    expect(run(executeFitFrameToChildren({ id: 's' }, objects)).error).toContain('not found')
+    expect(run(executeFitFrameToChildren({ id: 'f' }, objects)).error).toContain('no children')
+  })
+})
+
+describe('reparentObjects', () => {
+  it('puts objects into a frame and takes them out again', () => {
+    const objects = board([{ id: 'f', type: 'frame' }, { id: 'a' }, { id: 'b', parentId: 'old' }])
+
+    expect(run(executeReparentObjects({ ids: ['a', 'b', 'f'], parentId: 'f' }, objects))).toMatchObject({ success: true, ids: ['a', 'b'] })
+    expect(objects.get('a')!.parentId).toBe('f')
+    expect(objects.get('f')!.parentId).toBeUndefined()
+
+    executeReparentObjects({ ids: ['a'] }, objects)
+    expect('parentId' in objects.get('a')!).toBe(false)
+  })
+
+  it('refuses a parent that is not a frame', () => {
+    const objects = board([{ id: 'a' }, { id: 'b' }])
+    expect(run(executeReparentObjects({ ids: ['a'], parentId: 'b' }, objects)).error).toContain('Frame b')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// executeTool dispatch and the selection
+// ---------------------------------------------------------------------------
+
+describe('executeTool with bulk and layout tools', () => {
+  it('dispatches each new tool', () => {
+    const objects = board([{ id: 'a' }, { id: 'b', x: 300 }, { id: 'f', type: 'frame' }])
+    expect(run(executeTool('connectObjects', { fromId: 'a', toId: 'b' }, objects)).success).toBe(true)
+    expect(run(executeTool('alignObjects', { ids: ['a', 'b'], alignment: 'top' }, objects)).success).toBe(true)
+    expect(run(executeTool('reparentObjects', { ids: ['a'], parentId: 'f' }, objects)).success).toBe(true)
+    expect(run(executeTool('fitFrameToChildren', { id: 'f' }, objects)).success).toBe(true)
+    expect(run(executeTool('updateObjectsByFilter', { filter: { parentId: 'f' }, changes: { fill: '#000' } }, objects)).success).toBe(true)
+    expect(run(executeTool('deleteObjects', { ids: ['b'] }, objects)).success).toBe(true)
+  })
+
+  it('refuses to touch unselected objects', () => {
+    const objects = board([{ id: 'a' }, { id: 'b' }, { id: 'c' }])
+    const context = createToolContext({ selectedIds: ['a', 'b'] })
+
+    const refused = run(executeTool('deleteObjects', { ids: ['a', 'c'] }, objects, context))
+    expect(refused.error).toContain('Object c is not selected')
+    expect(objects.size).toBe(3)
+
+    const updated = run(executeTool('updateObjectsByFilter', { filter: { type: 'sticky' }, changes: { fill: '#000' } }, objects, context))
+    expect(updated.updated).toEqual(['a', 'b'])
+    expect(objects.get('c')!.fill).toBe('#FFD700')
+  })
+
+  it('lets a command change the connectors it drew', () => {
+    const objects = board([{ id: 'a' }, { id: 'b', x: 300 }])
+    const context = createToolContext({ selectedIds: ['a', 'b'] })
+    const line = run(executeTool('connectObjects', { fromId: 'a', toId: 'b' }, objects, context))
+    expect(run(executeTool('deleteObjects', { ids: [line.id] }, objects, context)).success).toBe(true)
+  })
+})
@@ -0,0 +1,245 @@
+/**
+ * Update Log Tests
+ *
+ * Tests the incremental Yjs update log:
+ *  - base64 encode/decode round-trip of binary updates
+ *  - Snapshot + tail replay restores edits made after the snapshot
+ *  - Overlapping log rows (already in the snapshot) are harmless
+ *  - Compaction stops at the first logged update the doc lacks
+ *  - appendUpdate / loadUpdates / compactUpdates query shapes
+ *
+ * Uses a mocked Supabase client.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as Y from 'yjs'
+
+vi.mock('../db/supabase.js', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}))
+
+import { supabase } from '../db/supabase.js'
+import {
+  encodeUpdate,
+  decodeUpdate,
+  replayUpdates,
+  appendUpdate,
+  loadUpdates,
+  countAppliedUpdates,
+  getAppliedUpdateId,
+  compactUpdates,
+} from '../db/updateLog.js'
+
+const mockFrom = vi.mocked(supabase!.from)
+
+/** Capture every update a doc emits, like the server's log listener. */
+function recordUpdates(doc: Y.Doc): Uint8Array[] {
+  const log: Uint8Array[] = []
+  doc.on('update', (update: Uint8Array) => log.push(update))
+  return log
+}
+
+/** The update one change to a doc emits. */
+function captureUpdate(doc: Y.Doc, change: () => void): Uint8Array {
+  let captured: Uint8Array = new Uint8Array()
+  const listener = (update: Uint8Array) => { captured = update }
+  doc.on('update', listener)
+  change()
+  doc.off('update', listener)
+  return captured
+}
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+describe('encodeUpdate / decodeUpdate', () => {
+  it('round-trips a binary update through base64', () => {
+    const doc = new Y.Doc()
+    const log = recordUpdates(doc)
+    doc.getMap('objects').set('s1', { id: 's1', type: 'sticky', text: 'Hi' })
+
+    const decoded = decodeUpdate(encodeUpdate(log[0]))
+    expect(Array.from(decoded)).toEqual(Array.from(log[0]))
+
+    doc.destroy()
+  })
+})
+
+describe('replayUpdates', () => {
+  it('restores edits made after the last snapshot', () => {
+    const live = new Y.Doc()
+    const objects = live.getMap('objects')
+    objects.set('a', { id: 'a', text: 'before snapshot' })
+    const snapshot = Y.encodeStateAsUpdate(live)
+
+    // Edits typed during the snapshot window
+    const tail = recordUpdates(live)
+    objects.set('b', { id: 'b', text: 'after snapshot' })
+    objects.set('a', { id: 'a', text: 'edited' })
+
+    const restored = new Y.Doc()
+    const replayed = replayUpdates(restored, snapshot, tail)
+    const restoredObjects = restored.getMap('objects')
+
+    expect(replayed).toBe(2)
+    expect(restoredObjects.size).toBe(2)
+    expect((restoredObjects.get('a') as any).text).toBe('edited')
+    expect((restoredObjects.get('b') as any).text).toBe('after snapshot')
+
+    live.destroy()
+    restored.destroy()
+  })
+
+  it('replays the log alone when no snapshot exists yet', () => {
+    const live = new Y.Doc()
+    const log = recordUpdates(live)
+    live.getMap('objects').set('x', { id: 'x' })
+
+    const restored = new Y.Doc()
+    replayUpdates(restored, null, log)
+    expect(restored.getMap('objects').has('x')).toBe(true)
+
+    live.destroy()
+    restored.destroy()
+  })
+
+  it('tolerates log rows that the snapshot already contains', () => {
+    const live = new Y.Doc()
+    const log = recordUpdates(live)
+    live.getMap('objects').set('x', { id: 'x', text: 'one' })
+    const snapshot = Y.encodeStateAsUpdate(live)
+
+    const restored = new Y.Doc()
+    replayUpdates(restored, snapshot, log)
+    expect(restored.getMap('objects').size).toBe(1)
+    expect((restored.getMap('objects').get('x') as any).text).toBe('one')
+
+    live.destroy()
+    restored.destroy()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Supabase operations
+// ---------------------------------------------------------------------------
+
+describe('appendUpdate', () => {
+  beforeEach(() => vi.clearAllMocks())
+
+  it('inserts a base64 payload keyed by board_id', async () => {
+    const insert = vi.fn().mockResolvedValue({ error: null })
+    mockFrom.mockReturnValue({ insert } as never)
+
+    await appendUpdate('room-1', new Uint8Array([1, 2, 3]))
+
+    expect(mockFrom).toHaveBeenCalledWith('board_updates')
+    expect(insert).toHaveBeenCalledWith({ board_id: 'room-1', payload: 'AQID' })
+  })
+})
+
+describe('loadUpdates', () => {
+  beforeEach(() => vi.clearAllMocks())
+
+  it('returns decoded updates ordered by id', async () => {
+    const order = vi.fn().mockResolvedValue({
+      data: [{ payload: 'AQ==' }, { payload: 'Ag==' }],
+      error: null,
+    })
+    mockFrom.mockReturnValue({
+      select: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ order }) }),
+    } as never)
+
+    const updates = await loadUpdates('room-1')
+
+    expect(order).toHaveBeenCalledWith('id', { ascending: true })
+    expect(updates.map((u) => Array.from(u))).toEqual([[1], [2]])
+  })
+
+  it('returns an empty list on error', async () => {
+    mockFrom.mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          order: vi.fn().mockResolvedValue({ data: null, error: { message: 'boom' } }),
+        }),
+      }),
+    } as never)
+
+    expect(await loadUpdates('room-1')).toEqual([])
+  })
+})
+
+describe('countAppliedUpdates', () => {
+  it('counts the leading updates the doc contains, stopping at the first it lacks', () => {
+    const doc = new Y.Doc()
+    const logged = recordUpdates(doc)
+    doc.getMap('objects').set('a', { id: 'a' })
+
+    // Another instance logged these before they reached this doc
+    const other = new Y.Doc()
+    Y.applyUpdate(other, Y.encodeStateAsUpdate(doc))
+    const deletion = captureUpdate(other, () => other.getMap('objects').delete('a'))
+    const insertion = captureUpdate(other, () => other.getMap('objects').set('b', { id: 'b' }))
+    doc.getMap('objects').set('c', { id: 'c' })
+
+    expect(countAppliedUpdates(doc, [logged[0], deletion, logged[1]])).toBe(1)
+    expect(countAppliedUpdates(doc, [logged[0], insertion])).toBe(1)
+    expect(countAppliedUpdates(doc, logged)).toBe(2)
+
+    Y.applyUpdate(doc, deletion)
+    expect(countAppliedUpdates(doc, [logged[0], deletion, logged[1]])).toBe(3)
+  })
+})
+
+describe('getAppliedUpdateId / compactUpdates', () => {
+  beforeEach(() => vi.clearAllMocks())
+
+  function mockLog(rows: Array<{ id: number; update: Uint8Array }>) {
+    mockFrom.mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          order: vi.fn().mockResolvedValue({
+            data: rows.map((row) => ({ id: row.id, payload: encodeUpdate(row.update) })),
+            error: null,
+          }),
+        }),
+      }),
+    } as never)
+  }
+
+  it('reads the highest log id the doc has applied, not the log head', async () => {
+    const doc = new Y.Doc()
+    const mine = captureUpdate(doc, () => doc.getMap('objects').set('a', { id: 'a' }))
+    const other = new Y.Doc()
+    const theirs = captureUpdate(other, () => other.getMap('objects').set('b', { id: 'b' }))
+
+    mockLog([{ id: 41, update: mine }, { id: 42, update: theirs }])
+    expect(await getAppliedUpdateId('room-1', doc)).toBe(41)
+
+    Y.applyUpdate(doc, theirs)
+    expect(await getAppliedUpdateId('room-1', doc)).toBe(42)
+  })
+
+  it('returns null when the log is empty or starts with an unapplied update', async () => {
+    const doc = new Y.Doc()
+    mockLog([])
+    expect(await getAppliedUpdateId('room-1', doc)).toBeNull()
+
+    const other = new Y.Doc()
+    mockLog([{ id: 7, update: captureUpdate(other, () => other.getMap('objects').set('b', { id: 'b' })) }])
+    expect(await getAppliedUpdateId('room-1', doc)).toBeNull()
+  })
+
+  it('deletes rows up to and including the compaction point', async () => {
+    const lte = vi.fn().mockResolvedValue({ error: null })
+    const eq = vi.fn().mockReturnValue({ lte })
+    mockFrom.mockReturnValue({ delete: vi.fn().mockReturnValue({ eq }) } as never)
+
+    await compactUpdates('room-1', 42)
+
+    expect(eq).toHaveBeenCalledWith('board_id', 'room-1')
+    expect(lte).toHaveBeenCalledWith('id', 42)
+  })
+})
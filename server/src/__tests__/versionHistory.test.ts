@@ -0,0 +1,209 @@
+/**
+ * Version History Tests
+ *
+ * Tests board checkpoints and restore:
+ *  - restoreDocToState adds, updates and deletes objects in one transaction
+ *  - A restore on the server doc reaches a connected client as a plain update
+ *  - GET/POST /api/boards/:id/versions and POST .../restore handlers
+ *
+ * Uses the in-memory persistence backend and mocked auth.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as Y from 'yjs'
+
+vi.mock('../db/supabase.js', () => ({ supabase: null }))
+vi.mock('../auth.js', () => ({
+  authenticateRequest: vi.fn(),
+}))
+
+import { authenticateRequest } from '../auth.js'
+import { persistence } from '../db/persistence.js'
+import { restoreDocToState, autoCheckpointName, RESTORE_ORIGIN } from '../versionHistory.js'
+import { readObject } from '../objectText.js'
+import type { BoardObject } from '../../../shared/types.js'
+import {
+  handleListVersions,
+  handleCreateVersion,
+  handleRestoreVersion,
+} from '../routes/versions.js'
+
+const mockAuth = vi.mocked(authenticateRequest)
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function fakeReq(): { headers: Record<string, string> } {
+  return { headers: { 'content-type': 'application/json' } } as never
+}
+
+function fakeRes() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: '',
+    writeHead(status: number, headers?: Record<string, string>) {
+      res.statusCode = status
+      if (headers) Object.assign(res.headers, headers)
+      return res
+    },
+    end(data?: string) {
+      res.body = data ?? ''
+      return res
+    },
+  }
+  return res
+}
+
+function sticky(id: string, text: string): BoardObject {
+  return { id, type: 'sticky', x: 0, y: 0, width: 200, height: 150, fill: '#FFD700', text }
+}
+
+// ---------------------------------------------------------------------------
+// restoreDocToState
+// ---------------------------------------------------------------------------
+
+describe('restoreDocToState', () => {
+  it('brings the objects map back to the checkpointed contents', () => {
+    const doc = new Y.Doc()
+    const objects = doc.getMap<BoardObject>('objects')
+    objects.set('keep', sticky('keep', 'unchanged'))
+    objects.set('edit', sticky('edit', 'original'))
+    objects.set('gone', sticky('gone', 'deleted later'))
+    const checkpoint = Y.encodeStateAsUpdate(doc)
+
+    // A bad AI command rearranges everything
+    objects.set('edit', sticky('edit', 'overwritten'))
+    objects.delete('gone')
+    objects.set('new', sticky('new', 'added later'))
+
+    const summary = restoreDocToState(doc, checkpoint)
+
+    expect(summary).toEqual({ added: 1, updated: 1, deleted: 1 })
+    expect([...objects.keys()].sort()).toEqual(['edit', 'gone', 'keep'])
+    expect(readObject(objects, 'edit')?.text).toBe('original')
+
+    doc.destroy()
+  })
+
+  it('applies the restore as a single transaction tagged with RESTORE_ORIGIN', () => {
+    const doc = new Y.Doc()
+    doc.getMap('objects').set('a', sticky('a', 'one'))
+    const checkpoint = Y.encodeStateAsUpdate(doc)
+    doc.getMap('objects').set('b', sticky('b', 'two'))
+    doc.getMap('objects').set('c', sticky('c', 'three'))
+
+    const origins: unknown[] = []
+    doc.on('update', (_u: Uint8Array, origin: unknown) => origins.push(origin))
+    restoreDocToState(doc, checkpoint)
+
+    expect(origins).toEqual([RESTORE_ORIGIN])
+    doc.destroy()
+  })
+
+  it('converges a connected client without a reload', () => {
+    const server = new Y.Doc()
+    const client = new Y.Doc()
+    server.on('update', (u: Uint8Array) => Y.applyUpdate(client, u, 'remote'))
+
+    server.getMap('objects').set('a', sticky('a', 'v1'))
+    const checkpoint = Y.encodeStateAsUpdate(server)
+    server.getMap('objects').set('a', sticky('a', 'v2'))
+    expect(readObject(client.getMap<BoardObject>('objects'), 'a')?.text).toBe('v2')
+
+    restoreDocToState(server, checkpoint)
+    expect(readObject(client.getMap<BoardObject>('objects'), 'a')?.text).toBe('v1')
+
+    server.destroy()
+    client.destroy()
+  })
+
+  it('is a no-op when nothing changed', () => {
+    const doc = new Y.Doc()
+    doc.getMap('objects').set('a', sticky('a', 'same'))
+    const checkpoint = Y.encodeStateAsUpdate(doc)
+
+    expect(restoreDocToState(doc, checkpoint)).toEqual({ added: 0, updated: 0, deleted: 0 })
+    doc.destroy()
+  })
+})
+
+describe('autoCheckpointName', () => {
+  it('formats a UTC timestamp to the minute', () => {
+    expect(autoCheckpointName(new Date('2026-02-20T14:05:33Z'))).toBe('Auto-save 2026-02-20 14:05 UTC')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// REST handlers
+// ---------------------------------------------------------------------------
+
+describe('version routes', () => {
+  let boardId: string
+  let doc: Y.Doc
+  const getDoc = async () => doc
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    mockAuth.mockResolvedValue({ userId: 'user_1' })
+    boardId = (await persistence.createBoard('user_1', 'Sprint')).id
+    doc = new Y.Doc()
+    doc.getMap('objects').set('a', sticky('a', 'yesterday'))
+  })
+
+  it('returns 401 when not authenticated', async () => {
+    mockAuth.mockResolvedValue(null)
+    const res = fakeRes()
+    await handleListVersions(fakeReq() as never, res as never, boardId)
+    expect(res.statusCode).toBe(401)
+  })
+
+  it('returns 404 for an unknown board', async () => {
+    const res = fakeRes()
+    await handleListVersions(fakeReq() as never, res as never, 'ffff')
+    expect(res.statusCode).toBe(404)
+  })
+
+  it('saves a named checkpoint and lists it', async () => {
+    const createRes = fakeRes()
+    await handleCreateVersion(fakeReq() as never, createRes as never, boardId, JSON.stringify({ name: 'Before retro' }), getDoc)
+    expect(createRes.statusCode).toBe(201)
+    expect(JSON.parse(createRes.body).version).toMatchObject({ name: 'Before retro', kind: 'named', created_by: 'user_1' })
+
+    const listRes = fakeRes()
+    await handleListVersions(fakeReq() as never, listRes as never, boardId)
+    const { versions } = JSON.parse(listRes.body)
+    expect(versions).toHaveLength(1)
+    expect(versions[0].name).toBe('Before retro')
+  })
+
+  it('rejects a checkpoint without a name', async () => {
+    const res = fakeRes()
+    await handleCreateVersion(fakeReq() as never, res as never, boardId, JSON.stringify({ name: '  ' }), getDoc)
+    expect(res.statusCode).toBe(400)
+  })
+
+  it('restores a checkpoint and keeps a backup of the current state', async () => {
+    const createRes = fakeRes()
+    await handleCreateVersion(fakeReq() as never, createRes as never, boardId, JSON.stringify({ name: 'Good' }), getDoc)
+    const versionId = JSON.parse(createRes.body).version.id
+
+    doc.getMap('objects').set('a', sticky('a', 'today'))
+
+    const res = fakeRes()
+    await handleRestoreVersion(fakeReq() as never, res as never, boardId, versionId, getDoc)
+    expect(res.statusCode).toBe(200)
+    expect(JSON.parse(res.body)).toMatchObject({ success: true, updated: 1 })
+    expect(readObject(doc.getMap<BoardObject>('objects'), 'a')?.text).toBe('yesterday')
+
+    const versions = await persistence.listVersions(boardId)
+    expect(versions.map((v) => v.name)).toEqual(['Before restore', 'Good'])
+  })
+
+  it('returns 404 for an unknown version', async () => {
+    const res = fakeRes()
+    await handleRestoreVersion(fakeReq() as never, res as never, boardId, 'abc', getDoc)
+    expect(res.statusCode).toBe(404)
+  })
+})
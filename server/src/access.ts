@@ -0,0 +1,196 @@
+/**
+ * Per-Board Access Control
+ *
+ * Roles, highest first:
+ *   owner     — boards.owner_id; manages members and invites, renames, deletes
+ *   editor    — edits the canvas and its version history
+ *   commenter — read-only canvas, may take part in discussion
+ *   viewer    — read-only canvas
+ *
+ * Members get their role from a board_members row, either granted directly by
+ * the owner or by opening an invite link. The guest sandbox is open to
+ * everyone and the legacy default room to any signed-in user; other rooms
+ * that are not boards are closed.
+ */
+
+import http from 'http'
+import { randomBytes } from 'crypto'
+import { authenticateRequest, authenticateToken, getUserDisplayName, type AuthUser } from './auth.js'
+import {
+  persistence,
+  type BoardRecord,
+  type BoardRole,
+  type MemberRole,
+  type BoardInvite,
+} from './db/persistence.js'
+import { isTrashed } from './trash.js'
+import { GUEST_BOARD_ID, DEFAULT_BOARD_ID } from '../../shared/constants.js'
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export const ROLE_RANK: Record<BoardRole, number> = {
+  viewer: 0,
+  commenter: 1,
+  editor: 2,
+  owner: 3,
+}
+
+/** Longest allowed invite lifetime (30 days). Invites may also never expire. */
+export const MAX_INVITE_EXPIRY_HOURS = 720
+
+// ---------------------------------------------------------------------------
+// Roles
+// ---------------------------------------------------------------------------
+
+/** True when `role` is at least `required`. A missing role never qualifies. */
+export function hasRole(role: BoardRole | null, required: BoardRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required]
+}
+
+/** Whether a role may write to the board's Yjs doc. */
+export function canEdit(role: BoardRole | null): boolean {
+  return hasRole(role, 'editor')
+}
+
+/** Whether a role may add, answer and resolve comment threads. */
+export function canComment(role: BoardRole | null): boolean {
+  return hasRole(role, 'commenter')
+}
+
+/** Type guard for roles that can be granted to members and invites. */
+export function isMemberRole(value: unknown): value is MemberRole {
+  return value === 'editor' || value === 'commenter' || value === 'viewer'
+}
+
+/**
+ * Resolve a user's role on a board, or null if they have no access.
+ */
+export async function resolveBoardRole(board: BoardRecord, userId: string): Promise<BoardRole | null> {
+  if (board.owner_id === userId) return 'owner'
+  const member = await persistence.getMember(board.id, userId)
+  return member?.role ?? null
+}
+
+// ---------------------------------------------------------------------------
+// REST guard
+// ---------------------------------------------------------------------------
+
+export interface BoardAccess {
+  user: AuthUser
+  board: BoardRecord
+  role: BoardRole
+}
+
+/**
+ * Require the caller to hold at least `required` on a board.
+ * Sends 401/404/403 and returns null when they don't.
+ */
+export async function requireBoardRole(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+  required: BoardRole,
+): Promise<BoardAccess | null> {
+  const user = await authenticateRequest(req)
+  if (!user) {
+    res.writeHead(401, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Authentication required' }))
+    return null
+  }
+
+  let board: BoardRecord | null
+  let role: BoardRole | null = null
+  try {
+    board = await persistence.getBoard(boardId)
+    if (board && !isTrashed(board)) role = await resolveBoardRole(board, user.userId)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to check board access' }))
+    return null
+  }
+
+  if (!board || isTrashed(board)) {
+    res.writeHead(404, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Board not found' }))
+    return null
+  }
+
+  if (!hasRole(role, required)) {
+    res.writeHead(403, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: `Requires ${required} access to this board` }))
+    return null
+  }
+
+  return { user, board, role: role! }
+}
+
+// ---------------------------------------------------------------------------
+// WebSocket access
+// ---------------------------------------------------------------------------
+
+export interface RoomAccess {
+  /** Verified user, or null for a guest in the sandbox. */
+  userId: string | null
+  /** Verified display name, when it could be resolved. */
+  name: string | null
+  role: BoardRole
+}
+
+export type RoomAccessResult =
+  | { ok: true; access: RoomAccess }
+  | { ok: false; code: 'unauthenticated' | 'forbidden' }
+
+/**
+ * Decide what a socket connecting to `room` with `token` may do. Outside
+ * the guest sandbox, a missing or unverifiable token is 'unauthenticated'
+ * (the client should sign in again) and a verified user without access is
+ * 'forbidden'.
+ */
+export async function resolveRoomAccess(room: string, token: string | null): Promise<RoomAccessResult> {
+  const user = token ? await authenticateToken(token) : null
+  const access = await resolveUserRoomAccess(room, user)
+  if (access) return { ok: true, access }
+  return { ok: false, code: user ? 'forbidden' : 'unauthenticated' }
+}
+
+/**
+ * Decide what an (optionally) authenticated user may do in `room`:
+ *  - guest sandbox: anyone may edit
+ *  - legacy default room: any verified user may edit
+ *  - board rooms: require a role on the board, and are closed while the
+ *    board is in the trash
+ *  - any other room: closed
+ *
+ * Throws when the board or role can't be looked up, so an outage is never
+ * mistaken for "no access" or for a room that isn't a board.
+ */
+export async function resolveUserRoomAccess(room: string, user: AuthUser | null): Promise<RoomAccess | null> {
+  if (!user) {
+    return room === GUEST_BOARD_ID ? { userId: null, name: null, role: 'editor' } : null
+  }
+
+  const [board, name] = await Promise.all([
+    persistence.getBoard(room),
+    getUserDisplayName(user.userId),
+  ])
+  if (!board) return room === DEFAULT_BOARD_ID ? { userId: user.userId, name, role: 'editor' } : null
+  if (isTrashed(board)) return null
+
+  const role = await resolveBoardRole(board, user.userId)
+  return role ? { userId: user.userId, name, role } : null
+}
+
+// ---------------------------------------------------------------------------
+// Invites
+// ---------------------------------------------------------------------------
+
+/** An unguessable, URL-safe invite token. */
+export function generateInviteToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+export function isInviteExpired(invite: BoardInvite, now = new Date()): boolean {
+  return invite.expires_at !== null && new Date(invite.expires_at).getTime() <= now.getTime()
+}
@@ -0,0 +1,180 @@
+/**
+ * AI Conversation Memory
+ *
+ * Keeps each board's AI conversation — the user's commands, the replies and
+ * the tool actions they ran — so a command like "now make them blue" can
+ * refer to what came before. Every model call gets the conversation replayed
+ * ahead of the current command.
+ *
+ * Recent turns are kept verbatim up to HISTORY_TOKEN_BUDGET; older ones are
+ * folded into a short summary (one line per turn: the command and the
+ * objects it touched), itself capped at SUMMARY_TOKEN_BUDGET. "New
+ * conversation" starts over with a fresh ID, which is also the Langfuse
+ * session the commands are traced under.
+ *
+ * Conversations live in memory on the instance serving the AI request and
+ * are forgotten when the board's room is unloaded.
+ */
+
+import { randomUUID } from 'crypto'
+import type Anthropic from '@anthropic-ai/sdk'
+import type { ToolAction } from '../../shared/types.js'
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** Estimated tokens of recent turns replayed verbatim. */
+export const HISTORY_TOKEN_BUDGET = 3_000
+
+/** Estimated tokens of the summary of older turns. */
+export const SUMMARY_TOKEN_BUDGET = 600
+
+/** Longest tool result kept per action; results can list whole boards. */
+const MAX_RESULT_CHARS = 300
+
+/** Actions listed per reply; a template can run hundreds. */
+const MAX_ACTIONS_LISTED = 40
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One command and what came of it. */
+export interface ConversationTurn {
+  user: string
+  assistant: string
+  actions: ToolAction[]
+}
+
+export interface Conversation {
+  /** Changes on "new conversation"; used as the Langfuse session ID. */
+  id: string
+  /** One line per turn that no longer fits the budget, oldest first. */
+  summary: string[]
+  /** Turns kept verbatim, oldest first. */
+  turns: ConversationTurn[]
+}
+
+// ---------------------------------------------------------------------------
+// Token estimates
+// ---------------------------------------------------------------------------
+
+/** Rough token count: about four characters per token for English and JSON. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function turnTokens(turn: ConversationTurn): number {
+  return estimateTokens(turn.user) + estimateTokens(formatAssistant(turn))
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/** The reply as the model sees it later: the text plus the actions it ran. */
+function formatAssistant(turn: ConversationTurn): string {
+  if (turn.actions.length === 0) return turn.assistant
+  const actions = turn.actions.slice(0, MAX_ACTIONS_LISTED).map((action) => {
+    const result = action.result.length > MAX_RESULT_CHARS ? `${action.result.slice(0, MAX_RESULT_CHARS)}…` : action.result
+    return `- ${action.tool}(${JSON.stringify(action.input)}) → ${result}`
+  })
+  const more = turn.actions.length - MAX_ACTIONS_LISTED
+  if (more > 0) actions.push(`- …and ${more} more`)
+  return `${turn.assistant}\n\nActions:\n${actions.join('\n')}`
+}
+
+/** One summary line: the command and the IDs of the objects it touched. */
+function summarizeTurn(turn: ConversationTurn): string {
+  const command = turn.user.length > 120 ? `${turn.user.slice(0, 120)}…` : turn.user
+  const ids = new Set<string>()
+  for (const action of turn.actions) {
+    const id = action.input.id ?? parseResultId(action.result)
+    if (typeof id === 'string') ids.add(id)
+  }
+  const touched = ids.size > 0 ? ` → ${turn.actions.length} action(s) on ${[...ids].join(', ')}` : ''
+  return `- "${command}"${touched}`
+}
+
+function parseResultId(result: string): unknown {
+  try {
+    return (JSON.parse(result) as { id?: unknown }).id
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * The messages to send the model: the conversation so far, then `current`
+ * (the command with its board context). Roles alternate as the API expects,
+ * and the summary of older turns leads the first user message. Without a
+ * conversation, just `current`.
+ */
+export function conversationMessages(conversation: Conversation | null, current: string): Anthropic.MessageParam[] {
+  if (!conversation) return [{ role: 'user', content: current }]
+  const messages: Anthropic.MessageParam[] = []
+  for (const turn of conversation.turns) {
+    messages.push({ role: 'user', content: turn.user })
+    messages.push({ role: 'assistant', content: formatAssistant(turn) })
+  }
+  messages.push({ role: 'user', content: current })
+
+  if (conversation.summary.length > 0) {
+    const first = messages[0]
+    first.content = `Summary of earlier commands in this conversation:\n${conversation.summary.join('\n')}\n\n${first.content as string}`
+  }
+  return messages
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+/** Conversations by board ID. */
+export class ConversationStore {
+  private conversations = new Map<string, Conversation>()
+
+  /** The board's conversation, started if there is none. */
+  get(boardId: string): Conversation {
+    let conversation = this.conversations.get(boardId)
+    if (!conversation) {
+      conversation = { id: randomUUID(), summary: [], turns: [] }
+      this.conversations.set(boardId, conversation)
+    }
+    return conversation
+  }
+
+  /** Add a finished turn, summarizing the oldest ones past the budget. */
+  append(boardId: string, turn: ConversationTurn): void {
+    const conversation = this.get(boardId)
+    conversation.turns.push(turn)
+
+    let tokens = conversation.turns.reduce((sum, t) => sum + turnTokens(t), 0)
+    // Always keep the latest turn, however long
+    while (tokens > HISTORY_TOKEN_BUDGET && conversation.turns.length > 1) {
+      const oldest = conversation.turns.shift()!
+      tokens -= turnTokens(oldest)
+      conversation.summary.push(summarizeTurn(oldest))
+    }
+
+    // The oldest summary lines go first
+    while (estimateTokens(conversation.summary.join('\n')) > SUMMARY_TOKEN_BUDGET) {
+      conversation.summary.shift()
+    }
+  }
+
+  /** Start a new conversation on the board; returns its ID. */
+  reset(boardId: string): string {
+    this.conversations.delete(boardId)
+    return this.get(boardId).id
+  }
+
+  /** Forget the board's conversation (its room was unloaded). */
+  forget(boardId: string): void {
+    this.conversations.delete(boardId)
+  }
+}
+
+/** The process-wide store used by the AI endpoints. */
+export const conversations = new ConversationStore()
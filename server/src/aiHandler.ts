@@ -3,8 +3,13 @@
  *
  * Processes natural language commands using Claude Sonnet with tool calling.
  * Mutates the server-side Y.Doc so changes auto-sync to all connected clients.
+ * Each command's changes share one transaction origin, so with a boardId the
+ * command can be undone as one step (see aiUndo.ts).
+ *
+ * Tools: createObject, updateObject, moveObject and getBoardState, plus bulk
+ * and layout tools (deleteObjects, updateObjectsByFilter, connectObjects,
+ * alignObjects, distributeObjects, fitFrameToChildren, reparentObjects)
  *
- * 3 tools: createObject, updateObject, moveObject
  * 6 supported commands:
  *  1. Create a sticky note with text
  *  2. Create a colored rectangle at a position
@@ -14,20 +19,25 @@
  *  6. Set up a template board (e.g., retrospective)
  */
 
+import { randomUUID } from 'crypto'
 import Anthropic from '@anthropic-ai/sdk'
 import * as Y from 'yjs'
 import { parseCommand } from './localParser.js'
 import { createTrace } from './langfuse.js'
 import { CommandCache } from './commandCache.js'
+import type { TokenUsage } from './aiLimits.js'
+import { conversations, conversationMessages, type Conversation } from './aiConversation.js'
+import { aiUndo, type AIOrigin } from './aiUndo.js'
 import {
   executeCreateObject,
   executeUpdateObject,
   executeMoveObject,
   buildBoardContext,
   executeTool,
+  createToolContext,
   findOpenPosition,
 } from './toolExecutors.js'
-import type { BoardObject, ToolAction } from '../../shared/types.js'
+import type { AICommandScope, BoardObject, ToolAction } from '../../shared/types.js'
 
 // Re-export tool executors for backward compatibility (existing tests + localParser)
 export {
@@ -97,7 +107,7 @@ const tools: Anthropic.Tool[] = [
         },
         text: {
           type: 'string',
-          description: 'Text content (used by sticky, text, frame label)',
+          description: 'Text content (used by sticky, text, frame label). Sticky and text objects render a markdown subset, one item per line (\\n): **bold**, *italic*, "- item" bullets, "- [ ] todo" / "- [x] done" checkboxes, [label](https://...) links.',
         },
         fill: {
           type: 'string',
@@ -149,7 +159,7 @@ const tools: Anthropic.Tool[] = [
         },
         text: {
           type: 'string',
-          description: 'New text content',
+          description: 'New text content (same markdown subset as createObject). To tick a checkbox, resend the text with "- [ ]" changed to "- [x]".',
         },
         fill: {
           type: 'string',
@@ -202,6 +212,119 @@ const tools: Anthropic.Tool[] = [
       },
       required: ['id', 'x', 'y'],
     },
+  },
+  {
+    name: 'deleteObjects',
+    description: 'Delete objects from the whiteboard. Deleting a frame also deletes the objects inside it.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the objects to delete',
+        },
+      },
+      required: ['ids'],
+    },
+  },
+  {
+    name: 'updateObjectsByFilter',
+    description:
+      'Update every object matching a filter in one call, e.g. make all pink sticky notes blue. Give at least one filter field and one change.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        filter: {
+          type: 'object',
+          description: 'Objects must match every field given',
+          properties: {
+            type: { type: 'string', enum: ['sticky', 'rect', 'circle', 'text', 'frame', 'line'] },
+            fill: { type: 'string', description: 'Current CSS color' },
+            textContains: { type: 'string', description: 'Case-insensitive text match' },
+            parentId: { type: 'string', description: 'Only objects inside this frame' },
+          },
+        },
+        changes: {
+          type: 'object',
+          properties: {
+            fill: { type: 'string' },
+            width: { type: 'number' },
+            height: { type: 'number' },
+            fontSize: { type: 'number' },
+          },
+        },
+      },
+      required: ['filter', 'changes'],
+    },
+  },
+  {
+    name: 'connectObjects',
+    description: 'Draw a connector line (arrow by default) from one object to another. It stays attached when either object moves.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        fromId: { type: 'string', description: 'ID of the object the connector starts from' },
+        toId: { type: 'string', description: 'ID of the object the connector points to' },
+        fill: { type: 'string', description: 'Line color (default #333333)' },
+        arrowEnd: { type: 'boolean', description: 'Show an arrowhead at the end. Default true.' },
+      },
+      required: ['fromId', 'toId'],
+    },
+  },
+  {
+    name: 'alignObjects',
+    description: 'Align objects along an edge or center line of their combined bounding box.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        ids: { type: 'array', items: { type: 'string' }, description: 'IDs of the objects to align (at least 2)' },
+        alignment: {
+          type: 'string',
+          enum: ['left', 'center', 'right', 'top', 'middle', 'bottom'],
+          description: 'left/center/right line up x; top/middle/bottom line up y',
+        },
+      },
+      required: ['ids', 'alignment'],
+    },
+  },
+  {
+    name: 'distributeObjects',
+    description:
+      'Space objects evenly in a row (horizontal) or column (vertical). Without gap, the outermost objects stay put and the rest are spread between them.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        ids: { type: 'array', items: { type: 'string' }, description: 'IDs of the objects to distribute' },
+        direction: { type: 'string', enum: ['horizontal', 'vertical'] },
+        gap: { type: 'number', description: 'Exact space between objects, packed from the first one' },
+      },
+      required: ['ids', 'direction'],
+    },
+  },
+  {
+    name: 'fitFrameToChildren',
+    description: 'Resize a frame to wrap the objects inside it (those with its ID as parentId), leaving room for its label.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        id: { type: 'string', description: 'ID of the frame' },
+        padding: { type: 'number', description: 'Space around the children (default 15)' },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'reparentObjects',
+    description: 'Put objects into a frame so they move with it, or take them out of their frame by omitting parentId.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        ids: { type: 'array', items: { type: 'string' }, description: 'IDs of the objects to move into (or out of) a frame' },
+        parentId: { type: 'string', description: 'ID of the frame; omit to remove from any frame' },
+      },
+      required: ['ids'],
+    },
     cache_control: { type: 'ephemeral' as const },
   },
 ]
@@ -216,14 +339,15 @@ CRITICAL — AVOID OVERLAPS:
 Read the board context provided with each command. Calculate the bounding box of existing objects (max x+width, max y+height). Place new objects OUTSIDE it. Use getBoardState after placing multiple objects to verify.
 
 RULES:
-1. Always use tools — never just describe actions. Check createObject return values for actual positions.
+1. Always use tools — never just describe actions. Check createObject return values for actual positions. Prefer one bulk/layout tool over many single calls.
 2. Keep positions in visible area (x:50-1200, y:50-900). Canvas scrolls beyond.
 3. For "sticky note" requests, use type "sticky" (200x150 default). Colors are in tool schema.
-4. To change a property of "the sticky note", find it in board context by type/text.
+4. "These"/"them"/"the selection" mean the Selected objects in board context; else find targets by type/text.
 5. For structured layouts (SWOT, retro, kanban, grids): use skipCollisionCheck:true on every createObject. Plan coordinates first. Grid spacing: col=width+20, row=height+20.
 6. Objects inside frames: inset 15px from edges (x=frame.x+15, y=frame.y+35 for label clearance). ALWAYS set parentId to the frame's ID.
-7. Lines/connectors: use type "line" with points=[x1,y1,x2,y2] relative to (x,y). Set fromId and toId for semantic connections. For flowcharts: create boxes first, then connect with lines.
-8. Respond with a brief, friendly message after using tools.`
+7. Connect objects with connectObjects (fromId→toId); for flowcharts create boxes first. Free lines: type "line", points=[x1,y1,x2,y2] relative to (x,y).
+8. Sticky/text support markdown (**bold**, *italic*, "- " bullets, "- [ ] " checklists, [label](url) links); use checklists for to-dos.
+9. Respond with a brief, friendly message after using tools.`
 
 // ---------------------------------------------------------------------------
 // Main Entry Point
@@ -232,12 +356,47 @@ RULES:
 export interface AIResponse {
   message: string
   actions: ToolAction[]
+  /** Set when the command changed the board and can be undone (see aiUndo.ts). */
+  commandId?: string
 }
 
 export interface AICommandMetadata {
   boardId?: string
   userId?: string
   sessionId?: string
+  /** Called with each model call's token usage (for quotas; see aiLimits.ts). */
+  onUsage?: (model: string, usage: TokenUsage) => void
+  /** The user's selection and viewport; a selection limits what may change. */
+  scope?: AICommandScope
+  /** Who ran the command (user or guest key); only they may undo it. */
+  requester?: string
+}
+
+/**
+ * Start a command: its transaction origin, recorded for undo when it runs
+ * on a board. Call finishCommand when it ends.
+ */
+function startCommand(doc: Y.Doc, metadata: AICommandMetadata | undefined): AIOrigin {
+  const origin: AIOrigin = { kind: 'ai', commandId: randomUUID(), userId: metadata?.userId ?? null }
+  if (metadata?.boardId) aiUndo.track(metadata.boardId, doc, origin, metadata.requester)
+  return origin
+}
+
+/** The command's ID if it changed the board and can be undone. */
+function finishCommand(origin: AIOrigin, metadata: AICommandMetadata | undefined): string | undefined {
+  if (!metadata?.boardId) return undefined
+  return aiUndo.finish(metadata.boardId, origin.commandId) ? origin.commandId : undefined
+}
+
+/**
+ * Whether the command may use and feed the cache. Cached recipes replay
+ * against the whole board and know nothing of earlier turns, so commands
+ * about the user's selection, or that follow earlier turns of the
+ * conversation ("now make them blue"), do neither.
+ */
+function usesCache(metadata: AICommandMetadata | undefined, conversation: Conversation | null): boolean {
+  if ((metadata?.scope?.selectedIds.length ?? 0) > 0) return false
+  return !conversation || (conversation.turns.length === 0 && conversation.summary.length === 0)
 }
 
 const MODEL_FAST = 'claude-haiku-4-5-20250514'
@@ -262,10 +421,37 @@ export function isComplexCommand(userMessage: string): boolean {
   return COMPLEX_PATTERNS.test(userMessage) || userMessage.length > 120
 }
 
+/**
+ * Run an AI command against the board. With a boardId, the board's
+ * conversation so far is replayed to the model and the command is added to
+ * it (see aiConversation.ts).
+ */
 export async function processAICommand(
   userMessage: string,
   doc: Y.Doc,
   metadata?: AICommandMetadata
+): Promise<AIResponse> {
+  const conversation = metadata?.boardId ? conversations.get(metadata.boardId) : null
+  const origin = startCommand(doc, metadata)
+  let result: AIResponse
+  let commandId: string | undefined
+  try {
+    result = await runAICommand(userMessage, doc, metadata, conversation, origin)
+  } finally {
+    commandId = finishCommand(origin, metadata)
+  }
+  if (metadata?.boardId) {
+    conversations.append(metadata.boardId, { user: userMessage, assistant: result.message, actions: result.actions })
+  }
+  return commandId ? { ...result, commandId } : result
+}
+
+async function runAICommand(
+  userMessage: string,
+  doc: Y.Doc,
+  metadata: AICommandMetadata | undefined,
+  conversation: Conversation | null,
+  origin: AIOrigin,
 ): Promise<AIResponse> {
   const objectsMap = doc.getMap('objects') as Y.Map<BoardObject>
   const objectCount = objectsMap.size
@@ -274,7 +460,7 @@ export async function processAICommand(
   const trace = createTrace({
     name: 'ai-command',
     userId: metadata?.userId,
-    sessionId: metadata?.sessionId,
+    sessionId: metadata?.sessionId ?? conversation?.id,
     input: userMessage,
     metadata: {
       boardId: metadata?.boardId ?? 'unknown',
@@ -285,7 +471,7 @@ export async function processAICommand(
   // -----------------------------------------------------------------------
   // Fast path: check command cache for a learned recipe
   // -----------------------------------------------------------------------
-  const cachedRecipe = commandCache.match(userMessage)
+  const cachedRecipe = usesCache(metadata, conversation) ? commandCache.match(userMessage) : null
   if (cachedRecipe) {
     console.log(`[AI] Cache hit (intent: ${cachedRecipe.intentKey}, hits: ${cachedRecipe.hitCount}) for: "${userMessage.slice(0, 60)}"`)
 
@@ -294,7 +480,7 @@ export async function processAICommand(
       input: { message: userMessage, intentKey: cachedRecipe.intentKey },
     })
 
-    const result = commandCache.replay(cachedRecipe, userMessage, objectsMap)
+    const result = doc.transact(() => commandCache.replay(cachedRecipe, userMessage, objectsMap), origin)
 
     cacheSpan.update({
       output: { message: result.message, actionCount: result.actions.length },
@@ -324,7 +510,7 @@ export async function processAICommand(
       input: { message: userMessage },
     })
 
-    const result = parseCommand(userMessage, doc)
+    const result = doc.transact(() => parseCommand(userMessage, doc, metadata?.scope), origin)
 
     parserSpan.update({
       output: { message: result.message, actionCount: result.actions.length },
@@ -345,7 +531,8 @@ export async function processAICommand(
 
   try {
   // Full Claude-powered path
-  const boardContext = buildBoardContext(objectsMap)
+  const boardContext = buildBoardContext(objectsMap, metadata?.scope)
+  const toolContext = createToolContext(metadata?.scope)
   const actions: ToolAction[] = []
   let totalInputTokens = 0
   let totalOutputTokens = 0
@@ -357,13 +544,8 @@ export async function processAICommand(
 
   console.log(`[AI] Using ${complex ? 'complex' : 'simple'} budget for: "${userMessage.slice(0, 60)}"`)
 
-  // Build initial messages
-  const messages: Anthropic.MessageParam[] = [
-    {
-      role: 'user',
-      content: `${boardContext}\n\nUser command: ${userMessage}`,
-    },
-  ]
+  // Build initial messages: the conversation so far, then this command
+  const messages = conversationMessages(conversation, `${boardContext}\n\nUser command: ${userMessage}`)
 
   // Multi-turn tool-use loop (cap at 3 for simple, 8 for complex to allow getBoardState checks)
   let maxTurns = complex ? 8 : 3
@@ -399,12 +581,14 @@ export async function processAICommand(
     totalOutputTokens += outputTokens
 
     // Update generation with response data
+    const usage: TokenUsage = { input: inputTokens, output: outputTokens }
     generation.update({
       output: response.content,
-      usage: { input: inputTokens, output: outputTokens },
+      usage,
       metadata: { stopReason: response.stop_reason },
     })
     generation.end()
+    metadata?.onUsage?.(modelName, usage)
 
     // Collect text response parts
     let textResponse = ''
@@ -421,11 +605,12 @@ export async function processAICommand(
         })
 
         // Execute the tool
-        const result = executeTool(
+        const result = doc.transact(() => executeTool(
           block.name,
           block.input as Record<string, unknown>,
-          objectsMap
-        )
+          objectsMap,
+          toolContext,
+        ), origin)
 
         toolSpan.update({ output: JSON.parse(result) })
         toolSpan.end()
@@ -452,7 +637,7 @@ export async function processAICommand(
       }
 
       // Learn from this successful API call for future cache hits
-      commandCache.learn(userMessage, actions, aiResponse.message)
+      if (usesCache(metadata, conversation)) commandCache.learn(userMessage, actions, aiResponse.message)
 
       trace.update({
         output: { message: aiResponse.message, actionCount: actions.length },
@@ -487,7 +672,7 @@ export async function processAICommand(
   }
 
   // Learn from this successful API call for future cache hits
-  commandCache.learn(userMessage, actions, aiResponse.message)
+  if (usesCache(metadata, conversation)) commandCache.learn(userMessage, actions, aiResponse.message)
 
   trace.update({
     output: { message: aiResponse.message, actionCount: actions.length },
@@ -518,7 +703,7 @@ export async function processAICommand(
 
     // Fallback to local parser on any API error (e.g., no credits, rate limit)
     console.log('[AI] Claude API error, falling back to local parser:', String(err).slice(0, 120))
-    return parseCommand(userMessage, doc)
+    return doc.transact(() => parseCommand(userMessage, doc, metadata?.scope), origin)
   }
 }
 
@@ -547,6 +732,35 @@ export async function* processAICommandStream(
   doc: Y.Doc,
   metadata?: AICommandMetadata,
   signal?: AbortSignal
+): AsyncGenerator<AIStreamEvent> {
+  const conversation = metadata?.boardId ? conversations.get(metadata.boardId) : null
+  const origin = startCommand(doc, metadata)
+  // done is always the last event; it is held back until the command is finished
+  let done: Extract<AIStreamEvent, { type: 'done' }> | undefined
+  let commandId: string | undefined
+  try {
+    for await (const event of streamAICommand(userMessage, doc, metadata, signal, conversation, origin)) {
+      if (event.type === 'done') done = event
+      else yield event
+    }
+  } finally {
+    commandId = finishCommand(origin, metadata)
+  }
+  if (!done) return
+  // Only finished commands join the conversation
+  if (metadata?.boardId) {
+    conversations.append(metadata.boardId, { user: userMessage, assistant: done.message, actions: done.actions })
+  }
+  yield commandId ? { ...done, commandId } : done
+}
+
+async function* streamAICommand(
+  userMessage: string,
+  doc: Y.Doc,
+  metadata: AICommandMetadata | undefined,
+  signal: AbortSignal | undefined,
+  conversation: Conversation | null,
+  origin: AIOrigin,
 ): AsyncGenerator<AIStreamEvent> {
   // Check for abort before starting
   if (signal?.aborted) {
@@ -559,11 +773,11 @@ export async function* processAICommandStream(
   // -----------------------------------------------------------------------
   // Fast path: check command cache for a learned recipe
   // -----------------------------------------------------------------------
-  const cachedRecipe = commandCache.match(userMessage)
+  const cachedRecipe = usesCache(metadata, conversation) ? commandCache.match(userMessage) : null
   if (cachedRecipe) {
     console.log(`[AI][stream] Cache hit (intent: ${cachedRecipe.intentKey}) for: "${userMessage.slice(0, 60)}"`)
 
-    const result = commandCache.replay(cachedRecipe, userMessage, objectsMap)
+    const result = doc.transact(() => commandCache.replay(cachedRecipe, userMessage, objectsMap), origin)
 
     // Yield each action incrementally
     for (const action of result.actions) {
@@ -589,7 +803,7 @@ export async function* processAICommandStream(
   if (!anthropic) {
     console.log(`[AI][stream] Local parser for: "${userMessage.slice(0, 60)}"`)
 
-    const result = parseCommand(userMessage, doc)
+    const result = doc.transact(() => parseCommand(userMessage, doc, metadata?.scope), origin)
 
     // Yield each action incrementally
     for (const action of result.actions) {
@@ -614,16 +828,15 @@ export async function* processAICommandStream(
   try {
     yield { type: 'status', status: 'thinking' }
 
-    const boardContext = buildBoardContext(objectsMap)
+    const boardContext = buildBoardContext(objectsMap, metadata?.scope)
+    const toolContext = createToolContext(metadata?.scope)
     const actions: ToolAction[] = []
 
     const modelName = selectModel(userMessage)
     const complex = isComplexCommand(userMessage)
     const maxTokens = complex ? 2048 : 512
 
-    const messages: Anthropic.MessageParam[] = [
-      { role: 'user', content: `${boardContext}\n\nUser command: ${userMessage}` },
-    ]
+    const messages = conversationMessages(conversation, `${boardContext}\n\nUser command: ${userMessage}`)
 
     let maxTurns = complex ? 8 : 3
     while (maxTurns-- > 0) {
@@ -645,6 +858,11 @@ export async function* processAICommandStream(
         messages,
       })
 
+      metadata?.onUsage?.(modelName, {
+        input: response.usage?.input_tokens ?? 0,
+        output: response.usage?.output_tokens ?? 0,
+      })
+
       let textResponse = ''
       const toolResultBlocks: Array<{ type: 'tool_result'; tool_use_id: string; content: string }> = []
 
@@ -657,11 +875,12 @@ export async function* processAICommandStream(
         } else if (block.type === 'tool_use') {
           yield { type: 'status', status: 'executing' }
 
-          const result = executeTool(
+          const result = doc.transact(() => executeTool(
             block.name,
             block.input as Record<string, unknown>,
-            objectsMap
-          )
+            objectsMap,
+            toolContext,
+          ), origin)
 
           const action: ToolAction = {
             tool: block.name,
@@ -684,7 +903,7 @@ export async function* processAICommandStream(
         const message = textResponse || 'Done! The board has been updated.'
 
         // Learn for future cache hits
-        commandCache.learn(userMessage, actions, message)
+        if (usesCache(metadata, conversation)) commandCache.learn(userMessage, actions, message)
 
         yield {
           type: 'done',
@@ -706,7 +925,7 @@ export async function* processAICommandStream(
 
     // Max turns reached
     const message = 'Completed the requested changes.'
-    commandCache.learn(userMessage, actions, message)
+    if (usesCache(metadata, conversation)) commandCache.learn(userMessage, actions, message)
 
     yield {
       type: 'done',
@@ -722,7 +941,7 @@ export async function* processAICommandStream(
     console.log('[AI][stream] Claude API error, falling back to local parser:', String(err).slice(0, 120))
 
     // Fallback to local parser
-    const result = parseCommand(userMessage, doc)
+    const result = doc.transact(() => parseCommand(userMessage, doc, metadata?.scope), origin)
     for (const action of result.actions) {
       yield { type: 'tool_result', action }
     }
@@ -0,0 +1,232 @@
+/**
+ * AI Rate Limits and Quotas
+ *
+ * Keeps one user (or one busy board) from burning the Anthropic budget:
+ *  - Token buckets cap how fast commands come in, per user and per board,
+ *    while allowing a short burst
+ *  - Daily quotas cap what each user spends on the model, in tokens and in
+ *    dollars, counted from the same usage every Langfuse generation reports
+ *
+ * Guests have no user ID, so they are counted by address instead.
+ * Everything is kept in memory on each instance; quotas reset at midnight
+ * UTC.
+ */
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** Commands a user can send: a burst of 10, then one every 6 seconds. */
+export const USER_BUCKET = { capacity: 10, refillPerMinute: 10 }
+
+/** Commands a board accepts from everyone together. */
+export const BOARD_BUCKET = { capacity: 30, refillPerMinute: 30 }
+
+/** Model tokens (input + output) a user may use per day. */
+export const DAILY_TOKEN_QUOTA = 200_000
+
+/** What a user's model calls may cost per day, in USD. */
+export const DAILY_COST_QUOTA_USD = 2
+
+/** USD per million tokens, by model. Unknown models are priced as Sonnet. */
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'claude-haiku-4-5-20250514': { input: 1, output: 5 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+}
+const DEFAULT_PRICE = MODEL_PRICES['claude-sonnet-4-20250514']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Tokens one model call used, as reported to Langfuse. */
+export interface TokenUsage {
+  input: number
+  output: number
+}
+
+export type AILimitCheck =
+  | { ok: true }
+  | {
+      ok: false
+      code: 'rate_limited' | 'quota_exceeded'
+      /** Meant for the user, e.g. "Daily AI quota reached. It resets in 5 hours." */
+      error: string
+      /** Seconds until a retry can succeed (the Retry-After header). */
+      retryAfterSeconds: number
+    }
+
+// ---------------------------------------------------------------------------
+// Cost
+// ---------------------------------------------------------------------------
+
+/** What a model call cost, in USD. */
+export function usageCost(model: string, usage: TokenUsage): number {
+  const price = MODEL_PRICES[model] ?? DEFAULT_PRICE
+  return (usage.input * price.input + usage.output * price.output) / 1_000_000
+}
+
+// ---------------------------------------------------------------------------
+// Token buckets
+// ---------------------------------------------------------------------------
+
+/**
+ * One bucket per key, holding up to `capacity` tokens and refilling
+ * continuously. Each command takes a token.
+ */
+export class TokenBucketLimiter {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>()
+  private refillPerMs: number
+
+  constructor(
+    private capacity: number,
+    refillPerMinute: number,
+    private now: () => number = Date.now,
+  ) {
+    this.refillPerMs = refillPerMinute / 60_000
+  }
+
+  /** Milliseconds until `key` has a token to take (0 if it has one now). */
+  waitFor(key: string): number {
+    const tokens = this.refill(key)
+    return tokens >= 1 ? 0 : Math.ceil((1 - tokens) / this.refillPerMs)
+  }
+
+  /** Take a token from `key`; returns false (taking nothing) if it has none. */
+  take(key: string): boolean {
+    const tokens = this.refill(key)
+    if (tokens < 1) return false
+    this.buckets.set(key, { tokens: tokens - 1, updatedAt: this.now() })
+    return true
+  }
+
+  private refill(key: string): number {
+    const bucket = this.buckets.get(key)
+    const now = this.now()
+    if (!bucket) return this.capacity
+    const tokens = Math.min(this.capacity, bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs)
+    // A full bucket is the same as none; forget it so the map doesn't grow
+    if (tokens >= this.capacity) {
+      this.buckets.delete(key)
+      return this.capacity
+    }
+    this.buckets.set(key, { tokens, updatedAt: now })
+    return tokens
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Daily usage
+// ---------------------------------------------------------------------------
+
+/** Tokens and cost per key for the current UTC day. */
+export class UsageLedger {
+  private totals = new Map<string, { tokens: number; cost: number }>()
+  private day: number
+
+  constructor(private now: () => number = Date.now) {
+    this.day = this.today()
+  }
+
+  record(key: string, model: string, usage: TokenUsage): void {
+    this.rollOver()
+    const total = this.totals.get(key) ?? { tokens: 0, cost: 0 }
+    total.tokens += usage.input + usage.output
+    total.cost += usageCost(model, usage)
+    this.totals.set(key, total)
+  }
+
+  usage(key: string): { tokens: number; cost: number } {
+    this.rollOver()
+    return this.totals.get(key) ?? { tokens: 0, cost: 0 }
+  }
+
+  /** Milliseconds until the quotas reset (midnight UTC). */
+  msUntilReset(): number {
+    return (this.today() + 1) * DAY_MS - this.now()
+  }
+
+  private today(): number {
+    return Math.floor(this.now() / DAY_MS)
+  }
+
+  private rollOver(): void {
+    const today = this.today()
+    if (today === this.day) return
+    this.day = today
+    this.totals.clear()
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Limiter
+// ---------------------------------------------------------------------------
+
+/** Rate limits and quotas together, as the AI endpoints apply them. */
+export class AILimiter {
+  private users: TokenBucketLimiter
+  private boards: TokenBucketLimiter
+  private ledger: UsageLedger
+
+  constructor(now: () => number = Date.now) {
+    this.users = new TokenBucketLimiter(USER_BUCKET.capacity, USER_BUCKET.refillPerMinute, now)
+    this.boards = new TokenBucketLimiter(BOARD_BUCKET.capacity, BOARD_BUCKET.refillPerMinute, now)
+    this.ledger = new UsageLedger(now)
+  }
+
+  /**
+   * Whether `userKey` may run a command on `boardId` now. Counts the command
+   * against both buckets when it may; a refused command counts against
+   * neither.
+   */
+  check(userKey: string, boardId: string): AILimitCheck {
+    const used = this.ledger.usage(userKey)
+    if (used.tokens >= DAILY_TOKEN_QUOTA || used.cost >= DAILY_COST_QUOTA_USD) {
+      const retryAfterSeconds = Math.ceil(this.ledger.msUntilReset() / 1000)
+      return {
+        ok: false,
+        code: 'quota_exceeded',
+        error: `Daily AI quota reached. It resets in ${formatWait(retryAfterSeconds)}.`,
+        retryAfterSeconds,
+      }
+    }
+
+    const wait = Math.max(this.users.waitFor(userKey), this.boards.waitFor(boardId))
+    if (wait > 0) {
+      const retryAfterSeconds = Math.ceil(wait / 1000)
+      return {
+        ok: false,
+        code: 'rate_limited',
+        error: `Too many AI requests. Try again in ${formatWait(retryAfterSeconds)}.`,
+        retryAfterSeconds,
+      }
+    }
+
+    this.users.take(userKey)
+    this.boards.take(boardId)
+    return { ok: true }
+  }
+
+  /** Count a model call against `userKey`'s daily quota. */
+  recordUsage(userKey: string, model: string, usage: TokenUsage): void {
+    this.ledger.record(userKey, model, usage)
+  }
+
+  usage(userKey: string): { tokens: number; cost: number } {
+    return this.ledger.usage(userKey)
+  }
+}
+
+/** "5 seconds", "3 minutes", "2 hours" — rounded up. */
+function formatWait(seconds: number): string {
+  const [value, unit] =
+    seconds < 60 ? [seconds, 'second']
+      : seconds < 3600 ? [Math.ceil(seconds / 60), 'minute']
+        : [Math.ceil(seconds / 3600), 'hour']
+  return `${value} ${unit}${value === 1 ? '' : 's'}`
+}
+
+/** The process-wide limiter used by the AI endpoints. */
+export const aiLimiter = new AILimiter()
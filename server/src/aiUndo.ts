@@ -0,0 +1,123 @@
+/**
+ * AI Undo
+ *
+ * Every change an AI command makes to a board is made in a transaction
+ * whose origin is the command's AIOrigin: its command ID and the user who
+ * ran it. A command spans several model calls, so it can't be a single Yjs
+ * transaction from start to end; instead each command gets a Y.UndoManager
+ * that tracks only its origin and gathers all of its transactions into one
+ * undo step.
+ *
+ * Undoing a command reverts exactly what it changed. Yjs undo only reverses
+ * the tracked changes, so edits other users made since — elsewhere on the
+ * board, or later to the same objects — are kept.
+ *
+ * The last AI_UNDO_LIMIT commands per board can be undone, only by whoever
+ * ran them. Like conversations, they live in memory on the instance that
+ * ran the command and are forgotten when the board's room is unloaded.
+ */
+
+import * as Y from 'yjs'
+import { TEXT_MAP } from '../../shared/constants.js'
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** Commands per board that can still be undone; older ones drop off. */
+export const AI_UNDO_LIMIT = 20
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Transaction origin of an AI command's changes. */
+export interface AIOrigin {
+  kind: 'ai'
+  commandId: string
+  /** The user who ran the command; null for guests. */
+  userId: string | null
+}
+
+export type AIUndoResult =
+  | { ok: true }
+  | { ok: false; code: 'not_found' | 'forbidden'; error: string }
+
+interface UndoEntry {
+  manager: Y.UndoManager
+  /** Who may undo the command (see AICommandMetadata.requester). */
+  requester: string | undefined
+}
+
+export function isAIOrigin(origin: unknown): origin is AIOrigin {
+  return typeof origin === 'object' && origin !== null && (origin as AIOrigin).kind === 'ai'
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** Undoable AI commands by board ID, oldest first. */
+export class AIUndoRegistry {
+  private boards = new Map<string, Map<string, UndoEntry>>()
+
+  /** Start recording the changes `origin` makes to the board's doc. */
+  track(boardId: string, doc: Y.Doc, origin: AIOrigin, requester: string | undefined): void {
+    const manager = new Y.UndoManager([doc.getMap('objects'), doc.getMap(TEXT_MAP)], {
+      trackedOrigins: new Set([origin]),
+      // One undo step however long the command takes
+      captureTimeout: Infinity,
+    })
+    const commands = this.boards.get(boardId) ?? new Map<string, UndoEntry>()
+    commands.set(origin.commandId, { manager, requester })
+    this.boards.set(boardId, commands)
+
+    while (commands.size > AI_UNDO_LIMIT) {
+      const [oldest, entry] = commands.entries().next().value!
+      entry.manager.destroy()
+      commands.delete(oldest)
+    }
+  }
+
+  /**
+   * The command has finished. Returns whether it changed anything (and so
+   * can be undone); one that didn't is forgotten.
+   */
+  finish(boardId: string, commandId: string): boolean {
+    const entry = this.boards.get(boardId)?.get(commandId)
+    if (!entry) return false
+    if (entry.manager.canUndo()) return true
+    this.drop(boardId, commandId)
+    return false
+  }
+
+  /** Revert the command's changes. Each command can be undone once. */
+  undo(boardId: string, commandId: string, requester: string | undefined): AIUndoResult {
+    const entry = this.boards.get(boardId)?.get(commandId)
+    if (!entry || !entry.manager.canUndo()) {
+      return { ok: false, code: 'not_found', error: 'This AI change can no longer be undone' }
+    }
+    if (entry.requester !== requester) {
+      return { ok: false, code: 'forbidden', error: 'Only the person who ran an AI command can undo it' }
+    }
+    entry.manager.undo()
+    this.drop(boardId, commandId)
+    return { ok: true }
+  }
+
+  /** Forget the board's commands (its room was unloaded). */
+  forget(boardId: string): void {
+    for (const entry of this.boards.get(boardId)?.values() ?? []) entry.manager.destroy()
+    this.boards.delete(boardId)
+  }
+
+  private drop(boardId: string, commandId: string): void {
+    const commands = this.boards.get(boardId)
+    commands?.get(commandId)?.manager.destroy()
+    commands?.delete(commandId)
+    if (commands?.size === 0) this.boards.delete(boardId)
+  }
+}
+
+/** The process-wide registry used by the AI endpoints. */
+export const aiUndo = new AIUndoRegistry()
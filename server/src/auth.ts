@@ -2,11 +2,12 @@
  * Auth Middleware — Clerk JWT validation for REST and WebSocket endpoints.
  *
  * Extracts Bearer token from Authorization header, validates via Clerk,
- * and returns the authenticated user's ID.
+ * and returns the authenticated user's ID. Also resolves display names
+ * so presence shows the verified user rather than a client-supplied name.
  */
 
 import http from 'http'
-import { verifyToken } from '@clerk/backend'
+import { verifyToken, createClerkClient } from '@clerk/backend'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -31,6 +32,14 @@ export async function authenticateRequest(
   if (!authHeader || !authHeader.startsWith('Bearer ')) return null
 
   const token = authHeader.slice(7) // Remove 'Bearer '
+  return authenticateToken(token)
+}
+
+/**
+ * Validate a raw Clerk JWT (e.g. the `?token=` on a WebSocket URL).
+ * Returns { userId } on success, null on failure.
+ */
+export async function authenticateToken(token: string): Promise<AuthUser | null> {
   if (!token.trim()) return null
 
   const secretKey = process.env.CLERK_SECRET_KEY ?? ''
@@ -70,3 +79,38 @@ export async function requireAuth(
   }
   return user
 }
+
+// ---------------------------------------------------------------------------
+// Display names
+// ---------------------------------------------------------------------------
+
+/** userId → display name lookup (names rarely change; failures are not cached). */
+const displayNameCache = new Map<string, Promise<string | null>>()
+
+/**
+ * Look up a user's display name in Clerk: full name, then username, then
+ * the local part of their email. Returns null if it can't be resolved.
+ */
+export function getUserDisplayName(userId: string): Promise<string | null> {
+  const cached = displayNameCache.get(userId)
+  if (cached) return cached
+
+  const secretKey = process.env.CLERK_SECRET_KEY ?? ''
+  if (!secretKey) return Promise.resolve(null)
+
+  const lookup = createClerkClient({ secretKey }).users.getUser(userId)
+    .then((user) =>
+      [user.firstName, user.lastName].filter(Boolean).join(' ').trim() ||
+      user.username ||
+      user.primaryEmailAddress?.emailAddress.split('@')[0] ||
+      null,
+    )
+    .catch((err: unknown) => {
+      console.error(`[auth] Failed to look up user ${userId}:`, err instanceof Error ? err.message : err)
+      displayNameCache.delete(userId)
+      return null
+    })
+
+  displayNameCache.set(userId, lookup)
+  return lookup
+}
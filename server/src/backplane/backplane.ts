@@ -0,0 +1,152 @@
+/**
+ * Pub/Sub Backplane
+ *
+ * Lets several server instances serve the same room. Each instance keeps
+ * its own Y.Doc and Awareness per room; the backplane fans what changes
+ * in them out to the other instances that have the room loaded:
+ *
+ *   update     — a Yjs update applied on the sending instance
+ *   awareness  — a y-protocols awareness update
+ *   sync       — a state vector: "send me what I'm missing", published
+ *                when an instance loads a room, answered with an update
+ *   access     — a user ID (UTF-8) whose role on the board changed: re-check
+ *                it on their sockets
+ *   close      — the board was moved to the trash: disconnect everyone
+ *   drop       — the board was purged: unload the room without saving it
+ *
+ * Instances never receive their own messages.
+ *
+ * Snapshots, thumbnails and checkpoints are written by one instance per
+ * room: its owner. Ownership is a lease — claimOwnership() takes it when
+ * free and renews it when held, and it lapses if the owner stops renewing
+ * (e.g. crashes), so another instance can take over.
+ *
+ * The backend is chosen once at startup by BACKPLANE:
+ *
+ *   redis   — Redis (or a compatible server) at REDIS_URL (default when set)
+ *   memory  — in-process only (default otherwise): one instance, or several
+ *             sharing a MemoryHub in tests
+ */
+
+import Redis from 'ioredis'
+import * as encoding from 'lib0/encoding'
+import * as decoding from 'lib0/decoding'
+import { MemoryBackplane } from './memoryBackplane.js'
+import { RedisBackplane } from './redisBackplane.js'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RoomMessageKind = 'update' | 'awareness' | 'sync' | 'access' | 'close' | 'drop'
+
+/** One message between instances serving the same room. */
+export interface RoomMessage {
+  kind: RoomMessageKind
+  payload: Uint8Array
+}
+
+export type RoomMessageHandler = (message: RoomMessage) => void
+
+export type BackplaneBackend = 'memory' | 'redis'
+
+/**
+ * Fan-out between server instances, plus per-room owner election.
+ *
+ * Publishing and ownership calls log and swallow their own errors — a
+ * broken backplane must never take down a live room. A failed claim
+ * counts as not owning the room.
+ */
+export interface Backplane {
+  readonly name: BackplaneBackend
+
+  /** Unique per process; identifies the owner of a room. */
+  readonly instanceId: string
+
+  /** Deliver other instances' messages for `room` to `handler` (one per room). */
+  subscribe(room: string, handler: RoomMessageHandler): Promise<void>
+
+  /** Stop receiving messages for `room`. A no-op if not subscribed. */
+  unsubscribe(room: string): Promise<void>
+
+  /** Send a message to every other instance subscribed to `room`. */
+  publish(room: string, message: RoomMessage): Promise<void>
+
+  /**
+   * Take or renew the lease on `room` for `ttlMs`. Returns whether this
+   * instance owns the room now.
+   */
+  claimOwnership(room: string, ttlMs: number): Promise<boolean>
+
+  /** Give up the lease on `room`, if this instance holds it. */
+  releaseOwnership(room: string): Promise<void>
+
+  /** Unsubscribe from everything and disconnect. */
+  close(): Promise<void>
+}
+
+// ---------------------------------------------------------------------------
+// Wire format
+// ---------------------------------------------------------------------------
+
+// Append only: a kind's index is its wire value
+const KINDS: readonly RoomMessageKind[] = ['update', 'awareness', 'sync', 'access', 'close', 'drop']
+
+/** Frame a message with its sender, for backends that share one channel. */
+export function encodeRoomMessage(sender: string, message: RoomMessage): Uint8Array {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarString(encoder, sender)
+  encoding.writeVarUint(encoder, KINDS.indexOf(message.kind))
+  encoding.writeVarUint8Array(encoder, message.payload)
+  return encoding.toUint8Array(encoder)
+}
+
+/** Read a framed message, or null if it is malformed. */
+export function decodeRoomMessage(data: Uint8Array): { sender: string; message: RoomMessage } | null {
+  try {
+    const decoder = decoding.createDecoder(data)
+    const sender = decoding.readVarString(decoder)
+    const kind = KINDS[decoding.readVarUint(decoder)]
+    if (!kind) return null
+    return { sender, message: { kind, payload: decoding.readVarUint8Array(decoder) } }
+  } catch {
+    return null
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve the configured backend name from the environment.
+ */
+export function resolveBackplane(env: NodeJS.ProcessEnv = process.env): BackplaneBackend {
+  const requested = env.BACKPLANE?.trim().toLowerCase()
+  if (requested === 'memory' || requested === 'redis') return requested
+  if (requested) {
+    console.warn(`[Backplane] Unknown BACKPLANE "${requested}" — falling back to default`)
+  }
+  return env.REDIS_URL ? 'redis' : 'memory'
+}
+
+/**
+ * Build the backplane for a backend.
+ */
+export function createBackplane(backend: BackplaneBackend, env: NodeJS.ProcessEnv = process.env): Backplane {
+  switch (backend) {
+    case 'redis': {
+      if (!env.REDIS_URL) {
+        throw new Error('BACKPLANE=redis requires REDIS_URL')
+      }
+      // Subscribed connections can't run other commands, so use two
+      const publisher = new Redis(env.REDIS_URL)
+      return new RedisBackplane(publisher, publisher.duplicate())
+    }
+    case 'memory':
+      return new MemoryBackplane()
+  }
+}
+
+/** The process-wide backplane, chosen once at startup. */
+export const backplane: Backplane = createBackplane(resolveBackplane())
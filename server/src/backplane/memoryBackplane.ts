@@ -0,0 +1,67 @@
+/**
+ * In-Memory Backplane
+ *
+ * Instances sharing a MemoryHub see each other's messages and compete for
+ * the same room leases. Each process gets its own hub by default, which
+ * makes a lone server the owner of every room it loads. Tests pass one hub
+ * to several backplanes to stand in for several servers.
+ */
+
+import { randomUUID } from 'crypto'
+import type { Backplane, RoomMessage, RoomMessageHandler } from './backplane.js'
+
+/** The shared medium: subscriptions and leases of every attached backplane. */
+export class MemoryHub {
+  /** room → instanceId → handler */
+  readonly subscriptions = new Map<string, Map<string, RoomMessageHandler>>()
+  /** room → current lease */
+  readonly leases = new Map<string, { owner: string; expiresAt: number }>()
+}
+
+export class MemoryBackplane implements Backplane {
+  readonly name = 'memory' as const
+  readonly instanceId = randomUUID()
+
+  constructor(private hub: MemoryHub = new MemoryHub(), private now: () => number = Date.now) {}
+
+  async subscribe(room: string, handler: RoomMessageHandler): Promise<void> {
+    const handlers = this.hub.subscriptions.get(room) ?? new Map<string, RoomMessageHandler>()
+    handlers.set(this.instanceId, handler)
+    this.hub.subscriptions.set(room, handlers)
+  }
+
+  async unsubscribe(room: string): Promise<void> {
+    const handlers = this.hub.subscriptions.get(room)
+    handlers?.delete(this.instanceId)
+    if (handlers?.size === 0) this.hub.subscriptions.delete(room)
+  }
+
+  async publish(room: string, message: RoomMessage): Promise<void> {
+    for (const [instanceId, handler] of this.hub.subscriptions.get(room) ?? []) {
+      if (instanceId === this.instanceId) continue
+      // Like a network hop: delivered later, and each receiver gets its own copy
+      const payload = message.payload.slice()
+      queueMicrotask(() => handler({ kind: message.kind, payload }))
+    }
+  }
+
+  async claimOwnership(room: string, ttlMs: number): Promise<boolean> {
+    const lease = this.hub.leases.get(room)
+    const now = this.now()
+    if (lease && lease.owner !== this.instanceId && lease.expiresAt > now) return false
+    this.hub.leases.set(room, { owner: this.instanceId, expiresAt: now + ttlMs })
+    return true
+  }
+
+  async releaseOwnership(room: string): Promise<void> {
+    if (this.hub.leases.get(room)?.owner === this.instanceId) {
+      this.hub.leases.delete(room)
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const room of [...this.hub.subscriptions.keys()]) {
+      await this.unsubscribe(room)
+    }
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Redis Backplane
+ *
+ * One pub/sub channel per room (`collabboard:room:<room>`), with every
+ * message framed with its sender so instances skip their own. Room leases
+ * are keys (`collabboard:owner:<room>`) holding the owner's instance ID
+ * with a TTL, taken and renewed by a Lua script so the check and the write
+ * happen atomically.
+ *
+ * Works with any server speaking the Redis protocol (Redis, Valkey,
+ * KeyDB, ...). Takes two connections because a subscribed one can't
+ * publish or run scripts.
+ */
+
+import { randomUUID } from 'crypto'
+import {
+  encodeRoomMessage,
+  decodeRoomMessage,
+  type Backplane,
+  type RoomMessage,
+  type RoomMessageHandler,
+} from './backplane.js'
+
+/** The part of an ioredis client the backplane uses. */
+export interface RedisClient {
+  publish(channel: string, message: Buffer): Promise<number>
+  subscribe(channel: string): Promise<unknown>
+  unsubscribe(channel: string): Promise<unknown>
+  eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown>
+  on(event: 'messageBuffer', listener: (channel: Buffer, message: Buffer) => void): unknown
+  quit(): Promise<unknown>
+}
+
+/** Take the lease if free, renew it if ours. Returns 1 if we hold it. */
+export const CLAIM_SCRIPT = `
+local owner = redis.call('GET', KEYS[1])
+if owner == ARGV[1] then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  return 1
+end
+if owner then return 0 end
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+return 1
+`
+
+/** Delete the lease only if we hold it. */
+export const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`
+
+const CHANNEL_PREFIX = 'collabboard:room:'
+const OWNER_PREFIX = 'collabboard:owner:'
+
+export class RedisBackplane implements Backplane {
+  readonly name = 'redis' as const
+  readonly instanceId = randomUUID()
+
+  private handlers = new Map<string, RoomMessageHandler>()
+
+  constructor(private publisher: RedisClient, private subscriber: RedisClient) {
+    subscriber.on('messageBuffer', (channel, data) => {
+      const name = channel.toString()
+      if (!name.startsWith(CHANNEL_PREFIX)) return
+      const handler = this.handlers.get(name.slice(CHANNEL_PREFIX.length))
+      const decoded = decodeRoomMessage(new Uint8Array(data))
+      if (!handler || !decoded || decoded.sender === this.instanceId) return
+      handler(decoded.message)
+    })
+  }
+
+  async subscribe(room: string, handler: RoomMessageHandler): Promise<void> {
+    this.handlers.set(room, handler)
+    await this.subscriber.subscribe(CHANNEL_PREFIX + room)
+  }
+
+  async unsubscribe(room: string): Promise<void> {
+    if (!this.handlers.delete(room)) return
+    await this.subscriber.unsubscribe(CHANNEL_PREFIX + room)
+  }
+
+  async publish(room: string, message: RoomMessage): Promise<void> {
+    try {
+      await this.publisher.publish(CHANNEL_PREFIX + room, Buffer.from(encodeRoomMessage(this.instanceId, message)))
+    } catch (err) {
+      console.error(`[Backplane] Failed to publish ${message.kind} for ${room}:`, err)
+    }
+  }
+
+  async claimOwnership(room: string, ttlMs: number): Promise<boolean> {
+    try {
+      const held = await this.publisher.eval(CLAIM_SCRIPT, 1, OWNER_PREFIX + room, this.instanceId, ttlMs)
+      return held === 1
+    } catch (err) {
+      console.error(`[Backplane] Failed to claim ${room}:`, err)
+      return false
+    }
+  }
+
+  async releaseOwnership(room: string): Promise<void> {
+    try {
+      await this.publisher.eval(RELEASE_SCRIPT, 1, OWNER_PREFIX + room, this.instanceId)
+    } catch (err) {
+      console.error(`[Backplane] Failed to release ${room}:`, err)
+    }
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear()
+    await Promise.all([this.subscriber.quit(), this.publisher.quit()])
+  }
+}
@@ -0,0 +1,363 @@
+/**
+ * Board Export
+ *
+ * Renders a board's `objects` map to a standalone SVG that mirrors the
+ * canvas (same colors, corner radii, frame dashes, arrowheads, rotation).
+ * PNG is rasterized from that SVG with resvg and PDF wraps the PNG in a
+ * single page sized to the board, so neither needs a browser.
+ *
+ * SVG has no automatic text wrapping, so text is word-wrapped here using an
+ * average glyph width — close to, but not pixel-identical with, Konva.
+ * Markdown in sticky and text objects is flattened to plain text (bullets
+ * and checkboxes become •, ☐ and ☑).
+ */
+
+import { Resvg } from '@resvg/resvg-js'
+import PDFDocument from 'pdfkit'
+import type { BoardObject } from '../../shared/types.js'
+import { resolveLineEndpoints } from '../../shared/connectors.js'
+import { markdownToPlainText } from '../../shared/markdown.js'
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export const EXPORT_FORMATS = ['svg', 'png', 'pdf'] as const
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+/** Whitespace around the exported content, in board units. */
+export const EXPORT_PADDING = 32
+
+/** Raster scale for PNG/PDF (2x keeps text crisp on retina screens). */
+export const EXPORT_PIXEL_RATIO = 2
+
+/** Longest side of a rasterized export, in pixels. Larger boards are scaled down. */
+export const MAX_EXPORT_PIXELS = 8192
+
+// Linux server fonts are listed too so resvg doesn't fall back to a serif face
+const FONT_FAMILY = 'system-ui, -apple-system, Segoe UI, Helvetica, Arial, Liberation Sans, DejaVu Sans, sans-serif'
+const TEXT_COLOR = '#1E293B'
+const LINE_HEIGHT = 1.2
+/** Average glyph width as a fraction of font size, for wrapping. */
+const AVG_CHAR_WIDTH = 0.55
+
+const ARROW_LENGTH = 10
+const ARROW_WIDTH = 8
+const FRAME_LABEL_OFFSET = 20
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value)
+}
+
+// ---------------------------------------------------------------------------
+// Selection & bounds
+// ---------------------------------------------------------------------------
+
+interface Bounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+/**
+ * The objects to export: everything, or a frame plus whatever sits inside
+ * it (its children by parentId, and anything whose bounds fall within it).
+ * Returns null when `frameId` is not a frame on this board.
+ */
+export function selectExportObjects(objects: BoardObject[], frameId?: string): BoardObject[] | null {
+  if (!frameId) return objects
+
+  const frame = objects.find((o) => o.id === frameId)
+  if (!frame || frame.type !== 'frame') return null
+
+  const byId = new Map(objects.map((o) => [o.id, o]))
+  const inside = (b: Bounds) =>
+    b.minX >= frame.x && b.minY >= frame.y &&
+    b.maxX <= frame.x + frame.width && b.maxY <= frame.y + frame.height
+
+  return objects.filter((o) =>
+    o.id === frame.id ||
+    (o.type !== 'frame' && (o.parentId === frame.id || inside(objectBounds(o, byId)))),
+  )
+}
+
+/** Axis-aligned bounds of one object as drawn, including rotation. */
+function objectBounds(obj: BoardObject, byId: Map<string, BoardObject>): Bounds {
+  if (obj.type === 'line') {
+    const { x1, y1, x2, y2 } = resolveLineEndpoints(obj, (id) => byId.get(id))
+    return { minX: Math.min(x1, x2), minY: Math.min(y1, y2), maxX: Math.max(x1, x2), maxY: Math.max(y1, y2) }
+  }
+
+  const cx = obj.x + obj.width / 2
+  const cy = obj.y + obj.height / 2
+  const rad = ((obj.rotation ?? 0) * Math.PI) / 180
+  const cos = Math.abs(Math.cos(rad))
+  const sin = Math.abs(Math.sin(rad))
+  const hw = (obj.width * cos + obj.height * sin) / 2
+  const hh = (obj.width * sin + obj.height * cos) / 2
+  return { minX: cx - hw, minY: cy - hh, maxX: cx + hw, maxY: cy + hh }
+}
+
+/** Bounds of everything being exported. Frames reserve room for their label. */
+function contentBounds(objects: BoardObject[], byId: Map<string, BoardObject>): Bounds {
+  if (objects.length === 0) return { minX: 0, minY: 0, maxX: 0, maxY: 0 }
+
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  for (const obj of objects) {
+    const b = objectBounds(obj, byId)
+    if (obj.type === 'frame' && !obj.rotation) b.minY -= FRAME_LABEL_OFFSET
+    bounds.minX = Math.min(bounds.minX, b.minX)
+    bounds.minY = Math.min(bounds.minY, b.minY)
+    bounds.maxX = Math.max(bounds.maxX, b.maxX)
+    bounds.maxY = Math.max(bounds.maxY, b.maxY)
+  }
+  return bounds
+}
+
+// ---------------------------------------------------------------------------
+// SVG
+// ---------------------------------------------------------------------------
+
+export interface RenderedSvg {
+  svg: string
+  width: number
+  height: number
+}
+
+/**
+ * Render objects to an SVG document. Objects are drawn in map order, the
+ * same stacking order as the canvas. `allObjects` resolves connector ends
+ * attached to objects outside the selection (defaults to `objects`).
+ * `size` scales the content to fit a fixed box, centred (thumbnails);
+ * by default the document is the content's own size.
+ */
+export function renderBoardSvg(
+  objects: BoardObject[],
+  allObjects: BoardObject[] = objects,
+  size?: { width: number; height: number },
+): RenderedSvg {
+  const byId = new Map(allObjects.map((o) => [o.id, o]))
+  const b = contentBounds(objects, byId)
+  const x = b.minX - EXPORT_PADDING
+  const y = b.minY - EXPORT_PADDING
+  const width = Math.ceil(b.maxX - b.minX + EXPORT_PADDING * 2)
+  const height = Math.ceil(b.maxY - b.minY + EXPORT_PADDING * 2)
+
+  const body = objects.map((obj) => renderObject(obj, byId)).filter(Boolean).join('\n')
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size?.width ?? width}" height="${size?.height ?? height}" viewBox="${num(x)} ${num(y)} ${width} ${height}">`,
+    '<defs><filter id="sticky-shadow" x="-20%" y="-20%" width="140%" height="140%">' +
+      '<feDropShadow dx="0" dy="2" stdDeviation="3" flood-color="#000" flood-opacity="0.15"/></filter></defs>',
+    `<rect x="${num(x)}" y="${num(y)}" width="${width}" height="${height}" fill="#ffffff"/>`,
+    body,
+    '</svg>',
+  ].filter(Boolean).join('\n')
+
+  return { svg, width: size?.width ?? width, height: size?.height ?? height }
+}
+
+function renderObject(obj: BoardObject, byId: Map<string, BoardObject>): string {
+  if (obj.type === 'line') return renderLine(obj, byId)
+
+  const { width: w, height: h } = obj
+  let inner: string
+
+  switch (obj.type) {
+    case 'sticky':
+      inner =
+        `<rect width="${num(w)}" height="${num(h)}" rx="4" fill="${color(obj.fill)}" filter="url(#sticky-shadow)"/>` +
+        renderText(markdownToPlainText(obj.text ?? ''), { w, h, padding: 10, fontSize: obj.fontSize ?? 14, fill: TEXT_COLOR })
+      break
+
+    case 'rect':
+      inner =
+        `<rect width="${num(w)}" height="${num(h)}" rx="2" fill="${color(obj.fill)}" stroke="#1E293B" stroke-width="1"/>` +
+        renderText(obj.text ?? '', { w, h, padding: 8, fontSize: obj.fontSize ?? 14, fill: TEXT_COLOR, center: true })
+      break
+
+    case 'circle':
+      inner =
+        `<ellipse cx="${num(w / 2)}" cy="${num(h / 2)}" rx="${num(w / 2)}" ry="${num(h / 2)}" fill="${color(obj.fill)}" stroke="#1E293B" stroke-width="1"/>` +
+        renderText(obj.text ?? '', { w, h, padding: 8, fontSize: obj.fontSize ?? 14, fill: TEXT_COLOR, center: true })
+      break
+
+    case 'text':
+      inner = renderText(markdownToPlainText(obj.text || 'Text'), {
+        w, h, padding: 4, fontSize: obj.fontSize ?? 18,
+        fill: obj.fill === 'transparent' ? TEXT_COLOR : obj.fill,
+      })
+      break
+
+    case 'frame':
+      inner =
+        `<rect width="${num(w)}" height="${num(h)}" rx="8" fill="none" stroke="#94A3B8" stroke-width="2" stroke-dasharray="8 4"/>` +
+        `<text x="8" y="${-FRAME_LABEL_OFFSET + 12}" font-family="${FONT_FAMILY}" font-size="12" fill="#64748B">${escapeXml(obj.text || 'Frame')}</text>`
+      break
+
+    default:
+      return ''
+  }
+
+  const rotation = obj.rotation ?? 0
+  const transform = rotation
+    ? `translate(${num(obj.x)} ${num(obj.y)}) rotate(${num(rotation)} ${num(w / 2)} ${num(h / 2)})`
+    : `translate(${num(obj.x)} ${num(obj.y)})`
+  return `<g transform="${transform}">${inner}</g>`
+}
+
+function renderLine(obj: BoardObject, byId: Map<string, BoardObject>): string {
+  const { x1, y1, x2, y2 } = resolveLineEndpoints(obj, (id) => byId.get(id))
+  const stroke = obj.fill === 'transparent' ? '#374151' : color(obj.fill)
+  let out = `<line x1="${num(x1)}" y1="${num(y1)}" x2="${num(x2)}" y2="${num(y2)}" stroke="${stroke}" stroke-width="2"/>`
+
+  const length = Math.hypot(x2 - x1, y2 - y1)
+  if (obj.arrowEnd !== false && length > 0) {
+    // Arrowhead: tip at the end point, base ARROW_LENGTH back along the line
+    const ux = (x2 - x1) / length
+    const uy = (y2 - y1) / length
+    const bx = x2 - ux * ARROW_LENGTH
+    const by = y2 - uy * ARROW_LENGTH
+    const half = ARROW_WIDTH / 2
+    const points = [
+      [x2, y2],
+      [bx - uy * half, by + ux * half],
+      [bx + uy * half, by - ux * half],
+    ].map(([px, py]) => `${num(px)},${num(py)}`).join(' ')
+    out += `<polygon points="${points}" fill="${stroke}"/>`
+  }
+  return out
+}
+
+interface TextBox {
+  w: number
+  h: number
+  padding: number
+  fontSize: number
+  fill: string
+  /** Center horizontally and vertically (rect/circle labels). */
+  center?: boolean
+}
+
+function renderText(text: string, box: TextBox): string {
+  if (!text) return ''
+  const innerW = Math.max(0, box.w - box.padding * 2)
+  const innerH = Math.max(0, box.h - box.padding * 2)
+  const lineHeight = box.fontSize * LINE_HEIGHT
+
+  // Like Konva, drop lines that don't fit in the box
+  const maxLines = Math.max(1, Math.floor(innerH / lineHeight))
+  const lines = wrapText(text, innerW, box.fontSize).slice(0, maxLines)
+
+  const blockH = lines.length * lineHeight
+  const top = box.center ? box.padding + (innerH - blockH) / 2 : box.padding
+  const x = box.center ? box.w / 2 : box.padding
+  const anchor = box.center ? ' text-anchor="middle"' : ''
+
+  const tspans = lines
+    .map((line, i) => `<tspan x="${num(x)}" y="${num(top + i * lineHeight + box.fontSize)}">${escapeXml(line)}</tspan>`)
+    .join('')
+  return `<text font-family="${FONT_FAMILY}" font-size="${num(box.fontSize)}" fill="${color(box.fill)}"${anchor} xml:space="preserve">${tspans}</text>`
+}
+
+/**
+ * Word-wrap text to a width using an average glyph width. Explicit newlines
+ * are kept; words longer than a line are broken mid-word.
+ */
+export function wrapText(text: string, maxWidth: number, fontSize: number): string[] {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (fontSize * AVG_CHAR_WIDTH)))
+  const lines: string[] = []
+
+  for (const paragraph of text.split('\n')) {
+    let line = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      let rest = word
+      while (rest.length > maxChars) {
+        if (line) {
+          lines.push(line)
+          line = ''
+        }
+        lines.push(rest.slice(0, maxChars))
+        rest = rest.slice(maxChars)
+      }
+      if (!rest) continue
+      if (!line) line = rest
+      else if (line.length + 1 + rest.length <= maxChars) line += ` ${rest}`
+      else {
+        lines.push(line)
+        line = rest
+      }
+    }
+    lines.push(line)
+  }
+  return lines
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/** SVG 1.1 has no `transparent` keyword; everything else passes through escaped. */
+function color(value: string): string {
+  return value === 'transparent' ? 'none' : escapeXml(value)
+}
+
+/** Round coordinates so the markup stays compact. */
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+// ---------------------------------------------------------------------------
+// PNG & PDF
+// ---------------------------------------------------------------------------
+
+/** Pixel ratio for a raster export, capped at MAX_EXPORT_PIXELS on the longest side. */
+function rasterScale(rendered: RenderedSvg): number {
+  const longest = Math.max(rendered.width, rendered.height, 1)
+  return Math.min(EXPORT_PIXEL_RATIO, MAX_EXPORT_PIXELS / longest)
+}
+
+export function svgToPng(rendered: RenderedSvg): Buffer {
+  const resvg = new Resvg(rendered.svg, {
+    fitTo: { mode: 'zoom', value: rasterScale(rendered) },
+    font: { loadSystemFonts: true },
+  })
+  return resvg.render().asPng()
+}
+
+/** One page sized to the board (1 board unit = 1pt) with the PNG laid over it. */
+export function svgToPdf(rendered: RenderedSvg): Promise<Buffer> {
+  const png = svgToPng(rendered)
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: [rendered.width, rendered.height], margin: 0 })
+    const chunks: Buffer[] = []
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk))
+    pdf.on('end', () => resolve(Buffer.concat(chunks)))
+    pdf.on('error', reject)
+    pdf.image(png, 0, 0, { width: rendered.width, height: rendered.height })
+    pdf.end()
+  })
+}
+
+/** Render objects in the requested format, with the matching content type. */
+export async function exportBoard(
+  objects: BoardObject[],
+  format: ExportFormat,
+  allObjects: BoardObject[] = objects,
+): Promise<{ body: string | Buffer; contentType: string }> {
+  const rendered = renderBoardSvg(objects, allObjects)
+  switch (format) {
+    case 'svg':
+      return { body: rendered.svg, contentType: 'image/svg+xml' }
+    case 'png':
+      return { body: svgToPng(rendered), contentType: 'image/png' }
+    case 'pdf':
+      return { body: await svgToPdf(rendered), contentType: 'application/pdf' }
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Board JSON Import/Export
+ *
+ * Export writes every BoardObject plus board metadata as a versioned
+ * BoardDocument (see shared/boardDocument.ts). Import:
+ *  1. migrates the file forward to the current schema version
+ *  2. validates every object against the shared BoardObject type
+ *  3. gives every object a fresh ID, rewriting parentId/fromId/toId
+ *     references (references to objects outside the file are dropped)
+ *  4. shifts everything by an optional offset
+ *  5. writes the result to the doc in ONE transaction
+ *
+ * Fresh IDs mean the same file can be imported repeatedly, into the same
+ * board or another, without colliding with existing objects.
+ */
+
+import { randomUUID } from 'crypto'
+import * as Y from 'yjs'
+import type { BoardObject } from '../../shared/types.js'
+import {
+  BOARD_DOCUMENT_FORMAT,
+  BOARD_SCHEMA_VERSION,
+  type BoardDocument,
+} from '../../shared/boardDocument.js'
+import type { BoardRecord } from './db/persistence.js'
+import { validateBoardObject } from './objectValidation.js'
+import { writeObject } from './objectText.js'
+import { MAX_OBJECTS_PER_BOARD } from './security.js'
+
+/** Transaction origin for imports (broadcast like any server-side mutation). */
+export const IMPORT_ORIGIN = 'board-import'
+
+/**
+ * Upgrades from schema version N to N + 1, keyed by N. Add an entry here
+ * whenever BOARD_SCHEMA_VERSION is bumped.
+ */
+const MIGRATIONS: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {}
+
+/** Result of checking an import. `error` is safe to show users. */
+export type ImportResult<T> = { ok: true; value: T } | { ok: false; error: string }
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+export function serializeBoard(board: BoardRecord, objects: BoardObject[], now = new Date()): BoardDocument {
+  return {
+    format: BOARD_DOCUMENT_FORMAT,
+    schemaVersion: BOARD_SCHEMA_VERSION,
+    exportedAt: now.toISOString(),
+    board: {
+      id: board.id,
+      name: board.name,
+      created_at: board.created_at,
+      updated_at: board.updated_at,
+    },
+    objects,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse, migrate and validate a BoardDocument, stopping at the first problem.
+ */
+export function parseBoardDocument(value: unknown): ImportResult<BoardDocument> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, error: 'Document must be a JSON object' }
+  }
+  let doc = value as Record<string, unknown>
+  if (doc.format !== BOARD_DOCUMENT_FORMAT) {
+    return { ok: false, error: `Not a CollabBoard document (format must be "${BOARD_DOCUMENT_FORMAT}")` }
+  }
+
+  const version = doc.schemaVersion
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { ok: false, error: 'schemaVersion must be a positive integer' }
+  }
+  if (version > BOARD_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      error: `Document schema version ${version} is newer than this server supports (${BOARD_SCHEMA_VERSION})`,
+    }
+  }
+  for (let v = version; v < BOARD_SCHEMA_VERSION; v++) {
+    doc = { ...MIGRATIONS[v](doc), schemaVersion: v + 1 }
+  }
+
+  const objects = validateObjects(doc.objects)
+  if (!objects.ok) return objects
+
+  const board = (doc.board ?? {}) as Record<string, unknown>
+  const str = (field: unknown) => (typeof field === 'string' ? field : '')
+  return {
+    ok: true,
+    value: {
+      format: BOARD_DOCUMENT_FORMAT,
+      schemaVersion: BOARD_SCHEMA_VERSION,
+      exportedAt: str(doc.exportedAt),
+      board: {
+        id: str(board.id),
+        name: str(board.name),
+        created_at: str(board.created_at),
+        updated_at: str(board.updated_at),
+      },
+      objects: objects.value,
+    },
+  }
+}
+
+/** Validate a list of objects, rejecting duplicate IDs. */
+export function validateObjects(value: unknown): ImportResult<BoardObject[]> {
+  if (!Array.isArray(value)) return { ok: false, error: 'objects must be an array' }
+  if (value.length > MAX_OBJECTS_PER_BOARD) {
+    return { ok: false, error: `Too many objects (max ${MAX_OBJECTS_PER_BOARD})` }
+  }
+
+  const objects: BoardObject[] = []
+  const seen = new Set<string>()
+  for (const [i, item] of value.entries()) {
+    const result = validateBoardObject(item)
+    if (!result.ok) return { ok: false, error: `objects[${i}]: ${result.error}` }
+    if (seen.has(result.object.id)) return { ok: false, error: `objects[${i}]: duplicate id "${result.object.id}"` }
+    seen.add(result.object.id)
+    objects.push(result.object)
+  }
+  return { ok: true, value: objects }
+}
+
+/**
+ * Give every object a fresh ID and shift it by `offset`. References to
+ * other imported objects follow the new IDs; dangling ones are dropped.
+ */
+export function remapObjects(
+  objects: BoardObject[],
+  offset = { x: 0, y: 0 },
+  newId: () => string = randomUUID,
+): BoardObject[] {
+  const ids = new Map(objects.map((o) => [o.id, newId()]))
+
+  return objects.map((obj) => {
+    const copy: BoardObject = { ...obj, id: ids.get(obj.id)!, x: obj.x + offset.x, y: obj.y + offset.y }
+    for (const ref of ['parentId', 'fromId', 'toId'] as const) {
+      if (copy[ref] === undefined) continue
+      const target = ids.get(copy[ref]!)
+      if (target) copy[ref] = target
+      else delete copy[ref]
+    }
+    return copy
+  })
+}
+
+/**
+ * Write already-validated objects to `doc` in one transaction. Writes
+ * nothing and returns false if the board would exceed its object limit.
+ */
+export function writeObjects(doc: Y.Doc, objects: BoardObject[]): boolean {
+  const objectsMap = doc.getMap('objects') as Y.Map<BoardObject>
+  if (objectsMap.size + objects.length > MAX_OBJECTS_PER_BOARD) return false
+
+  doc.transact(() => {
+    for (const obj of objects) writeObject(objectsMap, obj)
+  }, IMPORT_ORIGIN)
+  return true
+}
@@ -0,0 +1,40 @@
+/**
+ * Board Search Index
+ *
+ * The text of every object on a board, flattened into one string and
+ * stored alongside the board whenever its snapshot is saved, so
+ * GET /api/boards?q= can match boards by what's written on them without
+ * loading every Yjs document.
+ */
+
+import * as Y from 'yjs'
+import { persistence } from './db/persistence.js'
+import { readObjects } from './objectText.js'
+import type { BoardObject } from '../../shared/types.js'
+
+/** Cap on indexed text per board; past this, later objects are not searchable. */
+export const MAX_SEARCH_TEXT_LENGTH = 100_000
+
+/** Object text (sticky, text, frame titles and shape labels), one line per object. */
+export function boardSearchText(objects: BoardObject[]): string {
+  const text = objects
+    .map((obj) => obj.text?.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+  return text.slice(0, MAX_SEARCH_TEXT_LENGTH)
+}
+
+/**
+ * Re-index a board's text. Logs and swallows errors, like a snapshot save.
+ */
+export async function saveBoardSearchText(boardId: string, doc: Y.Doc): Promise<void> {
+  // Read before any await: an evicted room's doc is destroyed right after saving
+  const text = boardSearchText(readObjects(doc.getMap<BoardObject>('objects')))
+  try {
+    // Dev and guest rooms never show up in a board list
+    if (!(await persistence.getBoard(boardId))) return
+    await persistence.saveSearchText(boardId, text)
+  } catch (err) {
+    console.error(`[DB] Failed to index board ${boardId} for search:`, err)
+  }
+}
@@ -12,14 +12,14 @@
  *
  * Recipes are parameterized templates: literal values (color, text, position)
  * are replaced with placeholders like ${colorHex}, ${text}, ${x}, ${y}.
+ * IDs of objects the command itself created become ${ref:N} (the Nth object
+ * created), so a replayed "connect", "align" or "fit frame" acts on the
+ * objects created by the replay. A command that acted on objects already on
+ * the board isn't learned: its replay would act on those same objects.
  */
 
 import * as Y from 'yjs'
-import {
-  executeCreateObject,
-  executeUpdateObject,
-  executeMoveObject,
-} from './toolExecutors.js'
+import { executeTool } from './toolExecutors.js'
 import type { BoardObject, ToolAction } from '../../shared/types.js'
 
 // ---------------------------------------------------------------------------
@@ -176,40 +176,77 @@ export function extractParamsFromCommand(command: string): Record<string, unknow
 // Action Templatization
 // ---------------------------------------------------------------------------
 
+/** Tools whose result `id` is a new object later actions may refer to. */
+const CREATING_TOOLS = new Set(['createObject', 'connectObjects'])
+
+/** Input fields (at any depth) that hold object IDs. */
+const ID_FIELDS = new Set(['id', 'ids', 'fromId', 'toId', 'parentId'])
+
+/** The ID of the object an action created, if it created one. */
+function createdId(tool: string, result: string): string | null {
+  if (!CREATING_TOOLS.has(tool)) return null
+  try {
+    const parsed = JSON.parse(result) as { success?: boolean; id?: unknown }
+    return parsed.success && typeof parsed.id === 'string' ? parsed.id : null
+  } catch {
+    return null
+  }
+}
+
 /**
  * Convert literal tool inputs into parameterized templates.
- * Replaces extracted parameter values with ${placeholder} markers.
+ * Replaces extracted parameter values with ${placeholder} markers, and IDs
+ * of objects created earlier in the sequence with ${ref:N}. Nested inputs
+ * (updateObjectsByFilter's filter and changes) are templatized too.
+ * Returns null if an action refers to an object the sequence didn't create.
  */
 export function templatizeActions(
   actions: ToolAction[],
   params: Record<string, unknown>
-): ActionTemplate[] {
-  return actions.map((action) => {
-    const template: Record<string, unknown> = { ...action.input }
+): ActionTemplate[] | null {
+  const refs: string[] = []
+  let foreign = false
+
+  const templatize = (key: string, value: unknown): unknown => {
+    if (ID_FIELDS.has(key)) {
+      const ref = (id: unknown) => {
+        if (typeof id !== 'string') return id
+        if (refs.includes(id)) return `\${ref:${refs.indexOf(id)}}`
+        foreign = true
+        return id
+      }
+      return Array.isArray(value) ? value.map(ref) : ref(value)
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, templatize(k, v)]))
+    }
 
     // Replace color hex with placeholder
-    if (params.colorHex && template.fill === params.colorHex) {
-      template.fill = '${colorHex}'
-    }
+    if (key === 'fill' && params.colorHex && value === params.colorHex) return '${colorHex}'
 
     // Replace text with placeholder
-    if (params.text && template.text === params.text) {
-      template.text = '${text}'
-    }
+    if (key === 'text' && params.text && value === params.text) return '${text}'
 
     // Replace position with placeholders (only if exact match)
-    if (params.x !== undefined && template.x === params.x) {
-      template.x = '${x}'
-    }
-    if (params.y !== undefined && template.y === params.y) {
-      template.y = '${y}'
-    }
+    if (key === 'x' && params.x !== undefined && value === params.x) return '${x}'
+    if (key === 'y' && params.y !== undefined && value === params.y) return '${y}'
+
+    return value
+  }
+
+  const templates = actions.map((action) => {
+    const template = Object.fromEntries(
+      Object.entries(action.input).map(([key, value]) => [key, templatize(key, value)])
+    )
+    const id = createdId(action.tool, action.result)
+    if (id) refs.push(id)
 
     return {
       tool: action.tool,
       inputTemplate: template,
     }
   })
+  return foreign ? null : templates
 }
 
 // ---------------------------------------------------------------------------
@@ -218,22 +255,30 @@ export function templatizeActions(
 
 /**
  * Substitute parameters into a template to produce concrete tool inputs.
+ * `refs` are the IDs of the objects the replay has created so far.
  */
 function substituteTemplate(
   template: Record<string, unknown>,
-  params: Record<string, unknown>
+  params: Record<string, unknown>,
+  refs: string[] = []
 ): Record<string, unknown> {
-  const result: Record<string, unknown> = {}
-
-  for (const [key, value] of Object.entries(template)) {
+  const substitute = (value: unknown): unknown => {
     if (typeof value === 'string' && value.startsWith('${')) {
       const paramName = value.slice(2, -1)
-      result[key] = params[paramName] ?? value
-    } else {
-      result[key] = value
+      if (paramName.startsWith('ref:')) return refs[Number(paramName.slice(4))] ?? value
+      return params[paramName] ?? value
+    }
+    if (Array.isArray(value)) return value.map(substitute)
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substitute(v)]))
     }
+    return value
   }
 
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(template)) {
+    result[key] = substitute(value)
+  }
   return result
 }
 
@@ -267,6 +312,12 @@ function substituteResponse(template: string, params: Record<string, unknown>):
 const MAX_RECIPES = 50
 const MAX_LEARNABLE_ACTIONS = 20
 
+/**
+ * Intents never learned: generic ones are too vague to replay, and the
+ * others act on objects already on the board, which differ every time.
+ */
+const UNLEARNABLE_INTENTS = new Set(['generic', 'arrange', 'move_object', 'update_color'])
+
 export class CommandCache {
   private recipes: LearnedRecipe[] = []
 
@@ -295,8 +346,7 @@ export class CommandCache {
     const intentKey = normalizeIntent(command)
     const params = extractParamsFromCommand(command)
 
-    // Don't learn generic intents — they're too vague to replay
-    if (intentKey === 'generic') return
+    if (UNLEARNABLE_INTENTS.has(intentKey)) return
 
     // Check if we already have a recipe for this intent
     const existing = this.recipes.find((r) => r.intentKey === intentKey)
@@ -311,6 +361,7 @@ export class CommandCache {
 
     // Templatize the actions
     const actionTemplates = templatizeActions(actions, params)
+    if (!actionTemplates) return
 
     const recipe: LearnedRecipe = {
       id: `recipe-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
@@ -373,24 +424,13 @@ export class CommandCache {
     }
 
     const actions: ToolAction[] = []
+    const refs: string[] = []
 
     for (const template of recipe.actionTemplates) {
-      const input = substituteTemplate(template.inputTemplate, params)
-
-      let result: string
-      switch (template.tool) {
-        case 'createObject':
-          result = executeCreateObject(input, objectsMap)
-          break
-        case 'updateObject':
-          result = executeUpdateObject(input, objectsMap)
-          break
-        case 'moveObject':
-          result = executeMoveObject(input, objectsMap)
-          break
-        default:
-          result = JSON.stringify({ success: false, error: `Unknown tool: ${template.tool}` })
-      }
+      const input = substituteTemplate(template.inputTemplate, params, refs)
+      const result = executeTool(template.tool, input, objectsMap)
+      const id = createdId(template.tool, result)
+      if (id) refs.push(id)
 
       actions.push({ tool: template.tool, input, result })
     }
@@ -0,0 +1,171 @@
+/**
+ * Comment Validation
+ *
+ * Checks what a client writes to the comments map (see shared/comments.ts)
+ * before it reaches the doc:
+ *  - every entry must be a well-formed thread or message within size limits
+ *  - a new message must carry its writer's verified user ID and name
+ *  - messages can only be changed or deleted by their author or the owner,
+ *    and never re-attributed
+ *  - anyone who can comment may open threads and resolve or reopen them;
+ *    anything else about a thread (its pin, its deletion) is the owner's
+ */
+
+import { MAX_COMMENT_LENGTH, type CommentEntry, type CommentMention } from '../../shared/comments.js'
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** Longest entry ID or user ID, in characters. */
+const MAX_ID_LENGTH = 100
+
+/** Longest author or mentioned name, in characters. */
+const MAX_NAME_LENGTH = 200
+
+/** Most people one message can mention. */
+const MAX_MENTIONS = 50
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Who is writing, as verified for their socket. */
+export interface CommentWriter {
+  /** Null for guests. */
+  userId: string | null
+  /** Verified display name, when it could be resolved. */
+  name: string | null
+  /** Owners may edit and delete anyone's comments. */
+  owner: boolean
+}
+
+/** The least trusted writer: a guest. */
+export const GUEST_WRITER: CommentWriter = { userId: null, name: null, owner: false }
+
+export type CommentValidation =
+  | { ok: true; entry: CommentEntry }
+  | { ok: false; error: string }
+
+// ---------------------------------------------------------------------------
+// Shape
+// ---------------------------------------------------------------------------
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isId(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH
+}
+
+function isName(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= MAX_NAME_LENGTH
+}
+
+function isAnchor(value: unknown): boolean {
+  if (!value || typeof value !== 'object') return false
+  const v = value as Record<string, unknown>
+  if ('objectId' in v) return isId(v.objectId) && isFiniteNumber(v.dx) && isFiniteNumber(v.dy)
+  return isFiniteNumber(v.x) && isFiniteNumber(v.y)
+}
+
+function isMention(value: unknown): value is CommentMention {
+  if (!value || typeof value !== 'object') return false
+  const v = value as Record<string, unknown>
+  return isId(v.userId) && isName(v.name)
+}
+
+/**
+ * Validate one comments map entry. Errors name the offending field, e.g.
+ * "text must be 1-2000 characters".
+ */
+export function validateCommentEntry(value: unknown): CommentValidation {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, error: 'must be an object' }
+  }
+  const v = value as Record<string, unknown>
+  if (!isId(v.id)) return { ok: false, error: 'id must be a non-empty string' }
+  if (typeof v.createdAt !== 'string' || Number.isNaN(Date.parse(v.createdAt))) {
+    return { ok: false, error: 'createdAt must be a date' }
+  }
+
+  if (v.kind === 'thread') {
+    if (!isAnchor(v.anchor)) return { ok: false, error: 'anchor must be a point or an object offset' }
+    if (typeof v.resolved !== 'boolean') return { ok: false, error: 'resolved must be a boolean' }
+    if (v.resolvedBy !== undefined && v.resolvedBy !== null && !isId(v.resolvedBy)) {
+      return { ok: false, error: 'resolvedBy must be a user ID or null' }
+    }
+    return { ok: true, entry: value as CommentEntry }
+  }
+
+  if (v.kind === 'message') {
+    if (!isId(v.threadId)) return { ok: false, error: 'threadId must be a non-empty string' }
+    if (v.authorId !== null && !isId(v.authorId)) return { ok: false, error: 'authorId must be a user ID or null' }
+    if (!isName(v.authorName)) return { ok: false, error: `authorName must be at most ${MAX_NAME_LENGTH} characters` }
+    if (typeof v.text !== 'string' || v.text.length === 0 || v.text.length > MAX_COMMENT_LENGTH) {
+      return { ok: false, error: `text must be 1-${MAX_COMMENT_LENGTH} characters` }
+    }
+    if (!Array.isArray(v.mentions) || v.mentions.length > MAX_MENTIONS || !v.mentions.every(isMention)) {
+      return { ok: false, error: `mentions must be a list of at most ${MAX_MENTIONS} people` }
+    }
+    return { ok: true, entry: value as CommentEntry }
+  }
+
+  return { ok: false, error: 'kind must be "thread" or "message"' }
+}
+
+// ---------------------------------------------------------------------------
+// Permissions
+// ---------------------------------------------------------------------------
+
+function isAuthor(message: CommentEntry, writer: CommentWriter): boolean {
+  return message.kind === 'message' && writer.userId !== null && message.authorId === writer.userId
+}
+
+/**
+ * Check one changed entry: `before` is what the doc holds under `id`,
+ * `after` what it would hold (undefined: absent). Returns the reason the
+ * writer may not make the change, or null if they may.
+ */
+export function checkCommentChange(
+  id: string,
+  before: unknown,
+  after: unknown,
+  writer: CommentWriter,
+): string | null {
+  const previous = before === undefined ? undefined : validateCommentEntry(before)
+  const old = previous?.ok ? previous.entry : undefined
+
+  if (after === undefined) {
+    if (writer.owner || (old && isAuthor(old, writer))) return null
+    return 'Only the author or the board owner can delete a comment'
+  }
+
+  const result = validateCommentEntry(after)
+  if (!result.ok) return result.error
+  const entry = result.entry
+  if (entry.id !== id) return 'id must match its key'
+
+  if (entry.kind === 'message') {
+    if (!old) {
+      if (entry.authorId !== writer.userId) return 'authorId must be your own user ID'
+      if (writer.name !== null && entry.authorName !== writer.name) return 'authorName must be your own name'
+      return null
+    }
+    if (old.kind !== 'message') return 'A thread cannot become a message'
+    if (!writer.owner && !isAuthor(old, writer)) return 'Only the author or the board owner can edit a comment'
+    if (entry.authorId !== old.authorId || entry.authorName !== old.authorName) return 'A comment cannot change its author'
+    return null
+  }
+
+  if (!old) return null
+  if (old.kind !== 'thread') return 'A message cannot become a thread'
+  const resolvedBy = entry.resolvedBy ?? null
+  if (resolvedBy !== (old.resolvedBy ?? null) && resolvedBy !== null && resolvedBy !== writer.userId) {
+    return 'resolvedBy must be your own user ID'
+  }
+  if (writer.owner) return null
+  const moved = JSON.stringify(entry.anchor) !== JSON.stringify(old.anchor) || entry.createdAt !== old.createdAt
+  return moved ? 'Only the board owner can change a thread other than resolving it' : null
+}
@@ -0,0 +1,516 @@
+/**
+ * Filesystem Persistence Adapter
+ *
+ * Layout under the data directory:
+ *   boards.json           — array of BoardRecord
+ *   members.json          — array of BoardMember
+ *   preferences.json      — array of BoardPreference
+ *   invites.json          — array of BoardInvite
+ *   snapshots/<room>.bin  — full Yjs state
+ *   updates/<room>.log    — update log: [u32 big-endian length][update bytes]...
+ *   versions/<room>/index.json, versions/<room>/<versionId>.bin — version history
+ *   thumbnails/<room>.png — dashboard thumbnail
+ *   search/<room>.txt     — lowercased object text for full-text search
+ *
+ * All writes for a room go through a per-room promise queue, so a snapshot
+ * never truncates a log entry that was appended after it was encoded.
+ */
+
+import { randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import * as Y from 'yjs'
+import type {
+  PersistenceAdapter,
+  BoardRecord,
+  BoardQuery,
+  BoardPage,
+  BoardVersion,
+  NewVersion,
+  BoardMember,
+  MemberRole,
+  BoardInvite,
+  NewInvite,
+  BoardPreference,
+  BoardPreferenceChanges,
+  StoredDoc,
+} from '../persistence.js'
+import { boardCandidates, pageBoards } from '../boardQuery.js'
+
+/** Queue key shared by boards.json, members.json, preferences.json and invites.json. */
+const BOARDS_QUEUE = '__boards__'
+
+/** Room names are validated upstream, but never let one escape the data dir. */
+function assertSafeName(name: string): void {
+  if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+    throw new Error(`Unsafe room name for file persistence: "${name}"`)
+  }
+}
+
+/** Frame one update as [u32 length][bytes]. */
+export function frameUpdate(update: Uint8Array): Buffer {
+  const frame = Buffer.alloc(4 + update.byteLength)
+  frame.writeUInt32BE(update.byteLength, 0)
+  frame.set(update, 4)
+  return frame
+}
+
+/** Split a log file back into updates. A truncated trailing frame is ignored. */
+export function parseUpdateLog(buf: Buffer): Uint8Array[] {
+  const updates: Uint8Array[] = []
+  let offset = 0
+  while (offset + 4 <= buf.length) {
+    const length = buf.readUInt32BE(offset)
+    const end = offset + 4 + length
+    if (end > buf.length) break // partial write from a crash mid-append
+    updates.push(new Uint8Array(buf.subarray(offset + 4, end)))
+    offset = end
+  }
+  return updates
+}
+
+async function readFileOrNull(file: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(file)
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw err
+  }
+}
+
+/** Write atomically: temp file + rename. */
+async function writeFileAtomic(file: string, data: Uint8Array | string): Promise<void> {
+  const tmp = `${file}.${process.pid}.tmp`
+  await fs.writeFile(tmp, data)
+  await fs.rename(tmp, file)
+}
+
+export class FileAdapter implements PersistenceAdapter {
+  readonly name = 'file' as const
+
+  private queues = new Map<string, Promise<unknown>>()
+  private ready: Promise<void>
+
+  constructor(private readonly dir: string) {
+    this.ready = Promise.all([
+      fs.mkdir(path.join(dir, 'snapshots'), { recursive: true }),
+      fs.mkdir(path.join(dir, 'updates'), { recursive: true }),
+      fs.mkdir(path.join(dir, 'versions'), { recursive: true }),
+      fs.mkdir(path.join(dir, 'thumbnails'), { recursive: true }),
+      fs.mkdir(path.join(dir, 'search'), { recursive: true }),
+    ]).then(() => undefined)
+  }
+
+  /** Run `task` after every earlier task queued under the same key. */
+  private enqueue<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const prev = this.queues.get(key) ?? this.ready
+    const next = prev.catch(() => undefined).then(task)
+    this.queues.set(key, next)
+    next.finally(() => {
+      if (this.queues.get(key) === next) this.queues.delete(key)
+    }).catch(() => undefined)
+    return next
+  }
+
+  private snapshotPath(room: string): string {
+    assertSafeName(room)
+    return path.join(this.dir, 'snapshots', `${room}.bin`)
+  }
+
+  private logPath(room: string): string {
+    assertSafeName(room)
+    return path.join(this.dir, 'updates', `${room}.log`)
+  }
+
+  private versionsDir(room: string): string {
+    assertSafeName(room)
+    return path.join(this.dir, 'versions', room)
+  }
+
+  private thumbnailPath(room: string): string {
+    assertSafeName(room)
+    return path.join(this.dir, 'thumbnails', `${room}.png`)
+  }
+
+  private searchPath(room: string): string {
+    assertSafeName(room)
+    return path.join(this.dir, 'search', `${room}.txt`)
+  }
+
+  private get boardsPath(): string {
+    return path.join(this.dir, 'boards.json')
+  }
+
+  private get membersPath(): string {
+    return path.join(this.dir, 'members.json')
+  }
+
+  private get preferencesPath(): string {
+    return path.join(this.dir, 'preferences.json')
+  }
+
+  private get invitesPath(): string {
+    return path.join(this.dir, 'invites.json')
+  }
+
+  // ---- Docs ---------------------------------------------------------------
+
+  load(room: string): Promise<StoredDoc> {
+    return this.enqueue(room, async () => {
+      try {
+        const snapshot = await readFileOrNull(this.snapshotPath(room))
+        const log = await readFileOrNull(this.logPath(room))
+        return {
+          snapshot: snapshot ? new Uint8Array(snapshot) : null,
+          updates: log ? parseUpdateLog(log) : [],
+        }
+      } catch (err) {
+        console.error(`[DB] Failed to load snapshot for ${room}:`, err)
+        return { snapshot: null, updates: [] }
+      }
+    })
+  }
+
+  save(room: string, doc: Y.Doc): Promise<void> {
+    return this.enqueue(room, async () => {
+      try {
+        const state = Y.encodeStateAsUpdate(doc)
+        await writeFileAtomic(this.snapshotPath(room), state)
+        await fs.rm(this.logPath(room), { force: true })
+        console.log(`[DB] Saved snapshot for room: ${room} (${state.byteLength} bytes)`)
+      } catch (err) {
+        console.error(`[DB] Failed to save snapshot for ${room}:`, err)
+      }
+    })
+  }
+
+  appendUpdate(room: string, update: Uint8Array): Promise<void> {
+    return this.enqueue(room, async () => {
+      try {
+        await fs.appendFile(this.logPath(room), frameUpdate(update))
+      } catch (err) {
+        console.error(`[DB] Failed to append update for ${room}:`, err)
+      }
+    })
+  }
+
+  // ---- Boards -------------------------------------------------------------
+
+  private async readBoards(): Promise<BoardRecord[]> {
+    const raw = await readFileOrNull(this.boardsPath)
+    const boards = raw ? JSON.parse(raw.toString()) as BoardRecord[] : []
+    // Boards written before templates and the trash existed lack these fields
+    for (const board of boards) {
+      board.is_template ??= false
+      board.deleted_at ??= null
+    }
+    return boards
+  }
+
+  private writeBoards(boards: BoardRecord[]): Promise<void> {
+    return writeFileAtomic(this.boardsPath, JSON.stringify(boards, null, 2))
+  }
+
+  listBoards(): Promise<BoardRecord[]> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const boards = await this.readBoards()
+      return boards.sort((a, b) => b.created_at.localeCompare(a.created_at))
+    })
+  }
+
+  async listUserBoards(query: BoardQuery): Promise<BoardPage> {
+    const candidates = await this.enqueue(BOARDS_QUEUE, async () => boardCandidates(await this.readBoards(), query))
+    const textMatches = query.q ? await this.searchBoardText(query.q, candidates.map((b) => b.id)) : []
+    return pageBoards(candidates, query, textMatches)
+  }
+
+  getBoard(id: string): Promise<BoardRecord | null> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const boards = await this.readBoards()
+      return boards.find((b) => b.id === id) ?? null
+    })
+  }
+
+  createBoard(ownerId: string, name: string): Promise<BoardRecord> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const now = new Date().toISOString()
+      const board: BoardRecord = {
+        id: randomUUID(), owner_id: ownerId, name, created_at: now, updated_at: now,
+        is_template: false, deleted_at: null,
+      }
+      const boards = await this.readBoards()
+      boards.push(board)
+      await this.writeBoards(boards)
+      return board
+    })
+  }
+
+  renameBoard(id: string, name: string): Promise<void> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const boards = await this.readBoards()
+      const board = boards.find((b) => b.id === id)
+      if (!board) throw new Error(`Board ${id} not found`)
+      board.name = name
+      board.updated_at = new Date().toISOString()
+      await this.writeBoards(boards)
+    })
+  }
+
+  setBoardTemplate(id: string, isTemplate: boolean): Promise<void> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const boards = await this.readBoards()
+      const board = boards.find((b) => b.id === id)
+      if (!board) throw new Error(`Board ${id} not found`)
+      board.is_template = isTemplate
+      await this.writeBoards(boards)
+    })
+  }
+
+  setBoardDeleted(id: string, deletedAt: string | null): Promise<void> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const boards = await this.readBoards()
+      const board = boards.find((b) => b.id === id)
+      if (!board) throw new Error(`Board ${id} not found`)
+      board.deleted_at = deletedAt
+      await this.writeBoards(boards)
+    })
+  }
+
+  async deleteBoard(id: string): Promise<void> {
+    await this.enqueue(id, async () => {
+      await fs.rm(this.snapshotPath(id), { force: true })
+      await fs.rm(this.logPath(id), { force: true })
+      await fs.rm(this.versionsDir(id), { recursive: true, force: true })
+      await fs.rm(this.thumbnailPath(id), { force: true })
+      await fs.rm(this.searchPath(id), { force: true })
+    })
+    await this.enqueue(BOARDS_QUEUE, async () => {
+      const members = await this.readMembers()
+      await this.writeMembers(members.filter((m) => m.board_id !== id))
+      const invites = await this.readInvites()
+      await this.writeInvites(invites.filter((i) => i.board_id !== id))
+      const preferences = await this.readPreferences()
+      await this.writePreferences(preferences.filter((p) => p.board_id !== id))
+      const boards = await this.readBoards()
+      await this.writeBoards(boards.filter((b) => b.id !== id))
+    })
+  }
+
+  // ---- Versions -----------------------------------------------------------
+
+  private async readVersionIndex(boardId: string): Promise<BoardVersion[]> {
+    const raw = await readFileOrNull(path.join(this.versionsDir(boardId), 'index.json'))
+    return raw ? JSON.parse(raw.toString()) as BoardVersion[] : []
+  }
+
+  saveVersion(boardId: string, state: Uint8Array, meta: NewVersion): Promise<BoardVersion> {
+    return this.enqueue(boardId, async () => {
+      const version: BoardVersion = {
+        id: randomUUID(),
+        board_id: boardId,
+        name: meta.name,
+        kind: meta.kind,
+        created_by: meta.createdBy,
+        created_at: new Date().toISOString(),
+      }
+      const dir = this.versionsDir(boardId)
+      await fs.mkdir(dir, { recursive: true })
+      await writeFileAtomic(path.join(dir, `${version.id}.bin`), state)
+      const index = await this.readVersionIndex(boardId)
+      index.push(version)
+      await writeFileAtomic(path.join(dir, 'index.json'), JSON.stringify(index, null, 2))
+      return version
+    })
+  }
+
+  listVersions(boardId: string): Promise<BoardVersion[]> {
+    return this.enqueue(boardId, async () => {
+      const index = await this.readVersionIndex(boardId)
+      return index.reverse()
+    })
+  }
+
+  loadVersion(boardId: string, versionId: string): Promise<Uint8Array | null> {
+    return this.enqueue(boardId, async () => {
+      const index = await this.readVersionIndex(boardId)
+      if (!index.some((v) => v.id === versionId)) return null
+      const raw = await readFileOrNull(path.join(this.versionsDir(boardId), `${versionId}.bin`))
+      return raw ? new Uint8Array(raw) : null
+    })
+  }
+
+  // ---- Thumbnails ---------------------------------------------------------
+
+  async saveThumbnail(boardId: string, png: Uint8Array): Promise<void> {
+    await this.enqueue(boardId, () => writeFileAtomic(this.thumbnailPath(boardId), png))
+    await this.enqueue(BOARDS_QUEUE, async () => {
+      const boards = await this.readBoards()
+      const board = boards.find((b) => b.id === boardId)
+      if (!board) return
+      board.updated_at = new Date().toISOString()
+      await this.writeBoards(boards)
+    })
+  }
+
+  loadThumbnail(boardId: string): Promise<Uint8Array | null> {
+    return this.enqueue(boardId, async () => {
+      const raw = await readFileOrNull(this.thumbnailPath(boardId))
+      return raw ? new Uint8Array(raw) : null
+    })
+  }
+
+  // ---- Search -------------------------------------------------------------
+
+  saveSearchText(boardId: string, text: string): Promise<void> {
+    return this.enqueue(boardId, () => writeFileAtomic(this.searchPath(boardId), text.toLowerCase()))
+  }
+
+  /** Reads only the given boards' files, never the whole directory. */
+  async searchBoardText(query: string, boardIds: readonly string[]): Promise<string[]> {
+    await this.ready
+    const needle = query.toLowerCase()
+    const matches: string[] = []
+    for (const id of boardIds) {
+      const text = await readFileOrNull(this.searchPath(id))
+      if (text?.toString().includes(needle)) matches.push(id)
+    }
+    return matches
+  }
+
+  // ---- Preferences --------------------------------------------------------
+
+  private async readPreferences(): Promise<BoardPreference[]> {
+    const raw = await readFileOrNull(this.preferencesPath)
+    return raw ? JSON.parse(raw.toString()) as BoardPreference[] : []
+  }
+
+  private writePreferences(preferences: BoardPreference[]): Promise<void> {
+    return writeFileAtomic(this.preferencesPath, JSON.stringify(preferences, null, 2))
+  }
+
+  listBoardPreferences(userId: string): Promise<BoardPreference[]> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const preferences = await this.readPreferences()
+      return preferences.filter((p) => p.user_id === userId)
+    })
+  }
+
+  setBoardPreference(boardId: string, userId: string, changes: BoardPreferenceChanges): Promise<BoardPreference> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const preferences = await this.readPreferences()
+      let preference = preferences.find((p) => p.board_id === boardId && p.user_id === userId)
+      if (!preference) {
+        preference = { board_id: boardId, user_id: userId, favorite: false, folder: null, updated_at: '' }
+        preferences.push(preference)
+      }
+      if (changes.favorite !== undefined) preference.favorite = changes.favorite
+      if (changes.folder !== undefined) preference.folder = changes.folder
+      preference.updated_at = new Date().toISOString()
+      await this.writePreferences(preferences)
+      return preference
+    })
+  }
+
+  // ---- Members ------------------------------------------------------------
+
+  private async readMembers(): Promise<BoardMember[]> {
+    const raw = await readFileOrNull(this.membersPath)
+    return raw ? JSON.parse(raw.toString()) as BoardMember[] : []
+  }
+
+  private writeMembers(members: BoardMember[]): Promise<void> {
+    return writeFileAtomic(this.membersPath, JSON.stringify(members, null, 2))
+  }
+
+  listMembers(boardId: string): Promise<BoardMember[]> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const members = await this.readMembers()
+      return members.filter((m) => m.board_id === boardId)
+    })
+  }
+
+  listMemberships(userId: string): Promise<BoardMember[]> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const members = await this.readMembers()
+      return members.filter((m) => m.user_id === userId)
+    })
+  }
+
+  getMember(boardId: string, userId: string): Promise<BoardMember | null> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const members = await this.readMembers()
+      return members.find((m) => m.board_id === boardId && m.user_id === userId) ?? null
+    })
+  }
+
+  setMember(boardId: string, userId: string, role: MemberRole): Promise<BoardMember> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const members = await this.readMembers()
+      let member = members.find((m) => m.board_id === boardId && m.user_id === userId)
+      if (member) {
+        member.role = role
+      } else {
+        member = { board_id: boardId, user_id: userId, role, created_at: new Date().toISOString() }
+        members.push(member)
+      }
+      await this.writeMembers(members)
+      return member
+    })
+  }
+
+  removeMember(boardId: string, userId: string): Promise<void> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const members = await this.readMembers()
+      await this.writeMembers(members.filter((m) => !(m.board_id === boardId && m.user_id === userId)))
+    })
+  }
+
+  // ---- Invites ------------------------------------------------------------
+
+  private async readInvites(): Promise<BoardInvite[]> {
+    const raw = await readFileOrNull(this.invitesPath)
+    return raw ? JSON.parse(raw.toString()) as BoardInvite[] : []
+  }
+
+  private writeInvites(invites: BoardInvite[]): Promise<void> {
+    return writeFileAtomic(this.invitesPath, JSON.stringify(invites, null, 2))
+  }
+
+  createInvite(boardId: string, invite: NewInvite): Promise<BoardInvite> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const record: BoardInvite = {
+        token: invite.token,
+        board_id: boardId,
+        role: invite.role,
+        created_by: invite.createdBy,
+        expires_at: invite.expiresAt,
+        created_at: new Date().toISOString(),
+      }
+      const invites = await this.readInvites()
+      invites.push(record)
+      await this.writeInvites(invites)
+      return record
+    })
+  }
+
+  getInvite(token: string): Promise<BoardInvite | null> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const invites = await this.readInvites()
+      return invites.find((i) => i.token === token) ?? null
+    })
+  }
+
+  listInvites(boardId: string): Promise<BoardInvite[]> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const invites = await this.readInvites()
+      return invites.filter((i) => i.board_id === boardId).reverse()
+    })
+  }
+
+  deleteInvite(boardId: string, token: string): Promise<void> {
+    return this.enqueue(BOARDS_QUEUE, async () => {
+      const invites = await this.readInvites()
+      await this.writeInvites(invites.filter((i) => !(i.board_id === boardId && i.token === token)))
+    })
+  }
+}
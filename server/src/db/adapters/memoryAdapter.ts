@@ -0,0 +1,246 @@
+/**
+ * In-Memory Persistence Adapter
+ *
+ * Process-local maps — nothing survives a restart. Used when no backend is
+ * configured and as a lightweight backend for integration tests.
+ */
+
+import { randomUUID } from 'crypto'
+import * as Y from 'yjs'
+import type {
+  PersistenceAdapter,
+  BoardRecord,
+  BoardQuery,
+  BoardPage,
+  BoardVersion,
+  NewVersion,
+  BoardMember,
+  MemberRole,
+  BoardInvite,
+  NewInvite,
+  BoardPreference,
+  BoardPreferenceChanges,
+  StoredDoc,
+} from '../persistence.js'
+import { boardCandidates, pageBoards } from '../boardQuery.js'
+
+export class MemoryAdapter implements PersistenceAdapter {
+  readonly name = 'memory' as const
+
+  private boards = new Map<string, BoardRecord>()
+  private snapshots = new Map<string, Uint8Array>()
+  private updates = new Map<string, Uint8Array[]>()
+  private versions = new Map<string, Array<{ meta: BoardVersion; state: Uint8Array }>>()
+  private thumbnails = new Map<string, Uint8Array>()
+  private searchTexts = new Map<string, string>()
+  /** userId → boardId → preference */
+  private preferences = new Map<string, Map<string, BoardPreference>>()
+  /** boardId → userId → membership */
+  private members = new Map<string, Map<string, BoardMember>>()
+  private invites = new Map<string, BoardInvite>()
+
+  async load(room: string): Promise<StoredDoc> {
+    return {
+      snapshot: this.snapshots.get(room) ?? null,
+      updates: [...(this.updates.get(room) ?? [])],
+    }
+  }
+
+  async save(room: string, doc: Y.Doc): Promise<void> {
+    this.snapshots.set(room, Y.encodeStateAsUpdate(doc))
+    this.updates.delete(room)
+  }
+
+  async appendUpdate(room: string, update: Uint8Array): Promise<void> {
+    const log = this.updates.get(room) ?? []
+    log.push(update)
+    this.updates.set(room, log)
+  }
+
+  async listBoards(): Promise<BoardRecord[]> {
+    return [...this.boards.values()].sort((a, b) => b.created_at.localeCompare(a.created_at))
+  }
+
+  async listUserBoards(query: BoardQuery): Promise<BoardPage> {
+    const candidates = boardCandidates(this.boards.values(), query)
+    const textMatches = query.q ? await this.searchBoardText(query.q, candidates.map((b) => b.id)) : []
+    return pageBoards(candidates, query, textMatches)
+  }
+
+  async getBoard(id: string): Promise<BoardRecord | null> {
+    return this.boards.get(id) ?? null
+  }
+
+  async createBoard(ownerId: string, name: string): Promise<BoardRecord> {
+    const now = new Date().toISOString()
+    const board: BoardRecord = {
+      id: randomUUID(), owner_id: ownerId, name, created_at: now, updated_at: now,
+      is_template: false, deleted_at: null,
+    }
+    this.boards.set(board.id, board)
+    return { ...board }
+  }
+
+  async renameBoard(id: string, name: string): Promise<void> {
+    const board = this.boards.get(id)
+    if (!board) throw new Error(`Board ${id} not found`)
+    this.boards.set(id, { ...board, name, updated_at: new Date().toISOString() })
+  }
+
+  async setBoardTemplate(id: string, isTemplate: boolean): Promise<void> {
+    const board = this.boards.get(id)
+    if (!board) throw new Error(`Board ${id} not found`)
+    this.boards.set(id, { ...board, is_template: isTemplate })
+  }
+
+  async setBoardDeleted(id: string, deletedAt: string | null): Promise<void> {
+    const board = this.boards.get(id)
+    if (!board) throw new Error(`Board ${id} not found`)
+    this.boards.set(id, { ...board, deleted_at: deletedAt })
+  }
+
+  async deleteBoard(id: string): Promise<void> {
+    this.snapshots.delete(id)
+    this.updates.delete(id)
+    this.versions.delete(id)
+    this.thumbnails.delete(id)
+    this.searchTexts.delete(id)
+    for (const byBoard of this.preferences.values()) byBoard.delete(id)
+    this.members.delete(id)
+    for (const invite of this.invites.values()) {
+      if (invite.board_id === id) this.invites.delete(invite.token)
+    }
+    this.boards.delete(id)
+  }
+
+  async saveVersion(boardId: string, state: Uint8Array, meta: NewVersion): Promise<BoardVersion> {
+    const version: BoardVersion = {
+      id: randomUUID(),
+      board_id: boardId,
+      name: meta.name,
+      kind: meta.kind,
+      created_by: meta.createdBy,
+      created_at: new Date().toISOString(),
+    }
+    const list = this.versions.get(boardId) ?? []
+    list.push({ meta: version, state })
+    this.versions.set(boardId, list)
+    return { ...version }
+  }
+
+  async listVersions(boardId: string): Promise<BoardVersion[]> {
+    return (this.versions.get(boardId) ?? []).map((v) => ({ ...v.meta })).reverse()
+  }
+
+  async loadVersion(boardId: string, versionId: string): Promise<Uint8Array | null> {
+    const entry = (this.versions.get(boardId) ?? []).find((v) => v.meta.id === versionId)
+    return entry?.state ?? null
+  }
+
+  async saveThumbnail(boardId: string, png: Uint8Array): Promise<void> {
+    this.thumbnails.set(boardId, png)
+    const board = this.boards.get(boardId)
+    if (board) this.boards.set(boardId, { ...board, updated_at: new Date().toISOString() })
+  }
+
+  async loadThumbnail(boardId: string): Promise<Uint8Array | null> {
+    return this.thumbnails.get(boardId) ?? null
+  }
+
+  async saveSearchText(boardId: string, text: string): Promise<void> {
+    this.searchTexts.set(boardId, text.toLowerCase())
+  }
+
+  async searchBoardText(query: string, boardIds: readonly string[]): Promise<string[]> {
+    const needle = query.toLowerCase()
+    return boardIds.filter((id) => this.searchTexts.get(id)?.includes(needle))
+  }
+
+  async listBoardPreferences(userId: string): Promise<BoardPreference[]> {
+    return [...(this.preferences.get(userId)?.values() ?? [])].map((p) => ({ ...p }))
+  }
+
+  async setBoardPreference(
+    boardId: string,
+    userId: string,
+    changes: BoardPreferenceChanges,
+  ): Promise<BoardPreference> {
+    const byBoard = this.preferences.get(userId) ?? new Map<string, BoardPreference>()
+    const existing = byBoard.get(boardId)
+    const preference: BoardPreference = {
+      board_id: boardId,
+      user_id: userId,
+      favorite: changes.favorite ?? existing?.favorite ?? false,
+      folder: changes.folder !== undefined ? changes.folder : existing?.folder ?? null,
+      updated_at: new Date().toISOString(),
+    }
+    byBoard.set(boardId, preference)
+    this.preferences.set(userId, byBoard)
+    return { ...preference }
+  }
+
+  async listMembers(boardId: string): Promise<BoardMember[]> {
+    return [...(this.members.get(boardId)?.values() ?? [])].map((m) => ({ ...m }))
+  }
+
+  async listMemberships(userId: string): Promise<BoardMember[]> {
+    const result: BoardMember[] = []
+    for (const byUser of this.members.values()) {
+      const member = byUser.get(userId)
+      if (member) result.push({ ...member })
+    }
+    return result
+  }
+
+  async getMember(boardId: string, userId: string): Promise<BoardMember | null> {
+    const member = this.members.get(boardId)?.get(userId)
+    return member ? { ...member } : null
+  }
+
+  async setMember(boardId: string, userId: string, role: MemberRole): Promise<BoardMember> {
+    const byUser = this.members.get(boardId) ?? new Map<string, BoardMember>()
+    const existing = byUser.get(userId)
+    const member: BoardMember = {
+      board_id: boardId,
+      user_id: userId,
+      role,
+      created_at: existing?.created_at ?? new Date().toISOString(),
+    }
+    byUser.set(userId, member)
+    this.members.set(boardId, byUser)
+    return { ...member }
+  }
+
+  async removeMember(boardId: string, userId: string): Promise<void> {
+    this.members.get(boardId)?.delete(userId)
+  }
+
+  async createInvite(boardId: string, invite: NewInvite): Promise<BoardInvite> {
+    const record: BoardInvite = {
+      token: invite.token,
+      board_id: boardId,
+      role: invite.role,
+      created_by: invite.createdBy,
+      expires_at: invite.expiresAt,
+      created_at: new Date().toISOString(),
+    }
+    this.invites.set(record.token, record)
+    return { ...record }
+  }
+
+  async getInvite(token: string): Promise<BoardInvite | null> {
+    const invite = this.invites.get(token)
+    return invite ? { ...invite } : null
+  }
+
+  async listInvites(boardId: string): Promise<BoardInvite[]> {
+    return [...this.invites.values()]
+      .filter((i) => i.board_id === boardId)
+      .map((i) => ({ ...i }))
+      .reverse()
+  }
+
+  async deleteInvite(boardId: string, token: string): Promise<void> {
+    if (this.invites.get(token)?.board_id === boardId) this.invites.delete(token)
+  }
+}
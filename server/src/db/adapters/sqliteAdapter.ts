@@ -0,0 +1,471 @@
+/**
+ * SQLite Persistence Adapter
+ *
+ * Same tables as Supabase (boards, board_snapshots, board_updates,
+ * board_versions, board_thumbnails, board_search, board_preferences,
+ * board_members, board_invites) in a
+ * single local database file. better-sqlite3 is synchronous, so a snapshot
+ * and its log compaction run in one transaction with nothing interleaved;
+ * compaction still keeps rows the doc doesn't contain yet.
+ */
+
+import { randomUUID } from 'crypto'
+import { mkdirSync } from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import * as Y from 'yjs'
+import { countAppliedUpdates } from '../updateLog.js'
+import type {
+  PersistenceAdapter,
+  BoardRecord,
+  BoardOrder,
+  BoardQuery,
+  BoardPage,
+  BoardVersion,
+  NewVersion,
+  BoardMember,
+  MemberRole,
+  BoardInvite,
+  NewInvite,
+  BoardPreference,
+  BoardPreferenceChanges,
+  StoredDoc,
+} from '../persistence.js'
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS boards (
+  id TEXT PRIMARY KEY,
+  owner_id TEXT NOT NULL,
+  name TEXT NOT NULL DEFAULT 'Untitled Board',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  is_template INTEGER NOT NULL DEFAULT 0,
+  deleted_at TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_boards_owner_id ON boards(owner_id);
+
+CREATE TABLE IF NOT EXISTS board_snapshots (
+  board_id TEXT PRIMARY KEY,
+  snapshot BLOB NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS board_updates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  board_id TEXT NOT NULL,
+  payload BLOB NOT NULL,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_board_updates_board_id ON board_updates(board_id, id);
+
+CREATE TABLE IF NOT EXISTS board_versions (
+  id TEXT PRIMARY KEY,
+  board_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  created_by TEXT,
+  snapshot BLOB NOT NULL,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_board_versions_board_id ON board_versions(board_id, created_at);
+
+CREATE TABLE IF NOT EXISTS board_thumbnails (
+  board_id TEXT PRIMARY KEY,
+  image BLOB NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS board_search (
+  board_id TEXT PRIMARY KEY,
+  content TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS board_preferences (
+  board_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  favorite INTEGER NOT NULL DEFAULT 0,
+  folder TEXT,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (user_id, board_id)
+);
+
+CREATE TABLE IF NOT EXISTS board_members (
+  board_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (board_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_board_members_user_id ON board_members(user_id);
+
+CREATE TABLE IF NOT EXISTS board_invites (
+  token TEXT PRIMARY KEY,
+  board_id TEXT NOT NULL,
+  role TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  expires_at TEXT,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_board_invites_board_id ON board_invites(board_id);
+`
+
+const VERSION_COLUMNS = 'id, board_id, name, kind, created_by, created_at'
+
+/** ORDER BY for each BoardOrder; ties go to the latest edit, then the ID. */
+const BOARD_ORDER_SQL: Record<BoardOrder, string> = {
+  updated: 'updated_at DESC, id ASC',
+  created: 'created_at DESC, updated_at DESC, id ASC',
+  name: 'name COLLATE NOCASE ASC, updated_at DESC, id ASC',
+}
+
+type BoardRow = Omit<BoardRecord, 'is_template'> & { is_template: number }
+
+function toBoard(row: BoardRow): BoardRecord {
+  return { ...row, is_template: row.is_template === 1 }
+}
+
+type PreferenceRow = Omit<BoardPreference, 'favorite'> & { favorite: number }
+
+function toPreference(row: PreferenceRow): BoardPreference {
+  return { ...row, favorite: row.favorite === 1 }
+}
+
+export class SqliteAdapter implements PersistenceAdapter {
+  readonly name = 'sqlite' as const
+
+  private db: Database.Database
+
+  constructor(file: string) {
+    if (file !== ':memory:') {
+      mkdirSync(path.dirname(file), { recursive: true })
+    }
+    this.db = new Database(file)
+    this.db.pragma('journal_mode = WAL')
+    this.db.exec(SCHEMA)
+    this.migrate()
+  }
+
+  /** Add columns introduced after a database file was first created. */
+  private migrate(): void {
+    const columns = this.db.prepare('PRAGMA table_info(boards)').all() as Array<{ name: string }>
+    if (!columns.some((c) => c.name === 'is_template')) {
+      this.db.exec('ALTER TABLE boards ADD COLUMN is_template INTEGER NOT NULL DEFAULT 0')
+    }
+    if (!columns.some((c) => c.name === 'deleted_at')) {
+      this.db.exec('ALTER TABLE boards ADD COLUMN deleted_at TEXT')
+    }
+  }
+
+  /** Close the database handle (tests). */
+  close(): void {
+    this.db.close()
+  }
+
+  // ---- Docs ---------------------------------------------------------------
+
+  async load(room: string): Promise<StoredDoc> {
+    try {
+      const row = this.db
+        .prepare('SELECT snapshot FROM board_snapshots WHERE board_id = ?')
+        .get(room) as { snapshot: Buffer } | undefined
+      const rows = this.db
+        .prepare('SELECT payload FROM board_updates WHERE board_id = ? ORDER BY id ASC')
+        .all(room) as Array<{ payload: Buffer }>
+
+      return {
+        snapshot: row ? new Uint8Array(row.snapshot) : null,
+        updates: rows.map((r) => new Uint8Array(r.payload)),
+      }
+    } catch (err) {
+      console.error(`[DB] Failed to load snapshot for ${room}:`, err)
+      return { snapshot: null, updates: [] }
+    }
+  }
+
+  async save(room: string, doc: Y.Doc): Promise<void> {
+    try {
+      const state = Y.encodeStateAsUpdate(doc)
+      this.db.transaction(() => {
+        this.db
+          .prepare(`INSERT INTO board_snapshots (board_id, snapshot, updated_at) VALUES (?, ?, ?)
+            ON CONFLICT(board_id) DO UPDATE SET snapshot = excluded.snapshot, updated_at = excluded.updated_at`)
+          .run(room, Buffer.from(state), new Date().toISOString())
+        // Keep rows another instance logged that haven't reached this doc yet
+        const rows = this.db
+          .prepare('SELECT id, payload FROM board_updates WHERE board_id = ? ORDER BY id ASC')
+          .all(room) as Array<{ id: number; payload: Buffer }>
+        const applied = countAppliedUpdates(doc, rows.map((r) => new Uint8Array(r.payload)))
+        if (applied > 0) {
+          this.db.prepare('DELETE FROM board_updates WHERE board_id = ? AND id <= ?').run(room, rows[applied - 1].id)
+        }
+      })()
+      console.log(`[DB] Saved snapshot for room: ${room} (${state.byteLength} bytes)`)
+    } catch (err) {
+      console.error(`[DB] Failed to save snapshot for ${room}:`, err)
+    }
+  }
+
+  async appendUpdate(room: string, update: Uint8Array): Promise<void> {
+    try {
+      this.db
+        .prepare('INSERT INTO board_updates (board_id, payload, created_at) VALUES (?, ?, ?)')
+        .run(room, Buffer.from(update), new Date().toISOString())
+    } catch (err) {
+      console.error(`[DB] Failed to append update for ${room}:`, err)
+    }
+  }
+
+  // ---- Boards -------------------------------------------------------------
+
+  async listBoards(): Promise<BoardRecord[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM boards ORDER BY created_at DESC')
+      .all() as BoardRow[]
+    return rows.map(toBoard)
+  }
+
+  async listUserBoards(query: BoardQuery): Promise<BoardPage> {
+    // ID lists are bound as JSON arrays; instr() keeps % and _ in q literal
+    const where = ['deleted_at IS NULL', '(owner_id = ? OR id IN (SELECT value FROM json_each(?)))']
+    const params: unknown[] = [query.userId, JSON.stringify(query.memberOf)]
+    if (query.ids) {
+      where.push('id IN (SELECT value FROM json_each(?))')
+      params.push(JSON.stringify(query.ids))
+    }
+    if (query.templates) where.push('is_template = 1')
+    if (query.q) {
+      where.push('(instr(lower(name), ?) > 0 OR id IN (SELECT board_id FROM board_search WHERE instr(content, ?) > 0))')
+      params.push(query.q.toLowerCase(), query.q.toLowerCase())
+    }
+    const filter = `FROM boards WHERE ${where.join(' AND ')}`
+
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total ${filter}`).get(...params) as { total: number }
+    const page = query.page ? ' LIMIT ? OFFSET ?' : ''
+    const rows = this.db
+      .prepare(`SELECT * ${filter} ORDER BY ${BOARD_ORDER_SQL[query.order]}${page}`)
+      .all(...params, ...(query.page ? [query.page.limit, query.page.offset] : [])) as BoardRow[]
+    return { boards: rows.map(toBoard), total }
+  }
+
+  async getBoard(id: string): Promise<BoardRecord | null> {
+    const row = this.db.prepare('SELECT * FROM boards WHERE id = ?').get(id) as BoardRow | undefined
+    return row ? toBoard(row) : null
+  }
+
+  async createBoard(ownerId: string, name: string): Promise<BoardRecord> {
+    const now = new Date().toISOString()
+    const board: BoardRecord = {
+      id: randomUUID(), owner_id: ownerId, name, created_at: now, updated_at: now,
+      is_template: false, deleted_at: null,
+    }
+    this.db
+      .prepare('INSERT INTO boards (id, owner_id, name, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+      .run(board.id, board.owner_id, board.name, board.created_at, board.updated_at)
+    return board
+  }
+
+  async renameBoard(id: string, name: string): Promise<void> {
+    this.db
+      .prepare('UPDATE boards SET name = ?, updated_at = ? WHERE id = ?')
+      .run(name, new Date().toISOString(), id)
+  }
+
+  async setBoardTemplate(id: string, isTemplate: boolean): Promise<void> {
+    this.db
+      .prepare('UPDATE boards SET is_template = ? WHERE id = ?')
+      .run(isTemplate ? 1 : 0, id)
+  }
+
+  async setBoardDeleted(id: string, deletedAt: string | null): Promise<void> {
+    this.db
+      .prepare('UPDATE boards SET deleted_at = ? WHERE id = ?')
+      .run(deletedAt, id)
+  }
+
+  async deleteBoard(id: string): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM board_snapshots WHERE board_id = ?').run(id)
+      this.db.prepare('DELETE FROM board_updates WHERE board_id = ?').run(id)
+      this.db.prepare('DELETE FROM board_versions WHERE board_id = ?').run(id)
+      this.db.prepare('DELETE FROM board_thumbnails WHERE board_id = ?').run(id)
+      this.db.prepare('DELETE FROM board_search WHERE board_id = ?').run(id)
+      this.db.prepare('DELETE FROM board_preferences WHERE board_id = ?').run(id)
+      this.db.prepare('DELETE FROM board_members WHERE board_id = ?').run(id)
+      this.db.prepare('DELETE FROM board_invites WHERE board_id = ?').run(id)
+      this.db.prepare('DELETE FROM boards WHERE id = ?').run(id)
+    })()
+  }
+
+  // ---- Versions -----------------------------------------------------------
+
+  async saveVersion(boardId: string, state: Uint8Array, meta: NewVersion): Promise<BoardVersion> {
+    const version: BoardVersion = {
+      id: randomUUID(),
+      board_id: boardId,
+      name: meta.name,
+      kind: meta.kind,
+      created_by: meta.createdBy,
+      created_at: new Date().toISOString(),
+    }
+    this.db
+      .prepare(`INSERT INTO board_versions (id, board_id, name, kind, created_by, snapshot, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`)
+      .run(version.id, boardId, version.name, version.kind, version.created_by, Buffer.from(state), version.created_at)
+    return version
+  }
+
+  async listVersions(boardId: string): Promise<BoardVersion[]> {
+    return this.db
+      .prepare(`SELECT ${VERSION_COLUMNS} FROM board_versions WHERE board_id = ? ORDER BY created_at DESC, rowid DESC`)
+      .all(boardId) as BoardVersion[]
+  }
+
+  async loadVersion(boardId: string, versionId: string): Promise<Uint8Array | null> {
+    const row = this.db
+      .prepare('SELECT snapshot FROM board_versions WHERE board_id = ? AND id = ?')
+      .get(boardId, versionId) as { snapshot: Buffer } | undefined
+    return row ? new Uint8Array(row.snapshot) : null
+  }
+
+  // ---- Thumbnails ---------------------------------------------------------
+
+  async saveThumbnail(boardId: string, png: Uint8Array): Promise<void> {
+    const now = new Date().toISOString()
+    this.db.transaction(() => {
+      this.db
+        .prepare(`INSERT INTO board_thumbnails (board_id, image, updated_at) VALUES (?, ?, ?)
+          ON CONFLICT(board_id) DO UPDATE SET image = excluded.image, updated_at = excluded.updated_at`)
+        .run(boardId, Buffer.from(png), now)
+      this.db.prepare('UPDATE boards SET updated_at = ? WHERE id = ?').run(now, boardId)
+    })()
+  }
+
+  async loadThumbnail(boardId: string): Promise<Uint8Array | null> {
+    const row = this.db
+      .prepare('SELECT image FROM board_thumbnails WHERE board_id = ?')
+      .get(boardId) as { image: Buffer } | undefined
+    return row ? new Uint8Array(row.image) : null
+  }
+
+  // ---- Search -------------------------------------------------------------
+
+  async saveSearchText(boardId: string, text: string): Promise<void> {
+    this.db
+      .prepare(`INSERT INTO board_search (board_id, content, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT(board_id) DO UPDATE SET content = excluded.content, updated_at = excluded.updated_at`)
+      .run(boardId, text.toLowerCase(), new Date().toISOString())
+  }
+
+  async searchBoardText(query: string, boardIds: readonly string[]): Promise<string[]> {
+    // instr() rather than LIKE, so % and _ in the query are literal
+    const rows = this.db
+      .prepare('SELECT board_id FROM board_search WHERE instr(content, ?) > 0 AND board_id IN (SELECT value FROM json_each(?))')
+      .all(query.toLowerCase(), JSON.stringify(boardIds)) as Array<{ board_id: string }>
+    return rows.map((r) => r.board_id)
+  }
+
+  // ---- Preferences --------------------------------------------------------
+
+  async listBoardPreferences(userId: string): Promise<BoardPreference[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM board_preferences WHERE user_id = ?')
+      .all(userId) as PreferenceRow[]
+    return rows.map(toPreference)
+  }
+
+  async setBoardPreference(
+    boardId: string,
+    userId: string,
+    changes: BoardPreferenceChanges,
+  ): Promise<BoardPreference> {
+    const existing = this.db
+      .prepare('SELECT * FROM board_preferences WHERE board_id = ? AND user_id = ?')
+      .get(boardId, userId) as PreferenceRow | undefined
+    const preference: BoardPreference = {
+      board_id: boardId,
+      user_id: userId,
+      favorite: changes.favorite ?? existing?.favorite === 1,
+      folder: changes.folder !== undefined ? changes.folder : existing?.folder ?? null,
+      updated_at: new Date().toISOString(),
+    }
+    this.db
+      .prepare(`INSERT INTO board_preferences (board_id, user_id, favorite, folder, updated_at) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(user_id, board_id) DO UPDATE SET
+          favorite = excluded.favorite, folder = excluded.folder, updated_at = excluded.updated_at`)
+      .run(boardId, userId, preference.favorite ? 1 : 0, preference.folder, preference.updated_at)
+    return preference
+  }
+
+  // ---- Members ------------------------------------------------------------
+
+  async listMembers(boardId: string): Promise<BoardMember[]> {
+    return this.db
+      .prepare('SELECT * FROM board_members WHERE board_id = ? ORDER BY created_at ASC, rowid ASC')
+      .all(boardId) as BoardMember[]
+  }
+
+  async listMemberships(userId: string): Promise<BoardMember[]> {
+    return this.db
+      .prepare('SELECT * FROM board_members WHERE user_id = ?')
+      .all(userId) as BoardMember[]
+  }
+
+  async getMember(boardId: string, userId: string): Promise<BoardMember | null> {
+    const row = this.db
+      .prepare('SELECT * FROM board_members WHERE board_id = ? AND user_id = ?')
+      .get(boardId, userId) as BoardMember | undefined
+    return row ?? null
+  }
+
+  async setMember(boardId: string, userId: string, role: MemberRole): Promise<BoardMember> {
+    this.db
+      .prepare(`INSERT INTO board_members (board_id, user_id, role, created_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT(board_id, user_id) DO UPDATE SET role = excluded.role`)
+      .run(boardId, userId, role, new Date().toISOString())
+    return (await this.getMember(boardId, userId))!
+  }
+
+  async removeMember(boardId: string, userId: string): Promise<void> {
+    this.db
+      .prepare('DELETE FROM board_members WHERE board_id = ? AND user_id = ?')
+      .run(boardId, userId)
+  }
+
+  // ---- Invites ------------------------------------------------------------
+
+  async createInvite(boardId: string, invite: NewInvite): Promise<BoardInvite> {
+    const record: BoardInvite = {
+      token: invite.token,
+      board_id: boardId,
+      role: invite.role,
+      created_by: invite.createdBy,
+      expires_at: invite.expiresAt,
+      created_at: new Date().toISOString(),
+    }
+    this.db
+      .prepare(`INSERT INTO board_invites (token, board_id, role, created_by, expires_at, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)`)
+      .run(record.token, boardId, record.role, record.created_by, record.expires_at, record.created_at)
+    return record
+  }
+
+  async getInvite(token: string): Promise<BoardInvite | null> {
+    const row = this.db
+      .prepare('SELECT * FROM board_invites WHERE token = ?')
+      .get(token) as BoardInvite | undefined
+    return row ?? null
+  }
+
+  async listInvites(boardId: string): Promise<BoardInvite[]> {
+    return this.db
+      .prepare('SELECT * FROM board_invites WHERE board_id = ? ORDER BY created_at DESC, rowid DESC')
+      .all(boardId) as BoardInvite[]
+  }
+
+  async deleteInvite(boardId: string, token: string): Promise<void> {
+    this.db
+      .prepare('DELETE FROM board_invites WHERE board_id = ? AND token = ?')
+      .run(boardId, token)
+  }
+}
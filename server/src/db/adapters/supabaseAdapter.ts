@@ -0,0 +1,491 @@
+/**
+ * Supabase Persistence Adapter
+ *
+ * Tables: `boards`, `board_snapshots` (one base64 row per room),
+ * `board_updates` (the incremental log — see ../updateLog.ts),
+ * `board_versions` (named and hourly checkpoints), `board_thumbnails`
+ * (dashboard previews), `board_search` and `board_preferences` (dashboard
+ * search, favorites and folders), `board_members` and `board_invites`
+ * (access control).
+ */
+
+import * as Y from 'yjs'
+import { supabase } from '../supabase.js'
+import {
+  appendUpdate,
+  loadUpdates,
+  getAppliedUpdateId,
+  compactUpdates,
+  clearUpdates,
+} from '../updateLog.js'
+import type {
+  PersistenceAdapter,
+  BoardRecord,
+  BoardOrder,
+  BoardQuery,
+  BoardPage,
+  BoardVersion,
+  NewVersion,
+  BoardMember,
+  MemberRole,
+  BoardInvite,
+  NewInvite,
+  BoardPreference,
+  BoardPreferenceChanges,
+  StoredDoc,
+} from '../persistence.js'
+
+const VERSION_COLUMNS = 'id, board_id, name, kind, created_by, created_at'
+
+/**
+ * Whether a single-row lookup failed only because there is no such row:
+ * PGRST116 = no rows; 22P02 = an ID that isn't a UUID, so a room that isn't
+ * a board (the guest sandbox, the legacy default room). Anything else is a
+ * failed lookup, which must not pass for a missing row.
+ */
+function isMissingRow(error: { code?: string } | null): boolean {
+  return error?.code === 'PGRST116' || error?.code === '22P02'
+}
+
+/** Escape LIKE wildcards so a query matches literally. */
+function escapeLike(query: string): string {
+  return query.replace(/[\\%_]/g, (c) => `\\${c}`)
+}
+
+/** Quote a value inside a PostgREST `or` filter, where commas and parentheses are syntax. */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/[\\"]/g, (c) => `\\${c}`)}"`
+}
+
+/** ORDER BY for each BoardOrder; ties go to the latest edit, then the ID. */
+const BOARD_ORDER_COLUMNS: Record<BoardOrder, Array<[column: string, ascending: boolean]>> = {
+  updated: [['updated_at', false], ['id', true]],
+  created: [['created_at', false], ['updated_at', false], ['id', true]],
+  name: [['name', true], ['updated_at', false], ['id', true]],
+}
+
+export class SupabaseAdapter implements PersistenceAdapter {
+  readonly name = 'supabase' as const
+
+  async load(room: string): Promise<StoredDoc> {
+    let snapshot: Uint8Array | null = null
+
+    try {
+      const { data, error } = await supabase!
+        .from('board_snapshots')
+        .select('snapshot')
+        .eq('board_id', room)
+        .single()
+
+      if (error && error.code !== 'PGRST116') {
+        // PGRST116 = "no rows returned" — that's fine for new boards
+        console.error(`[DB] Error loading snapshot for ${room}:`, error.message)
+      }
+
+      if (data?.snapshot) {
+        snapshot = new Uint8Array(Buffer.from(data.snapshot, 'base64'))
+      }
+    } catch (err) {
+      console.error(`[DB] Failed to load snapshot for ${room}:`, err)
+    }
+
+    return { snapshot, updates: await loadUpdates(room) }
+  }
+
+  async save(room: string, doc: Y.Doc): Promise<void> {
+    try {
+      // Every row up to this is in the doc, and so in the snapshot encoded next
+      const appliedUpdateId = await getAppliedUpdateId(room, doc)
+      const state = Y.encodeStateAsUpdate(doc)
+      const snapshot = Buffer.from(state).toString('base64')
+
+      const { error } = await supabase!
+        .from('board_snapshots')
+        .upsert(
+          { board_id: room, snapshot, updated_at: new Date().toISOString() },
+          { onConflict: 'board_id' }
+        )
+
+      if (error) {
+        console.error(`[DB] Error saving snapshot for ${room}:`, error.message)
+        return
+      }
+
+      console.log(`[DB] Saved snapshot for room: ${room} (${state.byteLength} bytes)`)
+      if (appliedUpdateId !== null) {
+        await compactUpdates(room, appliedUpdateId)
+      }
+    } catch (err) {
+      console.error(`[DB] Failed to save snapshot for ${room}:`, err)
+    }
+  }
+
+  appendUpdate(room: string, update: Uint8Array): Promise<void> {
+    return appendUpdate(room, update)
+  }
+
+  async listBoards(): Promise<BoardRecord[]> {
+    const { data, error } = await supabase!
+      .from('boards')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) throw new Error(`Failed to fetch boards: ${error.message}`)
+    return data ?? []
+  }
+
+  async listUserBoards(query: BoardQuery): Promise<BoardPage> {
+    if (query.ids?.length === 0) return { boards: [], total: 0 }
+    const visible = [
+      `owner_id.eq.${quoteFilterValue(query.userId)}`,
+      ...(query.memberOf.length > 0 ? [`id.in.(${query.memberOf.join(',')})`] : []),
+    ].join(',')
+
+    // Board text is searched among the user's boards only
+    let textMatches: string[] = []
+    if (query.q) {
+      const { data, error } = await supabase!.from('boards').select('id').or(visible).is('deleted_at', null)
+      if (error) throw new Error(`Failed to fetch boards: ${error.message}`)
+      textMatches = await this.searchBoardText(query.q, (data ?? []).map((row: { id: string }) => row.id))
+    }
+
+    let request = supabase!
+      .from('boards')
+      .select('*', { count: 'exact' })
+      .or(visible)
+      .is('deleted_at', null)
+    if (query.ids) request = request.in('id', query.ids)
+    if (query.templates) request = request.eq('is_template', true)
+    if (query.q) {
+      request = request.or([
+        `name.ilike.${quoteFilterValue(`%${escapeLike(query.q)}%`)}`,
+        ...(textMatches.length > 0 ? [`id.in.(${textMatches.join(',')})`] : []),
+      ].join(','))
+    }
+    for (const [column, ascending] of BOARD_ORDER_COLUMNS[query.order]) {
+      request = request.order(column, { ascending })
+    }
+    if (query.page) request = request.range(query.page.offset, query.page.offset + query.page.limit - 1)
+
+    const { data, error, count } = await request
+    if (error) throw new Error(`Failed to fetch boards: ${error.message}`)
+    return { boards: data ?? [], total: count ?? 0 }
+  }
+
+  async getBoard(id: string): Promise<BoardRecord | null> {
+    const { data, error } = await supabase!
+      .from('boards')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error && !isMissingRow(error)) throw new Error(`Failed to fetch board: ${error.message}`)
+    return data ?? null
+  }
+
+  async createBoard(ownerId: string, name: string): Promise<BoardRecord> {
+    const { data, error } = await supabase!
+      .from('boards')
+      .insert({ owner_id: ownerId, name })
+      .select('*')
+      .single()
+
+    if (error || !data) throw new Error(`Failed to create board: ${error?.message}`)
+    return data
+  }
+
+  async renameBoard(id: string, name: string): Promise<void> {
+    const { error } = await supabase!
+      .from('boards')
+      .update({ name, updated_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) throw new Error(`Failed to rename board: ${error.message}`)
+  }
+
+  async setBoardTemplate(id: string, isTemplate: boolean): Promise<void> {
+    const { error } = await supabase!
+      .from('boards')
+      .update({ is_template: isTemplate })
+      .eq('id', id)
+
+    if (error) throw new Error(`Failed to update board: ${error.message}`)
+  }
+
+  async setBoardDeleted(id: string, deletedAt: string | null): Promise<void> {
+    const { error } = await supabase!
+      .from('boards')
+      .update({ deleted_at: deletedAt })
+      .eq('id', id)
+
+    if (error) throw new Error(`Failed to update board: ${error.message}`)
+  }
+
+  async deleteBoard(id: string): Promise<void> {
+    // Delete the snapshot first (not foreign-keyed, uses board_id TEXT)
+    await supabase!
+      .from('board_snapshots')
+      .delete()
+      .eq('board_id', id)
+
+    // Delete the incremental update log, version history and thumbnail
+    await clearUpdates(id)
+    await supabase!
+      .from('board_versions')
+      .delete()
+      .eq('board_id', id)
+    await supabase!
+      .from('board_thumbnails')
+      .delete()
+      .eq('board_id', id)
+
+    // Delete the search index entry and everyone's favorites/folders for it
+    await supabase!
+      .from('board_search')
+      .delete()
+      .eq('board_id', id)
+    await supabase!
+      .from('board_preferences')
+      .delete()
+      .eq('board_id', id)
+
+    // Delete memberships and outstanding invite links
+    await supabase!
+      .from('board_members')
+      .delete()
+      .eq('board_id', id)
+    await supabase!
+      .from('board_invites')
+      .delete()
+      .eq('board_id', id)
+
+    const { error } = await supabase!
+      .from('boards')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw new Error(`Failed to delete board: ${error.message}`)
+  }
+
+  async saveVersion(boardId: string, state: Uint8Array, meta: NewVersion): Promise<BoardVersion> {
+    const { data, error } = await supabase!
+      .from('board_versions')
+      .insert({
+        board_id: boardId,
+        name: meta.name,
+        kind: meta.kind,
+        created_by: meta.createdBy,
+        snapshot: Buffer.from(state).toString('base64'),
+      })
+      .select(VERSION_COLUMNS)
+      .single()
+
+    if (error || !data) throw new Error(`Failed to save version: ${error?.message}`)
+    return data
+  }
+
+  async listVersions(boardId: string): Promise<BoardVersion[]> {
+    const { data, error } = await supabase!
+      .from('board_versions')
+      .select(VERSION_COLUMNS)
+      .eq('board_id', boardId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw new Error(`Failed to list versions: ${error.message}`)
+    return data ?? []
+  }
+
+  async loadVersion(boardId: string, versionId: string): Promise<Uint8Array | null> {
+    const { data, error } = await supabase!
+      .from('board_versions')
+      .select('snapshot')
+      .eq('board_id', boardId)
+      .eq('id', versionId)
+      .single()
+
+    if (error && !isMissingRow(error)) throw new Error(`Failed to load version: ${error.message}`)
+    if (!data?.snapshot) return null
+    return new Uint8Array(Buffer.from(data.snapshot, 'base64'))
+  }
+
+  async saveThumbnail(boardId: string, png: Uint8Array): Promise<void> {
+    const now = new Date().toISOString()
+    const { error } = await supabase!
+      .from('board_thumbnails')
+      .upsert(
+        { board_id: boardId, image: Buffer.from(png).toString('base64'), updated_at: now },
+        { onConflict: 'board_id' }
+      )
+    if (error) throw new Error(`Failed to save thumbnail: ${error.message}`)
+
+    const { error: touchError } = await supabase!
+      .from('boards')
+      .update({ updated_at: now })
+      .eq('id', boardId)
+    if (touchError) throw new Error(`Failed to touch board: ${touchError.message}`)
+  }
+
+  async loadThumbnail(boardId: string): Promise<Uint8Array | null> {
+    const { data, error } = await supabase!
+      .from('board_thumbnails')
+      .select('image')
+      .eq('board_id', boardId)
+      .single()
+
+    if (error || !data?.image) return null
+    return new Uint8Array(Buffer.from(data.image, 'base64'))
+  }
+
+  async saveSearchText(boardId: string, text: string): Promise<void> {
+    const { error } = await supabase!
+      .from('board_search')
+      .upsert(
+        { board_id: boardId, content: text.toLowerCase(), updated_at: new Date().toISOString() },
+        { onConflict: 'board_id' }
+      )
+    if (error) throw new Error(`Failed to save search text: ${error.message}`)
+  }
+
+  async searchBoardText(query: string, boardIds: readonly string[]): Promise<string[]> {
+    if (boardIds.length === 0) return []
+    const { data, error } = await supabase!
+      .from('board_search')
+      .select('board_id')
+      .in('board_id', boardIds)
+      .ilike('content', `%${escapeLike(query)}%`)
+
+    if (error) throw new Error(`Failed to search boards: ${error.message}`)
+    return (data ?? []).map((row: { board_id: string }) => row.board_id)
+  }
+
+  async listBoardPreferences(userId: string): Promise<BoardPreference[]> {
+    const { data, error } = await supabase!
+      .from('board_preferences')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (error) throw new Error(`Failed to list board preferences: ${error.message}`)
+    return data ?? []
+  }
+
+  async setBoardPreference(
+    boardId: string,
+    userId: string,
+    changes: BoardPreferenceChanges,
+  ): Promise<BoardPreference> {
+    const { data, error } = await supabase!
+      .from('board_preferences')
+      .upsert(
+        { board_id: boardId, user_id: userId, ...changes, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id,board_id' }
+      )
+      .select('*')
+      .single()
+
+    if (error || !data) throw new Error(`Failed to save board preference: ${error?.message}`)
+    return data
+  }
+
+  async listMembers(boardId: string): Promise<BoardMember[]> {
+    const { data, error } = await supabase!
+      .from('board_members')
+      .select('*')
+      .eq('board_id', boardId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw new Error(`Failed to list members: ${error.message}`)
+    return data ?? []
+  }
+
+  async listMemberships(userId: string): Promise<BoardMember[]> {
+    const { data, error } = await supabase!
+      .from('board_members')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (error) throw new Error(`Failed to list memberships: ${error.message}`)
+    return data ?? []
+  }
+
+  async getMember(boardId: string, userId: string): Promise<BoardMember | null> {
+    const { data, error } = await supabase!
+      .from('board_members')
+      .select('*')
+      .eq('board_id', boardId)
+      .eq('user_id', userId)
+      .single()
+
+    if (error && !isMissingRow(error)) throw new Error(`Failed to fetch member: ${error.message}`)
+    return data ?? null
+  }
+
+  async setMember(boardId: string, userId: string, role: MemberRole): Promise<BoardMember> {
+    const { data, error } = await supabase!
+      .from('board_members')
+      .upsert({ board_id: boardId, user_id: userId, role }, { onConflict: 'board_id,user_id' })
+      .select('*')
+      .single()
+
+    if (error || !data) throw new Error(`Failed to set member: ${error?.message}`)
+    return data
+  }
+
+  async removeMember(boardId: string, userId: string): Promise<void> {
+    const { error } = await supabase!
+      .from('board_members')
+      .delete()
+      .eq('board_id', boardId)
+      .eq('user_id', userId)
+
+    if (error) throw new Error(`Failed to remove member: ${error.message}`)
+  }
+
+  async createInvite(boardId: string, invite: NewInvite): Promise<BoardInvite> {
+    const { data, error } = await supabase!
+      .from('board_invites')
+      .insert({
+        token: invite.token,
+        board_id: boardId,
+        role: invite.role,
+        created_by: invite.createdBy,
+        expires_at: invite.expiresAt,
+      })
+      .select('*')
+      .single()
+
+    if (error || !data) throw new Error(`Failed to create invite: ${error?.message}`)
+    return data
+  }
+
+  async getInvite(token: string): Promise<BoardInvite | null> {
+    const { data, error } = await supabase!
+      .from('board_invites')
+      .select('*')
+      .eq('token', token)
+      .single()
+
+    if (error && !isMissingRow(error)) throw new Error(`Failed to fetch invite: ${error.message}`)
+    return data ?? null
+  }
+
+  async listInvites(boardId: string): Promise<BoardInvite[]> {
+    const { data, error } = await supabase!
+      .from('board_invites')
+      .select('*')
+      .eq('board_id', boardId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw new Error(`Failed to list invites: ${error.message}`)
+    return data ?? []
+  }
+
+  async deleteInvite(boardId: string, token: string): Promise<void> {
+    const { error } = await supabase!
+      .from('board_invites')
+      .delete()
+      .eq('board_id', boardId)
+      .eq('token', token)
+
+    if (error) throw new Error(`Failed to revoke invite: ${error.message}`)
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Board Listing for In-Process Adapters
+ *
+ * The memory and file adapters hold every board record in process, so they
+ * answer listUserBoards by filtering here; SQLite and Supabase express the
+ * same query in SQL. Only the candidates' stored text is searched.
+ */
+
+import type { BoardRecord, BoardOrder, BoardQuery, BoardPage } from './persistence.js'
+
+/** The boards `query` covers before its search: the user's, untrashed, within ids and templates. */
+export function boardCandidates(boards: Iterable<BoardRecord>, query: BoardQuery): BoardRecord[] {
+  const memberOf = new Set(query.memberOf)
+  const ids = query.ids && new Set(query.ids)
+  return [...boards].filter((b) =>
+    !b.deleted_at
+    && (b.owner_id === query.userId || memberOf.has(b.id))
+    && (!ids || ids.has(b.id))
+    && (!query.templates || b.is_template))
+}
+
+/** Latest edit first within ties, so every order is stable across pages. */
+export function compareBoards(order: BoardOrder): (a: BoardRecord, b: BoardRecord) => number {
+  const byUpdated = (a: BoardRecord, b: BoardRecord) =>
+    b.updated_at.localeCompare(a.updated_at) || a.id.localeCompare(b.id)
+  switch (order) {
+    case 'updated':
+      return byUpdated
+    case 'created':
+      return (a, b) => b.created_at.localeCompare(a.created_at) || byUpdated(a, b)
+    case 'name':
+      return (a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }) || byUpdated(a, b)
+  }
+}
+
+/** Search, sort and page `candidates`; `textMatches` are those whose stored text matched. */
+export function pageBoards(candidates: BoardRecord[], query: BoardQuery, textMatches: readonly string[]): BoardPage {
+  const needle = query.q.toLowerCase()
+  const inText = new Set(textMatches)
+  const matching = candidates
+    .filter((b) => !needle || b.name.toLowerCase().includes(needle) || inText.has(b.id))
+    .sort(compareBoards(query.order))
+  const boards = query.page ? matching.slice(query.page.offset, query.page.offset + query.page.limit) : matching
+  return { boards, total: matching.length }
+}
@@ -0,0 +1,13 @@
+-- Migration 002: Incremental Update Log
+-- Run this in Supabase SQL Editor
+-- Stores every Yjs update between snapshots so edits survive restarts.
+-- Rows covered by a newer board_snapshots row are deleted on each snapshot.
+
+CREATE TABLE IF NOT EXISTS board_updates (
+  id BIGSERIAL PRIMARY KEY,
+  board_id TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_board_updates_board_id ON board_updates(board_id, id);
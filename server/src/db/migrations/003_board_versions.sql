@@ -0,0 +1,15 @@
+-- Migration 003: Board Version History
+-- Run this in Supabase SQL Editor
+-- Stores hourly automatic checkpoints and user-named checkpoints.
+
+CREATE TABLE IF NOT EXISTS board_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  board_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('auto', 'named')),
+  created_by TEXT,
+  snapshot TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_board_versions_board_id ON board_versions(board_id, created_at DESC);
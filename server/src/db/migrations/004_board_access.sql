@@ -0,0 +1,25 @@
+-- Migration 004: Per-Board Access Control
+-- Run this in Supabase SQL Editor
+-- Board members (editor / commenter / viewer — the owner stays on boards.owner_id)
+-- and share links that grant a role to whoever opens them.
+
+CREATE TABLE IF NOT EXISTS board_members (
+  board_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('editor', 'commenter', 'viewer')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (board_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_board_members_user_id ON board_members(user_id);
+
+CREATE TABLE IF NOT EXISTS board_invites (
+  token TEXT PRIMARY KEY,
+  board_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('editor', 'commenter', 'viewer')),
+  created_by TEXT NOT NULL,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_board_invites_board_id ON board_invites(board_id);
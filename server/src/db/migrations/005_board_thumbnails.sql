@@ -0,0 +1,9 @@
+-- Migration 005: Dashboard Thumbnails
+-- Run this in Supabase SQL Editor
+-- One small PNG per board (base64), re-rendered whenever the board's snapshot is saved.
+
+CREATE TABLE IF NOT EXISTS board_thumbnails (
+  board_id TEXT PRIMARY KEY,
+  image TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
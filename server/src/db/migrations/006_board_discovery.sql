@@ -0,0 +1,25 @@
+-- Migration 006: Dashboard Search, Favorites and Folders
+-- Run this in Supabase SQL Editor
+-- board_search holds each board's lowercased object text, refreshed on every
+-- snapshot save, for full-text search. board_preferences holds each user's
+-- own favorites and folder for the boards they can see.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS board_search (
+  board_id TEXT PRIMARY KEY,
+  content TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Trigram index so ILIKE '%query%' doesn't scan every board
+CREATE INDEX IF NOT EXISTS idx_board_search_content ON board_search USING gin (content gin_trgm_ops);
+
+CREATE TABLE IF NOT EXISTS board_preferences (
+  board_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  favorite BOOLEAN NOT NULL DEFAULT false,
+  folder TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, board_id)
+);
@@ -0,0 +1,6 @@
+-- Migration 007: Board Templates
+-- Run this in Supabase SQL Editor
+-- Owners can mark a board as a template; the dashboard offers templates in
+-- its "New from template" picker, which duplicates them.
+
+ALTER TABLE boards ADD COLUMN IF NOT EXISTS is_template BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,8 @@
+-- Migration 008: Board Trash
+-- Run this in Supabase SQL Editor
+-- Deleting a board now moves it to its owner's trash; it is purged (with its
+-- snapshot, log, versions and the rest) 30 days later by the server's sweeper.
+
+ALTER TABLE boards ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_boards_deleted_at ON boards(deleted_at) WHERE deleted_at IS NOT NULL;
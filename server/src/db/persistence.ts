@@ -0,0 +1,305 @@
+/**
+ * Pluggable Persistence Backend
+ *
+ * Everything the server stores — board metadata, membership and invites,
+ * Yjs snapshots, the incremental update log, version history, dashboard
+ * thumbnails, the board search index and per-user favorites and folders — goes
+ * through a PersistenceAdapter. The backend
+ * is chosen once at startup by PERSISTENCE_BACKEND:
+ *
+ *   supabase  — Supabase Postgres (default when SUPABASE_URL is set)
+ *   file      — JSON + binary files under PERSISTENCE_DIR
+ *   sqlite    — a single SQLite database at SQLITE_PATH
+ *   memory    — process-local maps, lost on restart (default otherwise)
+ *
+ * file/sqlite/memory let the full server, including the boards REST API,
+ * run offline and in integration tests.
+ */
+
+import * as Y from 'yjs'
+import { supabase } from './supabase.js'
+import { SupabaseAdapter } from './adapters/supabaseAdapter.js'
+import { FileAdapter } from './adapters/fileAdapter.js'
+import { SqliteAdapter } from './adapters/sqliteAdapter.js'
+import { MemoryAdapter } from './adapters/memoryAdapter.js'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A row in the boards table. */
+export interface BoardRecord {
+  id: string
+  owner_id: string
+  name: string
+  created_at: string
+  updated_at: string
+  /** Offered in the dashboard's "New from template" picker. Set by the owner. */
+  is_template: boolean
+  /**
+   * When the owner moved the board to the trash, or null. Trashed boards
+   * are hidden and inaccessible until restored, and purged after the
+   * retention period (see ../trash.ts).
+   */
+  deleted_at: string | null
+}
+
+/** Orders listUserBoards sorts by. Ties go to the latest edit, then the ID. */
+export type BoardOrder = 'updated' | 'created' | 'name'
+
+/** Which of a user's boards listUserBoards returns, and which page of them. */
+export interface BoardQuery {
+  /** Boards this user owns or is a member of (`memberOf`). Trashed boards never match. */
+  userId: string
+  memberOf: readonly string[]
+  /** Only these boards (the user's favorites or a folder), or null for any. */
+  ids: readonly string[] | null
+  /** Only templates. */
+  templates: boolean
+  /** Contained in the name or the stored text (see searchBoardText), ignoring case; '' for any. */
+  q: string
+  order: BoardOrder
+  /** The page to return, or null for every match. */
+  page: { offset: number; limit: number } | null
+}
+
+/** A page of boards, and how many matched across every page. */
+export interface BoardPage {
+  boards: BoardRecord[]
+  total: number
+}
+
+/** Why a version was saved: the hourly timer, or a user naming a checkpoint. */
+export type VersionKind = 'auto' | 'named'
+
+/** Metadata for one saved board version (the snapshot itself is loaded separately). */
+export interface BoardVersion {
+  id: string
+  board_id: string
+  name: string
+  kind: VersionKind
+  created_by: string | null
+  created_at: string
+}
+
+/** Fields supplied when saving a version. */
+export interface NewVersion {
+  name: string
+  kind: VersionKind
+  createdBy: string | null
+}
+
+/**
+ * Access level on a board, highest first. The owner is `boards.owner_id`;
+ * every other role comes from a `board_members` row.
+ */
+export type BoardRole = 'owner' | 'editor' | 'commenter' | 'viewer'
+
+/** Roles that can be granted to members and invite links. */
+export type MemberRole = Exclude<BoardRole, 'owner'>
+
+/** A row in the board_members table. */
+export interface BoardMember {
+  board_id: string
+  user_id: string
+  role: MemberRole
+  created_at: string
+}
+
+/** A share link: anyone signed in who opens it joins the board with `role`. */
+export interface BoardInvite {
+  token: string
+  board_id: string
+  role: MemberRole
+  created_by: string
+  expires_at: string | null
+  created_at: string
+}
+
+/** Fields supplied when creating an invite. */
+export interface NewInvite {
+  token: string
+  role: MemberRole
+  createdBy: string
+  expiresAt: string | null
+}
+
+/**
+ * How one user has organised a board on their dashboard. Boards are shared,
+ * so favorites and folders are per user: starring a board stars it for you.
+ */
+export interface BoardPreference {
+  board_id: string
+  user_id: string
+  favorite: boolean
+  /** Folder name, or null when the board is not filed. */
+  folder: string | null
+  updated_at: string
+}
+
+/** Fields that can change on a preference; omitted fields keep their value. */
+export interface BoardPreferenceChanges {
+  favorite?: boolean
+  folder?: string | null
+}
+
+/** Persisted state for one room: the latest snapshot plus the log tail. */
+export interface StoredDoc {
+  snapshot: Uint8Array | null
+  updates: Uint8Array[]
+}
+
+export type PersistenceBackend = 'supabase' | 'file' | 'sqlite' | 'memory'
+
+/**
+ * Storage operations used by the WebSocket relay and the boards REST API.
+ *
+ * Doc operations (load/save/appendUpdate) log and swallow their own errors —
+ * a failed save must never take down a live room. Board operations throw,
+ * so REST handlers can answer with a 500.
+ */
+export interface PersistenceAdapter {
+  readonly name: PersistenceBackend
+
+  /** Load the snapshot and update log tail for a room. */
+  load(room: string): Promise<StoredDoc>
+
+  /** Write a full snapshot of `doc` and compact the log rows it covers. */
+  save(room: string, doc: Y.Doc): Promise<void>
+
+  /** Append a single Yjs update to the room's log. */
+  appendUpdate(room: string, update: Uint8Array): Promise<void>
+
+  /** List all boards, newest first, including trashed ones. */
+  listBoards(): Promise<BoardRecord[]>
+
+  /**
+   * The boards a user can see that match `query`, filtered, sorted and
+   * paged by the store rather than in memory — the dashboard listing.
+   */
+  listUserBoards(query: BoardQuery): Promise<BoardPage>
+
+  /** Fetch a single board (trashed or not), or null if it does not exist. Throws if the lookup fails. */
+  getBoard(id: string): Promise<BoardRecord | null>
+
+  /** Create a board owned by `ownerId`. */
+  createBoard(ownerId: string, name: string): Promise<BoardRecord>
+
+  /** Rename a board and bump its updated_at. */
+  renameBoard(id: string, name: string): Promise<void>
+
+  /** Mark or unmark a board as a template. Does not bump updated_at. */
+  setBoardTemplate(id: string, isTemplate: boolean): Promise<void>
+
+  /** Move a board to the trash (a timestamp) or restore it (null). Nothing else is touched. */
+  setBoardDeleted(id: string, deletedAt: string | null): Promise<void>
+
+  /**
+   * Permanently delete a board together with its snapshot, update log, versions,
+   * thumbnail, search text, preferences, members and invites.
+   */
+  deleteBoard(id: string): Promise<void>
+
+  /** Store a full Yjs state as a new version of a board. */
+  saveVersion(boardId: string, state: Uint8Array, meta: NewVersion): Promise<BoardVersion>
+
+  /** List a board's versions, newest first. */
+  listVersions(boardId: string): Promise<BoardVersion[]>
+
+  /** Load the Yjs state of one version, or null if it does not exist. */
+  loadVersion(boardId: string, versionId: string): Promise<Uint8Array | null>
+
+  /**
+   * Store a board's dashboard thumbnail (PNG) and bump the board's
+   * updated_at — a new thumbnail means the board was just edited.
+   */
+  saveThumbnail(boardId: string, png: Uint8Array): Promise<void>
+
+  /** Load a board's thumbnail, or null if none has been rendered yet. */
+  loadThumbnail(boardId: string): Promise<Uint8Array | null>
+
+  /**
+   * Store the searchable text of a board's objects, replacing what was
+   * there. Refreshed on every snapshot save.
+   */
+  saveSearchText(boardId: string, text: string): Promise<void>
+
+  /** IDs of the boards in `boardIds` whose stored text contains `query`, ignoring case. */
+  searchBoardText(query: string, boardIds: readonly string[]): Promise<string[]>
+
+  /** List a user's preferences across all boards. */
+  listBoardPreferences(userId: string): Promise<BoardPreference[]>
+
+  /** Create or update a user's preference for one board. */
+  setBoardPreference(boardId: string, userId: string, changes: BoardPreferenceChanges): Promise<BoardPreference>
+
+  /** List a board's members, oldest first. The owner is not included. */
+  listMembers(boardId: string): Promise<BoardMember[]>
+
+  /** List every board membership held by a user. */
+  listMemberships(userId: string): Promise<BoardMember[]>
+
+  /** Fetch one membership, or null if the user is not a member. */
+  getMember(boardId: string, userId: string): Promise<BoardMember | null>
+
+  /** Add a member, or change the role of an existing one. */
+  setMember(boardId: string, userId: string, role: MemberRole): Promise<BoardMember>
+
+  /** Remove a member. A no-op if the user is not a member. */
+  removeMember(boardId: string, userId: string): Promise<void>
+
+  /** Store a new invite link for a board. */
+  createInvite(boardId: string, invite: NewInvite): Promise<BoardInvite>
+
+  /** Look up an invite by token, or null if it does not exist. */
+  getInvite(token: string): Promise<BoardInvite | null>
+
+  /** List a board's invites, newest first. */
+  listInvites(boardId: string): Promise<BoardInvite[]>
+
+  /** Revoke an invite. A no-op if it does not exist. */
+  deleteInvite(boardId: string, token: string): Promise<void>
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve the configured backend name from the environment.
+ */
+export function resolveBackend(env: NodeJS.ProcessEnv = process.env): PersistenceBackend {
+  const requested = env.PERSISTENCE_BACKEND?.trim().toLowerCase()
+  if (requested === 'supabase' || requested === 'file' || requested === 'sqlite' || requested === 'memory') {
+    return requested
+  }
+  if (requested) {
+    console.warn(`[DB] Unknown PERSISTENCE_BACKEND "${requested}" — falling back to default`)
+  }
+  return supabase ? 'supabase' : 'memory'
+}
+
+/**
+ * Build the adapter for a backend.
+ */
+export function createPersistenceAdapter(
+  backend: PersistenceBackend,
+  env: NodeJS.ProcessEnv = process.env,
+): PersistenceAdapter {
+  switch (backend) {
+    case 'supabase':
+      if (!supabase) {
+        throw new Error('PERSISTENCE_BACKEND=supabase requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY')
+      }
+      return new SupabaseAdapter()
+    case 'file':
+      return new FileAdapter(env.PERSISTENCE_DIR ?? './data')
+    case 'sqlite':
+      return new SqliteAdapter(env.SQLITE_PATH ?? './data/collabboard.db')
+    case 'memory':
+      return new MemoryAdapter()
+  }
+}
+
+/** The process-wide adapter, chosen once at startup. */
+export const persistence: PersistenceAdapter = createPersistenceAdapter(resolveBackend())
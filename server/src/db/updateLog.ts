@@ -0,0 +1,161 @@
+/**
+ * Incremental Yjs Update Log
+ *
+ * Every update applied to a room's doc is appended to `board_updates` so
+ * edits made between 30-second snapshots survive a crash or redeploy.
+ *
+ * Restore = latest `board_snapshots` row + replay of the remaining log tail.
+ * After each snapshot, log rows covered by it are deleted (compaction) —
+ * up to the first row whose update the snapshotted doc doesn't contain.
+ * Yjs updates are idempotent, so a row that overlaps the snapshot is harmless.
+ */
+
+import * as Y from 'yjs'
+import { supabase } from './supabase.js'
+
+// ---------------------------------------------------------------------------
+// Encoding helpers
+// ---------------------------------------------------------------------------
+
+/** Encode a binary Yjs update as base64 for a TEXT column. */
+export function encodeUpdate(update: Uint8Array): string {
+  return Buffer.from(update).toString('base64')
+}
+
+/** Decode a base64 TEXT column back into a binary Yjs update. */
+export function decodeUpdate(payload: string): Uint8Array {
+  return new Uint8Array(Buffer.from(payload, 'base64'))
+}
+
+/**
+ * Apply a snapshot (if any) followed by the log tail to a doc.
+ * Returns the number of log updates replayed.
+ */
+export function replayUpdates(doc: Y.Doc, snapshot: Uint8Array | null, updates: Uint8Array[]): number {
+  if (snapshot) Y.applyUpdate(doc, snapshot)
+  for (const update of updates) {
+    Y.applyUpdate(doc, update)
+  }
+  return updates.length
+}
+
+// ---------------------------------------------------------------------------
+// Supabase operations
+// ---------------------------------------------------------------------------
+
+/**
+ * Append a single update to the room's log.
+ */
+export async function appendUpdate(room: string, update: Uint8Array): Promise<void> {
+  if (!supabase) return
+
+  try {
+    const { error } = await supabase
+      .from('board_updates')
+      .insert({ board_id: room, payload: encodeUpdate(update) })
+
+    if (error) {
+      console.error(`[DB] Error appending update for ${room}:`, error.message)
+    }
+  } catch (err) {
+    console.error(`[DB] Failed to append update for ${room}:`, err)
+  }
+}
+
+/**
+ * Load all logged updates for a room, oldest first.
+ */
+export async function loadUpdates(room: string): Promise<Uint8Array[]> {
+  if (!supabase) return []
+
+  try {
+    const { data, error } = await supabase
+      .from('board_updates')
+      .select('payload')
+      .eq('board_id', room)
+      .order('id', { ascending: true })
+
+    if (error) {
+      console.error(`[DB] Error loading update log for ${room}:`, error.message)
+      return []
+    }
+
+    return (data ?? []).map((row: { payload: string }) => decodeUpdate(row.payload))
+  } catch (err) {
+    console.error(`[DB] Failed to load update log for ${room}:`, err)
+    return []
+  }
+}
+
+/**
+ * Count the updates at the start of `updates` that `doc` already contains.
+ * Another instance logs what it receives before that reaches this doc over
+ * the backplane, so the log can run ahead of the doc.
+ */
+export function countAppliedUpdates(doc: Y.Doc, updates: Uint8Array[]): number {
+  const snapshot = Y.snapshot(doc)
+  const missing = updates.findIndex((update) => !Y.snapshotContainsUpdate(snapshot, update))
+  return missing === -1 ? updates.length : missing
+}
+
+/**
+ * Get the highest log row ID whose update, and every update logged before
+ * it, is already in `doc` — or null if there is none. A snapshot of `doc`
+ * covers every row up to it; rows after may not have reached `doc` yet.
+ */
+export async function getAppliedUpdateId(room: string, doc: Y.Doc): Promise<number | null> {
+  if (!supabase) return null
+
+  try {
+    const { data, error } = await supabase
+      .from('board_updates')
+      .select('id, payload')
+      .eq('board_id', room)
+      .order('id', { ascending: true })
+
+    if (error) {
+      console.error(`[DB] Error reading update log for ${room}:`, error.message)
+      return null
+    }
+
+    const rows = (data ?? []) as Array<{ id: number; payload: string }>
+    const applied = countAppliedUpdates(doc, rows.map((row) => decodeUpdate(row.payload)))
+    return applied > 0 ? rows[applied - 1].id : null
+  } catch (err) {
+    console.error(`[DB] Failed to read update log for ${room}:`, err)
+    return null
+  }
+}
+
+/**
+ * Delete all log rows up to and including `upToId`.
+ */
+export async function compactUpdates(room: string, upToId: number): Promise<void> {
+  if (!supabase) return
+
+  try {
+    const { error } = await supabase
+      .from('board_updates')
+      .delete()
+      .eq('board_id', room)
+      .lte('id', upToId)
+
+    if (error) {
+      console.error(`[DB] Error compacting update log for ${room}:`, error.message)
+    }
+  } catch (err) {
+    console.error(`[DB] Failed to compact update log for ${room}:`, err)
+  }
+}
+
+/**
+ * Delete the entire log for a room (used when a board is deleted).
+ */
+export async function clearUpdates(room: string): Promise<void> {
+  if (!supabase) return
+
+  await supabase
+    .from('board_updates')
+    .delete()
+    .eq('board_id', room)
+}
@@ -0,0 +1,43 @@
+/**
+ * Helpers shared by the third-party importers.
+ */
+
+import type { BoardObject } from '../../../shared/types.js'
+
+/**
+ * A line from (x1, y1) to (x2, y2) in board coordinates, normalized the way
+ * the canvas stores lines: (x, y) is the top-left of the bounding box and
+ * `points` are relative to it.
+ */
+export function lineBetween(
+  id: string,
+  x1: number, y1: number,
+  x2: number, y2: number,
+): Pick<BoardObject, 'id' | 'type' | 'x' | 'y' | 'width' | 'height' | 'points'> {
+  const x = Math.min(x1, x2)
+  const y = Math.min(y1, y2)
+  return {
+    id,
+    type: 'line',
+    x,
+    y,
+    width: Math.abs(x2 - x1) || 1,
+    height: Math.abs(y2 - y1) || 1,
+    points: [x1 - x, y1 - y, x2 - x, y2 - y],
+  }
+}
+
+/** Plain text from an HTML fragment (Miro stores rich text as HTML). */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim()
+}
@@ -0,0 +1,107 @@
+/**
+ * Excalidraw Importer
+ *
+ * Converts a `.excalidraw` file ({ type: 'excalidraw', elements: [...] }):
+ *   rectangle, diamond → rect       ellipse → circle
+ *   text               → text       frame   → frame
+ *   arrow, line        → line (bindings become fromId/toId)
+ *
+ * Text bound to a shape (containerId) becomes that shape's label. Deleted
+ * elements, freehand drawings, images and embeds are skipped.
+ */
+
+import type { BoardObject } from '../../../shared/types.js'
+import type { ImportResult } from '../boardJson.js'
+import { lineBetween } from './common.js'
+
+interface ExcalidrawElement {
+  id: string
+  type: string
+  x: number
+  y: number
+  width: number
+  height: number
+  angle?: number
+  strokeColor?: string
+  backgroundColor?: string
+  isDeleted?: boolean
+  text?: string
+  fontSize?: number
+  containerId?: string | null
+  frameId?: string | null
+  name?: string | null
+  points?: [number, number][]
+  startBinding?: { elementId: string } | null
+  endBinding?: { elementId: string } | null
+  endArrowhead?: string | null
+}
+
+const SHAPE_TYPES: Record<string, BoardObject['type']> = {
+  rectangle: 'rect',
+  diamond: 'rect',
+  ellipse: 'circle',
+}
+
+export function isExcalidrawFile(value: unknown): boolean {
+  return !!value && typeof value === 'object' && (value as { type?: unknown }).type === 'excalidraw'
+}
+
+export function convertExcalidraw(value: unknown): ImportResult<BoardObject[]> {
+  const elements = (value as { elements?: unknown }).elements
+  if (!Array.isArray(elements)) return { ok: false, error: 'Excalidraw file has no elements array' }
+
+  const live = (elements as ExcalidrawElement[]).filter(
+    (el) => el && typeof el === 'object' && typeof el.id === 'string' && !el.isDeleted,
+  )
+
+  // Labels: text elements that live inside a shape or arrow
+  const labels = new Map<string, string>()
+  for (const el of live) {
+    if (el.type === 'text' && el.containerId) labels.set(el.containerId, el.text ?? '')
+  }
+
+  const objects: BoardObject[] = []
+  for (const el of live) {
+    const common = {
+      id: el.id,
+      x: el.x,
+      y: el.y,
+      width: el.width,
+      height: el.height,
+      ...(el.angle ? { rotation: Math.round((el.angle * 180) / Math.PI) } : {}),
+      ...(el.frameId ? { parentId: el.frameId } : {}),
+    }
+
+    if (SHAPE_TYPES[el.type]) {
+      objects.push({
+        ...common,
+        type: SHAPE_TYPES[el.type],
+        fill: el.backgroundColor || 'transparent',
+        ...(labels.has(el.id) ? { text: labels.get(el.id) } : {}),
+      })
+    } else if (el.type === 'text' && !el.containerId) {
+      objects.push({
+        ...common,
+        type: 'text',
+        text: el.text ?? '',
+        fill: el.strokeColor || '#1E293B',
+        ...(el.fontSize ? { fontSize: el.fontSize } : {}),
+      })
+    } else if (el.type === 'frame') {
+      objects.push({ ...common, type: 'frame', fill: 'transparent', text: el.name ?? 'Frame' })
+    } else if ((el.type === 'arrow' || el.type === 'line') && Array.isArray(el.points) && el.points.length >= 2) {
+      const [sx, sy] = el.points[0]
+      const [ex, ey] = el.points[el.points.length - 1]
+      objects.push({
+        ...lineBetween(el.id, el.x + sx, el.y + sy, el.x + ex, el.y + ey),
+        fill: el.strokeColor || '#374151',
+        arrowEnd: el.type === 'arrow' ? el.endArrowhead !== null : !!el.endArrowhead,
+        ...(el.startBinding?.elementId ? { fromId: el.startBinding.elementId } : {}),
+        ...(el.endBinding?.elementId ? { toId: el.endBinding.elementId } : {}),
+        ...(el.frameId ? { parentId: el.frameId } : {}),
+      })
+    }
+  }
+
+  return { ok: true, value: objects }
+}
@@ -0,0 +1,63 @@
+/**
+ * Third-party Board Importers
+ *
+ * Converts files from other whiteboard tools into BoardObjects that go
+ * through the same validation, ID remapping and single-transaction write as
+ * CollabBoard's own JSON files (see ../boardJson.ts):
+ *
+ *  - excalidraw — `.excalidraw` JSON          (./excalidraw.ts)
+ *  - mermaid    — flowchart text              (./mermaid.ts)
+ *  - miro       — Miro REST API v2 item JSON  (./miro.ts)
+ *
+ * Arrows and connectors become `line` objects with fromId/toId so
+ * connectors keep following their shapes after import.
+ */
+
+import type { BoardObject } from '../../../shared/types.js'
+import { parseBoardDocument, validateObjects, type ImportResult } from '../boardJson.js'
+import { convertExcalidraw, isExcalidrawFile } from './excalidraw.js'
+import { convertMermaid, isMermaidFlowchart } from './mermaid.js'
+import { convertMiro, isMiroExport } from './miro.js'
+
+export const IMPORT_SOURCES = ['collabboard', 'excalidraw', 'mermaid', 'miro'] as const
+export type ImportSource = (typeof IMPORT_SOURCES)[number]
+
+export function isImportSource(value: unknown): value is ImportSource {
+  return typeof value === 'string' && (IMPORT_SOURCES as readonly string[]).includes(value)
+}
+
+const CONVERTERS: Record<Exclude<ImportSource, 'collabboard'>, (value: unknown) => ImportResult<BoardObject[]>> = {
+  excalidraw: convertExcalidraw,
+  mermaid: convertMermaid,
+  miro: convertMiro,
+}
+
+/** Guess the source tool from a file's contents. */
+export function detectImportSource(value: unknown): ImportSource | null {
+  if (isMermaidFlowchart(value)) return 'mermaid'
+  if (isExcalidrawFile(value)) return 'excalidraw'
+  if (value && typeof value === 'object' && (value as { format?: unknown }).format === 'collabboard') return 'collabboard'
+  if (isMiroExport(value)) return 'miro'
+  return null
+}
+
+/**
+ * Convert a file into validated BoardObjects plus a suggested board name.
+ * The objects keep the file's own IDs; callers remap them before writing.
+ */
+export function convertImport(
+  value: unknown,
+  source: ImportSource,
+): ImportResult<{ objects: BoardObject[]; name: string }> {
+  if (source === 'collabboard') {
+    const document = parseBoardDocument(value)
+    if (!document.ok) return document
+    return { ok: true, value: { objects: document.value.objects, name: document.value.board.name } }
+  }
+
+  const converted = CONVERTERS[source](value)
+  if (!converted.ok) return converted
+  const objects = validateObjects(converted.value)
+  if (!objects.ok) return objects
+  return { ok: true, value: { objects: objects.value, name: '' } }
+}
@@ -0,0 +1,334 @@
+/**
+ * Mermaid Flowchart Importer
+ *
+ * Converts `flowchart` / `graph` text (TD, TB, BT, LR, RL):
+ *   A[text], A(text), A([text]), A[[text]], A{text}, A>text]  → rect
+ *   A((text))                                                 → circle
+ *   A --> B, A --- B, A -.-> B, A ==> B, A -->|label| B,
+ *   A -- label --> B, chains (A --> B --> C)                   → line (fromId/toId)
+ *   subgraph id [Title] … end                                 → frame (parentId)
+ *
+ * Mermaid has no coordinates, so nodes are laid out in layers: each node's
+ * rank is its longest path from a root (back edges of cycles are ignored),
+ * and ranks flow in the declared direction. Edge labels become text
+ * objects at the edge midpoint. Styling statements (classDef, style, …)
+ * are ignored.
+ */
+
+import type { BoardObject } from '../../../shared/types.js'
+import type { ImportResult } from '../boardJson.js'
+import { lineBetween } from './common.js'
+
+type Direction = 'TB' | 'BT' | 'LR' | 'RL'
+
+interface MermaidNode {
+  id: string
+  label: string
+  shape: 'rect' | 'circle'
+  group?: string
+}
+
+interface MermaidEdge {
+  from: string
+  to: string
+  arrow: boolean
+  label?: string
+}
+
+interface MermaidGroup {
+  id: string
+  title: string
+  parent?: string
+}
+
+const HEADER = /^(?:flowchart|graph)(?:\s+(TD|TB|BT|LR|RL))?\s*$/i
+const IGNORED = /^(?:classDef|class|style|linkStyle|click|direction|accTitle|accDescr)\b/
+
+/** [open, close, shape] — longest openers first so `((` wins over `(`. */
+const NODE_SHAPES: [string, string, MermaidNode['shape']][] = [
+  ['((', '))', 'circle'],
+  ['([', '])', 'rect'],
+  ['[[', ']]', 'rect'],
+  ['[(', ')]', 'rect'],
+  ['{{', '}}', 'rect'],
+  ['[/', '/]', 'rect'],
+  ['[\\', '\\]', 'rect'],
+  ['[', ']', 'rect'],
+  ['(', ')', 'rect'],
+  ['{', '}', 'rect'],
+  ['>', ']', 'rect'],
+]
+
+/** `A -- label --> B` (label between the dashes) */
+const TEXT_EDGE = /^\s*(?:--|==|-\.)\s+(.+?)\s+(-{2,}>|={2,}>|\.-+>|-{3,}|={3,}|\.-+)\s*/
+/** `A --> B`, `A -.-> B`, `A ==>|label| B` … */
+const PLAIN_EDGE = /^\s*<?(-{2,}|={2,}|-\.+-)(>|x|o)?\s*(?:\|([^|]*)\|)?\s*/
+
+const NODE_ID = /^\s*([A-Za-z0-9_]+(?:-[A-Za-z0-9_]+)*)/
+
+const CELL = { width: 160, height: 100 }
+const RANK_GAP = 80
+const SIBLING_GAP = 40
+const FRAME_PADDING = 40
+const NODE_SIZE: Record<MermaidNode['shape'], { width: number; height: number }> = {
+  rect: { width: 160, height: 60 },
+  circle: { width: 100, height: 100 },
+}
+const NODE_FILL: Record<MermaidNode['shape'], string> = { rect: '#42A5F5', circle: '#66BB6A' }
+
+/** Mermaid text starts with a `flowchart` or `graph` header. */
+export function isMermaidFlowchart(value: unknown): boolean {
+  return typeof value === 'string' && HEADER.test(firstStatement(value))
+}
+
+function firstStatement(source: string): string {
+  return statements(source)[0] ?? ''
+}
+
+function statements(source: string): string[] {
+  return source
+    .split('\n')
+    .map((line) => line.replace(/%%.*$/, ''))
+    .flatMap((line) => line.split(';'))
+    .map((s) => s.trim())
+    .filter(Boolean)
+}
+
+function cleanLabel(label: string): string {
+  return label.trim().replace(/^"(.*)"$/s, '$1').replace(/<br\s*\/?>/gi, '\n').trim()
+}
+
+export function convertMermaid(value: unknown): ImportResult<BoardObject[]> {
+  if (typeof value !== 'string') return { ok: false, error: 'Mermaid source must be text' }
+  const lines = statements(value)
+  const header = HEADER.exec(lines[0] ?? '')
+  if (!header) return { ok: false, error: 'Only Mermaid flowcharts are supported (expected "flowchart TD" or similar)' }
+  const direction = (header[1]?.toUpperCase().replace('TD', 'TB') ?? 'TB') as Direction
+
+  const nodes = new Map<string, MermaidNode>()
+  const edges: MermaidEdge[] = []
+  const groups = new Map<string, MermaidGroup>()
+  const stack: string[] = []
+
+  const touch = (id: string, label?: string, shape?: MermaidNode['shape']) => {
+    let node = nodes.get(id)
+    if (!node) {
+      node = { id, label: id, shape: 'rect' }
+      nodes.set(id, node)
+    }
+    if (label !== undefined) node.label = label
+    if (shape) node.shape = shape
+    if (!node.group && stack.length > 0) node.group = stack[stack.length - 1]
+  }
+
+  for (const [index, line] of lines.slice(1).entries()) {
+    const subgraph = /^subgraph\s+(.+)$/.exec(line)
+    if (subgraph) {
+      const spec = subgraph[1].trim()
+      const titled = /^([\w-]+)\s*\[(.*)\]$/.exec(spec)
+      const id = titled ? titled[1] : /^[\w-]+$/.test(spec) ? spec : String(index)
+      groups.set(id, { id, title: cleanLabel(titled ? titled[2] : spec), parent: stack[stack.length - 1] })
+      stack.push(id)
+      continue
+    }
+    if (line === 'end') {
+      stack.pop()
+      continue
+    }
+    if (IGNORED.test(line)) continue
+
+    // A chain: node (edge node)*
+    let rest = line
+    let previous: string | null = null
+    let pending: Omit<MermaidEdge, 'from' | 'to'> | null = null
+    while (rest.length > 0) {
+      const node = parseNode(rest)
+      if (!node) return { ok: false, error: `Could not parse Mermaid line: "${line}"` }
+      touch(node.id, node.label, node.shape)
+      if (previous !== null && pending) edges.push({ from: previous, to: node.id, ...pending })
+      previous = node.id
+      rest = rest.slice(node.length)
+      if (!rest.trim()) break
+
+      const edge = parseEdge(rest)
+      if (!edge) return { ok: false, error: `Could not parse Mermaid line: "${line}"` }
+      pending = { arrow: edge.arrow, ...(edge.label ? { label: edge.label } : {}) }
+      rest = rest.slice(edge.length)
+      if (!rest.trim()) return { ok: false, error: `Edge has no target in Mermaid line: "${line}"` }
+    }
+  }
+
+  if (nodes.size === 0) return { ok: false, error: 'Mermaid flowchart has no nodes' }
+  return { ok: true, value: layout([...nodes.values()], edges, [...groups.values()], direction) }
+}
+
+function parseNode(text: string): { id: string; label?: string; shape?: MermaidNode['shape']; length: number } | null {
+  const idMatch = NODE_ID.exec(text)
+  if (!idMatch) return null
+  const id = idMatch[1]
+  const after = text.slice(idMatch[0].length)
+  for (const [open, close, shape] of NODE_SHAPES) {
+    if (!after.startsWith(open)) continue
+    const end = after.indexOf(close, open.length)
+    if (end < 0) return null
+    return {
+      id,
+      label: cleanLabel(after.slice(open.length, end)),
+      shape,
+      length: idMatch[0].length + end + close.length,
+    }
+  }
+  return { id, length: idMatch[0].length }
+}
+
+function parseEdge(text: string): { arrow: boolean; label?: string; length: number } | null {
+  const textEdge = TEXT_EDGE.exec(text)
+  if (textEdge) {
+    return { arrow: textEdge[2].endsWith('>'), label: cleanLabel(textEdge[1]), length: textEdge[0].length }
+  }
+  const plain = PLAIN_EDGE.exec(text)
+  if (plain) {
+    return {
+      arrow: plain[2] === '>',
+      ...(plain[3]?.trim() ? { label: cleanLabel(plain[3]) } : {}),
+      length: plain[0].length,
+    }
+  }
+  return null
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+/** Longest-path rank per node, ignoring edges that close a cycle. */
+function rankNodes(nodes: MermaidNode[], edges: MermaidEdge[]): Map<string, number> {
+  const outgoing = new Map<string, string[]>(nodes.map((n) => [n.id, []]))
+  for (const e of edges) if (e.from !== e.to) outgoing.get(e.from)!.push(e.to)
+
+  // DFS post-order gives a topological order of the graph minus back edges
+  const order: string[] = []
+  const state = new Map<string, 'visiting' | 'done'>()
+  const forward = new Set<string>()
+  const visit = (id: string) => {
+    state.set(id, 'visiting')
+    for (const next of outgoing.get(id)!) {
+      if (state.get(next) === 'visiting') continue
+      forward.add(`${id}\u0000${next}`)
+      if (!state.has(next)) visit(next)
+    }
+    state.set(id, 'done')
+    order.push(id)
+  }
+  for (const n of nodes) if (!state.has(n.id)) visit(n.id)
+
+  const rank = new Map<string, number>(nodes.map((n) => [n.id, 0]))
+  for (const id of order.reverse()) {
+    for (const next of outgoing.get(id)!) {
+      if (forward.has(`${id}\u0000${next}`)) rank.set(next, Math.max(rank.get(next)!, rank.get(id)! + 1))
+    }
+  }
+  return rank
+}
+
+function layout(
+  nodes: MermaidNode[],
+  edges: MermaidEdge[],
+  groups: MermaidGroup[],
+  direction: Direction,
+): BoardObject[] {
+  const rank = rankNodes(nodes, edges)
+  const layers: MermaidNode[][] = []
+  for (const node of nodes) (layers[rank.get(node.id)!] ??= []).push(node)
+  const widest = Math.max(...layers.map((layer) => layer?.length ?? 0))
+
+  const horizontal = direction === 'LR' || direction === 'RL'
+  const reversed = direction === 'BT' || direction === 'RL'
+  const lastRank = layers.length - 1
+
+  const objects: BoardObject[] = []
+  const byId = new Map<string, BoardObject>()
+
+  for (const [r, layer] of layers.entries()) {
+    if (!layer) continue
+    const along = (reversed ? lastRank - r : r) * ((horizontal ? CELL.width : CELL.height) + RANK_GAP)
+    const across = horizontal ? CELL.height + SIBLING_GAP : CELL.width + SIBLING_GAP
+    const indent = ((widest - layer.length) * across) / 2
+
+    for (const [i, node] of layer.entries()) {
+      const cellX = horizontal ? along : indent + i * across
+      const cellY = horizontal ? indent + i * across : along
+      const size = NODE_SIZE[node.shape]
+      const obj: BoardObject = {
+        id: node.id,
+        type: node.shape,
+        x: cellX + (CELL.width - size.width) / 2,
+        y: cellY + (CELL.height - size.height) / 2,
+        ...size,
+        fill: NODE_FILL[node.shape],
+        text: node.label,
+        ...(node.group ? { parentId: `subgraph:${node.group}` } : {}),
+      }
+      objects.push(obj)
+      byId.set(obj.id, obj)
+    }
+  }
+
+  for (const [i, edge] of edges.entries()) {
+    const from = byId.get(edge.from)!
+    const to = byId.get(edge.to)!
+    const start = { x: from.x + from.width / 2, y: from.y + from.height / 2 }
+    const end = { x: to.x + to.width / 2, y: to.y + to.height / 2 }
+    objects.push({
+      ...lineBetween(`edge:${i}`, start.x, start.y, end.x, end.y),
+      fill: '#374151',
+      arrowEnd: edge.arrow,
+      fromId: edge.from,
+      toId: edge.to,
+    })
+    if (edge.label) {
+      objects.push({
+        id: `edge:${i}:label`,
+        type: 'text',
+        x: (start.x + end.x) / 2 - 50,
+        y: (start.y + end.y) / 2 - 12,
+        width: 100,
+        height: 24,
+        fill: '#1E293B',
+        text: edge.label,
+        fontSize: 14,
+      })
+    }
+  }
+
+  // Frames around subgraphs, innermost first so outer frames include them
+  const depth = (g: MermaidGroup): number => {
+    let d = 0
+    for (let p = g.parent; p; p = groups.find((o) => o.id === p)?.parent) d++
+    return d
+  }
+  const frames: BoardObject[] = []
+  for (const group of [...groups].sort((a, b) => depth(b) - depth(a))) {
+    const frameId = `subgraph:${group.id}`
+    const members = [...objects, ...frames].filter((o) => o.parentId === frameId)
+    if (members.length === 0) continue
+    const minX = Math.min(...members.map((o) => o.x)) - FRAME_PADDING
+    const minY = Math.min(...members.map((o) => o.y)) - FRAME_PADDING
+    const maxX = Math.max(...members.map((o) => o.x + o.width)) + FRAME_PADDING
+    const maxY = Math.max(...members.map((o) => o.y + o.height)) + FRAME_PADDING
+    frames.push({
+      id: frameId,
+      type: 'frame',
+      x: minX,
+      y: minY,
+      width: maxX - minX,
+      height: maxY - minY,
+      fill: 'transparent',
+      text: group.title,
+      ...(group.parent ? { parentId: `subgraph:${group.parent}` } : {}),
+    })
+  }
+
+  // Frames first so they render beneath their contents
+  return [...frames.reverse(), ...objects]
+}
@@ -0,0 +1,183 @@
+/**
+ * Miro Importer
+ *
+ * Converts a Miro board export in the REST API v2 item format:
+ *   { data: [...items], connectors?: [...] }   (`items` is accepted for `data`,
+ *   and a bare array of items works too)
+ *
+ *   sticky_note, card         → sticky
+ *   shape (circle/ellipse)    → circle, other shapes → rect
+ *   text                      → text
+ *   frame                     → frame
+ *   connector                 → line (startItem/endItem become fromId/toId)
+ *
+ * Miro positions are item centers, relative to the parent frame's top-left
+ * when `relativeTo` is `parent_top_left`; they're converted to absolute
+ * top-left coordinates. Rich text (HTML) is flattened to plain text.
+ * Images, embeds and other item types are skipped.
+ */
+
+import type { BoardObject } from '../../../shared/types.js'
+import type { ImportResult } from '../boardJson.js'
+import { lineBetween, htmlToText } from './common.js'
+
+interface MiroItem {
+  id: string | number
+  type: string
+  data?: { content?: string; shape?: string; title?: string }
+  style?: { fillColor?: string; color?: string; strokeColor?: string; endStrokeCap?: string; fontSize?: string | number }
+  position?: { x: number; y: number; relativeTo?: string }
+  geometry?: { width?: number; height?: number; rotation?: number }
+  parent?: { id: string | number } | null
+  startItem?: { id: string | number }
+  endItem?: { id: string | number }
+}
+
+/** Miro's named sticky colors, mapped onto our palette. */
+const STICKY_COLORS: Record<string, string> = {
+  gray: '#78909C',
+  light_yellow: '#FFF59D',
+  yellow: '#FFEB3B',
+  orange: '#FFA726',
+  light_green: '#C5E1A5',
+  green: '#66BB6A',
+  dark_green: '#2E7D32',
+  cyan: '#26C6DA',
+  light_pink: '#F8BBD0',
+  pink: '#EC407A',
+  violet: '#AB47BC',
+  red: '#EF5350',
+  light_blue: '#90CAF9',
+  blue: '#42A5F5',
+  dark_blue: '#1565C0',
+  black: '#212121',
+  white: '#FFFFFF',
+}
+
+const DEFAULT_SIZE: Record<string, { width: number; height: number }> = {
+  sticky_note: { width: 200, height: 200 },
+  card: { width: 320, height: 100 },
+  shape: { width: 160, height: 100 },
+  text: { width: 200, height: 40 },
+  frame: { width: 800, height: 600 },
+}
+
+function itemsOf(value: unknown): { items: unknown; connectors: unknown } {
+  if (Array.isArray(value)) return { items: value, connectors: [] }
+  const v = (value ?? {}) as { data?: unknown; items?: unknown; connectors?: unknown }
+  return { items: v.data ?? v.items, connectors: v.connectors ?? [] }
+}
+
+/** Miro exports are lists of items with center positions and a geometry block. */
+export function isMiroExport(value: unknown): boolean {
+  const { items } = itemsOf(value)
+  return Array.isArray(items) && items.length > 0 &&
+    items.every((i) => i && typeof i === 'object' && 'type' in i && ('position' in i || i.type === 'connector'))
+}
+
+function colorOf(item: MiroItem): string {
+  const fill = item.style?.fillColor
+  if (!fill) return item.type === 'sticky_note' ? STICKY_COLORS.light_yellow : '#FFFFFF'
+  return STICKY_COLORS[fill] ?? (fill === 'transparent' ? 'transparent' : fill)
+}
+
+export function convertMiro(value: unknown): ImportResult<BoardObject[]> {
+  const { items, connectors } = itemsOf(value)
+  if (!Array.isArray(items)) return { ok: false, error: 'Miro export has no items (expected a "data" array)' }
+
+  const all = [...items, ...(Array.isArray(connectors) ? connectors : [])] as MiroItem[]
+  const valid = all.filter((i) => i && typeof i === 'object' && (typeof i.id === 'string' || typeof i.id === 'number'))
+  const byId = new Map(valid.map((i) => [String(i.id), i]))
+
+  // Absolute top-left of an item, resolving parent-relative positions
+  const topLeft = (item: MiroItem, depth = 0): { x: number; y: number } => {
+    const size = sizeOf(item)
+    let cx = item.position?.x ?? 0
+    let cy = item.position?.y ?? 0
+    const parent = item.parent ? byId.get(String(item.parent.id)) : undefined
+    if (parent && item.position?.relativeTo === 'parent_top_left' && depth < 10) {
+      const origin = topLeft(parent, depth + 1)
+      cx += origin.x
+      cy += origin.y
+    }
+    return { x: cx - size.width / 2, y: cy - size.height / 2 }
+  }
+
+  const objects: BoardObject[] = []
+  for (const item of valid) {
+    const id = String(item.id)
+    const parentId = item.parent ? String(item.parent.id) : undefined
+
+    if (item.type === 'connector') {
+      const from = item.startItem ? String(item.startItem.id) : undefined
+      const to = item.endItem ? String(item.endItem.id) : undefined
+      const start = from && byId.get(from) ? center(byId.get(from)!, topLeft) : { x: 0, y: 0 }
+      const end = to && byId.get(to) ? center(byId.get(to)!, topLeft) : { x: 100, y: 0 }
+      objects.push({
+        ...lineBetween(id, start.x, start.y, end.x, end.y),
+        fill: item.style?.strokeColor ?? '#374151',
+        arrowEnd: (item.style?.endStrokeCap ?? 'stealth') !== 'none',
+        ...(from ? { fromId: from } : {}),
+        ...(to ? { toId: to } : {}),
+      })
+      continue
+    }
+
+    const type = objectType(item)
+    if (!type) continue
+
+    const { x, y } = topLeft(item)
+    const { width, height } = sizeOf(item)
+    const text = item.type === 'frame' ? item.data?.title ?? 'Frame' : htmlToText(item.data?.content ?? item.data?.title ?? '')
+    const fontSize = Number(item.style?.fontSize)
+
+    objects.push({
+      id,
+      type,
+      x,
+      y,
+      width,
+      height,
+      fill: type === 'frame' ? 'transparent' : type === 'text' ? item.style?.color ?? '#1E293B' : colorOf(item),
+      ...(text ? { text } : {}),
+      ...(type === 'text' && Number.isFinite(fontSize) && fontSize > 0 ? { fontSize } : {}),
+      ...(item.geometry?.rotation ? { rotation: item.geometry.rotation } : {}),
+      ...(parentId ? { parentId } : {}),
+    })
+  }
+
+  return { ok: true, value: objects }
+}
+
+function objectType(item: MiroItem): BoardObject['type'] | null {
+  switch (item.type) {
+    case 'sticky_note':
+    case 'card':
+      return 'sticky'
+    case 'shape':
+      return item.data?.shape === 'circle' || item.data?.shape === 'ellipse' ? 'circle' : 'rect'
+    case 'text':
+      return 'text'
+    case 'frame':
+      return 'frame'
+    default:
+      return null
+  }
+}
+
+function sizeOf(item: MiroItem): { width: number; height: number } {
+  const fallback = DEFAULT_SIZE[item.type] ?? { width: 160, height: 100 }
+  const width = item.geometry?.width ?? fallback.width
+  // Miro often omits sticky height (it's derived from width)
+  const height = item.geometry?.height ?? (item.type === 'sticky_note' ? width : fallback.height)
+  return { width, height }
+}
+
+function center(
+  item: MiroItem,
+  topLeft: (item: MiroItem) => { x: number; y: number },
+): { x: number; y: number } {
+  const { x, y } = topLeft(item)
+  const { width, height } = sizeOf(item)
+  return { x: x + width / 2, y: y + height / 2 }
+}
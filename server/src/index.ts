@@ -1,44 +1,119 @@
 /**
  * CollabBoard WebSocket Server
  *
- * A Yjs document relay with room isolation and Supabase persistence.
+ * A Yjs document relay with room isolation, pluggable persistence
+ * (Supabase, file, SQLite or memory — see db/persistence.ts) and a pub/sub
+ * backplane so several instances can serve one room (backplane/backplane.ts).
  *
  * Responsibilities:
- *  - Accept WebSocket connections on /<room-name>
+ *  - Accept WebSocket connections on /<room-name>?token=<jwt>; only the guest
+ *    sandbox accepts sockets without a valid Clerk token
+ *  - Rate-limit AI commands per user and per board, and cap each user's
+ *    daily model usage (aiLimits.ts)
+ *  - Keep each board's AI conversation so commands can refer to earlier
+ *    ones (aiConversation.ts), until it's reset or the room is unloaded
+ *  - Enforce per-board roles: reject non-members, drop viewers' Yjs writes
+ *    and commenters' writes outside the comments map
+ *  - Validate every client update before applying it, and tell the
+ *    sender why a rejected one was rejected
+ *  - Stamp awareness messages with the socket's verified identity (only
+ *    editors and owners may summon everyone to their view)
  *  - Maintain an in-memory Y.Doc per room
- *  - Restore docs from Supabase on first access
- *  - Snapshot dirty docs to Supabase every 30 seconds
- *  - Send the full document state to new clients on connect
- *  - Apply incoming Yjs updates to the server-side doc
- *  - Broadcast all messages (Yjs updates + awareness) to other clients in the room
+ *  - Restore docs from persistence on first access (snapshot + update log tail)
+ *  - Append every update applied here to a durable per-room update log
+ *  - Fan updates and presence out to other instances serving the room, and
+ *    catch up from them when a room is loaded
+ *  - Snapshot dirty docs every 30 seconds, compacting the log, and
+ *    checkpoint edited docs hourly into the board's version history — only
+ *    in rooms this instance owns (one owner per room, via the backplane)
+ *  - Purge boards that have been in the trash past their retention, hourly
+ *  - Sync with each client through the y-protocols step 1 / step 2
+ *    handshake, so reconnecting clients only exchange missing updates
+ *  - Apply incoming Yjs updates to the server-side doc and broadcast every
+ *    applied update to the room's other clients
+ *  - Keep a y-protocols Awareness per room: relay presence, hand new
+ *    clients everyone's state, and clear a client's state when it leaves
  *
- * Wire protocol (same as client):
- *   byte[0]  = 0 (Yjs update) | 1 (awareness)
- *   byte[1:] = payload
+ * Wire protocol: standard y-protocols framing (see syncProtocol.ts).
  */
 
 import http from 'http'
 import { WebSocketServer, WebSocket } from 'ws'
 import * as Y from 'yjs'
-import { supabase } from './db/supabase.js'
+import * as awarenessProtocol from 'y-protocols/awareness'
+import { persistence, type BoardRole } from './db/persistence.js'
+import { backplane } from './backplane/backplane.js'
+import { replayUpdates } from './db/updateLog.js'
 import { processAICommand, processAICommandStream } from './aiHandler.js'
+import { aiLimiter } from './aiLimits.js'
+import { conversations } from './aiConversation.js'
+import { aiUndo } from './aiUndo.js'
 import { flushTraces, isLangfuseEnabled } from './langfuse.js'
 import {
   isOriginAllowed,
   getCorsOrigin,
+  clientAddress,
   isMessageSizeValid,
-  shouldRejectUpdate,
   isValidRoomName,
   isAIMessageValid,
+  parseAIScope,
+  validateUpdate,
+  stampAwareness,
   MAX_WS_MESSAGE_SIZE,
 } from './security.js'
+import {
+  readClientMessage,
+  encodeSyncStep1,
+  encodeUpdateMessage,
+  encodeAwarenessMessage,
+  encodeAwarenessSnapshot,
+  encodePermissionDenied,
+} from './syncProtocol.js'
 import {
   handleListBoards,
   handleCreateBoard,
+  handleGetBoard,
+  handleGetThumbnail,
+  handleSetBoardPreference,
+  handleSetTemplate,
+  handleDuplicateBoard,
   handleRenameBoard,
   handleDeleteBoard,
 } from './routes/boards.js'
-import { MSG_YJS, DEFAULT_BOARD_ID } from '../../shared/constants.js'
+import {
+  handleListMembers,
+  handleSetMember,
+  handleRemoveMember,
+  handleListInvites,
+  handleCreateInvite,
+  handleRevokeInvite,
+  handleAcceptInvite,
+} from './routes/members.js'
+import {
+  handleListVersions,
+  handleCreateVersion,
+  handleRestoreVersion,
+} from './routes/versions.js'
+import { handleListTrash, handleRestoreBoard, handlePurgeBoard } from './routes/trash.js'
+import { handleExportBoard } from './routes/export.js'
+import { handleImportBoard, handleImportIntoBoard } from './routes/import.js'
+import { createCheckpoint, autoCheckpointName, CHECKPOINT_INTERVAL_MS } from './versionHistory.js'
+import { saveBoardThumbnail } from './thumbnails.js'
+import { saveBoardSearchText } from './boardSearch.js'
+import { sweepTrash, TRASH_SWEEP_INTERVAL_MS } from './trash.js'
+import { deleteObject, migrateObjectTexts } from './objectText.js'
+import { authenticateRequest } from './auth.js'
+import {
+  resolveBoardRole,
+  resolveRoomAccess,
+  resolveUserRoomAccess,
+  canEdit,
+  canComment,
+  type RoomAccess,
+  type RoomAccessResult,
+} from './access.js'
+import { DEFAULT_BOARD_ID, COMMENTS_MAP, WS_CLOSE_NO_ACCESS } from '../../shared/constants.js'
+import type { BoardObject } from '../../shared/types.js'
 
 // ---------------------------------------------------------------------------
 // Config
@@ -46,122 +121,88 @@ import { MSG_YJS, DEFAULT_BOARD_ID } from '../../shared/constants.js'
 
 const PORT = parseInt(process.env.PORT ?? '1234', 10)
 const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS ?? ''
+const TRUSTED_PROXIES = parseInt(process.env.TRUSTED_PROXIES ?? '0', 10) || 0 // proxy hops in front of the server
 const SNAPSHOT_INTERVAL_MS = 30_000   // 30 seconds
 const ROOM_IDLE_TIMEOUT_MS = 3_600_000 // 1 hour — evict idle rooms to free memory
 const EVICTION_CHECK_MS = 300_000      // 5 minutes — how often to check for idle rooms
+const ROOM_LEASE_MS = 3 * SNAPSHOT_INTERVAL_MS // a dead owner's rooms are taken over after this
 
 // ---------------------------------------------------------------------------
 // State
 // ---------------------------------------------------------------------------
 
-/** In-memory Y.Doc per room. Restored from Supabase on first access. */
+/** In-memory Y.Doc per room. Restored from persistence on first access. */
 const docs = new Map<string, Y.Doc>()
 
-/** Rooms currently being loaded from Supabase (prevents duplicate loads). */
+/** Presence per room, alongside its doc (destroyed with it). */
+const awarenesses = new Map<string, awarenessProtocol.Awareness>()
+
+/** Rooms currently being loaded from persistence (prevents duplicate loads). */
 const loadingDocs = new Map<string, Promise<Y.Doc>>()
 
 /** Maps each socket to its room name for targeted broadcasting. */
 const socketRooms = new Map<WebSocket, string>()
 
+/** Who each socket belongs to and what it may do in its room. */
+const socketAccess = new Map<WebSocket, RoomAccess>()
+
 /** Tracks rooms that have been modified since last snapshot. */
 const dirtyRooms = new Set<string>()
 
+/** Tracks rooms that have been modified since their last hourly checkpoint. */
+const checkpointDirtyRooms = new Set<string>()
+
 /** Last activity timestamp per room (for idle eviction). */
 const roomLastActive = new Map<string, number>()
 
 // ---------------------------------------------------------------------------
-// Supabase Persistence
+// Persistence
 // ---------------------------------------------------------------------------
 
 /**
- * Load a snapshot from Supabase and apply it to a fresh Y.Doc.
+ * Load a room's snapshot and replay the update log tail on top.
  */
-async function loadDocFromSupabase(room: string): Promise<Y.Doc> {
+async function loadDoc(room: string): Promise<Y.Doc> {
   const doc = new Y.Doc()
 
-  if (!supabase) {
-    console.log(`[DB] No Supabase — creating empty doc for room: ${room}`)
-    return doc
-  }
-
   try {
-    const { data, error } = await supabase
-      .from('board_snapshots')
-      .select('snapshot')
-      .eq('board_id', room)
-      .single()
-
-    if (error && error.code !== 'PGRST116') {
-      // PGRST116 = "no rows returned" — that's fine for new boards
-      console.error(`[DB] Error loading snapshot for ${room}:`, error.message)
-    }
+    const { snapshot, updates } = await persistence.load(room)
+    replayUpdates(doc, snapshot, updates)
 
-    if (data?.snapshot) {
-      const binary = Buffer.from(data.snapshot, 'base64')
-      Y.applyUpdate(doc, new Uint8Array(binary))
-      console.log(`[DB] Restored snapshot for room: ${room} (${binary.length} bytes)`)
+    if (snapshot) {
+      console.log(`[DB] Restored snapshot for room: ${room} (${snapshot.length} bytes, ${updates.length} logged update(s))`)
+    } else if (updates.length > 0) {
+      console.log(`[DB] No snapshot for room: ${room} — replayed ${updates.length} logged update(s)`)
     } else {
       console.log(`[DB] No existing snapshot for room: ${room} — starting fresh`)
     }
   } catch (err) {
-    console.error(`[DB] Failed to load snapshot for ${room}:`, err)
+    console.error(`[DB] Failed to restore room ${room}:`, err)
   }
 
   return doc
 }
 
 /**
- * Save a Y.Doc snapshot to Supabase.
- */
-async function saveDocToSupabase(room: string, doc: Y.Doc): Promise<void> {
-  if (!supabase) return
-
-  try {
-    const state = Y.encodeStateAsUpdate(doc)
-    const snapshot = Buffer.from(state).toString('base64')
-
-    const { error } = await supabase
-      .from('board_snapshots')
-      .upsert(
-        { board_id: room, snapshot, updated_at: new Date().toISOString() },
-        { onConflict: 'board_id' }
-      )
-
-    if (error) {
-      console.error(`[DB] Error saving snapshot for ${room}:`, error.message)
-    } else {
-      console.log(`[DB] Saved snapshot for room: ${room} (${state.byteLength} bytes)`)
-    }
-  } catch (err) {
-    console.error(`[DB] Failed to save snapshot for ${room}:`, err)
-  }
-}
-
-/**
- * Register a Y.Doc 'update' listener that broadcasts server-side mutations
- * (e.g., from the AI handler) to all connected WebSocket clients in the room.
- *
- * Client-originated updates (origin === 'remote') are already relayed in the
- * ws.on('message') handler, so we skip those here to avoid double-sending.
+ * Register a Y.Doc 'update' listener that broadcasts every applied update to
+ * the room's WebSocket clients. Client updates are applied with their socket
+ * as origin and skip that socket; server-side mutations (e.g., from the AI
+ * handler) go to everyone.
  */
 function registerDocUpdateListener(room: string, doc: Y.Doc): void {
   doc.on('update', (update: Uint8Array, origin: unknown) => {
-    // Only broadcast server-side (local) mutations — not client relays
-    if (origin === 'remote') return
-
-    const msg = new Uint8Array(1 + update.length)
-    msg[0] = MSG_YJS
-    msg.set(update, 1)
+    const msg = encodeUpdateMessage(update)
 
     let sent = 0
     const totalClients = wss.clients.size
     for (const client of wss.clients) {
-      if (client.readyState === WebSocket.OPEN && socketRooms.get(client) === room) {
+      if (client !== origin && client.readyState === WebSocket.OPEN && socketRooms.get(client) === room) {
         client.send(msg)
         sent++
       }
     }
 
+    if (origin instanceof WebSocket || origin === backplane) return
     if (sent > 0) {
       console.log(`[WS] Broadcast server-side update to ${sent} client(s) in room: ${room}`)
     } else {
@@ -171,7 +212,118 @@ function registerDocUpdateListener(room: string, doc: Y.Doc): void {
 }
 
 /**
- * Get or create a Y.Doc for a room. Loads from Supabase on first access.
+ * Create the room's Awareness and relay its changes to the room's clients,
+ * except the socket they came from.
+ */
+function registerAwareness(room: string, doc: Y.Doc): void {
+  const awareness = new awarenessProtocol.Awareness(doc)
+  awareness.setLocalState(null) // the server has no presence of its own
+
+  awareness.on('update', (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown,
+  ) => {
+    const changed = [...added, ...updated, ...removed]
+    const msg = encodeAwarenessMessage(awarenessProtocol.encodeAwarenessUpdate(awareness, changed))
+    for (const client of wss.clients) {
+      if (client !== origin && client.readyState === WebSocket.OPEN && socketRooms.get(client) === room) {
+        client.send(msg)
+      }
+    }
+  })
+  awarenesses.set(room, awareness)
+}
+
+/**
+ * Register a Y.Doc 'update' listener that appends every update applied on
+ * this instance (client relays and server-side mutations alike) to the
+ * durable update log, and flags the room for its next hourly checkpoint.
+ * Updates from other instances were logged by whoever received them.
+ */
+function registerUpdateLogListener(room: string, doc: Y.Doc): void {
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    checkpointDirtyRooms.add(room)
+    if (origin === backplane) return
+    persistence.appendUpdate(room, update).catch((err) => {
+      console.error(`[DB] Failed to log update for ${room}:`, err)
+    })
+  })
+}
+
+/**
+ * Join the room on the backplane: publish what changes here, apply what
+ * other instances publish (our listeners relay it to our sockets), and ask
+ * them for anything applied after what persistence gave us. Access changes,
+ * trashing and purging are applied to our sockets too.
+ */
+function registerBackplane(room: string, doc: Y.Doc): void {
+  const awareness = awarenesses.get(room)!
+
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    if (origin === backplane) return
+    backplane.publish(room, { kind: 'update', payload: update })
+  })
+  awareness.on('update', (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown,
+  ) => {
+    if (origin === backplane) return
+    const payload = awarenessProtocol.encodeAwarenessUpdate(awareness, [...added, ...updated, ...removed])
+    backplane.publish(room, { kind: 'awareness', payload })
+  })
+
+  backplane
+    .subscribe(room, (message) => {
+      // The room was evicted or dropped since
+      if (docs.get(room) !== doc) return
+      try {
+        switch (message.kind) {
+          case 'update':
+            Y.applyUpdate(doc, message.payload, backplane)
+            dirtyRooms.add(room) // saved by whichever instance owns the room
+            roomLastActive.set(room, Date.now())
+            break
+          case 'awareness':
+            awarenessProtocol.applyAwarenessUpdate(awareness, message.payload, backplane)
+            break
+          case 'sync': {
+            // Another instance just loaded the room: send it what it lacks
+            const missing = Y.encodeStateAsUpdate(doc, message.payload)
+            if (missing.length > 2) backplane.publish(room, { kind: 'update', payload: missing })
+            const clients = [...awareness.getStates().keys()]
+            if (clients.length > 0) {
+              backplane.publish(room, { kind: 'awareness', payload: awarenessProtocol.encodeAwarenessUpdate(awareness, clients) })
+            }
+            break
+          }
+          case 'access':
+            void recheckSocketAccess(room, new TextDecoder().decode(message.payload))
+            break
+          case 'close':
+            closeRoomSockets(room, 'Board deleted')
+            break
+          case 'drop':
+            forgetRoom(room)
+            break
+        }
+      } catch (err) {
+        console.error(`[Backplane] Dropped malformed ${message.kind} for ${room}:`, err)
+      }
+    })
+    .then(() => backplane.publish(room, { kind: 'sync', payload: Y.encodeStateVector(doc) }))
+    .catch((err) => console.error(`[Backplane] Failed to subscribe to ${room}:`, err))
+}
+
+/** Stop relaying a room that's no longer loaded here, and let another instance own it. */
+function leaveBackplane(room: string): void {
+  backplane.unsubscribe(room).catch((err) => {
+    console.error(`[Backplane] Failed to unsubscribe from ${room}:`, err)
+  })
+  backplane.releaseOwnership(room)
+}
+
+/**
+ * Get or create a Y.Doc for a room. Loads from persistence on first access.
  * Uses a loading lock to prevent duplicate loads for the same room.
  */
 async function getOrCreateDoc(room: string): Promise<Y.Doc> {
@@ -186,12 +338,18 @@ async function getOrCreateDoc(room: string): Promise<Y.Doc> {
   }
 
   // Start loading
-  const loadPromise = loadDocFromSupabase(room).then((doc) => {
+  const loadPromise = loadDoc(room).then((doc) => {
     docs.set(room, doc)
     loadingDocs.delete(room)
     roomLastActive.set(room, Date.now())
-    // Register listener to broadcast server-side mutations to WS clients
+    // Register listener to broadcast applied updates to WS clients
     registerDocUpdateListener(room, doc)
+    registerAwareness(room, doc)
+    // Register listener to persist every update between snapshots
+    registerUpdateLogListener(room, doc)
+    registerBackplane(room, doc)
+    // Move legacy plain-string text into Y.Text (logged and broadcast like any edit)
+    if (migrateObjectTexts(doc) > 0) dirtyRooms.add(room)
     return doc
   })
   loadingDocs.set(room, loadPromise)
@@ -199,24 +357,155 @@ async function getOrCreateDoc(room: string): Promise<Y.Doc> {
 }
 
 /**
- * Periodically snapshot all dirty docs to Supabase.
+ * Periodically renew our lease on every loaded room, and snapshot the dirty
+ * docs of rooms we own. Other instances' dirty rooms are their owner's job,
+ * but stay flagged here in case we take the lease over.
  */
 function startSnapshotInterval(): void {
   setInterval(async () => {
-    if (dirtyRooms.size === 0) return
+    // Nothing to save for rooms that were never or are no longer loaded
+    for (const room of dirtyRooms) {
+      if (!docs.has(room) && !loadingDocs.has(room)) dirtyRooms.delete(room)
+    }
+
+    let saved = 0
+    for (const [room, doc] of [...docs]) {
+      const owner = await backplane.claimOwnership(room, ROOM_LEASE_MS)
+      if (owner && dirtyRooms.has(room) && docs.get(room) === doc) {
+        // Cleared first, so edits made while saving flag the room again
+        dirtyRooms.delete(room)
+        await snapshotRoom(room, doc)
+        saved++
+      }
+    }
+    if (saved > 0) console.log(`[DB] Snapshotted ${saved} dirty room(s)`)
+  }, SNAPSHOT_INTERVAL_MS)
+}
 
-    const roomsToSave = [...dirtyRooms]
-    dirtyRooms.clear()
+/**
+ * Snapshot a room if this instance owns it (taking the lease if it's free).
+ */
+async function snapshotIfOwner(room: string, doc: Y.Doc): Promise<void> {
+  if (!(await backplane.claimOwnership(room, ROOM_LEASE_MS))) return
+  await snapshotRoom(room, doc)
+}
 
-    console.log(`[DB] Snapshotting ${roomsToSave.length} dirty room(s)...`)
+/**
+ * Save a room's snapshot, re-render its dashboard thumbnail and refresh its
+ * search text. All three start synchronously, so the doc may be destroyed
+ * as soon as this returns.
+ */
+function snapshotRoom(room: string, doc: Y.Doc): Promise<unknown> {
+  return Promise.all([
+    persistence.save(room, doc),
+    saveBoardThumbnail(room, doc),
+    saveBoardSearchText(room, doc),
+  ])
+}
 
-    for (const room of roomsToSave) {
+/**
+ * Hourly: save an automatic version for every loaded room edited since
+ * its last checkpoint.
+ */
+function startCheckpointInterval(): void {
+  setInterval(async () => {
+    if (checkpointDirtyRooms.size === 0) return
+
+    const roomsToCheckpoint = [...checkpointDirtyRooms]
+    checkpointDirtyRooms.clear()
+
+    for (const room of roomsToCheckpoint) {
       const doc = docs.get(room)
-      if (doc) {
-        await saveDocToSupabase(room, doc)
+      if (!doc || !(await backplane.claimOwnership(room, ROOM_LEASE_MS))) continue
+      try {
+        await createCheckpoint(room, doc, { name: autoCheckpointName(), kind: 'auto', createdBy: null })
+        console.log(`[Versions] Saved hourly checkpoint for room: ${room}`)
+      } catch (err) {
+        console.error(`[Versions] Failed to checkpoint room ${room}:`, err)
       }
     }
-  }, SNAPSHOT_INTERVAL_MS)
+  }, CHECKPOINT_INTERVAL_MS)
+}
+
+/**
+ * Disconnect everyone in a room, e.g. once its board is in the trash. The
+ * close code tells clients to drop their offline copy.
+ */
+function closeRoomSockets(room: string, reason: string): void {
+  for (const [ws, socketRoom] of socketRooms) {
+    if (socketRoom === room) ws.close(WS_CLOSE_NO_ACCESS, reason)
+  }
+}
+
+/**
+ * Disconnect everyone in a trashed board's room, on every instance.
+ */
+function closeTrashedRoom(room: string): void {
+  backplane.publish(room, { kind: 'close', payload: new Uint8Array() })
+  closeRoomSockets(room, 'Board deleted')
+}
+
+/**
+ * Forget a purged board's room on every instance without saving it: a
+ * pending snapshot would otherwise write the deleted board's doc back to
+ * storage.
+ */
+function dropRoom(room: string): void {
+  backplane.publish(room, { kind: 'drop', payload: new Uint8Array() })
+  forgetRoom(room)
+}
+
+/** Unload a purged board's room here (see dropRoom). */
+function forgetRoom(room: string): void {
+  closeRoomSockets(room, 'Board deleted')
+  dirtyRooms.delete(room)
+  checkpointDirtyRooms.delete(room)
+  docs.get(room)?.destroy()
+  docs.delete(room)
+  awarenesses.delete(room)
+  loadingDocs.delete(room)
+  roomLastActive.delete(room)
+  conversations.forget(room)
+  aiUndo.forget(room)
+  leaveBackplane(room)
+}
+
+/**
+ * Re-check a user's role on their open sockets, on every instance, after a
+ * membership change.
+ */
+async function refreshSocketAccess(boardId: string, userId: string): Promise<void> {
+  backplane.publish(boardId, { kind: 'access', payload: new TextEncoder().encode(userId) })
+  await recheckSocketAccess(boardId, userId)
+}
+
+/**
+ * Re-check a user's role on their sockets here: update it in place, or
+ * disconnect them if they no longer have access.
+ */
+async function recheckSocketAccess(boardId: string, userId: string): Promise<void> {
+  let role: BoardRole | null
+  try {
+    const board = await persistence.getBoard(boardId)
+    role = board ? await resolveBoardRole(board, userId) : null
+  } catch (err) {
+    // Their role is unknown: drop the sockets, and reconnecting re-checks it
+    console.error(`[WS] Failed to re-check access for ${userId} in room ${boardId}:`, err)
+    for (const [ws, access] of socketAccess) {
+      if (access.userId === userId && socketRooms.get(ws) === boardId) ws.close(1011, 'Server error')
+    }
+    return
+  }
+
+  for (const [ws, access] of socketAccess) {
+    if (access.userId !== userId || socketRooms.get(ws) !== boardId) continue
+    if (role) {
+      access.role = role
+    } else {
+      console.log(`[WS] Access revoked for ${userId} in room ${boardId}`)
+      ws.close(WS_CLOSE_NO_ACCESS, 'Access revoked')
+    }
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -233,7 +522,64 @@ function readBody(req: http.IncomingMessage): Promise<string> {
   })
 }
 
-const server = http.createServer(async (req, res) => {
+/**
+ * Authorize an AI command on `room`. AI edits the board, so the caller needs
+ * the same edit access as a socket typing on it. Sends 401/403 (or 500 if
+ * access can't be checked) and returns null otherwise.
+ */
+async function authorizeAIRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  room: string,
+): Promise<RoomAccess | null> {
+  const user = await authenticateRequest(req)
+  let access: RoomAccess | null
+  try {
+    access = await resolveUserRoomAccess(room, user)
+  } catch (err) {
+    console.error(`[AI] Failed to check access to room ${room}:`, err)
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to check board access' }))
+    return null
+  }
+  if (!access || !canEdit(access.role)) {
+    res.writeHead(user ? 403 : 401, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: user ? 'You do not have edit access to this board' : 'Authentication required' }))
+    return null
+  }
+  return access
+}
+
+/** Who AI usage is counted against: the user, or the client's address for guests. */
+function aiUsageKey(req: http.IncomingMessage, access: RoomAccess): string {
+  if (access.userId) return `user:${access.userId}`
+  const address = clientAddress(req.socket.remoteAddress, req.headers['x-forwarded-for'], TRUSTED_PROXIES)
+  return `guest:${address ?? 'unknown'}`
+}
+
+/** Count an AI command against its user's and board's limits; responds 429 if over. */
+function checkAILimits(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  access: RoomAccess,
+  room: string,
+  stream: boolean,
+): boolean {
+  const limit = aiLimiter.check(aiUsageKey(req, access), room)
+  if (limit.ok) return true
+  console.warn(`[AI] Refused command for room ${room} (${limit.code}, retry in ${limit.retryAfterSeconds}s)`)
+  const retryAfter = String(limit.retryAfterSeconds)
+  if (stream) {
+    res.writeHead(429, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', 'Retry-After': retryAfter })
+    res.end(`data: ${JSON.stringify({ type: 'error', error: limit.error, code: limit.code, retryAfter: limit.retryAfterSeconds })}\n\n`)
+  } else {
+    res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': retryAfter })
+    res.end(JSON.stringify({ error: limit.error, code: limit.code, retryAfter: limit.retryAfterSeconds }))
+  }
+  return false
+}
+
+async function handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
   // CORS — restrict to allowed origins when configured
   const origin = req.headers.origin
   const corsOrigin = getCorsOrigin(origin, ALLOWED_ORIGINS)
@@ -246,8 +592,9 @@ const server = http.createServer(async (req, res) => {
   }
 
   res.setHeader('Access-Control-Allow-Origin', corsOrigin)
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS')
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization')
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After')
   if (corsOrigin !== '*') {
     res.setHeader('Vary', 'Origin')
   }
@@ -267,7 +614,7 @@ const server = http.createServer(async (req, res) => {
   const pathname = url.pathname
 
   if (pathname === '/api/boards' && req.method === 'GET') {
-    await handleListBoards(req, res)
+    await handleListBoards(req, res, url.searchParams)
     return
   }
 
@@ -277,6 +624,136 @@ const server = http.createServer(async (req, res) => {
     return
   }
 
+  // POST /api/boards/import — Create a board from a CollabBoard, Excalidraw, Mermaid or Miro file
+  if (pathname === '/api/boards/import' && req.method === 'POST') {
+    const body = await readBody(req)
+    const boardId = await handleImportBoard(req, res, body, getOrCreateDoc)
+    if (boardId) dirtyRooms.add(boardId)
+    return
+  }
+
+  // POST /api/boards/:id/import — Add a file's objects to a board
+  const importMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)\/import$/)
+  if (importMatch && req.method === 'POST') {
+    const body = await readBody(req)
+    await handleImportIntoBoard(req, res, importMatch[1], body, getOrCreateDoc)
+    if (res.statusCode === 200) dirtyRooms.add(importMatch[1])
+    return
+  }
+
+  // GET/POST /api/boards/:id/versions — List versions / save a named checkpoint
+  const versionsMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)\/versions$/)
+  if (versionsMatch && req.method === 'GET') {
+    await handleListVersions(req, res, versionsMatch[1])
+    return
+  }
+  if (versionsMatch && req.method === 'POST') {
+    const body = await readBody(req)
+    await handleCreateVersion(req, res, versionsMatch[1], body, getOrCreateDoc)
+    return
+  }
+
+  // POST /api/boards/:id/versions/:vid/restore — Restore a checkpoint
+  const restoreMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)\/versions\/([a-f0-9-]+)\/restore$/)
+  if (restoreMatch && req.method === 'POST') {
+    await handleRestoreVersion(req, res, restoreMatch[1], restoreMatch[2], getOrCreateDoc)
+    if (res.statusCode === 200) dirtyRooms.add(restoreMatch[1])
+    return
+  }
+
+  // GET /api/boards/:id/export?format=svg|png|pdf|json — Render the board to a file
+  const exportMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)\/export$/)
+  if (exportMatch && req.method === 'GET') {
+    await handleExportBoard(req, res, exportMatch[1], url.searchParams, getOrCreateDoc)
+    return
+  }
+
+  // GET /api/boards/:id/thumbnail — Dashboard preview PNG
+  const thumbnailMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)\/thumbnail$/)
+  if (thumbnailMatch && req.method === 'GET') {
+    await handleGetThumbnail(req, res, thumbnailMatch[1])
+    return
+  }
+
+  // POST /api/boards/:id/duplicate — Copy a board into a new one owned by the caller
+  const duplicateMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)\/duplicate$/)
+  if (duplicateMatch && req.method === 'POST') {
+    const body = await readBody(req)
+    const newBoardId = await handleDuplicateBoard(req, res, duplicateMatch[1], body, getOrCreateDoc)
+    if (newBoardId) dirtyRooms.add(newBoardId)
+    return
+  }
+
+  // PUT/DELETE /api/boards/:id/template — Mark / unmark a board as a template
+  const templateMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)\/template$/)
+  if (templateMatch && (req.method === 'PUT' || req.method === 'DELETE')) {
+    await handleSetTemplate(req, res, templateMatch[1], req.method === 'PUT')
+    return
+  }
+
+  // PATCH /api/boards/:id/preferences — Favorite or file a board for the caller
+  const preferenceMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)\/preferences$/)
+  if (preferenceMatch && req.method === 'PATCH') {
+    const body = await readBody(req)
+    await handleSetBoardPreference(req, res, preferenceMatch[1], body)
+    return
+  }
+
+  // GET /api/boards/:id/members — List members
+  const membersMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)\/members$/)
+  if (membersMatch && req.method === 'GET') {
+    await handleListMembers(req, res, membersMatch[1])
+    return
+  }
+
+  // PUT/DELETE /api/boards/:id/members/:userId — Grant, change or remove a role
+  const memberMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)\/members\/([A-Za-z0-9_-]+)$/)
+  if (memberMatch && req.method === 'PUT') {
+    const body = await readBody(req)
+    await handleSetMember(req, res, memberMatch[1], memberMatch[2], body)
+    if (res.statusCode === 200) await refreshSocketAccess(memberMatch[1], memberMatch[2])
+    return
+  }
+  if (memberMatch && req.method === 'DELETE') {
+    await handleRemoveMember(req, res, memberMatch[1], memberMatch[2])
+    if (res.statusCode === 200) await refreshSocketAccess(memberMatch[1], memberMatch[2])
+    return
+  }
+
+  // GET/POST /api/boards/:id/invites — List / create invite links
+  const invitesMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)\/invites$/)
+  if (invitesMatch && req.method === 'GET') {
+    await handleListInvites(req, res, invitesMatch[1])
+    return
+  }
+  if (invitesMatch && req.method === 'POST') {
+    const body = await readBody(req)
+    await handleCreateInvite(req, res, invitesMatch[1], body)
+    return
+  }
+
+  // DELETE /api/boards/:id/invites/:token — Revoke an invite link
+  const inviteMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)\/invites\/([A-Za-z0-9_-]+)$/)
+  if (inviteMatch && req.method === 'DELETE') {
+    await handleRevokeInvite(req, res, inviteMatch[1], inviteMatch[2])
+    return
+  }
+
+  // POST /api/invites/:token/accept — Join a board through an invite link
+  const acceptMatch = pathname.match(/^\/api\/invites\/([A-Za-z0-9_-]+)\/accept$/)
+  if (acceptMatch && req.method === 'POST') {
+    const joined = await handleAcceptInvite(req, res, acceptMatch[1])
+    if (joined) await refreshSocketAccess(joined.boardId, joined.userId)
+    return
+  }
+
+  // GET /api/boards/:id — Fetch a board with the caller's role
+  const boardMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)$/)
+  if (boardMatch && req.method === 'GET') {
+    await handleGetBoard(req, res, boardMatch[1])
+    return
+  }
+
   // PATCH /api/boards/:id — Rename
   const patchMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)$/)
   if (patchMatch && req.method === 'PATCH') {
@@ -285,10 +762,32 @@ const server = http.createServer(async (req, res) => {
     return
   }
 
-  // DELETE /api/boards/:id — Delete
+  // DELETE /api/boards/:id — Move to the trash
   const deleteMatch = pathname.match(/^\/api\/boards\/([a-f0-9-]+)$/)
   if (deleteMatch && req.method === 'DELETE') {
     await handleDeleteBoard(req, res, deleteMatch[1])
+    if (res.statusCode === 200) closeTrashedRoom(deleteMatch[1])
+    return
+  }
+
+  // GET /api/trash — List the caller's trashed boards
+  if (pathname === '/api/trash' && req.method === 'GET') {
+    await handleListTrash(req, res)
+    return
+  }
+
+  // POST /api/trash/:id/restore — Restore a trashed board
+  const restoreBoardMatch = pathname.match(/^\/api\/trash\/([a-f0-9-]+)\/restore$/)
+  if (restoreBoardMatch && req.method === 'POST') {
+    await handleRestoreBoard(req, res, restoreBoardMatch[1])
+    return
+  }
+
+  // DELETE /api/trash/:id — Purge a trashed board permanently
+  const purgeMatch = pathname.match(/^\/api\/trash\/([a-f0-9-]+)$/)
+  if (purgeMatch && req.method === 'DELETE') {
+    await handlePurgeBoard(req, res, purgeMatch[1])
+    if (res.statusCode === 200) dropRoom(purgeMatch[1])
     return
   }
 
@@ -297,7 +796,8 @@ const server = http.createServer(async (req, res) => {
     res.end(JSON.stringify({
       status: 'ok',
       rooms: docs.size,
-      persistence: supabase ? 'supabase' : 'none',
+      persistence: persistence.name,
+      backplane: backplane.name,
       langfuseEnabled: isLangfuseEnabled(),
     }))
     return
@@ -308,11 +808,11 @@ const server = http.createServer(async (req, res) => {
     try {
       const room = DEFAULT_BOARD_ID
       const doc = await getOrCreateDoc(room)
-      const objectsMap = doc.getMap('objects')
+      const objectsMap = doc.getMap('objects') as Y.Map<BoardObject>
       const keys = Array.from(objectsMap.keys())
       doc.transact(() => {
         for (const key of keys) {
-          objectsMap.delete(key)
+          deleteObject(objectsMap, key)
         }
       })
       res.writeHead(200, { 'Content-Type': 'application/json' })
@@ -328,7 +828,7 @@ const server = http.createServer(async (req, res) => {
   if (req.method === 'POST' && req.url === '/api/ai') {
     try {
       const body = JSON.parse(await readBody(req))
-      const { message, boardId } = body
+      const { message, boardId, selectedIds, viewport } = body
 
       if (!isAIMessageValid(message)) {
         res.writeHead(400, { 'Content-Type': 'application/json' })
@@ -337,6 +837,9 @@ const server = http.createServer(async (req, res) => {
       }
 
       const roomId = boardId || DEFAULT_BOARD_ID
+      const access = await authorizeAIRequest(req, res, roomId)
+      if (!access) return
+      if (!checkAILimits(req, res, access, roomId, false)) return
       const doc = await getOrCreateDoc(roomId)
 
       const objectsMap = doc.getMap('objects')
@@ -345,7 +848,14 @@ const server = http.createServer(async (req, res) => {
       console.log(`[AI] Processing command for room ${roomId}: "${message.slice(0, 80)}"`)
       console.log(`[AI] Doc ${roomId} has ${beforeCount} objects before AI command (WS clients: ${wss.clients.size}, rooms: ${[...new Set(socketRooms.values())].join(', ') || 'none'})`)
 
-      const result = await processAICommand(message, doc, { boardId: roomId })
+      const usageKey = aiUsageKey(req, access)
+      const result = await processAICommand(message, doc, {
+        boardId: roomId,
+        userId: access.userId ?? undefined,
+        onUsage: (model, usage) => aiLimiter.recordUsage(usageKey, model, usage),
+        scope: parseAIScope(selectedIds, viewport),
+        requester: usageKey,
+      })
 
       const afterCount = objectsMap.size
       console.log(`[AI] Doc ${roomId} now has ${afterCount} objects (was ${beforeCount}, delta: +${afterCount - beforeCount})`)
@@ -365,11 +875,57 @@ const server = http.createServer(async (req, res) => {
     return
   }
 
+  // POST /api/ai/conversation/reset — Start a new AI conversation on a board
+  if (req.method === 'POST' && req.url === '/api/ai/conversation/reset') {
+    try {
+      const { boardId } = JSON.parse(await readBody(req))
+      const roomId = boardId || DEFAULT_BOARD_ID
+      const access = await authorizeAIRequest(req, res, roomId)
+      if (!access) return
+      const conversationId = conversations.reset(roomId)
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ conversationId }))
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: 'Invalid request body' }))
+    }
+    return
+  }
+
+  // POST /api/ai/undo — Revert one AI command's changes
+  if (req.method === 'POST' && req.url === '/api/ai/undo') {
+    try {
+      const { boardId, commandId } = JSON.parse(await readBody(req))
+      if (typeof commandId !== 'string') {
+        res.writeHead(400, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ error: 'commandId is required' }))
+        return
+      }
+      const roomId = boardId || DEFAULT_BOARD_ID
+      const access = await authorizeAIRequest(req, res, roomId)
+      if (!access) return
+      const result = aiUndo.undo(roomId, commandId, aiUsageKey(req, access))
+      if (!result.ok) {
+        res.writeHead(result.code === 'forbidden' ? 403 : 404, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ error: result.error, code: result.code }))
+        return
+      }
+      dirtyRooms.add(roomId)
+      console.log(`[AI] Undid command ${commandId} in room ${roomId}`)
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ undone: true }))
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: 'Invalid request body' }))
+    }
+    return
+  }
+
   // POST /api/ai/stream — Stream AI responses via Server-Sent Events
   if (req.method === 'POST' && req.url === '/api/ai/stream') {
     try {
       const body = JSON.parse(await readBody(req))
-      const { message, boardId } = body
+      const { message, boardId, selectedIds, viewport } = body
 
       if (!isAIMessageValid(message)) {
         res.writeHead(400, { 'Content-Type': 'application/json' })
@@ -378,6 +934,9 @@ const server = http.createServer(async (req, res) => {
       }
 
       const roomId = boardId || DEFAULT_BOARD_ID
+      const access = await authorizeAIRequest(req, res, roomId)
+      if (!access) return
+      if (!checkAILimits(req, res, access, roomId, true)) return
       const doc = await getOrCreateDoc(roomId)
 
       // Set SSE headers
@@ -396,7 +955,14 @@ const server = http.createServer(async (req, res) => {
       const timeout = setTimeout(() => controller.abort(), 60_000)
 
       try {
-        const gen = processAICommandStream(message, doc, { boardId: roomId }, controller.signal)
+        const usageKey = aiUsageKey(req, access)
+        const gen = processAICommandStream(message, doc, {
+          boardId: roomId,
+          userId: access.userId ?? undefined,
+          onUsage: (model, usage) => aiLimiter.recordUsage(usageKey, model, usage),
+          scope: parseAIScope(selectedIds, viewport),
+          requester: usageKey,
+        }, controller.signal)
 
         for await (const event of gen) {
           res.write(`data: ${JSON.stringify(event)}\n\n`)
@@ -423,6 +989,19 @@ const server = http.createServer(async (req, res) => {
 
   res.writeHead(200)
   res.end('CollabBoard y-websocket server')
+}
+
+const server = http.createServer((req, res) => {
+  // Last resort for errors a handler didn't catch, so no request hangs
+  handleHttpRequest(req, res).catch((err) => {
+    console.error('[HTTP] Unhandled error:', err)
+    if (!res.headersSent) {
+      res.writeHead(500, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: 'Internal server error' }))
+    } else {
+      res.end()
+    }
+  })
 })
 
 // ---------------------------------------------------------------------------
@@ -438,7 +1017,7 @@ wss.on('connection', async (ws, req) => {
   // Parse room name and optional auth token from URL: /<room>?token=<jwt>
   const wsUrl = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`)
   const room = wsUrl.pathname.slice(1) || 'default'
-  const _wsToken = wsUrl.searchParams.get('token') // Auth token for future use
+  const wsToken = wsUrl.searchParams.get('token')
 
   // Validate room name
   if (!isValidRoomName(room)) {
@@ -457,13 +1036,85 @@ wss.on('connection', async (ws, req) => {
 
   console.log(`[WS] New connection to room: ${room}`)
 
-  socketRooms.set(ws, room)
   roomLastActive.set(room, Date.now())
 
-  // Queue messages that arrive while the doc is loading from Supabase
+  // Queue messages that arrive while access is checked and the doc loads
   const pendingMessages: Uint8Array[] = []
   let docReady = false
   let doc: Y.Doc
+  let awareness: awarenessProtocol.Awareness
+  let access: RoomAccess | null = null
+
+  // The awareness client ID this socket announced first; later ones must match
+  let awarenessClientId: number | null = null
+
+  /**
+   * Apply a Yjs update if this socket may make it and it is valid (see
+   * validateUpdate); returns false if it was dropped. Viewers' updates are
+   * dropped silently; any other rejected update is answered with the reason.
+   */
+  function applyClientUpdate(payload: Uint8Array): boolean {
+    if (!canComment(access!.role)) return false
+
+    // Commenters may only write to the comments map
+    const check = validateUpdate(doc, payload, canEdit(access!.role) ? undefined : [COMMENTS_MAP], {
+      userId: access!.userId,
+      name: access!.name,
+      owner: access!.role === 'owner',
+    })
+    if (!check.ok) {
+      console.warn(`[WS] Rejected update for room ${room}: ${check.error}`)
+      ws.send(encodePermissionDenied(check.error))
+      return false
+    }
+
+    // The doc's update listener relays it to everyone but this socket.
+    // Step 2 often brings nothing new; only a real change dirties the room.
+    let changed = false
+    const markChanged = () => { changed = true }
+    doc.on('update', markChanged)
+    Y.applyUpdate(doc, payload, ws)
+    doc.off('update', markChanged)
+    if (changed) {
+      dirtyRooms.add(room)
+      roomLastActive.set(room, Date.now())
+    }
+    return true
+  }
+
+  /**
+   * Handle one client message: answer sync step 1, apply updates (relayed
+   * by the doc's update listener) and stamp presence into the room's
+   * Awareness (relayed by its update listener). Dropped messages go nowhere.
+   */
+  function handleClientMessage(data: Uint8Array): void {
+    const message = readClientMessage(data, doc)
+    if (!message) return
+
+    switch (message.type) {
+      case 'sync-step1':
+        ws.send(message.reply)
+        break
+      case 'update':
+        // Viewers' writes, commenters' writes outside comments and invalid
+        // objects are dropped
+        applyClientUpdate(message.update)
+        break
+      case 'awareness': {
+        // Presence carries the verified identity, never the client's claim
+        const stamped = stampAwareness(message.update, { ...access!, canSummon: canEdit(access!.role) }, awarenessClientId)
+        if (!stamped) return
+        awarenessClientId = stamped.clientId
+        awarenessProtocol.applyAwarenessUpdate(awareness, stamped.update, ws)
+        break
+      }
+      case 'query-awareness': {
+        const snapshot = encodeAwarenessSnapshot(awareness)
+        if (snapshot) ws.send(snapshot)
+        break
+      }
+    }
+  }
 
   // Register message handler BEFORE async doc load to avoid dropping messages
   ws.on('message', (raw: Buffer) => {
@@ -482,28 +1133,7 @@ wss.on('connection', async (ws, req) => {
         return
       }
 
-      const msgType = data[0]
-      const payload = data.slice(1)
-
-      // Apply Yjs updates to the server-side doc (keeps state for new clients)
-      if (msgType === MSG_YJS) {
-        // Preemptive check: reject if board is already at the object limit
-        if (shouldRejectUpdate(doc)) {
-          console.warn(`[WS] Rejected update for room ${room}: object limit reached`)
-          return
-        }
-
-        Y.applyUpdate(doc, payload, 'remote')
-        dirtyRooms.add(room)
-        roomLastActive.set(room, Date.now())
-      }
-
-      // Broadcast to all other clients in the same room
-      for (const client of wss.clients) {
-        if (client !== ws && client.readyState === WebSocket.OPEN && socketRooms.get(client) === room) {
-          client.send(data)
-        }
-      }
+      handleClientMessage(data)
     } catch (err) {
       console.error('[WS] Error processing message:', err)
     }
@@ -512,41 +1142,68 @@ wss.on('connection', async (ws, req) => {
   ws.on('close', () => {
     console.log(`[WS] Client disconnected from room: ${room}`)
     socketRooms.delete(ws)
+    socketAccess.delete(ws)
+    // Others see this user leave right away, not after the awareness timeout
+    if (docReady && awarenessClientId !== null) {
+      awarenessProtocol.removeAwarenessStates(awareness, [awarenessClientId], ws)
+    }
   })
 
-  // Load doc (may be async if fetching from Supabase)
-  doc = await getOrCreateDoc(room)
-  docReady = true
+  // Check access before loading anything, so a socket without access can't
+  // bring a room into memory or onto the backplane
+  let roomAccess: RoomAccessResult
+  try {
+    roomAccess = await resolveRoomAccess(room, wsToken)
+  } catch (err) {
+    console.error(`[WS] Failed to check access to room ${room}:`, err)
+    ws.close(1011, 'Server error')
+    return
+  }
 
-  // Process any messages that arrived while loading
-  for (const data of pendingMessages) {
-    const msgType = data[0]
-    const payload = data.slice(1)
+  if (!roomAccess.ok) {
+    console.warn(`[WS] Rejected connection to room ${room} — ${roomAccess.code}`)
+    if (roomAccess.code === 'forbidden') ws.close(WS_CLOSE_NO_ACCESS, 'Access denied')
+    else ws.close(1008, 'Authentication required')
+    return
+  }
 
-    if (msgType === MSG_YJS) {
-      Y.applyUpdate(doc, payload, 'remote')
-      dirtyRooms.add(room)
-    }
+  // Client may have disconnected while we were checking access
+  if (ws.readyState !== WebSocket.OPEN) return
 
-    // Broadcast queued messages to other clients
-    for (const client of wss.clients) {
-      if (client !== ws && client.readyState === WebSocket.OPEN && socketRooms.get(client) === room) {
-        client.send(data)
-      }
-    }
+  let loadedDoc: Y.Doc
+  try {
+    loadedDoc = await getOrCreateDoc(room)
+  } catch (err) {
+    console.error(`[WS] Failed to load room ${room}:`, err)
+    ws.close(1011, 'Server error')
+    return
   }
+  if (ws.readyState !== WebSocket.OPEN) return
 
-  // Send current document state to the new client
-  const state = Y.encodeStateAsUpdate(doc)
-  const initMsg = new Uint8Array(1 + state.length)
-  initMsg[0] = MSG_YJS
-  initMsg.set(state, 1)
+  // Only join the room's broadcast set once access is granted
+  access = roomAccess.access
+  doc = loadedDoc
+  awareness = awarenesses.get(room)!
+  socketRooms.set(ws, room)
+  socketAccess.set(ws, access)
+  docReady = true
 
-  // Client may have disconnected while we were loading the doc
-  if (ws.readyState === WebSocket.OPEN) {
-    ws.send(initMsg)
-    console.log(`[WS] Sent initial state (${state.byteLength} bytes)`)
+  // Process any messages that arrived while loading
+  for (const data of pendingMessages) {
+    try {
+      handleClientMessage(data)
+    } catch (err) {
+      console.error('[WS] Error processing queued message:', err)
+    }
   }
+
+  // Start the handshake: the client answers with whatever we're missing
+  // (and its own step 1 gets only what it's missing back). Then everyone's
+  // presence, so it doesn't wait for the next heartbeat.
+  ws.send(encodeSyncStep1(doc))
+  const presence = encodeAwarenessSnapshot(awareness)
+  if (presence) ws.send(presence)
+  console.log(`[WS] Sent sync step 1 (user: ${access.userId ?? 'guest'}, role: ${access.role})`)
 })
 
 // ---------------------------------------------------------------------------
@@ -555,7 +1212,7 @@ wss.on('connection', async (ws, req) => {
 
 /**
  * Check all rooms for idle timeout and evict them.
- * Before evicting, saves dirty docs to Supabase.
+ * Before evicting, saves dirty docs.
  */
 function evictIdleRooms(): void {
   const now = Date.now()
@@ -577,19 +1234,22 @@ function evictIdleRooms(): void {
       }
 
       const doc = docs.get(room)
-      if (doc) {
-        // Save before evicting if dirty
-        if (dirtyRooms.has(room)) {
-          dirtyRooms.delete(room)
-          saveDocToSupabase(room, doc).catch((err) => {
-            console.error(`[EVICT] Failed to save room ${room} before eviction:`, err)
-          })
-        }
-        doc.destroy()
-      }
+      // Save before evicting if dirty (and ours to save), then hand the room over
+      const save = doc && dirtyRooms.has(room) ? snapshotIfOwner(room, doc) : Promise.resolve()
+      dirtyRooms.delete(room)
+      save
+        .catch((err) => console.error(`[EVICT] Failed to save room ${room} before eviction:`, err))
+        .finally(() => {
+          doc?.destroy()
+          // A client may have reopened the room meanwhile; its subscription stays
+          if (!docs.has(room) && !loadingDocs.has(room)) leaveBackplane(room)
+        })
       docs.delete(room)
+      awarenesses.delete(room)
       loadingDocs.delete(room)
       roomLastActive.delete(room)
+      conversations.forget(room)
+      aiUndo.forget(room)
       console.log(`[EVICT] Evicted idle room: ${room}`)
     }
   }
@@ -605,12 +1265,27 @@ function startEvictionInterval(): void {
   }, EVICTION_CHECK_MS)
 }
 
+/**
+ * Purge boards whose trash retention has run out, now and then hourly.
+ */
+function startTrashSweepInterval(): void {
+  const sweep = () => {
+    sweepTrash()
+      .then((purged) => purged.forEach(dropRoom))
+      .catch((err) => console.error('[Trash] Sweep failed:', err))
+  }
+  sweep()
+  setInterval(sweep, TRASH_SWEEP_INTERVAL_MS)
+}
+
 // ---------------------------------------------------------------------------
 // Start
 // ---------------------------------------------------------------------------
 
 startSnapshotInterval()
+startCheckpointInterval()
 startEvictionInterval()
+startTrashSweepInterval()
 
 // ---------------------------------------------------------------------------
 // Graceful Shutdown — flush Langfuse traces before exit
@@ -627,14 +1302,18 @@ async function gracefulShutdown(signal: string): Promise<void> {
     console.error('[Langfuse] Error flushing traces:', err)
   }
 
-  // Save dirty rooms before exiting
+  // Save dirty rooms we own before exiting, then hand every room over
   for (const room of dirtyRooms) {
     const doc = docs.get(room)
     if (doc) {
-      await saveDocToSupabase(room, doc)
+      await snapshotIfOwner(room, doc)
     }
   }
   dirtyRooms.clear()
+  for (const room of docs.keys()) {
+    await backplane.releaseOwnership(room)
+  }
+  await backplane.close().catch((err) => console.error('[Backplane] Error closing:', err))
 
   process.exit(0)
 }
@@ -644,8 +1323,10 @@ process.on('SIGINT', () => { gracefulShutdown('SIGINT') })
 
 server.listen(PORT, '0.0.0.0', () => {
   console.log(`[WS] y-websocket server running on :${PORT}`)
-  console.log(`[WS] Persistence: ${supabase ? 'Supabase' : 'DISABLED (no env vars)'}`)
+  console.log(`[WS] Persistence: ${persistence.name}`)
+  console.log(`[WS] Backplane: ${backplane.name} (instance ${backplane.instanceId})`)
   console.log(`[WS] Langfuse: ${isLangfuseEnabled() ? 'ENABLED' : 'DISABLED (no env vars)'}`)
   console.log(`[WS] Snapshot interval: ${SNAPSHOT_INTERVAL_MS / 1000}s`)
+  console.log(`[WS] Version checkpoints: every ${CHECKPOINT_INTERVAL_MS / 60_000}m`)
   console.log(`[WS] Room eviction: idle >${ROOM_IDLE_TIMEOUT_MS / 60_000}m, check every ${EVICTION_CHECK_MS / 60_000}m`)
 })
@@ -25,6 +25,10 @@
  *  6. "Set up a retrospective board"
  * 11. "Create a SWOT analysis template with four quadrants"
  * 12. "Build a user journey map with 5 stages"
+ *
+ * When the user has objects selected, manipulation and layout commands act
+ * on the selection only ("make these green" colors every selected object).
+ * New objects without a position go in the middle of the user's viewport.
  */
 
 import * as Y from 'yjs'
@@ -33,9 +37,11 @@ import {
   executeUpdateObject,
   executeMoveObject,
 } from './aiHandler.js'
+import { defaultSizes } from './toolExecutors.js'
 import { extractParamsFromCommand } from './commandCache.js'
 import type { LearnedRecipe } from './commandCache.js'
-import type { ToolAction, BoardObject } from '../../shared/types.js'
+import { readObjects } from './objectText.js'
+import type { ToolAction, BoardObject, AICommandScope } from '../../shared/types.js'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -139,6 +145,20 @@ function extractDirection(msg: string): 'left' | 'right' | 'top' | 'bottom' | nu
 /**
  * Extract stage count from "N stages" pattern.
  */
+/** Where to put a new object so it's centered in the user's viewport. */
+function viewportPosition(
+  scope: AICommandScope | undefined,
+  width: number,
+  height: number,
+): { x: number; y: number } | null {
+  const view = scope?.viewport
+  if (!view) return null
+  return {
+    x: Math.round(view.x + (view.width - width) / 2),
+    y: Math.round(view.y + (view.height - height) / 2),
+  }
+}
+
 function extractStageCount(msg: string): number {
   const match = msg.match(/(\d+)\s+stage/i)
   return match ? parseInt(match[1], 10) : 5 // default 5 stages
@@ -384,15 +404,23 @@ function handleCreateGrid(
 }
 
 function handleArrangeGrid(
-  objectsMap: Y.Map<BoardObject>
+  objectsMap: Y.Map<BoardObject>,
+  selection: BoardObject[] | null,
 ): ParsedCommand {
-  // Find all sticky notes on the board
+  // The selected sticky notes (or, if none are stickies, everything
+  // selected); otherwise all sticky notes on the board
   const stickies: Array<{ id: string; width: number; height: number }> = []
-  objectsMap.forEach((obj: BoardObject, id: string) => {
-    if (obj.type === 'sticky') {
-      stickies.push({ id, width: obj.width || 200, height: obj.height || 150 })
-    }
-  })
+  const selectedStickies = selection?.filter((obj) => obj.type === 'sticky')
+  const candidates = selection ? (selectedStickies!.length > 0 ? selectedStickies! : selection) : null
+  if (candidates) {
+    candidates.forEach((obj) => stickies.push({ id: obj.id, width: obj.width || 200, height: obj.height || 150 }))
+  } else {
+    objectsMap.forEach((obj: BoardObject, id: string) => {
+      if (obj.type === 'sticky') {
+        stickies.push({ id, width: obj.width || 200, height: obj.height || 150 })
+      }
+    })
+  }
 
   if (stickies.length === 0) {
     return {
@@ -403,8 +431,9 @@ function handleArrangeGrid(
 
   const actions: ToolAction[] = []
   const gap = 20
-  const startX = 100
-  const startY = 100
+  // A selection is arranged where it already is: from its top-left corner
+  const startX = candidates ? Math.min(...candidates.map((obj) => obj.x)) : 100
+  const startY = candidates ? Math.min(...candidates.map((obj) => obj.y)) : 100
   const cols = Math.ceil(Math.sqrt(stickies.length))
 
   for (let i = 0; i < stickies.length; i++) {
@@ -418,19 +447,32 @@ function handleArrangeGrid(
   }
 
   return {
-    message: `Arranged ${stickies.length} sticky notes in a neat grid layout.`,
+    message: candidates && candidates !== selectedStickies
+      ? `Arranged ${stickies.length} selected objects in a neat grid layout.`
+      : `Arranged ${stickies.length} ${selection ? 'selected ' : ''}sticky notes in a neat grid layout.`,
     actions,
   }
 }
 
 function handleUpdateColor(
   msg: string,
-  objectsMap: Y.Map<BoardObject>
+  objectsMap: Y.Map<BoardObject>,
+  selection: BoardObject[] | null,
 ): ParsedCommand {
   const color = extractColor(msg)
   if (!color) {
     return { message: "I couldn't determine the color you want. Try specifying a color like red, blue, green, yellow, etc.", actions: [] }
   }
+  const colorName = Object.entries(COLOR_MAP).find(([, v]) => v === color)?.[0] || color
+
+  // "Make these green": every selected object
+  if (selection) {
+    const actions: ToolAction[] = selection.map((obj) => {
+      const input = { id: obj.id, fill: color }
+      return { tool: 'updateObject', input, result: executeUpdateObject(input, objectsMap) }
+    })
+    return { message: `Changed ${selection.length} selected object(s) to ${colorName}.`, actions }
+  }
 
   // Try to find the target object
   const lower = msg.toLowerCase()
@@ -439,7 +481,8 @@ function handleUpdateColor(
   let typeMatchId: string | null = null
 
   // Two-pass: first prioritize text content match, then fall back to type match
-  objectsMap.forEach((obj: BoardObject, id: string) => {
+  readObjects(objectsMap).forEach((obj: BoardObject) => {
+    const id = obj.id
     // Match by text content mentioned in the command (highest priority)
     if (obj.text && lower.includes(obj.text.toLowerCase())) {
       targetId = id
@@ -463,7 +506,7 @@ function handleUpdateColor(
   const actions: ToolAction[] = [{ tool: 'updateObject', input, result }]
 
   return {
-    message: `Changed the color to ${Object.entries(COLOR_MAP).find(([, v]) => v === color)?.[0] || color}.`,
+    message: `Changed the color to ${colorName}.`,
     actions,
   }
 }
@@ -474,10 +517,11 @@ function handleUpdateColor(
 
 function handleCreateFrame(
   msg: string,
-  objectsMap: Y.Map<BoardObject>
+  objectsMap: Y.Map<BoardObject>,
+  scope: AICommandScope | undefined,
 ): ParsedCommand {
   const frameName = extractFrameName(msg) || 'Untitled Frame'
-  const position = extractPosition(msg) || { x: 200, y: 100 }
+  const position = extractPosition(msg) || viewportPosition(scope, 400, 300) || { x: 200, y: 100 }
   const input: Record<string, unknown> = {
     type: 'frame',
     x: position.x,
@@ -500,7 +544,8 @@ function handleCreateFrame(
 
 function handleMoveByColor(
   msg: string,
-  objectsMap: Y.Map<BoardObject>
+  objectsMap: Y.Map<BoardObject>,
+  selection: BoardObject[] | null,
 ): ParsedCommand {
   const color = extractColor(msg)
   const direction = extractDirection(msg)
@@ -508,17 +553,18 @@ function handleMoveByColor(
     return { message: "I couldn't determine the color or direction. Try 'Move all pink stickies to the right'.", actions: [] }
   }
 
-  // Find all objects matching that color
+  // Find all objects (of the selection, if any) matching that color
+  const selectedIds = selection ? new Set(selection.map((obj) => obj.id)) : null
   const matching: Array<{ id: string; x: number; y: number }> = []
   objectsMap.forEach((obj: BoardObject, id: string) => {
-    if (obj.fill === color) {
+    if (obj.fill === color && (!selectedIds || selectedIds.has(id))) {
       matching.push({ id, x: obj.x, y: obj.y })
     }
   })
 
   if (matching.length === 0) {
     const colorName = Object.entries(COLOR_MAP).find(([, v]) => v === color)?.[0] || color
-    return { message: `I couldn't find any ${colorName} objects on the board.`, actions: [] }
+    return { message: `I couldn't find any ${colorName} objects ${selection ? 'in the selection' : 'on the board'}.`, actions: [] }
   }
 
   const actions: ToolAction[] = []
@@ -551,15 +597,19 @@ function handleMoveByColor(
 
 function handleResizeFrame(
   msg: string,
-  objectsMap: Y.Map<BoardObject>
+  objectsMap: Y.Map<BoardObject>,
+  selection: BoardObject[] | null,
 ): ParsedCommand {
   const lower = msg.toLowerCase()
 
-  // Find the target frame
+  // Find the target frame, among the selected frames if there are any
   let targetFrameId: string | null = null
   let targetFrame: BoardObject | null = null
 
-  objectsMap.forEach((obj: BoardObject, id: string) => {
+  const selectedFrames = selection?.filter((obj) => obj.type === 'frame') ?? []
+  const frames = selectedFrames.length > 0 ? selectedFrames : readObjects(objectsMap)
+  frames.forEach((obj: BoardObject) => {
+    const id = obj.id
     if (obj.type !== 'frame') return
 
     // Match by text content if mentioned
@@ -635,25 +685,29 @@ function handleResizeFrame(
 // ---------------------------------------------------------------------------
 
 function handleSpaceEvenly(
-  objectsMap: Y.Map<BoardObject>
+  objectsMap: Y.Map<BoardObject>,
+  selection: BoardObject[] | null,
 ): ParsedCommand {
-  // Collect all non-frame objects
+  // Collect all non-frame objects (of the selection, if any)
   const objects: Array<{ id: string; x: number; y: number; width: number; height: number }> = []
-  objectsMap.forEach((obj: BoardObject, id: string) => {
+  const pool = selection ?? readObjects(objectsMap)
+  pool.forEach((obj: BoardObject) => {
     if (obj.type !== 'frame') {
-      objects.push({ id, x: obj.x, y: obj.y, width: obj.width || 200, height: obj.height || 150 })
+      objects.push({ id: obj.id, x: obj.x, y: obj.y, width: obj.width || 200, height: obj.height || 150 })
     }
   })
 
   if (objects.length < 2) {
-    return { message: 'Need at least 2 objects on the board to space evenly. Create some objects first!', actions: [] }
+    const where = selection ? 'selected' : 'on the board'
+    return { message: `Need at least 2 objects ${where} to space evenly. ${selection ? 'Select some more first!' : 'Create some objects first!'}`, actions: [] }
   }
 
   // Sort by current x position
   objects.sort((a, b) => a.x - b.x)
 
-  // Calculate even spacing across the horizontal range
-  const startX = 100
+  // Calculate even spacing across the horizontal range, starting where a
+  // selection already starts
+  const startX = selection ? objects[0].x : 100
   const endX = startX + (objects.length - 1) * (objects[0].width + 30)
   const spacing = (endX - startX) / (objects.length - 1)
 
@@ -670,7 +724,9 @@ function handleSpaceEvenly(
   }
 
   return {
-    message: `Spaced ${objects.length} elements evenly across the board.`,
+    message: selection
+      ? `Spaced ${objects.length} selected elements evenly.`
+      : `Spaced ${objects.length} elements evenly across the board.`,
     actions,
   }
 }
@@ -773,12 +829,14 @@ function handleJourneyMap(
 
 function handleCreateObject(
   msg: string,
-  objectsMap: Y.Map<BoardObject>
+  objectsMap: Y.Map<BoardObject>,
+  scope: AICommandScope | undefined,
 ): ParsedCommand {
   const objType = extractObjectType(msg)
   const color = extractColor(msg) || (objType === 'sticky' ? '#FFD700' : '#87CEEB')
   const text = extractText(msg)
-  const position = extractPosition(msg) || { x: 200, y: 200 }
+  const size = defaultSizes[objType] ?? { width: 150, height: 100 }
+  const position = extractPosition(msg) || viewportPosition(scope, size.width, size.height) || { x: 200, y: 200 }
 
   const input: Record<string, unknown> = {
     type: objType,
@@ -908,8 +966,12 @@ export function tryDynamicPatterns(
 // Main Parser
 // ---------------------------------------------------------------------------
 
-export function parseCommand(message: string, doc: Y.Doc): ParsedCommand {
+export function parseCommand(message: string, doc: Y.Doc, scope?: AICommandScope): ParsedCommand {
   const objectsMap = doc.getMap('objects') as Y.Map<BoardObject>
+  // The selected objects that still exist; null when nothing is selected
+  const selectedIds = new Set(scope?.selectedIds ?? [])
+  const selected = selectedIds.size > 0 ? readObjects(objectsMap).filter((obj) => selectedIds.has(obj.id)) : []
+  const selection = selected.length > 0 ? selected : null
 
   // Order matters — check most specific/complex patterns first
 
@@ -935,37 +997,37 @@ export function parseCommand(message: string, doc: Y.Doc): ParsedCommand {
 
   // 9. Resize frame to fit contents
   if (isResizeFrameCommand(message)) {
-    return handleResizeFrame(message, objectsMap)
+    return handleResizeFrame(message, objectsMap, selection)
   }
 
   // 10. Space elements evenly
   if (isSpaceEvenlyCommand(message)) {
-    return handleSpaceEvenly(objectsMap)
+    return handleSpaceEvenly(objectsMap, selection)
   }
 
   // 8. Move objects by color to a direction
   if (isMoveByColorCommand(message)) {
-    return handleMoveByColor(message, objectsMap)
+    return handleMoveByColor(message, objectsMap, selection)
   }
 
   // 5. Arrange existing sticky notes in a grid
   if (isArrangeCommand(message)) {
-    return handleArrangeGrid(objectsMap)
+    return handleArrangeGrid(objectsMap, selection)
   }
 
   // 3. Change object color (must come before generic create to avoid "make" false positives)
   if (isUpdateColorCommand(message)) {
-    return handleUpdateColor(message, objectsMap)
+    return handleUpdateColor(message, objectsMap, selection)
   }
 
   // 7. Create a frame with label
   if (isCreateFrameCommand(message)) {
-    return handleCreateFrame(message, objectsMap)
+    return handleCreateFrame(message, objectsMap, scope)
   }
 
   // 1 & 2. Create an object (sticky note, rectangle, circle, etc.)
   if (isCreateCommand(message)) {
-    return handleCreateObject(message, objectsMap)
+    return handleCreateObject(message, objectsMap, scope)
   }
 
   // Try dynamic learned patterns before giving up
@@ -0,0 +1,118 @@
+/**
+ * Server-side access to object text.
+ *
+ * Sticky, text and frame text lives in a Y.Text in the doc's `texts` map
+ * (see shared/collabText.ts). Anything on the server that reads or writes
+ * object text — AI tools, export, import, restore — goes through these
+ * helpers so it sees the same text the clients are editing.
+ *
+ * Boards saved before collaborative text kept `text` as a plain string in
+ * the object JSON. migrateObjectTexts moves those strings into Y.Text when
+ * a room is loaded; until then readers fall back to the JSON string.
+ */
+
+import * as Y from 'yjs'
+import { TEXT_MAP } from '../../shared/constants.js'
+import { diffText, hasCollabText } from '../../shared/collabText.js'
+import type { BoardObject } from '../../shared/types.js'
+
+/** Transaction origin for the load-time move of legacy text into Y.Text. */
+export const TEXT_MIGRATION_ORIGIN = 'text-migration'
+
+function textsOf(objectsMap: Y.Map<BoardObject>): Y.Map<Y.Text> | null {
+  return objectsMap.doc ? objectsMap.doc.getMap<Y.Text>(TEXT_MAP) : null
+}
+
+function withText(obj: BoardObject, texts: Y.Map<Y.Text> | null): BoardObject {
+  const ytext = texts?.get(obj.id)
+  return ytext ? { ...obj, text: ytext.toString() } : obj
+}
+
+/** One object with its collaborative text filled in. */
+export function readObject(objectsMap: Y.Map<BoardObject>, id: string): BoardObject | undefined {
+  const obj = objectsMap.get(id)
+  return obj && withText(obj, textsOf(objectsMap))
+}
+
+/** Every object with its collaborative text filled in. */
+export function readObjects(objectsMap: Y.Map<BoardObject>): BoardObject[] {
+  const texts = textsOf(objectsMap)
+  return Array.from(objectsMap.values(), (obj) => withText(obj, texts))
+}
+
+/** Splice `text` into the object's Y.Text, creating it if needed. */
+function setText(texts: Y.Map<Y.Text>, id: string, text: string): void {
+  let ytext = texts.get(id)
+  if (!ytext) {
+    ytext = new Y.Text()
+    texts.set(id, ytext)
+  }
+  const change = diffText(ytext.toString(), text)
+  if (!change) return
+  if (change.remove > 0) ytext.delete(change.index, change.remove)
+  if (change.insert) ytext.insert(change.index, change.insert)
+}
+
+/**
+ * Write an object, routing collaborative text into its Y.Text. Unchanged
+ * text is left alone, so concurrent typing isn't overwritten by an
+ * unrelated field update that happens to carry the whole object. A new
+ * object gets its Y.Text in the same transaction, even when empty, so no
+ * two clients race to create it later.
+ */
+export function writeObject(objectsMap: Y.Map<BoardObject>, obj: BoardObject): void {
+  const texts = textsOf(objectsMap)
+  if (!texts || !hasCollabText(obj.type) || (obj.text === undefined && objectsMap.has(obj.id))) {
+    objectsMap.set(obj.id, obj)
+    return
+  }
+
+  const { text = '', ...rest } = obj
+  objectsMap.doc!.transact(() => {
+    // A text-only edit must not re-set the JSON: that would race (and could
+    // lose to) a concurrent update of another field
+    const current = objectsMap.get(obj.id)
+    if (!current || !sameFields(current, rest)) objectsMap.set(obj.id, rest)
+    setText(texts, obj.id, text)
+  })
+}
+
+function sameFields(a: object, b: object): boolean {
+  const keys = (o: object) => Object.keys(o).sort()
+  return JSON.stringify(a, keys(a)) === JSON.stringify(b, keys(b))
+}
+
+/** Delete an object and its text. */
+export function deleteObject(objectsMap: Y.Map<BoardObject>, id: string): void {
+  const texts = textsOf(objectsMap)
+  objectsMap.delete(id)
+  texts?.delete(id)
+}
+
+/**
+ * Move legacy plain-string text into Y.Text and drop Y.Text entries whose
+ * object is gone. Returns the number of objects changed; 0 means the doc
+ * was already up to date and nothing was written.
+ */
+export function migrateObjectTexts(doc: Y.Doc): number {
+  const objectsMap = doc.getMap<BoardObject>('objects')
+  const texts = doc.getMap<Y.Text>(TEXT_MAP)
+
+  const legacy = Array.from(objectsMap.values()).filter(
+    (obj) => hasCollabText(obj.type) && typeof obj.text === 'string',
+  )
+  const orphans = Array.from(texts.keys()).filter((id) => !objectsMap.has(id))
+  if (legacy.length === 0 && orphans.length === 0) return 0
+
+  doc.transact(() => {
+    for (const obj of legacy) {
+      const { text, ...rest } = obj
+      objectsMap.set(obj.id, rest)
+      // A Y.Text that already exists wins — a client may have migrated it
+      if (!texts.has(obj.id)) setText(texts, obj.id, text!)
+    }
+    for (const id of orphans) texts.delete(id)
+  }, TEXT_MIGRATION_ORIGIN)
+
+  return legacy.length + orphans.length
+}
@@ -0,0 +1,90 @@
+/**
+ * BoardObject Validation
+ *
+ * Checks untrusted values (imported files, converted diagrams, objects
+ * written by clients) against the shared BoardObject type, within size
+ * limits. Valid values come back as a clean copy holding only known
+ * fields, so stray properties never reach the Yjs doc.
+ */
+
+import type { BoardObject, ObjectType } from '../../shared/types.js'
+
+/** Longest text an object may hold, in characters. */
+export const MAX_OBJECT_TEXT_LENGTH = 10_000
+
+/** Largest width or height, in board units. */
+export const MAX_OBJECT_DIMENSION = 100_000
+
+const OBJECT_TYPES: ReadonlySet<string> = new Set<ObjectType>([
+  'sticky', 'rect', 'circle', 'text', 'frame', 'line',
+])
+
+export type ObjectValidation =
+  | { ok: true; object: BoardObject }
+  | { ok: false; error: string }
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+/**
+ * Validate one object. Errors name the offending field, e.g.
+ * "width must be a finite number".
+ */
+export function validateBoardObject(value: unknown): ObjectValidation {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, error: 'must be an object' }
+  }
+  const v = value as Record<string, unknown>
+
+  if (typeof v.id !== 'string' || !v.id) return { ok: false, error: 'id must be a non-empty string' }
+  if (typeof v.type !== 'string' || !OBJECT_TYPES.has(v.type)) {
+    return { ok: false, error: `type must be one of: ${[...OBJECT_TYPES].join(', ')}` }
+  }
+  for (const field of ['x', 'y', 'width', 'height'] as const) {
+    if (!isFiniteNumber(v[field])) return { ok: false, error: `${field} must be a finite number` }
+  }
+  if ((v.width as number) < 0 || (v.height as number) < 0) {
+    return { ok: false, error: 'width and height must not be negative' }
+  }
+  if ((v.width as number) > MAX_OBJECT_DIMENSION || (v.height as number) > MAX_OBJECT_DIMENSION) {
+    return { ok: false, error: `width and height must be at most ${MAX_OBJECT_DIMENSION}` }
+  }
+  if (typeof v.fill !== 'string') return { ok: false, error: 'fill must be a string' }
+
+  const object: BoardObject = {
+    id: v.id,
+    type: v.type as ObjectType,
+    x: v.x as number,
+    y: v.y as number,
+    width: v.width as number,
+    height: v.height as number,
+    fill: v.fill,
+  }
+
+  for (const field of ['text', 'fromId', 'toId', 'parentId'] as const) {
+    if (v[field] === undefined) continue
+    if (typeof v[field] !== 'string') return { ok: false, error: `${field} must be a string` }
+    object[field] = v[field] as string
+  }
+  if (object.text !== undefined && object.text.length > MAX_OBJECT_TEXT_LENGTH) {
+    return { ok: false, error: `text must be at most ${MAX_OBJECT_TEXT_LENGTH} characters` }
+  }
+  for (const field of ['fontSize', 'rotation'] as const) {
+    if (v[field] === undefined) continue
+    if (!isFiniteNumber(v[field])) return { ok: false, error: `${field} must be a finite number` }
+    object[field] = v[field] as number
+  }
+  if (v.arrowEnd !== undefined) {
+    if (typeof v.arrowEnd !== 'boolean') return { ok: false, error: 'arrowEnd must be a boolean' }
+    object.arrowEnd = v.arrowEnd
+  }
+  if (v.points !== undefined) {
+    if (!Array.isArray(v.points) || v.points.length !== 4 || !v.points.every(isFiniteNumber)) {
+      return { ok: false, error: 'points must be an array of 4 finite numbers' }
+    }
+    object.points = [...v.points]
+  }
+
+  return { ok: true, object }
+}
@@ -2,20 +2,97 @@
  * Board CRUD REST Handlers
  *
  * All handlers receive (req, res) and handle auth internally.
- * Team model: all boards visible to all users, only owner can rename/delete.
+ * Storage goes through the configured PersistenceAdapter (Supabase, file,
+ * SQLite or memory), so the API works offline too.
+ * Access model: users see the boards they own or are members of (see
+ * ../access.ts); only the owner can rename/delete or mark a board as a
+ * template, and anyone who can see a board can duplicate it. Favorites and folders
+ * are per user, so anyone who can see a board can organise it. Deleting a
+ * board moves it to the owner's trash (see ./trash.ts); trashed boards are
+ * left out of every listing here.
  */
 
 import http from 'http'
-import { authenticateRequest } from '../auth.js'
-import { supabase } from '../db/supabase.js'
+import * as Y from 'yjs'
+import { authenticateRequest, getUserDisplayName } from '../auth.js'
+import { persistence, type BoardRecord, type BoardPreferenceChanges } from '../db/persistence.js'
+import { requireBoardRole } from '../access.js'
+import { compareBoards } from '../db/boardQuery.js'
+import type { DocLoader } from './versions.js'
+import { isTrashed, purgeAt } from '../trash.js'
 
 // ---------------------------------------------------------------------------
-// GET /api/boards — List all boards
+// GET /api/boards — List the boards the user can access
 // ---------------------------------------------------------------------------
 
+/** Orders GET /api/boards understands. `updated` (last edited) is the default. */
+export const BOARD_SORTS = ['updated', 'created', 'name', 'owner'] as const
+export type BoardSort = (typeof BOARD_SORTS)[number]
+
+export const DEFAULT_PAGE_SIZE = 24
+export const MAX_PAGE_SIZE = 100
+export const MAX_QUERY_LENGTH = 200
+export const MAX_FOLDER_LENGTH = 64
+
+interface BoardListQuery {
+  q: string
+  sort: BoardSort
+  folder: string | null
+  favorites: boolean
+  templates: boolean
+  limit: number
+  offset: number
+}
+
+function isBoardSort(value: string): value is BoardSort {
+  return (BOARD_SORTS as readonly string[]).includes(value)
+}
+
+function parseListQuery(params: URLSearchParams): { ok: true; query: BoardListQuery } | { ok: false; error: string } {
+  const q = (params.get('q') ?? '').trim()
+  if (q.length > MAX_QUERY_LENGTH) {
+    return { ok: false, error: `Search must be at most ${MAX_QUERY_LENGTH} characters` }
+  }
+  const sort = params.get('sort') ?? 'updated'
+  if (!isBoardSort(sort)) {
+    return { ok: false, error: `Sort must be one of: ${BOARD_SORTS.join(', ')}` }
+  }
+  const limit = Number(params.get('limit') ?? DEFAULT_PAGE_SIZE)
+  const offset = Number(params.get('offset') ?? 0)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { ok: false, error: `Limit must be an integer from 1 to ${MAX_PAGE_SIZE}` }
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return { ok: false, error: 'Offset must be a non-negative integer' }
+  }
+  return {
+    ok: true,
+    query: {
+      q,
+      sort,
+      folder: params.get('folder')?.trim() || null,
+      favorites: params.get('favorites') === 'true',
+      templates: params.get('templates') === 'true',
+      limit,
+      offset,
+    },
+  }
+}
+
+/**
+ * Filtered, sorted and paginated by the store (see listUserBoards). `q`
+ * matches board names and, through the search index (see
+ * ../boardSearch.ts), the text on the board; `templates=true` keeps only
+ * templates, for the "New from template" picker. Each board carries the
+ * caller's role, favorite flag and folder; `folders` lists every folder the
+ * caller has filed a visible board in, for the folder picker. Owner names
+ * live in Clerk, not the store, so `sort=owner` sorts the caller's matching
+ * boards here.
+ */
 export async function handleListBoards(
   req: http.IncomingMessage,
   res: http.ServerResponse,
+  params: URLSearchParams = new URLSearchParams(),
 ): Promise<void> {
   const user = await authenticateRequest(req)
   if (!user) {
@@ -24,19 +101,149 @@ export async function handleListBoards(
     return
   }
 
-  const { data: boards, error } = await supabase!
-    .from('boards')
-    .select('*')
-    .order('created_at', { ascending: false })
+  const parsed = parseListQuery(params)
+  if (!parsed.ok) {
+    res.writeHead(400, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: parsed.error }))
+    return
+  }
+  const { query } = parsed
 
-  if (error) {
+  try {
+    const [memberships, preferences] = await Promise.all([
+      persistence.listMemberships(user.userId),
+      persistence.listBoardPreferences(user.userId),
+    ])
+    const memberRoles = new Map(memberships.map((m) => [m.board_id, m.role]))
+    const prefs = new Map(preferences.map((p) => [p.board_id, p]))
+    const visible = { userId: user.userId, memberOf: memberships.map((m) => m.board_id) }
+
+    const picked = preferences.filter((p) =>
+      (!query.favorites || p.favorite) && (!query.folder || p.folder === query.folder))
+    const byOwner = query.sort === 'owner'
+    const filed = preferences.filter((p) => p.folder).map((p) => p.board_id)
+    const [page, filedBoards] = await Promise.all([
+      persistence.listUserBoards({
+        ...visible,
+        ids: query.favorites || query.folder ? picked.map((p) => p.board_id) : null,
+        templates: query.templates,
+        q: query.q,
+        order: query.sort === 'owner' ? 'updated' : query.sort,
+        page: byOwner ? null : { offset: query.offset, limit: query.limit },
+      }),
+      filed.length > 0
+        ? persistence.listUserBoards({ ...visible, ids: filed, templates: false, q: '', order: 'updated', page: null })
+        : Promise.resolve({ boards: [], total: 0 }),
+    ])
+    const folders = [...new Set(filedBoards.boards.map((b) => prefs.get(b.id)!.folder!))]
+      .sort((a, b) => a.localeCompare(b))
+
+    let boards = page.boards.map((board) => {
+      const pref = prefs.get(board.id)
+      return {
+        ...board,
+        role: board.owner_id === user.userId ? 'owner' : memberRoles.get(board.id),
+        favorite: pref?.favorite ?? false,
+        folder: pref?.folder ?? null,
+      }
+    })
+    if (byOwner) {
+      const ownerNames = await resolveOwnerNames(boards.map((b) => b.owner_id))
+      boards = boards
+        .map((b) => ({ ...b, owner_name: ownerNames.get(b.owner_id) ?? null }))
+        .sort(compareOwners(ownerNames))
+        .slice(query.offset, query.offset + query.limit)
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({
+      boards,
+      total: page.total,
+      offset: query.offset,
+      limit: query.limit,
+      folders,
+    }))
+  } catch {
     res.writeHead(500, { 'Content-Type': 'application/json' })
     res.end(JSON.stringify({ error: 'Failed to fetch boards' }))
+  }
+}
+
+/** Display names for owners, falling back to the raw ID when Clerk has none. */
+async function resolveOwnerNames(ownerIds: string[]): Promise<Map<string, string>> {
+  const unique = [...new Set(ownerIds)]
+  const names = await Promise.all(unique.map((id) => getUserDisplayName(id)))
+  return new Map(unique.map((id, i) => [id, names[i] ?? id]))
+}
+
+/** By owner name, then latest edit first, as the store orders ties. */
+function compareOwners(ownerNames: Map<string, string>) {
+  const byUpdated = compareBoards('updated')
+  return (a: BoardRecord, b: BoardRecord) =>
+    (ownerNames.get(a.owner_id) ?? a.owner_id).localeCompare(
+      ownerNames.get(b.owner_id) ?? b.owner_id, undefined, { sensitivity: 'base' },
+    ) || byUpdated(a, b)
+}
+
+// ---------------------------------------------------------------------------
+// PATCH /api/boards/:id/preferences — Favorite or file a board (per user)
+// ---------------------------------------------------------------------------
+
+/**
+ * Body: `{ favorite?: boolean, folder?: string | null }`. An empty folder
+ * name removes the board from its folder. Anyone who can see a board can
+ * organise it on their own dashboard.
+ */
+export async function handleSetBoardPreference(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+  body: string,
+): Promise<void> {
+  const access = await requireBoardRole(req, res, boardId, 'viewer')
+  if (!access) return
+
+  const changes: BoardPreferenceChanges = {}
+  let error: string | null = null
+  try {
+    const parsed = JSON.parse(body)
+    if (parsed.favorite !== undefined) {
+      if (typeof parsed.favorite === 'boolean') changes.favorite = parsed.favorite
+      else error = 'favorite must be a boolean'
+    }
+    if (parsed.folder !== undefined) {
+      if (parsed.folder === null || typeof parsed.folder === 'string') {
+        changes.folder = parsed.folder?.trim() || null
+        if ((changes.folder?.length ?? 0) > MAX_FOLDER_LENGTH) {
+          error = `folder must be at most ${MAX_FOLDER_LENGTH} characters`
+        }
+      } else {
+        error = 'folder must be a string or null'
+      }
+    }
+  } catch {
+    error = 'Invalid JSON'
+  }
+  if (!error && changes.favorite === undefined && changes.folder === undefined) {
+    error = 'Nothing to update: send favorite and/or folder'
+  }
+  if (error) {
+    res.writeHead(400, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error }))
+    return
+  }
+
+  let preference
+  try {
+    preference = await persistence.setBoardPreference(boardId, access.user.userId, changes)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to save preference' }))
     return
   }
 
   res.writeHead(200, { 'Content-Type': 'application/json' })
-  res.end(JSON.stringify({ boards: boards ?? [] }))
+  res.end(JSON.stringify({ preference }))
 }
 
 // ---------------------------------------------------------------------------
@@ -65,13 +272,10 @@ export async function handleCreateBoard(
     // Use default name
   }
 
-  const { data: board, error } = await supabase!
-    .from('boards')
-    .insert({ owner_id: user.userId, name })
-    .select('*')
-    .single()
-
-  if (error) {
+  let board
+  try {
+    board = await persistence.createBoard(user.userId, name)
+  } catch {
     res.writeHead(500, { 'Content-Type': 'application/json' })
     res.end(JSON.stringify({ error: 'Failed to create board' }))
     return
@@ -81,6 +285,62 @@ export async function handleCreateBoard(
   res.end(JSON.stringify({ board }))
 }
 
+// ---------------------------------------------------------------------------
+// GET /api/boards/:id — Fetch a board with the caller's role
+// ---------------------------------------------------------------------------
+
+export async function handleGetBoard(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+): Promise<void> {
+  const access = await requireBoardRole(req, res, boardId, 'viewer')
+  if (!access) return
+
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ board: { ...access.board, role: access.role } }))
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/boards/:id/thumbnail — Dashboard preview PNG
+// ---------------------------------------------------------------------------
+
+/**
+ * Rendered on every snapshot save (see ../thumbnails.ts). Clients add
+ * `?v=<updated_at>` so a new thumbnail gets a new URL, which lets the
+ * image be cached aggressively.
+ */
+export async function handleGetThumbnail(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+): Promise<void> {
+  const access = await requireBoardRole(req, res, boardId, 'viewer')
+  if (!access) return
+
+  let png: Uint8Array | null
+  try {
+    png = await persistence.loadThumbnail(boardId)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to load thumbnail' }))
+    return
+  }
+
+  if (!png) {
+    res.writeHead(404, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'No thumbnail yet' }))
+    return
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'image/png',
+    'Content-Length': png.byteLength,
+    'Cache-Control': 'private, max-age=31536000, immutable',
+  })
+  res.end(Buffer.from(png))
+}
+
 // ---------------------------------------------------------------------------
 // PATCH /api/boards/:id — Rename a board (owner only)
 // ---------------------------------------------------------------------------
@@ -99,13 +359,16 @@ export async function handleRenameBoard(
   }
 
   // Check ownership
-  const { data: board, error: fetchError } = await supabase!
-    .from('boards')
-    .select('id, owner_id')
-    .eq('id', boardId)
-    .single()
+  let board: BoardRecord | null
+  try {
+    board = await persistence.getBoard(boardId)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to fetch board' }))
+    return
+  }
 
-  if (fetchError || !board) {
+  if (!board || isTrashed(board)) {
     res.writeHead(404, { 'Content-Type': 'application/json' })
     res.end(JSON.stringify({ error: 'Board not found' }))
     return
@@ -128,12 +391,9 @@ export async function handleRenameBoard(
     return
   }
 
-  const { error: updateError } = await supabase!
-    .from('boards')
-    .update({ name, updated_at: new Date().toISOString() })
-    .eq('id', boardId)
-
-  if (updateError) {
+  try {
+    await persistence.renameBoard(boardId, name)
+  } catch {
     res.writeHead(500, { 'Content-Type': 'application/json' })
     res.end(JSON.stringify({ error: 'Failed to rename board' }))
     return
@@ -144,7 +404,89 @@ export async function handleRenameBoard(
 }
 
 // ---------------------------------------------------------------------------
-// DELETE /api/boards/:id — Delete a board (owner only)
+// PUT/DELETE /api/boards/:id/template — Mark or unmark a template (owner only)
+// ---------------------------------------------------------------------------
+
+export async function handleSetTemplate(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+  isTemplate: boolean,
+): Promise<void> {
+  const access = await requireBoardRole(req, res, boardId, 'owner')
+  if (!access) return
+
+  try {
+    await persistence.setBoardTemplate(boardId, isTemplate)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to update board' }))
+    return
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ board: { ...access.board, is_template: isTemplate, role: access.role } }))
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/boards/:id/duplicate — Copy a board (or start one from a template)
+// ---------------------------------------------------------------------------
+
+/**
+ * Body: `{ name?: string }`, defaulting to "<name> (copy)". The copy gets
+ * the source's full Yjs state — taken from the live doc, so unsaved edits
+ * come along — and its thumbnail; it belongs to the caller and is never a
+ * template itself. Returns the new board's ID so the caller can mark the
+ * room dirty, or null on failure.
+ */
+export async function handleDuplicateBoard(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+  body: string,
+  getDoc: DocLoader,
+): Promise<string | null> {
+  const access = await requireBoardRole(req, res, boardId, 'viewer')
+  if (!access) return null
+
+  let name = `${access.board.name} (copy)`
+  try {
+    const parsed = body ? JSON.parse(body) : {}
+    if (typeof parsed.name === 'string' && parsed.name.trim()) name = parsed.name.trim()
+  } catch {
+    res.writeHead(400, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Invalid JSON' }))
+    return null
+  }
+
+  let board
+  try {
+    const state = Y.encodeStateAsUpdate(await getDoc(boardId))
+    board = await persistence.createBoard(access.user.userId, name)
+    Y.applyUpdate(await getDoc(board.id), state)
+  } catch (err) {
+    console.error(`[Boards] Failed to duplicate board ${boardId}:`, err)
+    if (board) await persistence.deleteBoard(board.id).catch(() => {})
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to duplicate board' }))
+    return null
+  }
+
+  // The copy looks the same, so reuse the thumbnail until its first snapshot
+  try {
+    const png = await persistence.loadThumbnail(boardId)
+    if (png) await persistence.saveThumbnail(board.id, png)
+  } catch {
+    // Rendered on the next snapshot instead
+  }
+
+  res.writeHead(201, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ board: { ...((await persistence.getBoard(board.id).catch(() => null)) ?? board), role: 'owner' } }))
+  return board.id
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/boards/:id — Move a board to the trash (owner only)
 // ---------------------------------------------------------------------------
 
 export async function handleDeleteBoard(
@@ -160,13 +502,16 @@ export async function handleDeleteBoard(
   }
 
   // Check ownership
-  const { data: board, error: fetchError } = await supabase!
-    .from('boards')
-    .select('id, owner_id')
-    .eq('id', boardId)
-    .single()
+  let board: BoardRecord | null
+  try {
+    board = await persistence.getBoard(boardId)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to fetch board' }))
+    return
+  }
 
-  if (fetchError || !board) {
+  if (!board || isTrashed(board)) {
     res.writeHead(404, { 'Content-Type': 'application/json' })
     res.end(JSON.stringify({ error: 'Board not found' }))
     return
@@ -178,24 +523,16 @@ export async function handleDeleteBoard(
     return
   }
 
-  // Delete the snapshot first (not foreign-keyed, uses board_id TEXT)
-  await supabase!
-    .from('board_snapshots')
-    .delete()
-    .eq('board_id', boardId)
-
-  // Delete the board
-  const { error: deleteError } = await supabase!
-    .from('boards')
-    .delete()
-    .eq('id', boardId)
-
-  if (deleteError) {
+  // Moves the board to the trash; it is purged after TRASH_RETENTION_MS (see routes/trash.ts)
+  const trashed = { ...board, deleted_at: new Date().toISOString() }
+  try {
+    await persistence.setBoardDeleted(boardId, trashed.deleted_at)
+  } catch {
     res.writeHead(500, { 'Content-Type': 'application/json' })
     res.end(JSON.stringify({ error: 'Failed to delete board' }))
     return
   }
 
   res.writeHead(200, { 'Content-Type': 'application/json' })
-  res.end(JSON.stringify({ success: true }))
+  res.end(JSON.stringify({ success: true, purge_at: purgeAt(trashed) }))
 }
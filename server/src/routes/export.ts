@@ -0,0 +1,78 @@
+/**
+ * Board Export REST Handler
+ *
+ *  - GET /api/boards/:id/export?format=svg|png|pdf|json[&frame=<frameId>]
+ *
+ * Viewers and above can export. Reads the live doc, so the file matches
+ * what collaborators currently see. `frame` limits the export to one frame
+ * and its contents. `json` is a versioned BoardDocument that the import
+ * endpoints accept (see ../boardJson.ts).
+ */
+
+import http from 'http'
+import * as Y from 'yjs'
+import { requireBoardRole } from '../access.js'
+import { exportBoard, isExportFormat, selectExportObjects, EXPORT_FORMATS } from '../boardExport.js'
+import { serializeBoard } from '../boardJson.js'
+import { readObjects } from '../objectText.js'
+import type { DocLoader } from './versions.js'
+import type { BoardObject } from '../../../shared/types.js'
+
+export async function handleExportBoard(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+  query: URLSearchParams,
+  getDoc: DocLoader,
+): Promise<void> {
+  const format = query.get('format') ?? 'svg'
+  if (format !== 'json' && !isExportFormat(format)) {
+    res.writeHead(400, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: `Format must be one of: ${[...EXPORT_FORMATS, 'json'].join(', ')}` }))
+    return
+  }
+
+  const access = await requireBoardRole(req, res, boardId, 'viewer')
+  if (!access) return
+
+  let allObjects: BoardObject[]
+  try {
+    const doc = await getDoc(boardId)
+    allObjects = readObjects(doc.getMap('objects') as Y.Map<BoardObject>)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to load board' }))
+    return
+  }
+
+  const frameId = query.get('frame') ?? undefined
+  const objects = selectExportObjects(allObjects, frameId)
+  if (!objects) {
+    res.writeHead(404, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Frame not found' }))
+    return
+  }
+
+  const disposition = `attachment; filename="${exportFileName(access.board.name)}.${format}"`
+
+  if (format === 'json') {
+    res.writeHead(200, { 'Content-Type': 'application/json', 'Content-Disposition': disposition })
+    res.end(JSON.stringify(serializeBoard(access.board, objects), null, 2))
+    return
+  }
+
+  try {
+    const { body, contentType } = await exportBoard(objects, format, allObjects)
+    res.writeHead(200, { 'Content-Type': contentType, 'Content-Disposition': disposition })
+    res.end(body)
+  } catch (err) {
+    console.error(`[Export] Failed to export board ${boardId} as ${format}:`, err)
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to export board' }))
+  }
+}
+
+/** A header-safe file name from the board name. */
+function exportFileName(name: string): string {
+  return name.replace(/[^A-Za-z0-9 _-]+/g, '').trim().replace(/\s+/g, '-') || 'board'
+}
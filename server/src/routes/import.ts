@@ -0,0 +1,179 @@
+/**
+ * Board Import REST Handlers
+ *
+ *  - POST /api/boards/import       — create a new board from a file
+ *  - POST /api/boards/:id/import   — add a file's objects to an existing board
+ *
+ * Body: { document, source?, name?: string, offset?: { x, y }, at?: { x, y } }
+ *  - document is a BoardDocument, an Excalidraw file, Miro export JSON or
+ *    Mermaid flowchart text (see ../importers/)
+ *  - source ('collabboard' | 'excalidraw' | 'mermaid' | 'miro') is detected
+ *    from the document when omitted
+ *  - name (new board only) defaults to the document's board name
+ *  - offset (existing board only) shifts every imported object
+ *  - at (existing board only) places the imported content's top-left corner
+ *    at a board point, e.g. where a file was dropped; excludes offset
+ *
+ * Any signed-in user can import into a new board they will own; importing
+ * into an existing board needs editor access. Objects get fresh IDs (see
+ * ../boardJson.ts), so importing the same file twice never collides.
+ */
+
+import http from 'http'
+import { authenticateRequest } from '../auth.js'
+import { persistence } from '../db/persistence.js'
+import { requireBoardRole } from '../access.js'
+import { remapObjects, writeObjects } from '../boardJson.js'
+import { convertImport, detectImportSource, isImportSource, IMPORT_SOURCES } from '../importers/index.js'
+import { MAX_OBJECTS_PER_BOARD } from '../security.js'
+import type { DocLoader } from './versions.js'
+import type { BoardObject } from '../../../shared/types.js'
+
+interface ImportRequest {
+  objects: BoardObject[]
+  name: string
+  offset: { x: number; y: number }
+}
+
+/** Parse and validate an import body. Sends 400 and returns null if invalid. */
+function parseImportRequest(res: http.ServerResponse, body: string): ImportRequest | null {
+  const fail = (error: string) => {
+    res.writeHead(400, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error }))
+    return null
+  }
+
+  let parsed: Record<string, unknown>
+  try {
+    parsed = JSON.parse(body)
+    if (!parsed || typeof parsed !== 'object') throw new Error('Not an object')
+  } catch {
+    return fail('Request body must be a JSON object')
+  }
+
+  if (parsed.source !== undefined && !isImportSource(parsed.source)) {
+    return fail(`source must be one of: ${IMPORT_SOURCES.join(', ')}`)
+  }
+  const source = parsed.source ?? detectImportSource(parsed.document)
+  if (!source) return fail(`Unrecognized file format (supported: ${IMPORT_SOURCES.join(', ')})`)
+
+  const converted = convertImport(parsed.document, source)
+  if (!converted.ok) return fail(converted.error)
+  const { objects } = converted.value
+
+  const point = (field: 'offset' | 'at') => {
+    const o = parsed[field] as Record<string, unknown> | null
+    if (!o || !Number.isFinite(o.x) || !Number.isFinite(o.y)) return null
+    return { x: o.x as number, y: o.y as number }
+  }
+
+  let offset = { x: 0, y: 0 }
+  if (parsed.offset !== undefined && parsed.at !== undefined) {
+    return fail('Send either offset or at, not both')
+  }
+  if (parsed.offset !== undefined) {
+    const o = point('offset')
+    if (!o) return fail('offset must be { x, y } with finite numbers')
+    offset = o
+  }
+  if (parsed.at !== undefined) {
+    const at = point('at')
+    if (!at) return fail('at must be { x, y } with finite numbers')
+    if (objects.length > 0) {
+      offset = {
+        x: at.x - Math.min(...objects.map((o) => o.x)),
+        y: at.y - Math.min(...objects.map((o) => o.y)),
+      }
+    }
+  }
+
+  const name = typeof parsed.name === 'string' && parsed.name.trim()
+    ? parsed.name.trim()
+    : converted.value.name.trim() || 'Imported Board'
+
+  return { objects, name, offset }
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/boards/import — Create a board from a file
+// ---------------------------------------------------------------------------
+
+/** Returns the new board's ID on success, so the caller can schedule a snapshot. */
+export async function handleImportBoard(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  body: string,
+  getDoc: DocLoader,
+): Promise<string | null> {
+  const user = await authenticateRequest(req)
+  if (!user) {
+    res.writeHead(401, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Authentication required' }))
+    return null
+  }
+
+  const request = parseImportRequest(res, body)
+  if (!request) return null
+
+  let board
+  try {
+    board = await persistence.createBoard(user.userId, request.name)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to create board' }))
+    return null
+  }
+
+  try {
+    const doc = await getDoc(board.id)
+    writeObjects(doc, remapObjects(request.objects))
+  } catch (err) {
+    console.error(`[Import] Failed to write objects to new board ${board.id}:`, err)
+    await persistence.deleteBoard(board.id).catch(() => {})
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to import board' }))
+    return null
+  }
+
+  res.writeHead(201, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ board: { ...board, role: 'owner' }, imported: request.objects.length }))
+  return board.id
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/boards/:id/import — Add a file's objects to a board
+// ---------------------------------------------------------------------------
+
+export async function handleImportIntoBoard(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+  body: string,
+  getDoc: DocLoader,
+): Promise<void> {
+  const access = await requireBoardRole(req, res, boardId, 'editor')
+  if (!access) return
+
+  const request = parseImportRequest(res, body)
+  if (!request) return
+
+  const objects = remapObjects(request.objects, request.offset)
+  let written: boolean
+  try {
+    written = writeObjects(await getDoc(boardId), objects)
+  } catch (err) {
+    console.error(`[Import] Failed to write objects to board ${boardId}:`, err)
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to import board' }))
+    return
+  }
+
+  if (!written) {
+    res.writeHead(400, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: `Import would exceed the limit of ${MAX_OBJECTS_PER_BOARD} objects per board` }))
+    return
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ imported: objects.length, ids: objects.map((o) => o.id) }))
+}
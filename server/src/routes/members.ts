@@ -0,0 +1,320 @@
+/**
+ * Board Membership & Invite REST Handlers
+ *
+ *  - GET    /api/boards/:id/members               — list members with display names (any role)
+ *  - PUT    /api/boards/:id/members/:userId       — grant or change a role (owner)
+ *  - DELETE /api/boards/:id/members/:userId       — remove a member (owner, or the member themselves)
+ *  - GET    /api/boards/:id/invites               — list invite links (owner)
+ *  - POST   /api/boards/:id/invites               — create an invite link (owner)
+ *  - DELETE /api/boards/:id/invites/:token        — revoke an invite link (owner)
+ *  - POST   /api/invites/:token/accept            — join a board through a link
+ *
+ * Accepting an invite never downgrades an existing role. Member names are
+ * what comment @mentions match against.
+ */
+
+import http from 'http'
+import { authenticateRequest, getUserDisplayName } from '../auth.js'
+import { persistence, type BoardInvite, type BoardRecord } from '../db/persistence.js'
+import {
+  requireBoardRole,
+  resolveBoardRole,
+  hasRole,
+  isMemberRole,
+  generateInviteToken,
+  isInviteExpired,
+  MAX_INVITE_EXPIRY_HOURS,
+} from '../access.js'
+import { isTrashed } from '../trash.js'
+
+// ---------------------------------------------------------------------------
+// GET /api/boards/:id/members — List members
+// ---------------------------------------------------------------------------
+
+export async function handleListMembers(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+): Promise<void> {
+  const access = await requireBoardRole(req, res, boardId, 'viewer')
+  if (!access) return
+
+  let members
+  try {
+    members = await persistence.listMembers(boardId)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to fetch members' }))
+    return
+  }
+
+  // Unknown names fall back to null; the client shows the user ID instead
+  const [ownerName, ...memberNames] = await Promise.all(
+    [access.board.owner_id, ...members.map((m) => m.user_id)].map((id) => getUserDisplayName(id)),
+  )
+
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({
+    owner_id: access.board.owner_id,
+    owner_name: ownerName,
+    role: access.role,
+    members: members.map((m, i) => ({ ...m, name: memberNames[i] })),
+  }))
+}
+
+// ---------------------------------------------------------------------------
+// PUT /api/boards/:id/members/:userId — Grant or change a role (owner only)
+// ---------------------------------------------------------------------------
+
+export async function handleSetMember(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+  userId: string,
+  body: string,
+): Promise<void> {
+  const access = await requireBoardRole(req, res, boardId, 'owner')
+  if (!access) return
+
+  if (userId === access.board.owner_id) {
+    res.writeHead(400, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: "The owner's role cannot be changed" }))
+    return
+  }
+
+  let role: unknown
+  try {
+    role = JSON.parse(body).role
+  } catch {
+    // Falls through to the validation error below
+  }
+  if (!isMemberRole(role)) {
+    res.writeHead(400, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Role must be editor, commenter or viewer' }))
+    return
+  }
+
+  try {
+    const member = await persistence.setMember(boardId, userId, role)
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ member }))
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to update member' }))
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/boards/:id/members/:userId — Remove a member
+// ---------------------------------------------------------------------------
+
+export async function handleRemoveMember(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+  userId: string,
+): Promise<void> {
+  const access = await requireBoardRole(req, res, boardId, 'viewer')
+  if (!access) return
+
+  // Members may leave a board on their own; only the owner removes others
+  if (access.role !== 'owner' && access.user.userId !== userId) {
+    res.writeHead(403, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Only the board owner can remove members' }))
+    return
+  }
+
+  if (userId === access.board.owner_id) {
+    res.writeHead(400, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'The owner cannot be removed' }))
+    return
+  }
+
+  try {
+    await persistence.removeMember(boardId, userId)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to remove member' }))
+    return
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ success: true }))
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/boards/:id/invites — List invite links (owner only)
+// ---------------------------------------------------------------------------
+
+export async function handleListInvites(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+): Promise<void> {
+  const access = await requireBoardRole(req, res, boardId, 'owner')
+  if (!access) return
+
+  let invites
+  try {
+    invites = await persistence.listInvites(boardId)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to fetch invites' }))
+    return
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ invites }))
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/boards/:id/invites — Create an invite link (owner only)
+// ---------------------------------------------------------------------------
+
+export async function handleCreateInvite(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+  body: string,
+): Promise<void> {
+  const access = await requireBoardRole(req, res, boardId, 'owner')
+  if (!access) return
+
+  let role: unknown
+  let expiresInHours: unknown
+  try {
+    ({ role, expiresInHours } = JSON.parse(body))
+  } catch {
+    // Falls through to the validation errors below
+  }
+
+  if (!isMemberRole(role)) {
+    res.writeHead(400, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Role must be editor, commenter or viewer' }))
+    return
+  }
+
+  let expiresAt: string | null = null
+  if (expiresInHours !== undefined && expiresInHours !== null) {
+    if (
+      typeof expiresInHours !== 'number' ||
+      !Number.isFinite(expiresInHours) ||
+      expiresInHours <= 0 ||
+      expiresInHours > MAX_INVITE_EXPIRY_HOURS
+    ) {
+      res.writeHead(400, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: `expiresInHours must be between 0 and ${MAX_INVITE_EXPIRY_HOURS}` }))
+      return
+    }
+    expiresAt = new Date(Date.now() + expiresInHours * 3_600_000).toISOString()
+  }
+
+  try {
+    const invite = await persistence.createInvite(boardId, {
+      token: generateInviteToken(),
+      role,
+      createdBy: access.user.userId,
+      expiresAt,
+    })
+    res.writeHead(201, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ invite }))
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to create invite' }))
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/boards/:id/invites/:token — Revoke an invite link (owner only)
+// ---------------------------------------------------------------------------
+
+export async function handleRevokeInvite(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+  token: string,
+): Promise<void> {
+  const access = await requireBoardRole(req, res, boardId, 'owner')
+  if (!access) return
+
+  try {
+    await persistence.deleteInvite(boardId, token)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to revoke invite' }))
+    return
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ success: true }))
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/invites/:token/accept — Join a board through an invite link
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns the membership the invite added or upgraded, so the caller can
+ * re-check that user's open sockets; null when nothing changed.
+ */
+export async function handleAcceptInvite(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  token: string,
+): Promise<{ boardId: string; userId: string } | null> {
+  const user = await authenticateRequest(req)
+  if (!user) {
+    res.writeHead(401, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Authentication required' }))
+    return null
+  }
+
+  let invite: BoardInvite | null
+  try {
+    invite = await persistence.getInvite(token)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to fetch invite' }))
+    return null
+  }
+  if (!invite) {
+    res.writeHead(404, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Invite not found' }))
+    return null
+  }
+
+  if (isInviteExpired(invite)) {
+    res.writeHead(410, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Invite has expired' }))
+    return null
+  }
+
+  let board: BoardRecord | null
+  try {
+    board = await persistence.getBoard(invite.board_id)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to fetch board' }))
+    return null
+  }
+  if (!board || isTrashed(board)) {
+    res.writeHead(404, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Board not found' }))
+    return null
+  }
+
+  try {
+    let role = await resolveBoardRole(board, user.userId)
+    const changed = !hasRole(role, invite.role)
+    if (changed) {
+      role = (await persistence.setMember(board.id, user.userId, invite.role)).role
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ boardId: board.id, role }))
+    return changed ? { boardId: board.id, userId: user.userId } : null
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to accept invite' }))
+    return null
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Board Trash REST Handlers
+ *
+ *  - GET    /api/trash               — the caller's trashed boards, newest first
+ *  - POST   /api/trash/:id/restore   — put a board back on the dashboard
+ *  - DELETE /api/trash/:id           — purge a board now instead of waiting
+ *
+ * Only owners can delete boards, so the trash is per owner: each entry
+ * carries the purge_at the sweeper (see ../trash.ts) will remove it at.
+ */
+
+import http from 'http'
+import { authenticateRequest } from '../auth.js'
+import { persistence, type BoardRecord } from '../db/persistence.js'
+import { isTrashed, purgeAt } from '../trash.js'
+
+/**
+ * Require the caller to own `boardId` and the board to be in the trash.
+ * Sends 401/404/403 (500 if the lookup fails) and returns null otherwise.
+ */
+async function requireTrashedBoard(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+): Promise<BoardRecord | null> {
+  const user = await authenticateRequest(req)
+  if (!user) {
+    res.writeHead(401, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Authentication required' }))
+    return null
+  }
+
+  let board: BoardRecord | null
+  try {
+    board = await persistence.getBoard(boardId)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to fetch board' }))
+    return null
+  }
+  if (!board || !isTrashed(board)) {
+    res.writeHead(404, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Board not found in trash' }))
+    return null
+  }
+
+  if (board.owner_id !== user.userId) {
+    res.writeHead(403, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Only the board owner can manage it in the trash' }))
+    return null
+  }
+
+  return board
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/trash — List trashed boards
+// ---------------------------------------------------------------------------
+
+export async function handleListTrash(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+): Promise<void> {
+  const user = await authenticateRequest(req)
+  if (!user) {
+    res.writeHead(401, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Authentication required' }))
+    return
+  }
+
+  let boards
+  try {
+    boards = (await persistence.listBoards())
+      .filter((b) => b.owner_id === user.userId && isTrashed(b))
+      .sort((a, b) => b.deleted_at!.localeCompare(a.deleted_at!))
+      .map((b) => ({ ...b, role: 'owner', purge_at: purgeAt(b) }))
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to fetch trash' }))
+    return
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ boards }))
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/trash/:id/restore — Restore
+// ---------------------------------------------------------------------------
+
+export async function handleRestoreBoard(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+): Promise<void> {
+  const board = await requireTrashedBoard(req, res, boardId)
+  if (!board) return
+
+  try {
+    await persistence.setBoardDeleted(boardId, null)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to restore board' }))
+    return
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ board: { ...board, deleted_at: null, role: 'owner' } }))
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/trash/:id — Purge permanently
+// ---------------------------------------------------------------------------
+
+export async function handlePurgeBoard(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+): Promise<void> {
+  const board = await requireTrashedBoard(req, res, boardId)
+  if (!board) return
+
+  // Deletes the snapshot, update log, versions, thumbnail, members and invites along with the board row
+  try {
+    await persistence.deleteBoard(boardId)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to delete board' }))
+    return
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ success: true }))
+}
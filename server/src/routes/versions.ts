@@ -0,0 +1,134 @@
+/**
+ * Board Version History REST Handlers
+ *
+ *  - GET  /api/boards/:id/versions                — list checkpoints, newest first
+ *  - POST /api/boards/:id/versions                — save a named checkpoint
+ *  - POST /api/boards/:id/versions/:vid/restore   — restore a checkpoint
+ *
+ * Viewers and above can list versions; editors and above can checkpoint
+ * or restore. A restore first checkpoints the current state, so it can
+ * itself be undone from the version list.
+ */
+
+import http from 'http'
+import * as Y from 'yjs'
+import { persistence } from '../db/persistence.js'
+import { requireBoardRole } from '../access.js'
+import {
+  createCheckpoint,
+  restoreDocToState,
+  MAX_VERSION_NAME_LENGTH,
+} from '../versionHistory.js'
+
+/** Loads (or returns the already-loaded) live doc for a room. */
+export type DocLoader = (room: string) => Promise<Y.Doc>
+
+// ---------------------------------------------------------------------------
+// GET /api/boards/:id/versions — List versions
+// ---------------------------------------------------------------------------
+
+export async function handleListVersions(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+): Promise<void> {
+  const access = await requireBoardRole(req, res, boardId, 'viewer')
+  if (!access) return
+
+  let versions
+  try {
+    versions = await persistence.listVersions(boardId)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to fetch versions' }))
+    return
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ versions }))
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/boards/:id/versions — Save a named checkpoint
+// ---------------------------------------------------------------------------
+
+export async function handleCreateVersion(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+  body: string,
+  getDoc: DocLoader,
+): Promise<void> {
+  const access = await requireBoardRole(req, res, boardId, 'editor')
+  if (!access) return
+
+  let name: string
+  try {
+    const parsed = JSON.parse(body)
+    name = typeof parsed.name === 'string' ? parsed.name.trim() : ''
+    if (!name || name.length > MAX_VERSION_NAME_LENGTH) throw new Error('Invalid name')
+  } catch {
+    res.writeHead(400, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: `Name is required (1-${MAX_VERSION_NAME_LENGTH} characters)` }))
+    return
+  }
+
+  try {
+    const doc = await getDoc(boardId)
+    const version = await createCheckpoint(boardId, doc, { name, kind: 'named', createdBy: access.user.userId })
+    res.writeHead(201, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ version }))
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to save version' }))
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/boards/:id/versions/:vid/restore — Restore a checkpoint
+// ---------------------------------------------------------------------------
+
+export async function handleRestoreVersion(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  boardId: string,
+  versionId: string,
+  getDoc: DocLoader,
+): Promise<void> {
+  const access = await requireBoardRole(req, res, boardId, 'editor')
+  if (!access) return
+
+  let state: Uint8Array | null
+  try {
+    state = await persistence.loadVersion(boardId, versionId)
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to load version' }))
+    return
+  }
+  if (!state) {
+    res.writeHead(404, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Version not found' }))
+    return
+  }
+
+  try {
+    const doc = await getDoc(boardId)
+
+    // Safety net: keep the pre-restore state as its own version
+    const backup = await createCheckpoint(boardId, doc, {
+      name: 'Before restore',
+      kind: 'auto',
+      createdBy: access.user.userId,
+    })
+
+    const summary = restoreDocToState(doc, state)
+    console.log(`[Versions] Restored ${boardId} to ${versionId}: +${summary.added} ~${summary.updated} -${summary.deleted}`)
+
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ success: true, backupVersionId: backup.id, ...summary }))
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Failed to restore version' }))
+  }
+}
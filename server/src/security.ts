@@ -4,11 +4,22 @@
  * Validation functions for hardening the CollabBoard server:
  *  - CORS origin validation
  *  - WebSocket message size limits
- *  - Max objects per board
+ *  - Which parts of the doc an update writes to (commenters may only
+ *    write comments), whether the objects, text and comments it writes
+ *    are valid and the writer's to write, and the max objects per board
  *  - Room name sanitization
- *  - AI message length limits
+ *  - AI message length limits, and the selection / viewport sent with them
+ *  - Awareness identity stamping (no spoofed presence or summons)
  */
 
+import * as Y from 'yjs'
+import * as encoding from 'lib0/encoding'
+import * as decoding from 'lib0/decoding'
+import { validateBoardObject, MAX_OBJECT_TEXT_LENGTH } from './objectValidation.js'
+import { checkCommentChange, GUEST_WRITER, type CommentWriter } from './commentValidation.js'
+import { TEXT_MAP, COMMENTS_MAP } from '../../shared/constants.js'
+import type { AICommandScope } from '../../shared/types.js'
+
 // ---------------------------------------------------------------------------
 // Config
 // ---------------------------------------------------------------------------
@@ -53,6 +64,26 @@ export function getCorsOrigin(
   return ''
 }
 
+// ---------------------------------------------------------------------------
+// Client address
+// ---------------------------------------------------------------------------
+
+/**
+ * The address a request came from. Behind `trustedProxies` proxies that is
+ * the one the outermost of them saw, taken from the right of
+ * X-Forwarded-For (entries further left are whatever the client sent).
+ * Without trusted proxies, or without enough entries, the socket's address.
+ */
+export function clientAddress(
+  remoteAddress: string | undefined,
+  forwardedFor: string | string[] | undefined,
+  trustedProxies: number
+): string | undefined {
+  if (trustedProxies <= 0 || !forwardedFor) return remoteAddress
+  const hops = [forwardedFor].flat().join(',').split(',').map((a) => a.trim()).filter(Boolean)
+  return hops.length >= trustedProxies ? hops[hops.length - trustedProxies] : remoteAddress
+}
+
 // ---------------------------------------------------------------------------
 // WebSocket
 // ---------------------------------------------------------------------------
@@ -65,24 +96,340 @@ export function isMessageSizeValid(data: Uint8Array): boolean {
 }
 
 // ---------------------------------------------------------------------------
-// Board limits
+// Update scope and validation
 // ---------------------------------------------------------------------------
 
+/** What an update would change in the doc. */
+interface UpdateEffect {
+  /** Names of the root types the update writes to. */
+  roots: Set<string>
+  /**
+   * Root name → key → what the update leaves under that key of the root
+   * map (undefined: deleted), for the `objects`, `texts` and comments maps.
+   */
+  entries: Map<string, Map<string, unknown>>
+  /** Key → length after the update, for every Y.Text in `texts` it writes inside. */
+  textLengths: Map<string, number>
+}
+
+const INCOMPLETE = 'Update is malformed or depends on changes the server has not seen'
+
+/** Maps whose entries validateUpdate checks. */
+const CHECKED_MAPS = ['objects', TEXT_MAP, COMMENTS_MAP]
+
+/**
+ * Where an item sits: its root, and the item of the type it is in (null
+ * directly in the root) with its key there. Siblings share a place.
+ */
+interface Place {
+  root: string
+  parent: Y.Item | null
+  sub: string | null
+}
+
+/** Where an item already in the doc sits. */
+function placeOfDocItem(item: Y.Item): Place | null {
+  const type = item.parent
+  if (!(type instanceof Y.AbstractType)) return null
+  if (type._item === null) return { root: Y.findRootTypeKey(type), parent: null, sub: item.parentSub }
+  const up = placeOfDocItem(type._item)
+  return up && { root: up.root, parent: type._item, sub: item.parentSub }
+}
+
+/**
+ * Work out what `update` would change from its own structs and delete set,
+ * looking up only the doc items they refer to, so the cost follows the
+ * update rather than the board. 'incomplete' if it's malformed or depends
+ * on changes the doc hasn't seen. null when it does something this can't
+ * follow exactly (nested types in objects or comments, GC'd or partly
+ * known structs, a key whose winning write Yjs has to pick): trialUpdate
+ * works those out.
+ */
+function readUpdate(doc: Y.Doc, update: Uint8Array): UpdateEffect | 'incomplete' | null {
+  let decoded: ReturnType<typeof Y.decodeUpdate>
+  try {
+    decoded = Y.decodeUpdate(update)
+  } catch {
+    return 'incomplete'
+  }
+
+  // The update's new items per client, in clock order
+  const own = new Map<number, Y.Item[]>()
+  const newItems = new Set<Y.Item>()
+  for (const struct of decoded.structs) {
+    if (struct instanceof Y.Skip) return 'incomplete'
+    const { client, clock } = struct.id
+    const known = Y.getState(doc.store, client)
+    if (clock + struct.length <= known) continue // applied already
+    const items = own.get(client) ?? []
+    const previous = items.at(-1)
+    if (clock !== (previous ? previous.id.clock + previous.length : known)) return clock < known ? null : 'incomplete'
+    if (!(struct instanceof Y.Item)) return null
+    items.push(struct)
+    own.set(client, items)
+    newItems.add(struct)
+  }
+
+  /** An item the update refers to: 'missing' if the doc hasn't seen it, null if it's GC'd. */
+  const lookup = (id: Y.ID): Y.Item | 'missing' | null => {
+    const items = own.get(id.client)
+    if (items && id.clock >= items[0].id.clock) {
+      let low = 0
+      let high = items.length - 1
+      while (low < high) {
+        const mid = (low + high + 1) >> 1
+        if (items[mid].id.clock <= id.clock) low = mid
+        else high = mid - 1
+      }
+      return id.clock < items[low].id.clock + items[low].length ? items[low] : 'missing'
+    }
+    if (id.clock >= Y.getState(doc.store, id.client)) return 'missing'
+    const struct = Y.getItem(doc.store, id) as Y.Item | Y.GC
+    return struct instanceof Y.Item ? struct : null
+  }
+
+  const placed = new Map<Y.Item, Place | 'missing' | null>()
+  /** Where a new item goes: the place of its parent type, or of the sibling it's next to. */
+  const placeOfNew = (start: Y.Item): Place | 'missing' | null => {
+    // Walk along siblings iteratively: typed text chains one item to the next
+    const chain: Y.Item[] = []
+    let item = start
+    let place: Place | 'missing' | null
+    for (;;) {
+      if (placed.has(item)) {
+        place = placed.get(item)!
+        break
+      }
+      placed.set(item, null) // a cycle places nothing
+      chain.push(item)
+      if (typeof item.parent === 'string') {
+        place = { root: item.parent, parent: null, sub: item.parentSub }
+        break
+      }
+      const parentId = item.parent instanceof Y.ID ? item.parent : null
+      const ref = parentId ?? item.origin ?? item.rightOrigin
+      const found = ref ? lookup(ref) : null
+      if (found === null || found === 'missing') {
+        place = found
+        break
+      }
+      if (parentId) {
+        const up = newItems.has(found) ? placeOfNew(found) : placeOfDocItem(found)
+        place = up === 'missing' ? up : up && found.content instanceof Y.ContentType
+          ? { root: up.root, parent: found, sub: item.parentSub }
+          : null
+        break
+      }
+      if (!newItems.has(found)) {
+        place = placeOfDocItem(found)
+        break
+      }
+      item = found
+    }
+    for (const each of chain) placed.set(each, place)
+    return place
+  }
+  const placeOf = (item: Y.Item) => (newItems.has(item) ? placeOfNew(item) : placeOfDocItem(item))
+
+  const roots = new Set<string>()
+  /** Root → key → the update's writes to the key, and whether it deletes the doc's value. */
+  const keyed = new Map(CHECKED_MAPS.map((name) => [name, new Map<string, { writes: Y.Item[]; cleared: boolean }>()]))
+  const deletedWrites = new Set<Y.Item>()
+  /** Item holding a per-object text → characters added (negative: removed). */
+  const textChanges = new Map<Y.Item, number>()
+  /** The item of the per-object text `place` is directly inside, if it is. */
+  const textAt = (place: Place): Y.Item | null => {
+    const text = place.parent
+    if (place.root !== TEXT_MAP || !text || !(text.content instanceof Y.ContentType)) return null
+    if (!(text.content.type instanceof Y.Text)) return null
+    const up = placeOf(text)
+    return up && up !== 'missing' && up.parent === null ? text : null
+  }
+  /** Record that the update adds or removes `item`; false if readUpdate can't follow it. */
+  const touch = (item: Y.Item, place: Place, removed: number | null): boolean => {
+    roots.add(place.root)
+    const keys = keyed.get(place.root)
+    if (!keys) return true
+    if (place.parent === null) {
+      if (place.sub === null) return false
+      const key = keys.get(place.sub) ?? { writes: [], cleared: false }
+      keys.set(place.sub, key)
+      if (removed === null) key.writes.push(item)
+      else if (newItems.has(item)) deletedWrites.add(item)
+      else key.cleared = true
+      return true
+    }
+    const text = textAt(place)
+    if (!text) return false
+    const length = item.content.isCountable() ? removed === null ? item.length : -removed : 0
+    textChanges.set(text, (textChanges.get(text) ?? 0) + length)
+    return true
+  }
+
+  for (const item of newItems) {
+    const place = placeOfNew(item)
+    if (place === 'missing') return 'incomplete'
+    if (place === null || !touch(item, place, null)) return null
+  }
+
+  for (const [client, ranges] of decoded.ds.clients) {
+    // Sorted and walked once, so overlapping ranges count each item once
+    let at = 0
+    for (const range of [...ranges].sort((a, b) => a.clock - b.clock)) {
+      at = Math.max(at, range.clock)
+      const end = range.clock + range.len
+      while (at < end) {
+        const id = Y.createID(client, at)
+        const found = lookup(id)
+        if (found === 'missing') return 'incomplete'
+        const struct = found ?? Y.getItem(doc.store, id)
+        const removed = Math.min(end, struct.id.clock + struct.length) - at
+        at += removed
+        // GC'd and deleted items are gone already
+        if (found === null || (found.deleted && !newItems.has(found))) continue
+        const place = placeOf(found)
+        if (place === 'missing') return 'incomplete'
+        if (place === null || !touch(found, place, removed)) return null
+      }
+    }
+  }
+
+  const entries = new Map<string, Map<string, unknown>>()
+  for (const [root, keys] of keyed) {
+    const values = new Map<string, unknown>()
+    for (const [key, { writes, cleared }] of keys) {
+      const kept = writes.filter((item) => !deletedWrites.has(item))
+      if (kept.length > 1) return null
+      if (kept.length === 1) {
+        const { content } = kept[0]
+        values.set(key, content instanceof Y.ContentDeleted ? undefined : content.getContent().at(-1))
+      } else if (cleared || !doc.getMap(root).has(key)) {
+        values.set(key, undefined)
+      } else {
+        // Whether a deleted write deletes the value it lands next to depends on where it lands
+        return null
+      }
+    }
+    entries.set(root, values)
+  }
+
+  const textLengths = new Map<string, number>()
+  for (const [text, change] of textChanges) {
+    const place = placeOf(text)
+    if (!place || place === 'missing' || place.sub === null) return null
+    const base = newItems.has(text) ? 0 : ((text.content as Y.ContentType).type as Y.Text).length
+    textLengths.set(place.sub, Math.max(textLengths.get(place.sub) ?? 0, base + change))
+  }
+  return { roots, entries, textLengths }
+}
+
 /**
- * Check if a board can accept more objects.
+ * Apply `update` to a copy of `doc` and record what it touched. Copying
+ * encodes and decodes the whole doc, so this costs O(doc): hundreds of
+ * milliseconds on a full board. Only for updates readUpdate can't place.
  */
-export function canAddObject(currentCount: number): boolean {
-  return currentCount < MAX_OBJECTS_PER_BOARD
+function trialUpdate(doc: Y.Doc, update: Uint8Array): UpdateEffect | 'incomplete' {
+  const scratch = new Y.Doc()
+  Y.applyUpdate(scratch, Y.encodeStateAsUpdate(doc))
+  // Looked up after each transaction: the update may create a root
+  const nameOf = (type: unknown) => [...scratch.share].find(([, root]) => root === type)?.[0]
+
+  const roots = new Set<string>()
+  const keys = new Map<string, Set<string>>()
+  scratch.on('afterTransaction', (transaction: Y.Transaction) => {
+    for (const [type, subs] of transaction.changed) {
+      // Walk up to the root, remembering the root-level key on the way
+      let root = type
+      let key: string | null = null
+      while (root._item) {
+        key = root._item.parentSub
+        root = root._item.parent as typeof root
+      }
+      const name = nameOf(root)
+      if (name === undefined) continue
+      roots.add(name)
+      const changed = keys.get(name) ?? new Set<string>()
+      if (root === type) subs.forEach((sub) => sub !== null && changed.add(sub))
+      else if (key !== null) changed.add(key)
+      keys.set(name, changed)
+    }
+  })
+
+  try {
+    Y.applyUpdate(scratch, update)
+    if (scratch.store.pendingStructs !== null || scratch.store.pendingDs !== null) return 'incomplete'
+    const entries = new Map(CHECKED_MAPS.map((name) => {
+      const map = scratch.getMap(name)
+      return [name, new Map([...keys.get(name) ?? []].map((key) => [key, map.get(key)]))]
+    }))
+    const textLengths = new Map<string, number>()
+    for (const [key, text] of entries.get(TEXT_MAP)!) {
+      if (text instanceof Y.Text) textLengths.set(key, text.length)
+    }
+    return { roots, entries, textLengths }
+  } catch {
+    return 'incomplete'
+  } finally {
+    scratch.destroy()
+  }
 }
 
+export type UpdateValidation = { ok: true } | { ok: false; error: string }
+
 /**
- * Preemptive check: should we reject an incoming update?
- * Returns true if the board is already at or over the object limit.
- * Call this BEFORE applying Y.applyUpdate to prevent exceeding the cap.
+ * Check an update from a client before applying it to `doc`. Every object
+ * it sets in `objects` must be a valid BoardObject (filed under its own ID)
+ * and every Y.Text it writes in `texts` must stay within the text limit.
+ * Every comment it adds, changes or deletes must be well-formed and
+ * `writer`'s to change (see commentValidation.ts). It may not push the
+ * board past the object limit, nor write outside `onlyRoots` when given
+ * (commenters: the comments map). Errors are meant for the sender, e.g.
+ * 'Object "a1": fill must be a string'.
  */
-export function shouldRejectUpdate(doc: import('yjs').Doc): boolean {
-  const objectsMap = doc.getMap('objects')
-  return objectsMap.size >= MAX_OBJECTS_PER_BOARD
+export function validateUpdate(
+  doc: Y.Doc,
+  update: Uint8Array,
+  onlyRoots?: readonly string[],
+  writer: CommentWriter = GUEST_WRITER,
+): UpdateValidation {
+  const effect = readUpdate(doc, update) ?? trialUpdate(doc, update)
+  if (effect === 'incomplete') return { ok: false, error: INCOMPLETE }
+  const { roots, entries, textLengths } = effect
+  if (onlyRoots && ![...roots].every((root) => onlyRoots.includes(root))) {
+    return { ok: false, error: `Your role can only write to: ${onlyRoots.join(', ')}` }
+  }
+
+  const objects = doc.getMap('objects')
+  let count = objects.size
+  for (const [id, value] of entries.get('objects')!) {
+    if (value === undefined) {
+      if (objects.has(id)) count--
+      continue
+    }
+    if (!objects.has(id)) count++
+    const result = validateBoardObject(value)
+    if (!result.ok) return { ok: false, error: `Object "${id}": ${result.error}` }
+    if (result.object.id !== id) return { ok: false, error: `Object "${id}": id must match its key` }
+  }
+  if (count > MAX_OBJECTS_PER_BOARD && count > objects.size) {
+    return { ok: false, error: `Boards are limited to ${MAX_OBJECTS_PER_BOARD} objects` }
+  }
+
+  for (const [id, value] of entries.get(TEXT_MAP)!) {
+    if (value !== undefined && !(value instanceof Y.Text)) return { ok: false, error: `Text "${id}" must be a Y.Text` }
+  }
+  for (const [id, length] of textLengths) {
+    if (length > MAX_OBJECT_TEXT_LENGTH) {
+      return { ok: false, error: `Text "${id}" is longer than ${MAX_OBJECT_TEXT_LENGTH} characters` }
+    }
+  }
+
+  const comments = doc.getMap(COMMENTS_MAP)
+  for (const [id, value] of entries.get(COMMENTS_MAP)!) {
+    const error = checkCommentChange(id, comments.get(id), value, writer)
+    if (error) return { ok: false, error: `Comment "${id}": ${error}` }
+  }
+  return { ok: true }
 }
 
 // ---------------------------------------------------------------------------
@@ -112,3 +459,91 @@ export function isAIMessageValid(message: string): boolean {
     message.length <= MAX_AI_MESSAGE_LENGTH
   )
 }
+
+/**
+ * Read the selection and viewport sent with an AI command. Anything
+ * malformed is dropped rather than refused: the command still runs, just
+ * without that part of its scope. Selections are capped at the object limit.
+ */
+export function parseAIScope(selectedIds: unknown, viewport: unknown): AICommandScope {
+  const scope: AICommandScope = { selectedIds: [] }
+  if (Array.isArray(selectedIds)) {
+    const ids = selectedIds.filter((id): id is string => typeof id === 'string' && id.length > 0 && id.length <= 100)
+    scope.selectedIds = [...new Set(ids)].slice(0, MAX_OBJECTS_PER_BOARD)
+  }
+  if (viewport && typeof viewport === 'object') {
+    const { x, y, width, height } = viewport as Record<string, unknown>
+    const values = [x, y, width, height]
+    if (values.every((v) => typeof v === 'number' && Number.isFinite(v)) && (width as number) > 0 && (height as number) > 0) {
+      scope.viewport = { x: x as number, y: y as number, width: width as number, height: height as number }
+    }
+  }
+  return scope
+}
+
+// ---------------------------------------------------------------------------
+// Awareness identity
+// ---------------------------------------------------------------------------
+
+/** The verified identity of the socket an awareness message came from. */
+export interface AwarenessIdentity {
+  userId: string | null
+  name: string | null
+  /** May bring everyone to their view (editors and owners). */
+  canSummon?: boolean
+}
+
+/**
+ * Rewrite a client's y-protocols awareness update with the socket's
+ * verified identity. In every state it carries:
+ *  - `userId` is always the verified user (removed for guests)
+ *  - `name` is replaced by the verified display name when known
+ *  - `summon` is removed unless the socket may summon
+ *
+ * All entries must be for one awareness client ID, the one the socket
+ * first announced (`boundClientId`). A null state (the client going away)
+ * passes through.
+ *
+ * Returns the re-encoded update and its client ID, or null to drop it.
+ */
+export function stampAwareness(
+  update: Uint8Array,
+  identity: AwarenessIdentity,
+  boundClientId: number | null,
+): { update: Uint8Array; clientId: number } | null {
+  const decoder = decoding.createDecoder(update)
+  const encoder = encoding.createEncoder()
+  let clientId = boundClientId
+
+  try {
+    const count = decoding.readVarUint(decoder)
+    if (count === 0) return null
+    encoding.writeVarUint(encoder, count)
+
+    for (let i = 0; i < count; i++) {
+      const id = decoding.readVarUint(decoder)
+      const clock = decoding.readVarUint(decoder)
+      const state: unknown = JSON.parse(decoding.readVarString(decoder))
+      if (clientId === null) clientId = id
+      if (id !== clientId) return null
+      if (state !== null && (typeof state !== 'object' || Array.isArray(state))) return null
+
+      let stamped: Record<string, unknown> | null = null
+      if (state) {
+        stamped = { ...(state as Record<string, unknown>) }
+        delete stamped.userId
+        if (!identity.canSummon) delete stamped.summon
+        if (identity.userId) stamped.userId = identity.userId
+        if (identity.name) stamped.name = identity.name
+      }
+
+      encoding.writeVarUint(encoder, id)
+      encoding.writeVarUint(encoder, clock)
+      encoding.writeVarString(encoder, JSON.stringify(stamped))
+    }
+  } catch {
+    return null
+  }
+
+  return { update: encoding.toUint8Array(encoder), clientId: clientId! }
+}
@@ -0,0 +1,109 @@
+/**
+ * WebSocket Wire Protocol
+ *
+ * The standard y-protocols framing, so off-the-shelf Yjs providers (e.g.
+ * y-websocket) can talk to this server. Every message starts with a varUint
+ * message type:
+ *
+ *   MSG_SYNC (0)             sync step 1 (state vector), step 2 (the updates
+ *                            the other side is missing) or a live update
+ *   MSG_AWARENESS (1)        a y-protocols awareness update
+ *   MSG_AUTH (2)             server → client only: an update of theirs was
+ *                            rejected (permission denied), with the reason
+ *   MSG_QUERY_AWARENESS (3)  ask for everyone's awareness state
+ *
+ * On connect both sides send step 1 and answer the other's with step 2, so
+ * a reconnecting client only exchanges what changed while it was away.
+ *
+ * Reading a client message never applies it: updates come back to the
+ * caller so it can enforce the socket's role first.
+ */
+
+import * as Y from 'yjs'
+import * as encoding from 'lib0/encoding'
+import * as decoding from 'lib0/decoding'
+import * as syncProtocol from 'y-protocols/sync'
+import * as awarenessProtocol from 'y-protocols/awareness'
+import * as authProtocol from 'y-protocols/auth'
+import { MSG_SYNC, MSG_AWARENESS, MSG_AUTH, MSG_QUERY_AWARENESS } from '../../shared/constants.js'
+
+export type ClientMessage =
+  /** Step 1 from the client; send `reply` (our step 2) straight back. */
+  | { type: 'sync-step1'; reply: Uint8Array }
+  /** A step 2 or a live update from the client, not yet applied. */
+  | { type: 'update'; update: Uint8Array }
+  | { type: 'awareness'; update: Uint8Array }
+  | { type: 'query-awareness' }
+
+/**
+ * Decode one client message against the room's doc.
+ * Returns null for malformed or unknown messages.
+ */
+export function readClientMessage(data: Uint8Array, doc: Y.Doc): ClientMessage | null {
+  try {
+    const decoder = decoding.createDecoder(data)
+    const messageType = decoding.readVarUint(decoder)
+
+    if (messageType === MSG_SYNC) {
+      const syncType = decoding.readVarUint(decoder)
+      if (syncType === syncProtocol.messageYjsSyncStep1) {
+        const encoder = encoding.createEncoder()
+        encoding.writeVarUint(encoder, MSG_SYNC)
+        syncProtocol.writeSyncStep2(encoder, doc, decoding.readVarUint8Array(decoder))
+        return { type: 'sync-step1', reply: encoding.toUint8Array(encoder) }
+      }
+      if (syncType === syncProtocol.messageYjsSyncStep2 || syncType === syncProtocol.messageYjsUpdate) {
+        return { type: 'update', update: decoding.readVarUint8Array(decoder) }
+      }
+      return null
+    }
+    if (messageType === MSG_AWARENESS) {
+      return { type: 'awareness', update: decoding.readVarUint8Array(decoder) }
+    }
+    if (messageType === MSG_QUERY_AWARENESS) {
+      return { type: 'query-awareness' }
+    }
+    return null
+  } catch {
+    return null
+  }
+}
+
+/** Sync step 1: our state vector, asking the client for what we lack. */
+export function encodeSyncStep1(doc: Y.Doc): Uint8Array {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MSG_SYNC)
+  syncProtocol.writeSyncStep1(encoder, doc)
+  return encoding.toUint8Array(encoder)
+}
+
+/** A live document update. */
+export function encodeUpdateMessage(update: Uint8Array): Uint8Array {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MSG_SYNC)
+  syncProtocol.writeUpdate(encoder, update)
+  return encoding.toUint8Array(encoder)
+}
+
+/** Tell a client its update was not applied, and why. */
+export function encodePermissionDenied(reason: string): Uint8Array {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MSG_AUTH)
+  authProtocol.writePermissionDenied(encoder, reason)
+  return encoding.toUint8Array(encoder)
+}
+
+/** An awareness update, already encoded by y-protocols. */
+export function encodeAwarenessMessage(update: Uint8Array): Uint8Array {
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, MSG_AWARENESS)
+  encoding.writeVarUint8Array(encoder, update)
+  return encoding.toUint8Array(encoder)
+}
+
+/** Every known awareness state in the room, or null if there are none. */
+export function encodeAwarenessSnapshot(awareness: awarenessProtocol.Awareness): Uint8Array | null {
+  const clients = [...awareness.getStates().keys()]
+  if (clients.length === 0) return null
+  return encodeAwarenessMessage(awarenessProtocol.encodeAwarenessUpdate(awareness, clients))
+}
@@ -0,0 +1,44 @@
+/**
+ * Dashboard Thumbnails
+ *
+ * A small PNG of each board, rendered with the export renderer whenever
+ * the board's snapshot is saved and served by
+ * GET /api/boards/:id/thumbnail. Saving one also bumps the board's
+ * updated_at, which the dashboard uses to cache-bust the image.
+ */
+
+import * as Y from 'yjs'
+import { Resvg } from '@resvg/resvg-js'
+import { renderBoardSvg } from './boardExport.js'
+import { persistence } from './db/persistence.js'
+import { readObjects } from './objectText.js'
+import type { BoardObject } from '../../shared/types.js'
+
+export const THUMBNAIL_WIDTH = 320
+export const THUMBNAIL_HEIGHT = 200
+
+/** Render objects to a THUMBNAIL_WIDTH × THUMBNAIL_HEIGHT PNG, content fitted and centred. */
+export function renderThumbnail(objects: BoardObject[]): Buffer {
+  const { svg } = renderBoardSvg(objects, objects, { width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT })
+  const resvg = new Resvg(svg, {
+    background: '#ffffff',
+    font: { loadSystemFonts: true },
+  })
+  return resvg.render().asPng()
+}
+
+/**
+ * Render and store the thumbnail for a board. Logs and swallows errors,
+ * like a snapshot save — a failed thumbnail must never affect the room.
+ */
+export async function saveBoardThumbnail(boardId: string, doc: Y.Doc): Promise<void> {
+  // Read before any await: an evicted room's doc is destroyed right after saving
+  const objects = readObjects(doc.getMap<BoardObject>('objects'))
+  try {
+    // Dev and guest rooms have no dashboard card
+    if (!(await persistence.getBoard(boardId))) return
+    await persistence.saveThumbnail(boardId, renderThumbnail(objects))
+  } catch (err) {
+    console.error(`[DB] Failed to save thumbnail for ${boardId}:`, err)
+  }
+}
@@ -11,7 +11,10 @@
  */
 
 import * as Y from 'yjs'
-import type { ObjectType, BoardObject } from '../../shared/types.js'
+import type { ObjectType, BoardObject, AICommandScope, ViewportBounds } from '../../shared/types.js'
+import { taskProgress } from '../../shared/markdown.js'
+import { readObjects, writeObject } from './objectText.js'
+import { TEXT_MAP } from '../../shared/constants.js'
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -175,7 +178,7 @@ export function executeCreateObject(
     }
   }
 
-  objectsMap.set(id, obj)
+  writeObject(objectsMap, obj)
   const result: Record<string, unknown> = {
     success: true, id, type: obj.type, text: obj.text || '',
     x: pos.x, y: pos.y, width, height,
@@ -202,7 +205,10 @@ export function executeUpdateObject(
   if (input.height !== undefined) updated.height = input.height as number
   if (input.fontSize !== undefined) updated.fontSize = input.fontSize as number
 
-  objectsMap.set(id, updated)
+  // Only route text through Y.Text when it changed — a plain field update
+  // shouldn't touch text someone may be typing into
+  if (input.text !== undefined) writeObject(objectsMap, updated)
+  else objectsMap.set(id, updated)
   return JSON.stringify({ success: true, id, updated: Object.keys(input).filter(k => k !== 'id') })
 }
 
@@ -228,14 +234,317 @@ export function executeMoveObject(
 }
 
 // ---------------------------------------------------------------------------
-// Board Snapshot for System Prompt
+// Bulk and layout executors
 // ---------------------------------------------------------------------------
 
-export function buildBoardContext(objectsMap: Y.Map<BoardObject>): string {
-  const allObjects: BoardObject[] = []
-  objectsMap.forEach((obj) => {
-    allObjects.push(obj)
+/** The string IDs in a tool's `ids` input, de-duplicated. */
+function idList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return [...new Set(value.filter((id): id is string => typeof id === 'string'))]
+}
+
+/** The objects with the given IDs that exist, and the IDs that don't. */
+function findObjects(
+  ids: string[],
+  objectsMap: Y.Map<BoardObject>
+): { found: BoardObject[]; missing: string[] } {
+  const found: BoardObject[] = []
+  const missing: string[] = []
+  for (const id of ids) {
+    const obj = objectsMap.get(id)
+    if (obj) found.push(obj)
+    else missing.push(id)
+  }
+  return { found, missing }
+}
+
+function transact(objectsMap: Y.Map<BoardObject>, fn: () => void): void {
+  if (objectsMap.doc) objectsMap.doc.transact(fn)
+  else fn()
+}
+
+/** Delete objects and their text. Deleting a frame deletes its children too. */
+export function executeDeleteObjects(
+  input: Record<string, unknown>,
+  objectsMap: Y.Map<BoardObject>
+): string {
+  const { found, missing } = findObjects(idList(input.ids), objectsMap)
+  if (found.length === 0) {
+    return JSON.stringify({ success: false, error: 'None of the objects were found', notFound: missing })
+  }
+
+  const deleting = new Set(found.map((obj) => obj.id))
+  for (const obj of objectsMap.values()) {
+    if (obj.parentId && deleting.has(obj.parentId) && objectsMap.get(obj.parentId)?.type === 'frame') {
+      deleting.add(obj.id)
+    }
+  }
+
+  const texts = objectsMap.doc?.getMap(TEXT_MAP)
+  transact(objectsMap, () => {
+    for (const id of deleting) {
+      objectsMap.delete(id)
+      texts?.delete(id)
+    }
+  })
+  return JSON.stringify({ success: true, deleted: [...deleting], ...(missing.length > 0 ? { notFound: missing } : {}) })
+}
+
+/** Fields updateObjectsByFilter may set; text is per object, not bulk. */
+const BULK_UPDATE_FIELDS = ['fill', 'width', 'height', 'fontSize'] as const
+
+/**
+ * Update every object matching a filter (type, fill, text containing a
+ * string, parent frame). With `only`, objects outside it are never matched.
+ */
+export function executeUpdateObjectsByFilter(
+  input: Record<string, unknown>,
+  objectsMap: Y.Map<BoardObject>,
+  only?: Set<string> | null
+): string {
+  const filter = (input.filter ?? {}) as Record<string, unknown>
+  const changes = (input.changes ?? {}) as Record<string, unknown>
+  const textContains = typeof filter.textContains === 'string' ? filter.textContains.toLowerCase() : undefined
+
+  if (filter.type === undefined && filter.fill === undefined && textContains === undefined && filter.parentId === undefined) {
+    return JSON.stringify({ success: false, error: 'filter needs at least one of type, fill, textContains, parentId' })
+  }
+  const update: Record<string, unknown> = {}
+  for (const field of BULK_UPDATE_FIELDS) {
+    if (changes[field] !== undefined) update[field] = changes[field]
+  }
+  if (Object.keys(update).length === 0) {
+    return JSON.stringify({ success: false, error: `changes needs at least one of ${BULK_UPDATE_FIELDS.join(', ')}` })
+  }
+
+  const matched = readObjects(objectsMap).filter((obj) =>
+    (!only || only.has(obj.id)) &&
+    (filter.type === undefined || obj.type === filter.type) &&
+    (filter.fill === undefined || obj.fill.toLowerCase() === String(filter.fill).toLowerCase()) &&
+    (textContains === undefined || (obj.text ?? '').toLowerCase().includes(textContains)) &&
+    (filter.parentId === undefined || obj.parentId === filter.parentId)
+  )
+  if (matched.length === 0) {
+    return JSON.stringify({ success: false, error: 'No objects match the filter' })
+  }
+
+  transact(objectsMap, () => {
+    for (const obj of matched) objectsMap.set(obj.id, { ...objectsMap.get(obj.id)!, ...update })
+  })
+  return JSON.stringify({ success: true, updated: matched.map((obj) => obj.id), fields: Object.keys(update) })
+}
+
+/** Draw a line from the center of one object to the center of another. */
+export function executeConnectObjects(
+  input: Record<string, unknown>,
+  objectsMap: Y.Map<BoardObject>
+): string {
+  const fromId = input.fromId as string
+  const toId = input.toId as string
+  const from = objectsMap.get(fromId)
+  const to = objectsMap.get(toId)
+  if (!from || !to) {
+    return JSON.stringify({ success: false, error: `Object ${from ? toId : fromId} not found` })
+  }
+  if (fromId === toId) {
+    return JSON.stringify({ success: false, error: 'Cannot connect an object to itself' })
+  }
+
+  const start = { x: from.x + from.width / 2, y: from.y + from.height / 2 }
+  const end = { x: to.x + to.width / 2, y: to.y + to.height / 2 }
+  const x = Math.min(start.x, end.x)
+  const y = Math.min(start.y, end.y)
+  const line: BoardObject = {
+    id: generateId(),
+    type: 'line',
+    x,
+    y,
+    width: Math.abs(end.x - start.x) || 1,
+    height: Math.abs(end.y - start.y) || 1,
+    fill: (input.fill as string) || defaultColors.line,
+    rotation: 0,
+    points: [start.x - x, start.y - y, end.x - x, end.y - y],
+    fromId,
+    toId,
+    arrowEnd: input.arrowEnd !== undefined ? input.arrowEnd as boolean : true,
+  }
+
+  objectsMap.set(line.id, line)
+  return JSON.stringify({ success: true, id: line.id, type: 'line', fromId, toId })
+}
+
+type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom'
+
+/** Line objects up along one edge or center line of the group's bounds. */
+export function executeAlignObjects(
+  input: Record<string, unknown>,
+  objectsMap: Y.Map<BoardObject>
+): string {
+  const alignment = input.alignment as Alignment
+  const { found, missing } = findObjects(idList(input.ids), objectsMap)
+  if (found.length < 2) {
+    return JSON.stringify({ success: false, error: 'Need at least 2 existing objects to align', notFound: missing })
+  }
+
+  const left = Math.min(...found.map((o) => o.x))
+  const right = Math.max(...found.map((o) => o.x + o.width))
+  const top = Math.min(...found.map((o) => o.y))
+  const bottom = Math.max(...found.map((o) => o.y + o.height))
+
+  const place = (obj: BoardObject): { x: number; y: number } | null => {
+    switch (alignment) {
+      case 'left': return { x: left, y: obj.y }
+      case 'center': return { x: Math.round((left + right - obj.width) / 2), y: obj.y }
+      case 'right': return { x: right - obj.width, y: obj.y }
+      case 'top': return { x: obj.x, y: top }
+      case 'middle': return { x: obj.x, y: Math.round((top + bottom - obj.height) / 2) }
+      case 'bottom': return { x: obj.x, y: bottom - obj.height }
+      default: return null
+    }
+  }
+  if (!place(found[0])) {
+    return JSON.stringify({ success: false, error: `Unknown alignment: ${alignment}` })
+  }
+
+  transact(objectsMap, () => {
+    for (const obj of found) objectsMap.set(obj.id, { ...obj, ...place(obj) })
+  })
+  return JSON.stringify({ success: true, aligned: found.map((o) => o.id), alignment, ...(missing.length > 0 ? { notFound: missing } : {}) })
+}
+
+/**
+ * Space objects out in a row or column. With `gap`, they're packed that far
+ * apart from the first; without, the first and last stay put and the ones
+ * between are spread so the gaps are equal.
+ */
+export function executeDistributeObjects(
+  input: Record<string, unknown>,
+  objectsMap: Y.Map<BoardObject>
+): string {
+  const horizontal = input.direction !== 'vertical'
+  const gap = typeof input.gap === 'number' ? input.gap : undefined
+  const { found, missing } = findObjects(idList(input.ids), objectsMap)
+  if (found.length < (gap === undefined ? 3 : 2)) {
+    const needed = gap === undefined ? '3 existing objects (or a gap)' : '2 existing objects'
+    return JSON.stringify({ success: false, error: `Need at least ${needed} to distribute`, notFound: missing })
+  }
+
+  const pos = (o: BoardObject) => (horizontal ? o.x : o.y)
+  const size = (o: BoardObject) => (horizontal ? o.width : o.height)
+  const sorted = [...found].sort((a, b) => pos(a) - pos(b))
+  const first = sorted[0]
+  const last = sorted[sorted.length - 1]
+  const spacing = gap ?? ((pos(last) + size(last) - pos(first)) - sorted.reduce((sum, o) => sum + size(o), 0)) / (sorted.length - 1)
+
+  transact(objectsMap, () => {
+    let next = pos(first)
+    for (const obj of sorted) {
+      const at = Math.round(next)
+      objectsMap.set(obj.id, { ...obj, ...(horizontal ? { x: at } : { y: at }) })
+      next += size(obj) + spacing
+    }
   })
+  return JSON.stringify({
+    success: true,
+    distributed: sorted.map((o) => o.id),
+    direction: horizontal ? 'horizontal' : 'vertical',
+    gap: Math.round(spacing),
+    ...(missing.length > 0 ? { notFound: missing } : {}),
+  })
+}
+
+/**
+ * Resize a frame to wrap its children (objects with its parentId), inset
+ * by `padding` (default 15) plus room for the label at the top.
+ */
+export function executeFitFrameToChildren(
+  input: Record<string, unknown>,
+  objectsMap: Y.Map<BoardObject>
+): string {
+  const id = input.id as string
+  const frame = objectsMap.get(id)
+  if (!frame || frame.type !== 'frame') {
+    return JSON.stringify({ success: false, error: `Frame ${id} not found` })
+  }
+  const children = [...objectsMap.values()].filter((obj) => obj.parentId === id)
+  if (children.length === 0) {
+    return JSON.stringify({ success: false, error: `Frame ${id} has no children` })
+  }
+
+  const padding = typeof input.padding === 'number' ? input.padding : 15
+  const labelHeight = 20
+  const left = Math.min(...children.map((o) => o.x))
+  const top = Math.min(...children.map((o) => o.y))
+  const right = Math.max(...children.map((o) => o.x + o.width))
+  const bottom = Math.max(...children.map((o) => o.y + o.height))
+  const bounds = {
+    x: left - padding,
+    y: top - padding - labelHeight,
+    width: right - left + padding * 2,
+    height: bottom - top + padding * 2 + labelHeight,
+  }
+
+  objectsMap.set(id, { ...frame, ...bounds })
+  return JSON.stringify({ success: true, id, ...bounds })
+}
+
+/** Put objects in a frame (they move with it), or take them out with no parentId. */
+export function executeReparentObjects(
+  input: Record<string, unknown>,
+  objectsMap: Y.Map<BoardObject>
+): string {
+  const parentId = typeof input.parentId === 'string' ? input.parentId : null
+  if (parentId !== null && objectsMap.get(parentId)?.type !== 'frame') {
+    return JSON.stringify({ success: false, error: `Frame ${parentId} not found` })
+  }
+  const { found, missing } = findObjects(idList(input.ids).filter((id) => id !== parentId), objectsMap)
+  if (found.length === 0) {
+    return JSON.stringify({ success: false, error: 'None of the objects were found', notFound: missing })
+  }
+
+  transact(objectsMap, () => {
+    for (const obj of found) {
+      const { parentId: _previous, ...rest } = obj
+      objectsMap.set(obj.id, parentId ? { ...rest, parentId } : rest)
+    }
+  })
+  return JSON.stringify({ success: true, ids: found.map((o) => o.id), parentId, ...(missing.length > 0 ? { notFound: missing } : {}) })
+}
+
+// ---------------------------------------------------------------------------
+// Board Snapshot for System Prompt
+// ---------------------------------------------------------------------------
+
+const MAX_CONTEXT_OBJECTS = 30
+
+/** One line of board context per object. */
+function describeObject(obj: BoardObject): string {
+  let desc = `- ID: "${obj.id}" | Type: ${obj.type} | Position: (${obj.x}, ${obj.y}) | Size: ${obj.width}x${obj.height} | Color: ${obj.fill}`
+  if (obj.text) {
+    // JSON-quoted so multi-line markdown stays on one line of context
+    desc += ` | Text: ${JSON.stringify(obj.text)}`
+    const tasks = taskProgress(obj.text)
+    if (tasks.total > 0) desc += ` | Checklist: ${tasks.done}/${tasks.total} done`
+  }
+  if (obj.parentId) desc += ` | Parent: "${obj.parentId}"`
+  if (obj.fromId) desc += ` | From: "${obj.fromId}"`
+  if (obj.toId) desc += ` | To: "${obj.toId}"`
+  if (obj.points) desc += ` | Points: [${obj.points.join(', ')}]`
+  return desc
+}
+
+function inViewport(obj: BoardObject, view: ViewportBounds): boolean {
+  return rectsOverlap(obj.x, obj.y, obj.width, obj.height, view.x, view.y, view.width, view.height)
+}
+
+/**
+ * The board as the model sees it. With a scope, the selected objects come
+ * first — they are what "these" or "the selection" mean — and the rest are
+ * the ones in (then nearest) the user's viewport rather than nearest the
+ * middle of the board.
+ */
+export function buildBoardContext(objectsMap: Y.Map<BoardObject>, scope?: AICommandScope): string {
+  const allObjects = readObjects(objectsMap)
 
   if (allObjects.length === 0) {
     return 'The board is currently empty. No objects exist yet.'
@@ -244,53 +553,120 @@ export function buildBoardContext(objectsMap: Y.Map<BoardObject>): string {
   // Compute bounding box from ALL objects so the AI knows where free space starts
   const maxRight = Math.max(...allObjects.map((o) => o.x + o.width))
   const maxBottom = Math.max(...allObjects.map((o) => o.y + o.height))
-
-  // Cap to nearest 30 objects (by proximity to center of occupied area) to reduce token usage
-  const totalCount = allObjects.length
-  let objects = allObjects
-  if (objects.length > 30) {
-    const cx = objects.reduce((s, o) => s + o.x, 0) / objects.length
-    const cy = objects.reduce((s, o) => s + o.y, 0) / objects.length
+  const placement = `Occupied area bounding box: x:0-${maxRight}, y:0-${maxBottom}. Place new objects AFTER x:${maxRight + 30} (to the right) or AFTER y:${maxBottom + 30} (below) to avoid overlaps.`
+
+  const selectedIds = new Set(scope?.selectedIds ?? [])
+  const selected = allObjects.filter((o) => selectedIds.has(o.id))
+  const others = selected.length > 0 ? allObjects.filter((o) => !selectedIds.has(o.id)) : allObjects
+
+  // Cap to nearest 30 objects (by proximity to the viewport, else the center
+  // of the occupied area) to reduce token usage
+  const view = scope?.viewport
+  let objects = others
+  if (objects.length > MAX_CONTEXT_OBJECTS || (view && objects.length > 0)) {
+    const cx = view ? view.x + view.width / 2 : objects.reduce((s, o) => s + o.x, 0) / objects.length
+    const cy = view ? view.y + view.height / 2 : objects.reduce((s, o) => s + o.y, 0) / objects.length
+    const distance = (o: BoardObject) => (o.x - cx) ** 2 + (o.y - cy) ** 2
     objects = [...objects].sort((a, b) => {
-      const da = (a.x - cx) ** 2 + (a.y - cy) ** 2
-      const db = (b.x - cx) ** 2 + (b.y - cy) ** 2
-      return da - db
+      if (view) {
+        const inView = Number(inViewport(b, view)) - Number(inViewport(a, view))
+        if (inView !== 0) return inView
+      }
+      return distance(a) - distance(b)
     })
-    objects.length = 30
+    objects.length = Math.min(objects.length, MAX_CONTEXT_OBJECTS)
   }
 
-  const truncationNote = totalCount > 30 ? ` (showing nearest 30 of ${totalCount} total)` : ''
+  const truncationNote = others.length > MAX_CONTEXT_OBJECTS
+    ? ` (showing nearest ${MAX_CONTEXT_OBJECTS}${view ? ' to the viewport' : ''} of ${others.length} total)`
+    : ''
+  const viewportLine = view
+    ? `\nUser's viewport: x:${Math.round(view.x)}-${Math.round(view.x + view.width)}, y:${Math.round(view.y)}-${Math.round(view.y + view.height)}. Put new objects here when there is room.`
+    : ''
 
-  const summary = objects.map((obj) => {
-    let desc = `- ID: "${obj.id}" | Type: ${obj.type} | Position: (${obj.x}, ${obj.y}) | Size: ${obj.width}x${obj.height} | Color: ${obj.fill}`
-    if (obj.text) desc += ` | Text: "${obj.text}"`
-    if (obj.parentId) desc += ` | Parent: "${obj.parentId}"`
-    if (obj.fromId) desc += ` | From: "${obj.fromId}"`
-    if (obj.toId) desc += ` | To: "${obj.toId}"`
-    if (obj.points) desc += ` | Points: [${obj.points.join(', ')}]`
-    return desc
-  })
+  if (selected.length === 0) {
+    return `Current board objects (${allObjects.length} total)${truncationNote}:\n${objects.map(describeObject).join('\n')}\n\n${placement}${viewportLine}`
+  }
 
-  return `Current board objects (${totalCount} total)${truncationNote}:\n${summary.join('\n')}\n\nOccupied area bounding box: x:0-${maxRight}, y:0-${maxBottom}. Place new objects AFTER x:${maxRight + 30} (to the right) or AFTER y:${maxBottom + 30} (below) to avoid overlaps.`
+  return `Selected objects (${selected.length}) — "these", "them" and "the selection" mean these. Only selected objects (and objects you create) can be changed:\n${selected.map(describeObject).join('\n')}\n\nOther board objects (${others.length})${truncationNote}:\n${objects.map(describeObject).join('\n') || '(none)'}\n\n${placement}${viewportLine}`
+}
+
+/** What one AI command may touch, shared by its tool calls. */
+export interface ToolContext {
+  scope?: AICommandScope
+  /**
+   * IDs the command may change: the selection plus what it has created so
+   * far. Null when nothing is selected (anything may be changed).
+   */
+  editable: Set<string> | null
+}
+
+export function createToolContext(scope?: AICommandScope): ToolContext {
+  const selectedIds = scope?.selectedIds ?? []
+  return { scope, editable: selectedIds.length > 0 ? new Set(selectedIds) : null }
+}
+
+/** The existing objects a tool call would change, for the selection check. */
+function changedIds(toolName: string, input: Record<string, unknown>): string[] {
+  switch (toolName) {
+    case 'updateObject':
+    case 'moveObject':
+    case 'fitFrameToChildren':
+      return [input.id as string]
+    case 'deleteObjects':
+    case 'alignObjects':
+    case 'distributeObjects':
+    case 'reparentObjects':
+      return idList(input.ids)
+    default:
+      return []
+  }
 }
 
 /**
  * Execute a tool by name. Dispatches to the appropriate executor.
+ * With a selection in `context`, changes to unselected objects are refused.
  */
 export function executeTool(
   toolName: string,
   input: Record<string, unknown>,
-  objectsMap: Y.Map<BoardObject>
+  objectsMap: Y.Map<BoardObject>,
+  context: ToolContext = createToolContext(),
 ): string {
+  const { editable } = context
+  const outside = editable ? changedIds(toolName, input).filter((id) => !editable.has(id)) : []
+  if (outside.length > 0) {
+    return JSON.stringify({ success: false, error: `Object ${outside.join(', ')} is not selected; only the selection can be changed` })
+  }
+
   switch (toolName) {
     case 'createObject':
-      return executeCreateObject(input, objectsMap)
+    case 'connectObjects': {
+      const result = toolName === 'createObject'
+        ? executeCreateObject(input, objectsMap)
+        : executeConnectObjects(input, objectsMap)
+      const { id } = JSON.parse(result) as { id?: string }
+      if (editable && id) editable.add(id)
+      return result
+    }
     case 'updateObject':
       return executeUpdateObject(input, objectsMap)
     case 'moveObject':
       return executeMoveObject(input, objectsMap)
+    case 'deleteObjects':
+      return executeDeleteObjects(input, objectsMap)
+    case 'updateObjectsByFilter':
+      return executeUpdateObjectsByFilter(input, objectsMap, editable)
+    case 'alignObjects':
+      return executeAlignObjects(input, objectsMap)
+    case 'distributeObjects':
+      return executeDistributeObjects(input, objectsMap)
+    case 'fitFrameToChildren':
+      return executeFitFrameToChildren(input, objectsMap)
+    case 'reparentObjects':
+      return executeReparentObjects(input, objectsMap)
     case 'getBoardState':
-      return buildBoardContext(objectsMap)
+      return buildBoardContext(objectsMap, context.scope)
     default:
       return JSON.stringify({ success: false, error: `Unknown tool: ${toolName}` })
   }
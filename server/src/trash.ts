@@ -0,0 +1,48 @@
+/**
+ * Board Trash
+ *
+ * Deleting a board only stamps its deleted_at: it disappears from the
+ * dashboard and can no longer be opened, but its owner can restore it from
+ * the trash for TRASH_RETENTION_MS. After that the sweeper purges it for
+ * good, together with its snapshot, log, versions and the rest.
+ */
+
+import { persistence, type BoardRecord } from './db/persistence.js'
+
+/** How long a trashed board can be restored (30 days). */
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+/** How often the server sweeps expired boards out of the trash (1 hour). */
+export const TRASH_SWEEP_INTERVAL_MS = 60 * 60 * 1000
+
+export function isTrashed(board: BoardRecord): boolean {
+  return Boolean(board.deleted_at)
+}
+
+/** When a trashed board will be purged, or null if it isn't in the trash. */
+export function purgeAt(board: BoardRecord): string | null {
+  if (!board.deleted_at) return null
+  return new Date(new Date(board.deleted_at).getTime() + TRASH_RETENTION_MS).toISOString()
+}
+
+/**
+ * Permanently delete every board whose retention has run out.
+ * A board that fails to delete is logged and retried on the next sweep.
+ * Returns the ids that were purged, so their rooms can be dropped.
+ */
+export async function sweepTrash(now = new Date()): Promise<string[]> {
+  const boards = await persistence.listBoards()
+  const purged: string[] = []
+  for (const board of boards) {
+    const expiry = purgeAt(board)
+    if (expiry === null || new Date(expiry).getTime() > now.getTime()) continue
+    try {
+      await persistence.deleteBoard(board.id)
+      purged.push(board.id)
+    } catch (err) {
+      console.error(`[Trash] Failed to purge board ${board.id}:`, err)
+    }
+  }
+  if (purged.length > 0) console.log(`[Trash] Purged ${purged.length} expired board(s)`)
+  return purged
+}
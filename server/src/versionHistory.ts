@@ -0,0 +1,94 @@
+/**
+ * Board Version History
+ *
+ * Checkpoints are full Yjs states stored through the PersistenceAdapter:
+ *  - automatic: once an hour for every room edited since its last checkpoint
+ *  - named: on demand via POST /api/boards/:id/versions
+ *
+ * Restoring never replaces the live doc. The old state is decoded into a
+ * scratch doc, diffed against the live `objects` map, and the differences
+ * are applied as ONE new transaction — so connected clients simply receive
+ * another update and converge without reloading.
+ */
+
+import * as Y from 'yjs'
+import { persistence, type BoardVersion, type NewVersion } from './db/persistence.js'
+import type { BoardObject } from '../../shared/types.js'
+import { deleteObject, readObject, readObjects, writeObject } from './objectText.js'
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export const CHECKPOINT_INTERVAL_MS = 3_600_000 // 1 hour
+export const MAX_VERSION_NAME_LENGTH = 100
+
+/** Transaction origin for restores (broadcast like any server-side mutation). */
+export const RESTORE_ORIGIN = 'version-restore'
+
+// ---------------------------------------------------------------------------
+// Checkpoints
+// ---------------------------------------------------------------------------
+
+/**
+ * Save the current state of `doc` as a new version of `boardId`.
+ */
+export function createCheckpoint(boardId: string, doc: Y.Doc, meta: NewVersion): Promise<BoardVersion> {
+  return persistence.saveVersion(boardId, Y.encodeStateAsUpdate(doc), meta)
+}
+
+/** Default name for an hourly checkpoint, e.g. "Auto-save 2026-02-20 14:00 UTC". */
+export function autoCheckpointName(now = new Date()): string {
+  return `Auto-save ${now.toISOString().slice(0, 16).replace('T', ' ')} UTC`
+}
+
+// ---------------------------------------------------------------------------
+// Restore
+// ---------------------------------------------------------------------------
+
+export interface RestoreSummary {
+  added: number
+  updated: number
+  deleted: number
+}
+
+/** Key-order-independent JSON, since text may come from Y.Text or the object. */
+function canonical(obj: BoardObject): string {
+  return JSON.stringify(obj, Object.keys(obj).sort())
+}
+
+/**
+ * Bring `doc`'s objects map back to the contents stored in `state`,
+ * as a single forward transaction on the live doc.
+ */
+export function restoreDocToState(doc: Y.Doc, state: Uint8Array): RestoreSummary {
+  const scratch = new Y.Doc()
+  Y.applyUpdate(scratch, state)
+  const target = new Map(readObjects(scratch.getMap<BoardObject>('objects')).map((o) => [o.id, o]))
+  scratch.destroy()
+
+  const objectsMap = doc.getMap<BoardObject>('objects')
+  const summary: RestoreSummary = { added: 0, updated: 0, deleted: 0 }
+
+  doc.transact(() => {
+    for (const key of Array.from(objectsMap.keys())) {
+      if (!target.has(key)) {
+        deleteObject(objectsMap, key)
+        summary.deleted++
+      }
+    }
+
+    for (const [key, obj] of target) {
+      const current = readObject(objectsMap, key)
+      if (current === undefined) {
+        writeObject(objectsMap, obj)
+        summary.added++
+      } else if (canonical(current) !== canonical(obj)) {
+        writeObject(objectsMap, obj)
+        summary.updated++
+      }
+    }
+  }, RESTORE_ORIGIN)
+
+  return summary
+}
@@ -7,6 +7,7 @@
  * Event flow:
  *   status("thinking") → [tool_result]* → text_delta* → done
  *   status("thinking") → error  (on failure)
+ *   error(code)  (over a rate limit or quota; sent with HTTP 429)
  *   [tool_result]* → done(cached: true)  (on cache hit, instant)
  */
 
@@ -37,12 +38,18 @@ export interface AIStreamDoneEvent {
   actions: ToolAction[]
   /** True when the result came from the command cache (instant, no API call). */
   cached?: boolean
+  /** Set when the command changed the board and can be undone (POST /api/ai/undo). */
+  commandId?: string
 }
 
-/** AI processing failed. */
+/** AI processing failed, or was refused by a rate limit or quota. */
 export interface AIStreamErrorEvent {
   type: 'error'
   error: string
+  /** Set when the request was refused for going over a limit. */
+  code?: 'rate_limited' | 'quota_exceeded'
+  /** Seconds until a retry can succeed, with `code`. */
+  retryAfter?: number
 }
 
 /** Union type for all possible stream events. */
@@ -0,0 +1,29 @@
+/**
+ * Portable board file format.
+ *
+ * Produced by GET /api/boards/:id/export?format=json and accepted by the
+ * import endpoints. `schemaVersion` is bumped whenever the shape of
+ * BoardObject changes incompatibly; the server migrates older files forward
+ * on import and rejects files from newer versions.
+ */
+
+import type { BoardObject } from './types.js'
+
+/** Marker identifying a CollabBoard file. */
+export const BOARD_DOCUMENT_FORMAT = 'collabboard'
+
+/** Current schema version written by export. */
+export const BOARD_SCHEMA_VERSION = 1
+
+export interface BoardDocument {
+  format: typeof BOARD_DOCUMENT_FORMAT
+  schemaVersion: number
+  exportedAt: string
+  board: {
+    id: string
+    name: string
+    created_at: string
+    updated_at: string
+  }
+  objects: BoardObject[]
+}
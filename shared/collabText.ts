@@ -0,0 +1,60 @@
+/**
+ * Collaborative text helpers shared by client and server.
+ *
+ * Sticky, text and frame objects keep their text in a Y.Text stored in the
+ * doc-level `texts` map (see TEXT_MAP) rather than in the object JSON, so
+ * two people typing into the same note merge character by character.
+ * Shared code can't import yjs, so each side wraps these pure helpers.
+ */
+
+import type { ObjectType } from './types.js'
+
+/** Object types whose text lives in a Y.Text. Shape labels stay in the JSON. */
+export const COLLAB_TEXT_TYPES: readonly ObjectType[] = ['sticky', 'text', 'frame']
+
+export function hasCollabText(type: ObjectType): boolean {
+  return COLLAB_TEXT_TYPES.includes(type)
+}
+
+/** A single splice turning one string into another. */
+export interface TextChange {
+  index: number
+  remove: number
+  insert: string
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff
+}
+
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xdc00 && code <= 0xdfff
+}
+
+/**
+ * Smallest single splice from `before` to `after` (common prefix and
+ * suffix trimmed), or null if they're equal. Never splits a surrogate
+ * pair, so emoji survive being typed next to.
+ */
+export function diffText(before: string, after: string): TextChange | null {
+  if (before === after) return null
+
+  let start = 0
+  const max = Math.min(before.length, after.length)
+  while (start < max && before.charCodeAt(start) === after.charCodeAt(start)) start++
+  if (start > 0 && isHighSurrogate(before.charCodeAt(start - 1))) start--
+
+  let end = 0
+  const maxEnd = max - start
+  while (
+    end < maxEnd &&
+    before.charCodeAt(before.length - 1 - end) === after.charCodeAt(after.length - 1 - end)
+  ) end++
+  if (end > 0 && isLowSurrogate(before.charCodeAt(before.length - end))) end--
+
+  return {
+    index: start,
+    remove: before.length - start - end,
+    insert: after.slice(start, after.length - end),
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Comment threads shared by client and server.
+ *
+ * Threads live in the doc-level `comments` map (see COMMENTS_MAP), apart
+ * from the board objects, so discussion never clutters the canvas or the
+ * undo stack. The map is flat: each thread and each message is its own
+ * entry keyed by ID, so two people replying at once add two keys instead
+ * of overwriting one thread value.
+ *
+ * A thread is pinned either to an object (offset from its top-left, so
+ * the pin follows it around) or to a point on the board.
+ */
+
+/** Longest comment body, in characters. */
+export const MAX_COMMENT_LENGTH = 2000
+
+export type CommentAnchor =
+  | { objectId: string; dx: number; dy: number }
+  | { x: number; y: number }
+
+/** A board member named in a comment with `@Name`. */
+export interface CommentMention {
+  userId: string
+  name: string
+}
+
+export interface CommentThread {
+  kind: 'thread'
+  id: string
+  anchor: CommentAnchor
+  createdAt: string
+  resolved: boolean
+  /** Who resolved it, while resolved. */
+  resolvedBy?: string | null
+}
+
+export interface CommentMessage {
+  kind: 'message'
+  id: string
+  threadId: string
+  /** Verified user ID, or null for guests. */
+  authorId: string | null
+  authorName: string
+  text: string
+  mentions: CommentMention[]
+  createdAt: string
+}
+
+export type CommentEntry = CommentThread | CommentMessage
+
+/** A thread with its messages, oldest first. The first message opened it. */
+export interface CommentThreadView extends CommentThread {
+  messages: CommentMessage[]
+}
+
+/**
+ * Group map entries into threads, newest thread first. Threads whose
+ * opening message hasn't arrived and messages without a thread are skipped.
+ */
+export function collectThreads(entries: Iterable<CommentEntry>): CommentThreadView[] {
+  const threads = new Map<string, CommentThreadView>()
+  const messages: CommentMessage[] = []
+  for (const entry of entries) {
+    if (entry.kind === 'thread') threads.set(entry.id, { ...entry, messages: [] })
+    else if (entry.kind === 'message') messages.push(entry)
+  }
+
+  messages.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id))
+  for (const message of messages) threads.get(message.threadId)?.messages.push(message)
+
+  return [...threads.values()]
+    .filter((t) => t.messages.length > 0)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || a.id.localeCompare(b.id))
+}
+
+/** Anchor a pin dropped at `point`, on `object` if it landed on one. */
+export function anchorAt(point: { x: number; y: number }, object?: { id: string; x: number; y: number }): CommentAnchor {
+  if (!object) return { x: point.x, y: point.y }
+  return { objectId: object.id, dx: point.x - object.x, dy: point.y - object.y }
+}
+
+/**
+ * Where a thread's pin sits on the board, or null when the object it was
+ * pinned to has been deleted.
+ */
+export function anchorPoint(
+  anchor: CommentAnchor,
+  objects: ReadonlyMap<string, { x: number; y: number }>,
+): { x: number; y: number } | null {
+  if (!('objectId' in anchor)) return { x: anchor.x, y: anchor.y }
+  const object = objects.get(anchor.objectId)
+  return object ? { x: object.x + anchor.dx, y: object.y + anchor.dy } : null
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u
+
+/** Whether `@name` starts at `at` in `lower` as a whole word (not inside an email address). */
+function mentionAt(lower: string, at: number, name: string): boolean {
+  return (
+    lower.startsWith(`@${name}`, at) &&
+    !WORD_CHAR.test(lower.charAt(at - 1)) &&
+    !WORD_CHAR.test(lower.charAt(at + 1 + name.length))
+  )
+}
+
+/**
+ * The people `@Name`d in `text`. Names match case-insensitively as whole
+ * words; the longest name wins ("@Ann Lee" over "@Ann").
+ */
+export function extractMentions(text: string, people: readonly CommentMention[]): CommentMention[] {
+  const byLength = [...people].filter((p) => p.name).sort((a, b) => b.name.length - a.name.length)
+  const lower = text.toLowerCase()
+  const found = new Map<string, CommentMention>()
+
+  for (let at = lower.indexOf('@'); at !== -1; at = lower.indexOf('@', at + 1)) {
+    const person = byLength.find((p) => mentionAt(lower, at, p.name.toLowerCase()))
+    if (person && !found.has(person.userId)) found.set(person.userId, { userId: person.userId, name: person.name })
+  }
+  return [...found.values()]
+}
+
+/** Split comment text into plain runs and `@Name` runs for the given mentions. */
+export function splitMentions(text: string, mentions: readonly CommentMention[]): Array<{ text: string; mention: boolean }> {
+  const names = mentions.map((m) => m.name.toLowerCase()).sort((a, b) => b.length - a.length)
+  const parts: Array<{ text: string; mention: boolean }> = []
+  const lower = text.toLowerCase()
+  let plainStart = 0
+
+  for (let at = 0; at < text.length; at++) {
+    if (text[at] !== '@') continue
+    const name = names.find((n) => mentionAt(lower, at, n))
+    if (name === undefined) continue
+    if (at > plainStart) parts.push({ text: text.slice(plainStart, at), mention: false })
+    parts.push({ text: text.slice(at, at + 1 + name.length), mention: true })
+    plainStart = at + 1 + name.length
+    at = plainStart - 1
+  }
+  if (plainStart < text.length) parts.push({ text: text.slice(plainStart), mention: false })
+  return parts
+}
@@ -0,0 +1,109 @@
+/**
+ * Connector geometry shared by the canvas and server-side export.
+ *
+ * A line's endpoints come from its `points` array unless it is attached to
+ * other objects via fromId/toId, in which case that end snaps to the edge
+ * of the attached object, facing the other end.
+ */
+
+import type { BoardObject } from './types.js'
+
+/** Fallback points for a line that has none. */
+const DEFAULT_LINE_POINTS = [0, 0, 100, 0]
+
+/**
+ * Get the center point of a shape for connector attachment.
+ */
+export function getObjectCenter(obj: BoardObject): { x: number; y: number } {
+  return {
+    x: obj.x + obj.width / 2,
+    y: obj.y + obj.height / 2,
+  }
+}
+
+/**
+ * Get the edge intersection point where a line from center hits the bounding box.
+ * This makes connectors attach to the nearest edge instead of always the center.
+ */
+export function getEdgePoint(
+  obj: BoardObject,
+  targetX: number,
+  targetY: number,
+): { x: number; y: number } {
+  const cx = obj.x + obj.width / 2
+  const cy = obj.y + obj.height / 2
+  const dx = targetX - cx
+  const dy = targetY - cy
+
+  if (dx === 0 && dy === 0) return { x: cx, y: cy }
+
+  const hw = obj.width / 2
+  const hh = obj.height / 2
+
+  // For circles, use radius intersection
+  if (obj.type === 'circle') {
+    const dist = Math.sqrt(dx * dx + dy * dy)
+    const r = Math.min(hw, hh)
+    if (dist === 0) return { x: cx, y: cy }
+    return {
+      x: cx + (dx / dist) * r,
+      y: cy + (dy / dist) * r,
+    }
+  }
+
+  // For rectangles/other shapes, find edge intersection
+  const scaleX = Math.abs(dx) / hw
+  const scaleY = Math.abs(dy) / hh
+  const s = Math.max(scaleX, scaleY)
+
+  if (s === 0) return { x: cx, y: cy }
+
+  return {
+    x: cx + dx / s,
+    y: cy + dy / s,
+  }
+}
+
+/**
+ * Resolve a line's absolute endpoints, snapping attached ends to the edges
+ * of the objects they connect. `findObject` looks up objects by ID.
+ */
+export function resolveLineEndpoints(
+  obj: BoardObject,
+  findObject: (id: string) => BoardObject | undefined,
+): { x1: number; y1: number; x2: number; y2: number } {
+  const fromObj = obj.fromId ? findObject(obj.fromId) : undefined
+  const toObj = obj.toId ? findObject(obj.toId) : undefined
+  const rawPts = obj.points ?? DEFAULT_LINE_POINTS
+
+  if (fromObj && toObj) {
+    // Both connected — use edge-to-edge
+    const fromCenter = getObjectCenter(fromObj)
+    const toCenter = getObjectCenter(toObj)
+    const start = getEdgePoint(fromObj, toCenter.x, toCenter.y)
+    const end = getEdgePoint(toObj, fromCenter.x, fromCenter.y)
+    return { x1: start.x, y1: start.y, x2: end.x, y2: end.y }
+  }
+
+  if (fromObj) {
+    const x2 = obj.x + rawPts[2]
+    const y2 = obj.y + rawPts[3]
+    const start = getEdgePoint(fromObj, x2, y2)
+    return { x1: start.x, y1: start.y, x2, y2 }
+  }
+
+  if (toObj) {
+    const x1 = obj.x + rawPts[0]
+    const y1 = obj.y + rawPts[1]
+    const end = getEdgePoint(toObj, x1, y1)
+    return { x1, y1, x2: end.x, y2: end.y }
+  }
+
+  // Freestanding line
+  return {
+    x1: obj.x + rawPts[0],
+    y1: obj.y + rawPts[1],
+    x2: obj.x + rawPts[2],
+    y2: obj.y + rawPts[3],
+  }
+}
@@ -9,11 +9,35 @@
 // WebSocket Protocol
 // ---------------------------------------------------------------------------
 
-export const MSG_YJS = 0
+// y-protocols message types (varUint-prefixed, as y-websocket uses them)
+export const MSG_SYNC = 0
 export const MSG_AWARENESS = 1
+/** y-protocols auth: the server tells a client its update was rejected, and why. */
+export const MSG_AUTH = 2
+export const MSG_QUERY_AWARENESS = 3
+
+/**
+ * Close code for a socket whose user may not open the board: access denied
+ * or revoked, or the board deleted. Clients drop their offline copy. Other
+ * refusals (e.g. a missing or expired token) use 1008 and keep it.
+ */
+export const WS_CLOSE_NO_ACCESS = 4403
 
 // ---------------------------------------------------------------------------
 // Defaults
 // ---------------------------------------------------------------------------
 
 export const DEFAULT_BOARD_ID = 'mvp-board-1'
+
+/** Shared sandbox for signed-out guests — the only room open without a token. */
+export const GUEST_BOARD_ID = 'guest-sandbox'
+
+// ---------------------------------------------------------------------------
+// Yjs document layout
+// ---------------------------------------------------------------------------
+
+/** Doc-level map of object ID → Y.Text for types with collaborative text. */
+export const TEXT_MAP = 'texts'
+
+/** Doc-level map of comment threads and messages (see comments.ts). */
+export const COMMENTS_MAP = 'comments'
@@ -0,0 +1,141 @@
+/**
+ * Markdown subset for sticky notes and text objects.
+ *
+ * `BoardObject.text` stays a plain string holding the markdown source, so
+ * it syncs, imports/exports and feeds the AI exactly as before. Supported:
+ *
+ *   **bold** / __bold__        *italic* / _italic_
+ *   - item  (also * or +)      - [ ] todo / - [x] done
+ *   [label](https://…)         bare http(s):// URLs
+ *
+ * Only http(s) and mailto links are clickable; anything else (e.g.
+ * `javascript:`) renders as plain text. Used by the canvas renderer, the
+ * server-side export and the AI board context.
+ */
+
+export interface MarkdownSpan {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  href?: string
+}
+
+export interface MarkdownLine {
+  kind: 'paragraph' | 'bullet' | 'task'
+  /** Nesting level from leading whitespace (two spaces per level). */
+  indent: number
+  /** Task lines only. */
+  checked?: boolean
+  spans: MarkdownSpan[]
+  /** Index of the source line in `text.split('\n')`, for toggleTask. */
+  line: number
+}
+
+const TASK_LINE = /^(\s*)[-*+]\s+\[([ xX])\](?:\s+(.*))?$/
+const BULLET_LINE = /^(\s*)[-*+•]\s+(.*)$/
+
+/**
+ * Inline tokens, in priority order: link, bold (** / __), italic (* / _),
+ * bare URL. Underscores only count at word boundaries so snake_case
+ * identifiers stay intact.
+ */
+const INLINE =
+  /\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|(?<!\w)__(.+?)__(?!\w)|\*(?!\s)(.+?)\*|(?<!\w)_(?!\s)(.+?)_(?!\w)|(https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"])/
+
+const SAFE_HREF = /^(?:https?:\/\/|mailto:)/i
+
+/** The href if it is safe to open, otherwise undefined. */
+export function safeHref(url: string): string | undefined {
+  return SAFE_HREF.test(url) ? url : undefined
+}
+
+type SpanStyle = Omit<MarkdownSpan, 'text'>
+
+export function parseInline(text: string, style: SpanStyle = {}): MarkdownSpan[] {
+  const spans: MarkdownSpan[] = []
+  const push = (t: string, s: SpanStyle) => {
+    if (!t) return
+    const last = spans[spans.length - 1]
+    if (last && last.bold === s.bold && last.italic === s.italic && last.href === s.href) last.text += t
+    else spans.push({ text: t, ...s })
+  }
+
+  let rest = text
+  while (rest) {
+    const m = INLINE.exec(rest)
+    if (!m) {
+      push(rest, style)
+      break
+    }
+    push(rest.slice(0, m.index), style)
+
+    const [whole, label, url, bold1, bold2, italic1, italic2, bare] = m
+    if (label !== undefined) {
+      const href = safeHref(url)
+      for (const span of parseInline(label, href ? { ...style, href } : style)) push(span.text, span)
+    } else if (bold1 !== undefined || bold2 !== undefined) {
+      for (const span of parseInline(bold1 ?? bold2, { ...style, bold: true })) push(span.text, span)
+    } else if (italic1 !== undefined || italic2 !== undefined) {
+      for (const span of parseInline(italic1 ?? italic2, { ...style, italic: true })) push(span.text, span)
+    } else {
+      push(bare, { ...style, href: bare })
+    }
+    rest = rest.slice(m.index + whole.length)
+  }
+  return spans
+}
+
+export function parseMarkdown(text: string): MarkdownLine[] {
+  return text.split('\n').map((source, line) => {
+    const task = TASK_LINE.exec(source)
+    if (task) {
+      return {
+        kind: 'task',
+        indent: indentLevel(task[1]),
+        checked: task[2] !== ' ',
+        spans: parseInline(task[3] ?? ''),
+        line,
+      }
+    }
+    const bullet = BULLET_LINE.exec(source)
+    if (bullet) {
+      return { kind: 'bullet', indent: indentLevel(bullet[1]), spans: parseInline(bullet[2]), line }
+    }
+    return { kind: 'paragraph', indent: 0, spans: parseInline(source), line }
+  })
+}
+
+function indentLevel(whitespace: string): number {
+  return Math.floor(whitespace.replace(/\t/g, '  ').length / 2)
+}
+
+/** Flip the checkbox on source line `line`. Non-task lines are left alone. */
+export function toggleTask(text: string, line: number): string {
+  const lines = text.split('\n')
+  const match = TASK_LINE.exec(lines[line] ?? '')
+  if (!match) return text
+  lines[line] = lines[line].replace(/\[([ xX])\]/, match[2] === ' ' ? '[x]' : '[ ]')
+  return lines.join('\n')
+}
+
+/** Checked and total checkbox counts. */
+export function taskProgress(text: string): { done: number; total: number } {
+  const tasks = parseMarkdown(text).filter((l) => l.kind === 'task')
+  return { done: tasks.filter((t) => t.checked).length, total: tasks.length }
+}
+
+/**
+ * Readable plain text: markers removed, bullets as "•", checkboxes as
+ * "☐"/"☑", links as their label. Used where rich rendering isn't available.
+ */
+export function markdownToPlainText(text: string): string {
+  return parseMarkdown(text)
+    .map((l) => {
+      const body = l.spans.map((s) => s.text).join('')
+      const pad = '  '.repeat(l.indent)
+      if (l.kind === 'bullet') return `${pad}• ${body}`
+      if (l.kind === 'task') return `${pad}${l.checked ? '☑' : '☐'} ${body}`
+      return body
+    })
+    .join('\n')
+}
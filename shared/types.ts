@@ -31,6 +31,24 @@ export type BoardObject = {
 /** Active tool selected in the toolbar. */
 export type ToolType = 'select' | 'sticky' | 'rect' | 'circle' | 'text' | 'frame' | 'line' | 'arrow'
 
+/** A rectangle on the board, in board (world) coordinates. */
+export interface ViewportBounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * What the user had selected and could see when they sent an AI command.
+ * With a selection, "these" / "them" mean the selected objects, and the
+ * command may only change those (and objects it creates).
+ */
+export interface AICommandScope {
+  selectedIds: string[]
+  viewport?: ViewportBounds
+}
+
 /** A single tool-call action returned by the AI agent. */
 export interface ToolAction {
   tool: string